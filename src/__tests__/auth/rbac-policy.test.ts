@@ -0,0 +1,141 @@
+/**
+ * RBAC Policy Tests
+ *
+ * Verifies role evaluation, network permissions and policy hot reload
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  authorizationError,
+  evaluatePolicy,
+  RbacPolicyStore,
+  toolAction,
+  type RbacPolicy,
+} from '../../auth/rbac-policy';
+import { toolCallNetwork } from '../../services/CustomerContextManager';
+
+describe('RBAC policy', () => {
+  const policy: RbacPolicy = {
+    roles: {
+      sre: { tools: ['*'], networks: ['staging', 'production'] },
+      secops: { domains: ['security', 'appsec'], denyTools: ['security_*_delete'] },
+      analyst: { tools: ['*'], readOnly: true },
+    },
+    principals: {
+      tok_sre: { grants: [{ customers: ['acme-*'], roles: ['sre'] }] },
+      tok_sec: { grants: [{ customers: ['*'], roles: ['secops', 'analyst'] }] },
+      anonymous: { grants: [{ customers: ['default'], roles: ['analyst'] }] },
+    },
+  };
+
+  it('should scope grants to customer sections', () => {
+    expect(evaluatePolicy(policy, { principal: 'tok_sre', customer: 'acme-prod', tool: 'property_activate', action: 'write', network: 'production' }))
+      .toMatchObject({ allowed: true, roles: ['sre'] });
+    expect(evaluatePolicy(policy, { principal: 'tok_sre', customer: 'globex', tool: 'property_list', action: 'read' }))
+      .toMatchObject({ allowed: false, reason: "No grant for customer 'globex'" });
+  });
+
+  it('should apply domain allow lists, deny lists and read-only roles', () => {
+    const request = { principal: 'tok_sec', customer: 'default' } as const;
+
+    expect(evaluatePolicy(policy, { ...request, tool: 'security_waf_policy_update', action: 'write' }).allowed).toBe(true);
+    expect(evaluatePolicy(policy, { ...request, tool: 'security_waf_policy_delete', action: 'write' }).allowed).toBe(false);
+    expect(evaluatePolicy(policy, { ...request, tool: 'property_list', action: 'read' }).allowed).toBe(true);
+    expect(evaluatePolicy(policy, { ...request, tool: 'property_create', action: 'write' }).allowed).toBe(false);
+  });
+
+  it('should only allow production network changes when granted', () => {
+    const decision = evaluatePolicy(policy, {
+      principal: 'tok_sec',
+      customer: 'default',
+      tool: 'security_network_list_activate',
+      action: 'write',
+      network: 'production',
+    });
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain('production');
+  });
+
+  it('should deny verb-first mutations to read-only roles', () => {
+    const request = { principal: 'anonymous', customer: 'default', network: 'production' } as const;
+
+    for (const tool of ['activate-network-list', 'delete-network-list']) {
+      expect(toolAction(tool)).toBe('write');
+      expect(evaluatePolicy(policy, { ...request, tool, action: toolAction(tool) }))
+        .toMatchObject({ allowed: false, reason: "role 'analyst' is read-only" });
+    }
+    expect(toolAction('list-network-lists')).toBe('read');
+    expect(toolAction('dns.traffic.load-balancing.list')).toBe('write');
+  });
+
+  it('should check the most privileged network a call can change', () => {
+    expect(toolCallNetwork('dns_zone_activate', { zone: 'example.com' })).toBe('production');
+    expect(toolCallNetwork('activate-zone-changes', { zone: 'example.com', network: 'STAGING' })).toBe('production');
+    expect(toolCallNetwork('bulk_activate_properties', {
+      activations: [{ propertyId: 'prp_1', network: 'STAGING' }, { propertyId: 'prp_2', network: 'PRODUCTION' }],
+    })).toBe('production');
+    expect(toolCallNetwork('include_activate', { includeId: 'inc_1' })).toBe('production');
+    expect(toolCallNetwork('property_activate', { propertyId: 'prp_1', network: 'staging' })).toBe('staging');
+    expect(toolCallNetwork('property_list', {})).toBeUndefined();
+  });
+
+  it('should fall back to the anonymous principal without a token', () => {
+    expect(evaluatePolicy(policy, { customer: 'default', tool: 'dns_zones_list', action: 'read' }).allowed).toBe(true);
+    expect(evaluatePolicy(policy, { principal: 'tok_unknown', customer: 'default', tool: 'dns_zones_list', action: 'read' }))
+      .toMatchObject({ allowed: false, principal: 'tok_unknown' });
+  });
+
+  it('should report denials as structured MCP errors', () => {
+    const error = authorizationError({ allowed: false, principal: 'tok_sec', reason: 'read-only' }, 'property_delete', 'default');
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.data).toMatchObject({ type: 'authorization_denied', tool: 'property_delete', principal: 'tok_sec' });
+  });
+
+  describe('RbacPolicyStore', () => {
+    let dir: string;
+    let store: RbacPolicyStore | undefined;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'alecs-rbac-'));
+    });
+
+    afterEach(() => {
+      store?.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should allow everything when no policy is configured', () => {
+      store = new RbacPolicyStore(undefined);
+      expect(store.evaluate({ customer: 'default', tool: 'property_delete', action: 'write' }).allowed).toBe(true);
+    });
+
+    it('should fail closed when the policy file is invalid', () => {
+      const file = join(dir, 'policy.json');
+      writeFileSync(file, '{ not json');
+      store = new RbacPolicyStore(file);
+
+      expect(store.evaluate({ customer: 'default', tool: 'property_list', action: 'read' }).allowed).toBe(false);
+    });
+
+    it('should reload the policy when the file changes', async () => {
+      const file = join(dir, 'policy.json');
+      writeFileSync(file, JSON.stringify({ ...policy, principals: {} }));
+      store = new RbacPolicyStore(file);
+      const request = { customer: 'default', tool: 'property_list', action: 'read' } as const;
+
+      expect(store.evaluate(request).allowed).toBe(false);
+
+      // Let the watcher take its baseline stat before editing
+      await new Promise(resolve => setTimeout(resolve, 1200));
+      writeFileSync(file, JSON.stringify(policy));
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      expect(store.evaluate(request).allowed).toBe(true);
+    });
+  });
+});
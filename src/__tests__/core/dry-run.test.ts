@@ -0,0 +1,88 @@
+/**
+ * Dry-Run Plan Mode Tests
+ *
+ * Verifies request capture, mutation detection and plan diffs
+ */
+
+import {
+  capturePlannedRequest,
+  diffJson,
+  executeAsPlan,
+  isMutatingRequest,
+  isPlanRequested,
+} from '../../core/dry-run';
+import type { AkamaiClient } from '../../akamai-client';
+
+describe('Dry-run plan mode', () => {
+  const originalReadOnly = process.env['ALECS_READ_ONLY'];
+
+  afterEach(() => {
+    if (originalReadOnly === undefined) {
+      delete process.env['ALECS_READ_ONLY'];
+    } else {
+      process.env['ALECS_READ_ONLY'] = originalReadOnly;
+    }
+  });
+
+  it('should treat reads and read-style POSTs as non-mutating', () => {
+    expect(isMutatingRequest('GET', '/papi/v1/properties')).toBe(false);
+    expect(isMutatingRequest(undefined, '/papi/v1/properties')).toBe(false);
+    expect(isMutatingRequest('POST', '/reporting-api/v1/reports/traffic/data')).toBe(false);
+    expect(isMutatingRequest('POST', '/papi/v1/properties')).toBe(true);
+    expect(isMutatingRequest('delete', '/config-dns/v2/zones/example.com')).toBe(true);
+  });
+
+  it('should enter plan mode for dryRun or ALECS_READ_ONLY', () => {
+    delete process.env['ALECS_READ_ONLY'];
+    expect(isPlanRequested({ dryRun: true })).toBe(true);
+    expect(isPlanRequested({ customer: 'default' })).toBe(false);
+
+    process.env['ALECS_READ_ONLY'] = '1';
+    expect(isPlanRequested({})).toBe(true);
+  });
+
+  it('should only capture requests inside a plan context', () => {
+    expect(capturePlannedRequest({ method: 'PUT', path: '/papi/v1/x' })).toBe(false);
+  });
+
+  it('should diff nested objects by JSON pointer path', () => {
+    expect(diffJson(
+      { ttl: 300, rdata: ['1.2.3.4'], comment: 'old' },
+      { ttl: 600, rdata: ['1.2.3.4', '5.6.7.8'] }
+    )).toEqual([
+      { path: '/ttl', op: 'replace', before: 300, after: 600 },
+      { path: '/rdata/1', op: 'add', after: '5.6.7.8' },
+      { path: '/comment', op: 'remove', before: 'old' },
+    ]);
+  });
+
+  it('should return a plan with the current state of updated resources', async () => {
+    const client = {
+      request: jest.fn(async (options: { method?: string }) => {
+        if (options.method === 'GET') {
+          return { ttl: 300 };
+        }
+        // Mirrors AkamaiClient.request while a plan context is active
+        capturePlannedRequest({ method: options.method!, path: '/config-dns/v2/zones/a.com/names/www/types/A', body: { ttl: 600 } });
+        return {};
+      }),
+    } as unknown as AkamaiClient;
+
+    const outcome = await executeAsPlan(client, 'dns_record_upsert', 'default', async () =>
+      client.request({ path: '/config-dns/v2/zones/a.com/names/www/types/A', method: 'PUT', body: { ttl: 600 } })
+    );
+
+    expect('plan' in outcome && outcome.plan.changes[0]).toMatchObject({
+      method: 'PUT',
+      before: { ttl: 300 },
+      diff: [{ path: '/ttl', op: 'replace', before: 300, after: 600 }],
+    });
+  });
+
+  it('should pass through results of tools that do not mutate', async () => {
+    const client = { request: jest.fn() } as unknown as AkamaiClient;
+
+    await expect(executeAsPlan(client, 'property_list', 'default', async () => 'listed'))
+      .resolves.toEqual({ result: 'listed' });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Resource Template Tests
+ *
+ * Verifies URI template matching and expansion used by ALECSCore resources
+ */
+
+import { expandUriTemplate, matchUriTemplate } from '../../core/server/resources/resource-template';
+
+describe('Resource templates', () => {
+  describe('matchUriTemplate', () => {
+    it('should extract variables from a matching URI', () => {
+      const params = matchUriTemplate(
+        'akamai://{customer}/properties/{propertyId}/versions/{v}/rules',
+        'akamai://production/properties/prp_12345/versions/7/rules'
+      );
+
+      expect(params).toEqual({ customer: 'production', propertyId: 'prp_12345', v: '7' });
+    });
+
+    it('should not match URIs with extra path segments', () => {
+      expect(matchUriTemplate(
+        'akamai://{customer}/properties/{propertyId}',
+        'akamai://production/properties/prp_1/versions/1/rules'
+      )).toBeNull();
+    });
+
+    it('should decode encoded variables', () => {
+      expect(matchUriTemplate('akamai://{customer}/dns/zones/{zone}', 'akamai://default/dns/zones/example%2Ecom'))
+        .toEqual({ customer: 'default', zone: 'example.com' });
+    });
+  });
+
+  describe('expandUriTemplate', () => {
+    it('should round-trip with matchUriTemplate', () => {
+      const template = 'akamai://{customer}/certificates/{enrollmentId}';
+      const uri = expandUriTemplate(template, { customer: 'staging', enrollmentId: 42 });
+
+      expect(uri).toBe('akamai://staging/certificates/42');
+      expect(matchUriTemplate(template, uri)).toEqual({ customer: 'staging', enrollmentId: '42' });
+    });
+
+    it('should throw on missing variables', () => {
+      expect(() => expandUriTemplate('akamai://{customer}/dns/zones', {})).toThrow(/customer/);
+    });
+  });
+});
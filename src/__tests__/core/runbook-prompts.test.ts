@@ -0,0 +1,76 @@
+/**
+ * Runbook Prompt Tests
+ *
+ * Verifies prompt generation from workflow and property templates
+ */
+
+import { renderRunbook, type Runbook } from '../../core/server/prompts/runbook';
+import {
+  akamaiRunbooks,
+  renderTemplateRuleTree,
+  workflowToRunbook,
+} from '../../core/server/prompts/akamai-prompts';
+import { SSL_PROVISIONING_WORKFLOW } from '../../orchestration/workflow-templates';
+
+describe('Runbook prompts', () => {
+  const runbook: Runbook = {
+    name: 'test_runbook',
+    title: 'Test Runbook',
+    description: 'Exercise rendering',
+    arguments: [
+      { name: 'zone', description: 'Zone', required: true },
+      { name: 'customer', description: 'Customer' },
+    ],
+    steps: [
+      { id: 'create', tool: 'dns_zone_create', purpose: 'Create zone', args: { zone: '${zone}' } },
+      { id: 'activate', tool: 'dns_zone_activate', purpose: 'Activate', args: { zone: '${create_result.zone}' } },
+      { id: 'delegate', tool: null, purpose: 'Delegate', args: {} },
+    ],
+  };
+
+  it('should substitute arguments and step result references', () => {
+    const text = renderRunbook(runbook, { zone: 'example.com', customer: 'prod' });
+
+    expect(text).toContain('"zone": "example.com"');
+    expect(text).toContain('"zone": "<zone from step 1>"');
+    expect(text).toContain('Pass `"customer": "prod"`');
+    expect(text).toContain('No ALECS tool covers this step');
+  });
+
+  it('should reject missing required arguments', () => {
+    expect(() => renderRunbook(runbook, {})).toThrow(/zone/);
+  });
+
+  it('should map legacy workflow tool names to registered tools', () => {
+    const generated = workflowToRunbook(SSL_PROVISIONING_WORKFLOW);
+
+    expect(generated.name).toBe('workflow_ssl_provisioning');
+    expect(generated.steps[0]?.tool).toBe('certificate_dv_create');
+    expect(generated.arguments.map(a => a.name)).toEqual(
+      expect.arrayContaining(['common_name', 'propertyId', 'customer'])
+    );
+  });
+
+  it('should expose one onboarding prompt per property template', () => {
+    const names = akamaiRunbooks.map(r => r.name);
+
+    expect(names).toEqual(expect.arrayContaining([
+      'onboard_static_website',
+      'onboard_dynamic_web_app',
+      'onboard_api_acceleration',
+      'rotate_dv_certificate',
+      'migrate_zone_from_bind',
+    ]));
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should embed the template rule tree with inputs applied', () => {
+    const ruleTree = JSON.stringify(renderTemplateRuleTree('onboard_static_website', {
+      hostname: 'www.example.com',
+      originHostname: 'origin.example.com',
+    }));
+
+    expect(ruleTree).toContain('origin.example.com');
+    expect(renderTemplateRuleTree('rotate_dv_certificate', {})).toBeUndefined();
+  });
+});
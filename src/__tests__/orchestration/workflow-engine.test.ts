@@ -5,17 +5,20 @@
  */
 
 import { WorkflowEngine, WorkflowState, StepState, WorkflowDefinition } from '../../orchestration/workflow-engine';
+import { ChangeFreezeError, ChangeFreezeService } from '../../services/change-freeze-service';
+import { approvalService } from '../../services/approval-service';
 
 // Mock the dependencies
 jest.mock('../../akamai-client');
-jest.mock('../../utils/pino-logger', () => ({
-  logger: {
+jest.mock('../../utils/pino-logger', () => {
+  const logger = {
     info: jest.fn(),
     error: jest.fn(),
     warn: jest.fn(),
     debug: jest.fn()
-  }
-}));
+  };
+  return { logger, loggerCompat: logger, createLogger: () => logger };
+});
 
 // Mock tool executor
 class MockToolExecutor {
@@ -187,6 +190,116 @@ describe('WorkflowEngine', () => {
       expect(step2?.error?.message).toBe('Tool execution failed');
     });
 
+    it('should block activation steps during a change freeze without retrying', async () => {
+      const freezeService = new ChangeFreezeService(undefined);
+      jest.spyOn(ChangeFreezeService, 'getInstance').mockReturnValue(freezeService);
+      jest.spyOn(freezeService, 'check').mockReturnValue({
+        frozen: true,
+        freeze: { name: 'Holiday freeze', timezone: 'UTC', endsAt: new Date('2027-01-03T00:00:00Z'), endsAtLocal: '2027-01-03 00:00' }
+      });
+      const executeSpy = jest.spyOn(mockExecutor, 'execute');
+
+      const workflow: WorkflowDefinition = {
+        id: 'frozen-workflow',
+        name: 'Frozen Workflow',
+        description: 'Activates during a freeze',
+        version: '1.0.0',
+        customer: 'acme',
+        steps: [
+          {
+            id: 'activate',
+            name: 'Activate',
+            description: 'Production activation',
+            tool: 'property.activate',
+            args: { propertyId: 'prp_1', network: 'PRODUCTION' },
+            retryPolicy: { maxAttempts: 3, backoffMs: 10 }
+          }
+        ]
+      };
+
+      engine.registerWorkflow(workflow);
+      const execution = await engine.executeWorkflow('frozen-workflow');
+
+      expect(execution.state).toBe(WorkflowState.FAILED);
+      expect(execution.error).toBeInstanceOf(ChangeFreezeError);
+      expect(execution.error?.message).toContain('"Holiday freeze"');
+      expect(freezeService.check).toHaveBeenCalledWith(
+        expect.objectContaining({ customer: 'acme', network: 'production', propertyId: 'prp_1' })
+      );
+      expect(executeSpy).not.toHaveBeenCalled();
+
+      jest.restoreAllMocks();
+    });
+
+    it('should hold production activation steps for approval', async () => {
+      jest.spyOn(approvalService, 'gate').mockResolvedValue({
+        proceed: false,
+        response: { content: [{ type: 'text', text: 'Approval ID: apr_123' }] }
+      });
+      const executeSpy = jest.spyOn(mockExecutor, 'execute');
+
+      const workflow: WorkflowDefinition = {
+        id: 'gated-workflow',
+        name: 'Gated Workflow',
+        description: 'Activates in production',
+        version: '1.0.0',
+        customer: 'acme',
+        steps: [
+          {
+            id: 'activate',
+            name: 'Activate',
+            description: 'Production activation',
+            tool: 'property_activate',
+            args: { propertyId: 'prp_1', version: 2, network: 'PRODUCTION' },
+            retryPolicy: { maxAttempts: 3, backoffMs: 10 }
+          }
+        ]
+      };
+
+      engine.registerWorkflow(workflow);
+      const execution = await engine.executeWorkflow('gated-workflow');
+
+      expect(execution.state).toBe(WorkflowState.FAILED);
+      expect(execution.error?.message).toContain('apr_123');
+      expect(approvalService.gate).toHaveBeenCalledWith(expect.objectContaining({
+        tool: 'property_activate',
+        customer: 'acme',
+        args: { propertyId: 'prp_1', version: 2, network: 'PRODUCTION' }
+      }));
+      expect(executeSpy).not.toHaveBeenCalled();
+
+      jest.restoreAllMocks();
+    });
+
+    it('should record the outcome of approved activation steps', async () => {
+      jest.spyOn(approvalService, 'gate').mockResolvedValue({ proceed: true, approvalId: 'apr_123' });
+      const completeSpy = jest.spyOn(approvalService, 'complete').mockImplementation(() => undefined);
+
+      const workflow: WorkflowDefinition = {
+        id: 'approved-workflow',
+        name: 'Approved Workflow',
+        description: 'Activates in production with an approval',
+        version: '1.0.0',
+        steps: [
+          {
+            id: 'activate',
+            name: 'Activate',
+            description: 'Production activation',
+            tool: 'property_activate',
+            args: { propertyId: 'prp_1', version: 2, network: 'PRODUCTION', approvalId: 'apr_123' }
+          }
+        ]
+      };
+
+      engine.registerWorkflow(workflow);
+      const execution = await engine.executeWorkflow('approved-workflow');
+
+      expect(execution.state).toBe(WorkflowState.COMPLETED);
+      expect(completeSpy).toHaveBeenCalledWith('apr_123', 'anonymous');
+
+      jest.restoreAllMocks();
+    });
+
     it('should respect continueOnError flag', async () => {
       const workflow: WorkflowDefinition = {
         id: 'continue-on-error-workflow',
@@ -307,6 +420,142 @@ describe('WorkflowEngine', () => {
       });
     });
 
+    it('should interpolate embedded variables and arrays', async () => {
+      engine.registerWorkflow({
+        id: 'template-workflow',
+        name: 'Template Workflow',
+        description: 'String templates and lists',
+        version: '1.0.0',
+        steps: [
+          {
+            id: 'step1',
+            name: 'Step 1',
+            description: 'Template step',
+            tool: 'test.tool',
+            args: {
+              comment: 'Migrated from ${provider} (${missing})',
+              hostnames: ['www.${domain}', '${domain}']
+            }
+          }
+        ]
+      });
+
+      const execution = await engine.executeWorkflow('template-workflow', {
+        provider: 'cloudflare',
+        domain: 'example.com'
+      });
+
+      expect(execution.steps.get('step1')?.result.args).toEqual({
+        comment: 'Migrated from cloudflare (${missing})',
+        hostnames: ['www.example.com', 'example.com']
+      });
+    });
+
+    it('should skip steps whose condition is false and loop over lists', async () => {
+      engine.registerWorkflow({
+        id: 'declarative-workflow',
+        name: 'Declarative Workflow',
+        description: 'Conditions, loops and outputs',
+        version: '1.0.0',
+        steps: [
+          {
+            id: 'create',
+            name: 'Create',
+            description: 'Create property',
+            tool: 'test.create',
+            args: { name: '${domain}' },
+            outputs: { createdName: 'args.name' }
+          },
+          {
+            id: 'hostnames',
+            name: 'Hostnames',
+            description: 'Add each hostname',
+            tool: 'test.hostname',
+            args: { property: '${createdName}', hostname: '${hostname}', position: '${hostname_index}' },
+            forEach: '${hostnames}',
+            as: 'hostname',
+            condition: '${network} == STAGING',
+            dependencies: ['create']
+          },
+          {
+            id: 'notify',
+            name: 'Notify',
+            description: 'Only when requested',
+            tool: 'test.notify',
+            args: {},
+            condition: '!${quiet}'
+          }
+        ]
+      });
+
+      const execution = await engine.executeWorkflow('declarative-workflow', {
+        domain: 'example.com',
+        hostnames: ['a.example.com', 'b.example.com'],
+        network: 'STAGING',
+        quiet: true
+      });
+
+      expect(execution.state).toBe(WorkflowState.COMPLETED);
+      expect(execution.context['createdName']).toBe('example.com');
+      expect(execution.steps.get('hostnames')?.result.map((r: any) => r.args)).toEqual([
+        { property: 'example.com', hostname: 'a.example.com', position: 0 },
+        { property: 'example.com', hostname: 'b.example.com', position: 1 }
+      ]);
+      expect(execution.steps.get('notify')?.state).toBe(StepState.SKIPPED);
+    });
+
+    it('should gate later steps on a passing Test Center run', async () => {
+      const testCase = {
+        testRequest: { testRequestUrl: 'https://www.example.com/' },
+        condition: { conditionExpression: 'Response code is one of "200"' }
+      };
+      const runs: Record<number, any> = {
+        1: { testRunId: 1, status: 'COMPLETED', targetEnvironment: 'STAGING',
+          functional: { testSuiteExecutions: [{ testSuiteId: 1, testCaseExecutions: [{ status: 'PASSED', testCase }] }] } },
+        2: { testRunId: 2, status: 'COMPLETED', targetEnvironment: 'STAGING',
+          functional: { testSuiteExecutions: [{ testSuiteId: 2, testCaseExecutions: [{ status: 'FAILED', testCase }] }] } }
+      };
+      const executeSpy = jest.fn(async (toolName: string, args: any) =>
+        toolName === 'test_center_test_run' ? runs[args.testSuiteIds[0]] : { success: true });
+      const gatedEngine = new WorkflowEngine({ execute: executeSpy });
+
+      gatedEngine.registerWorkflow({
+        id: 'gated-workflow',
+        name: 'Gated Workflow',
+        description: 'Activates only after tests pass',
+        version: '1.0.0',
+        rollbackStrategy: 'none',
+        steps: [
+          {
+            id: 'tests',
+            name: 'Tests',
+            description: 'Test Center gate',
+            type: 'test-center',
+            tool: 'test_center_test_run',
+            args: { testSuiteIds: '${suites}' }
+          },
+          {
+            id: 'activate',
+            name: 'Activate',
+            description: 'Runs after the gate',
+            tool: 'test.activate',
+            args: {},
+            dependencies: ['tests']
+          }
+        ]
+      });
+
+      const passed = await gatedEngine.executeWorkflow('gated-workflow', { suites: [1] });
+      expect(passed.state).toBe(WorkflowState.COMPLETED);
+      expect(executeSpy).toHaveBeenCalledWith('test_center_test_run', { testSuiteIds: [1], waitForCompletion: true, format: 'json' });
+
+      executeSpy.mockClear();
+      const failed = await gatedEngine.executeWorkflow('gated-workflow', { suites: [2] });
+      expect(failed.state).toBe(WorkflowState.FAILED);
+      expect(failed.error?.message).toContain('Test run 2 failed 1 of 1 test cases');
+      expect(executeSpy).not.toHaveBeenCalledWith('test.activate', expect.anything());
+    });
+
     it('should handle workflow timeout', async () => {
       const workflow: WorkflowDefinition = {
         id: 'timeout-workflow',
@@ -0,0 +1,152 @@
+/**
+ * Workflow Loader Test Suite
+ *
+ * Tests loading declarative workflow definitions and validating them
+ * against the tools registry
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { loadWorkflowDefinitions, parseWorkflowDefinition } from '../../orchestration/workflow-loader';
+
+const tools: Record<string, { schema: z.ZodType }> = {
+  property_create: {
+    schema: z.object({
+      customer: z.string().optional(),
+      propertyName: z.string(),
+      contractId: z.string(),
+      productId: z.string().optional()
+    })
+  },
+  property_hostname_add: {
+    schema: z.object({
+      propertyId: z.string(),
+      hostname: z.string(),
+      edgeHostname: z.string().optional()
+    })
+  },
+  property_delete: {
+    schema: z.object({ propertyId: z.string() })
+  }
+};
+
+const resolveTool = (name: string) => tools[name];
+
+const ONBOARDING_YAML = `
+id: onboarding
+name: Onboard hostnames
+rollbackStrategy: all
+steps:
+  - id: create
+    tool: property_create
+    args:
+      propertyName: \${domain}
+      contractId: \${contractId}
+    outputs:
+      propertyId: propertyId
+    rollback:
+      tool: property_delete
+      args:
+        propertyId: \${propertyId}
+  - id: hostnames
+    name: Add hostnames
+    tool: property_hostname_add
+    forEach: \${hostnames}
+    as: hostname
+    condition: \${add_hostnames}
+    dependencies: [create]
+    args:
+      propertyId: \${propertyId}
+      hostname: \${hostname}
+`;
+
+describe('Workflow loader', () => {
+  it('should parse a YAML definition into a workflow', () => {
+    const { workflow, errors } = parseWorkflowDefinition(ONBOARDING_YAML, 'onboarding.yaml', resolveTool);
+
+    expect(errors).toEqual([]);
+    expect(workflow).toMatchObject({
+      id: 'onboarding',
+      version: '1.0.0',
+      rollbackStrategy: 'all',
+      steps: [
+        { id: 'create', name: 'create', outputs: { propertyId: 'propertyId' } },
+        { id: 'hostnames', description: 'Add hostnames', forEach: '${hostnames}', as: 'hostname' }
+      ]
+    });
+  });
+
+  it('should validate tools and arguments against the registry', () => {
+    const definition = JSON.stringify({
+      id: 'broken',
+      name: 'Broken',
+      steps: [
+        { id: 'a', tool: 'property_clone', args: {} },
+        { id: 'b', tool: 'property_create', args: { propertyName: 42, contract: 'ctr_1' } },
+        { id: 'c', tool: 'property_delete', args: { propertyId: '${id}' }, dependencies: ['z'] }
+      ]
+    });
+
+    const { workflow, errors } = parseWorkflowDefinition(definition, 'broken.json', resolveTool);
+
+    expect(workflow).toBeUndefined();
+    expect(errors).toEqual(expect.arrayContaining([
+      "Step 'a': unknown tool 'property_clone'",
+      expect.stringContaining("Step 'b': invalid 'propertyName' for 'property_create'"),
+      "Step 'b': 'property_create' has no argument 'contract'",
+      "Step 'b': 'property_create' requires argument 'contractId'",
+      "Step 'c': unknown dependency 'z'"
+    ]));
+    expect(errors).toHaveLength(5);
+  });
+
+  it('should report structural errors', () => {
+    const { errors } = parseWorkflowDefinition('id: x\nname: X\nsteps: []\nunknown: 1\n', 'x.yml', resolveTool);
+
+    expect(errors).toEqual(expect.arrayContaining([expect.stringMatching(/^steps: /)]));
+    expect(errors.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should only accept test_center_test_run in test-center steps', () => {
+    const { errors } = parseWorkflowDefinition(
+      'id: gate\nname: Gate\nsteps:\n  - id: tests\n    type: test-center\n    tool: property_delete\n    args: { propertyId: prp_1 }\n',
+      'gate.yml',
+      resolveTool
+    );
+
+    expect(errors).toEqual(["Step 'tests': test-center steps must run 'test_center_test_run'"]);
+  });
+
+  describe('loadWorkflowDefinitions', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'alecs-workflow-defs-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load valid files and report invalid and duplicate ones', () => {
+      writeFileSync(join(dir, 'a-onboarding.yaml'), ONBOARDING_YAML);
+      writeFileSync(join(dir, 'b-copy.yml'), ONBOARDING_YAML);
+      writeFileSync(join(dir, 'c-invalid.json'), '{ not json');
+      writeFileSync(join(dir, 'notes.txt'), 'ignored');
+
+      const { workflows, errors } = loadWorkflowDefinitions(dir, resolveTool);
+
+      expect(workflows.map(w => [w.id, w.metadata?.['source']])).toEqual([
+        ['onboarding', join(dir, 'a-onboarding.yaml')]
+      ]);
+      expect(errors.map(e => e.file)).toEqual([join(dir, 'b-copy.yml'), join(dir, 'c-invalid.json')]);
+      expect(errors[0]?.errors[0]).toContain("Workflow ID 'onboarding' is already defined");
+    });
+
+    it('should load nothing from a missing directory', () => {
+      expect(loadWorkflowDefinitions(join(dir, 'missing'), resolveTool)).toEqual({ workflows: [], errors: [] });
+    });
+  });
+});
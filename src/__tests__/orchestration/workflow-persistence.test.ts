@@ -0,0 +1,168 @@
+/**
+ * Workflow Persistence Test Suite
+ *
+ * Tests checkpointing of workflow executions and recovery after a restart
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  WorkflowEngine,
+  WorkflowState,
+  StepState,
+  serializeExecution,
+  type PersistedWorkflowExecution,
+  type WorkflowDefinition,
+  type WorkflowExecution
+} from '../../orchestration/workflow-engine';
+import { JsonFileWorkflowStore } from '../../orchestration/workflow-store';
+
+jest.mock('../../akamai-client');
+jest.mock('../../utils/pino-logger', () => {
+  const logger = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  };
+  return { logger, createLogger: () => logger };
+});
+
+class RecordingToolExecutor {
+  calls: string[] = [];
+
+  async execute(toolName: string, args: any): Promise<any> {
+    this.calls.push(toolName);
+    return { success: true, tool: toolName, args };
+  }
+}
+
+const workflow: WorkflowDefinition = {
+  id: 'migration',
+  name: 'Migration',
+  description: 'Three dependent steps',
+  version: '1.0.0',
+  steps: [
+    {
+      id: 'create',
+      name: 'Create',
+      description: 'Create property',
+      tool: 'property.create',
+      args: { name: '${domain}' },
+      rollback: { tool: 'property.delete', args: { propertyId: '${create_result.tool}' } }
+    },
+    {
+      id: 'configure',
+      name: 'Configure',
+      description: 'Configure property',
+      tool: 'property.configure',
+      args: {},
+      dependencies: ['create'],
+      rollback: { tool: 'property.reset', args: {} }
+    },
+    {
+      id: 'activate',
+      name: 'Activate',
+      description: 'Activate property',
+      tool: 'property.activate.staging',
+      args: {},
+      dependencies: ['configure']
+    }
+  ]
+};
+
+describe('Workflow persistence', () => {
+  let dir: string;
+  let store: JsonFileWorkflowStore<PersistedWorkflowExecution>;
+  let executor: RecordingToolExecutor;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'alecs-workflows-'));
+    store = new JsonFileWorkflowStore<PersistedWorkflowExecution>(dir);
+    executor = new RecordingToolExecutor();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Persist an execution as a crash after 'create' completed would leave it
+   */
+  function persistCrashedExecution(): string {
+    const execution: WorkflowExecution = {
+      id: 'exec-1',
+      workflowId: workflow.id,
+      state: WorkflowState.RUNNING,
+      startedAt: new Date('2025-01-01T00:00:00Z'),
+      currentStep: 'configure',
+      context: { domain: 'example.com', create_result: { tool: 'prp_1' } },
+      steps: new Map([
+        ['create', { stepId: 'create', state: StepState.COMPLETED, attempts: 1, result: { tool: 'prp_1' } }],
+        ['configure', { stepId: 'configure', state: StepState.RUNNING, attempts: 1 }],
+        ['activate', { stepId: 'activate', state: StepState.PENDING, attempts: 0 }]
+      ])
+    };
+    store.save(serializeExecution(execution, workflow));
+    return execution.id;
+  }
+
+  it('should checkpoint executions and restore them in a new engine', async () => {
+    const engine = new WorkflowEngine(executor, undefined, store);
+    engine.registerWorkflow(workflow);
+    const execution = await engine.executeWorkflow(workflow.id, { domain: 'example.com' });
+
+    const restored = new WorkflowEngine(executor, undefined, store).getExecution(execution.id);
+    expect(restored?.state).toBe(WorkflowState.COMPLETED);
+    expect(restored?.startedAt).toBeInstanceOf(Date);
+    expect(Array.from(restored!.steps.values()).map(step => step.state)).toEqual([
+      StepState.COMPLETED, StepState.COMPLETED, StepState.COMPLETED
+    ]);
+  });
+
+  it('should mark executions cut off by a restart as interrupted', () => {
+    const executionId = persistCrashedExecution();
+
+    const engine = new WorkflowEngine(executor, undefined, store);
+    const execution = engine.getExecution(executionId);
+
+    expect(execution?.state).toBe(WorkflowState.INTERRUPTED);
+    expect(execution?.steps.get('configure')).toMatchObject({ state: StepState.FAILED });
+    expect(execution?.steps.get('configure')?.error?.message).toBe('Interrupted by server restart');
+    expect(store.load(executionId)?.state).toBe(WorkflowState.INTERRUPTED);
+    expect(engine.listExecutions({ state: WorkflowState.INTERRUPTED })).toHaveLength(1);
+  });
+
+  it('should resume after the last completed step using the persisted definition', async () => {
+    const executionId = persistCrashedExecution();
+    const engine = new WorkflowEngine(executor, undefined, store);
+
+    const execution = await engine.resumeExecution(executionId);
+
+    expect(execution.state).toBe(WorkflowState.COMPLETED);
+    expect(executor.calls).toEqual(['property.configure', 'property.activate.staging']);
+    expect(store.load(executionId)?.state).toBe(WorkflowState.COMPLETED);
+  });
+
+  it('should retry from a step and re-run its dependents', async () => {
+    const executionId = persistCrashedExecution();
+    const engine = new WorkflowEngine(executor, undefined, store);
+
+    await engine.resumeExecution(executionId, { fromStep: 'create' });
+
+    expect(executor.calls).toEqual(['property.create', 'property.configure', 'property.activate.staging']);
+    await expect(engine.resumeExecution(executionId)).rejects.toThrow('Cannot recover workflow in state: completed');
+  });
+
+  it('should roll back the completed steps of an interrupted execution', async () => {
+    const executionId = persistCrashedExecution();
+    const engine = new WorkflowEngine(executor, undefined, store);
+
+    const execution = await engine.rollbackExecution(executionId);
+
+    expect(execution.state).toBe(WorkflowState.ROLLED_BACK);
+    expect(executor.calls).toEqual(['property.delete']);
+    expect(store.load(executionId)?.steps.find(step => step.stepId === 'create')?.state).toBe(StepState.ROLLED_BACK);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Approval Service Tests
+ *
+ * Verifies the two-person rule, single-use approvals, break-glass overrides
+ * and requests shared through the state directory
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonFileWorkflowStore } from '../../orchestration/workflow-store';
+import { ApprovalError, ApprovalService, type ApprovalRequest } from '../../services/approval-service';
+
+describe('ApprovalService', () => {
+  const activation = {
+    tool: 'property_activate',
+    customer: 'default',
+    principal: 'tok_alice',
+    args: { propertyId: 'prp_123', version: 4, network: 'PRODUCTION' },
+  };
+
+  let service: ApprovalService;
+
+  beforeEach(() => {
+    service = new ApprovalService({ enabled: true, ttlMinutes: 60, auditFile: undefined, stateDir: undefined });
+  });
+
+  async function requestApproval(): Promise<string> {
+    const gate = await service.gate(activation);
+    expect(gate.proceed).toBe(false);
+    const [pending] = service.list({ status: 'pending' });
+    return pending!.id;
+  }
+
+  it('should only gate production activations', async () => {
+    expect(service.requiresApproval('property_activate', { network: 'STAGING' })).toBe(false);
+    expect(service.requiresApproval('property_list', { network: 'PRODUCTION' })).toBe(false);
+    expect(service.requiresApproval('dns_zone_activate', {})).toBe(true);
+    expect(new ApprovalService({ enabled: false }).requiresApproval('property_activate', activation.args)).toBe(false);
+  });
+
+  it('should gate property_bulk_activate when any property targets production', () => {
+    const properties = [
+      { propertyId: 'prp_1', version: 2, network: 'staging' },
+      { propertyId: 'prp_2', version: 7, network: 'production' },
+    ];
+
+    expect(service.requiresApproval('property_bulk_activate', { properties: properties.slice(0, 1) })).toBe(false);
+    expect(service.requiresApproval('property_bulk_activate', { properties })).toBe(true);
+  });
+
+  it('should gate bulk_activate_properties when any activation targets production', () => {
+    const activations = [
+      { propertyId: 'prp_1', propertyVersion: 2, network: 'STAGING' },
+      { propertyId: 'prp_2', propertyVersion: 7, network: 'PRODUCTION' },
+    ];
+
+    expect(service.requiresApproval('bulk_activate_properties', { activations: activations.slice(0, 1) })).toBe(false);
+    expect(service.requiresApproval('bulk_activate_properties', { activations })).toBe(true);
+  });
+
+  it('should hold production changes as pending requests with their plan', async () => {
+    const gate = await service.gate({
+      ...activation,
+      plan: async () => ({ tool: activation.tool, customer: 'default', mode: 'dry-run', changes: [] }),
+    });
+
+    expect(gate.proceed).toBe(false);
+    const [pending] = service.list();
+    expect(pending).toMatchObject({ status: 'pending', requestedBy: 'tok_alice', plan: { changes: [] } });
+    expect(gate.proceed === false && gate.response.content[0]?.text).toContain(pending!.id);
+  });
+
+  it('should reject decisions by the requester or anonymous callers', async () => {
+    const approvalId = await requestApproval();
+
+    expect(() => service.decide({ approvalId, decision: 'approve', principal: 'tok_alice' })).toThrow(ApprovalError);
+    expect(() => service.decide({ approvalId, decision: 'approve', principal: 'anonymous' })).toThrow(ApprovalError);
+    expect(service.getRequest(approvalId).status).toBe('pending');
+  });
+
+  it('should execute an approved change exactly once', async () => {
+    const approvalId = await requestApproval();
+    service.decide({ approvalId, decision: 'approve', principal: 'tok_bob', comment: 'LGTM' });
+
+    const gate = await service.gate({ ...activation, args: { ...activation.args, approvalId } });
+    expect(gate).toEqual({ proceed: true, approvalId });
+    await service.runApproved(approvalId, 'tok_alice', async () => ({ content: [] }));
+
+    expect((await service.gate({ ...activation, args: { ...activation.args, approvalId } })).proceed).toBe(false);
+    expect(service.getAuditTrail(approvalId).map(entry => entry.event)).toEqual(['requested', 'approved', 'executed']);
+  });
+
+  it('should keep requests across restarts and processes sharing the state directory', async () => {
+    const stateDir = mkdtempSync(join(tmpdir(), 'alecs-approvals-'));
+    try {
+      const options = { enabled: true, ttlMinutes: 60, auditFile: undefined, stateDir };
+      service = new ApprovalService(options);
+      const approvalId = await requestApproval();
+
+      new ApprovalService(options).decide({ approvalId, decision: 'approve', principal: 'tok_bob' });
+
+      const restarted = new ApprovalService(options);
+      expect(restarted.getRequest(approvalId)).toMatchObject({ status: 'approved', decidedBy: 'tok_bob' });
+      expect(await restarted.gate({ ...activation, args: { ...activation.args, approvalId } })).toEqual({ proceed: true, approvalId });
+      expect(service.getRequest(approvalId).status).toBe('executed');
+      expect(() => service.getRequest('../outside')).toThrow(ApprovalError);
+    } finally {
+      rmSync(stateDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should let only one process claim an approval', async () => {
+    const stateDir = mkdtempSync(join(tmpdir(), 'alecs-approvals-'));
+    try {
+      const options = { enabled: true, ttlMinutes: 60, auditFile: undefined, stateDir };
+      service = new ApprovalService(options);
+      const approvalId = await requestApproval();
+      const approved = service.decide({ approvalId, decision: 'approve', principal: 'tok_bob' });
+      const call = { ...activation, args: { ...activation.args, approvalId } };
+
+      expect((await service.gate(call)).proceed).toBe(true);
+      // A second process that read the request before the first one saved its claim
+      new JsonFileWorkflowStore<ApprovalRequest>(stateDir).save(approved);
+
+      expect((await new ApprovalService(options).gate(call)).proceed).toBe(false);
+    } finally {
+      rmSync(stateDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse an approval granted for different arguments', async () => {
+    const approvalId = await requestApproval();
+    service.decide({ approvalId, decision: 'approve', principal: 'tok_bob' });
+
+    const gate = await service.gate({ ...activation, args: { ...activation.args, version: 5, approvalId } });
+
+    expect(gate.proceed).toBe(false);
+    expect(service.getRequest(approvalId).status).toBe('approved');
+  });
+
+  it('should expire requests after their window', async () => {
+    service = new ApprovalService({ enabled: true, ttlMinutes: -1, auditFile: undefined, stateDir: undefined });
+    await service.gate(activation);
+
+    const [approval] = service.list();
+    expect(approval?.status).toBe('expired');
+    expect(() => service.decide({ approvalId: approval!.id, decision: 'approve', principal: 'tok_bob' }))
+      .toThrow('already expired');
+  });
+
+  it('should require a justification for break-glass changes', async () => {
+    const short = await service.gate({ ...activation, args: { ...activation.args, breakGlassJustification: 'urgent' } });
+    expect(short.proceed).toBe(false);
+
+    const gate = await service.gate({
+      ...activation,
+      args: { ...activation.args, breakGlassJustification: 'Origin outage, rollback to last known good version' },
+    });
+    expect(gate.proceed).toBe(true);
+    expect(service.getAuditTrail()).toEqual([expect.objectContaining({ event: 'break-glass', principal: 'tok_alice' })]);
+  });
+
+  it('should refuse break-glass from anonymous callers', async () => {
+    const gate = await service.gate({
+      ...activation,
+      principal: 'anonymous',
+      args: { ...activation.args, breakGlassJustification: 'Origin outage, rollback to last known good version' },
+    });
+
+    expect(gate.proceed).toBe(false);
+    expect(service.getAuditTrail()).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Audit Log Service Tests
+ *
+ * Verifies hash chaining, tamper detection, redaction and querying
+ */
+
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AuditLogService,
+  GENESIS_HASH,
+  formatAuditExport,
+  recordAuditedRequest,
+  type AuditLogEntry,
+} from '../../services/audit-log-service';
+
+describe('AuditLogService', () => {
+  let dir: string;
+  let file: string;
+  let service: AuditLogService;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'alecs-audit-'));
+    file = join(dir, 'audit.jsonl');
+    service = new AuditLogService(file);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function invoke(tool: string, principal = 'tok_alice', customer = 'default'): Promise<void> {
+    const audit = service.begin({ principal, customer, tool, args: { propertyId: 'prp_1' } });
+    const result = await audit.capture(async () => {
+      recordAuditedRequest({ method: 'GET', path: '/papi/v1/properties/prp_1', status: 200, requestId: 'req-1' });
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+    await audit.finish('success', { result });
+  }
+
+  function readLines(): AuditLogEntry[] {
+    return readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  }
+
+  it('should chain entries and record the Akamai requests of each call', async () => {
+    await invoke('property_get');
+    await invoke('property_list');
+
+    const [first, second] = readLines();
+    expect(first).toMatchObject({
+      seq: 1,
+      prevHash: GENESIS_HASH,
+      principal: 'tok_alice',
+      outcome: 'success',
+      result: 'ok',
+      requests: [{ method: 'GET', status: 200, requestId: 'req-1' }],
+    });
+    expect(second?.prevHash).toBe(first?.hash);
+    expect(service.verify()).toMatchObject({ valid: true, entries: 2, headHash: second?.hash });
+  });
+
+  it('should continue the chain of an existing log', async () => {
+    await invoke('property_get');
+    service = new AuditLogService(file);
+    await invoke('property_list');
+
+    expect(readLines().map(entry => entry.seq)).toEqual([1, 2]);
+    expect(service.verify().valid).toBe(true);
+  });
+
+  it('should keep one chain across writers sharing a log', async () => {
+    const other = new AuditLogService(file);
+    await invoke('property_get');
+    await other.begin({ principal: 'tok_bob', customer: 'default', tool: 'property_list' }).finish('success');
+    await invoke('property_activate');
+
+    expect(readLines().map(entry => entry.seq)).toEqual([1, 2, 3]);
+    expect(service.verify()).toMatchObject({ valid: true, entries: 3 });
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('should resume after a torn last line and report it', async () => {
+    await invoke('property_get');
+    const [first] = readLines();
+    appendFileSync(file, '{"seq":2,"timestamp":"2025-');
+
+    await invoke('property_activate');
+
+    expect(service.query().map(entry => [entry.seq, entry.prevHash])).toEqual([[2, first?.hash], [1, GENESIS_HASH]]);
+    expect(service.verify()).toMatchObject({
+      valid: false,
+      entries: 2,
+      brokenAt: 2,
+      line: 2,
+      reason: 'line 2 is not a valid audit entry',
+    });
+  });
+
+  it('should detect edited and deleted entries', async () => {
+    await invoke('property_get');
+    await invoke('property_activate');
+    await invoke('property_list');
+    const lines = readFileSync(file, 'utf8').trim().split('\n');
+
+    writeFileSync(file, `${lines[0]}\n${lines[1]!.replace('tok_alice', 'tok_mallory')}\n${lines[2]}\n`);
+    expect(service.verify()).toMatchObject({ valid: false, brokenAt: 2, reason: 'entry content does not match its hash' });
+
+    writeFileSync(file, `${lines[0]}\n${lines[2]}\n`);
+    expect(service.verify()).toMatchObject({ valid: false, brokenAt: 3 });
+  });
+
+  it('should redact sensitive arguments', async () => {
+    await service.begin({
+      principal: 'anonymous',
+      customer: 'default',
+      tool: 'iam_credential_rotate',
+      args: { clientSecret: 's3cr3t', nested: { password: 'hunter2', name: 'kept' } },
+    }).finish('success');
+
+    expect(readLines()[0]?.args).toEqual({ clientSecret: '[REDACTED]', nested: { password: '[REDACTED]', name: 'kept' } });
+  });
+
+  it('should record error responses, denials and failures as such', async () => {
+    await service.begin({ principal: 'tok_bob', customer: 'acme', tool: 'property_delete' })
+      .finish('success', { result: { content: [], isError: true } });
+    await service.begin({ principal: 'tok_bob', customer: 'acme', tool: 'property_delete' })
+      .finish('denied', { error: 'read-only role' });
+    const audit = service.begin({ principal: 'tok_bob', customer: 'acme', tool: 'property_delete' });
+    await audit.finish('error', { error: new Error('boom') });
+    await audit.finish('success');
+
+    expect(readLines().map(entry => [entry.outcome, entry.error])).toEqual([
+      ['error', undefined],
+      ['denied', 'read-only role'],
+      ['error', 'boom'],
+    ]);
+  });
+
+  it('should filter entries newest first', async () => {
+    await invoke('property_get', 'tok_alice', 'acme');
+    await invoke('dns_zone_activate', 'tok_bob', 'acme');
+    await invoke('property_activate', 'tok_bob', 'globex');
+
+    expect(service.query({ principal: 'tok_bob' }).map(entry => entry.tool)).toEqual(['property_activate', 'dns_zone_activate']);
+    expect(service.query({ tool: '*_activate', customer: 'acme' }).map(entry => entry.seq)).toEqual([2]);
+    expect(service.query({ limit: 1 })[0]?.seq).toBe(3);
+  });
+
+  it('should filter by time range with any ISO offset', async () => {
+    await invoke('property_get');
+    const [entry] = readLines();
+    const at = Date.parse(entry!.timestamp);
+    const inBerlin = new Date(at + 3_600_000).toISOString().replace('Z', '+01:00');
+
+    expect(service.query({ since: inBerlin, until: inBerlin })).toHaveLength(1);
+    expect(service.query({ since: new Date(at + 1).toISOString() })).toEqual([]);
+  });
+
+  it('should wait for a lock held by another process without blocking', async () => {
+    writeFileSync(`${file}.lock`, '');
+    const append = invoke('property_get');
+
+    // Timers still run while the append waits, so the lock can be released
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(existsSync(file)).toBe(false);
+    rmSync(`${file}.lock`);
+
+    await append;
+    expect(readLines().map(entry => entry.seq)).toEqual([1]);
+  });
+
+  it('should not write anything when disabled', async () => {
+    await expect(new AuditLogService(undefined).append({
+      principal: 'anonymous', customer: 'default', tool: 'property_list', requests: [], outcome: 'success', durationMs: 1,
+    })).resolves.toBeUndefined();
+  });
+
+  it('should export entries as CSV', async () => {
+    await invoke('property_get');
+
+    const [header, row] = formatAuditExport(service.read(), 'csv').trim().split('\n');
+    expect(header).toBe('seq,timestamp,principal,customer,tool,outcome,durationMs,args,requests,error,prevHash,hash');
+    expect(row).toContain(',"{""propertyId"":""prp_1""}",');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Change Event Service Tests
+ *
+ * Verifies normalisation of activations and changelists, change detection
+ * between polls, deduplication and the local event store
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ChangeEventService,
+  diffChangelists,
+  type ChangeEvent,
+  type ChangeEventClient,
+} from '../../services/change-event-service';
+
+const recent = (minutesAgo: number) => new Date(Date.now() - minutesAgo * 60_000).toISOString();
+
+/**
+ * Fake Akamai client answering from a path map and recording requests
+ */
+function fakeClient(responses: Record<string, unknown>, requests: string[] = []): ChangeEventClient {
+  return {
+    request: async <T>({ path }: { path: string }) => {
+      requests.push(path);
+      if (!(path in responses)) {
+        throw new Error(`Unexpected request ${path}`);
+      }
+      return responses[path] as T;
+    },
+  };
+}
+
+function responses(productionVersion: number, changeLists: unknown[] = []): Record<string, unknown> {
+  return {
+    '/papi/v1/properties': {
+      properties: {
+        items: [{ propertyId: 'prp_1', propertyName: 'www.example.com', contractId: 'ctr_1', groupId: 'grp_1', productionVersion }],
+      },
+    },
+    '/papi/v1/properties/prp_1/activations': {
+      activations: {
+        items: [{
+          activationId: 'atv_1',
+          propertyId: 'prp_1',
+          propertyVersion: 7,
+          network: 'PRODUCTION',
+          activationType: 'ACTIVATE',
+          status: 'ACTIVE',
+          submitDate: recent(30),
+          notifyEmails: ['ops@example.com'],
+        }],
+      },
+    },
+    '/appsec/v1/configs': { configurations: [{ id: 42, name: 'Main WAF', productionVersion: 3 }] },
+    '/appsec/v1/configs/42/activations': {
+      activationHistory: [{
+        activationId: 900, version: 3, network: 'STAGING', status: 'ACTIVATED', createDate: recent(60), createdBy: 'jdoe',
+      }],
+    },
+    '/config-dns/v2/changelists': { changeLists },
+  };
+}
+
+describe('ChangeEventService', () => {
+  let dir: string;
+  let file: string;
+  let service: ChangeEventService;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'alecs-events-'));
+    file = join(dir, 'events.jsonl');
+    service = new ChangeEventService({ storePath: file, retentionDays: 30 });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should normalise activations from every source into one stream', async () => {
+    const changed: ChangeEvent[] = [];
+    service.on('change', event => changed.push(event));
+
+    const result = await service.poll('acme', fakeClient(responses(7, [{ zone: 'example.com', changeTag: 't1', lastModifiedDate: recent(5) }])));
+
+    expect(result.errors).toEqual([]);
+    expect(result.events.map(event => [event.source, event.summary])).toEqual([
+      ['property', 'www.example.com v7 activated on PRODUCTION (ACTIVE)'],
+      ['appsec', 'Security config Main WAF v3 activated on STAGING (ACTIVATED)'],
+      ['dns', 'Changelist opened for zone example.com'],
+    ]);
+    expect(result.events[0]).toMatchObject({ id: 'property:atv_1', customer: 'acme', resourceId: 'prp_1', user: 'ops@example.com' });
+    expect(result.events[1]).toMatchObject({ resourceId: '42', user: 'jdoe' });
+    expect(changed).toHaveLength(3);
+    expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(3);
+  });
+
+  it('should only fetch activations when active versions change and skip known events', async () => {
+    await service.poll('acme', fakeClient(responses(7)));
+
+    const requests: string[] = [];
+    const second = await service.poll('acme', fakeClient(responses(7), requests));
+    expect(second.events).toEqual([]);
+    expect(requests).toEqual(['/papi/v1/properties', '/appsec/v1/configs', '/config-dns/v2/changelists']);
+
+    requests.length = 0;
+    const third = await service.poll('acme', fakeClient(responses(8), requests));
+    expect(requests).toContain('/papi/v1/properties/prp_1/activations');
+    expect(third.events).toEqual([]); // Same activation ID as before
+  });
+
+  it('should report failing sources without losing the others', async () => {
+    const partial = responses(7);
+    delete partial['/appsec/v1/configs'];
+
+    const result = await service.poll('acme', fakeClient(partial));
+
+    expect(result.errors).toEqual(['Application Security: Unexpected request /appsec/v1/configs']);
+    expect(result.events.map(event => event.source)).toEqual(['property']);
+  });
+
+  it('should query the store by customer, source and time and drop expired events', () => {
+    const event = (id: string, customer: string, minutesAgo: number): ChangeEvent => ({
+      id, customer, source: 'property', action: 'ACTIVATE', resourceId: 'prp_1', timestamp: recent(minutesAgo), summary: id,
+    });
+    writeFileSync(file, [
+      event('old', 'acme', 60 * 24 * 40),
+      event('a', 'acme', 60 * 30),
+      event('b', 'acme', 10),
+      event('c', 'other', 5),
+    ].map(e => JSON.stringify(e)).join('\n') + '\n');
+
+    expect(service.query({ customer: 'acme' }).map(e => e.id)).toEqual(['b', 'a']);
+    expect(service.query({ customer: 'acme', since: recent(60 * 24) }).map(e => e.id)).toEqual(['b']);
+    expect(service.query({ source: 'dns' })).toEqual([]);
+    expect(readFileSync(file, 'utf8')).not.toContain('"old"');
+  });
+
+  it('should skip and drop unreadable lines in the store', async () => {
+    const event: ChangeEvent = {
+      id: 'a', customer: 'acme', source: 'property', action: 'ACTIVATE', resourceId: 'prp_1', timestamp: recent(10), summary: 'a',
+    };
+    writeFileSync(file, `${JSON.stringify(event)}\n{"id":"trunc`);
+
+    expect(service.query().map(e => e.id)).toEqual(['a']);
+    expect(readFileSync(file, 'utf8')).toBe(`${JSON.stringify(event)}\n`);
+
+    const result = await service.poll('acme', fakeClient(responses(7)));
+    expect(result.events).toHaveLength(2);
+  });
+
+  it('should keep polling other customers when one poll fails', async () => {
+    const polling = new ChangeEventService({ storePath: file, retentionDays: 30, pollMinutes: 60 });
+    const changed = new Promise<ChangeEvent>(resolve => polling.once('change', resolve));
+
+    polling.start(() => ['broken', 'acme'], customer => {
+      if (customer === 'broken') {
+        throw new Error('Section broken not found');
+      }
+      return fakeClient(responses(7));
+    });
+
+    await expect(changed).resolves.toMatchObject({ customer: 'acme' });
+    polling.stop();
+  });
+
+  it('should report opened and closed DNS changelists', () => {
+    const now = new Date();
+    const events = diffChangelists(
+      'acme',
+      [{ zone: 'a.com', changeTag: 't1' }, { zone: 'b.com', changeTag: 't2' }],
+      [{ zone: 'a.com', changeTag: 't3' }, { zone: 'c.com', changeTag: 't4', lastModifiedDate: now.toISOString() }],
+      now
+    );
+
+    expect(events.map(event => [event.action, event.resourceId])).toEqual([
+      ['CHANGELIST_OPENED', 'c.com'],
+      ['CHANGELIST_CLOSED', 'b.com'],
+    ]);
+  });
+});
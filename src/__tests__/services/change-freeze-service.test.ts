@@ -0,0 +1,172 @@
+/**
+ * Change Freeze Service Tests
+ *
+ * Verifies recurring windows, timezones, exemptions and calendar loading
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ChangeFreezeError,
+  ChangeFreezeService,
+  evaluateFreeze,
+  FreezeCalendarSchema,
+  canonicalToolName,
+  freezeRequests,
+  isActivationTool,
+  type FreezeCalendar,
+} from '../../services/change-freeze-service';
+
+describe('Change freeze calendar', () => {
+  const calendar: FreezeCalendar = FreezeCalendarSchema.parse({
+    customers: {
+      '*': {
+        timezone: 'America/New_York',
+        windows: [
+          { name: 'Holiday freeze', recurrence: 'yearly', start: '12-20T00:00', end: '01-03T00:00' },
+          {
+            name: 'Weekend',
+            recurrence: 'weekly',
+            start: 'fri 16:00',
+            end: 'mon 08:00',
+            exemptions: { tools: ['dns_*'], properties: ['prp_42'] },
+          },
+        ],
+      },
+      acme: {
+        windows: [
+          { name: 'Nightly batch', reason: 'Origin maintenance', recurrence: 'daily', start: '22:00', end: '06:00' },
+          { name: 'Launch', start: '2026-11-03T06:00', end: '2026-11-04T18:00', timezone: 'Europe/Berlin', networks: ['staging', 'production'] },
+        ],
+      },
+    },
+  });
+
+  const activation = { customer: 'default', tool: 'property_activate', network: 'production' } as const;
+
+  it('should block yearly windows that wrap into the next year', () => {
+    const decision = evaluateFreeze(calendar, { ...activation, at: new Date('2026-12-24T15:00:00Z') });
+
+    expect(decision.frozen).toBe(true);
+    expect(decision.freeze).toMatchObject({ name: 'Holiday freeze', endsAtLocal: '2027-01-03 00:00' });
+    expect(decision.freeze?.endsAt.toISOString()).toBe('2027-01-03T05:00:00.000Z');
+  });
+
+  it('should evaluate weekly windows in the calendar timezone across DST changes', () => {
+    expect(evaluateFreeze(calendar, { ...activation, at: new Date('2026-10-17T12:00:00Z') }).freeze?.endsAt.toISOString())
+      .toBe('2026-10-19T12:00:00.000Z');
+    expect(evaluateFreeze(calendar, { ...activation, at: new Date('2026-10-31T12:00:00Z') }).freeze?.endsAt.toISOString())
+      .toBe('2026-11-02T13:00:00.000Z');
+    expect(evaluateFreeze(calendar, { ...activation, at: new Date('2026-10-21T12:00:00Z') }).frozen).toBe(false);
+  });
+
+  it('should honor tool and property exemptions and staging activations', () => {
+    const at = new Date('2026-10-17T12:00:00Z');
+
+    expect(evaluateFreeze(calendar, { customer: 'default', tool: 'dns_zone_activate', at }).frozen).toBe(false);
+    expect(evaluateFreeze(calendar, { ...activation, propertyId: 'prp_42', at }).frozen).toBe(false);
+    expect(evaluateFreeze(calendar, { ...activation, network: 'staging', at }).frozen).toBe(false);
+  });
+
+  it('should apply tool exemptions to every name of an activation', () => {
+    const at = new Date('2026-10-17T12:00:00Z');
+
+    expect(canonicalToolName('activate-zone-changes')).toBe('dns_zone_activate');
+    expect(canonicalToolName('property_activate')).toBe('property_activate');
+    expect(evaluateFreeze(calendar, { customer: 'default', tool: 'activate-zone-changes', at }).frozen).toBe(false);
+    expect(evaluateFreeze(calendar, { ...activation, tool: 'activate-property', at }).frozen).toBe(true);
+  });
+
+  it('should apply customer windows in their own timezone', () => {
+    const decision = evaluateFreeze(calendar, { ...activation, customer: 'acme', network: 'staging', at: new Date('2026-11-03T23:30:00Z') });
+
+    expect(decision.freeze).toMatchObject({ name: 'Launch', timezone: 'Europe/Berlin', endsAtLocal: '2026-11-04 18:00' });
+    expect(evaluateFreeze(calendar, { ...activation, customer: 'acme', at: new Date('2026-10-21T03:00:00Z') }).freeze)
+      .toMatchObject({ name: 'Nightly batch', reason: 'Origin maintenance', endsAtLocal: '2026-10-21 06:00' });
+  });
+
+  it('should reject malformed windows and unknown timezones', () => {
+    expect(() => FreezeCalendarSchema.parse({ customers: { '*': { windows: [{ name: 'x', recurrence: 'weekly', start: 'friday', end: 'mon 08:00' }] } } }))
+      .toThrow();
+    expect(() => FreezeCalendarSchema.parse({ customers: { '*': { timezone: 'Mars/Olympus', windows: [] } } })).toThrow();
+  });
+
+  it('should recognize activation tools across naming styles', () => {
+    expect(['property_activate', 'activate-property', 'property.activate', 'dns.zone.activate'].every(isActivationTool)).toBe(true);
+    expect(['property_deactivate', 'property_activation_status'].some(isActivationTool)).toBe(false);
+    expect([
+      'bulk_activate_properties',
+      'datastream_stream_activate',
+      'edge_compute_activate_cloudlet',
+      'security_client_list_activate',
+      'ivm_policy_upsert',
+      'ivm_policy_rollback',
+    ].every(isActivationTool)).toBe(true);
+  });
+
+  it('should check every activated item of a bulk call', () => {
+    expect(freezeRequests('default', 'bulk_activate_properties', {
+      activations: [{ propertyId: 'prp_1', network: 'STAGING' }, { propertyId: 'prp_2', network: 'PRODUCTION' }],
+      notificationEmails: ['ops@example.com'],
+    })).toEqual([
+      { customer: 'default', tool: 'bulk_activate_properties', network: 'staging', propertyId: 'prp_1' },
+      { customer: 'default', tool: 'bulk_activate_properties', network: 'production', propertyId: 'prp_2' },
+    ]);
+    expect(freezeRequests('default', 'property_batch_version_operations', {
+      operations: [{ propertyId: 'prp_1', action: 'create' }, { propertyId: 'prp_2', action: 'activate' }],
+    })).toEqual([{ customer: 'default', tool: 'property_batch_version_operations', propertyId: 'prp_2' }]);
+    expect(freezeRequests('default', 'ivm_policy_rollback', { policyId: 'p1', network: 'production' }))
+      .toEqual([{ customer: 'default', tool: 'ivm_policy_rollback', network: 'production' }]);
+  });
+
+  describe('ChangeFreezeService', () => {
+    let dir: string;
+    let service: ChangeFreezeService | undefined;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'alecs-freeze-'));
+    });
+
+    afterEach(() => {
+      service?.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should explain which window blocks an activation and when it ends', () => {
+      const file = join(dir, 'freeze.json');
+      writeFileSync(file, JSON.stringify(calendar));
+      service = new ChangeFreezeService(file);
+
+      expect(() => service!.assertNotFrozen({ ...activation, at: new Date('2026-12-24T15:00:00Z') }))
+        .toThrow(ChangeFreezeError);
+      expect(() => service!.assertNotFrozen({ ...activation, at: new Date('2026-12-24T15:00:00Z') }))
+        .toThrow('blocked by change freeze "Holiday freeze". The freeze ends at 2027-01-03 00:00 America/New_York');
+    });
+
+    it('should block production activations when the calendar cannot be loaded', () => {
+      const file = join(dir, 'freeze.json');
+      writeFileSync(file, '{ "customers": [] }');
+      service = new ChangeFreezeService(file);
+
+      expect(service.check(activation)).toMatchObject({ frozen: true });
+      expect(service.check({ ...activation, network: 'staging' }).frozen).toBe(false);
+      expect(new ChangeFreezeService(undefined).check(activation).frozen).toBe(false);
+    });
+
+    it('should check tool calls at dispatch by their activated items', () => {
+      const file = join(dir, 'freeze.json');
+      writeFileSync(file, '{ "customers": [] }');
+      service = new ChangeFreezeService(file);
+      const properties = [{ propertyId: 'prp_1', version: 3, network: 'staging' }];
+
+      expect(service.checkToolCall('default', 'property_bulk_activate', { properties })).toBeUndefined();
+      expect(service.checkToolCall('default', 'property_bulk_activate', {
+        properties: [...properties, { propertyId: 'prp_2', version: 8, network: 'production' }],
+      })).toBeInstanceOf(ChangeFreezeError);
+      expect(service.checkToolCall('default', 'edge_compute_activate_edgeworker', { edgeWorkerId: 1, version: '2' }))
+        .toBeInstanceOf(ChangeFreezeError);
+      expect(service.checkToolCall('default', 'property_list', {})).toBeUndefined();
+    });
+  });
+});
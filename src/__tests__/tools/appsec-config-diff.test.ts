@@ -0,0 +1,120 @@
+/**
+ * AppSec Configuration Diff Test Suite
+ *
+ * Tests field-level diffs and the per-policy, rate control, custom rule and
+ * match target grouping of configuration version diffs
+ */
+
+import type { AppSecConfigExport } from '../../tools/appsec-config/appsec-config-api-implementation';
+import { countConfigChanges, diffAppSecConfigs, diffFields } from '../../tools/appsec-config/appsec-config-diff';
+
+const baseline: AppSecConfigExport = {
+  configId: 12345,
+  configName: 'www',
+  version: 8,
+  createDate: '2026-09-01T10:00:00Z',
+  selectedHosts: ['www.example.com', 'old.example.com'],
+  securityPolicies: [
+    {
+      id: 'pol_1',
+      name: 'Main',
+      webApplicationFirewall: {
+        attackGroupActions: [{ group: 'SQL', action: 'alert' }, { group: 'XSS', action: 'deny' }],
+        ruleActions: [{ id: 950002, action: 'alert' }]
+      },
+      ratePolicyActions: [{ id: 1, ipv4Action: 'alert', ipv6Action: 'alert' }],
+      penaltyBox: { action: 'alert', penaltyBoxProtection: true }
+    },
+    { id: 'pol_2', name: 'Legacy' }
+  ],
+  ratePolicies: [{ id: 1, name: 'Origin Error', averageThreshold: 5, used: true }],
+  customRules: [{ id: 60001, name: 'Block admin', conditions: [{ type: 'pathMatch', value: ['/admin'] }] }],
+  matchTargets: {
+    websiteTargets: [{ targetId: 10, type: 'website', hostnames: ['www.example.com'], securityPolicy: { policyId: 'pol_1' } }]
+  },
+  advancedOptions: { logging: { allowSampling: true } }
+};
+
+const changed: AppSecConfigExport = {
+  ...baseline,
+  version: 10,
+  createDate: '2026-10-01T10:00:00Z',
+  selectedHosts: ['www.example.com', 'api.example.com'],
+  securityPolicies: [
+    {
+      id: 'pol_1',
+      name: 'Main',
+      webApplicationFirewall: {
+        attackGroupActions: [{ group: 'SQL', action: 'deny' }, { group: 'XSS', action: 'deny' }],
+        ruleActions: [{ id: 950002, action: 'alert', conditionException: { exception: { specificHeaderCookieParamXmlOrJsonNames: [] } } }]
+      },
+      ratePolicyActions: [{ id: 1, ipv4Action: 'deny', ipv6Action: 'alert' }, { id: 2, ipv4Action: 'deny', ipv6Action: 'deny' }],
+      penaltyBox: { action: 'deny', penaltyBoxProtection: true }
+    },
+    { id: 'pol_3', name: 'API' }
+  ],
+  ratePolicies: [{ id: 1, name: 'Origin Error', averageThreshold: 10, used: false }, { id: 2, name: 'POST Page' }],
+  customRules: [],
+  matchTargets: {
+    websiteTargets: [{ targetId: 10, type: 'website', hostnames: ['www.example.com'], securityPolicy: { policyId: 'pol_1' } }],
+    apiTargets: [{ targetId: 11, type: 'api', securityPolicy: { policyId: 'pol_3' } }]
+  },
+  advancedOptions: { logging: { allowSampling: false } }
+};
+
+describe('AppSec configuration diff', () => {
+  it('should report leaf differences and ignore bookkeeping fields', () => {
+    expect(diffFields(
+      { a: { b: 1, c: [1, 2] }, updateDate: 'x' },
+      { a: { b: 2, c: [1, 2], d: true }, updateDate: 'y' }
+    )).toEqual([
+      { path: 'a.b', from: 1, to: 2 },
+      { path: 'a.d', to: true }
+    ]);
+  });
+
+  it('should group policy changes by action type', () => {
+    const diff = diffAppSecConfigs(baseline, changed);
+
+    expect(diff.selectedHosts).toEqual({ added: ['api.example.com'], removed: ['old.example.com'] });
+    expect(diff.policies.map(policy => [policy.policyId, policy.status])).toEqual([
+      ['pol_1', 'changed'], ['pol_2', 'removed'], ['pol_3', 'added']
+    ]);
+
+    const main = diff.policies[0]!;
+    expect(main.attackGroupActions).toEqual([{ id: 'SQL', from: 'alert', to: 'deny', details: [] }]);
+    expect(main.ruleActions).toEqual([{
+      id: '950002',
+      from: 'alert',
+      to: 'alert',
+      details: [{ path: 'conditionException', to: { exception: { specificHeaderCookieParamXmlOrJsonNames: [] } } }]
+    }]);
+    expect(main.ratePolicyActions).toEqual([
+      { id: '1', from: 'alert', to: 'ipv4 deny, ipv6 alert', details: [] },
+      { id: '2', to: 'deny', details: [] }
+    ]);
+    expect(main.settings).toEqual([{ path: 'penaltyBox.action', from: 'alert', to: 'deny' }]);
+  });
+
+  it('should diff rate controls, custom rules and match targets', () => {
+    const diff = diffAppSecConfigs(baseline, changed);
+
+    expect(diff.ratePolicies).toEqual([
+      { id: '1', name: 'Origin Error', status: 'changed', changes: [{ path: 'averageThreshold', from: 5, to: 10 }] },
+      { id: '2', name: 'POST Page', status: 'added', changes: [] }
+    ]);
+    expect(diff.customRules).toEqual([{ id: '60001', name: 'Block admin', status: 'removed', changes: [] }]);
+    expect(diff.matchTargets).toEqual([
+      { id: '11', name: 'api target: all hostnames', policyId: 'pol_3', status: 'added', changes: [] }
+    ]);
+    expect(diff.otherSections).toEqual(['advancedOptions']);
+    expect(countConfigChanges(diff)).toBe(14);
+  });
+
+  it('should find no changes between identical versions', () => {
+    const diff = diffAppSecConfigs(baseline, { ...baseline, version: 9, createDate: 'later' });
+
+    expect(diff.policies).toEqual([]);
+    expect(countConfigChanges(diff)).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Bot Manager Test Suite
+ *
+ * Tests custom client conditions and the bot category action diff across
+ * security policies
+ */
+
+import { clientConditions, describeConditions, diffBotCategoryActions } from '../../tools/bot-manager/bot-manager';
+
+describe('Bot Manager', () => {
+  it('should build and describe custom client conditions', () => {
+    const conditions = clientConditions({ userAgents: ['MyApp/*'], tlsFingerprints: ['769,47-53,0-10'] });
+
+    expect(conditions.map(condition => condition.type)).toEqual(['requestHeaderCondition', 'tlsFingerprintCondition']);
+    expect(describeConditions(conditions)).toBe('User-Agent MyApp/*; TLS fingerprint 769,47-53,0-10');
+    expect(() => clientConditions({ userAgents: [] })).toThrow('Provide at least one of');
+  });
+
+  it('should list categories that policies treat inconsistently', () => {
+    const diff = diffBotCategoryActions(
+      [
+        {
+          policyId: 'pol_www',
+          policyName: 'Website',
+          akamai: [{ categoryId: 'scrapers', action: 'deny' }, { categoryId: 'search', action: 'skip' }],
+          custom: [{ categoryId: 'partners', action: 'monitor' }]
+        },
+        {
+          policyId: 'pol_api',
+          akamai: [{ categoryId: 'scrapers', action: 'monitor' }, { categoryId: 'search', action: 'skip' }],
+          custom: []
+        },
+        {
+          policyId: 'pol_shop',
+          akamai: [{ categoryId: 'scrapers', action: 'tarpit' }, { categoryId: 'search', action: 'skip' }],
+          custom: [{ categoryId: 'partners', action: 'monitor' }]
+        }
+      ],
+      [{ categoryId: 'scrapers', categoryName: 'Web Scrapers' }, { categoryId: 'search', categoryName: 'Search Engines' }],
+      [{ categoryId: 'partners', categoryName: 'Partners' }]
+    );
+
+    expect(diff.categories).toBe(3);
+    expect(diff.inconsistent).toBe(2);
+    expect(diff.rows.map(row => [row.categoryName, row.consistent])).toEqual([
+      ['Search Engines', true],
+      ['Web Scrapers', false],
+      ['Partners', false]
+    ]);
+    expect(diff.rows[1]?.byAction).toEqual([
+      { action: 'monitor', policyIds: ['pol_api'] },
+      { action: 'tarpit', policyIds: ['pol_shop'] },
+      { action: 'deny', policyIds: ['pol_www'] }
+    ]);
+    expect(diff.rows[2]?.actions).toEqual({ pol_www: 'monitor', pol_api: 'not set', pol_shop: 'monitor' });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Client List Migration Test Suite
+ *
+ * Tests item checks per list type, network list conversion and the scan of
+ * security configuration exports for network list references
+ */
+
+import {
+  checkClientListValue,
+  convertNetworkList,
+  findNetworkListReferences,
+  validateClientListItems
+} from '../../tools/client-lists/client-list-migration';
+
+describe('Client list migration', () => {
+  it('should check values against the list type', () => {
+    expect(checkClientListValue('IP', '192.0.2.0/24')).toBeUndefined();
+    expect(checkClientListValue('IP', '2001:db8::/32')).toBeUndefined();
+    expect(checkClientListValue('IP', '192.0.2.0/33')).toBe('Invalid prefix length /33');
+    expect(checkClientListValue('IP', 'example.com')).toBe('Not an IP address or CIDR block');
+    expect(checkClientListValue('GEO', 'US:CA')).toBeUndefined();
+    expect(checkClientListValue('GEO', 'usa')).toBeDefined();
+    expect(checkClientListValue('ASN', 'AS64512')).toBeUndefined();
+    expect(checkClientListValue('FILE_HASH', 'abc')).toBeDefined();
+  });
+
+  it('should report duplicates and expired items', () => {
+    const errors = validateClientListItems('IP', [
+      { value: '192.0.2.1' },
+      { value: '192.0.2.1', expirationDate: '2020-01-01T00:00:00Z' },
+      { value: '198.51.100.7', expirationDate: '2030-01-01T00:00:00Z' }
+    ], new Date('2026-01-01T00:00:00Z'));
+
+    expect(errors).toEqual([
+      '192.0.2.1: Listed more than once',
+      '192.0.2.1: Expiration date 2020-01-01T00:00:00Z is in the past'
+    ]);
+  });
+
+  it('should convert network list elements and skip what a client list rejects', () => {
+    const conversion = convertNetworkList({
+      networkListId: '12345_BLOCK',
+      type: 'IP',
+      csvContent: '192.0.2.1\n\n198.51.100.0/24\r\n192.0.2.1\nnot-an-ip'
+    });
+
+    expect(conversion.type).toBe('IP');
+    expect(conversion.items).toEqual([
+      { value: '192.0.2.1', description: 'Migrated from network list 12345_BLOCK' },
+      { value: '198.51.100.0/24', description: 'Migrated from network list 12345_BLOCK' }
+    ]);
+    expect(conversion.skipped).toEqual([
+      { value: '192.0.2.1', reason: 'Duplicate' },
+      { value: 'not-an-ip', reason: 'Not an IP address or CIDR block' }
+    ]);
+    expect(() => convertNetworkList({ networkListId: '1_X', type: 'EXCEPTION', csvContent: '' })).toThrow('cannot be migrated');
+  });
+
+  it('should find match targets, custom rules and firewall controls that use the list', () => {
+    const references = findNetworkListReferences({
+      configId: 42,
+      configName: 'www',
+      version: 7,
+      matchTargets: {
+        websiteTargets: [
+          { targetId: 1, securityPolicy: { policyId: 'www_1' }, bypassNetworkLists: [{ id: '12345_BLOCK' }] },
+          { targetId: 2, bypassNetworkLists: [{ id: '999_OTHER' }] }
+        ]
+      },
+      customRules: [
+        { id: 60001, name: 'Block bad IPs', conditions: [{ type: 'ipMatch', positiveMatch: false, value: ['12345_BLOCK'] }] },
+        { id: 60002, name: 'Path', conditions: [{ type: 'pathMatch', value: ['/admin'] }] }
+      ],
+      securityPolicies: [
+        { id: 'www_1', ipGeoFirewall: { ipControls: { blockedIPNetworkLists: { networkList: ['12345_BLOCK'] } } } }
+      ]
+    }, '12345_BLOCK');
+
+    expect(references.map(reference => [reference.kind, reference.id, reference.detail])).toEqual([
+      ['matchTarget', 1, 'Website match target for policy www_1 bypasses the list'],
+      ['customRule', 60001, 'ipMatch condition (negated)'],
+      ['ipGeoFirewall', 'www_1', 'IP controls: blockedIPNetworkLists']
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Cloudlet Rules Test Suite
+ *
+ * Tests structured match rule edits, redirect CSV import and the offline
+ * match simulator
+ */
+
+import {
+  type MatchRule,
+  MatchRuleSchema,
+  addRule,
+  assertRuleType,
+  deleteRule,
+  moveRule,
+  parseRedirectCsv,
+  simulateMatch
+} from '../../tools/edge-compute/cloudlet-rules';
+
+const rules: MatchRule[] = [
+  {
+    type: 'erMatchRule',
+    name: 'old-blog',
+    matchURL: 'www.example.com/blog/*',
+    redirectURL: 'https://blog.example.com/',
+    statusCode: 301,
+    useIncomingQueryString: true
+  },
+  {
+    type: 'erMatchRule',
+    name: 'mobile-beta',
+    matches: [
+      { matchType: 'path', matchOperator: 'equals', matchValue: '/app /app/*' },
+      { matchType: 'cookie', matchOperator: 'equals', objectMatchValue: { type: 'object', name: 'beta', options: { value: ['1'] } } },
+      { matchType: 'header', matchOperator: 'contains', negate: true, objectMatchValue: { type: 'object', name: 'User-Agent', options: { value: ['bot'] } } }
+    ],
+    redirectURL: '/beta',
+    statusCode: 302
+  },
+  {
+    type: 'erMatchRule',
+    name: 'eu-only',
+    matches: [{ matchType: 'countrycode', matchOperator: 'equals', matchValue: 'DE FR' }],
+    redirectURL: '/eu',
+    statusCode: 302
+  },
+  {
+    type: 'erMatchRule',
+    name: 'office',
+    matches: [{ matchType: 'clientip', matchOperator: 'equals', matchValue: '10.1.0.0/16 192.0.2.7' }],
+    redirectURL: '/internal',
+    statusCode: 307
+  }
+];
+
+describe('Cloudlet rules', () => {
+  describe('editing', () => {
+    it('should add, move and delete rules by position or name', () => {
+      const names = (list: MatchRule[]) => list.map(rule => rule.name);
+      const extra: MatchRule = { type: 'erMatchRule', name: 'new', matchURL: '/x', redirectURL: '/y', statusCode: 301 };
+
+      expect(names(addRule(rules, extra, 1))).toEqual(['new', 'old-blog', 'mobile-beta', 'eu-only', 'office']);
+      expect(names(moveRule(rules, 'office', 2))).toEqual(['old-blog', 'office', 'mobile-beta', 'eu-only']);
+      expect(names(moveRule(rules, 1, 4))).toEqual(['mobile-beta', 'eu-only', 'office', 'old-blog']);
+      expect(names(deleteRule(rules, 2))).toEqual(['old-blog', 'eu-only', 'office']);
+      expect(() => deleteRule(rules, 'missing')).toThrow("No rule named 'missing'");
+      expect(() => addRule(rules, extra, 6)).toThrow('out of range');
+    });
+
+    it('should only accept rules that fit the Cloudlet type', () => {
+      const rule = MatchRuleSchema.parse({ type: 'igMatchRule', matchURL: '/admin/*', allowDeny: 'deny' });
+      expect(() => assertRuleType(rule, 'IG')).not.toThrow();
+      expect(() => assertRuleType(rule, 'ER')).toThrow('erMatchRule');
+      expect(() => assertRuleType(rule, 'VP')).toThrow('not supported');
+    });
+  });
+
+  it('should import redirects from CSV and report bad rows', () => {
+    const { rules: imported, issues } = parseRedirectCsv([
+      'name,path,redirectURL,statusCode,useIncomingQueryString',
+      'sale,/sale,/offers,301,yes',
+      ',/old,/new,,',
+      'bad,/x,/y,200,',
+      'missing,,/z,,'
+    ].join('\n'));
+
+    expect(imported).toEqual([
+      {
+        type: 'erMatchRule',
+        name: 'sale',
+        matches: [{ matchType: 'path', matchOperator: 'equals', matchValue: '/sale' }],
+        redirectURL: '/offers',
+        statusCode: 301,
+        useIncomingQueryString: true
+      },
+      expect.objectContaining({ redirectURL: '/new', statusCode: 301, useIncomingQueryString: false })
+    ]);
+    expect(issues.map(issue => issue.row)).toEqual([4, 5]);
+    expect(() => parseRedirectCsv('from,to\n/a,/b')).toThrow('redirectURL');
+  });
+
+  describe('simulateMatch', () => {
+    it('should fire the first matching rule and carry the query string', () => {
+      const result = simulateMatch(rules, { url: 'https://www.example.com/blog/post?id=7' });
+      expect(result.matched?.position).toBe(1);
+      expect(result.matched?.action).toBe('Redirect 301 to https://blog.example.com/?id=7');
+    });
+
+    it('should evaluate path, cookie and negated header conditions together', () => {
+      const request = { url: 'https://www.example.com/app/home', cookies: { beta: '1' }, headers: { 'user-agent': 'Mozilla' } };
+      expect(simulateMatch(rules, request).matched?.rule.name).toBe('mobile-beta');
+
+      const bot = simulateMatch(rules, { ...request, headers: { 'User-Agent': 'GoogleBot' } });
+      expect(bot.matched).toBeUndefined();
+      expect(bot.evaluations[1]?.reason).toContain('NOT header contains User-Agent=bot');
+    });
+
+    it('should skip conditions it cannot evaluate and match geo and IP data when given', () => {
+      const noGeo = simulateMatch(rules, { url: 'https://www.example.com/shop' });
+      expect(noGeo.matched).toBeUndefined();
+      expect(noGeo.evaluations[2]?.reason).toContain('Cannot simulate countrycode');
+
+      expect(simulateMatch(rules, { url: 'https://www.example.com/shop', countryCode: 'FR' }).matched?.position).toBe(3);
+      expect(simulateMatch(rules, { url: 'https://www.example.com/shop', clientIp: '10.1.200.3' }).matched?.position).toBe(4);
+      expect(simulateMatch(rules, { url: 'https://www.example.com/shop', clientIp: '10.2.0.1' }).matched).toBeUndefined();
+    });
+
+    it('should honour disabled rules and activity windows', () => {
+      const timed: MatchRule[] = [
+        { ...rules[0]!, disabled: true },
+        { ...rules[0]!, name: 'later', start: 2000000000 },
+        { ...rules[0]!, name: 'now', start: 1000000000, end: 2000000000 }
+      ];
+      const result = simulateMatch(timed, { url: 'https://www.example.com/blog/', time: new Date('2026-01-01T00:00:00Z') });
+      expect(result.evaluations.map(evaluation => evaluation.matched)).toEqual([false, false, true]);
+      expect(result.evaluations[0]?.reason).toBe('Rule is disabled');
+    });
+  });
+});
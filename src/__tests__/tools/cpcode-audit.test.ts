@@ -0,0 +1,83 @@
+/**
+ * CP Code Audit Test Suite
+ *
+ * Tests CP code collection from rule trees, moving CP codes between
+ * reporting groups and audit classification
+ */
+
+import type { RuleTree } from '../../types/akamai';
+import type { ReportingGroup } from '../../tools/cpcodes/cpcode-api-implementation';
+import {
+  auditCpCodes,
+  collectRuleTreeCpCodes,
+  cprgContractId,
+  cprgGroupId,
+  moveCpCodes
+} from '../../tools/cpcodes/cpcode-audit';
+
+const rules: RuleTree = {
+  name: 'default',
+  behaviors: [{ name: 'cpCode', options: { value: { id: 111, name: 'www' } } }],
+  children: [
+    {
+      name: 'Images',
+      behaviors: [
+        { name: 'imageManager', options: { cpCodeOriginal: { id: 222 }, cpCodeTransformed: { id: 333 }, policySet: { id: 9 } } }
+      ],
+      children: [
+        { name: 'API', behaviors: [{ name: 'cpCode', options: { value: { id: 111 } } }], children: [] }
+      ]
+    }
+  ]
+};
+
+const group = (id: number, contracts: ReportingGroup['contracts']): ReportingGroup => ({
+  reportingGroupId: id,
+  reportingGroupName: `Group ${id}`,
+  contracts
+});
+
+describe('CP code audit', () => {
+  it('should strip ID prefixes for the CPRG API', () => {
+    expect(cprgContractId('ctr_1-ABCDE')).toBe('1-ABCDE');
+    expect(cprgGroupId('grp_12345')).toBe(12345);
+    expect(cprgGroupId('12345')).toBe(12345);
+  });
+
+  it('should collect CP codes from every behavior option of a rule tree', () => {
+    expect(collectRuleTreeCpCodes(rules)).toEqual([111, 222, 333]);
+  });
+
+  it('should move CP codes and keep their contract', () => {
+    const from = group(1, [
+      { contractId: 'C-1', cpcodes: [{ cpcodeId: 10 }, { cpcodeId: 11 }] },
+      { contractId: 'C-2', cpcodes: [{ cpcodeId: 20 }] }
+    ]);
+    const to = group(2, [{ contractId: 'C-1', cpcodes: [{ cpcodeId: 12 }] }]);
+
+    const moved = moveCpCodes(from, to, [11, 20]);
+
+    expect(moved.from.contracts).toEqual([{ contractId: 'C-1', cpcodes: [{ cpcodeId: 10 }] }]);
+    expect(moved.to.contracts).toEqual([
+      { contractId: 'C-1', cpcodes: [{ cpcodeId: 12 }, { cpcodeId: 11 }] },
+      { contractId: 'C-2', cpcodes: [{ cpcodeId: 20 }] }
+    ]);
+    expect(to.contracts[0]?.cpcodes).toHaveLength(1);
+    expect(() => moveCpCodes(from, to, [99])).toThrow('CP codes 99 are not in reporting group Group 1 (1)');
+  });
+
+  it('should report unreferenced and idle CP codes', () => {
+    const cpcodes = [
+      { cpcodeId: 111, cpcodeName: 'www' },
+      { cpcodeId: 222, cpcodeName: 'images' },
+      { cpcodeId: 444, cpcodeName: 'old' }
+    ];
+    const references = new Map([[111, ['www v3']], [222, ['www v3']]]);
+
+    expect(auditCpCodes(cpcodes, references, new Map([[111, 5000], [222, 3]]), 10)).toEqual([
+      { cpcodeId: 222, cpcodeName: 'images', referencedBy: ['www v3'], edgeHits: 3, unreferenced: false, idle: true },
+      { cpcodeId: 444, cpcodeName: 'old', referencedBy: [], edgeHits: 0, unreferenced: true, idle: true }
+    ]);
+    expect(auditCpCodes(cpcodes, references, undefined).map(finding => [finding.cpcodeId, finding.idle])).toEqual([[444, false]]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * EdgeKV Import Test Suite
+ *
+ * Tests parsing bulk import files and classifying access tokens by expiry
+ */
+
+import {
+  EDGEKV_MAX_VALUE_BYTES,
+  checkTokenExpiry,
+  parseCsvImport,
+  parseEdgeKVImport,
+  parseJsonImport
+} from '../../tools/edge-compute/edgekv-import';
+
+describe('EdgeKV import', () => {
+  describe('parseJsonImport', () => {
+    it('should accept an object keyed by item key', () => {
+      expect(parseJsonImport('{"home": {"lang": "en"}, "banner": "Sale", "limit": 5}')).toEqual([
+        { key: 'home', value: { lang: 'en' } },
+        { key: 'banner', value: 'Sale' },
+        { key: 'limit', value: '5' }
+      ]);
+    });
+
+    it('should accept an array of key/value entries', () => {
+      expect(parseJsonImport('[{"key": "a", "value": [1, 2]}]')).toEqual([{ key: 'a', value: [1, 2] }]);
+      expect(() => parseJsonImport('[{"name": "a"}]')).toThrow('Entry 0');
+    });
+  });
+
+  describe('parseCsvImport', () => {
+    it('should handle quoted fields, extra columns and blank lines', () => {
+      const csv = 'id,key,value\r\n1,greeting,"Hello, ""world"""\r\n\r\n2,multi,"line one\nline two"\n';
+      expect(parseCsvImport(csv)).toEqual([
+        { key: 'greeting', value: 'Hello, "world"' },
+        { key: 'multi', value: 'line one\nline two' }
+      ]);
+    });
+
+    it('should require key and value columns', () => {
+      expect(() => parseCsvImport('name,data\na,b')).toThrow('"key" and "value"');
+      expect(() => parseCsvImport('key,value\na,"b')).toThrow('unterminated');
+    });
+  });
+
+  it('should infer the format from the file name and report invalid items', () => {
+    const big = 'x'.repeat(EDGEKV_MAX_VALUE_BYTES + 1);
+    const plan = parseEdgeKVImport(`key,value\nok,1\nbad key,2\nok,3\nbig,${big}\n`, undefined, 'items.CSV');
+
+    expect(plan.items).toEqual([{ key: 'ok', value: '1' }]);
+    expect(plan.issues.map(issue => issue.key)).toEqual(['bad key', 'ok', 'big']);
+    expect(plan.issues[1]?.error).toContain('Duplicate');
+  });
+
+  it('should classify tokens by expiry, soonest first', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const checks = checkTokenExpiry([
+      { name: 'later', expiry: '2026-08-01' },
+      { name: 'old', expiry: '2026-02-28' },
+      { name: 'soon', expiry: '2026-03-10' },
+      { name: 'today', expiry: '2026-03-01' }
+    ], now, 30);
+
+    expect(checks.map(check => [check.token.name, check.state])).toEqual([
+      ['old', 'expired'],
+      ['today', 'expiring'],
+      ['soon', 'expiring'],
+      ['later', 'ok']
+    ]);
+    expect(checks[2]?.daysRemaining).toBe(9);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Hostname Coverage Test Suite
+ *
+ * Tests wildcard hostname matching and the protection status of property
+ * hostnames against AppSec selected hostnames
+ */
+
+import { buildCoverageReport, hostnameMatches } from '../../tools/appsec-policy/hostname-coverage';
+
+describe('Hostname coverage', () => {
+  it('should match exact and single-label wildcard hostnames', () => {
+    expect(hostnameMatches('www.example.com', 'WWW.example.com')).toBe(true);
+    expect(hostnameMatches('*.example.com', 'shop.example.com')).toBe(true);
+    expect(hostnameMatches('*.example.com', 'a.shop.example.com')).toBe(false);
+    expect(hostnameMatches('*.example.com', 'example.com')).toBe(false);
+  });
+
+  it('should classify property hostnames as protected, pending or unprotected', () => {
+    const report = buildCoverageReport(
+      [
+        { propertyId: 'prp_1', propertyName: 'www', hostnames: ['www.example.com', 'shop.example.com'] },
+        { propertyId: 'prp_2', propertyName: 'api', hostnames: ['api.example.com', 'legacy.example.org'] }
+      ],
+      [
+        { configId: 1, configName: 'Main', productionVersion: 4, production: ['www.example.com'], latestVersion: 5, latest: ['www.example.com', 'api.example.com'] },
+        { configId: 2, latestVersion: 1, latest: ['*.example.com'], production: [] }
+      ]
+    );
+
+    expect(report.rows).toEqual([
+      { hostname: 'shop.example.com', propertyId: 'prp_1', propertyName: 'www', status: 'pending', configs: ['2 v1'] },
+      { hostname: 'www.example.com', propertyId: 'prp_1', propertyName: 'www', status: 'protected', configs: ['Main v4'] },
+      { hostname: 'api.example.com', propertyId: 'prp_2', propertyName: 'api', status: 'pending', configs: ['Main v5', '2 v1'] },
+      { hostname: 'legacy.example.org', propertyId: 'prp_2', propertyName: 'api', status: 'unprotected', configs: [] }
+    ]);
+    expect(report.summary).toEqual({ protected: 1, pending: 2, unprotected: 1 });
+  });
+});
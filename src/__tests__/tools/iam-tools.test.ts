@@ -0,0 +1,160 @@
+/**
+ * IAM Tools Test Suite
+ *
+ * Tests role grant editing, writing rotated credentials back to .edgerc
+ * and keeping rotated secrets out of the audit log
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AkamaiClient } from '../../akamai-client';
+import { runWithPlanCapture } from '../../core/dry-run';
+import { AuditLogService } from '../../services/audit-log-service';
+import type { IamAuthGrant } from '../../tools/iam/iam-api-implementation';
+import { applyRoleGrant, findEffectiveGrant, removeGroupGrant } from '../../tools/iam/iam-grants';
+import { rotateCredential } from '../../tools/iam/iam-tools';
+import { CustomerConfigManager, rewriteEdgercSection } from '../../utils/customer-config';
+
+jest.mock('../../akamai-client');
+
+const grants: IamAuthGrant[] = [
+  {
+    groupId: 1,
+    groupName: 'Top',
+    roleId: 10,
+    roleName: 'Admin',
+    subGroups: [
+      { groupId: 2, groupName: 'Media', subGroups: [{ groupId: 3, groupName: 'Video' }] },
+      { groupId: 4, groupName: 'Web', roleId: 11, roleName: 'Editor' }
+    ]
+  }
+];
+
+const EDGERC = `# Akamai credentials
+[default]
+client_secret = old-secret
+host = akab-host.luna.akamaiapis.net
+access_token = akab-access
+client_token = akab-old-token
+
+[acme]
+client_secret = acme-secret
+host = akab-acme.luna.akamaiapis.net
+access_token = akab-acme-access
+client_token = akab-acme-token
+`;
+
+describe('IAM tools', () => {
+  describe('role grants', () => {
+    it('should resolve direct and inherited roles on a group', () => {
+      expect(findEffectiveGrant(grants, 4)).toMatchObject({ grant: { roleName: 'Editor' }, inherited: false });
+      expect(findEffectiveGrant(grants, 3)).toMatchObject({ grant: { groupId: 1, roleName: 'Admin' }, inherited: true });
+      expect(findEffectiveGrant(grants, 99)).toBeUndefined();
+    });
+
+    it('should replace the role on a granted group or add a new grant', () => {
+      const updated = applyRoleGrant(grants, 4, 12);
+      expect(updated[0]?.subGroups?.[1]).toEqual({ groupId: 4, groupName: 'Web', roleId: 12 });
+      expect(grants[0]?.subGroups?.[1]?.roleId).toBe(11);
+
+      expect(applyRoleGrant(grants, 7, 12)).toEqual([...grants, { groupId: 7, roleId: 12 }]);
+    });
+
+    it('should remove a grant anywhere in the tree', () => {
+      expect(removeGroupGrant(grants, 4)?.[0]?.subGroups?.map(grant => grant.groupId)).toEqual([2]);
+      expect(removeGroupGrant(grants, 1)).toEqual([]);
+      expect(removeGroupGrant(grants, 99)).toBeUndefined();
+    });
+  });
+
+  describe('rewriteEdgercSection', () => {
+    it('should replace credentials in place and leave other sections alone', () => {
+      const updated = rewriteEdgercSection(EDGERC, 'default', {
+        client_token: 'akab-new-token',
+        client_secret: 'new-secret'
+      });
+
+      expect(updated).toBe(EDGERC
+        .replace('old-secret', 'new-secret')
+        .replace('akab-old-token', 'akab-new-token'));
+    });
+
+    it('should keep the old credentials as a previous section during the grace period', () => {
+      const until = new Date('2026-01-08T00:00:00.000Z');
+      const first = rewriteEdgercSection(EDGERC, 'acme', {
+        client_token: 'akab-acme-token-2',
+        client_secret: 'acme-secret-2'
+      }, until);
+      const second = rewriteEdgercSection(first, 'acme', {
+        client_token: 'akab-acme-token-3',
+        client_secret: 'acme-secret-3'
+      }, until);
+
+      const sections = second.match(/^\[.+\]$/gm);
+      expect(sections).toEqual(['[default]', '[acme]', '[acme-previous]']);
+      expect(second).toContain('client_token = akab-acme-token-3');
+      expect(second).toContain('client_token = akab-acme-token-2');
+      expect(second).not.toContain('akab-acme-token\n');
+      expect(second).toContain('valid until 2026-01-08T00:00:00.000Z');
+      expect(second.endsWith('client_token = akab-acme-token-2\n')).toBe(true);
+    });
+
+    it('should reject unknown sections', () => {
+      expect(() => rewriteEdgercSection(EDGERC, 'missing', { client_token: 't', client_secret: 's' }))
+        .toThrow("Section 'missing' not found");
+    });
+  });
+
+  describe('iam_credential_rotate', () => {
+    let dir: string;
+    let updateSectionCredentials: jest.Mock;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'alecs-iam-'));
+      updateSectionCredentials = jest.fn();
+      jest.spyOn(CustomerConfigManager, 'getInstance').mockReturnValue({
+        getSection: () => ({ client_token: 'akab-old-token' }),
+        updateSectionCredentials
+      } as unknown as CustomerConfigManager);
+      jest.mocked(AkamaiClient.prototype.request).mockImplementation(async (options: any) => {
+        if (options.method === 'GET') {
+          return [{ credentialId: 1, clientToken: 'akab-old-token', status: 'ACTIVE', expiresOn: '2027-01-01T00:00:00Z' }];
+        }
+        if (options.method === 'POST') {
+          return { credentialId: 2, clientToken: 'akab-new-token', clientSecret: 'new-secret+Zq9=', expiresOn: '2028-01-01T00:00:00Z' };
+        }
+        return {};
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should show a secret that is not written to .edgerc without logging it', async () => {
+      const auditLog = new AuditLogService(join(dir, 'audit.jsonl'));
+      const args = { clientId: 'client-1', gracePeriodDays: 7, updateEdgerc: false };
+      const audit = auditLog.begin({ principal: 'tok_alice', customer: 'default', tool: 'iam_credential_rotate', args });
+
+      const result = await audit.capture(() => rotateCredential(args));
+      await audit.finish('success', { result });
+
+      expect(result.content[0]?.text).toContain('client_secret = new-secret+Zq9=');
+      const [entry] = auditLog.read();
+      expect(entry?.result).toContain('client_secret = [REDACTED]');
+      expect(readFileSync(join(dir, 'audit.jsonl'), 'utf8')).not.toContain('new-secret');
+    });
+
+    it('should not claim .edgerc was updated when the rotation is only planned', async () => {
+      const args = { clientId: 'client-1', gracePeriodDays: 7, updateEdgerc: true };
+
+      const { result } = await runWithPlanCapture(() => rotateCredential(args));
+
+      expect(updateSectionCredentials).not.toHaveBeenCalled();
+      expect(result?.content[0]?.text).toContain('.edgerc section [default] was not updated');
+      expect(result?.content[0]?.text).not.toContain('now uses the new credential');
+    });
+  });
+});
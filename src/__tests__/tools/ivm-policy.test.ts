@@ -0,0 +1,114 @@
+/**
+ * Image & Video Manager Policy Test Suite
+ *
+ * Tests local policy validation and adding the imageManager behavior to a
+ * property rule tree
+ */
+
+import type { RuleTree } from '../../types/akamai';
+import { applyImageManagerBehavior, validateIvmPolicy } from '../../tools/image-manager/ivm-policy';
+
+describe('IVM policies', () => {
+  describe('validateIvmPolicy', () => {
+    it('should accept a policy with nested transformations and variables', () => {
+      const policy = {
+        id: 'hero',
+        version: 3,
+        breakpoints: { widths: [320, 640, 1280] },
+        output: { perceptualQuality: { var: 'quality' }, allowedFormats: ['webp', 'jpeg'] },
+        transformations: [
+          { transformation: 'Resize', width: { var: 'width' }, aspect: 'fit' },
+          {
+            transformation: 'IfOrientation',
+            portrait: { transformation: 'Compound', transformations: [{ transformation: 'Crop', width: 400, height: 600, gravity: 'Center' }] }
+          }
+        ],
+        postBreakpointTransformations: [{ transformation: 'UnsharpMask', sigma: 1 }],
+        variables: [
+          { name: 'width', type: 'number', defaultValue: '800' },
+          { name: 'quality', type: 'perceptualQuality', defaultValue: 'mediumHigh' }
+        ]
+      };
+
+      expect(validateIvmPolicy(policy, 'IMAGE')).toEqual([]);
+    });
+
+    it('should report unknown transformations, parameters and undefined variables with paths', () => {
+      const errors = validateIvmPolicy({
+        transformations: [
+          { transformation: 'Resise', width: 100 },
+          { transformation: 'Crop', width: 100, height: 100, gravityy: 'North' },
+          { transformation: 'Blur', sigma: { var: 'blur' } }
+        ]
+      }, 'IMAGE');
+
+      expect(errors).toEqual([
+        'transformations[0].transformation: Unknown transformation',
+        'transformations[1]: Unknown parameter gravityy',
+        "transformations[2].sigma: Variable 'blur' is not defined in variables"
+      ]);
+    });
+
+    it('should enforce output, breakpoint and post-breakpoint rules', () => {
+      const errors = validateIvmPolicy({
+        breakpoints: { widths: [0] },
+        output: { perceptualQuality: 'high', quality: 80 },
+        postBreakpointTransformations: [
+          { transformation: 'Compound', transformations: [{ transformation: 'Resize', width: 100 }] }
+        ]
+      }, 'IMAGE');
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toMatch(/^breakpoints\.widths\[0\]/);
+      expect(errors[1]).toBe('output: Use perceptualQuality or quality, not both');
+      expect(errors[2]).toBe('postBreakpointTransformations[0].transformations[0]: Resize changes image dimensions and cannot run after breakpoints');
+    });
+
+    it('should not allow transformations in video policies', () => {
+      expect(validateIvmPolicy({ transformations: [] }, 'VIDEO')).toEqual(['policy: Unknown parameter transformations']);
+    });
+  });
+
+  describe('applyImageManagerBehavior', () => {
+    const rules: RuleTree = {
+      name: 'default',
+      children: [{ name: 'Performance', children: [] }],
+      behaviors: [{ name: 'origin', options: {} }]
+    };
+    const options = {
+      policySetId: 'acme_images',
+      policySetType: 'IMAGE' as const,
+      cpCodeOriginal: 111,
+      cpCodeTransformed: 222,
+      superCacheRegion: 'EMEA' as const
+    };
+
+    it('should add an image rule with the CP codes and policy set', () => {
+      const updated = applyImageManagerBehavior(rules, options);
+      const rule = updated.children[1];
+
+      expect(updated.children[0]).toBe(rules.children[0]);
+      expect(rule?.name).toBe('Image and Video Manager (Images)');
+      expect(rule?.criteria?.[0]?.options['values']).toContain('webp');
+      expect(rule?.behaviors?.[0]).toEqual({
+        name: 'imageManager',
+        options: expect.objectContaining({
+          enabled: true,
+          cpCodeOriginal: { id: 111 },
+          cpCodeTransformed: { id: 222 },
+          policySet: 'acme_images',
+          superCacheRegion: 'EMEA'
+        })
+      });
+    });
+
+    it('should update an existing rule in place', () => {
+      const once = applyImageManagerBehavior(rules, options);
+      const twice = applyImageManagerBehavior(once, { ...options, cpCodeTransformed: 333 });
+
+      expect(twice.children).toHaveLength(2);
+      expect(twice.children[1]?.behaviors).toHaveLength(1);
+      expect(twice.children[1]?.behaviors?.[0]?.options['cpCodeTransformed']).toEqual({ id: 333 });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Security Posture Test Suite
+ *
+ * Tests per-hostname checklist scoring of AppSec policies and property rule
+ * trees, and the Markdown and CSV exports
+ */
+
+import type { RuleTree } from '../../types/akamai';
+import type { AppSecConfigExport } from '../../tools/appsec-config/appsec-config-api-implementation';
+import {
+  buildPostureMatrix,
+  buildRemediationPlan,
+  renderPostureCsv,
+  renderPostureMarkdown
+} from '../../tools/security-posture/security-posture';
+
+const NOW = new Date('2026-06-01T00:00:00Z').getTime();
+
+const hardenedRules: RuleTree = {
+  name: 'default',
+  behaviors: [
+    { name: 'siteShield', options: { ssmap: { name: 'ss.akamai.net', value: 'ss.akamai.net' } } },
+    { name: 'httpStrictTransportSecurity', options: { enable: true, maxAge: 'ONE_YEAR' } }
+  ],
+  children: [
+    {
+      name: 'Block old TLS',
+      criteria: [{
+        name: 'matchVariable',
+        options: { variableName: 'AK_TLS_VERSION', matchOperator: 'IS_ONE_OF', variableValues: ['TLSv1', 'TLSv1.1'] }
+      }],
+      behaviors: [{ name: 'denyAccess', options: { enabled: true, reason: 'old-tls' } }],
+      children: []
+    }
+  ]
+};
+
+const config: AppSecConfigExport = {
+  configId: 10,
+  configName: 'Main',
+  version: 3,
+  selectedHosts: ['*.example.com'],
+  matchTargets: {
+    websiteTargets: [
+      { targetId: 2, sequence: 2, securityPolicy: { policyId: 'pol_default' } },
+      { targetId: 1, sequence: 1, hostnames: ['shop.example.com'], securityPolicy: { policyId: 'pol_shop' } }
+    ]
+  },
+  securityPolicies: [
+    {
+      id: 'pol_shop',
+      name: 'Shop',
+      securityControls: { applyApplicationLayerControls: true, applyRateControls: true, applyBotmanControls: true },
+      webApplicationFirewall: { attackGroupActions: [{ group: 'SQL', action: 'deny' }, { group: 'XSS', action: 'deny' }] },
+      ratePolicyActions: [{ id: 1, ipv4Action: 'deny', ipv6Action: 'deny' }],
+      ipGeoFirewall: { ipControls: { blockedIPNetworkLists: { networkList: ['100_FRESH'] } } }
+    },
+    {
+      id: 'pol_default',
+      securityControls: { applyApplicationLayerControls: true, applyRateControls: true, applyBotmanControls: false },
+      webApplicationFirewall: { attackGroupActions: [{ group: 'SQL', action: 'deny' }, { group: 'XSS', action: 'alert' }] },
+      ratePolicyActions: [{ id: 1, ipv4Action: 'alert', ipv6Action: 'alert' }],
+      ipGeoFirewall: { geoControls: { blockedIPNetworkLists: { networkList: ['200_OLD'] } } }
+    }
+  ]
+};
+
+const networkLists = [
+  { uniqueId: '100_FRESH', name: 'Blocked IPs', elementCount: 12, updateDate: '2026-05-20T00:00:00Z', productionActivationStatus: 'ACTIVE' },
+  { uniqueId: '200_OLD', name: 'Embargo', elementCount: 3, updateDate: '2025-01-01T00:00:00Z', productionActivationStatus: 'ACTIVE' }
+];
+
+describe('Security posture', () => {
+  const matrix = buildPostureMatrix(
+    [
+      { propertyId: 'prp_1', propertyName: 'www', version: 7, hostnames: ['shop.example.com', 'blog.example.com'], rules: hardenedRules },
+      { propertyId: 'prp_2', propertyName: 'legacy', version: 2, hostnames: ['legacy.example.org'], rules: { name: 'default', children: [] } }
+    ],
+    [config],
+    networkLists,
+    180,
+    NOW
+  );
+
+  it('should assess each hostname against the policy and rule tree that serve it', () => {
+    const [blog, shop, legacy] = matrix.rows;
+
+    expect(shop?.policyId).toBe('pol_shop');
+    expect(Object.values(shop?.checks || {}).map(check => check.status)).toEqual(Array(7).fill('pass'));
+    expect(shop?.checks.tls_minimum.detail).toBe('TLSv1.2 minimum (rule Block old TLS)');
+    expect(shop?.score).toBe(100);
+
+    expect(blog?.policyId).toBe('pol_default');
+    expect(blog?.checks.waf_deny).toMatchObject({ status: 'warn', detail: '1 of 2 attack groups do not deny: XSS' });
+    expect(blog?.checks.rate_controls.status).toBe('warn');
+    expect(blog?.checks.bot_management.status).toBe('fail');
+    expect(blog?.checks.network_lists).toMatchObject({ status: 'warn', detail: 'Stale network lists: Embargo (not updated for 516 days)' });
+    expect(blog?.score).toBe(64);
+
+    expect(legacy?.configId).toBeUndefined();
+    expect(legacy?.checks.waf_deny.status).toBe('fail');
+    expect(legacy?.checks.site_shield.status).toBe('fail');
+    expect(legacy?.score).toBe(0);
+
+    expect(matrix.staleNetworkLists).toEqual([
+      { uniqueId: '200_OLD', name: 'Embargo', reasons: ['not updated for 516 days'], referencedBy: ['config 10 policy pol_default'] }
+    ]);
+  });
+
+  it('should group remediation steps and export Markdown and CSV', () => {
+    const remediation = buildRemediationPlan(matrix);
+    expect(remediation[0]).toEqual({
+      check: 'waf_deny',
+      step: 'Set attack groups to deny with security_waf_attack_group_configure (config 10 policy pol_default)',
+      hostnames: ['blog.example.com']
+    });
+    expect(remediation.filter(entry => entry.hostnames.includes('legacy.example.org')).map(entry => entry.check))
+      .toEqual(['waf_deny', 'tls_minimum', 'hsts', 'site_shield']);
+
+    const report = { ...matrix, remediation, guidance: { bot_management: ['Allow good bots (search engines)'] }, networkListChecklist: [] };
+    const markdown = renderPostureMarkdown(report);
+    expect(markdown).toContain('| shop.example.com | www | Main / Shop | ✅ | ✅ | ✅ | ✅ | ✅ | ✅ | ✅ | 100% |');
+    expect(markdown).toContain('- Allow good bots (search engines)');
+
+    const csv = renderPostureCsv(report).split('\n');
+    expect(csv[0]).toBe('hostname,propertyId,propertyName,configId,policyId,waf_deny,rate_controls,bot_management,' +
+      'tls_minimum,hsts,site_shield,network_lists,score,findings,remediation');
+    expect(csv[2]).toBe('shop.example.com,prp_1,www,10,pol_shop,pass,pass,pass,pass,pass,pass,pass,100,,');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Site Shield Export Test Suite
+ *
+ * Tests CIDR diffs, CIDR set selection and firewall configuration exports
+ */
+
+import type { SiteShieldMap } from '../../tools/site-shield/site-shield-api-implementation';
+import { diffCidrs, exportCidrs, normalizeCidrs, selectCidrs } from '../../tools/site-shield/site-shield-export';
+
+const map: SiteShieldMap = {
+  id: 1234,
+  ruleName: 'a;s1234.akamaiedge.net',
+  acknowledged: false,
+  currentCidrs: ['23.50.48.0/20', '2.16.0.0/13', '104.64.0.0/10'],
+  proposedCidrs: ['2.16.0.0/13', '104.64.0.0/10', '184.24.0.0/13', '2600:1400::/24']
+};
+
+const options = { ports: [443], name: 'siteshield_1234', description: 'Akamai Site Shield test' };
+
+describe('Site Shield export', () => {
+  it('should sort CIDRs numerically with IPv6 last', () => {
+    expect(normalizeCidrs([' 23.50.48.0/20', '2600:1400::/24', '2.16.0.0/13', '2.16.0.0/13'])).toEqual([
+      '2.16.0.0/13', '23.50.48.0/20', '2600:1400::/24'
+    ]);
+  });
+
+  it('should diff proposed against current CIDRs', () => {
+    expect(diffCidrs(map.currentCidrs, map.proposedCidrs)).toEqual({
+      added: ['184.24.0.0/13', '2600:1400::/24'],
+      removed: ['23.50.48.0/20'],
+      unchanged: ['2.16.0.0/13', '104.64.0.0/10']
+    });
+  });
+
+  it('should select current, proposed or both sets', () => {
+    expect(selectCidrs(map, 'current')).toHaveLength(3);
+    expect(selectCidrs(map, 'proposed')).toHaveLength(4);
+    expect(selectCidrs(map, 'union')).toHaveLength(5);
+    expect(selectCidrs({ ...map, proposedCidrs: [] }, 'proposed')).toEqual(selectCidrs(map, 'current'));
+  });
+
+  it('should render iptables and nftables rules per address family', () => {
+    const cidrs = ['2.16.0.0/13', '2600:1400::/24'];
+
+    expect(exportCidrs(cidrs, 'iptables', { ...options, ports: [80, 443] })).toBe([
+      '# Akamai Site Shield test',
+      '# Hook the chain in with: iptables -I INPUT -p tcp -m multiport --dports 80,443 -j SITESHIELD_1234',
+      '',
+      'iptables -N SITESHIELD_1234 2>/dev/null || iptables -F SITESHIELD_1234',
+      'iptables -A SITESHIELD_1234 -s 2.16.0.0/13 -p tcp -m multiport --dports 80,443 -j ACCEPT',
+      'iptables -A SITESHIELD_1234 -p tcp -m multiport --dports 80,443 -j DROP',
+      '',
+      'ip6tables -N SITESHIELD_1234 2>/dev/null || ip6tables -F SITESHIELD_1234',
+      'ip6tables -A SITESHIELD_1234 -s 2600:1400::/24 -p tcp -m multiport --dports 80,443 -j ACCEPT',
+      'ip6tables -A SITESHIELD_1234 -p tcp -m multiport --dports 80,443 -j DROP',
+      ''
+    ].join('\n'));
+
+    const nft = exportCidrs(cidrs, 'nftables', options);
+    expect(nft).toContain('table inet siteshield_1234 {');
+    expect(nft).toContain('    type ipv4_addr\n    flags interval\n    elements = {\n      2.16.0.0/13\n    }');
+    expect(nft).toContain('    tcp dport 443 ip6 saddr @siteshield_v6 accept\n    tcp dport 443 drop');
+  });
+
+  it('should render AWS security group JSON and Terraform', () => {
+    const aws = JSON.parse(exportCidrs(['2.16.0.0/13'], 'aws-security-group', { ...options, securityGroupId: 'sg-1' }));
+    expect(aws).toEqual({
+      GroupId: 'sg-1',
+      IpPermissions: [{
+        IpProtocol: 'tcp',
+        FromPort: 443,
+        ToPort: 443,
+        IpRanges: [{ CidrIp: '2.16.0.0/13', Description: 'Akamai Site Shield test' }]
+      }]
+    });
+
+    const terraform = exportCidrs(['2.16.0.0/13'], 'terraform', options);
+    expect(terraform).toContain('  siteshield_1234_cidrs = [\n    "2.16.0.0/13",\n  ]');
+    expect(terraform).toContain('resource "aws_security_group_rule" "siteshield_1234" {');
+    expect(terraform).toContain('  security_group_id = var.security_group_id');
+    expect(terraform).not.toContain('ipv6_cidr_blocks');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Test Center Suite Test Suite
+ *
+ * Tests test case conversion, smoke test generation from a rule tree and
+ * test run summaries
+ */
+
+import type { RuleTree } from '../../types/akamai';
+import type { TestCenterTestRun } from '../../tools/test-center/test-center-api-implementation';
+import {
+  assertTestRunPassed,
+  generateTestCases,
+  summarizeTestRun,
+  toTestCase
+} from '../../tools/test-center/test-center-suites';
+
+const rules: RuleTree = {
+  name: 'default',
+  behaviors: [
+    { name: 'origin', options: { hostname: 'origin.example.com' } },
+    { name: 'cpCode', options: { value: { id: 111 } } }
+  ],
+  children: [
+    {
+      name: 'Static',
+      criteria: [{ name: 'fileExtension', options: { matchOperator: 'IS_ONE_OF', values: ['css', 'js'] } }],
+      behaviors: [{ name: 'caching', options: { behavior: 'MAX_AGE', ttl: '7d' } }],
+      children: [
+        {
+          name: 'Assets',
+          criteria: [{ name: 'path', options: { matchOperator: 'MATCHES_ONE_OF', values: ['/assets/*'] } }],
+          behaviors: [{ name: 'cpCode', options: { value: { id: 222 } } }],
+          children: []
+        }
+      ]
+    },
+    {
+      name: 'API',
+      criteria: [{ name: 'path', options: { matchOperator: 'MATCHES_ONE_OF', values: ['/api/*'] } }],
+      behaviors: [{ name: 'caching', options: { behavior: 'NO_STORE' } }],
+      children: []
+    },
+    {
+      name: 'Not mobile',
+      criteria: [{ name: 'userAgent', options: { matchOperator: 'IS_NOT_ONE_OF', values: ['*Mobile*'] } }],
+      behaviors: [{ name: 'caching', options: { behavior: 'NO_STORE' } }],
+      children: []
+    },
+    {
+      name: 'Old blog',
+      criteria: [{ name: 'path', options: { matchOperator: 'MATCHES_ONE_OF', values: ['/blog'] } }],
+      behaviors: [{ name: 'redirect', options: { responseCode: 301 } }],
+      children: []
+    }
+  ]
+};
+
+function run(status: string, outcomes: string[]): TestCenterTestRun {
+  return {
+    testRunId: 77,
+    status,
+    targetEnvironment: 'STAGING',
+    functional: {
+      testSuiteExecutions: [{
+        testSuiteId: 5,
+        testSuiteName: 'www smoke tests',
+        testCaseExecutions: outcomes.map(outcome => ({
+          status: outcome,
+          testCase: toTestCase({ url: 'https://www.example.com/api/x', condition: 'Caching option is "no-store"' })
+        }))
+      }]
+    }
+  };
+}
+
+describe('Test Center suites', () => {
+  it('should convert test cases to the API shape', () => {
+    expect(toTestCase({
+      url: 'https://www.example.com/',
+      headers: [{ name: 'Accept-Encoding', value: 'gzip' }, { name: 'Cookie', action: 'FILTER' }],
+      condition: 'Response code is one of "200"'
+    })).toEqual({
+      testRequest: {
+        testRequestUrl: 'https://www.example.com/',
+        requestMethod: 'GET',
+        requestHeaders: [
+          { headerName: 'Accept-Encoding', headerValue: 'gzip', headerAction: 'ADD' },
+          { headerName: 'Cookie', headerAction: 'FILTER' }
+        ]
+      },
+      condition: { conditionExpression: 'Response code is one of "200"' },
+      clientProfile: { client: 'CURL', ipVersion: 'IPV4' }
+    });
+  });
+
+  it('should generate test cases from hostnames and testable rules', () => {
+    const generated = generateTestCases(rules, ['www.example.com', 'shop.example.com']);
+
+    expect(generated.testCases.map(({ testCase }) => `${testCase.url} ${testCase.condition}`)).toEqual([
+      'https://www.example.com/ CP code is "111"',
+      'https://shop.example.com/ CP code is "111"',
+      'https://www.example.com/alecs-test.css Caching option is "cache"',
+      'https://www.example.com/assets/alecs-test.css CP code is "222"',
+      'https://www.example.com/api/alecs-test Caching option is "no-store"',
+      'https://www.example.com/blog Response code is one of "301"'
+    ]);
+    expect(generated.testCases[3]?.rule).toBe('Static > Assets');
+    expect(generated.skipped).toEqual(['Not mobile: userAgent IS_NOT_ONE_OF']);
+  });
+
+  it('should stop at maxTestCases and count the rest', () => {
+    const generated = generateTestCases(rules, ['www.example.com'], 2);
+    expect(generated.testCases).toHaveLength(2);
+    expect(generated.truncated).toBe(3);
+  });
+
+  it('should only pass finished runs where every test case passed', () => {
+    expect(summarizeTestRun(run('COMPLETED', ['PASSED', 'PASSED']))).toEqual(
+      expect.objectContaining({ finished: true, passed: true, total: 2, passedCount: 2 })
+    );
+    expect(summarizeTestRun(run('IN_PROGRESS', [])).finished).toBe(false);
+
+    expect(() => assertTestRunPassed(run('COMPLETED', ['PASSED', 'FAILED']))).toThrow(
+      'Test run 77 failed 1 of 2 test cases:\n• https://www.example.com/api/x: Caching option is "no-store" (FAILED)'
+    );
+    expect(() => assertTestRunPassed(run('COMPLETED', []))).toThrow('ran no test cases');
+    expect(() => assertTestRunPassed(run('IN_PROGRESS', []))).toThrow('has not finished');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tool Annotation Tests
+ *
+ * Verifies MCP annotations derived from tool names and metadata
+ */
+
+import { deriveToolAnnotations, inferHttpMethod, toolTitle } from '../../tools/common/tool-annotations';
+
+describe('Tool annotations', () => {
+  it('should mark reads as read-only and idempotent', () => {
+    expect(deriveToolAnnotations('property_list')).toEqual({
+      title: 'Property List',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    });
+    expect(inferHttpMethod('reporting_traffic')).toBe('GET');
+  });
+
+  it('should use the last verb in the name', () => {
+    expect(inferHttpMethod('security_network_list_activate')).toBe('POST');
+    expect(inferHttpMethod('security_network_lists_list')).toBe('GET');
+    expect(inferHttpMethod('gtm_update_property_traffic')).toBe('PUT');
+  });
+
+  it('should use the leading verb of verb-first names', () => {
+    expect(deriveToolAnnotations('delete-network-list')).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    });
+    for (const name of ['activate-network-list', 'deactivate-network-list']) {
+      expect(deriveToolAnnotations(name)).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+    }
+    for (const name of ['create-network-list', 'update-network-list', 'import-network-list-from-csv']) {
+      expect(deriveToolAnnotations(name)).toMatchObject({ readOnlyHint: false });
+    }
+    expect(inferHttpMethod('list-network-lists')).toBe('GET');
+    expect(inferHttpMethod('export-network-list-to-csv')).toBe('GET');
+    expect(inferHttpMethod('bulk-activate-network-lists')).toBe('POST');
+  });
+
+  it('should treat migrations as writes', () => {
+    expect(deriveToolAnnotations('security_client_list_migrate')).toMatchObject({
+      readOnlyHint: false,
+      idempotentHint: false,
+    });
+  });
+
+  it('should flag deletions, activations and purges as destructive', () => {
+    for (const name of ['property_delete', 'dns_zone_delete', 'property_activate', 'fastpurge_invalidate_urls']) {
+      expect(deriveToolAnnotations(name)).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+    }
+    expect(deriveToolAnnotations('dns_record_upsert')).toMatchObject({ destructiveHint: false, idempotentHint: true });
+    expect(deriveToolAnnotations('property_create')).toMatchObject({ destructiveHint: false, idempotentHint: false });
+  });
+
+  it('should prefer explicit metadata over name analysis', () => {
+    expect(deriveToolAnnotations('rule_tree_merge', { httpMethod: 'GET', tags: ['local'] })).toMatchObject({
+      readOnlyHint: true,
+      openWorldHint: false,
+    });
+    expect(inferHttpMethod('rule_tree_merge')).toBe('POST');
+  });
+
+  it('should render acronyms in titles', () => {
+    expect(toolTitle('security_waf_policy_list')).toBe('Security WAF Policy List');
+    expect(toolTitle('dns_dnssec_ds_records')).toBe('DNS DNSSEC DS Records');
+  });
+});
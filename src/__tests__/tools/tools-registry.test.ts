@@ -0,0 +1,49 @@
+/**
+ * Tools Registry Test Suite
+ *
+ * Tests that every domain module loads and its tools reach the registry
+ */
+
+import { getAllToolDefinitions } from '../../tools/tools-registry';
+
+describe('Tools registry', () => {
+  const names = getAllToolDefinitions().map(tool => tool.name);
+
+  it('should serve the EdgeKV tools', () => {
+    expect(names).toEqual(expect.arrayContaining([
+      'edge_compute_edgekv_status',
+      'edge_compute_edgekv_namespace_list',
+      'edge_compute_edgekv_namespace_get',
+      'edge_compute_edgekv_namespace_create',
+      'edge_compute_edgekv_group_list',
+      'edge_compute_edgekv_item_list',
+      'edge_compute_edgekv_item_get',
+      'edge_compute_edgekv_item_put',
+      'edge_compute_edgekv_item_delete',
+      'edge_compute_edgekv_bulk_load',
+      'edge_compute_edgekv_token_list',
+      'edge_compute_edgekv_token_get',
+      'edge_compute_edgekv_token_create',
+      'edge_compute_edgekv_token_check'
+    ]));
+  });
+
+  it('should serve the Cloudlets v3 rule editing tools', () => {
+    expect(names).toEqual(expect.arrayContaining([
+      'edge_compute_list_cloudlet_versions',
+      'edge_compute_get_cloudlet_version',
+      'edge_compute_create_cloudlet_version',
+      'edge_compute_add_cloudlet_rule',
+      'edge_compute_move_cloudlet_rule',
+      'edge_compute_delete_cloudlet_rule',
+      'edge_compute_import_cloudlet_redirects',
+      'edge_compute_simulate_cloudlet_match'
+    ]));
+  });
+
+  it('should publish an input schema for every tool', () => {
+    for (const tool of getAllToolDefinitions()) {
+      expect(tool.schema).toBeDefined();
+    }
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * WAF Tuning Test Suite
+ *
+ * Tests SIEM event decoding, false-positive clustering, proposed rule
+ * exceptions with their impact estimates and applying a proposal
+ */
+
+import { appSecTools } from '../../tools/appsec';
+import type { WafRuleTrigger } from '../../tools/waf-tuning/waf-tuning-api-implementation';
+import {
+  clusterTriggers,
+  decodeSiemList,
+  normalizeSiemEvent,
+  pathPattern,
+  proposeExceptions
+} from '../../tools/waf-tuning/waf-tuning';
+
+const encode = (values: string[]): string =>
+  encodeURIComponent(values.map(value => Buffer.from(value).toString('base64')).join(';'));
+
+const thresholds = { minEvents: 3, minClients: 3, maxClientShare: 0.5 };
+
+function trigger(overrides: Partial<WafRuleTrigger>, index: number): WafRuleTrigger {
+  return {
+    configId: '12345',
+    policyId: 'pol_1',
+    ruleId: 950002,
+    selector: 'ARGS:q',
+    action: 'deny',
+    clientIp: `192.0.2.${index}`,
+    host: 'www.example.com',
+    path: '/search',
+    requestId: `req-${index}`,
+    ...overrides
+  };
+}
+
+describe('WAF tuning', () => {
+  it('should decode SIEM events into one trigger per rule', () => {
+    expect(decodeSiemList(encode(['950002', 'ARGS:q']))).toEqual(['950002', 'ARGS:q']);
+
+    const triggers = normalizeSiemEvent({
+      attackData: {
+        configId: '12345',
+        policyId: 'pol_1',
+        clientIP: '192.0.2.1',
+        rules: encode(['950002', '973335']),
+        ruleMessages: encode(['System Command Access', 'XSS Filter']),
+        ruleSelectors: encode(['ARGS:q', 'REQUEST_HEADERS:Referer']),
+        ruleActions: encode(['deny', 'alert'])
+      },
+      httpMessage: { requestId: 'abc', host: 'WWW.example.com', path: '/search' }
+    });
+
+    expect(triggers).toEqual([
+      expect.objectContaining({ ruleId: 950002, selector: 'ARGS:q', action: 'deny', host: 'www.example.com', requestId: 'abc' }),
+      expect.objectContaining({ ruleId: 973335, ruleMessage: 'XSS Filter', selector: 'REQUEST_HEADERS:Referer', action: 'alert' })
+    ]);
+  });
+
+  it('should wildcard ID-like path segments', () => {
+    expect(pathPattern('/orders/12345/items?page=2')).toBe('/orders/*/items');
+    expect(pathPattern('/users/3f2a9c1e-7b4d-4e8f-9a0b-1c2d3e4f5a6b')).toBe('/users/*');
+  });
+
+  it('should flag clusters hit by many clients as false-positive candidates', () => {
+    const triggers = [
+      ...[1, 2, 3, 4].map(index => trigger({}, index)),
+      // One client hammering a different path is not a candidate
+      ...[5, 6, 7, 8].map(index => trigger({ path: '/login', clientIp: '198.51.100.1' }, index))
+    ];
+
+    const clusters = clusterTriggers(triggers, thresholds);
+
+    expect(clusters.map(cluster => [cluster.path, cluster.clients, cluster.candidate])).toEqual([
+      ['/search', 4, true],
+      ['/login', 1, false]
+    ]);
+    expect(clusters[0]).toMatchObject({ parameter: { selector: 'ARGS', name: 'q' }, requests: 4, actions: { deny: 4 } });
+  });
+
+  it('should propose exceptions for named inputs and estimate their impact', () => {
+    const triggers = [
+      ...[1, 2, 3].map(index => trigger({}, index)),
+      ...[4, 5, 6].map(index => trigger({ path: '/orders/1', selector: 'REQUEST_COOKIES:cart' }, index)),
+      // Not a candidate on its own, but the combined exception covers it
+      trigger({ path: '/orders/2' }, 7)
+    ];
+
+    const [proposal] = proposeExceptions(triggers, clusterTriggers(triggers, thresholds));
+
+    expect(proposal).toMatchObject({
+      policyId: 'pol_1',
+      ruleId: 950002,
+      kind: 'exception',
+      action: 'deny',
+      clusters: 2,
+      conditionException: {
+        conditions: [
+          { type: 'hostMatch', positiveMatch: true, hosts: ['www.example.com'] },
+          { type: 'pathMatch', positiveMatch: true, paths: ['/orders/*', '/search'] }
+        ],
+        exception: {
+          specificHeaderCookieParamXmlOrJsonNames: [
+            { names: ['q'], selector: 'ARGS', wildcard: false },
+            { names: ['cart'], selector: 'REQUEST_COOKIES', wildcard: false }
+          ]
+        }
+      }
+    });
+    expect(proposal?.impact).toEqual({ events: 7, requests: 7, clients: 7, outsideCandidates: 1 });
+  });
+
+  it('should fall back to a host and path condition when an input cannot be named', () => {
+    const triggers = [1, 2, 3].map(index => trigger({ selector: 'REQUEST_FILENAME', action: 'alert' }, index));
+
+    const [proposal] = proposeExceptions(triggers, clusterTriggers(triggers, thresholds));
+
+    expect(proposal?.kind).toBe('condition');
+    expect(proposal?.action).toBe('alert');
+    expect(proposal?.conditionException.exception).toBeUndefined();
+  });
+
+  it('should apply a proposal to the cloned version with security_waf_rule_configure', async () => {
+    const triggers = [1, 2, 3].map(index => trigger({}, index));
+    const [proposal] = proposeExceptions(triggers, clusterTriggers(triggers, thresholds));
+    const requests: Array<{ path: string; method: string; body?: unknown }> = [];
+    const client = { request: async (options: { path: string; method: string; body?: unknown }) => {
+      requests.push(options);
+      return {};
+    } };
+
+    const response = await appSecTools['security_waf_rule_configure'].handler(client, {
+      configId: 12345,
+      version: 11,
+      policyId: proposal!.policyId,
+      ruleId: proposal!.ruleId,
+      action: proposal!.action,
+      conditionException: proposal!.conditionException
+    });
+
+    expect(response.content[0]?.text).toContain('WAF rule 950002 configured successfully');
+    expect(requests).toEqual([{
+      path: '/appsec/v1/configs/12345/versions/11/security-policies/pol_1/rules/950002',
+      method: 'PUT',
+      body: { action: 'deny', conditionException: proposal!.conditionException, advancedExceptionsList: undefined }
+    }]);
+  });
+
+  it('should report a rejected rule update as an error response', async () => {
+    const client = { request: async () => {
+      throw new Error('403 Forbidden');
+    } };
+
+    const response = await appSecTools['security_waf_rule_configure'].handler(client, {
+      configId: 12345,
+      version: 11,
+      policyId: 'pol_1',
+      ruleId: 950002,
+      action: 'deny'
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0]?.text).toBe('Error configuring WAF rule: 403 Forbidden');
+  });
+});
@@ -23,6 +23,8 @@ import * as path from 'path';
 
 import EdgeGrid = require('akamai-edgegrid');
 
+import { capturePlannedRequest, isMutatingRequest } from './core/dry-run';
+import { recordAuditedRequest } from './services/audit-log-service';
 import { type AkamaiError } from './types';
 import { defaultPool } from './utils/connection-pool';
 import { withTimeout, getTimeoutForOperation } from './utils/request-timeout-handler';
@@ -36,6 +38,19 @@ interface EdgeGridRequestOptions {
   qs?: Record<string, string>;
 }
 
+interface EdgeGridResponse {
+  statusCode: number;
+  headers?: Record<string, unknown>;
+}
+
+/**
+ * Narrow the response passed to the EdgeGrid send callback
+ */
+function isEdgeGridResponse(response: unknown): response is EdgeGridResponse {
+  return typeof response === 'object' && response !== null &&
+    'statusCode' in response && typeof response.statusCode === 'number';
+}
+
 export class AkamaiClient {
   private edgeGrid: EdgeGrid;  // EdgeGrid SDK instance for auth
   private accountSwitchKey?: string;  // Optional key for multi-customer support
@@ -130,6 +145,19 @@ export class AkamaiClient {
       // Ensure path starts with /
       const requestPath = _options.path.startsWith('/') ? _options.path : `/${_options.path}`;
 
+      // In plan mode, record mutations instead of sending them
+      if (
+        isMutatingRequest(_options.method, requestPath) &&
+        capturePlannedRequest({
+          method: _options.method || 'GET',
+          path: requestPath,
+          ...(_options.queryParams && { queryParams: _options.queryParams }),
+          ...(_options.body !== undefined && { body: _options.body }),
+        })
+      ) {
+        return {} as T;
+      }
+
       // Build query parameters object
       const queryParams: Record<string, string> = {};
 
@@ -155,7 +183,10 @@ export class AkamaiClient {
       };
       
       if (_options.body) {
-        requestOptions.body = JSON.stringify(_options.body);
+        // Text bodies (e.g. EdgeKV item values) are sent as-is
+        requestOptions.body = typeof _options.body === 'string' && requestOptions.headers['Content-Type']?.startsWith('text/')
+          ? _options.body
+          : JSON.stringify(_options.body);
       }
 
       // Add query parameters using qs property if any exist
@@ -205,6 +236,16 @@ export class AkamaiClient {
             // Clean up abort listener
             signal.removeEventListener('abort', abortHandler);
             
+            // Attribute the request to the audited tool call, if any
+            const httpResponse = isEdgeGridResponse(response) ? response : undefined;
+            const requestId = httpResponse?.headers?.['x-request-id'] || httpResponse?.headers?.['x-akamai-request-id'];
+            recordAuditedRequest({
+              method: requestOptions.method,
+              path: requestPath,
+              ...(httpResponse && { status: httpResponse.statusCode }),
+              ...(typeof requestId === 'string' && { requestId }),
+            });
+
             if (_error) {
               try {
                 this.handleApiError(_error);
@@ -215,8 +256,8 @@ export class AkamaiClient {
             }
 
             // Check for HTTP errors
-            if (response && (response as any).statusCode >= 400) {
-              const akamaiError = this.parseErrorResponse(body, (response as any).statusCode);
+            if (httpResponse && httpResponse.statusCode >= 400) {
+              const akamaiError = this.parseErrorResponse(body, httpResponse.statusCode);
               reject(akamaiError);
               return;
             }
@@ -0,0 +1,34 @@
+/**
+ * Caller Context
+ *
+ * Carries the authenticated principal of the current tool call through
+ * async handlers, so that tools which depend on who is calling (e.g.
+ * approvals under the two-person rule) do not need it threaded through
+ * every signature.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { ANONYMOUS_PRINCIPAL } from './rbac-policy';
+import type { ProgressNotifier } from '../utils/mcp-progress';
+
+export interface CallerContext {
+  principal: string; // TokenManager token ID or 'anonymous'
+  customer: string;
+  notifyProgress?: ProgressNotifier; // set when the request carried a progressToken
+}
+
+const callerStorage = new AsyncLocalStorage<CallerContext>();
+
+/**
+ * Run a tool call on behalf of a caller
+ */
+export function runAsCaller<T>(caller: CallerContext, fn: () => Promise<T>): Promise<T> {
+  return callerStorage.run(caller, fn);
+}
+
+/**
+ * Caller of the current tool call, anonymous outside a call handler
+ */
+export function getCaller(): CallerContext {
+  return callerStorage.getStore() || { principal: ANONYMOUS_PRINCIPAL, customer: 'default' };
+}
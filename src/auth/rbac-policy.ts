@@ -0,0 +1,266 @@
+/**
+ * Role-Based Access Control Policy for ALECS
+ *
+ * Loads an RBAC policy file that binds roles to TokenManager bearer
+ * tokens and evaluates tool calls against it. The policy is reloaded
+ * whenever the file changes, so grants can be updated without a restart.
+ *
+ * Enable by pointing ALECS_RBAC_POLICY at a JSON file:
+ *
+ * @example
+ * ```json
+ * {
+ *   "roles": {
+ *     "sre": { "tools": ["*"], "networks": ["staging", "production"] },
+ *     "security-engineer": { "domains": ["security", "appsec", "siem"], "networks": ["staging"] },
+ *     "analyst": { "tools": ["*"], "readOnly": true }
+ *   },
+ *   "principals": {
+ *     "tok_1a2b3c": { "name": "alice", "grants": [{ "customers": ["*"], "roles": ["sre"] }] },
+ *     "anonymous": { "grants": [{ "customers": ["default"], "roles": ["analyst"] }] }
+ *   }
+ * }
+ * ```
+ *
+ * Principals are keyed by TokenManager token ID; `anonymous` applies to
+ * callers without a bearer token (e.g. stdio). Without ALECS_RBAC_POLICY
+ * every call is allowed, matching single-user deployments.
+ */
+
+import { readFileSync, unwatchFile, watchFile } from 'fs';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { deriveToolAnnotations, hasMutatingVerb } from '../tools/common/tool-annotations';
+import { logger } from '../utils/logger';
+
+export type NetworkName = 'staging' | 'production';
+
+const RoleSchema = z.object({
+  description: z.string().optional(),
+  tools: z.array(z.string()).optional(),
+  domains: z.array(z.string()).optional(),
+  denyTools: z.array(z.string()).optional(),
+  readOnly: z.boolean().optional(),
+  networks: z.array(z.enum(['staging', 'production'])).optional(),
+});
+
+const GrantSchema = z.object({
+  customers: z.array(z.string()).min(1),
+  roles: z.array(z.string()).min(1),
+});
+
+const PrincipalSchema = z.object({
+  name: z.string().optional(),
+  grants: z.array(GrantSchema),
+});
+
+export const RbacPolicySchema = z.object({
+  roles: z.record(z.string(), RoleSchema),
+  principals: z.record(z.string(), PrincipalSchema),
+});
+
+export type RbacRole = z.infer<typeof RoleSchema>;
+export type RbacPolicy = z.infer<typeof RbacPolicySchema>;
+
+/**
+ * Principal used for callers that did not present a bearer token
+ */
+export const ANONYMOUS_PRINCIPAL = 'anonymous';
+
+/**
+ * A single tool call to authorize
+ */
+export interface PolicyRequest {
+  principal?: string;
+  customer: string;
+  tool: string;
+  action: 'read' | 'write';
+  network?: NetworkName;
+}
+
+/**
+ * Result of evaluating a request against the policy
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  principal?: string;
+  roles?: string[];
+}
+
+/**
+ * Match a value against a glob pattern where `*` matches any characters
+ */
+export function matchesPattern(pattern: string, value: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  const regex = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+  return regex.test(value);
+}
+
+function roleCoversTool(role: RbacRole, tool: string): boolean {
+  const byTool = role.tools?.some(pattern => matchesPattern(pattern, tool)) ?? false;
+  const byDomain = role.domains?.some(domain => tool === domain || tool.startsWith(`${domain}_`)) ?? false;
+  return byTool || byDomain;
+}
+
+/**
+ * Normalize the `network` argument used by activation tools
+ */
+export function parseNetwork(value: unknown): NetworkName | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const network = value.toLowerCase();
+  return network === 'staging' || network === 'production' ? network : undefined;
+}
+
+/**
+ * Classify a tool call as a read or a write
+ * Fails closed: a tool is only a read when its annotations say so and no
+ * verb anywhere in its name mutates, so read-only roles and network limits
+ * cannot be skipped by a name the annotation heuristic misreads.
+ */
+export function toolAction(tool: string): PolicyRequest['action'] {
+  return deriveToolAnnotations(tool).readOnlyHint && !hasMutatingVerb(tool) ? 'read' : 'write';
+}
+
+/**
+ * Evaluate a request against a policy
+ * Roles are additive: the call is allowed if any granted role permits it
+ */
+export function evaluatePolicy(policy: RbacPolicy, request: PolicyRequest): PolicyDecision {
+  const principalId = request.principal || ANONYMOUS_PRINCIPAL;
+  const principal = policy.principals[principalId];
+  if (!principal) {
+    return { allowed: false, principal: principalId, reason: `No role binding for principal '${principalId}'` };
+  }
+
+  const roleNames = [...new Set(principal.grants
+    .filter(grant => grant.customers.some(pattern => matchesPattern(pattern, request.customer)))
+    .flatMap(grant => grant.roles))];
+  if (roleNames.length === 0) {
+    return {
+      allowed: false,
+      principal: principalId,
+      reason: `No grant for customer '${request.customer}'`,
+    };
+  }
+
+  const denials: string[] = [];
+  for (const roleName of roleNames) {
+    const role = policy.roles[roleName];
+    if (!role) {
+      denials.push(`role '${roleName}' is not defined`);
+    } else if (!roleCoversTool(role, request.tool)) {
+      denials.push(`role '${roleName}' does not include ${request.tool}`);
+    } else if (role.denyTools?.some(pattern => matchesPattern(pattern, request.tool))) {
+      denials.push(`role '${roleName}' denies ${request.tool}`);
+    } else if (request.action === 'write' && role.readOnly) {
+      denials.push(`role '${roleName}' is read-only`);
+    } else if (
+      request.action === 'write' &&
+      request.network &&
+      !(role.networks || ['staging']).includes(request.network)
+    ) {
+      denials.push(`role '${roleName}' may not change the ${request.network} network`);
+    } else {
+      return { allowed: true, principal: principalId, roles: [roleName] };
+    }
+  }
+
+  return { allowed: false, principal: principalId, roles: roleNames, reason: denials.join('; ') };
+}
+
+/**
+ * Structured MCP error for a denied tool call
+ */
+export function authorizationError(decision: PolicyDecision, tool: string, customer: string): McpError {
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `Permission denied: ${tool} for customer '${customer}'${decision.reason ? ` (${decision.reason})` : ''}`,
+    {
+      type: 'authorization_denied',
+      tool,
+      customer,
+      principal: decision.principal,
+      roles: decision.roles,
+      reason: decision.reason,
+    }
+  );
+}
+
+/**
+ * Policy file store with hot reload
+ */
+export class RbacPolicyStore {
+  private static instance: RbacPolicyStore | undefined;
+  private policy: RbacPolicy | null = null;
+  private loadError: string | undefined;
+
+  constructor(private readonly policyPath: string | undefined) {
+    if (policyPath) {
+      this.load();
+      // Polling survives editors that replace the file on save
+      watchFile(policyPath, { interval: 1000, persistent: false }, () => this.load());
+    }
+  }
+
+  /**
+   * Get the store for ALECS_RBAC_POLICY
+   */
+  static getInstance(): RbacPolicyStore {
+    if (!RbacPolicyStore.instance) {
+      RbacPolicyStore.instance = new RbacPolicyStore(process.env['ALECS_RBAC_POLICY']);
+    }
+    return RbacPolicyStore.instance;
+  }
+
+  /**
+   * Whether a policy file is configured
+   */
+  isEnabled(): boolean {
+    return !!this.policyPath;
+  }
+
+  /**
+   * Evaluate a request
+   * Fails closed when the configured policy has never loaded successfully
+   */
+  evaluate(request: PolicyRequest): PolicyDecision {
+    if (!this.policyPath) {
+      return { allowed: true };
+    }
+    if (!this.policy) {
+      return { allowed: false, reason: `RBAC policy could not be loaded: ${this.loadError}` };
+    }
+    return evaluatePolicy(this.policy, request);
+  }
+
+  /**
+   * Stop watching the policy file
+   */
+  close(): void {
+    if (this.policyPath) {
+      unwatchFile(this.policyPath);
+    }
+  }
+
+  private load(): void {
+    try {
+      const parsed = RbacPolicySchema.parse(JSON.parse(readFileSync(this.policyPath!, 'utf8')));
+      this.policy = parsed;
+      this.loadError = undefined;
+      logger.info('RBAC policy loaded', {
+        path: this.policyPath,
+        roles: Object.keys(parsed.roles).length,
+        principals: Object.keys(parsed.principals).length,
+      });
+    } catch (error) {
+      // Keep serving the last good policy
+      this.loadError = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to load RBAC policy', { path: this.policyPath, error: this.loadError });
+    }
+  }
+}
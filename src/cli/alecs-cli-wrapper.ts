@@ -6,10 +6,10 @@
  * Entry point for the alecs command line tool
  */
 
-// Check if this is a generate command
+// Commands handled by the commander CLI
 const args = process.argv.slice(2);
-if (args.length > 0 && args[0] === 'generate') {
-  // Import and run the generate CLI
+if (args.length > 0 && (args[0] === 'generate' || args[0] === 'audit-export')) {
+  // Import and run the CLI
   import('./index').then(() => {
     // CLI will handle the command
   }).catch(error => {
@@ -26,6 +26,7 @@ Usage:
   alecs generate tool <domain> <name> Generate a new tool
   alecs generate list                 List available templates
   alecs generate --help               Show help
+  alecs audit-export --format csv     Export the audit log for compliance reviews
 
 Examples:
   alecs generate domain billing
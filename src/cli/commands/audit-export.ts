@@ -0,0 +1,89 @@
+/**
+ * Audit Export Command
+ *
+ * Exports the tool invocation audit log for compliance reviews, after
+ * verifying its hash chain.
+ *
+ * USAGE:
+ * - alecs audit-export --file .alecs/audit.jsonl --format csv --output audit.csv
+ * - alecs audit-export --since 2025-01-01 --customer acme --format json
+ */
+
+import { writeFileSync } from 'fs';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  AuditLogService,
+  formatAuditExport,
+  type AuditOutcome,
+} from '../../services/audit-log-service';
+import { createLogger } from '../../utils/pino-logger';
+
+const logger = createLogger('audit-export-command');
+
+/**
+ * Create audit export command
+ */
+export function createAuditExportCommand(): Command {
+  const command = new Command('audit-export')
+    .description('Export the tool invocation audit log for compliance reviews')
+    .option('-f, --file <path>', 'Audit log file (default: ALECS_AUDIT_LOG)')
+    .option('--format <format>', 'Output format: jsonl, json or csv', 'jsonl')
+    .option('-o, --output <path>', 'Write to a file instead of stdout')
+    .option('--since <timestamp>', 'Only entries at or after this ISO timestamp')
+    .option('--until <timestamp>', 'Only entries at or before this ISO timestamp')
+    .option('--customer <name>', 'Only entries for this customer section')
+    .option('--principal <tokenId>', 'Only entries for this caller')
+    .option('--tool <pattern>', 'Only entries for matching tools (* wildcards)')
+    .option('--outcome <outcome>', 'Only entries with this outcome')
+    .option('--allow-broken', 'Export even when the hash chain does not verify')
+    .action(async (options) => {
+      try {
+        const file = options.file || process.env['ALECS_AUDIT_LOG'];
+        if (!file) {
+          console.error(chalk.red('Error:'), 'No audit log given. Use --file or set ALECS_AUDIT_LOG.');
+          process.exit(1);
+        }
+        if (!['jsonl', 'json', 'csv'].includes(options.format)) {
+          console.error(chalk.red('Error:'), `Unknown format '${options.format}'`);
+          process.exit(1);
+        }
+
+        const service = new AuditLogService(file);
+        const verification = service.verify();
+        if (!verification.valid) {
+          console.error(chalk.red(`Hash chain broken at entry #${verification.brokenAt}: ${verification.reason}`));
+          if (!options.allowBroken) {
+            process.exit(2);
+          }
+        }
+
+        // Exports are chronological, unlike queries
+        const entries = service.query({
+          since: options.since,
+          until: options.until,
+          customer: options.customer,
+          principal: options.principal,
+          tool: options.tool,
+          outcome: options.outcome as AuditOutcome | undefined,
+        }).reverse();
+        const output = formatAuditExport(entries, options.format);
+
+        if (options.output) {
+          writeFileSync(options.output, output);
+          console.error(chalk.green(`Exported ${entries.length} entries to ${options.output}`));
+        } else {
+          process.stdout.write(output);
+        }
+        if (verification.valid) {
+          console.error(chalk.gray(`Hash chain verified (${verification.entries} entries, head ${verification.headHash})`));
+        }
+      } catch (error) {
+        logger.error({ error }, 'Command failed');
+        console.error(chalk.red('Error:'), error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -22,6 +22,7 @@ import { TestGenerator, generateDomainTestSuite } from './generators/test-genera
 import { listTemplates } from './generators/template-manager';
 import { createDownloadAPIsCommand } from './commands/download-apis';
 import { createGenerateFromAPICommand } from './commands/generate-from-api';
+import { createAuditExportCommand } from './commands/audit-export';
 import { createLogger } from '../utils/pino-logger';
 
 const logger = createLogger('alecs-cli');
@@ -121,6 +122,9 @@ program.addCommand(createDownloadAPIsCommand());
 // Generate from API command (OpenAPI-driven generation)
 program.addCommand(createGenerateFromAPICommand());
 
+// Audit export command (compliance reviews)
+program.addCommand(createAuditExportCommand());
+
 // Help command
 program
   .command('help')
@@ -0,0 +1,307 @@
+/**
+ * Dry-Run / Plan Mode
+ *
+ * Cross-cutting plan mode for mutating tools. While a plan context is
+ * active, AkamaiClient.request records mutating requests instead of
+ * sending them; reads still reach the API so tools can resolve IDs and
+ * so that "before" state can be fetched for a diff.
+ *
+ * Plan mode is entered when:
+ * - a tool is called with `dryRun: true`
+ * - the server runs with ALECS_READ_ONLY=1 (every call is plan-only)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AkamaiClient } from '../../akamai-client';
+
+/**
+ * A request captured instead of being sent
+ */
+export interface CapturedRequest {
+  method: string;
+  path: string;
+  queryParams?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Single change between the current and planned state
+ */
+export interface PlanDiffEntry {
+  path: string;
+  op: 'add' | 'remove' | 'replace';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Planned request with before/after state where a GET counterpart exists
+ */
+export interface PlannedChange extends CapturedRequest {
+  before?: unknown;
+  diff?: PlanDiffEntry[];
+  diffUnavailable?: string;
+}
+
+/**
+ * Plan returned to the client instead of executing a mutation
+ */
+export interface ExecutionPlan {
+  tool: string;
+  customer: string;
+  mode: 'dry-run' | 'read-only';
+  changes: PlannedChange[];
+  incomplete?: string;
+}
+
+/**
+ * JSON Schema for the `dryRun` argument advertised on every tool
+ */
+export const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description: 'Return the planned API requests and a before/after diff without applying any change',
+} as const;
+
+interface PlanContext {
+  requests: CapturedRequest[];
+}
+
+const planStorage = new AsyncLocalStorage<PlanContext>();
+
+/**
+ * POST endpoints that only read data and may be sent in plan mode
+ */
+export const READ_ONLY_POST_PATTERNS: RegExp[] = [
+  /^\/papi\/v1\/search\//,
+  /^\/papi\/v1\/rules\/validate/,
+  /^\/reporting-api\//,
+  /^\/edge-diagnostics\//,
+  /^\/diagnostic-tools\//,
+];
+
+/**
+ * Whether the server is forced into plan-only mode
+ */
+export function isReadOnlyMode(): boolean {
+  const value = process.env['ALECS_READ_ONLY'];
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Whether a tool call should run in plan mode
+ */
+export function isPlanRequested(args: unknown): boolean {
+  return isReadOnlyMode() || (typeof args === 'object' && args !== null && (args as any).dryRun === true);
+}
+
+/**
+ * Whether an HTTP request changes Akamai configuration
+ */
+export function isMutatingRequest(method: string | undefined, path: string): boolean {
+  const verb = (method || 'GET').toUpperCase();
+  if (verb === 'GET' || verb === 'HEAD' || verb === 'OPTIONS') {
+    return false;
+  }
+  if (verb === 'POST') {
+    return !READ_ONLY_POST_PATTERNS.some(pattern => pattern.test(path));
+  }
+  return true;
+}
+
+/**
+ * Whether a plan context is active for the current async call chain
+ */
+export function isPlanActive(): boolean {
+  return planStorage.getStore() !== undefined;
+}
+
+/**
+ * Record a mutating request in the active plan context
+ * Returns false when no plan context is active and the request must be sent
+ */
+export function capturePlannedRequest(request: CapturedRequest): boolean {
+  const context = planStorage.getStore();
+  if (!context) {
+    return false;
+  }
+  context.requests.push(request);
+  return true;
+}
+
+/**
+ * Run a function with mutating requests captured instead of sent
+ * Errors raised after a request was captured are returned rather than
+ * thrown, since they usually stem from the placeholder response
+ */
+export async function runWithPlanCapture<T>(
+  fn: () => Promise<T>
+): Promise<{ result?: T; error?: unknown; requests: CapturedRequest[] }> {
+  const context: PlanContext = { requests: [] };
+  try {
+    const result = await planStorage.run(context, fn);
+    return { result, requests: context.requests };
+  } catch (error) {
+    return { error, requests: context.requests };
+  }
+}
+
+/**
+ * Structural JSON diff between two values
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): PlanDiffEntry[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+  if (isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap(key => {
+      const childPath = `${path}/${key}`;
+      if (!(key in before)) {
+        return [{ path: childPath, op: 'add' as const, after: after[key] }];
+      }
+      if (!(key in after)) {
+        return [{ path: childPath, op: 'remove' as const, before: before[key] }];
+      }
+      return diffJson(before[key], after[key], childPath);
+    });
+  }
+
+  if (before === undefined || before === null) {
+    return [{ path: path || '/', op: 'add', after }];
+  }
+  if (after === undefined || after === null) {
+    return [{ path: path || '/', op: 'remove', before }];
+  }
+  return [{ path: path || '/', op: 'replace', before, after }];
+}
+
+/**
+ * Build a plan from captured requests, fetching the current state of
+ * each target through its GET counterpart to compute a diff
+ */
+export async function buildPlan(
+  client: AkamaiClient,
+  tool: string,
+  customer: string,
+  requests: CapturedRequest[],
+  error?: unknown
+): Promise<ExecutionPlan> {
+  const changes = await Promise.all(requests.map(async (request): Promise<PlannedChange> => {
+    const method = request.method.toUpperCase();
+
+    // Creations have no prior state
+    if (method === 'POST') {
+      return { ...request, diff: diffJson(undefined, request.body) };
+    }
+
+    try {
+      const before = await client.request({
+        path: request.path,
+        method: 'GET',
+        queryParams: request.queryParams,
+      });
+      const after = method === 'DELETE' ? undefined : request.body;
+      return {
+        ...request,
+        before,
+        // JSON Patch bodies describe the change themselves
+        diff: method === 'PATCH' ? undefined : diffJson(before, after),
+      };
+    } catch (fetchError) {
+      return {
+        ...request,
+        diffUnavailable: `No readable GET counterpart: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`,
+      };
+    }
+  }));
+
+  return {
+    tool,
+    customer,
+    mode: isReadOnlyMode() ? 'read-only' : 'dry-run',
+    changes,
+    ...(error !== undefined && {
+      incomplete: `Planning stopped early because a later step depends on a response that was not sent: ${error instanceof Error ? error.message : String(error)}`,
+    }),
+  };
+}
+
+/**
+ * Human-readable rendering of the planned requests and their diffs
+ */
+export function formatPlanChanges(plan: ExecutionPlan): string[] {
+  const lines = [`Planned requests: ${plan.changes.length}`];
+
+  plan.changes.forEach((change, index) => {
+    lines.push('', `${index + 1}. ${change.method.toUpperCase()} ${change.path}`);
+    if (change.body !== undefined) {
+      lines.push(`   Body: ${JSON.stringify(change.body)}`);
+    }
+    if (change.diff) {
+      if (change.diff.length === 0) {
+        lines.push('   No changes compared to current state');
+      }
+      for (const entry of change.diff.slice(0, 50)) {
+        const before = entry.before !== undefined ? JSON.stringify(entry.before) : '';
+        const after = entry.after !== undefined ? JSON.stringify(entry.after) : '';
+        lines.push(`   ${entry.op.padEnd(7)} ${entry.path} ${before}${before && after ? ' → ' : ''}${after}`);
+      }
+      if (change.diff.length > 50) {
+        lines.push(`   ... ${change.diff.length - 50} more changes`);
+      }
+    } else if (change.diffUnavailable) {
+      lines.push(`   ${change.diffUnavailable}`);
+    }
+  });
+
+  if (plan.incomplete) {
+    lines.push('', `⚠️ ${plan.incomplete}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Human-readable rendering of a plan
+ */
+export function formatPlan(plan: ExecutionPlan): string {
+  const header = plan.mode === 'read-only'
+    ? `🔒 Read-only mode (ALECS_READ_ONLY): ${plan.tool} was not executed.`
+    : `📝 Dry run: ${plan.tool} was not executed.`;
+
+  return [
+    header,
+    '',
+    `Customer: ${plan.customer}`,
+    ...formatPlanChanges(plan),
+    '',
+    plan.mode === 'read-only'
+      ? 'Unset ALECS_READ_ONLY to allow changes.'
+      : 'Call the tool again without dryRun to apply this plan.',
+  ].join('\n');
+}
+
+/**
+ * Run a tool body in plan mode
+ * Returns a plan when the body attempted mutations, otherwise the
+ * body's own result so that read-only tools behave as usual
+ */
+export async function executeAsPlan<T>(
+  client: AkamaiClient,
+  tool: string,
+  customer: string,
+  fn: () => Promise<T>
+): Promise<{ plan: ExecutionPlan } | { result: T }> {
+  const capture = await runWithPlanCapture(fn);
+  if (capture.requests.length > 0) {
+    return { plan: await buildPlan(client, tool, customer, capture.requests, capture.error) };
+  }
+  if (capture.error !== undefined) {
+    throw capture.error;
+  }
+  return { result: capture.result as T };
+}
@@ -23,7 +23,16 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { AkamaiClient } from '../../akamai-client';
@@ -37,6 +46,22 @@ import { safeExtractCustomer } from '../validation/customer';
 import { WebSocketServerTransport } from '../../transport/websocket-transport';
 import { SSEServerTransport } from '../../transport/sse-transport';
 import { ProductionMetricsExporter, type MetricsComponents } from '../../utils/export-metrics';
+import { createProgressNotifier } from '../../utils/mcp-progress';
+import { getCacheService, type CacheInvalidationEvent } from '../../services/unified-cache-service';
+import { expandUriTemplate, matchUriTemplate, type ResourceDefinition } from './resources/resource-template';
+import { akamaiResources, AKAMAI_URI_SCHEME, CUSTOMER_ROOT_RESOURCES } from './resources/akamai-resources';
+import { renderRunbook, type Runbook } from './prompts/runbook';
+import { akamaiRunbooks, renderTemplateRuleTree } from './prompts/akamai-prompts';
+import { deriveToolAnnotations } from '../../tools/common/tool-annotations';
+import { CustomerContextManager } from '../../services/CustomerContextManager';
+import { ANONYMOUS_PRINCIPAL, authorizationError } from '../../auth/rbac-policy';
+import { runAsCaller } from '../../auth/caller-context';
+import { approvalService } from '../../services/approval-service';
+import { ChangeFreezeService } from '../../services/change-freeze-service';
+import { approvalTools } from '../../tools/approval';
+import { auditLogService } from '../../services/audit-log-service';
+import { changeEventService, type ChangeEvent } from '../../services/change-event-service';
+import { DRY_RUN_PROPERTY, executeAsPlan, formatPlan, isPlanRequested } from '../dry-run';
 
 // Tool definition helper for ultimate simplicity
 export function tool<T = any>(
@@ -117,6 +142,29 @@ export class ALECSCore {
   // Simple tool array - override in subclass
   tools: ToolDefinition[] = [];
   
+  // Browsable resources - override in subclass to narrow or extend
+  resources: ResourceDefinition[] = akamaiResources;
+  protected resourceSubscriptions = new Set<string>();
+  
+  // Runbook prompt library - override in subclass to narrow or extend
+  prompts: Runbook[] = akamaiRunbooks;
+  
+  // Tools served alongside the subclass tools - approvals gate activations on every server
+  protected coreTools: ToolDefinition[] = Object.entries(approvalTools).map(([name, definition]) => ({
+    name,
+    description: definition.description,
+    schema: definition.inputSchema,
+    handler: async (args, ctx) => {
+      const response = await definition.handler(ctx.client, args);
+      const text = response.content.map(c => c.text).join('\n');
+      if (response.isError) {
+        throw new Error(text);
+      }
+      return text;
+    },
+    options: { coalesce: false },
+  }));
+  
   constructor(
     protected readonly config: ALECSConfig
   ) {
@@ -130,7 +178,7 @@ export class ALECSCore {
         capabilities: {
           tools: {},
           // MCP 2025 capabilities
-          resources: {},
+          resources: { subscribe: true },
           prompts: {},
         }
       }
@@ -148,6 +196,8 @@ export class ALECSCore {
     
     // Setup handlers
     this.setupHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
     
     // Optional monitoring
     if (config.enableMonitoring) {
@@ -159,17 +209,18 @@ export class ALECSCore {
   private setupHandlers(): void {
     // List tools - optimized for Claude Desktop
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: this.tools.map(t => ({
+      tools: this.registeredTools().map(t => ({
         name: t.name,
         description: t.description || `Execute ${t.name}`,
         inputSchema: this.schemaToJson(t.schema),
+        annotations: deriveToolAnnotations(t.name),
       })),
     }));
     
     // Execute tools - with all optimizations
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      const tool = this.tools.find(t => t.name === name);
+      const tool = this.registeredTools().find(t => t.name === name);
       
       if (!tool) {
         throw new Error(`Unknown tool: ${name}`);
@@ -184,6 +235,20 @@ export class ALECSCore {
         customer = undefined;
       }
       
+      // Role-based authorization for the caller's bearer token
+      const decision = await CustomerContextManager.getInstance().authorizeToolCall({
+        bearerToken: extra.authInfo?.token,
+        customer: customer || 'default',
+        tool: name,
+        args,
+      });
+      const principal = decision.principal || ANONYMOUS_PRINCIPAL;
+      const audit = auditLogService.begin({ principal, customer: customer || 'default', tool: name, args });
+      if (!decision.allowed) {
+        await audit.finish('denied', { error: decision.reason });
+        throw authorizationError(decision, name, customer || 'default');
+      }
+      
       // Create context
       const context: ToolContext = {
         client: customer ? new AkamaiClient(customer) : this.client,
@@ -197,13 +262,17 @@ export class ALECSCore {
       // Apply optimizations based on tool options
       let handler = tool.handler;
       
+      // Plans are never cached or coalesced with real executions
+      const planMode = isPlanRequested(args);
+      
       // Caching
-      if (tool.options?.cache) {
+      if (tool.options?.cache && !planMode) {
         const cacheKey = tool.options.cache.key?.(args) || 
           JSON.stringify({ name, args, customer });
         const cached = await this.cache.get(cacheKey);
         if (cached) {
           logger.debug(`Cache hit for ${name}`, { cacheKey });
+          await audit.finish('success', { result: cached });
           return this.formatResponse(cached);
         }
         
@@ -216,7 +285,7 @@ export class ALECSCore {
       }
       
       // Request coalescing
-      if (tool.options?.coalesce !== false) {
+      if (tool.options?.coalesce !== false && !planMode) {
         handler = this.coalescer.wrap(name, handler);
       }
       
@@ -226,8 +295,58 @@ export class ALECSCore {
         
         // Execute with performance tracking
         const startTime = Date.now();
-        const result = await handler(validatedArgs, context);
+        let result: any;
+        if (planMode) {
+          const outcome = await audit.capture(() => executeAsPlan(
+            context.client,
+            name,
+            customer || 'default',
+            () => handler(validatedArgs, context)
+          ));
+          if ('plan' in outcome) {
+            logger.info(`Tool ${name} planned`, { customer, requests: outcome.plan.changes.length });
+            await audit.finish('success', { result: formatPlan(outcome.plan) });
+            return this.formatResponse(formatPlan(outcome.plan), { tool: name, plan: outcome.plan });
+          }
+          result = outcome.result;
+        } else {
+          // Activations are blocked during the customer's change freeze windows
+          const frozen = ChangeFreezeService.getInstance().checkToolCall(customer || 'default', name, args || {});
+          if (frozen) {
+            await audit.finish('denied', { error: frozen.message });
+            return this.formatError(frozen);
+          }
+          
+          // Two-person rule: production activations wait for a second token holder
+          const gate = await approvalService.gate({
+            tool: name,
+            customer: customer || 'default',
+            principal,
+            args: args || {},
+            plan: async () => {
+              const outcome = await executeAsPlan(
+                context.client,
+                name,
+                customer || 'default',
+                () => tool.handler(validatedArgs, context)
+              );
+              return 'plan' in outcome ? outcome.plan : undefined;
+            },
+          });
+          if (!gate.proceed) {
+            await audit.finish('held', { result: gate.response });
+            return gate.response;
+          }
+          result = await audit.capture(() => approvalService.runApproved(gate.approvalId, principal, () =>
+            runAsCaller({
+              principal,
+              customer: customer || 'default',
+              notifyProgress: createProgressNotifier(request.params._meta?.progressToken, extra.sendNotification),
+            }, () => handler(validatedArgs, context))
+          ));
+        }
         const duration = Date.now() - startTime;
+        await audit.finish('success', { result });
         
         logger.info(`Tool ${name} completed`, {
           duration,
@@ -247,6 +366,7 @@ export class ALECSCore {
         
         return this.formatResponse(result, { duration, tool: name });
       } catch (error) {
+        await audit.finish('error', { error });
         logger.error(`Tool ${name} failed`, {
           error: error instanceof Error ? error.message : String(error),
           customer,
@@ -262,6 +382,215 @@ export class ALECSCore {
     });
   }
   
+  private registeredTools(): ToolDefinition[] {
+    const names = new Set(this.tools.map(t => t.name));
+    return [...this.tools, ...this.coreTools.filter(t => !names.has(t.name))];
+  }
+  
+  private setupResourceHandlers(): void {
+    // Concrete collection resources for every configured customer
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.configManager.listSections().flatMap(customer =>
+        CUSTOMER_ROOT_RESOURCES
+          .map(template => this.resources.find(r => r.uriTemplate === template))
+          .filter((r): r is ResourceDefinition => !!r)
+          .map(r => ({
+            uri: expandUriTemplate(r.uriTemplate, { customer }),
+            name: `${r.name} (${customer})`,
+            description: r.description,
+            mimeType: r.mimeType,
+          }))
+      ),
+    }));
+    
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resources.map(r => ({
+        uriTemplate: r.uriTemplate,
+        name: r.name,
+        description: r.description,
+        mimeType: r.mimeType,
+      })),
+    }));
+    
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      const { definition, params } = this.resolveResource(uri);
+      const customer = params['customer'] || 'default';
+      
+      if (!this.configManager.hasSection(customer)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown customer section '${customer}' in ${uri}`);
+      }
+      
+      // Resources are authorized by URI, so roles grant them with tool patterns such as "akamai://*"
+      const decision = await CustomerContextManager.getInstance().authorizeToolCall({
+        bearerToken: extra.authInfo?.token,
+        customer,
+        tool: uri,
+        action: 'read',
+      });
+      if (!decision.allowed) {
+        throw authorizationError(decision, uri, customer);
+      }
+      
+      const startTime = Date.now();
+      try {
+        const data = await definition.read(params, {
+          client: new AkamaiClient(customer),
+          customer,
+          cache: await getCacheService(),
+        });
+        
+        logger.info(`Resource ${definition.name} read`, {
+          uri,
+          duration: Date.now() - startTime,
+          customer,
+        });
+        
+        return {
+          contents: [{
+            uri,
+            mimeType: definition.mimeType,
+            text: typeof data === 'string' ? data : JSON.stringify(data, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.error(`Resource ${definition.name} failed`, {
+          uri,
+          error: error instanceof Error ? error.message : String(error),
+          customer,
+        });
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to read ${uri}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+    
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.resolveResource(request.params.uri);
+      this.resourceSubscriptions.add(request.params.uri);
+      return {};
+    });
+    
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+    
+    // Push notifications/resources/updated when cached Akamai data changes
+    getCacheService()
+      .then(cache => cache.on('invalidate', (event: CacheInvalidationEvent) => {
+        this.notifyResourceUpdates(event).catch(error => {
+          logger.warn('Failed to send resource update notification', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }))
+      .catch(error => {
+        logger.warn('Resource subscriptions unavailable without cache service', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    
+    // Changes found by the event poller may have been made outside ALECS
+    changeEventService.on('change', (event: ChangeEvent) => {
+      this.handleChangeEvent(event).catch(error => {
+        logger.warn('Failed to send change event notification', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+  }
+  
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.prompts.map(p => ({
+        name: p.name,
+        description: `${p.title}: ${p.description}`,
+        arguments: p.arguments,
+      })),
+    }));
+    
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const runbook = this.prompts.find(p => p.name === name);
+      
+      if (!runbook) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      
+      let text: string;
+      try {
+        text = renderRunbook(runbook, args);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+      
+      // Onboarding runbooks carry the full template rule tree
+      const ruleTree = renderTemplateRuleTree(name, args);
+      if (ruleTree) {
+        text += `\n\n## Rule tree\n\`\`\`json\n${JSON.stringify(ruleTree, null, 2)}\n\`\`\``;
+      }
+      
+      return {
+        description: runbook.title,
+        messages: [{
+          role: 'user' as const,
+          content: { type: 'text' as const, text },
+        }],
+      };
+    });
+  }
+  
+  private resolveResource(uri: string): { definition: ResourceDefinition; params: Record<string, string> } {
+    if (!uri.startsWith(AKAMAI_URI_SCHEME)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI scheme: ${uri}`);
+    }
+    
+    for (const definition of this.resources) {
+      const params = matchUriTemplate(definition.uriTemplate, uri);
+      if (params) {
+        return { definition, params };
+      }
+    }
+    
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+  
+  private async notifyResourceUpdates(event: CacheInvalidationEvent): Promise<void> {
+    const base = `${AKAMAI_URI_SCHEME}${encodeURIComponent(event.customer)}`;
+    const collection = event.type === 'property' ? `${base}/properties` : `${base}/dns/zones`;
+    // Property URIs may be written with or without the prp_ prefix
+    const ids = event.type === 'property'
+      ? [event.id, event.id.replace(/^prp_/, '')]
+      : [event.id];
+    const items = ids.map(id => `${collection}/${encodeURIComponent(id)}`);
+    
+    for (const uri of this.resourceSubscriptions) {
+      // Collections match exactly; items also cover their nested resources
+      if (uri === collection || items.some(item => uri === item || uri.startsWith(`${item}/`))) {
+        await this.server.sendResourceUpdated({ uri });
+        logger.debug('Sent resource update notification', { uri, event });
+      }
+    }
+  }
+  
+  private async handleChangeEvent(event: ChangeEvent): Promise<void> {
+    const uri = `${AKAMAI_URI_SCHEME}${encodeURIComponent(event.customer)}/events`;
+    if (this.resourceSubscriptions.has(uri)) {
+      await this.server.sendResourceUpdated({ uri });
+      logger.debug('Sent resource update notification', { uri, event: event.id });
+    }
+    
+    // Drop cached copies so property and zone resources notify their subscribers too
+    const cache = await getCacheService();
+    if (event.source === 'property') {
+      await cache.invalidateProperty(event.resourceId, event.customer);
+    } else if (event.source === 'dns' && event.action === 'CHANGELIST_CLOSED') {
+      await cache.invalidateZone(event.resourceId, event.customer);
+    }
+  }
+  
   // Start method with transport selection
   async start(): Promise<void> {
     const transportType = this.config.transport || process.env['MCP_TRANSPORT'] || 'stdio';
@@ -286,12 +615,18 @@ export class ALECSCore {
     
     await this.server.connect(transport);
     
+    // Background change event polling (ALECS_EVENT_POLL_MINUTES)
+    changeEventService.start(
+      () => this.configManager.listSections(),
+      customer => new AkamaiClient(customer)
+    );
+    
     // Graceful shutdown
     process.on('SIGINT', () => this.shutdown());
     process.on('SIGTERM', () => this.shutdown());
     
     logger.info(`[${this.config.name}] Started`, {
-      tools: this.tools.length,
+      tools: this.registeredTools().length,
       transport: transportType,
       version: this.config.version,
     });
@@ -304,6 +639,7 @@ export class ALECSCore {
     if (this.monitoringInterval) {
       clearInterval(this.monitoringInterval);
     }
+    changeEventService.stop();
     
     // Cleanup resources
     await this.pool.close();
@@ -459,12 +795,15 @@ export class ALECSCore {
         const shape = schema.shape;
         return {
           type: 'object',
-          properties: Object.fromEntries(
-            Object.entries(shape).map(([key, value]) => [
-              key,
-              this.zodTypeToJson(value as z.ZodSchema),
-            ])
-          ),
+          properties: {
+            ...Object.fromEntries(
+              Object.entries(shape).map(([key, value]) => [
+                key,
+                this.zodTypeToJson(value as z.ZodSchema),
+              ])
+            ),
+            dryRun: DRY_RUN_PROPERTY,
+          },
           required: Object.entries(shape)
             .filter(([_, v]) => !this.isOptional(v as z.ZodSchema))
             .map(([k]) => k),
@@ -0,0 +1,393 @@
+/**
+ * Akamai Runbook Prompts
+ *
+ * Prompt library for common Akamai runbooks, generated from:
+ * - Workflow templates (src/orchestration/workflow-templates.ts)
+ * - Property templates (src/templates/property-templates.ts)
+ * plus hand-written runbooks for operations without a template.
+ *
+ * Workflow templates still reference legacy dot-notation tool names;
+ * LEGACY_TOOL_NAMES maps them to the snake_case tools ALECS exposes.
+ */
+
+import { WORKFLOW_TEMPLATES } from '../../../orchestration/workflow-templates';
+import type { WorkflowDefinition } from '../../../orchestration/workflow-engine';
+import {
+  applyTemplateInputs,
+  propertyTemplates,
+  type PropertyTemplate,
+} from '../../../templates/property-templates';
+import { collectPlaceholders, type Runbook, type RunbookStep } from './runbook';
+
+/**
+ * Legacy workflow tool names mapped to registered ALECS tools
+ * null marks steps that have no tool equivalent
+ */
+export const LEGACY_TOOL_NAMES: Record<string, string | null> = {
+  'dns.zone.export': 'dns_records_list',
+  'dns.zone.create': 'dns_zone_create',
+  'dns.zone.delete': 'dns_zone_delete',
+  'dns.zone.import': 'dns_records_bulk_import',
+  'dns.record.create': 'dns_record_upsert',
+  'dns.record.update': 'dns_record_upsert',
+  'dns.record.delete': 'dns_record_delete',
+  'dns.record.create.batch': 'dns_records_bulk_import',
+  'dns.record.delete.batch': 'dns_record_delete',
+  'property.create': 'property_create',
+  'property.delete': 'property_delete',
+  'property.version.create': 'property_version_create',
+  'property.rules.update': 'property_rules_update',
+  'property.rules.validate': 'rule_tree_validate',
+  'property.hostnames.add': 'property_hostname_add',
+  'property.activate': 'property_activate',
+  'property.certificate.link': 'certificate_property_link',
+  'property.test': 'diagnostics_test_url',
+  'certificate.create.dv': 'certificate_dv_create',
+  'certificate.validation.get': 'certificate_validation_get',
+  'certificate.validate.check': 'certificate_validation_get',
+  'certificate.deploy': 'certificate_deployment_monitor',
+  'certificate.cancel': null,
+  'fastpurge.cpcode': 'fastpurge_invalidate_cpcodes',
+  'monitoring.create': null,
+  'monitoring.metrics.capture': 'reporting_real_time',
+  'monitoring.deployment.watch': 'reporting_errors',
+};
+
+const CUSTOMER_ARGUMENT = {
+  name: 'customer',
+  description: 'Customer section from .edgerc to run the runbook against',
+  required: false,
+};
+
+const resolveToolName = (tool: string): string | null =>
+  tool in LEGACY_TOOL_NAMES ? LEGACY_TOOL_NAMES[tool]! : tool;
+
+const toPromptName = (id: string): string => id.replace(/-v\d+$/, '').replace(/[^a-zA-Z0-9]+/g, '_');
+
+/**
+ * Convert a workflow template into a runbook
+ */
+export function workflowToRunbook(workflow: WorkflowDefinition): Runbook {
+  const steps: RunbookStep[] = workflow.steps.map(step => {
+    const tool = resolveToolName(step.tool);
+    const rollbackTool = step.rollback ? resolveToolName(step.rollback.tool) : undefined;
+    const notes = [
+      step.description,
+      step.dependencies?.length ? `Requires steps: ${step.dependencies.join(', ')}` : '',
+      rollbackTool ? `On failure roll back with \`${rollbackTool}\`` : '',
+      rollbackTool === null ? 'On failure roll back manually' : '',
+    ].filter(Boolean);
+
+    return {
+      id: step.id,
+      tool,
+      purpose: step.name,
+      args: step.args,
+      note: notes.join('. '),
+    };
+  });
+
+  const placeholders = [...collectPlaceholders(workflow.steps.map(step => step.args))];
+
+  return {
+    name: `workflow_${toPromptName(workflow.id)}`,
+    title: workflow.name,
+    description: workflow.description,
+    arguments: [
+      ...placeholders.map(name => ({ name, description: `Value for \${${name}}`, required: true })),
+      CUSTOMER_ARGUMENT,
+    ],
+    steps,
+    guidance: [
+      `Rollback strategy: ${workflow.rollbackStrategy || 'none'} - undo completed steps in reverse order if a later step fails.`,
+    ],
+  };
+}
+
+const IP_VERSION_BEHAVIOR: Record<string, string> = {
+  IPV4: 'IPV4',
+  IPV6: 'IPV6_PERFORMANCE',
+  IPV4_IPV6: 'IPV6_COMPLIANCE',
+};
+
+/**
+ * Convert a property template into a hostname onboarding runbook
+ */
+export function propertyTemplateToRunbook(template: PropertyTemplate): Runbook {
+  const inputs = [...template.requiredInputs, ...template.optionalInputs];
+  const edgeHostname = `\${hostname}${template.edgeHostnameConfig.domainSuffix}`;
+  const steps: RunbookStep[] = [
+    {
+      id: 'create-property',
+      tool: 'property_create',
+      purpose: 'Create the property',
+      args: {
+        propertyName: '${hostname}',
+        contractId: '${contractId}',
+        groupId: '${groupId}',
+        productId: '${productId}',
+      },
+    },
+    {
+      id: 'apply-rules',
+      tool: 'property_rules_update',
+      purpose: `Apply the ${template.name} rule tree`,
+      args: {
+        propertyId: '${create-property_result.propertyId}',
+        version: 1,
+        rules: '<rule tree below>',
+        validateRules: true,
+      },
+    },
+    {
+      id: 'create-edge-hostname',
+      tool: 'edge_hostname_create',
+      purpose: 'Create the edge hostname',
+      args: {
+        domainPrefix: '${hostname}',
+        domainSuffix: template.edgeHostnameConfig.domainSuffix,
+        secureNetwork: template.edgeHostnameConfig.certificateType,
+        ipVersionBehavior: IP_VERSION_BEHAVIOR[template.edgeHostnameConfig.ipVersionBehavior],
+      },
+    },
+  ];
+
+  if (template.certificateRequirements?.type === 'DV') {
+    steps.push(
+      {
+        id: 'create-certificate',
+        tool: 'certificate_dv_create',
+        purpose: 'Enroll a Default DV certificate',
+        args: {
+          cn: '${hostname}',
+          contractId: '${contractId}',
+          networkConfiguration: {
+            networkType: template.certificateRequirements.networkDeployment,
+            sniOnly: template.certificateRequirements.sniOnly,
+          },
+        },
+        note: 'Ask the user for adminContact, techContact and org details - they are required by CPS.',
+      },
+      {
+        id: 'get-challenges',
+        tool: 'certificate_validation_get',
+        purpose: 'Fetch the domain validation challenges',
+        args: { enrollmentId: '${create-certificate_result.enrollmentId}' },
+      },
+      {
+        id: 'publish-challenges',
+        tool: 'dns_record_upsert',
+        purpose: 'Publish each DNS challenge as a TXT record',
+        args: {
+          zone: '${zone}',
+          name: '<challenge record name from step 5>',
+          type: 'TXT',
+          ttl: 60,
+          rdata: ['<challenge token from step 5>'],
+        },
+        note: 'Repeat for every challenge, then run dns_zone_activate if the zone uses changelists.',
+      }
+    );
+  }
+
+  steps.push(
+    {
+      id: 'add-hostname',
+      tool: 'property_hostname_add',
+      purpose: 'Attach the hostname to the property',
+      args: {
+        propertyId: '${create-property_result.propertyId}',
+        version: 1,
+        hostname: '${hostname}',
+        cnameType: 'EDGE_HOSTNAME',
+      },
+    },
+    {
+      id: 'activate-staging',
+      tool: 'property_activate',
+      purpose: 'Activate on staging',
+      args: {
+        propertyId: '${create-property_result.propertyId}',
+        version: 1,
+        network: 'staging',
+        notes: `Onboard \${hostname} (${template.id})`,
+      },
+      note: 'Poll property_activation_status until ACTIVE, then test against the staging network.',
+    },
+    {
+      id: 'activate-production',
+      tool: 'property_activate',
+      purpose: 'Activate on production',
+      args: {
+        propertyId: '${create-property_result.propertyId}',
+        version: 1,
+        network: 'production',
+        notes: `Onboard \${hostname} (${template.id})`,
+      },
+      note: 'Only proceed after the user confirms staging tests passed.',
+    }
+  );
+
+  for (const record of template.recommendedDNSRecords || []) {
+    steps.push({
+      id: `dns-${record.type.toLowerCase()}`,
+      tool: 'dns_record_upsert',
+      purpose: record.description,
+      args: {
+        zone: '${zone}',
+        name: record.name.replace('{{hostname}}', '${hostname}'),
+        type: record.type,
+        ttl: record.ttl,
+        rdata: [record.value.replace('{{edgeHostname}}', edgeHostname)],
+      },
+      note: 'Only when the zone is hosted on Akamai Edge DNS; otherwise give the record to the DNS owner.',
+    });
+  }
+
+  return {
+    name: `onboard_${toPromptName(template.id)}`,
+    title: `Onboard a hostname: ${template.name}`,
+    description: template.description,
+    arguments: [
+      ...template.requiredInputs.map(input => ({ name: input.key, description: input.description, required: true })),
+      ...template.optionalInputs.map(input => ({ name: input.key, description: input.description, required: false })),
+      { name: 'contractId', description: 'Contract ID (ctr_...)', required: true },
+      { name: 'groupId', description: 'Group ID (grp_...)', required: true },
+      { name: 'productId', description: 'Product ID, e.g. prd_Fresca or prd_SPM', required: true },
+      { name: 'zone', description: 'Edge DNS zone that holds the hostname', required: false },
+      CUSTOMER_ARGUMENT,
+    ],
+    steps,
+    guidance: inputs
+      .filter(input => input.defaultValue !== undefined)
+      .map(input => `${input.key} defaults to ${JSON.stringify(input.defaultValue)} when not given.`),
+  };
+}
+
+export const ROTATE_DV_CERTIFICATE: Runbook = {
+  name: 'rotate_dv_certificate',
+  title: 'Rotate a Default DV certificate',
+  description: 'Renew the DV certificate of an existing CPS enrollment and roll it out without downtime',
+  arguments: [
+    { name: 'enrollmentId', description: 'CPS enrollment ID', required: true },
+    { name: 'zone', description: 'Edge DNS zone used for DNS validation', required: true },
+    CUSTOMER_ARGUMENT,
+  ],
+  steps: [
+    {
+      id: 'status',
+      tool: 'certificate_status',
+      purpose: 'Check the enrollment and its pending changes',
+      args: { enrollmentId: '${enrollmentId}' },
+      note: 'If no renewal change is pending, CPS starts one automatically 30 days before expiry.',
+    },
+    {
+      id: 'challenges',
+      tool: 'certificate_validation_get',
+      purpose: 'Fetch the domain validation challenges',
+      args: { enrollmentId: '${enrollmentId}' },
+    },
+    {
+      id: 'publish',
+      tool: 'dns_record_upsert',
+      purpose: 'Publish each challenge as a TXT record',
+      args: {
+        zone: '${zone}',
+        name: '<challenge record name from step 2>',
+        type: 'TXT',
+        ttl: 60,
+        rdata: ['<challenge token from step 2>'],
+      },
+      note: 'Repeat for every SAN.',
+    },
+    {
+      id: 'activate-zone',
+      tool: 'dns_zone_activate',
+      purpose: 'Activate the zone changes',
+      args: { zone: '${zone}', comment: 'DV validation for enrollment ${enrollmentId}' },
+    },
+    {
+      id: 'deployment',
+      tool: 'certificate_deployment_monitor',
+      purpose: 'Monitor the deployment of the renewed certificate',
+      args: { enrollmentId: '${enrollmentId}' },
+    },
+    {
+      id: 'cleanup',
+      tool: 'dns_record_delete',
+      purpose: 'Remove the challenge TXT records',
+      args: { zone: '${zone}', name: '<challenge record name from step 2>', type: 'TXT' },
+      note: 'Only after certificate_deployment_status reports the new certificate on production.',
+    },
+  ],
+};
+
+export const MIGRATE_ZONE_FROM_BIND: Runbook = {
+  name: 'migrate_zone_from_bind',
+  title: 'Migrate a zone from BIND',
+  description: 'Move a zone served by BIND to Akamai Edge DNS and cut over delegation',
+  arguments: [
+    { name: 'zone', description: 'Zone name, e.g. example.com', required: true },
+    { name: 'contractId', description: 'Contract ID (ctr_...)', required: true },
+    { name: 'groupId', description: 'Group ID (grp_...)', required: false },
+    { name: 'masterServer', description: 'BIND server that allows AXFR (omit to paste the zone file)', required: false },
+    CUSTOMER_ARGUMENT,
+  ],
+  steps: [
+    {
+      id: 'import',
+      tool: 'dns_zone_import_axfr',
+      purpose: 'Create the zone and transfer records via AXFR',
+      args: { zone: '${zone}', masterServer: '${masterServer}', contractId: '${contractId}', groupId: '${groupId}' },
+      note: 'Without AXFR access, use dns_zone_create (type PRIMARY) and dns_records_bulk_import instead, converting each zone file line to {name, type, ttl, value}. Skip the SOA and apex NS records.',
+    },
+    {
+      id: 'verify',
+      tool: 'dns_records_list',
+      purpose: 'Compare the imported records with the BIND zone file',
+      args: { zone: '${zone}' },
+      note: 'Report any differences before continuing.',
+    },
+    {
+      id: 'activate',
+      tool: 'dns_zone_activate',
+      purpose: 'Activate the zone',
+      args: { zone: '${zone}', comment: 'Migrated from BIND' },
+    },
+    {
+      id: 'delegate',
+      tool: null,
+      purpose: 'Update the delegation at the registrar',
+      args: {},
+      note: 'Replace the NS records at the registrar with the Akamai name servers returned by dns_zone_get. Lower TTLs on BIND beforehand.',
+    },
+  ],
+};
+
+/**
+ * All runbooks exposed through prompts/list
+ */
+export const akamaiRunbooks: Runbook[] = [
+  ...propertyTemplates.map(propertyTemplateToRunbook),
+  ...Object.values(WORKFLOW_TEMPLATES)
+    .filter(workflow => workflow.steps.length > 0)
+    .map(workflowToRunbook),
+  ROTATE_DV_CERTIFICATE,
+  MIGRATE_ZONE_FROM_BIND,
+];
+
+/**
+ * Rule tree to embed in onboarding prompts, with template inputs applied
+ */
+export function renderTemplateRuleTree(runbookName: string, args: Record<string, string>): unknown {
+  const template = propertyTemplates.find(t => `onboard_${toPromptName(t.id)}` === runbookName);
+  if (!template) {
+    return undefined;
+  }
+  const defaults = Object.fromEntries(
+    [...template.requiredInputs, ...template.optionalInputs]
+      .filter(input => input.defaultValue !== undefined)
+      .map(input => [input.key, input.defaultValue])
+  );
+  return applyTemplateInputs(template, { ...defaults, ...args });
+}
@@ -0,0 +1,134 @@
+/**
+ * Runbook Prompt Helpers
+ *
+ * A runbook is an ordered list of tool calls with argument templates.
+ * Runbooks are rendered into MCP prompts so that any client can drive
+ * a multi-step Akamai workflow without prior knowledge of the tools.
+ *
+ * Argument templates use the `${name}` syntax of the workflow engine.
+ * Prompt arguments are substituted directly; `${stepId_result.field}`
+ * references are rendered as pointers to earlier step results.
+ */
+
+export interface RunbookArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface RunbookStep {
+  id: string;
+  tool: string | null; // null when no ALECS tool covers the step
+  purpose: string;
+  args: Record<string, unknown>;
+  note?: string;
+}
+
+export interface Runbook {
+  name: string;
+  title: string;
+  description: string;
+  arguments: RunbookArgument[];
+  steps: RunbookStep[];
+  guidance?: string[];
+}
+
+const PLACEHOLDER_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Collect the prompt arguments referenced by runbook step arguments,
+ * skipping references to the results of earlier steps
+ */
+export function collectPlaceholders(value: unknown, found = new Set<string>()): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!match[1]!.includes('_result')) {
+        found.add(match[1]!);
+      }
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectPlaceholders(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectPlaceholders(item, found));
+  }
+  return found;
+}
+
+/**
+ * Substitute prompt arguments into a step argument template
+ */
+export function substituteArgs(
+  value: unknown,
+  args: Record<string, string>,
+  stepNames: Record<string, number>
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (match, expression: string) => {
+      const resultRef = /^(.+?)_result(?:\.(.+))?$/.exec(expression);
+      if (resultRef) {
+        const stepNumber = stepNames[resultRef[1]!];
+        return stepNumber
+          ? `<${resultRef[2] || 'result'} from step ${stepNumber}>`
+          : match;
+      }
+      return args[expression] ?? match;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteArgs(item, args, stepNames));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteArgs(item, args, stepNames)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Render a runbook as the text of a user prompt
+ */
+export function renderRunbook(runbook: Runbook, args: Record<string, string>): string {
+  const missing = runbook.arguments
+    .filter(arg => arg.required && !args[arg.name])
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required prompt arguments for '${runbook.name}': ${missing.join(', ')}`);
+  }
+
+  const stepNames = Object.fromEntries(runbook.steps.map((step, index) => [step.id, index + 1]));
+  const customer = args['customer'];
+
+  const lines: string[] = [
+    `# ${runbook.title}`,
+    '',
+    runbook.description,
+    '',
+    'Execute the following ALECS tool calls in order. Wait for each call to succeed before',
+    'continuing, substitute values marked <... from step N> with the output of that step,',
+    'and stop to report back if any step fails.',
+  ];
+
+  if (customer) {
+    lines.push('', `Pass \`"customer": "${customer}"\` to every tool call.`);
+  }
+
+  runbook.steps.forEach((step, index) => {
+    const stepArgs = substituteArgs(step.args, args, stepNames) as Record<string, unknown>;
+    lines.push('', `## Step ${index + 1}: ${step.purpose}`);
+    if (step.tool) {
+      lines.push(`Tool: \`${step.tool}\``, 'Arguments:', '```json', JSON.stringify(stepArgs, null, 2), '```');
+    } else {
+      lines.push('No ALECS tool covers this step - perform it manually and confirm before continuing.');
+    }
+    if (step.note) {
+      lines.push(`Note: ${step.note}`);
+    }
+  });
+
+  if (runbook.guidance?.length) {
+    lines.push('', '## Guidance', ...runbook.guidance.map(item => `- ${item}`));
+  }
+
+  return lines.join('\n');
+}
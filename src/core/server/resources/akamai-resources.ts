@@ -0,0 +1,197 @@
+/**
+ * Akamai Inventory Resources
+ *
+ * Browsable MCP resources for the Akamai inventory of each customer
+ * (.edgerc section). Reads go through UnifiedCacheService so that
+ * resources share cache entries - and invalidation - with the tools.
+ *
+ * URI layout:
+ * - akamai://{customer}/properties
+ * - akamai://{customer}/properties/{propertyId}
+ * - akamai://{customer}/properties/{propertyId}/versions/{v}/rules
+ * - akamai://{customer}/dns/zones
+ * - akamai://{customer}/dns/zones/{zone}
+ * - akamai://{customer}/certificates
+ * - akamai://{customer}/certificates/{enrollmentId}
+ * - akamai://{customer}/events
+ */
+
+import { CacheTTL } from '../../../services/unified-cache-service';
+import { changeEventService } from '../../../services/change-event-service';
+import { normalizeId } from '../../validation/akamai-ids';
+import { resource, type ResourceDefinition } from './resource-template';
+
+export const AKAMAI_URI_SCHEME = 'akamai://';
+
+/**
+ * Collection resources advertised per customer by resources/list
+ */
+export const CUSTOMER_ROOT_RESOURCES = [
+  'akamai://{customer}/properties',
+  'akamai://{customer}/dns/zones',
+  'akamai://{customer}/certificates',
+  'akamai://{customer}/events',
+];
+
+export const akamaiResources: ResourceDefinition[] = [
+  resource(
+    'akamai://{customer}/properties',
+    'Properties',
+    'All Property Manager properties visible to the customer',
+    async (_, { client, customer, cache }) => {
+      const properties = await cache.getProperties(client, customer);
+      return {
+        totalProperties: properties.length,
+        properties: properties.map((property) => ({
+          propertyId: property.propertyId,
+          propertyName: property.propertyName,
+          contractId: property.contractId,
+          groupId: property.groupId,
+          latestVersion: property.latestVersion,
+          stagingVersion: property.stagingVersion,
+          productionVersion: property.productionVersion,
+        })),
+      };
+    }
+  ),
+
+  resource(
+    'akamai://{customer}/properties/{propertyId}',
+    'Property',
+    'Property details with the hostnames of its latest version',
+    async ({ propertyId }, { client, customer, cache }) => {
+      const property = await cache.getProperty(client, normalizeId.property(propertyId!), customer);
+      if (!property) {
+        throw new Error(`Property ${propertyId} not found for customer ${customer}`);
+      }
+      const hostnames = await cache.getPropertyHostnames(client, property, customer);
+      return { property, hostnames };
+    }
+  ),
+
+  resource(
+    'akamai://{customer}/properties/{propertyId}/versions/{v}/rules',
+    'Property rule tree',
+    'Rule tree of a property version; use "latest", "staging" or "production" as the version alias',
+    async ({ propertyId, v }, { client, customer, cache }) => {
+      const normalizedId = normalizeId.property(propertyId!);
+      const property = await cache.getProperty(client, normalizedId, customer);
+      if (!property) {
+        throw new Error(`Property ${propertyId} not found for customer ${customer}`);
+      }
+
+      const aliases: Record<string, number | null | undefined> = {
+        latest: property.latestVersion,
+        staging: property.stagingVersion,
+        production: property.productionVersion,
+      };
+      const version = v! in aliases ? aliases[v!] : parseInt(v!, 10);
+      if (!version || Number.isNaN(version)) {
+        throw new Error(`Property ${normalizedId} has no version '${v}'`);
+      }
+
+      // Key lives under the property namespace so invalidateProperty clears it
+      return cache.cached(
+        `property:${normalizedId}:rules:v${version}`,
+        CacheTTL.PROPERTY_DETAILS,
+        () => client.request({
+          path: `/papi/v1/properties/${normalizedId}/versions/${version}/rules`,
+          method: 'GET',
+          queryParams: {
+            contractId: property.contractId,
+            groupId: property.groupId,
+          },
+        }),
+        customer
+      );
+    }
+  ),
+
+  resource(
+    'akamai://{customer}/dns/zones',
+    'DNS zones',
+    'All Edge DNS zones for the customer',
+    async (_, { client, customer, cache }) => cache.cached(
+      'dns:zones',
+      CacheTTL.MEDIUM,
+      () => client.request({
+        path: '/config-dns/v2/zones',
+        method: 'GET',
+        queryParams: { showAll: 'true' },
+      }),
+      customer
+    )
+  ),
+
+  resource(
+    'akamai://{customer}/dns/zones/{zone}',
+    'DNS zone',
+    'Edge DNS zone configuration with its record sets',
+    async ({ zone }, { client, customer, cache }) => cache.cached(
+      `dns:zone:${zone}`,
+      CacheTTL.MEDIUM,
+      async () => {
+        const [config, recordsets] = await Promise.all([
+          client.request({
+            path: `/config-dns/v2/zones/${encodeURIComponent(zone!)}`,
+            method: 'GET',
+          }),
+          client.request<{ recordsets?: unknown[] }>({
+            path: `/config-dns/v2/zones/${encodeURIComponent(zone!)}/recordsets`,
+            method: 'GET',
+            queryParams: { showAll: 'true' },
+          }),
+        ]);
+        return { zone: config, recordsets: recordsets?.recordsets || [] };
+      },
+      customer
+    )
+  ),
+
+  resource(
+    'akamai://{customer}/certificates',
+    'Certificate enrollments',
+    'All CPS certificate enrollments for the customer',
+    async (_, { client, customer, cache }) => cache.cached(
+      'certificate:enrollments',
+      CacheTTL.MEDIUM,
+      () => client.request({
+        path: '/cps/v2/enrollments',
+        method: 'GET',
+        headers: { Accept: 'application/vnd.akamai.cps.enrollments.v11+json' },
+      }),
+      customer
+    )
+  ),
+
+  resource(
+    'akamai://{customer}/certificates/{enrollmentId}',
+    'Certificate enrollment',
+    'CPS enrollment details including pending changes',
+    async ({ enrollmentId }, { client, customer, cache }) => cache.cached(
+      `certificate:${enrollmentId}`,
+      CacheTTL.MEDIUM,
+      () => client.request({
+        path: `/cps/v2/enrollments/${encodeURIComponent(enrollmentId!)}`,
+        method: 'GET',
+        headers: { Accept: 'application/vnd.akamai.cps.enrollment.v11+json' },
+      }),
+      customer
+    )
+  ),
+
+  resource(
+    'akamai://{customer}/events',
+    'Change events',
+    'Property, security config and DNS changes of the last 24 hours, whoever made them; subscribe to be notified of new ones',
+    async (_, { client, customer }) => {
+      const { errors } = await changeEventService.poll(customer, client);
+      const since = new Date(Date.now() - 24 * 3_600_000).toISOString();
+      return {
+        since,
+        events: changeEventService.query({ customer, since }),
+        ...(errors.length > 0 && { errors }),
+      };
+    }
+  ),
+];
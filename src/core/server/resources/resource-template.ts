@@ -0,0 +1,81 @@
+/**
+ * Resource Template Helpers
+ *
+ * Minimal RFC 6570 level-1 URI template support for MCP resources.
+ * Templates such as `akamai://{customer}/dns/zones/{zone}` are matched
+ * against concrete URIs to extract their variables, and expanded back
+ * into URIs when listing concrete resources.
+ */
+
+import type { AkamaiClient } from '../../../akamai-client';
+import type { UnifiedCacheService } from '../../../services/unified-cache-service';
+
+export interface ResourceContext {
+  client: AkamaiClient;
+  customer: string;
+  cache: UnifiedCacheService;
+}
+
+export interface ResourceDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+  read: (params: Record<string, string>, context: ResourceContext) => Promise<unknown>;
+}
+
+// Resource definition helper mirroring tool()
+export function resource(
+  uriTemplate: string,
+  name: string,
+  description: string,
+  read: ResourceDefinition['read'],
+  mimeType = 'application/json'
+): ResourceDefinition {
+  return { uriTemplate, name, description, mimeType, read };
+}
+
+const VARIABLE_PATTERN = /\{([a-zA-Z0-9_]+)\}/g;
+
+/**
+ * Match a concrete URI against a template, returning the extracted
+ * variables or null when the URI does not fit the template
+ */
+export function matchUriTemplate(template: string, uri: string): Record<string, string> | null {
+  const names: string[] = [];
+  const source = template
+    .split(VARIABLE_PATTERN)
+    .map((part, index) => {
+      // Odd indexes are captured variable names
+      if (index % 2 === 1) {
+        names.push(part);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${source}$`).exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  names.forEach((name, index) => {
+    params[name] = decodeURIComponent(match[index + 1] || '');
+  });
+  return params;
+}
+
+/**
+ * Expand a template with the given variables
+ */
+export function expandUriTemplate(template: string, params: Record<string, string | number>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing value for URI template variable '${name}' in ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
@@ -6,4 +6,5 @@
 
 export * from './workflow-engine';
 export * from './workflow-templates';
-export * from './mcp-tool-executor';
\ No newline at end of file
+export * from './mcp-tool-executor';export * from './workflow-store';
+export * from './workflow-loader';
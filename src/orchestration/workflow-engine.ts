@@ -6,6 +6,7 @@
  * - Implements recovery and rollback capabilities
  * - Supports parallel and sequential execution patterns
  * - Enables workflow templates for common operations
+ * - Checkpoints executions so interrupted runs can be resumed
  * 
  * This engine coordinates multiple MCP tools to perform complex
  * operations like site migrations, zero-downtime deployments, and
@@ -16,6 +17,13 @@ import { EventEmitter } from 'events';
 import { logger } from '../utils/pino-logger';
 import { AkamaiClient } from '../akamai-client';
 import { v4 as uuidv4 } from 'uuid';
+import { authorizationError } from '../auth/rbac-policy';
+import { getCaller } from '../auth/caller-context';
+import { approvalService } from '../services/approval-service';
+import { type ChangeFreezeError, ChangeFreezeService } from '../services/change-freeze-service';
+import { CustomerContextManager } from '../services/CustomerContextManager';
+import { type WorkflowStateStore } from './workflow-store';
+import { assertTestRunPassed } from '../tools/test-center/test-center-suites';
 
 /**
  * Workflow state definitions
@@ -28,7 +36,8 @@ export enum WorkflowState {
   FAILED = 'failed',
   CANCELLED = 'cancelled',
   ROLLING_BACK = 'rolling_back',
-  ROLLED_BACK = 'rolled_back'
+  ROLLED_BACK = 'rolled_back',
+  INTERRUPTED = 'interrupted' // Was in progress when the server stopped
 }
 
 export enum StepState {
@@ -47,6 +56,7 @@ export interface WorkflowStep {
   id: string;
   name: string;
   description: string;
+  type?: 'tool' | 'test-center'; // test-center: waits for the test run and fails unless every test case passed
   tool: string; // MCP tool name
   args: Record<string, any>;
   dependencies?: string[]; // Step IDs that must complete first
@@ -61,6 +71,10 @@ export interface WorkflowStep {
   };
   continueOnError?: boolean;
   timeout?: number; // milliseconds
+  condition?: string; // e.g. '${enable_waf}' or '${network} == PRODUCTION'; skipped when false
+  forEach?: string; // e.g. '${hostnames}'; runs the tool once per item
+  as?: string; // Context variable holding the current item (default: item)
+  outputs?: Record<string, string>; // Context variable -> path into the step result
 }
 
 /**
@@ -107,6 +121,80 @@ export interface StepExecution {
   rollbackResult?: any;
 }
 
+/**
+ * Checkpoint of an execution, with the definition it was started from
+ */
+export interface PersistedWorkflowExecution {
+  id: string;
+  workflowId: string;
+  workflow: WorkflowDefinition;
+  state: WorkflowState;
+  startedAt: string;
+  completedAt?: string;
+  currentStep?: string;
+  context: Record<string, any>;
+  error?: string;
+  steps: Array<Omit<StepExecution, 'startedAt' | 'completedAt' | 'error'> & {
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+  }>;
+  updatedAt: string;
+}
+
+/**
+ * States in which a persisted execution was still in progress
+ */
+const IN_PROGRESS_STATES = [WorkflowState.PENDING, WorkflowState.RUNNING, WorkflowState.ROLLING_BACK];
+
+/**
+ * States from which an execution can be resumed or rolled back
+ */
+const RECOVERABLE_STATES = [WorkflowState.INTERRUPTED, WorkflowState.FAILED];
+
+export function serializeExecution(
+  execution: WorkflowExecution,
+  workflow: WorkflowDefinition
+): PersistedWorkflowExecution {
+  return {
+    id: execution.id,
+    workflowId: execution.workflowId,
+    workflow,
+    state: execution.state,
+    startedAt: execution.startedAt.toISOString(),
+    ...(execution.completedAt && { completedAt: execution.completedAt.toISOString() }),
+    ...(execution.currentStep && { currentStep: execution.currentStep }),
+    context: execution.context,
+    ...(execution.error && { error: execution.error.message }),
+    steps: Array.from(execution.steps.values()).map(step => ({
+      ...step,
+      startedAt: step.startedAt?.toISOString(),
+      completedAt: step.completedAt?.toISOString(),
+      error: step.error?.message
+    })),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export function deserializeExecution(record: PersistedWorkflowExecution): WorkflowExecution {
+  return {
+    id: record.id,
+    workflowId: record.workflowId,
+    state: record.state,
+    startedAt: new Date(record.startedAt),
+    ...(record.completedAt && { completedAt: new Date(record.completedAt) }),
+    ...(record.currentStep && { currentStep: record.currentStep }),
+    context: record.context,
+    ...(record.error && { error: new Error(record.error) }),
+    steps: new Map(record.steps.map(step => [step.stepId, {
+      ...step,
+      startedAt: step.startedAt ? new Date(step.startedAt) : undefined,
+      completedAt: step.completedAt ? new Date(step.completedAt) : undefined,
+      error: step.error ? new Error(step.error) : undefined
+    }]))
+  };
+}
+
 /**
  * Workflow engine events
  */
@@ -136,11 +224,22 @@ export interface ToolExecutor {
 export class WorkflowEngine extends EventEmitter {
   private executions: Map<string, WorkflowExecution> = new Map();
   private workflows: Map<string, WorkflowDefinition> = new Map();
+  private executionWorkflows: Map<string, WorkflowDefinition> = new Map();
   private toolExecutor: ToolExecutor;
+  private store?: WorkflowStateStore<PersistedWorkflowExecution>;
 
-  constructor(toolExecutor: ToolExecutor, _client?: AkamaiClient) {
+  constructor(
+    toolExecutor: ToolExecutor,
+    _client?: AkamaiClient,
+    store?: WorkflowStateStore<PersistedWorkflowExecution>
+  ) {
     super();
     this.toolExecutor = toolExecutor;
+    this.store = store;
+
+    if (store) {
+      this.recoverExecutions();
+    }
   }
 
   /**
@@ -183,9 +282,89 @@ export class WorkflowEngine extends EventEmitter {
     }
 
     this.executions.set(execution.id, execution);
-    
-    // Start execution
+    this.executionWorkflows.set(execution.id, workflow);
+
+    return this.runExecution(workflow, execution);
+  }
+
+  /**
+   * Resume an interrupted or failed execution
+   * Completed steps are kept; with fromStep, that step and everything
+   * depending on it run again.
+   */
+  async resumeExecution(
+    executionId: string,
+    options: { fromStep?: string } = {}
+  ): Promise<WorkflowExecution> {
+    const { execution, workflow } = this.getRecoverableExecution(executionId);
+
+    const stepsToReset = new Set<string>();
+    if (options.fromStep) {
+      if (!execution.steps.has(options.fromStep)) {
+        throw new Error(`Step not found in workflow ${workflow.id}: ${options.fromStep}`);
+      }
+      stepsToReset.add(options.fromStep);
+      // Dependents of a re-run step must run again too
+      let added = true;
+      while (added) {
+        added = false;
+        for (const step of workflow.steps) {
+          if (!stepsToReset.has(step.id) && step.dependencies?.some(dep => stepsToReset.has(dep))) {
+            stepsToReset.add(step.id);
+            added = true;
+          }
+        }
+      }
+    }
+
+    for (const stepExecution of execution.steps.values()) {
+      if (
+        stepsToReset.has(stepExecution.stepId) ||
+        (stepExecution.state !== StepState.COMPLETED && stepExecution.state !== StepState.SKIPPED)
+      ) {
+        execution.steps.set(stepExecution.stepId, {
+          stepId: stepExecution.stepId,
+          state: StepState.PENDING,
+          attempts: 0
+        });
+        delete execution.context[`${stepExecution.stepId}_result`];
+      }
+    }
+
+    delete execution.error;
+    delete execution.completedAt;
+    logger.info({ fromStep: options.fromStep }, `Resuming workflow execution ${executionId}`);
+
+    return this.runExecution(workflow, execution);
+  }
+
+  /**
+   * Roll back the completed steps of an interrupted or failed execution
+   */
+  async rollbackExecution(executionId: string): Promise<WorkflowExecution> {
+    const { execution, workflow } = this.getRecoverableExecution(executionId);
+    await this.rollbackWorkflow(workflow, execution, 'all');
+    return execution;
+  }
+
+  /**
+   * Definition an execution was started from
+   */
+  getExecutionWorkflow(executionId: string): WorkflowDefinition | undefined {
+    const execution = this.executions.get(executionId);
+    return this.executionWorkflows.get(executionId) ||
+      (execution && this.workflows.get(execution.workflowId));
+  }
+
+  /**
+   * Run the pending steps of an execution
+   */
+  private async runExecution(
+    workflow: WorkflowDefinition,
+    execution: WorkflowExecution
+  ): Promise<WorkflowExecution> {
     execution.state = WorkflowState.RUNNING;
+    this.checkpoint(execution);
     this.emit('workflow:started', execution);
 
     try {
@@ -193,11 +372,13 @@ export class WorkflowEngine extends EventEmitter {
       
       execution.state = WorkflowState.COMPLETED;
       execution.completedAt = new Date();
+      this.checkpoint(execution);
       this.emit('workflow:completed', execution);
     } catch (error) {
       execution.state = WorkflowState.FAILED;
       execution.error = error as Error;
       execution.completedAt = new Date();
+      this.checkpoint(execution);
       this.emit('workflow:failed', execution, error as Error);
 
       // Handle rollback if configured
@@ -209,6 +390,81 @@ export class WorkflowEngine extends EventEmitter {
     return execution;
   }
 
+  private getRecoverableExecution(executionId: string): {
+    execution: WorkflowExecution;
+    workflow: WorkflowDefinition;
+  } {
+    const execution = this.executions.get(executionId);
+    if (!execution) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+    if (!RECOVERABLE_STATES.includes(execution.state)) {
+      throw new Error(`Cannot recover workflow in state: ${execution.state}`);
+    }
+
+    const workflow = this.getExecutionWorkflow(executionId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${execution.workflowId}`);
+    }
+    return { execution, workflow };
+  }
+
+  /**
+   * Load persisted executions, marking those cut off by a restart as interrupted
+   */
+  private recoverExecutions(): void {
+    let records: PersistedWorkflowExecution[];
+    try {
+      records = this.store!.list();
+    } catch (error) {
+      logger.error({ error }, 'Failed to load persisted workflow executions');
+      return;
+    }
+
+    const interrupted: string[] = [];
+    for (const record of records) {
+      const execution = deserializeExecution(record);
+      this.executions.set(execution.id, execution);
+      this.executionWorkflows.set(execution.id, record.workflow);
+
+      if (IN_PROGRESS_STATES.includes(execution.state)) {
+        const previousState = execution.state;
+        execution.state = WorkflowState.INTERRUPTED;
+        execution.error = new Error(`Interrupted by server restart while ${previousState}`);
+        for (const stepExecution of execution.steps.values()) {
+          if (stepExecution.state === StepState.RUNNING) {
+            stepExecution.state = StepState.FAILED;
+            stepExecution.error = new Error('Interrupted by server restart');
+          }
+        }
+        this.checkpoint(execution);
+        interrupted.push(execution.id);
+      }
+    }
+
+    if (interrupted.length > 0) {
+      logger.warn(
+        { executionIds: interrupted },
+        `Found ${interrupted.length} interrupted workflow execution(s); use workflow_status to resume, retry or roll them back`
+      );
+    }
+  }
+
+  /**
+   * Persist the current state of an execution
+   */
+  private checkpoint(execution: WorkflowExecution): void {
+    const workflow = this.executionWorkflows.get(execution.id);
+    if (!this.store || !workflow) {
+      return;
+    }
+    try {
+      this.store.save(serializeExecution(execution, workflow));
+    } catch (error) {
+      logger.error({ error }, `Failed to checkpoint workflow execution ${execution.id}`);
+    }
+  }
+
   /**
    * Execute workflow steps
    */
@@ -216,8 +472,17 @@ export class WorkflowEngine extends EventEmitter {
     workflow: WorkflowDefinition,
     execution: WorkflowExecution
   ): Promise<void> {
+    // Steps finished before a resume count as done
     const completed = new Set<string>();
     const failed = new Set<string>();
+    for (const step of workflow.steps) {
+      const state = execution.steps.get(step.id)?.state;
+      if (state === StepState.COMPLETED || state === StepState.SKIPPED) {
+        completed.add(step.id);
+      } else if (state === StepState.FAILED && step.continueOnError) {
+        failed.add(step.id);
+      }
+    }
 
     while (completed.size + failed.size < workflow.steps.length) {
       // Find steps ready to execute
@@ -259,7 +524,7 @@ export class WorkflowEngine extends EventEmitter {
               throw error;
             }
             failed.add(step.id);
-            logger.warn(`Step ${step.id} failed but continuing`, { error });
+            logger.warn({ error }, `Step ${step.id} failed but continuing`);
           })
       );
 
@@ -279,17 +544,33 @@ export class WorkflowEngine extends EventEmitter {
     stepExecution.startedAt = new Date();
     stepExecution.state = StepState.RUNNING;
     execution.currentStep = step.id;
+    this.checkpoint(execution);
 
     this.emit('step:started', execution, step);
 
+    if (step.condition && !this.evaluateCondition(step.condition, execution.context)) {
+      stepExecution.state = StepState.SKIPPED;
+      stepExecution.completedAt = new Date();
+      this.checkpoint(execution);
+      logger.info(`Skipped step ${step.id}: condition ${step.condition} is false`);
+      return;
+    }
+
     const retryPolicy = step.retryPolicy || {
       maxAttempts: 1,
       backoffMs: 1000
     };
 
-    let lastError: Error | undefined;
+    // Freeze windows, missing permissions and pending approvals block a step
+    // outright; retrying would not help
+    const { principal } = getCaller();
+    const approvalIds: string[] = [];
+    let lastError: Error | undefined =
+      this.checkChangeFreeze(step, execution) ||
+      await this.authorizeStep(step, execution, principal, approvalIds);
+    const maxAttempts = lastError ? 0 : retryPolicy.maxAttempts;
 
-    for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
         stepExecution.attempts = attempt;
 
@@ -300,32 +581,41 @@ export class WorkflowEngine extends EventEmitter {
           await new Promise(resolve => setTimeout(resolve, backoff));
         }
 
-        // Merge context into step args
-        const args = this.interpolateArgs(step.args, execution.context);
-
-        // Execute with timeout if specified
-        let result: any;
-        if (step.timeout) {
-          result = await this.executeWithTimeout(
-            this.toolExecutor.execute(step.tool, args),
-            step.timeout
-          );
-        } else {
-          result = await this.toolExecutor.execute(step.tool, args);
+        // Loop steps run the tool once per item and collect the results
+        const results: any[] = [];
+        for (const context of this.getIterationContexts(step, execution.context)) {
+          // Merge context into step args
+          const args = this.interpolateArgs(step.args, context);
+
+          // Execute with timeout if specified
+          if (step.timeout) {
+            results.push(await this.executeWithTimeout(
+              this.executeStepTool(step, args),
+              step.timeout
+            ));
+          } else {
+            results.push(await this.executeStepTool(step, args));
+          }
         }
+        const result = step.forEach ? results : results[0];
 
         // Store result in context for subsequent steps
         execution.context[`${step.id}_result`] = result;
+        for (const [name, path] of Object.entries(step.outputs || {})) {
+          execution.context[name] = path ? this.getContextValue(result, path) : result;
+        }
         stepExecution.result = result;
         stepExecution.state = StepState.COMPLETED;
         stepExecution.completedAt = new Date();
+        this.checkpoint(execution);
+        approvalIds.forEach(approvalId => approvalService.complete(approvalId, principal));
 
         this.emit('step:completed', execution, step, result);
         return;
 
       } catch (error) {
         lastError = error as Error;
-        logger.error(`Step ${step.id} failed (attempt ${attempt})`, { error });
+        logger.error({ error }, `Step ${step.id} failed (attempt ${attempt})`);
       }
     }
 
@@ -333,28 +623,97 @@ export class WorkflowEngine extends EventEmitter {
     stepExecution.state = StepState.FAILED;
     stepExecution.error = lastError;
     stepExecution.completedAt = new Date();
+    this.checkpoint(execution);
+    approvalIds.forEach(approvalId => approvalService.complete(approvalId, principal, lastError));
     
     this.emit('step:failed', execution, step, lastError!);
     throw lastError;
   }
 
+  /**
+   * Run a step's tool. Test Center steps ask for the raw test run, wait for
+   * it to finish and fail unless every test case passed, so later steps
+   * such as a production activation only run after a passing run.
+   */
+  private async executeStepTool(step: WorkflowStep, args: Record<string, any>): Promise<any> {
+    if (step.type !== 'test-center') {
+      return this.toolExecutor.execute(step.tool, args);
+    }
+    const run = await this.toolExecutor.execute(step.tool, { ...args, waitForCompletion: true, format: 'json' });
+    assertTestRunPassed(run);
+    return run;
+  }
+
+  /**
+   * Check an activation step against the change-freeze calendar
+   */
+  private checkChangeFreeze(
+    step: WorkflowStep,
+    execution: WorkflowExecution
+  ): ChangeFreezeError | undefined {
+    const args = this.interpolateArgs(step.args, execution.context);
+    const customer = args['customer'] || execution.context['customer'] || 'default';
+    return ChangeFreezeService.getInstance().checkToolCall(customer, step.tool, args);
+  }
+
+  /**
+   * Apply the caller's role-based permissions and the two-person rule to
+   * every call a step makes. Approvals claimed here are collected so the
+   * step outcome can be recorded against them.
+   */
+  private async authorizeStep(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    principal: string,
+    approvalIds: string[]
+  ): Promise<Error | undefined> {
+    for (const context of this.getIterationContexts(step, execution.context)) {
+      const args = this.interpolateArgs(step.args, context);
+      const customer = args['customer'] || execution.context['customer'] || 'default';
+
+      const decision = await CustomerContextManager.getInstance().authorizeToolCall({
+        principal,
+        customer,
+        tool: step.tool,
+        args,
+      });
+      if (!decision.allowed) {
+        return authorizationError(decision, step.tool, customer);
+      }
+
+      const gate = await approvalService.gate({ tool: step.tool, customer, principal, args });
+      if (!gate.proceed) {
+        const text = gate.response.content.map(c => c.text).join('\n');
+        return new Error(
+          `Step ${step.id} was not executed. Set approvalId in the step arguments once approved and run the workflow again.\n\n${text}`
+        );
+      }
+      if (gate.approvalId) {
+        approvalIds.push(gate.approvalId);
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Rollback a workflow
    */
   private async rollbackWorkflow(
     workflow: WorkflowDefinition,
-    execution: WorkflowExecution
+    execution: WorkflowExecution,
+    strategy = workflow.rollbackStrategy
   ): Promise<void> {
     execution.state = WorkflowState.ROLLING_BACK;
+    this.checkpoint(execution);
     this.emit('rollback:started', execution);
 
     try {
       const stepsToRollback = workflow.steps.filter(step => {
         const stepExec = execution.steps.get(step.id)!;
         
-        if (workflow.rollbackStrategy === 'all') {
+        if (strategy === 'all') {
           return stepExec.state === StepState.COMPLETED && step.rollback;
-        } else if (workflow.rollbackStrategy === 'failed') {
+        } else if (strategy === 'failed') {
           return stepExec.state === StepState.FAILED && step.rollback;
         }
         
@@ -363,31 +722,31 @@ export class WorkflowEngine extends EventEmitter {
 
       for (const step of stepsToRollback) {
         try {
-          const args = this.interpolateArgs(
-            step.rollback!.args,
-            execution.context
-          );
-          
-          const result = await this.toolExecutor.execute(
-            step.rollback!.tool,
-            args
-          );
+          const results: any[] = [];
+          for (const context of this.getIterationContexts(step, execution.context)) {
+            const args = this.interpolateArgs(step.rollback!.args, context);
+            results.push(await this.toolExecutor.execute(step.rollback!.tool, args));
+          }
+          const result = step.forEach ? results : results[0];
           
           const stepExec = execution.steps.get(step.id)!;
           stepExec.rollbackResult = result;
           stepExec.state = StepState.ROLLED_BACK;
+          this.checkpoint(execution);
           
           logger.info(`Rolled back step: ${step.id}`);
         } catch (error) {
-          logger.error(`Failed to rollback step: ${step.id}`, { error });
+          logger.error({ error }, `Failed to rollback step: ${step.id}`);
         }
       }
 
       execution.state = WorkflowState.ROLLED_BACK;
+      this.checkpoint(execution);
       this.emit('rollback:completed', execution);
     } catch (error) {
-      logger.error('Rollback failed', { error });
+      logger.error({ error }, 'Rollback failed');
       execution.state = WorkflowState.FAILED;
+      this.checkpoint(execution);
     }
   }
 
@@ -406,6 +765,49 @@ export class WorkflowEngine extends EventEmitter {
     ]);
   }
 
+  /**
+   * Contexts a step runs in: one per item for loop steps
+   */
+  private getIterationContexts(
+    step: WorkflowStep,
+    context: Record<string, any>
+  ): Record<string, any>[] {
+    if (!step.forEach) {
+      return [context];
+    }
+
+    const items = this.interpolateValue(step.forEach, context);
+    if (!Array.isArray(items)) {
+      throw new Error(`forEach of step ${step.id} did not resolve to a list: ${step.forEach}`);
+    }
+    const name = step.as || 'item';
+    return items.map((item, index) => ({ ...context, [name]: item, [`${name}_index`]: index }));
+  }
+
+  /**
+   * Evaluate a step condition: a value that must be truthy, optionally
+   * negated with '!' or compared with '==' / '!='
+   */
+  private evaluateCondition(condition: string, context: Record<string, any>): boolean {
+    const expression = condition.trim();
+    const comparison = /^(.+?)\s*(==|!=)\s*(.+)$/.exec(expression);
+    if (comparison) {
+      const left = this.interpolateValue(comparison[1]!.trim(), context);
+      const right = this.interpolateValue(comparison[3]!.trim().replace(/^(['"])(.*)\1$/, '$2'), context);
+      const equal = String(left) === String(right);
+      return comparison[2] === '==' ? equal : !equal;
+    }
+    if (expression.startsWith('!')) {
+      return !this.evaluateCondition(expression.slice(1), context);
+    }
+
+    const value = this.interpolateValue(expression, context);
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    return !!value && value !== 'false' && value !== '0';
+  }
+
   /**
    * Interpolate arguments with context values
    */
@@ -416,21 +818,40 @@ export class WorkflowEngine extends EventEmitter {
     const result: Record<string, any> = {};
 
     for (const [key, value] of Object.entries(args)) {
-      if (typeof value === 'string' && value.startsWith('${') && value.endsWith('}')) {
-        // Template variable
-        const varName = value.slice(2, -1);
-        result[key] = this.getContextValue(context, varName);
-      } else if (typeof value === 'object' && value !== null) {
-        // Recurse into objects
-        result[key] = this.interpolateArgs(value, context);
-      } else {
-        result[key] = value;
-      }
+      result[key] = this.interpolateValue(value, context);
     }
 
     return result;
   }
 
+  /**
+   * Interpolate a single value; a string that is exactly one template
+   * variable keeps the variable's type, others are string templates
+   */
+  private interpolateValue(value: any, context: Record<string, any>): any {
+    if (typeof value === 'string') {
+      const variable = /^\$\{([^}]+)\}$/.exec(value);
+      if (variable) {
+        return this.getContextValue(context, variable[1]!);
+      }
+      return value.replace(/\$\{([^}]+)\}/g, (match, path: string) => {
+        const resolved = this.getContextValue(context, path);
+        if (resolved === undefined) {
+          return match;
+        }
+        return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolateValue(item, context));
+    }
+    if (typeof value === 'object' && value !== null) {
+      // Recurse into objects
+      return this.interpolateArgs(value, context);
+    }
+    return value;
+  }
+
   /**
    * Get value from context using dot notation
    */
@@ -465,15 +886,23 @@ export class WorkflowEngine extends EventEmitter {
       throw new Error(`Execution not found: ${executionId}`);
     }
 
-    if (execution.state !== WorkflowState.RUNNING) {
+    if (execution.state !== WorkflowState.RUNNING && execution.state !== WorkflowState.INTERRUPTED) {
       throw new Error(`Cannot cancel workflow in state: ${execution.state}`);
     }
 
     execution.state = WorkflowState.CANCELLED;
     execution.completedAt = new Date();
+    this.checkpoint(execution);
     this.emit('workflow:cancelled', execution);
   }
 
+  /**
+   * Remove a workflow definition; running executions keep their copy
+   */
+  unregisterWorkflow(workflowId: string): boolean {
+    return this.workflows.delete(workflowId);
+  }
+
   /**
    * List all workflow definitions
    */
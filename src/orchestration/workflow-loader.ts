@@ -0,0 +1,246 @@
+/**
+ * Declarative Workflow Loader
+ *
+ * Loads WorkflowDefinitions authored as YAML or JSON files from a
+ * directory (ALECS_WORKFLOW_DIR), so teams can add workflows without a
+ * rebuild.
+ *
+ * Step fields beyond the TypeScript templates:
+ * - condition: '${enable_waf}', '!${dry_run}' or '${network} == PRODUCTION'
+ * - forEach / as: run the tool once per item of a list, e.g. per hostname
+ * - outputs: context variables taken from the step result, for later args
+ * - type: test-center runs test_center_test_run and fails the step unless
+ *   every test case passed, e.g. to gate a production activation
+ *
+ * Every definition is validated against the tools registry at load time:
+ * tools must exist, args must be known to the tool, required args must be
+ * given and literal values must match the tool's input schema.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { z } from 'zod';
+import { load as loadYaml } from 'js-yaml';
+import { type WorkflowDefinition } from './workflow-engine';
+
+/**
+ * Tool lookup used for validation, usually getToolByName from the registry
+ */
+export type WorkflowToolResolver = (name: string) => { schema?: unknown } | undefined;
+
+export interface WorkflowLoadError {
+  file: string;
+  errors: string[];
+}
+
+export interface WorkflowLoadResult {
+  workflows: WorkflowDefinition[]; // metadata.source holds the file path
+  errors: WorkflowLoadError[];
+}
+
+const WORKFLOW_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+const ToolCallSchema = z.object({
+  tool: z.string().min(1),
+  args: z.record(z.string(), z.any()).default({})
+});
+
+const WorkflowStepSchema = ToolCallSchema.extend({
+  id: z.string().regex(/^[\w-]+$/, 'Step IDs may only contain letters, digits, _ and -'),
+  type: z.enum(['tool', 'test-center']).optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
+  retryPolicy: z.object({
+    maxAttempts: z.number().int().min(1),
+    backoffMs: z.number().int().min(0),
+    backoffMultiplier: z.number().optional()
+  }).optional(),
+  rollback: ToolCallSchema.optional(),
+  continueOnError: z.boolean().optional(),
+  timeout: z.number().int().positive().optional(),
+  condition: z.string().optional(),
+  forEach: z.string().optional(),
+  as: z.string().regex(/^\w+$/).optional(),
+  outputs: z.record(z.string(), z.string()).optional()
+}).strict();
+
+export const WorkflowFileSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'Workflow IDs may only contain letters, digits, _, . and -'),
+  name: z.string(),
+  description: z.string().default(''),
+  version: z.string().default('1.0.0'),
+  customer: z.string().optional(),
+  rollbackStrategy: z.enum(['all', 'failed', 'none']).optional(),
+  maxDuration: z.number().int().positive().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  steps: z.array(WorkflowStepSchema).min(1)
+}).strict();
+
+/**
+ * Whether a value contains a ${...} template anywhere
+ */
+function containsTemplate(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.includes('${');
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsTemplate);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(containsTemplate);
+  }
+  return false;
+}
+
+/**
+ * Check a tool call's args against the tool's input schema
+ * Templated values are only known at run time, so only their presence counts
+ */
+function validateToolCall(
+  label: string,
+  call: { tool: string; args: Record<string, any> },
+  resolveTool: WorkflowToolResolver
+): string[] {
+  const tool = resolveTool(call.tool);
+  if (!tool) {
+    return [`${label}: unknown tool '${call.tool}'`];
+  }
+  if (!(tool.schema instanceof z.ZodObject)) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  const shape = tool.schema.shape as Record<string, z.ZodType>;
+  for (const [key, value] of Object.entries(call.args)) {
+    const field = shape[key];
+    if (!field) {
+      errors.push(`${label}: '${call.tool}' has no argument '${key}'`);
+    } else if (!containsTemplate(value)) {
+      const result = field.safeParse(value);
+      if (!result.success) {
+        errors.push(`${label}: invalid '${key}' for '${call.tool}': ${result.error.issues[0]?.message}`);
+      }
+    }
+  }
+  for (const [key, field] of Object.entries(shape)) {
+    if (!(key in call.args) && !field.safeParse(undefined).success) {
+      errors.push(`${label}: '${call.tool}' requires argument '${key}'`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate a parsed definition against the tools registry
+ */
+export function validateWorkflowDefinition(
+  definition: z.infer<typeof WorkflowFileSchema>,
+  resolveTool: WorkflowToolResolver
+): string[] {
+  const errors: string[] = [];
+  const stepIds = new Set<string>();
+
+  for (const step of definition.steps) {
+    if (stepIds.has(step.id)) {
+      errors.push(`Step '${step.id}': duplicate step ID`);
+    }
+    stepIds.add(step.id);
+  }
+
+  for (const step of definition.steps) {
+    const label = `Step '${step.id}'`;
+    for (const dependency of step.dependencies || []) {
+      if (!stepIds.has(dependency) || dependency === step.id) {
+        errors.push(`${label}: unknown dependency '${dependency}'`);
+      }
+    }
+    if (step.as && !step.forEach) {
+      errors.push(`${label}: 'as' requires 'forEach'`);
+    }
+    if (step.type === 'test-center' && step.tool !== 'test_center_test_run') {
+      errors.push(`${label}: test-center steps must run 'test_center_test_run'`);
+    }
+    errors.push(...validateToolCall(label, step, resolveTool));
+    if (step.rollback) {
+      errors.push(...validateToolCall(`${label} rollback`, step.rollback, resolveTool));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate one definition file's content
+ */
+export function parseWorkflowDefinition(
+  content: string,
+  file: string,
+  resolveTool: WorkflowToolResolver
+): { workflow?: WorkflowDefinition; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = extname(file) === '.json' ? JSON.parse(content) : loadYaml(content);
+  } catch (error) {
+    return { errors: [`Cannot parse file: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const parsed = WorkflowFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'definition'}: ${issue.message}`)
+    };
+  }
+
+  const errors = validateWorkflowDefinition(parsed.data, resolveTool);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const { steps, ...rest } = parsed.data;
+  return {
+    workflow: {
+      ...rest,
+      steps: steps.map(step => ({
+        ...step,
+        name: step.name || step.id,
+        description: step.description || step.name || step.id
+      }))
+    },
+    errors: []
+  };
+}
+
+/**
+ * Load every definition file in a directory
+ * Invalid files are reported and skipped; the rest still load
+ */
+export function loadWorkflowDefinitions(
+  directory: string,
+  resolveTool: WorkflowToolResolver
+): WorkflowLoadResult {
+  const result: WorkflowLoadResult = { workflows: [], errors: [] };
+  if (!existsSync(directory)) {
+    return result;
+  }
+
+  const seen = new Map<string, string>();
+  for (const name of readdirSync(directory).sort()) {
+    if (!WORKFLOW_FILE_EXTENSIONS.includes(extname(name))) {
+      continue;
+    }
+
+    const file = join(directory, name);
+    const { workflow, errors } = parseWorkflowDefinition(readFileSync(file, 'utf8'), file, resolveTool);
+    if (workflow && seen.has(workflow.id)) {
+      result.errors.push({ file, errors: [`Workflow ID '${workflow.id}' is already defined in ${seen.get(workflow.id)}`] });
+    } else if (workflow) {
+      seen.set(workflow.id, file);
+      result.workflows.push({ ...workflow, metadata: { ...workflow.metadata, source: file } });
+    } else {
+      result.errors.push({ file, errors });
+    }
+  }
+
+  return result;
+}
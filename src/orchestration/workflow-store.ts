@@ -0,0 +1,95 @@
+/**
+ * Workflow State Persistence
+ *
+ * Checkpoints workflow executions so that a server restart in the middle
+ * of a workflow does not lose which steps ran, their results and which of
+ * them need rollback.
+ *
+ * Enable with ALECS_WORKFLOW_STATE_DIR=<directory>. Each execution is kept
+ * as one JSON file, rewritten atomically on every checkpoint.
+ *
+ * The store interface is synchronous and record-based so other backends
+ * (e.g. SQLite) can be plugged in through the WorkflowEngine constructor.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * Persistence backend for workflow executions
+ */
+export interface WorkflowStateStore<T extends { id: string }> {
+  save(record: T): void;
+  load(id: string): T | undefined;
+  list(): T[];
+  delete(id: string): void;
+}
+
+/**
+ * Store keeping one JSON file per record
+ */
+export class JsonFileWorkflowStore<T extends { id: string }> implements WorkflowStateStore<T> {
+  constructor(private readonly directory: string) {}
+
+  save(record: T): void {
+    mkdirSync(this.directory, { recursive: true });
+    const file = this.fileFor(record.id);
+    // Write then rename so a crash mid-write never leaves a truncated checkpoint
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmpFile, JSON.stringify(record, null, 2));
+    renameSync(tmpFile, file);
+  }
+
+  load(id: string): T | undefined {
+    const file = this.fileFor(id);
+    if (!existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(file, 'utf8')) as T;
+  }
+
+  list(): T[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+
+    const records: T[] = [];
+    for (const name of readdirSync(this.directory)) {
+      if (!name.endsWith('.json')) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(readFileSync(join(this.directory, name), 'utf8')) as T);
+      } catch (error) {
+        logger.warn('Skipping unreadable workflow checkpoint', { file: name, error });
+      }
+    }
+    return records;
+  }
+
+  delete(id: string): void {
+    const file = this.fileFor(id);
+    if (existsSync(file)) {
+      unlinkSync(file);
+    }
+  }
+
+  private fileFor(id: string): string {
+    if (!/^[\w.-]+$/.test(id)) {
+      throw new Error(`Invalid workflow execution ID: ${id}`);
+    }
+    return join(this.directory, `${id}.json`);
+  }
+}
+
+/**
+ * Create the store configured by ALECS_WORKFLOW_STATE_DIR, if any
+ * Each caller gets its own namespace (subdirectory) in that directory
+ */
+export function createWorkflowStoreFromEnv<T extends { id: string }>(
+  namespace: string
+): WorkflowStateStore<T> | undefined {
+  const directory = process.env['ALECS_WORKFLOW_STATE_DIR'];
+  return directory ? new JsonFileWorkflowStore<T>(join(directory, namespace)) : undefined;
+}
@@ -437,7 +437,23 @@ export const ZERO_DOWNTIME_DEPLOYMENT: WorkflowDefinition = {
       continueOnError: false
     },
     
-    // Step 6: Capture baseline metrics
+    // Step 6: Gate on Test Center
+    {
+      id: 'test-center-gate',
+      name: 'Test Center Gate',
+      description: 'Run Test Center suites on staging; production waits for every test case to pass',
+      type: 'test-center',
+      tool: 'test_center_test_run',
+      args: {
+        testSuiteIds: '${test_suite_ids}',
+        network: 'STAGING',
+        note: 'Zero-downtime deployment of ${propertyId}'
+      },
+      condition: '${test_suite_ids}',
+      dependencies: ['staging-activation']
+    },
+    
+    // Step 7: Capture baseline metrics
     {
       id: 'baseline-metrics',
       name: 'Capture Baseline Metrics',
@@ -451,7 +467,7 @@ export const ZERO_DOWNTIME_DEPLOYMENT: WorkflowDefinition = {
       dependencies: ['staging-tests']
     },
     
-    // Step 7: Production activation
+    // Step 8: Production activation
     {
       id: 'production-activation',
       name: 'Production Activation',
@@ -465,10 +481,10 @@ export const ZERO_DOWNTIME_DEPLOYMENT: WorkflowDefinition = {
         notifyEmails: ['${notification_email}'],
         acknowledgeWarnings: true
       },
-      dependencies: ['baseline-metrics']
+      dependencies: ['baseline-metrics', 'test-center-gate']
     },
     
-    // Step 8: Monitor deployment
+    // Step 9: Monitor deployment
     {
       id: 'deployment-monitoring',
       name: 'Monitor Deployment',
@@ -488,7 +504,7 @@ export const ZERO_DOWNTIME_DEPLOYMENT: WorkflowDefinition = {
       continueOnError: false
     },
     
-    // Step 9: Purge cache if needed
+    // Step 10: Purge cache if needed
     {
       id: 'cache-purge',
       name: 'Purge Cache',
@@ -10,6 +10,7 @@
 
 import { ALECSCore, tool } from '../core/server/alecs-core';
 import { z } from 'zod';
+import { ApprovalControlSchema } from '../tools/common/validators';
 
 // Import consolidated DNS tools
 import { consolidatedDNSTools } from '../tools/dns/consolidated-dns-tools';
@@ -303,6 +304,7 @@ class DNSServer extends ALECSCore {
     tool('activate-zone-changes',
       ZoneSchema.extend({
         comment: z.string().optional().describe('Activation comment'),
+        ...ApprovalControlSchema.shape,
       }),
       async (args, ctx) => {
         const response = await activateZoneChanges(args);
@@ -28,6 +28,7 @@
 
 import { ALECSCore, tool } from '../core/server/alecs-core';
 import { z } from 'zod';
+import { ApprovalControlSchema } from '../tools/common/validators';
 
 // Import consolidated property tools
 import { consolidatedPropertyTools } from '../tools/property/consolidated-property-tools';
@@ -327,6 +328,7 @@ class PropertyServer extends ALECSCore {
         note: z.string().optional().describe('Activation note'),
         acknowledgeWarnings: z.boolean().optional(),
         format: FormatSchema.shape.format,
+        ...ApprovalControlSchema.shape,
       }),
       async (_args, _ctx) => {
         const response = await activateProperty(_args);
@@ -662,6 +664,7 @@ class PropertyServer extends ALECSCore {
         note: z.string().optional(),
         notifyEmails: z.array(z.string()).optional(),
         acknowledgeAllWarnings: z.boolean().optional(),
+        ...ApprovalControlSchema.shape,
       }),
       async (_args, _ctx) => {
         const response = await activateInclude(_args);
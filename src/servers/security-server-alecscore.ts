@@ -13,6 +13,7 @@
 
 import { ALECSCore, tool } from '../core/server/alecs-core';
 import { z } from 'zod';
+import { ApprovalControlSchema } from '../tools/common/validators';
 
 // Import consolidated security tools
 import { consolidatedSecurityTools } from '../tools/security/consolidated-security-tools';
@@ -157,6 +158,7 @@ class SecurityServer extends ALECSCore {
       NetworkListIdSchema.extend(NetworkSchema.shape).extend({
         comments: z.string().optional(),
         notificationRecipients: z.array(z.string().email()).optional(),
+        ...ApprovalControlSchema.shape,
       }),
       async (args, _ctx) => {
         _ctx.logger.info('Activating network list', {
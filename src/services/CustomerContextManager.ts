@@ -35,6 +35,10 @@
  */
 
 import { AkamaiClient } from '../akamai-client';
+import { TokenManager } from '../auth/TokenManager';
+import { ANONYMOUS_PRINCIPAL, parseNetwork, RbacPolicyStore, toolAction, type NetworkName } from '../auth/rbac-policy';
+import { APPROVAL_GATED_TOOLS } from './approval-service';
+import { isActivationTool } from './change-freeze-service';
 import { logger } from '../utils/logger';
 
 // Session token interface removed - not used
@@ -49,6 +53,7 @@ interface AuthSession {
   sessionId: string;
   customerId: string;
   userId?: string;
+  tokenId?: string; // TokenManager token the session was opened with
   expiresAt: Date;
   availableContexts: CustomerContext[];
 }
@@ -58,6 +63,8 @@ interface AuthSession {
 interface AuthorizationDecision {
   allowed: boolean;
   reason?: string;
+  principal?: string;
+  roles?: string[];
 }
 
 // CredentialRotationSchedule interface removed - not used
@@ -80,11 +87,12 @@ class SessionManager {
     return this.instance;
   }
   
-  async createSession(sessionId: string, customerId: string, userId?: string): Promise<AuthSession> {
+  async createSession(sessionId: string, customerId: string, userId?: string, tokenId?: string): Promise<AuthSession> {
     const session: AuthSession = {
       sessionId,
       customerId,
       userId,
+      tokenId,
       expiresAt: new Date(Date.now() + 3600000), // 1 hour
       availableContexts: [{ customerId, name: customerId }]
     };
@@ -146,15 +154,64 @@ export interface CustomerCredentialRequest {
 
 /**
  * Authorization request
+ * `resource` is the tool name and `action` whether it reads or writes.
+ * Either a session or a token ID identifies the caller.
  */
 export interface AuthorizationRequest {
-  sessionId: string;
+  sessionId?: string;
+  tokenId?: string;
+  customerId?: string;
   resource: string;
-  action: string;
+  action: 'read' | 'write';
+  network?: NetworkName;
   resourceId?: string;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Tool call authorization request from an MCP call handler
+ */
+export interface ToolCallAuthorizationRequest {
+  bearerToken?: string;
+  principal?: string; // Already resolved caller, e.g. of a workflow step
+  customer: string;
+  tool: string;
+  args?: Record<string, unknown>;
+  action?: 'read' | 'write'; // Overrides the classification of the tool name, e.g. for resource reads
+}
+
+/**
+ * Networks named anywhere in the arguments of a call, including the items of bulk operations
+ */
+function namedNetworks(value: unknown): NetworkName[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(namedNetworks);
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  return Object.entries(value).flatMap(([key, nested]) => {
+    const network = key === 'network' ? parseNetwork(nested) : undefined;
+    return network ? [network] : namedNetworks(nested);
+  });
+}
+
+/**
+ * Network a tool call changes, for role network limits
+ * The most privileged network named by the call wins. Activations that are
+ * production-only or name no network count as production.
+ */
+export function toolCallNetwork(tool: string, args: Record<string, unknown> = {}): NetworkName | undefined {
+  const networks = namedNetworks(args);
+  if (APPROVAL_GATED_TOOLS[tool]?.alwaysProduction || networks.includes('production')) {
+    return 'production';
+  }
+  if (networks.includes('staging')) {
+    return 'staging';
+  }
+  return isActivationTool(tool) ? 'production' : undefined;
+}
+
 /**
  * CUSTOMER CONTEXT MANAGER IMPLEMENTATION
  * 
@@ -218,8 +275,8 @@ export class CustomerContextManager {
   /**
    * Create authenticated session with token
    */
-  async createSession(sessionId: string, customerId: string, userId?: string): Promise<AuthSession> {
-    return this.sessionManager.createSession(sessionId, customerId, userId);
+  async createSession(sessionId: string, customerId: string, userId?: string, tokenId?: string): Promise<AuthSession> {
+    return this.sessionManager.createSession(sessionId, customerId, userId, tokenId);
   }
 
   /**
@@ -254,7 +311,7 @@ export class CustomerContextManager {
     }
 
     // Perform context switch
-    const updatedSession = await this.sessionManager.switchCustomerContext(sessionId, targetCustomerId);
+    await this.sessionManager.switchCustomerContext(sessionId, targetCustomerId);
 
     logger.info('Customer context switched', {
       sessionId,
@@ -322,33 +379,85 @@ export class CustomerContextManager {
   }
 
   /**
-   * Basic authorization check for session-based access
+   * ROLE-BASED AUTHORIZATION
+   * 
+   * Evaluates the request against the RBAC policy (ALECS_RBAC_POLICY):
+   * roles bound to the caller's token, granted per customer section,
+   * limited to allowed domains/tools and to staging or production for
+   * network actions. Without a policy file every valid caller is allowed.
    */
   async authorize(request: AuthorizationRequest): Promise<AuthorizationDecision> {
-    const { sessionId, resource, action, resourceId, metadata } = request;
-
-    // Get and validate session
-    const session = await this.sessionManager.getSession(sessionId);
-    if (!session) {
-      return {
-        allowed: false,
-        reason: 'Invalid or expired session',
-      };
+    const { sessionId, resource, action, network, resourceId } = request;
+    let { tokenId, customerId } = request;
+
+    if (sessionId) {
+      // Get and validate session
+      const session = await this.sessionManager.getSession(sessionId);
+      if (!session) {
+        return {
+          allowed: false,
+          reason: 'Invalid or expired session',
+        };
+      }
+      tokenId = tokenId || session.tokenId;
+      customerId = customerId || session.customerId;
     }
 
-    // Basic authorization - allow access if session is valid
-    // More sophisticated authorization can be added later
-    const allowed = true;
+    const decision = RbacPolicyStore.getInstance().evaluate({
+      principal: tokenId,
+      customer: customerId || 'default',
+      tool: resource,
+      action,
+      network,
+    });
 
     logger.info('Authorization decision', {
       sessionId,
+      principal: decision.principal,
+      customer: customerId,
       resource,
       action,
+      network,
       resourceId,
-      allowed,
+      allowed: decision.allowed,
+      reason: decision.reason,
     });
 
-    return { allowed };
+    return decision;
+  }
+
+  /**
+   * Authorize an MCP tool call
+   * Resolves the bearer token through TokenManager, classifies the tool
+   * as read or write (failing closed on mutating verbs) and picks up the
+   * target network with toolCallNetwork.
+   * The decision always carries the resolved principal.
+   */
+  async authorizeToolCall(request: ToolCallAuthorizationRequest): Promise<AuthorizationDecision> {
+    const { bearerToken, customer, tool, args } = request;
+
+    let tokenId = request.principal !== ANONYMOUS_PRINCIPAL ? request.principal : undefined;
+    if (bearerToken) {
+      const validation = await TokenManager.getInstance().validateToken(bearerToken);
+      if (!validation.valid) {
+        return { allowed: false, reason: validation.error || 'Invalid token' };
+      }
+      tokenId = validation.tokenId;
+    }
+    const principal = tokenId || ANONYMOUS_PRINCIPAL;
+
+    if (!RbacPolicyStore.getInstance().isEnabled()) {
+      return { allowed: true, principal };
+    }
+
+    const decision = await this.authorize({
+      tokenId,
+      customerId: customer,
+      resource: tool,
+      action: request.action || toolAction(tool),
+      network: toolCallNetwork(tool, args),
+    });
+    return { ...decision, principal };
   }
 
   /**
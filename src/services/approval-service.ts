@@ -0,0 +1,528 @@
+/**
+ * PRODUCTION CHANGE APPROVAL SERVICE
+ *
+ * Two-person rule for production activations. When enabled with
+ * ALECS_REQUIRE_APPROVAL=1, a production-targeted call to a gated tool
+ * does not execute; it records an approval request with the planned
+ * change instead. A second, different token holder approves it with
+ * `approval_decide`, after which the original call can be repeated with
+ * `approvalId` to execute it once.
+ *
+ * GATE OUTCOMES:
+ * - No production target or gate disabled: execute
+ * - `approvalId` of an approved, unexpired, matching request: execute once
+ * - `breakGlassJustification`: execute immediately, flagged in the audit trail
+ * - Otherwise: create a pending request and return its ID
+ *
+ * Every state change is appended to a JSONL audit trail
+ * (ALECS_APPROVAL_AUDIT_FILE, default .alecs/approval-audit.jsonl).
+ *
+ * Requests are kept as one JSON file each (ALECS_APPROVAL_STATE_DIR,
+ * default .alecs/approvals) and re-read on every lookup, so they survive
+ * restarts and are shared by all server processes using the directory.
+ * Executing an approval creates an exclusive `<id>.claim` file next to it,
+ * so only one process can use it.
+ */
+
+import { appendFileSync, closeSync, mkdirSync, openSync } from 'fs';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { ANONYMOUS_PRINCIPAL, parseNetwork } from '../auth/rbac-policy';
+import { formatPlanChanges, type ExecutionPlan } from '../core/dry-run';
+import { JsonFileWorkflowStore, type WorkflowStateStore } from '../orchestration/workflow-store';
+import { type MCPToolResponse } from '../types/mcp-protocol';
+import { createLogger } from '../utils/pino-logger';
+
+const logger = createLogger('approval-service');
+
+export interface ApprovalGatedTool {
+  alwaysProduction?: boolean; // DNS zones have no staging network
+  items?: string; // Array argument whose entries each carry their own network
+}
+
+/**
+ * Tools gated by the two-person rule, keyed by MCP tool name
+ */
+export const APPROVAL_GATED_TOOLS: Record<string, ApprovalGatedTool> = {
+  property_activate: {},
+  property_bulk_activate: { items: 'properties' },
+  property_batch_version_operations: { items: 'operations' },
+  bulk_activate_properties: { items: 'activations' },
+  dns_zone_activate: { alwaysProduction: true },
+  security_network_list_activate: {},
+  include_activate: {},
+  // ALECSCore server tool names
+  'activate-property': {},
+  'activate-zone-changes': { alwaysProduction: true },
+  'activate-network-list': {},
+  'bulk-activate-network-lists': {},
+  'activate-include': {},
+};
+
+/**
+ * Whether a call to a gated tool changes production, directly or through any of its items
+ */
+export function targetsProduction(tool: string, args: Record<string, unknown>): boolean {
+  const gated = APPROVAL_GATED_TOOLS[tool];
+  if (!gated) {
+    return false;
+  }
+  if (gated.alwaysProduction) {
+    return true;
+  }
+  const items = gated.items ? args[gated.items] : undefined;
+  const networks = Array.isArray(items)
+    ? items.map(item => (item && typeof item === 'object' ? (item as Record<string, unknown>)['network'] : undefined))
+    : [args['network']];
+  return networks.some(network => parseNetwork(network) === 'production');
+}
+
+/**
+ * Arguments that control the gate and are not part of the change itself
+ */
+const CONTROL_ARGS = new Set(['approvalId', 'breakGlassJustification', 'dryRun', 'format']);
+
+export const MIN_JUSTIFICATION_LENGTH = 20;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed' | 'failed';
+
+export interface ApprovalRequest {
+  id: string;
+  tool: string;
+  customer: string;
+  args: Record<string, unknown>;
+  requestedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  status: ApprovalStatus;
+  plan?: ExecutionPlan;
+  planError?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  comment?: string;
+  executedAt?: string;
+}
+
+export interface ApprovalAuditEntry {
+  timestamp: string;
+  event: 'requested' | 'approved' | 'rejected' | 'expired' | 'executed' | 'failed' | 'break-glass';
+  tool: string;
+  customer: string;
+  principal: string;
+  approvalId?: string;
+  comment?: string;
+  justification?: string;
+}
+
+export interface ApprovalGateRequest {
+  tool: string;
+  customer: string;
+  principal: string;
+  args: Record<string, unknown>;
+  plan?: () => Promise<ExecutionPlan | undefined>;
+}
+
+export type ApprovalGateResult =
+  | { proceed: true; approvalId?: string }
+  | { proceed: false; response: MCPToolResponse };
+
+export interface ApprovalServiceOptions {
+  enabled: boolean;
+  ttlMinutes: number;
+  auditFile?: string;
+  stateDir?: string; // Without it, requests live only in this process
+}
+
+/**
+ * Error raised for invalid approval decisions
+ */
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+function approvalOptionsFromEnv(): ApprovalServiceOptions {
+  const required = process.env['ALECS_REQUIRE_APPROVAL'];
+  return {
+    enabled: required === '1' || required === 'true',
+    ttlMinutes: Number(process.env['ALECS_APPROVAL_TTL_MINUTES']) || 60,
+    auditFile: process.env['ALECS_APPROVAL_AUDIT_FILE'] || join(process.cwd(), '.alecs', 'approval-audit.jsonl'),
+    stateDir: process.env['ALECS_APPROVAL_STATE_DIR'] || join(process.cwd(), '.alecs', 'approvals'),
+  };
+}
+
+/**
+ * Stable fingerprint of the change arguments of a call
+ */
+function changeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args)
+      .filter(([key]) => !CONTROL_ARGS.has(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Request store used when no state directory is configured
+ */
+class MemoryApprovalStore implements WorkflowStateStore<ApprovalRequest> {
+  private readonly records = new Map<string, ApprovalRequest>();
+
+  save(record: ApprovalRequest): void {
+    this.records.set(record.id, record);
+  }
+
+  load(id: string): ApprovalRequest | undefined {
+    return this.records.get(id);
+  }
+
+  list(): ApprovalRequest[] {
+    return [...this.records.values()];
+  }
+
+  delete(id: string): void {
+    this.records.delete(id);
+  }
+}
+
+function textResponse(text: string, isError = false): MCPToolResponse {
+  return { content: [{ type: 'text', text }], ...(isError && { isError }) };
+}
+
+export class ApprovalService {
+  private readonly requests: WorkflowStateStore<ApprovalRequest>;
+  private readonly auditTrail: ApprovalAuditEntry[] = [];
+  private readonly options: ApprovalServiceOptions;
+
+  constructor(options: Partial<ApprovalServiceOptions> = {}) {
+    this.options = { ...approvalOptionsFromEnv(), ...options };
+    this.requests = this.options.stateDir
+      ? new JsonFileWorkflowStore<ApprovalRequest>(this.options.stateDir)
+      : new MemoryApprovalStore();
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Whether a call targets production through a gated tool
+   */
+  requiresApproval(tool: string, args: Record<string, unknown>): boolean {
+    return this.options.enabled && targetsProduction(tool, args);
+  }
+
+  /**
+   * Decide whether a tool call may execute now
+   */
+  async gate(request: ApprovalGateRequest): Promise<ApprovalGateResult> {
+    const { tool, customer, principal, args } = request;
+    if (!this.requiresApproval(tool, args)) {
+      return { proceed: true };
+    }
+
+    const justification = args['breakGlassJustification'];
+    if (typeof justification === 'string') {
+      if (principal === ANONYMOUS_PRINCIPAL) {
+        return {
+          proceed: false,
+          response: textResponse('❌ Break-glass requires an authenticated token holder', true),
+        };
+      }
+      if (justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+        return {
+          proceed: false,
+          response: textResponse(
+            `❌ Break-glass requires a justification of at least ${MIN_JUSTIFICATION_LENGTH} characters`,
+            true
+          ),
+        };
+      }
+      logger.warn({ tool, customer, principal, justification }, 'Break-glass production change');
+      this.audit({ event: 'break-glass', tool, customer, principal, justification });
+      return { proceed: true };
+    }
+
+    const approvalId = args['approvalId'];
+    if (typeof approvalId === 'string') {
+      this.expireStale();
+      const approval = this.find(approvalId);
+      if (!approval || approval.status !== 'approved') {
+        const status = approval ? `is ${approval.status}` : 'was not found';
+        return { proceed: false, response: textResponse(`❌ Approval ${approvalId} ${status}, not approved`, true) };
+      }
+      if (
+        approval.tool !== tool ||
+        approval.customer !== customer ||
+        JSON.stringify(approval.args) !== JSON.stringify(changeArgs(args))
+      ) {
+        return {
+          proceed: false,
+          response: textResponse(`❌ Approval ${approvalId} was granted for a different change`, true),
+        };
+      }
+      // Claim the approval before executing so it cannot be replayed
+      if (!this.claim(approvalId)) {
+        return { proceed: false, response: textResponse(`❌ Approval ${approvalId} has already been used`, true) };
+      }
+      approval.status = 'executed';
+      approval.executedAt = new Date().toISOString();
+      this.save(approval);
+      return { proceed: true, approvalId };
+    }
+
+    const approval = await this.createRequest(request);
+    return { proceed: false, response: textResponse(this.formatPendingRequest(approval)) };
+  }
+
+  /**
+   * Run a call that passed the gate, recording the outcome of approved executions
+   */
+  async runApproved<T>(approvalId: string | undefined, principal: string, fn: () => Promise<T>): Promise<T> {
+    if (!approvalId) {
+      return fn();
+    }
+    try {
+      const result = await fn();
+      const failed = (result as MCPToolResponse | undefined)?.isError;
+      this.complete(approvalId, principal, failed ? new Error('Tool returned an error response') : undefined);
+      return result;
+    } catch (error) {
+      this.complete(approvalId, principal, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of an approved execution
+   * Approvals are single-use, so a failed execution needs a new request
+   */
+  complete(approvalId: string, principal: string, error?: unknown): void {
+    const approval = this.find(approvalId);
+    if (!approval) {
+      return;
+    }
+    if (error) {
+      approval.status = 'failed';
+      this.save(approval);
+    }
+    this.audit({
+      event: error ? 'failed' : 'executed',
+      approvalId,
+      tool: approval.tool,
+      customer: approval.customer,
+      principal,
+      ...(error !== undefined && { comment: error instanceof Error ? error.message : String(error) }),
+    });
+  }
+
+  /**
+   * Approve or reject a pending request
+   */
+  decide(params: {
+    approvalId: string;
+    decision: 'approve' | 'reject';
+    principal: string;
+    comment?: string;
+  }): ApprovalRequest {
+    const { approvalId, decision, principal, comment } = params;
+    const approval = this.getRequest(approvalId);
+
+    if (approval.status !== 'pending') {
+      throw new ApprovalError(`Approval ${approvalId} is already ${approval.status}`);
+    }
+    if (principal === ANONYMOUS_PRINCIPAL) {
+      throw new ApprovalError('Approval decisions require an authenticated token holder');
+    }
+    if (principal === approval.requestedBy) {
+      throw new ApprovalError('Two-person rule: a request cannot be decided by its requester');
+    }
+
+    approval.status = decision === 'approve' ? 'approved' : 'rejected';
+    approval.decidedBy = principal;
+    approval.decidedAt = new Date().toISOString();
+    approval.comment = comment;
+    this.save(approval);
+
+    this.audit({
+      event: decision === 'approve' ? 'approved' : 'rejected',
+      approvalId,
+      tool: approval.tool,
+      customer: approval.customer,
+      principal,
+      comment,
+    });
+
+    return approval;
+  }
+
+  /**
+   * List approval requests, newest first
+   */
+  list(filter: { status?: ApprovalStatus; customer?: string } = {}): ApprovalRequest[] {
+    this.expireStale();
+    return this.requests.list()
+      .filter(approval => !filter.status || approval.status === filter.status)
+      .filter(approval => !filter.customer || approval.customer === filter.customer)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get a request by ID, expiring it if its window has passed
+   */
+  getRequest(approvalId: string): ApprovalRequest {
+    this.expireStale();
+    const approval = this.find(approvalId);
+    if (!approval) {
+      throw new ApprovalError(`Approval ${approvalId} not found`);
+    }
+    return approval;
+  }
+
+  /**
+   * Audit trail entries, optionally for a single request
+   */
+  getAuditTrail(approvalId?: string): ApprovalAuditEntry[] {
+    return approvalId
+      ? this.auditTrail.filter(entry => entry.approvalId === approvalId)
+      : [...this.auditTrail];
+  }
+
+  private async createRequest(request: ApprovalGateRequest): Promise<ApprovalRequest> {
+    const now = new Date();
+    const approval: ApprovalRequest = {
+      id: `apr_${randomUUID().replace(/-/g, '').slice(0, 12)}`,
+      tool: request.tool,
+      customer: request.customer,
+      args: changeArgs(request.args),
+      requestedBy: request.principal,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.options.ttlMinutes * 60_000).toISOString(),
+      status: 'pending',
+    };
+
+    if (request.plan) {
+      try {
+        approval.plan = await request.plan();
+      } catch (error) {
+        approval.planError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    this.save(approval);
+    this.audit({
+      event: 'requested',
+      approvalId: approval.id,
+      tool: approval.tool,
+      customer: approval.customer,
+      principal: approval.requestedBy,
+    });
+
+    return approval;
+  }
+
+  private expireStale(): void {
+    const now = new Date().toISOString();
+    for (const approval of this.requests.list()) {
+      if ((approval.status === 'pending' || approval.status === 'approved') && approval.expiresAt < now) {
+        approval.status = 'expired';
+        this.save(approval);
+        this.audit({
+          event: 'expired',
+          approvalId: approval.id,
+          tool: approval.tool,
+          customer: approval.customer,
+          principal: approval.requestedBy,
+        });
+      }
+    }
+  }
+
+  /**
+   * Look up a request; unknown or malformed IDs are not found
+   */
+  private find(approvalId: string): ApprovalRequest | undefined {
+    try {
+      return this.requests.load(approvalId);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Take the single execution of an approval; only the first claim succeeds
+   * In-process requests are checked and claimed without yielding, so only the
+   * state directory needs an exclusive claim file across processes
+   */
+  private claim(approvalId: string): boolean {
+    const { stateDir } = this.options;
+    if (!stateDir) {
+      return true;
+    }
+    try {
+      mkdirSync(stateDir, { recursive: true });
+      closeSync(openSync(join(stateDir, `${approvalId}.claim`), 'wx'));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        logger.error({ error, approvalId }, 'Failed to claim approval request');
+      }
+      return false;
+    }
+  }
+
+  private save(approval: ApprovalRequest): void {
+    try {
+      this.requests.save(approval);
+    } catch (error) {
+      logger.error({ error, approvalId: approval.id }, 'Failed to persist approval request');
+    }
+  }
+
+  private audit(entry: Omit<ApprovalAuditEntry, 'timestamp'>): void {
+    const record: ApprovalAuditEntry = { timestamp: new Date().toISOString(), ...entry };
+    this.auditTrail.push(record);
+    logger.info({ audit: record }, 'Approval audit event');
+
+    if (this.options.auditFile) {
+      try {
+        mkdirSync(dirname(this.options.auditFile), { recursive: true });
+        appendFileSync(this.options.auditFile, `${JSON.stringify(record)}\n`);
+      } catch (error) {
+        logger.error({ error, file: this.options.auditFile }, 'Failed to write approval audit trail');
+      }
+    }
+  }
+
+  private formatPendingRequest(approval: ApprovalRequest): string {
+    const lines = [
+      `⏸️ Approval required: ${approval.tool} targets production and was not executed.`,
+      '',
+      `Approval ID: ${approval.id}`,
+      `Customer: ${approval.customer}`,
+      `Requested by: ${approval.requestedBy}`,
+      `Expires: ${approval.expiresAt}`,
+    ];
+
+    if (approval.plan) {
+      lines.push('', ...formatPlanChanges(approval.plan));
+    } else if (approval.planError) {
+      lines.push('', `Planned change could not be computed: ${approval.planError}`);
+    }
+
+    lines.push(
+      '',
+      'Next steps:',
+      `1. A different token holder approves with approval_decide (approvalId: "${approval.id}", decision: "approve")`,
+      `2. Call ${approval.tool} again with the same arguments plus approvalId: "${approval.id}"`,
+      '',
+      `In an emergency, pass breakGlassJustification (at least ${MIN_JUSTIFICATION_LENGTH} characters) to execute immediately; the override is recorded in the audit trail.`
+    );
+
+    return lines.join('\n');
+  }
+}
+
+export const approvalService = new ApprovalService();
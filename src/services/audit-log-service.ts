@@ -0,0 +1,520 @@
+/**
+ * TOOL INVOCATION AUDIT LOG
+ *
+ * Append-only JSONL record of every tool call: who ran which tool, with
+ * which (redacted) arguments, against which customer section, the Akamai
+ * requests it made with their request IDs, the outcome and the duration.
+ *
+ * Enable with ALECS_AUDIT_LOG=<path>.
+ *
+ * TAMPER EVIDENCE:
+ * Each entry carries the SHA-256 hash of the previous entry and its own
+ * hash over its content, so editing or deleting an entry breaks the chain
+ * from that point on. `verifyAuditChain` reports the first broken entry.
+ *
+ * Several server processes may share one log file: each append takes an
+ * exclusive `<log>.lock` file and re-reads the chain head from the end of
+ * the log. A line torn by a crash or a full disk is skipped; the chain
+ * continues from the last valid entry and verification reports the line.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
+import { dirname } from 'path';
+import { createHash } from 'crypto';
+import { matchesPattern } from '../auth/rbac-policy';
+import { logger } from '../utils/logger';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Argument keys whose values never reach the audit log
+ */
+const SENSITIVE_KEY_PATTERN = /(secret|password|passphrase|authorization|cookie|credential|private_?key|api_?key|access_?token|client_?token|auth_?token|collector_?(token|code))/i;
+
+/**
+ * `key = value`, `key: value` and JSON `"key": "value"` pairs with a
+ * sensitive key in tool response text
+ */
+const SENSITIVE_PAIR_PATTERN = new RegExp(
+  `(?<key>["']?[\\w.-]*${SENSITIVE_KEY_PATTERN.source}[\\w.-]*["']?\\s*[:=]\\s*)(?<quote>["']?)[^\\s"',}]+\\k<quote>`,
+  'gi'
+);
+
+/**
+ * Longest tool response text kept per entry
+ */
+const RESULT_SUMMARY_LENGTH = 500;
+
+/**
+ * How long an append waits for the lock, and the age after which a lock
+ * left behind by a crashed process is removed
+ */
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+
+export type AuditOutcome = 'success' | 'error' | 'denied' | 'held';
+
+/**
+ * An Akamai API request made while serving a tool call
+ */
+export interface AuditedApiRequest {
+  method: string;
+  path: string;
+  status?: number;
+  requestId?: string;
+}
+
+export interface AuditLogEntry {
+  seq: number;
+  timestamp: string;
+  principal: string; // TokenManager token ID or 'anonymous'
+  customer: string;
+  tool: string;
+  args: Record<string, unknown>;
+  correlationId?: string;
+  requests: AuditedApiRequest[];
+  outcome: AuditOutcome;
+  durationMs: number;
+  error?: string;
+  result?: string;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * A log line that does not parse as an entry
+ */
+export interface MalformedAuditLine {
+  malformed: true;
+  line: number;
+}
+
+/**
+ * Fields of an entry supplied by the caller
+ */
+export type AuditRecord = Omit<AuditLogEntry, 'seq' | 'timestamp' | 'args' | 'prevHash' | 'hash'> & {
+  args?: Record<string, unknown>;
+};
+
+export interface AuditInvocationInput {
+  principal: string;
+  customer: string;
+  tool: string;
+  args?: Record<string, unknown>;
+  correlationId?: string;
+}
+
+export interface AuditQuery {
+  principal?: string;
+  customer?: string;
+  tool?: string; // Glob pattern
+  outcome?: AuditOutcome;
+  since?: string; // ISO 8601 date-time
+  until?: string;
+  limit?: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries: number;
+  headHash: string;
+  brokenAt?: number; // seq of the first entry that fails verification
+  line?: number; // Line number of an unparsable line
+  reason?: string;
+}
+
+const requestStorage = new AsyncLocalStorage<AuditedApiRequest[]>();
+
+/**
+ * Record an Akamai API request against the tool call being audited
+ * Called by AkamaiClient; a no-op outside an audited call
+ */
+export function recordAuditedRequest(request: AuditedApiRequest): void {
+  requestStorage.getStore()?.push(request);
+}
+
+/**
+ * Replace sensitive values in tool arguments
+ */
+export function redactArgs<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactArgs(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY_PATTERN.test(key) ? '[REDACTED]' : redactArgs(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Hash of an entry's content and its link to the previous entry
+ */
+export function computeEntryHash(entry: Omit<AuditLogEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+function isMalformed(item: AuditLogEntry | MalformedAuditLine): item is MalformedAuditLine {
+  return (item as MalformedAuditLine).malformed === true;
+}
+
+/**
+ * Parse JSONL log content, keeping unparsable lines as markers
+ */
+export function parseAuditLog(text: string): Array<AuditLogEntry | MalformedAuditLine> {
+  const items: Array<AuditLogEntry | MalformedAuditLine> = [];
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    const entry = parseEntry(line);
+    items.push(entry || { malformed: true, line: index + 1 });
+  });
+  return items;
+}
+
+function parseEntry(line: string): AuditLogEntry | undefined {
+  try {
+    const entry = JSON.parse(line) as AuditLogEntry;
+    return typeof entry?.seq === 'number' && typeof entry.hash === 'string' ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Verify the hash chain of a sequence of entries, oldest first
+ */
+export function verifyAuditChain(items: Array<AuditLogEntry | MalformedAuditLine>): AuditChainVerification {
+  const entries = items.filter((item): item is AuditLogEntry => !isMalformed(item));
+  let prevHash = GENESIS_HASH;
+  let expectedSeq = entries[0]?.seq ?? 1;
+
+  for (const entry of items) {
+    if (isMalformed(entry)) {
+      return {
+        valid: false,
+        entries: entries.length,
+        headHash: prevHash,
+        brokenAt: expectedSeq,
+        line: entry.line,
+        reason: `line ${entry.line} is not a valid audit entry`,
+      };
+    }
+    const { hash, ...content } = entry;
+    const reason = entry.seq !== expectedSeq ? `expected entry ${expectedSeq}, found ${entry.seq}`
+      : entry.prevHash !== prevHash ? 'previous hash does not match the preceding entry'
+      : computeEntryHash(content) !== hash ? 'entry content does not match its hash'
+      : undefined;
+    if (reason) {
+      return { valid: false, entries: entries.length, headHash: prevHash, brokenAt: entry.seq, reason };
+    }
+    prevHash = hash;
+    expectedSeq++;
+  }
+
+  return { valid: true, entries: entries.length, headHash: prevHash };
+}
+
+/**
+ * Filter entries, newest first
+ */
+export function filterAuditEntries(entries: AuditLogEntry[], query: AuditQuery): AuditLogEntry[] {
+  const since = query.since ? Date.parse(query.since) : undefined;
+  const until = query.until ? Date.parse(query.until) : undefined;
+  return entries
+    .filter(entry => !query.principal || entry.principal === query.principal)
+    .filter(entry => !query.customer || entry.customer === query.customer)
+    .filter(entry => !query.tool || matchesPattern(query.tool, entry.tool))
+    .filter(entry => !query.outcome || entry.outcome === query.outcome)
+    .filter(entry => since === undefined || Date.parse(entry.timestamp) >= since)
+    .filter(entry => until === undefined || Date.parse(entry.timestamp) <= until)
+    .reverse()
+    .slice(0, query.limit ?? entries.length);
+}
+
+/**
+ * Redact the values of sensitive key/value pairs in free text, such as a
+ * new client_secret shown once by a tool response
+ */
+export function redactText(text: string): string {
+  return text.replace(SENSITIVE_PAIR_PATTERN, '$<key>$<quote>[REDACTED]$<quote>');
+}
+
+function summarizeResult(result: unknown): string | undefined {
+  if (result === undefined || result === null) {
+    return undefined;
+  }
+  const content = (result as { content?: Array<{ text?: string }> }).content;
+  const text = redactText(Array.isArray(content)
+    ? content.map(item => item.text || '').join('\n')
+    : typeof result === 'string' ? result : JSON.stringify(result));
+  return text.length > RESULT_SUMMARY_LENGTH ? `${text.slice(0, RESULT_SUMMARY_LENGTH)}…` : text;
+}
+
+/**
+ * Columns of CSV exports
+ */
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  'seq', 'timestamp', 'principal', 'customer', 'tool', 'outcome', 'durationMs',
+  'args', 'requests', 'error', 'prevHash', 'hash',
+];
+
+function csvCell(value: unknown): string {
+  const text = value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render entries in an export format
+ */
+export function formatAuditExport(entries: AuditLogEntry[], format: 'jsonl' | 'json' | 'csv'): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(entries, null, 2)}\n`;
+    case 'csv':
+      return [
+        CSV_COLUMNS.join(','),
+        ...entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(',')),
+      ].join('\n') + '\n';
+    default:
+      return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+  }
+}
+
+/**
+ * A tool call being audited
+ */
+export class AuditInvocation {
+  private readonly requests: AuditedApiRequest[] = [];
+  private readonly startedAt = Date.now();
+  private finished = false;
+
+  constructor(
+    private readonly service: AuditLogService,
+    private readonly input: AuditInvocationInput
+  ) {}
+
+  /**
+   * Run part of the call, recording the Akamai requests it makes
+   */
+  capture<T>(fn: () => Promise<T>): Promise<T> {
+    return requestStorage.run(this.requests, fn);
+  }
+
+  /**
+   * Write the entry for this call; later calls are ignored
+   * Resolves once the entry is written, but callers need not wait for it
+   */
+  async finish(outcome: AuditOutcome, detail: { result?: unknown; error?: unknown } = {}): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    const failed = outcome === 'success' && (detail.result as { isError?: boolean } | undefined)?.isError;
+    await this.service.append({
+      ...this.input,
+      requests: this.requests,
+      outcome: failed ? 'error' : outcome,
+      durationMs: Date.now() - this.startedAt,
+      ...(detail.error !== undefined && {
+        error: detail.error instanceof Error ? detail.error.message : String(detail.error),
+      }),
+      ...(detail.result !== undefined && { result: summarizeResult(detail.result) }),
+    });
+  }
+}
+
+export class AuditLogService {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly logPath: string | undefined = process.env['ALECS_AUDIT_LOG']) {}
+
+  isEnabled(): boolean {
+    return !!this.logPath;
+  }
+
+  /**
+   * Start auditing a tool call
+   */
+  begin(input: AuditInvocationInput): AuditInvocation {
+    return new AuditInvocation(this, input);
+  }
+
+  /**
+   * Append an entry to the chain
+   * Never rejects: a failed write is logged and resolves to undefined, so
+   * the audit log cannot change the outcome of the tool call it records.
+   * Appends of one process are written one at a time, in call order.
+   */
+  append(record: AuditRecord): Promise<AuditLogEntry | undefined> {
+    const logPath = this.logPath;
+    if (!logPath) {
+      return Promise.resolve(undefined);
+    }
+    const entry = this.writes.then(() => this.write(logPath, record));
+    this.writes = entry;
+    return entry;
+  }
+
+  private async write(logPath: string, record: AuditRecord): Promise<AuditLogEntry | undefined> {
+    try {
+      mkdirSync(dirname(logPath), { recursive: true });
+      return await this.withLock(() => {
+        const { head, terminated } = this.readHead();
+        const entry = this.buildEntry(record, head);
+        // Start a fresh line after a torn one so this entry stays parsable
+        appendFileSync(logPath, `${terminated ? '' : '\n'}${JSON.stringify(entry)}\n`);
+        return entry;
+      });
+    } catch (error) {
+      logger.error('Failed to write audit log', { error, file: logPath });
+      return undefined;
+    }
+  }
+
+  private buildEntry(record: AuditRecord, head: { seq: number; hash: string }): AuditLogEntry {
+    const { args, ...rest } = record;
+    const content: Omit<AuditLogEntry, 'hash'> = {
+      seq: head.seq + 1,
+      timestamp: new Date().toISOString(),
+      principal: rest.principal,
+      customer: rest.customer,
+      tool: rest.tool,
+      args: redactArgs(args || {}),
+      ...(rest.correlationId && { correlationId: rest.correlationId }),
+      requests: rest.requests,
+      outcome: rest.outcome,
+      durationMs: rest.durationMs,
+      ...(rest.error !== undefined && { error: rest.error }),
+      ...(rest.result !== undefined && { result: rest.result }),
+      prevHash: head.hash,
+    };
+    return { ...content, hash: computeEntryHash(content) };
+  }
+
+  /**
+   * All valid entries, oldest first
+   */
+  read(): AuditLogEntry[] {
+    return this.readLines().filter((item): item is AuditLogEntry => !isMalformed(item));
+  }
+
+  query(query: AuditQuery = {}): AuditLogEntry[] {
+    return filterAuditEntries(this.read(), query);
+  }
+
+  verify(): AuditChainVerification {
+    return verifyAuditChain(this.readLines());
+  }
+
+  private readLines(): Array<AuditLogEntry | MalformedAuditLine> {
+    if (!this.logPath || !existsSync(this.logPath)) {
+      return [];
+    }
+    return parseAuditLog(readFileSync(this.logPath, 'utf8'));
+  }
+
+  /**
+   * Last valid entry of the chain, read from the end of the file, and
+   * whether the file ends with a complete line
+   */
+  private readHead(): { head: { seq: number; hash: string }; terminated: boolean } {
+    const genesis = { seq: 0, hash: GENESIS_HASH };
+    if (!this.logPath || !existsSync(this.logPath)) {
+      return { head: genesis, terminated: true };
+    }
+    const fd = openSync(this.logPath, 'r');
+    try {
+      const size = fstatSync(fd).size;
+      let chunkSize = 64 * 1024;
+      for (;;) {
+        const start = Math.max(0, size - chunkSize);
+        const buffer = Buffer.alloc(size - start);
+        readSync(fd, buffer, 0, buffer.length, start);
+        const text = buffer.toString('utf8');
+        const terminated = text.length === 0 || text.endsWith('\n');
+        // The first line of a partial chunk may be cut off
+        const lines = text.split('\n').slice(start === 0 ? 0 : 1);
+        for (const line of lines.reverse()) {
+          const entry = line.trim() ? parseEntry(line) : undefined;
+          if (entry) {
+            return { head: { seq: entry.seq, hash: entry.hash }, terminated };
+          }
+        }
+        if (start === 0) {
+          return { head: genesis, terminated };
+        }
+        chunkSize *= 4;
+      }
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Run a write while holding the exclusive lock file of the log
+   * Waits for the lock without blocking the event loop
+   */
+  private async withLock<T>(fn: () => T): Promise<T> {
+    const lockPath = `${this.logPath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        closeSync(openSync(lockPath, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (isStale(lockPath)) {
+          removeLock(lockPath);
+        } else if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for audit log lock ${lockPath}`);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+      }
+    }
+    try {
+      return fn();
+    } finally {
+      removeLock(lockPath);
+    }
+  }
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Released in the meantime
+    return false;
+  }
+}
+
+function removeLock(lockPath: string): void {
+  try {
+    unlinkSync(lockPath);
+  } catch {
+    // Already removed
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -0,0 +1,450 @@
+/**
+ * CHANGE EVENT CENTER
+ *
+ * Polls Property Manager activations, AppSec activation history and Edge
+ * DNS changelists and normalises them into one change-event stream per
+ * customer, so changes made outside ALECS (Control Center, Terraform,
+ * other API clients) show up next to our own.
+ *
+ * Events are appended to a local JSONL store (ALECS_EVENT_STORE, default
+ * .alecs/change-events.jsonl) and deduplicated by ID. Set
+ * ALECS_EVENT_POLL_MINUTES to poll every configured customer in the
+ * background; without it, polls only run on demand (events_recent).
+ *
+ * Activation lists are only fetched for properties and security configs
+ * whose active versions changed since the previous poll, which keeps the
+ * steady-state cost at three list requests per customer.
+ */
+
+import { EventEmitter } from 'events';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { logger } from '../utils/logger';
+
+export type ChangeEventSource = 'property' | 'appsec' | 'dns';
+
+export interface ChangeEvent {
+  id: string;
+  customer: string;
+  source: ChangeEventSource;
+  action: string; // ACTIVATE, DEACTIVATE, CHANGELIST_OPENED, CHANGELIST_CLOSED
+  resourceId: string;
+  resourceName?: string;
+  version?: number;
+  network?: 'STAGING' | 'PRODUCTION';
+  status?: string;
+  user?: string;
+  note?: string;
+  timestamp: string;
+  summary: string;
+}
+
+export interface ChangeEventQuery {
+  customer?: string;
+  source?: ChangeEventSource;
+  network?: 'STAGING' | 'PRODUCTION';
+  since?: string;
+  limit?: number;
+}
+
+export interface ChangeEventServiceOptions {
+  storePath: string;
+  pollMinutes?: number;
+  retentionDays: number;
+}
+
+export interface ChangeEventPollResult {
+  customer: string;
+  events: ChangeEvent[];
+  errors: string[];
+}
+
+/**
+ * The part of AkamaiClient the poller needs
+ */
+export interface ChangeEventClient {
+  request<T = unknown>(options: { path: string; method: string; queryParams?: Record<string, string> }): Promise<T>;
+}
+
+// Akamai response shapes, reduced to the fields that become events
+
+export interface PolledProperty {
+  propertyId: string;
+  propertyName: string;
+  contractId: string;
+  groupId: string;
+  stagingVersion?: number | null;
+  productionVersion?: number | null;
+}
+
+export interface PolledPropertyActivation {
+  activationId: string;
+  propertyId: string;
+  propertyName?: string;
+  propertyVersion: number;
+  network: 'STAGING' | 'PRODUCTION';
+  activationType?: string;
+  status: string;
+  submitDate: string;
+  updateDate?: string;
+  note?: string;
+  notifyEmails?: string[];
+}
+
+export interface PolledSecurityConfig {
+  id: number;
+  name: string;
+  stagingVersion?: number;
+  productionVersion?: number;
+}
+
+export interface PolledAppSecActivation {
+  activationId: number;
+  version: number;
+  network: 'STAGING' | 'PRODUCTION';
+  status: string;
+  action?: string;
+  notes?: string;
+  createDate: string;
+  createdBy?: string;
+}
+
+export interface PolledChangelist {
+  zone: string;
+  changeTag?: string;
+  lastModifiedDate?: string;
+  stale?: boolean;
+}
+
+/**
+ * Change event for a Property Manager activation
+ */
+export function normalizePropertyActivation(customer: string, activation: PolledPropertyActivation): ChangeEvent {
+  const action = activation.activationType || 'ACTIVATE';
+  const name = activation.propertyName || activation.propertyId;
+  return {
+    id: `property:${activation.activationId}`,
+    customer,
+    source: 'property',
+    action,
+    resourceId: activation.propertyId,
+    resourceName: name,
+    version: activation.propertyVersion,
+    network: activation.network,
+    status: activation.status,
+    ...(activation.notifyEmails?.length && { user: activation.notifyEmails.join(', ') }),
+    ...(activation.note && { note: activation.note }),
+    timestamp: new Date(activation.submitDate).toISOString(),
+    summary: `${name} v${activation.propertyVersion} ${action === 'DEACTIVATE' ? 'deactivated' : 'activated'} on ${activation.network} (${activation.status})`,
+  };
+}
+
+/**
+ * Change event for a security configuration activation
+ */
+export function normalizeAppSecActivation(
+  customer: string,
+  config: Pick<PolledSecurityConfig, 'id' | 'name'>,
+  activation: PolledAppSecActivation
+): ChangeEvent {
+  const action = activation.action || 'ACTIVATE';
+  return {
+    id: `appsec:${activation.activationId}`,
+    customer,
+    source: 'appsec',
+    action,
+    resourceId: String(config.id),
+    resourceName: config.name,
+    version: activation.version,
+    network: activation.network,
+    status: activation.status,
+    ...(activation.createdBy && { user: activation.createdBy }),
+    ...(activation.notes && { note: activation.notes }),
+    timestamp: new Date(activation.createDate).toISOString(),
+    summary: `Security config ${config.name} v${activation.version} ${action === 'DEACTIVATE' ? 'deactivated' : 'activated'} on ${activation.network} (${activation.status})`,
+  };
+}
+
+/**
+ * Change events for Edge DNS changelists opened or closed between two polls
+ * A closed changelist was either submitted or discarded; the API does not say which.
+ */
+export function diffChangelists(
+  customer: string,
+  previous: PolledChangelist[] | undefined,
+  current: PolledChangelist[],
+  now: Date = new Date()
+): ChangeEvent[] {
+  // One changelist per zone; its change tag moves on every edit
+  const event = (changelist: PolledChangelist, opened: boolean, timestamp: string): ChangeEvent => ({
+    id: `dns:${changelist.zone}:${opened ? 'opened' : 'closed'}:${changelist.changeTag || timestamp}`,
+    customer,
+    source: 'dns',
+    action: opened ? 'CHANGELIST_OPENED' : 'CHANGELIST_CLOSED',
+    resourceId: changelist.zone,
+    resourceName: changelist.zone,
+    timestamp,
+    summary: opened
+      ? `Changelist opened for zone ${changelist.zone}`
+      : `Changelist for zone ${changelist.zone} submitted or discarded`,
+  });
+
+  const currentZones = new Set(current.map(changelist => changelist.zone));
+  const previousZones = new Set((previous || []).map(changelist => changelist.zone));
+  return [
+    ...current
+      .filter(changelist => !previousZones.has(changelist.zone))
+      .map(changelist => event(changelist, true, new Date(changelist.lastModifiedDate || now).toISOString())),
+    ...(previous || [])
+      .filter(changelist => !currentZones.has(changelist.zone))
+      .map(changelist => event(changelist, false, now.toISOString())),
+  ];
+}
+
+/**
+ * Filter events, newest first
+ */
+export function filterChangeEvents(events: ChangeEvent[], query: ChangeEventQuery): ChangeEvent[] {
+  const since = query.since ? new Date(query.since).toISOString() : undefined;
+  return events
+    .filter(event => !query.customer || event.customer === query.customer)
+    .filter(event => !query.source || event.source === query.source)
+    .filter(event => !query.network || event.network === query.network)
+    .filter(event => !since || event.timestamp >= since)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, query.limit ?? events.length);
+}
+
+function changeEventOptionsFromEnv(): ChangeEventServiceOptions {
+  const pollMinutes = Number(process.env['ALECS_EVENT_POLL_MINUTES']);
+  return {
+    storePath: process.env['ALECS_EVENT_STORE'] || join(process.cwd(), '.alecs', 'change-events.jsonl'),
+    ...(pollMinutes > 0 && { pollMinutes }),
+    retentionDays: Number(process.env['ALECS_EVENT_RETENTION_DAYS']) || 30,
+  };
+}
+
+/**
+ * Emits 'change' with each new ChangeEvent
+ */
+export class ChangeEventService extends EventEmitter {
+  private events: ChangeEvent[] | undefined;
+  private readonly seen = new Set<string>();
+  // Per customer: active version fingerprints and open changelists from the previous poll
+  private readonly propertyVersions = new Map<string, Map<string, string>>();
+  private readonly configVersions = new Map<string, Map<number, string>>();
+  private readonly changelists = new Map<string, PolledChangelist[]>();
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly options: ChangeEventServiceOptions = changeEventOptionsFromEnv()) {
+    super();
+  }
+
+  /**
+   * Whether background polling is configured
+   */
+  isPollingEnabled(): boolean {
+    return !!this.options.pollMinutes;
+  }
+
+  /**
+   * Poll the given customers every ALECS_EVENT_POLL_MINUTES
+   */
+  start(customers: () => string[], clientFor: (customer: string) => ChangeEventClient): void {
+    if (!this.options.pollMinutes || this.timer) {
+      return;
+    }
+    // A background poll must never reject: nothing awaits it
+    const pollAll = async () => {
+      for (const customer of customers()) {
+        try {
+          const result = await this.poll(customer, clientFor(customer));
+          if (result.errors.length > 0) {
+            logger.warn('Change event poll incomplete', { customer, errors: result.errors });
+          }
+        } catch (error) {
+          logger.error('Change event poll failed', {
+            customer,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    };
+    this.timer = setInterval(() => void pollAll(), this.options.pollMinutes * 60_000);
+    this.timer.unref();
+    void pollAll();
+    logger.info('Change event polling started', { intervalMinutes: this.options.pollMinutes });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Poll all sources for one customer and record new events
+   * A failing source is reported in errors and does not stop the others.
+   */
+  async poll(customer: string, client: ChangeEventClient): Promise<ChangeEventPollResult> {
+    const errors: string[] = [];
+    const polled: ChangeEvent[] = [];
+    const sources: Array<[string, () => Promise<ChangeEvent[]>]> = [
+      ['Property Manager', () => this.pollProperties(customer, client)],
+      ['Application Security', () => this.pollSecurityConfigs(customer, client)],
+      ['Edge DNS', () => this.pollChangelists(customer, client)],
+    ];
+
+    for (const [name, pollSource] of sources) {
+      try {
+        polled.push(...await pollSource());
+      } catch (error) {
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return { customer, events: this.record(polled), errors };
+  }
+
+  query(query: ChangeEventQuery = {}): ChangeEvent[] {
+    return filterChangeEvents(this.load(), query);
+  }
+
+  /**
+   * Store events not seen before and announce them
+   */
+  record(events: ChangeEvent[]): ChangeEvent[] {
+    const stored = this.load();
+    const cutoff = new Date(Date.now() - this.options.retentionDays * 86_400_000).toISOString();
+    const fresh = events.filter(event => event.timestamp >= cutoff && !this.seen.has(event.id));
+
+    for (const event of fresh) {
+      this.seen.add(event.id);
+      stored.push(event);
+    }
+    if (fresh.length > 0) {
+      try {
+        mkdirSync(dirname(this.options.storePath), { recursive: true });
+        appendFileSync(this.options.storePath, fresh.map(event => `${JSON.stringify(event)}\n`).join(''));
+      } catch (error) {
+        logger.error('Failed to write change events', { error, file: this.options.storePath });
+      }
+      fresh.forEach(event => this.emit('change', event));
+    }
+    return fresh;
+  }
+
+  private async pollProperties(customer: string, client: ChangeEventClient): Promise<ChangeEvent[]> {
+    const response = await client.request<{ properties?: { items?: PolledProperty[] } }>({
+      path: '/papi/v1/properties',
+      method: 'GET',
+    });
+    const previous = this.propertyVersions.get(customer);
+    const current = new Map<string, string>();
+    const events: ChangeEvent[] = [];
+
+    for (const property of response.properties?.items || []) {
+      const fingerprint = `${property.stagingVersion ?? '-'}/${property.productionVersion ?? '-'}`;
+      current.set(property.propertyId, fingerprint);
+      if (previous?.get(property.propertyId) === fingerprint) {
+        continue;
+      }
+      const activations = await client.request<{ activations?: { items?: PolledPropertyActivation[] } }>({
+        path: `/papi/v1/properties/${property.propertyId}/activations`,
+        method: 'GET',
+        queryParams: { contractId: property.contractId, groupId: property.groupId },
+      });
+      events.push(...(activations.activations?.items || []).map(activation =>
+        normalizePropertyActivation(customer, { ...activation, propertyName: activation.propertyName || property.propertyName })
+      ));
+    }
+
+    this.propertyVersions.set(customer, current);
+    return events;
+  }
+
+  private async pollSecurityConfigs(customer: string, client: ChangeEventClient): Promise<ChangeEvent[]> {
+    const response = await client.request<{ configurations?: PolledSecurityConfig[] }>({
+      path: '/appsec/v1/configs',
+      method: 'GET',
+    });
+    const previous = this.configVersions.get(customer);
+    const current = new Map<number, string>();
+    const events: ChangeEvent[] = [];
+
+    for (const config of response.configurations || []) {
+      const fingerprint = `${config.stagingVersion ?? '-'}/${config.productionVersion ?? '-'}`;
+      current.set(config.id, fingerprint);
+      if (previous?.get(config.id) === fingerprint) {
+        continue;
+      }
+      const history = await client.request<{ activationHistory?: PolledAppSecActivation[] }>({
+        path: `/appsec/v1/configs/${config.id}/activations`,
+        method: 'GET',
+      });
+      events.push(...(history.activationHistory || []).map(activation =>
+        normalizeAppSecActivation(customer, config, activation)
+      ));
+    }
+
+    this.configVersions.set(customer, current);
+    return events;
+  }
+
+  private async pollChangelists(customer: string, client: ChangeEventClient): Promise<ChangeEvent[]> {
+    const response = await client.request<{ changeLists?: PolledChangelist[] }>({
+      path: '/config-dns/v2/changelists',
+      method: 'GET',
+    });
+    const current = response.changeLists || [];
+    const events = diffChangelists(customer, this.changelists.get(customer), current);
+    this.changelists.set(customer, current);
+    return events;
+  }
+
+  /**
+   * Events within the retention window, read from the store on first use
+   * Expired events and unreadable lines (e.g. a write cut short by a crash)
+   * are dropped from the file when it is loaded.
+   */
+  private load(): ChangeEvent[] {
+    if (this.events) {
+      return this.events;
+    }
+
+    const cutoff = new Date(Date.now() - this.options.retentionDays * 86_400_000).toISOString();
+    let lines: string[] = [];
+    if (existsSync(this.options.storePath)) {
+      lines = readFileSync(this.options.storePath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim());
+    }
+    const all = lines.flatMap(line => {
+      try {
+        return [JSON.parse(line) as ChangeEvent];
+      } catch {
+        return [];
+      }
+    });
+    if (all.length < lines.length) {
+      logger.warn('Skipped unreadable change event lines', {
+        file: this.options.storePath,
+        skipped: lines.length - all.length,
+      });
+    }
+    this.events = all.filter(event => event.timestamp >= cutoff);
+    this.events.forEach(event => this.seen.add(event.id));
+
+    if (this.events.length < lines.length) {
+      try {
+        writeFileSync(this.options.storePath, this.events.map(event => `${JSON.stringify(event)}\n`).join(''));
+      } catch (error) {
+        logger.warn('Failed to prune change event store', { error, file: this.options.storePath });
+      }
+    }
+    return this.events;
+  }
+}
+
+export const changeEventService = new ChangeEventService();
@@ -0,0 +1,448 @@
+/**
+ * CHANGE FREEZE CALENDAR
+ *
+ * Blocks production activations during holiday and launch freeze
+ * windows. Every tool call that activates (see isActivationTool) is
+ * checked against the calendar of the customer section where it is
+ * dispatched: the ALECSCore and tool registry servers and workflow steps.
+ * Blocked calls name the window that applies and when it ends.
+ *
+ * Enable by pointing ALECS_FREEZE_CALENDAR at a JSON file:
+ *
+ * @example
+ * ```json
+ * {
+ *   "customers": {
+ *     "*": {
+ *       "timezone": "America/New_York",
+ *       "windows": [
+ *         { "name": "Holiday freeze", "recurrence": "yearly", "start": "12-20T00:00", "end": "01-03T00:00" },
+ *         { "name": "Weekend", "recurrence": "weekly", "start": "fri 16:00", "end": "mon 08:00",
+ *           "exemptions": { "tools": ["dns_*"] } }
+ *       ]
+ *     },
+ *     "acme": {
+ *       "windows": [
+ *         { "name": "Product launch", "reason": "Launch day", "start": "2026-11-03T06:00", "end": "2026-11-04T18:00",
+ *           "timezone": "Europe/Berlin", "exemptions": { "properties": ["prp_12345"] } }
+ *       ]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * WINDOW FORMATS (local time in the window's timezone, default UTC):
+ * - once (default): `2026-11-03T06:00`
+ * - daily: `22:00`
+ * - weekly: `fri 16:00`
+ * - yearly: `12-20T00:00`
+ * Windows whose end is before their start wrap into the next period.
+ * Windows apply to production unless `networks` says otherwise.
+ *
+ * Tool exemptions use tool registry names (`property_activate`); they also
+ * cover the ALECSCore and workflow template names of the same activation
+ * (`activate-property`, `property.activate`).
+ *
+ * The calendar is reloaded when the file changes. An invalid calendar
+ * blocks production activations until it is fixed.
+ */
+
+import { readFileSync, unwatchFile, watchFile } from 'fs';
+import { z } from 'zod';
+import { matchesPattern, parseNetwork, type NetworkName } from '../auth/rbac-policy';
+import { logger } from '../utils/logger';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const WEEK = 7 * DAY;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Format of `start` and `end` for each recurrence
+ */
+const WINDOW_FORMATS = {
+  once: /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/,
+  daily: /^(\d{2}):(\d{2})$/,
+  weekly: /^(sun|mon|tue|wed|thu|fri|sat) (\d{2}):(\d{2})$/,
+  yearly: /^(\d{2})-(\d{2})T(\d{2}):(\d{2})$/,
+} as const;
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const TimezoneSchema = z.string().refine(isValidTimezone, { message: 'Unknown IANA timezone' });
+
+const FreezeWindowSchema = z.object({
+  name: z.string().min(1),
+  reason: z.string().optional(),
+  recurrence: z.enum(['once', 'daily', 'weekly', 'yearly']).default('once'),
+  start: z.string(),
+  end: z.string(),
+  timezone: TimezoneSchema.optional(),
+  networks: z.array(z.enum(['staging', 'production'])).optional(),
+  exemptions: z.object({
+    tools: z.array(z.string()).optional(),
+    properties: z.array(z.string()).optional(),
+  }).optional(),
+}).superRefine((window, ctx) => {
+  for (const field of ['start', 'end'] as const) {
+    if (!WINDOW_FORMATS[window.recurrence].test(window[field])) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [field],
+        message: `Invalid ${window.recurrence} time '${window[field]}'`,
+      });
+    }
+  }
+});
+
+const CustomerCalendarSchema = z.object({
+  timezone: TimezoneSchema.optional(),
+  windows: z.array(FreezeWindowSchema),
+});
+
+export const FreezeCalendarSchema = z.object({
+  customers: z.record(z.string(), CustomerCalendarSchema),
+});
+
+export type FreezeWindow = z.infer<typeof FreezeWindowSchema>;
+export type FreezeCalendar = z.infer<typeof FreezeCalendarSchema>;
+
+/**
+ * An activation to check against the calendar
+ */
+export interface FreezeCheckRequest {
+  customer: string;
+  tool: string;
+  network?: NetworkName; // Defaults to production (e.g. DNS zones)
+  propertyId?: string;
+  at?: Date;
+}
+
+/**
+ * A freeze window in effect for a request
+ */
+export interface ActiveFreeze {
+  name: string;
+  reason?: string;
+  timezone: string;
+  endsAt: Date;
+  endsAtLocal: string;
+}
+
+export interface FreezeDecision {
+  frozen: boolean;
+  freeze?: ActiveFreeze;
+  reason?: string;
+}
+
+/**
+ * Error raised when an activation is blocked by a freeze window
+ */
+export class ChangeFreezeError extends Error {
+  constructor(
+    readonly request: FreezeCheckRequest,
+    readonly decision: FreezeDecision
+  ) {
+    super(describeFreeze(request, decision));
+    this.name = 'ChangeFreezeError';
+  }
+}
+
+/**
+ * Registry names of activations that ALECSCore servers and workflow
+ * templates expose under other names
+ */
+const ACTIVATION_TOOL_ALIASES: Record<string, string> = {
+  'activate-property': 'property_activate',
+  'property.activate': 'property_activate',
+  'activate-include': 'include_activate',
+  'activate-zone-changes': 'dns_zone_activate',
+  'dns.zone.activate': 'dns_zone_activate',
+  'activate-network-list': 'security_network_list_activate',
+};
+
+/**
+ * Tool registry name of an activation tool, or the name itself
+ */
+export function canonicalToolName(tool: string): string {
+  return ACTIVATION_TOOL_ALIASES[tool] || tool;
+}
+
+/**
+ * Tools that push changes live without "activate" in their name
+ */
+const ACTIVATION_TOOLS = new Set([
+  'property_batch_version_operations',
+  'ivm_policy_upsert',
+  'ivm_policy_rollback',
+  'reactivate-zone-version',
+]);
+
+/**
+ * Whether a tool name denotes an activation, across the naming styles
+ * of the tool registry, ALECSCore and workflow templates
+ */
+export function isActivationTool(tool: string): boolean {
+  return /(^|[._-])activate($|[._-])/.test(tool) || ACTIVATION_TOOLS.has(tool);
+}
+
+/**
+ * Freeze checks for an activation call, one per activated item
+ * Bulk calls list their items in an array argument; items carrying an
+ * `action` are only checked when that action activates. Items without a
+ * network inherit the call's network, and without either count as production.
+ */
+export function freezeRequests(customer: string, tool: string, args: Record<string, unknown> = {}): FreezeCheckRequest[] {
+  const items = Object.values(args)
+    .filter(Array.isArray)
+    .flat()
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+  const targets = items.length > 0
+    ? items.filter(item => item['action'] === undefined || isActivationTool(String(item['action'])))
+    : [args];
+
+  return targets.map(target => {
+    const propertyId = target['propertyId'] ?? args['propertyId'];
+    return {
+      customer,
+      tool,
+      network: parseNetwork(target['network'] ?? args['network']),
+      ...(typeof propertyId === 'string' && { propertyId }),
+    };
+  });
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, as a UTC timestamp
+ */
+function toWallTime(instant: number, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(new Date(instant)).map(part => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts['year']!, parts['month']! - 1, parts['day']!, parts['hour']!, parts['minute']!);
+}
+
+/**
+ * Instant of a wall-clock time in a timezone
+ * The second pass corrects for offsets that change between the guess and the answer (DST)
+ */
+function fromWallTime(wall: number, timezone: string): number {
+  let instant = wall - (toWallTime(wall, timezone) - wall);
+  instant = wall - (toWallTime(instant, timezone) - instant);
+  return instant;
+}
+
+function timeOfDay(hours: string | undefined, minutes: string | undefined): number {
+  return Number(hours) * 60 * MINUTE + Number(minutes) * MINUTE;
+}
+
+/**
+ * Wall-clock occurrences of a window that could contain `now`
+ */
+function occurrences(window: FreezeWindow, now: number): Array<[number, number]> {
+  const start = WINDOW_FORMATS[window.recurrence].exec(window.start)!;
+  const end = WINDOW_FORMATS[window.recurrence].exec(window.end)!;
+  const midnight = now - (now % DAY);
+
+  switch (window.recurrence) {
+    case 'once':
+      return [[
+        Date.UTC(Number(start[1]), Number(start[2]) - 1, Number(start[3])) + timeOfDay(start[4], start[5]),
+        Date.UTC(Number(end[1]), Number(end[2]) - 1, Number(end[3])) + timeOfDay(end[4], end[5]),
+      ]];
+    case 'daily': {
+      const from = timeOfDay(start[1], start[2]);
+      const length = (timeOfDay(end[1], end[2]) - from + DAY) % DAY || DAY;
+      return [-1, 0].map(days => [midnight + days * DAY + from, midnight + days * DAY + from + length]);
+    }
+    case 'weekly': {
+      const weekStart = midnight - new Date(now).getUTCDay() * DAY;
+      const from = WEEKDAYS.indexOf(start[1]!) * DAY + timeOfDay(start[2], start[3]);
+      const to = WEEKDAYS.indexOf(end[1]!) * DAY + timeOfDay(end[2], end[3]);
+      const length = (to - from + WEEK) % WEEK || WEEK;
+      return [-1, 0].map(weeks => [weekStart + weeks * WEEK + from, weekStart + weeks * WEEK + from + length]);
+    }
+    case 'yearly': {
+      const year = new Date(now).getUTCFullYear();
+      const at = (y: number, match: RegExpExecArray) =>
+        Date.UTC(y, Number(match[1]) - 1, Number(match[2])) + timeOfDay(match[3], match[4]);
+      return [year - 1, year].map(y => {
+        const from = at(y, start);
+        const to = at(y, end);
+        return [from, to > from ? to : at(y + 1, end)];
+      });
+    }
+  }
+}
+
+function isExempt(window: FreezeWindow, request: FreezeCheckRequest): boolean {
+  const { tools = [], properties = [] } = window.exemptions || {};
+  const names = [request.tool, canonicalToolName(request.tool)];
+  return tools.some(pattern => names.some(name => matchesPattern(pattern, name))) ||
+    (!!request.propertyId && properties.some(pattern => matchesPattern(pattern, request.propertyId!)));
+}
+
+/**
+ * Evaluate an activation against a calendar
+ * When windows overlap, the one ending last is reported
+ */
+export function evaluateFreeze(calendar: FreezeCalendar, request: FreezeCheckRequest): FreezeDecision {
+  const now = (request.at || new Date()).getTime();
+  const network = request.network || 'production';
+  let latest: ActiveFreeze | undefined;
+
+  for (const [pattern, customerCalendar] of Object.entries(calendar.customers)) {
+    if (!matchesPattern(pattern, request.customer)) {
+      continue;
+    }
+    for (const window of customerCalendar.windows) {
+      if (!(window.networks || ['production']).includes(network) || isExempt(window, request)) {
+        continue;
+      }
+      const timezone = window.timezone || customerCalendar.timezone || 'UTC';
+      const wallNow = toWallTime(now, timezone);
+      const active = occurrences(window, wallNow).find(([from, to]) => from <= wallNow && wallNow < to);
+      if (!active) {
+        continue;
+      }
+      const endsAt = new Date(fromWallTime(active[1], timezone));
+      if (!latest || endsAt > latest.endsAt) {
+        latest = {
+          name: window.name,
+          ...(window.reason && { reason: window.reason }),
+          timezone,
+          endsAt,
+          endsAtLocal: new Date(active[1]).toISOString().slice(0, 16).replace('T', ' '),
+        };
+      }
+    }
+  }
+
+  return latest ? { frozen: true, freeze: latest } : { frozen: false };
+}
+
+/**
+ * Explain why an activation is blocked
+ */
+export function describeFreeze(request: FreezeCheckRequest, decision: FreezeDecision): string {
+  const target = `${request.tool} to ${request.network || 'production'} for customer '${request.customer}'`;
+  if (!decision.freeze) {
+    return `${target} is blocked: ${decision.reason}`;
+  }
+  const { name, reason, endsAt, endsAtLocal, timezone } = decision.freeze;
+  return `${target} is blocked by change freeze "${name}"${reason ? ` (${reason})` : ''}. ` +
+    `The freeze ends at ${endsAtLocal} ${timezone} (${endsAt.toISOString()}).`;
+}
+
+export class ChangeFreezeService {
+  private static instance: ChangeFreezeService | undefined;
+  private calendar: FreezeCalendar | null = null;
+  private loadError: string | undefined;
+
+  constructor(private readonly calendarPath: string | undefined) {
+    if (calendarPath) {
+      this.load();
+      watchFile(calendarPath, { interval: 1000, persistent: false }, () => this.load());
+    }
+  }
+
+  /**
+   * Get the service for ALECS_FREEZE_CALENDAR
+   */
+  static getInstance(): ChangeFreezeService {
+    if (!ChangeFreezeService.instance) {
+      ChangeFreezeService.instance = new ChangeFreezeService(process.env['ALECS_FREEZE_CALENDAR']);
+    }
+    return ChangeFreezeService.instance;
+  }
+
+  /**
+   * Whether a freeze calendar is configured
+   */
+  isEnabled(): boolean {
+    return !!this.calendarPath;
+  }
+
+  /**
+   * Check an activation against the calendar
+   * Fails closed for production when the configured calendar has never loaded
+   */
+  check(request: FreezeCheckRequest): FreezeDecision {
+    if (!this.calendarPath) {
+      return { frozen: false };
+    }
+    if (!this.calendar) {
+      return (request.network || 'production') === 'production'
+        ? { frozen: true, reason: `freeze calendar could not be loaded: ${this.loadError}` }
+        : { frozen: false };
+    }
+    return evaluateFreeze(this.calendar, request);
+  }
+
+  /**
+   * Throw a ChangeFreezeError when an activation falls in a freeze window
+   */
+  assertNotFrozen(request: FreezeCheckRequest): void {
+    const decision = this.check(request);
+    if (decision.frozen) {
+      logger.warn('Activation blocked by change freeze', { request, freeze: decision.freeze, reason: decision.reason });
+      throw new ChangeFreezeError(request, decision);
+    }
+  }
+
+  /**
+   * Check a tool call where it is dispatched
+   * Returns the error for the first frozen item; calls that do not
+   * activate are never frozen
+   */
+  checkToolCall(customer: string, tool: string, args?: Record<string, unknown>): ChangeFreezeError | undefined {
+    if (!isActivationTool(tool)) {
+      return undefined;
+    }
+    for (const request of freezeRequests(customer, tool, args)) {
+      const decision = this.check(request);
+      if (decision.frozen) {
+        logger.warn('Activation blocked by change freeze', { request, freeze: decision.freeze, reason: decision.reason });
+        return new ChangeFreezeError(request, decision);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Stop watching the calendar file
+   */
+  close(): void {
+    if (this.calendarPath) {
+      unwatchFile(this.calendarPath);
+    }
+  }
+
+  private load(): void {
+    try {
+      this.calendar = FreezeCalendarSchema.parse(JSON.parse(readFileSync(this.calendarPath!, 'utf8')));
+      this.loadError = undefined;
+      logger.info('Freeze calendar loaded', { path: this.calendarPath, customers: Object.keys(this.calendar.customers) });
+    } catch (error) {
+      // Keep enforcing the last good calendar
+      this.loadError = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to load freeze calendar', { path: this.calendarPath, error: this.loadError });
+    }
+  }
+}
@@ -72,6 +72,15 @@ export interface PropertySearchResult {
   matchReason?: string;
 }
 
+/**
+ * Payload of the 'invalidate' event emitted when Akamai-side data changes
+ */
+export interface CacheInvalidationEvent {
+  type: 'property' | 'dns-zone';
+  id: string;
+  customer: string;
+}
+
 /**
  * Unified Cache Service combining SmartCache and Akamai-specific functionality
  */
@@ -408,6 +417,21 @@ export class UnifiedCacheService extends SmartCache implements ICache {
 
     // Also invalidate search results
     await this.scanAndDelete(`${customer}:search:*`);
+
+    this.emit('invalidate', { type: 'property', id: propertyId, customer } satisfies CacheInvalidationEvent);
+  }
+
+  /**
+   * Invalidate DNS zone cache (after record changes or zone activation)
+   */
+  async invalidateZone(zone: string, customer = 'default'): Promise<void> {
+    await this.ensureInitialized();
+    logger.debug(`[UnifiedCache] Invalidating cache for zone ${zone}`);
+
+    await this.del([`${customer}:dns:zones`, `${customer}:dns:zone:${zone}`]);
+    await this.scanAndDelete(`${customer}:dns:zone:${zone}:*`);
+
+    this.emit('invalidate', { type: 'dns-zone', id: zone, customer } satisfies CacheInvalidationEvent);
   }
 
   /**
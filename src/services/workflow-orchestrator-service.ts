@@ -33,8 +33,9 @@ import { AkamaiClient } from '../akamai-client';
 import { createLogger } from '../utils/pino-logger';
 import { UnifiedErrorHandler } from './unified-error-handler';
 import { IdTranslationService } from './id-translation-service';
-import { ConfigurationHintsService } from './configuration-hints-service';
+import { ConfigurationHintsService } from './user-hint-service';
 import { ErrorRecoveryService } from './error-recovery-service';
+import { createWorkflowStoreFromEnv, type WorkflowStateStore } from '../orchestration/workflow-store';
 
 const logger = createLogger('workflow-orchestrator');
 
@@ -144,8 +145,62 @@ export class WorkflowOrchestratorService {
   private hintsService = new ConfigurationHintsService();
   private recoveryService = new ErrorRecoveryService();
 
-  constructor() {
+  constructor(
+    private store: WorkflowStateStore<WorkflowExecution> | undefined =
+      createWorkflowStoreFromEnv<WorkflowExecution>('orchestrator')
+  ) {
     this.registerBuiltInWorkflows();
+    this.restoreExecutions();
+  }
+
+  /**
+   * Load persisted executions; those cut off by a restart are marked failed
+   * with their completed steps intact, so workflow_rollback can report them
+   */
+  private restoreExecutions(): void {
+    if (!this.store) {
+      return;
+    }
+
+    const inProgress = [WorkflowStatus.PENDING, WorkflowStatus.RUNNING, WorkflowStatus.ROLLING_BACK];
+    for (const record of this.store.list()) {
+      const execution: WorkflowExecution = {
+        ...record,
+        startTime: new Date(record.startTime),
+        endTime: record.endTime ? new Date(record.endTime) : undefined,
+        steps: record.steps.map(step => ({
+          ...step,
+          startTime: step.startTime ? new Date(step.startTime) : undefined,
+          endTime: step.endTime ? new Date(step.endTime) : undefined
+        }))
+      };
+
+      if (inProgress.includes(execution.status)) {
+        execution.error = `Interrupted by server restart while ${execution.status}`;
+        execution.status = WorkflowStatus.FAILED;
+        for (const step of execution.steps) {
+          if (step.status === StepStatus.RUNNING) {
+            step.status = StepStatus.FAILED;
+            step.error = 'Interrupted by server restart';
+          }
+        }
+        this.checkpoint(execution);
+        logger.warn({ workflowId: execution.id }, 'Workflow execution was interrupted by a restart');
+      }
+
+      this.executions.set(execution.id, execution);
+    }
+  }
+
+  /**
+   * Persist the current state of an execution
+   */
+  private checkpoint(execution: WorkflowExecution): void {
+    try {
+      this.store?.save(execution);
+    } catch (error) {
+      logger.error({ workflowId: execution.id, error }, 'Failed to checkpoint workflow execution');
+    }
   }
 
   /**
@@ -909,10 +964,12 @@ export class WorkflowOrchestratorService {
     // Execute workflow
     try {
       execution.status = WorkflowStatus.RUNNING;
+      this.checkpoint(execution);
       await this.executeSteps(client, workflow, execution);
       
       execution.status = WorkflowStatus.COMPLETED;
       execution.endTime = new Date();
+      this.checkpoint(execution);
       
       logger.info({ 
         workflowId: execution.id,
@@ -923,6 +980,7 @@ export class WorkflowOrchestratorService {
       execution.status = WorkflowStatus.FAILED;
       execution.error = error instanceof Error ? error.message : String(error);
       execution.endTime = new Date();
+      this.checkpoint(execution);
       
       logger.error({ 
         workflowId: execution.id,
@@ -1015,6 +1073,7 @@ export class WorkflowOrchestratorService {
     stepExec.startTime = new Date();
     stepExec.status = StepStatus.RUNNING;
     execution.currentStep = step.id;
+    this.checkpoint(execution);
 
     logger.info({ 
       workflowId: execution.id,
@@ -1036,6 +1095,7 @@ export class WorkflowOrchestratorService {
         stepExec.status = StepStatus.COMPLETED;
         stepExec.result = result;
         stepExec.endTime = new Date();
+        this.checkpoint(execution);
         
         logger.info({ 
           workflowId: execution.id,
@@ -1067,6 +1127,7 @@ export class WorkflowOrchestratorService {
     stepExec.status = StepStatus.FAILED;
     stepExec.error = lastError?.message;
     stepExec.endTime = new Date();
+    this.checkpoint(execution);
     
     if (!step.optional) {
       throw lastError;
@@ -1083,6 +1144,7 @@ export class WorkflowOrchestratorService {
   ): Promise<void> {
     logger.info({ workflowId: execution.id }, 'Starting workflow rollback');
     execution.status = WorkflowStatus.ROLLING_BACK;
+    this.checkpoint(execution);
 
     const context: WorkflowContext = {
       client,
@@ -1115,6 +1177,7 @@ export class WorkflowOrchestratorService {
         
         const stepExec = execution.steps.find(s => s.stepId === step.id)!;
         stepExec.status = StepStatus.ROLLED_BACK;
+        this.checkpoint(execution);
         
       } catch (error) {
         logger.error({ 
@@ -1126,6 +1189,7 @@ export class WorkflowOrchestratorService {
     }
 
     execution.status = WorkflowStatus.ROLLED_BACK;
+    this.checkpoint(execution);
     logger.info({ workflowId: execution.id }, 'Workflow rollback completed');
   }
 
@@ -1181,6 +1245,7 @@ export class WorkflowOrchestratorService {
     execution.status = WorkflowStatus.PARTIALLY_COMPLETED;
     execution.endTime = new Date();
     execution.error = 'Workflow cancelled by user';
+    this.checkpoint(execution);
 
     logger.info({ workflowId: executionId }, 'Workflow cancelled');
   }
@@ -0,0 +1,121 @@
+/**
+ * Approval Domain Tools Export
+ *
+ * This module exports the tools for the production change approval gate
+ * (two-person rule). Approvers are identified by the bearer token of the
+ * calling session, so a request can never be decided by its requester.
+ */
+
+import { z } from 'zod';
+import { type MCPToolResponse } from '../../types/mcp-protocol';
+import { getCaller } from '../../auth/caller-context';
+import {
+  ApprovalError,
+  approvalService,
+  type ApprovalAuditEntry,
+  type ApprovalRequest,
+} from '../../services/approval-service';
+
+function formatApproval(approval: ApprovalRequest): string {
+  const lines = [
+    `${approval.id} [${approval.status}] ${approval.tool} for customer '${approval.customer}'`,
+    `  Requested by ${approval.requestedBy} at ${approval.createdAt}, expires ${approval.expiresAt}`,
+    `  Arguments: ${JSON.stringify(approval.args)}`,
+  ];
+  if (approval.plan) {
+    lines.push(`  Planned requests: ${approval.plan.changes.map(c => `${c.method} ${c.path}`).join(', ') || 'none'}`);
+  }
+  if (approval.decidedBy) {
+    lines.push(`  Decided by ${approval.decidedBy} at ${approval.decidedAt}${approval.comment ? `: ${approval.comment}` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+function errorResponse(error: unknown): MCPToolResponse {
+  return {
+    content: [{ type: 'text', text: `❌ ${error instanceof Error ? error.message : String(error)}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Approval tool definitions
+ */
+export const approvalTools = {
+  'approval_list': {
+    description: 'List production change approval requests with their planned changes',
+    inputSchema: z.object({
+      status: z.enum(['pending', 'approved', 'rejected', 'expired', 'executed', 'failed']).optional()
+        .describe('Filter by status (default: all)'),
+      customer: z.string().optional().describe('Filter by customer section'),
+      includeAudit: z.boolean().optional().describe('Include the audit trail of each request'),
+      format: z.enum(['json', 'text']).optional()
+    }),
+    handler: async (_client: any, args: any): Promise<MCPToolResponse> => {
+      const approvals = approvalService.list({ status: args.status, customer: args.customer });
+      const withAudit: Array<ApprovalRequest & { audit?: ApprovalAuditEntry[] }> = approvals.map(approval => ({
+        ...approval,
+        ...(args.includeAudit && { audit: approvalService.getAuditTrail(approval.id) }),
+      }));
+
+      if (args.format === 'json') {
+        return { content: [{ type: 'text', text: JSON.stringify(withAudit, null, 2) }] };
+      }
+
+      const text = approvals.length === 0
+        ? 'No approval requests found.'
+        : [`Approval requests (${approvals.length}):`, '', ...withAudit.map(approval => [
+            formatApproval(approval),
+            ...(approval.audit || []).map(entry => `    ${entry.timestamp} ${entry.event} by ${entry.principal}`),
+          ].join('\n'))].join('\n\n');
+      return { content: [{ type: 'text', text }] };
+    }
+  },
+
+  'approval_decide': {
+    description: 'Approve or reject a pending production change (must be a different token holder than the requester)',
+    inputSchema: z.object({
+      approvalId: z.string().describe('Approval request ID (apr_...)'),
+      decision: z.enum(['approve', 'reject']),
+      comment: z.string().optional().describe('Reason for the decision, recorded in the audit trail')
+    }),
+    handler: async (_client: any, args: any): Promise<MCPToolResponse> => {
+      try {
+        const approval = approvalService.decide({
+          approvalId: args.approvalId,
+          decision: args.decision,
+          principal: getCaller().principal,
+          comment: args.comment,
+        });
+
+        const next = approval.status === 'approved'
+          ? `\n\nThe requester can now call ${approval.tool} again with approvalId: "${approval.id}" before ${approval.expiresAt}.`
+          : '';
+        return {
+          content: [{ type: 'text', text: `✅ ${approval.id} ${approval.status}.\n\n${formatApproval(approval)}${next}` }],
+        };
+      } catch (error) {
+        if (error instanceof ApprovalError) {
+          return errorResponse(error);
+        }
+        throw error;
+      }
+    }
+  },
+};
+
+/**
+ * Approval domain metadata
+ */
+export const approvalDomainMetadata = {
+  name: 'approval',
+  description: 'Production change approvals - two-person rule for activations',
+  toolCount: Object.keys(approvalTools).length,
+  features: [
+    'Pending approvals with planned change diffs',
+    'Two-person rule enforced by token identity',
+    'Request expiry',
+    'Break-glass with mandatory justification',
+    'Audit trail of every decision'
+  ]
+};
@@ -0,0 +1,155 @@
+/**
+ * AppSec Configuration Versioning API Implementation
+ *
+ * Versions of Application Security configurations from Akamai's
+ * Application Security API: listing and cloning versions, and exporting a
+ * complete version (policies, WAF actions, rate controls, custom rules and
+ * match targets) so that two versions can be compared before activation.
+ *
+ * API Documentation: https://techdocs.akamai.com/application-security/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for Application Security API
+ */
+export const APPSEC_API_BASE = '/appsec/v1';
+
+/**
+ * AppSec Configuration Version API Endpoints
+ */
+export const AppSecConfigEndpoints = {
+  configs: () => `${APPSEC_API_BASE}/configs`,
+  versions: (configId: number) => `${APPSEC_API_BASE}/configs/${configId}/versions`,
+  version: (configId: number, version: number) => `${APPSEC_API_BASE}/configs/${configId}/versions/${version}`,
+  exportVersion: (configId: number, version: number) =>
+    `${APPSEC_API_BASE}/export/configs/${configId}/versions/${version}`
+};
+
+const ConfigIdSchema = z.number().int().positive().describe('Security configuration ID');
+const VersionSchema = z.number().int().positive();
+
+/**
+ * AppSec Configuration Tool Schemas
+ */
+export const AppSecConfigToolSchemas = {
+  listVersions: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    limit: z.number().int().min(1).max(100).optional().default(20).describe('Most recent versions to show')
+  }),
+
+  getVersion: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    version: VersionSchema.describe('Configuration version')
+  }),
+
+  cloneVersion: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    fromVersion: VersionSchema.optional()
+      .describe('Version to clone (defaults to the production version, then the latest version)'),
+    ruleUpdate: z.boolean().optional().default(false)
+      .describe('Upgrade the KRS rule set of the new version to the latest available')
+  }),
+
+  exportConfig: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    version: VersionSchema.optional().describe('Version to export (defaults to the latest version)'),
+    format: z.enum(['json', 'summary']).optional().default('json')
+      .describe('Full export JSON or a per-policy summary')
+  }),
+
+  diffVersions: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    fromVersion: VersionSchema.optional()
+      .describe('Baseline version (defaults to the production version, then the staging version)'),
+    toVersion: VersionSchema.optional().describe('Changed version (defaults to the latest version)'),
+    format: z.enum(['text', 'json']).optional().default('text')
+  })
+};
+
+/**
+ * Response types for configuration version operations
+ */
+export interface AppSecVersionActivation {
+  status?: string;
+  time?: string;
+  action?: string;
+}
+
+export interface AppSecConfigVersion {
+  configId: number;
+  configName?: string;
+  version: number;
+  versionNotes?: string;
+  createDate?: string;
+  createdBy?: string;
+  basedOn?: number;
+  staging?: AppSecVersionActivation;
+  production?: AppSecVersionActivation;
+}
+
+export interface AppSecConfigVersionList {
+  configId: number;
+  configName?: string;
+  lastCreatedVersion?: number;
+  stagingActiveVersion?: number;
+  productionActiveVersion?: number;
+  versionList: AppSecConfigVersion[];
+}
+
+export interface AppSecExportPolicy {
+  id: string;
+  name?: string;
+  securityControls?: Record<string, unknown>;
+  webApplicationFirewall?: {
+    attackGroupActions?: Array<{ group: string; action: string; exception?: unknown; advancedExceptions?: unknown }>;
+    ruleActions?: Array<{ id: number; action: string; conditionException?: unknown }>;
+    threatIntel?: string;
+    evaluation?: Record<string, unknown>;
+  };
+  ratePolicyActions?: Array<{ id: number; ipv4Action?: string; ipv6Action?: string }>;
+  customRuleActions?: Array<{ id: number; action: string }>;
+  [setting: string]: unknown;
+}
+
+export interface AppSecExportRatePolicy {
+  id: number;
+  name?: string;
+  [field: string]: unknown;
+}
+
+export interface AppSecExportCustomRule {
+  id: number;
+  name?: string;
+  [field: string]: unknown;
+}
+
+export interface AppSecExportMatchTarget {
+  targetId: number;
+  type?: string;
+  sequence?: number;
+  securityPolicy?: { policyId: string };
+  hostnames?: string[];
+  filePaths?: string[];
+  [field: string]: unknown;
+}
+
+export interface AppSecConfigExport {
+  configId: number;
+  configName?: string;
+  version: number;
+  basedOn?: number;
+  createDate?: string;
+  createdBy?: string;
+  selectedHosts?: string[];
+  securityPolicies?: AppSecExportPolicy[];
+  ratePolicies?: AppSecExportRatePolicy[];
+  customRules?: AppSecExportCustomRule[];
+  matchTargets?: {
+    websiteTargets?: AppSecExportMatchTarget[];
+    apiTargets?: AppSecExportMatchTarget[];
+  };
+  [section: string]: unknown;
+}
@@ -0,0 +1,276 @@
+/**
+ * AppSec Configuration Diff
+ *
+ * Semantic comparison of two exported security configuration versions.
+ * Changes are grouped the way a WAF change is reviewed: per security
+ * policy (attack group, rule, rate control and custom rule actions plus
+ * other policy settings), then rate controls, custom rules and match
+ * targets, instead of a raw JSON diff of the export.
+ */
+
+import type {
+  AppSecConfigExport,
+  AppSecExportMatchTarget,
+  AppSecExportPolicy
+} from './appsec-config-api-implementation';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  path: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ActionChange {
+  id: string;
+  from?: string;
+  to?: string;
+  // Differences besides the action, e.g. a rule's condition/exception block
+  details: FieldChange[];
+}
+
+export interface PolicyDiff {
+  policyId: string;
+  policyName?: string;
+  status: ChangeStatus;
+  attackGroupActions: ActionChange[];
+  ruleActions: ActionChange[];
+  ratePolicyActions: ActionChange[];
+  customRuleActions: ActionChange[];
+  settings: FieldChange[];
+}
+
+export interface EntityChange {
+  id: string;
+  name?: string;
+  policyId?: string;
+  status: ChangeStatus;
+  changes: FieldChange[];
+}
+
+export interface AppSecConfigDiff {
+  configId: number;
+  configName?: string;
+  fromVersion: number;
+  toVersion: number;
+  selectedHosts: { added: string[]; removed: string[] };
+  policies: PolicyDiff[];
+  ratePolicies: EntityChange[];
+  customRules: EntityChange[];
+  matchTargets: EntityChange[];
+  otherSections: string[];
+}
+
+/**
+ * Bookkeeping fields that differ between versions without a behavior change
+ */
+const IGNORED_FIELDS = new Set(['createDate', 'createdBy', 'updateDate', 'updatedBy', 'used']);
+
+/**
+ * Export sections compared individually or describing the version itself
+ */
+const VERSION_FIELDS = new Set([
+  'configId', 'configName', 'version', 'basedOn', 'createDate', 'createdBy', 'versionNotes',
+  'staging', 'production', 'selectedHosts', 'securityPolicies', 'ratePolicies', 'customRules', 'matchTargets'
+]);
+
+const POLICY_ACTION_FIELDS = new Set(['id', 'ratePolicyActions', 'customRuleActions']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Leaf-level differences between two values
+ * Objects are compared key by key; arrays and scalars are compared whole.
+ */
+export function diffFields(from: unknown, to: unknown, path = ''): FieldChange[] {
+  if (!isPlainObject(from) || !isPlainObject(to)) {
+    if (same(from, to)) {
+      return [];
+    }
+    return [{ path, ...(from !== undefined && { from }), ...(to !== undefined && { to }) }];
+  }
+
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(key => !IGNORED_FIELDS.has(key))
+    .sort();
+  return keys.flatMap(key => diffFields(from[key], to[key], path ? `${path}.${key}` : key));
+}
+
+function diffActions<T extends { action?: string }>(
+  from: T[] | undefined,
+  to: T[] | undefined,
+  keyOf: (entry: T) => string
+): ActionChange[] {
+  const before = new Map((from || []).map(entry => [keyOf(entry), entry]));
+  const after = new Map((to || []).map(entry => [keyOf(entry), entry]));
+  const ids = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  return ids.flatMap(id => {
+    const { action: fromAction, ...fromRest } = (before.get(id) || {}) as T;
+    const { action: toAction, ...toRest } = (after.get(id) || {}) as T;
+    const details = before.has(id) && after.has(id) ? diffFields(fromRest, toRest) : [];
+    if (fromAction === toAction && details.length === 0) {
+      return [];
+    }
+    return [{
+      id,
+      ...(fromAction !== undefined && { from: fromAction }),
+      ...(toAction !== undefined && { to: toAction }),
+      details
+    }];
+  });
+}
+
+/**
+ * Rate control actions as one value, split per IP version only when they differ
+ */
+function ratePolicyActionsOf(policy: AppSecExportPolicy | undefined): Array<{ id: number; action?: string }> {
+  return (policy?.ratePolicyActions || []).map(({ id, ipv4Action, ipv6Action }) => ({
+    id,
+    action: ipv4Action === ipv6Action ? ipv4Action : `ipv4 ${ipv4Action ?? 'none'}, ipv6 ${ipv6Action ?? 'none'}`
+  }));
+}
+
+/**
+ * Policy settings other than the per-rule and per-control actions
+ */
+function policySettings(policy: AppSecExportPolicy | undefined): Record<string, unknown> {
+  if (!policy) {
+    return {};
+  }
+  const settings: Record<string, unknown> = {};
+  Object.entries(policy).forEach(([key, value]) => {
+    if (!POLICY_ACTION_FIELDS.has(key)) {
+      settings[key] = value;
+    }
+  });
+  if (policy.webApplicationFirewall) {
+    const { attackGroupActions: _groups, ruleActions: _rules, ...waf } = policy.webApplicationFirewall;
+    settings['webApplicationFirewall'] = waf;
+  }
+  return settings;
+}
+
+function diffPolicy(id: string, from: AppSecExportPolicy | undefined, to: AppSecExportPolicy | undefined): PolicyDiff | undefined {
+  const diff: PolicyDiff = {
+    policyId: id,
+    ...((to?.name ?? from?.name) !== undefined && { policyName: to?.name ?? from?.name }),
+    status: !from ? 'added' : !to ? 'removed' : 'changed',
+    attackGroupActions: diffActions(
+      from?.webApplicationFirewall?.attackGroupActions,
+      to?.webApplicationFirewall?.attackGroupActions,
+      entry => entry.group
+    ),
+    ruleActions: diffActions(
+      from?.webApplicationFirewall?.ruleActions,
+      to?.webApplicationFirewall?.ruleActions,
+      entry => String(entry.id)
+    ),
+    ratePolicyActions: diffActions(ratePolicyActionsOf(from), ratePolicyActionsOf(to), entry => String(entry.id)),
+    customRuleActions: diffActions(from?.customRuleActions, to?.customRuleActions, entry => String(entry.id)),
+    settings: diffFields(policySettings(from), policySettings(to))
+  };
+
+  const changed = diff.attackGroupActions.length + diff.ruleActions.length + diff.ratePolicyActions.length +
+    diff.customRuleActions.length + diff.settings.length;
+  return diff.status !== 'changed' || changed > 0 ? diff : undefined;
+}
+
+function diffEntities<T>(
+  from: T[] | undefined,
+  to: T[] | undefined,
+  keyOf: (entry: T) => string,
+  describe: (entry: T) => Pick<EntityChange, 'name' | 'policyId'>
+): EntityChange[] {
+  const before = new Map((from || []).map(entry => [keyOf(entry), entry]));
+  const after = new Map((to || []).map(entry => [keyOf(entry), entry]));
+  const ids = [...new Set([...before.keys(), ...after.keys()])]
+    .sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+
+  return ids.flatMap(id => {
+    const fromEntry = before.get(id);
+    const toEntry = after.get(id);
+    const entry = (toEntry ?? fromEntry) as T;
+    const changes = fromEntry && toEntry ? diffFields(fromEntry, toEntry) : [];
+    if (fromEntry && toEntry && changes.length === 0) {
+      return [];
+    }
+    return [{
+      id,
+      ...describe(entry),
+      status: !fromEntry ? 'added' as const : !toEntry ? 'removed' as const : 'changed' as const,
+      changes
+    }];
+  });
+}
+
+function describeMatchTarget(target: AppSecExportMatchTarget): Pick<EntityChange, 'name' | 'policyId'> {
+  const scope = target.hostnames?.length ? target.hostnames.join(', ') : 'all hostnames';
+  return {
+    name: `${target.type || 'website'} target: ${scope}${target.filePaths?.length ? ` ${target.filePaths.join(', ')}` : ''}`,
+    ...(target.securityPolicy?.policyId && { policyId: target.securityPolicy.policyId })
+  };
+}
+
+/**
+ * Compare two exports of the same security configuration
+ */
+export function diffAppSecConfigs(from: AppSecConfigExport, to: AppSecConfigExport): AppSecConfigDiff {
+  const fromHosts = new Set(from.selectedHosts || []);
+  const toHosts = new Set(to.selectedHosts || []);
+
+  const fromPolicies = new Map((from.securityPolicies || []).map(policy => [policy.id, policy]));
+  const toPolicies = new Map((to.securityPolicies || []).map(policy => [policy.id, policy]));
+  const policyIds = [...new Set([...fromPolicies.keys(), ...toPolicies.keys()])].sort();
+
+  const targets = (exported: AppSecConfigExport): AppSecExportMatchTarget[] => [
+    ...(exported.matchTargets?.websiteTargets || []),
+    ...(exported.matchTargets?.apiTargets || [])
+  ];
+
+  const sections = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(key => !VERSION_FIELDS.has(key) && !same(from[key], to[key]))
+    .sort();
+
+  return {
+    configId: to.configId,
+    ...((to.configName ?? from.configName) !== undefined && { configName: to.configName ?? from.configName }),
+    fromVersion: from.version,
+    toVersion: to.version,
+    selectedHosts: {
+      added: [...toHosts].filter(host => !fromHosts.has(host)).sort(),
+      removed: [...fromHosts].filter(host => !toHosts.has(host)).sort()
+    },
+    policies: policyIds
+      .map(id => diffPolicy(id, fromPolicies.get(id), toPolicies.get(id)))
+      .filter((policy): policy is PolicyDiff => !!policy),
+    ratePolicies: diffEntities(from.ratePolicies, to.ratePolicies, rule => String(rule.id), rule => ({
+      ...(rule.name !== undefined && { name: rule.name })
+    })),
+    customRules: diffEntities(from.customRules, to.customRules, rule => String(rule.id), rule => ({
+      ...(rule.name !== undefined && { name: rule.name })
+    })),
+    matchTargets: diffEntities(targets(from), targets(to), target => String(target.targetId), describeMatchTarget),
+    otherSections: sections
+  };
+}
+
+/**
+ * Total number of reported changes, zero when the versions behave the same
+ */
+export function countConfigChanges(diff: AppSecConfigDiff): number {
+  const policyChanges = diff.policies.reduce((sum, policy) =>
+    sum + (policy.status === 'changed'
+      ? policy.attackGroupActions.length + policy.ruleActions.length + policy.ratePolicyActions.length +
+        policy.customRuleActions.length + policy.settings.length
+      : 1), 0);
+  return diff.selectedHosts.added.length + diff.selectedHosts.removed.length + policyChanges +
+    diff.ratePolicies.length + diff.customRules.length + diff.matchTargets.length + diff.otherSections.length;
+}
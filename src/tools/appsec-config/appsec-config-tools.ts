@@ -0,0 +1,306 @@
+/**
+ * AppSec Configuration Tools Implementation
+ *
+ * Tools for security configuration versions: listing, cloning, full
+ * exports and a semantic diff to review changes before activation
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import {
+  AppSecConfigEndpoints,
+  AppSecConfigToolSchemas,
+  type AppSecConfigExport,
+  type AppSecConfigVersion,
+  type AppSecConfigVersionList
+} from './appsec-config-api-implementation';
+import {
+  type ActionChange,
+  type AppSecConfigDiff,
+  type EntityChange,
+  type FieldChange,
+  countConfigChanges,
+  diffAppSecConfigs
+} from './appsec-config-diff';
+
+async function fetchVersionList(client: AkamaiClient, configId: number, pageSize = 1): Promise<AppSecConfigVersionList> {
+  return client.request<AppSecConfigVersionList>({
+    path: AppSecConfigEndpoints.versions(configId),
+    method: 'GET',
+    queryParams: { page: '1', pageSize: String(pageSize), detail: 'true' }
+  });
+}
+
+/**
+ * Latest version of a security configuration, the default target of edits
+ */
+export async function latestConfigVersion(client: AkamaiClient, configId: number): Promise<number> {
+  const version = (await fetchVersionList(client, configId)).lastCreatedVersion;
+  if (!version) {
+    throw new Error(`Security configuration ${configId} has no versions`);
+  }
+  return version;
+}
+
+async function fetchExport(client: AkamaiClient, configId: number, version: number): Promise<AppSecConfigExport> {
+  return client.request<AppSecConfigExport>({
+    path: AppSecConfigEndpoints.exportVersion(configId, version),
+    method: 'GET'
+  });
+}
+
+function formatActivation(version: AppSecConfigVersion): string {
+  const networks = [
+    version.staging?.status === 'Active' && 'STAGING',
+    version.production?.status === 'Active' && 'PRODUCTION'
+  ].filter(Boolean);
+  return networks.length > 0 ? ` | 🟢 active on ${networks.join(', ')}` : '';
+}
+
+function formatVersion(version: AppSecConfigVersion): string {
+  return `• v${version.version}${version.basedOn ? ` (from v${version.basedOn})` : ''}` +
+    `${version.createdBy ? ` | ${version.createdBy}` : ''}${version.createDate ? ` | ${version.createDate}` : ''}` +
+    `${formatActivation(version)}${version.versionNotes ? `\n  ${version.versionNotes}` : ''}\n`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return '(unset)';
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+function formatFieldChanges(changes: FieldChange[], indent: string): string {
+  return changes
+    .map(change => `${indent}${change.path || '(value)'}: ${formatValue(change.from)} → ${formatValue(change.to)}\n`)
+    .join('');
+}
+
+function formatActionChanges(title: string, changes: ActionChange[]): string {
+  if (changes.length === 0) {
+    return '';
+  }
+  let text = `  ${title}:\n`;
+  changes.forEach(change => {
+    text += `  • ${change.id}: ${change.from ?? '(none)'} → ${change.to ?? '(none)'}\n`;
+    text += formatFieldChanges(change.details, '      ');
+  });
+  return text;
+}
+
+function formatEntityChanges(title: string, changes: EntityChange[]): string {
+  if (changes.length === 0) {
+    return '';
+  }
+  let text = `\n**${title}** (${changes.length}):\n`;
+  const icons = { added: '➕', removed: '➖', changed: '✏️' };
+  changes.forEach(change => {
+    text += `${icons[change.status]} ${change.id}${change.name ? ` ${change.name}` : ''}` +
+      `${change.policyId ? ` → policy ${change.policyId}` : ''}\n`;
+    text += formatFieldChanges(change.changes, '    ');
+  });
+  return text;
+}
+
+function formatConfigDiff(diff: AppSecConfigDiff): string {
+  const total = countConfigChanges(diff);
+  let text = `🔀 **${diff.configName || 'Security configuration'}** (${diff.configId}): ` +
+    `v${diff.fromVersion} → v${diff.toVersion}, ${total} changes\n`;
+  if (total === 0) {
+    return `${text}\nThe versions are equivalent.`;
+  }
+
+  if (diff.selectedHosts.added.length + diff.selectedHosts.removed.length > 0) {
+    text += '\n**Protected hostnames**:\n';
+    diff.selectedHosts.added.forEach(host => {
+      text += `➕ ${host}\n`;
+    });
+    diff.selectedHosts.removed.forEach(host => {
+      text += `➖ ${host}\n`;
+    });
+  }
+
+  if (diff.policies.length > 0) {
+    text += `\n**Security policies** (${diff.policies.length}):\n`;
+    diff.policies.forEach(policy => {
+      const label = `${policy.policyId}${policy.policyName ? ` ${policy.policyName}` : ''}`;
+      if (policy.status !== 'changed') {
+        text += `${policy.status === 'added' ? '➕' : '➖'} ${label} ${policy.status}\n`;
+        return;
+      }
+      text += `✏️ ${label}\n`;
+      text += formatActionChanges('Attack group actions', policy.attackGroupActions);
+      text += formatActionChanges('Rule actions', policy.ruleActions);
+      text += formatActionChanges('Rate control actions', policy.ratePolicyActions);
+      text += formatActionChanges('Custom rule actions', policy.customRuleActions);
+      if (policy.settings.length > 0) {
+        text += '  Settings:\n';
+        text += formatFieldChanges(policy.settings, '  • ');
+      }
+    });
+  }
+
+  text += formatEntityChanges('Rate controls', diff.ratePolicies);
+  text += formatEntityChanges('Custom rules', diff.customRules);
+  text += formatEntityChanges('Match targets', diff.matchTargets);
+  if (diff.otherSections.length > 0) {
+    text += `\n**Other changed sections**: ${diff.otherSections.join(', ')}\n`;
+  }
+  return text;
+}
+
+function formatExportSummary(exported: AppSecConfigExport): string {
+  let text = `📦 **${exported.configName || 'Security configuration'}** (${exported.configId}) v${exported.version}\n\n`;
+  text += `Protected hostnames: ${(exported.selectedHosts || []).length}\n`;
+  text += `Rate controls: ${(exported.ratePolicies || []).length} | Custom rules: ${(exported.customRules || []).length} | ` +
+    `Match targets: ${(exported.matchTargets?.websiteTargets || []).length + (exported.matchTargets?.apiTargets || []).length}\n`;
+
+  text += `\n**Security policies** (${(exported.securityPolicies || []).length}):\n`;
+  (exported.securityPolicies || []).forEach(policy => {
+    const actions = new Map<string, number>();
+    (policy.webApplicationFirewall?.attackGroupActions || []).forEach(group => {
+      actions.set(group.action, (actions.get(group.action) || 0) + 1);
+    });
+    const groups = [...actions].map(([action, count]) => `${count} ${action}`).join(', ') || 'none';
+    text += `• ${policy.id} ${policy.name || ''} | attack groups: ${groups} | ` +
+      `rule overrides: ${(policy.webApplicationFirewall?.ruleActions || []).length} | ` +
+      `rate controls: ${(policy.ratePolicyActions || []).length} | custom rules: ${(policy.customRuleActions || []).length}\n`;
+  });
+  return text;
+}
+
+/**
+ * List the versions of a security configuration
+ */
+export async function listVersions(args: z.infer<typeof AppSecConfigToolSchemas.listVersions>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_config_version_list',
+    args,
+    async (client) => fetchVersionList(client, args.configId, args.limit),
+    {
+      format: 'text',
+      formatter: (result) => {
+        let text = `🗂️ **${result.configName || 'Security configuration'}** (${result.configId})\n` +
+          `Latest v${result.lastCreatedVersion ?? '?'} | staging v${result.stagingActiveVersion ?? '-'} | ` +
+          `production v${result.productionActiveVersion ?? '-'}\n\n`;
+        (result.versionList || []).forEach(version => {
+          text += formatVersion(version);
+        });
+        return text;
+      },
+      cacheKey: (p) => `appsec:versions:${p.configId}:${p.limit}`,
+      cacheTtl: 60
+    }
+  );
+}
+
+/**
+ * Get one version of a security configuration
+ */
+export async function getVersion(args: z.infer<typeof AppSecConfigToolSchemas.getVersion>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_config_version_get',
+    args,
+    async (client) => client.request<AppSecConfigVersion>({
+      path: AppSecConfigEndpoints.version(args.configId, args.version),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (version) => `🗂️ **${version.configName || 'Security configuration'}** (${version.configId})\n\n` +
+        formatVersion(version) +
+        `Staging: ${version.staging?.status || 'Inactive'} | Production: ${version.production?.status || 'Inactive'}\n`
+    }
+  );
+}
+
+/**
+ * Create a new editable version from an existing one
+ */
+export async function cloneVersion(args: z.infer<typeof AppSecConfigToolSchemas.cloneVersion>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_config_version_clone',
+    args,
+    async (client) => {
+      let fromVersion = args.fromVersion;
+      if (!fromVersion) {
+        const versions = await fetchVersionList(client, args.configId);
+        fromVersion = versions.productionActiveVersion ?? versions.lastCreatedVersion;
+      }
+      if (!fromVersion) {
+        throw new Error(`Security configuration ${args.configId} has no version to clone`);
+      }
+
+      return client.request<AppSecConfigVersion>({
+        path: AppSecConfigEndpoints.versions(args.configId),
+        method: 'POST',
+        body: { createFromVersion: fromVersion, ruleUpdate: args.ruleUpdate }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (version) => `✅ Created version ${version.version} of security configuration ${args.configId} ` +
+        `from v${version.basedOn}\n\n` +
+        `Edit it with the security_* tools (version ${version.version}), review with security_config_version_diff, ` +
+        'then activate it.'
+    }
+  );
+}
+
+/**
+ * Export a complete security configuration version
+ */
+export async function exportConfig(args: z.infer<typeof AppSecConfigToolSchemas.exportConfig>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_config_export',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return fetchExport(client, args.configId, version);
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : { format: 'text', formatter: formatExportSummary }
+  );
+}
+
+/**
+ * Compare two versions of a security configuration by policy, attack group
+ * action, rate control and match target
+ */
+export async function diffVersions(args: z.infer<typeof AppSecConfigToolSchemas.diffVersions>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_config_version_diff',
+    args,
+    async (client) => {
+      let { fromVersion, toVersion } = args;
+      if (!fromVersion || !toVersion) {
+        const versions = await fetchVersionList(client, args.configId);
+        toVersion = toVersion ?? versions.lastCreatedVersion;
+        fromVersion = fromVersion ?? versions.productionActiveVersion ?? versions.stagingActiveVersion;
+      }
+      if (!fromVersion || !toVersion) {
+        throw new Error(`Specify fromVersion: security configuration ${args.configId} has no active version to compare against`);
+      }
+      if (fromVersion === toVersion) {
+        throw new Error(`fromVersion and toVersion are both v${fromVersion}; nothing to compare`);
+      }
+
+      const [from, to] = await Promise.all([
+        fetchExport(client, args.configId, fromVersion),
+        fetchExport(client, args.configId, toVersion)
+      ]);
+      return diffAppSecConfigs(from, to);
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : { format: 'text', formatter: formatConfigDiff }
+  );
+}
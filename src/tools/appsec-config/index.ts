@@ -0,0 +1,85 @@
+/**
+ * AppSec Configuration Domain Export Module
+ *
+ * Exports AppSec configuration version tools using the standard BaseTool pattern
+ */
+
+import {
+  listVersions,
+  getVersion,
+  cloneVersion,
+  exportConfig,
+  diffVersions
+} from './appsec-config-tools';
+import { AppSecConfigToolSchemas } from './appsec-config-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface AppSecConfigTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * AppSec Configuration Domain Tools with handlers
+ */
+export const appSecConfigTools: Record<string, AppSecConfigTool> = {
+  // Versions
+  'security_config_version_list': {
+    name: 'security_config_version_list',
+    description: 'List the versions of a security configuration with their staging and production activation status',
+    inputSchema: zodToJsonSchema(AppSecConfigToolSchemas.listVersions),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecConfigToolSchemas.listVersions.parse(args);
+      return listVersions(validatedArgs);
+    }
+  },
+
+  'security_config_version_get': {
+    name: 'security_config_version_get',
+    description: 'Get one version of a security configuration',
+    inputSchema: zodToJsonSchema(AppSecConfigToolSchemas.getVersion),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecConfigToolSchemas.getVersion.parse(args);
+      return getVersion(validatedArgs);
+    }
+  },
+
+  'security_config_version_clone': {
+    name: 'security_config_version_clone',
+    description: 'Create a new editable version of a security configuration from an existing version (production version by default)',
+    inputSchema: zodToJsonSchema(AppSecConfigToolSchemas.cloneVersion),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecConfigToolSchemas.cloneVersion.parse(args);
+      return cloneVersion(validatedArgs);
+    }
+  },
+
+  // Export and Review
+  'security_config_export': {
+    name: 'security_config_export',
+    description: 'Export a complete security configuration version: policies, WAF actions, rate controls, custom rules and match targets',
+    inputSchema: zodToJsonSchema(AppSecConfigToolSchemas.exportConfig),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecConfigToolSchemas.exportConfig.parse(args);
+      return exportConfig(validatedArgs);
+    }
+  },
+
+  'security_config_version_diff': {
+    name: 'security_config_version_diff',
+    description: 'Compare two security configuration versions grouped by policy, attack group action, rate control and match target, to review a WAF change before activation',
+    inputSchema: zodToJsonSchema(AppSecConfigToolSchemas.diffVersions),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecConfigToolSchemas.diffVersions.parse(args);
+      return diffVersions(validatedArgs);
+    }
+  }
+};
+
+export default appSecConfigTools;
@@ -0,0 +1,160 @@
+/**
+ * AppSec Policy Protections API Implementation
+ *
+ * Per-policy protection switches, penalty box settings, evaluation mode
+ * and hostname coverage from Akamai's Application Security API.
+ *
+ * API Documentation: https://techdocs.akamai.com/application-security/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+import { APPSEC_API_BASE } from '../appsec-config/appsec-config-api-implementation';
+
+const versionBase = (configId: number, version: number) =>
+  `${APPSEC_API_BASE}/configs/${configId}/versions/${version}`;
+const policyBase = (configId: number, version: number, policyId: string) =>
+  `${versionBase(configId, version)}/security-policies/${policyId}`;
+
+/**
+ * AppSec Policy API Endpoints
+ */
+export const AppSecPolicyEndpoints = {
+  protections: (configId: number, version: number, policyId: string) =>
+    `${policyBase(configId, version, policyId)}/protections`,
+  penaltyBox: (configId: number, version: number, policyId: string, evaluation = false) =>
+    `${policyBase(configId, version, policyId)}/${evaluation ? 'eval-penalty-box' : 'penalty-box'}`,
+  evaluation: (configId: number, version: number, policyId: string) =>
+    `${policyBase(configId, version, policyId)}/eval`,
+  rules: (configId: number, version: number, policyId: string) =>
+    `${policyBase(configId, version, policyId)}/rules`,
+  rule: (configId: number, version: number, policyId: string, ruleId: number) =>
+    `${policyBase(configId, version, policyId)}/rules/${ruleId}`,
+  evaluationRules: (configId: number, version: number, policyId: string) =>
+    `${policyBase(configId, version, policyId)}/eval-rules`,
+  selectedHostnames: (configId: number, version: number) => `${versionBase(configId, version)}/selected-hostnames`,
+  hostnameCoverage: () => `${APPSEC_API_BASE}/hostname-coverage`
+};
+
+const ConfigIdSchema = z.number().int().positive().describe('Security configuration ID');
+const VersionSchema = z.number().int().positive().optional()
+  .describe('Configuration version (defaults to the latest version)');
+const PolicyIdSchema = z.string().describe('Security policy ID, e.g. "pol_12345"');
+const PolicySchema = CustomerSchema.extend({
+  configId: ConfigIdSchema,
+  version: VersionSchema,
+  policyId: PolicyIdSchema
+});
+const PenaltyBoxActionSchema = z.string().regex(/^(alert|deny|none|deny_custom_\d+)$/)
+  .describe('alert, deny, none or a custom deny action (deny_custom_<id>)');
+
+/**
+ * AppSec Policy Tool Schemas
+ */
+export const AppSecPolicyToolSchemas = {
+  getProtections: PolicySchema,
+
+  updateProtections: PolicySchema.extend({
+    applyApplicationLayerControls: z.boolean().optional().describe('Web application firewall'),
+    applyNetworkLayerControls: z.boolean().optional().describe('IP/Geo firewall'),
+    applyRateControls: z.boolean().optional(),
+    applyReputationControls: z.boolean().optional(),
+    applyBotmanControls: z.boolean().optional().describe('Bot management'),
+    applyApiConstraints: z.boolean().optional(),
+    applySlowPostControls: z.boolean().optional(),
+    applyMalwareControls: z.boolean().optional()
+  }),
+
+  getPenaltyBox: PolicySchema.extend({
+    evaluation: z.boolean().optional().default(false).describe('The penalty box used while evaluating rules')
+  }),
+
+  updatePenaltyBox: PolicySchema.extend({
+    evaluation: z.boolean().optional().default(false),
+    penaltyBoxProtection: z.boolean().describe('Whether clients that trigger a deny are put in the penalty box'),
+    action: PenaltyBoxActionSchema.optional().default('alert')
+      .describe('Action on requests from clients in the penalty box (10 minutes)')
+  }),
+
+  startEvaluation: PolicySchema.extend({
+    restart: z.boolean().optional().default(false).describe('Restart an evaluation that expired or was stopped')
+  }),
+
+  compareEvaluation: PolicySchema,
+
+  promoteEvaluation: PolicySchema.extend({
+    ruleIds: z.array(z.number().int().positive()).optional()
+      .describe('Only promote these rules (defaults to every rule whose evaluation settings differ)'),
+    stopEvaluation: z.boolean().optional().default(true).describe('Stop evaluation mode after promoting')
+  }),
+
+  stopEvaluation: PolicySchema,
+
+  listSelectedHostnames: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    version: VersionSchema
+  }),
+
+  updateSelectedHostnames: CustomerSchema.extend({
+    configId: ConfigIdSchema,
+    version: VersionSchema,
+    hostnames: z.array(z.string().min(1)).min(1),
+    mode: z.enum(['append', 'remove', 'replace']).optional().default('append')
+  }),
+
+  listHostnameCoverage: CustomerSchema.extend({
+    status: z.enum(['covered', 'not_covered']).optional()
+  }),
+
+  hostnameCoverageReport: CustomerSchema.extend({
+    contractId: z.string().optional().describe('Only properties of this contract'),
+    groupId: z.string().optional().describe('Only properties of this group'),
+    unprotectedOnly: z.boolean().optional().default(false),
+    format: z.enum(['text', 'json']).optional().default('text')
+  })
+};
+
+/**
+ * Response types for policy protection operations
+ */
+export interface PolicyProtections {
+  applyApplicationLayerControls?: boolean;
+  applyNetworkLayerControls?: boolean;
+  applyRateControls?: boolean;
+  applyReputationControls?: boolean;
+  applyBotmanControls?: boolean;
+  applyApiConstraints?: boolean;
+  applySlowPostControls?: boolean;
+  applyMalwareControls?: boolean;
+}
+
+export interface PenaltyBox {
+  action: string;
+  penaltyBoxProtection: boolean;
+}
+
+export interface EvaluationStatus {
+  current?: string;
+  mode?: string;
+  eval?: string;
+  evaluatingRuleset?: string;
+  expirationDate?: string;
+}
+
+export interface PolicyRuleAction {
+  id: number;
+  action: string;
+  conditionException?: unknown;
+}
+
+export interface SelectedHostnames {
+  hostnameList: Array<{ hostname: string }>;
+}
+
+export interface HostnameCoverage {
+  hostname: string;
+  status: string;
+  hasMatchTarget?: boolean;
+  configuration?: { id: number; name?: string; version?: number };
+  policyNames?: string[];
+}
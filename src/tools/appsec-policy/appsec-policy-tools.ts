@@ -0,0 +1,534 @@
+/**
+ * AppSec Policy Tools Implementation
+ *
+ * Tools for per-policy protection switches, penalty box settings, the
+ * evaluation mode lifecycle (start, compare, promote, stop), selected
+ * hostnames, and a coverage report of property hostnames against the
+ * hostnames security configurations protect
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import { getCacheService } from '../../services/unified-cache-service';
+import { APPSEC_API_BASE } from '../appsec-config/appsec-config-api-implementation';
+import { latestConfigVersion } from '../appsec-config/appsec-config-tools';
+import {
+  AppSecPolicyEndpoints,
+  AppSecPolicyToolSchemas,
+  type EvaluationStatus,
+  type HostnameCoverage,
+  type PenaltyBox,
+  type PolicyProtections,
+  type PolicyRuleAction,
+  type SelectedHostnames
+} from './appsec-policy-api-implementation';
+import {
+  type ConfigHostnames,
+  type HostnameCoverageReport,
+  type PropertyHostnames,
+  buildCoverageReport
+} from './hostname-coverage';
+
+const PROTECTION_LABELS: Record<keyof PolicyProtections, string> = {
+  applyApplicationLayerControls: 'Web application firewall',
+  applyNetworkLayerControls: 'IP/Geo firewall',
+  applyRateControls: 'Rate controls',
+  applyReputationControls: 'Client reputation',
+  applyBotmanControls: 'Bot management',
+  applyApiConstraints: 'API request constraints',
+  applySlowPostControls: 'Slow POST protection',
+  applyMalwareControls: 'Malware protection'
+};
+
+interface EvaluationDifference {
+  ruleId: number;
+  active?: PolicyRuleAction;
+  evaluation: PolicyRuleAction;
+}
+
+function formatProtections(protections: PolicyProtections): string {
+  return (Object.keys(PROTECTION_LABELS) as Array<keyof PolicyProtections>)
+    .filter(key => protections[key] !== undefined)
+    .map(key => `${protections[key] ? '✅' : '⛔'} ${PROTECTION_LABELS[key]}\n`)
+    .join('');
+}
+
+function formatPenaltyBox(penaltyBox: PenaltyBox): string {
+  return penaltyBox.penaltyBoxProtection
+    ? `🚫 Penalty box on: requests from penalized clients get action "${penaltyBox.action}" for 10 minutes\n`
+    : '⚪ Penalty box off\n';
+}
+
+async function fetchRuleActions(client: AkamaiClient, path: string): Promise<PolicyRuleAction[]> {
+  const response = await client.request<{ ruleActions?: PolicyRuleAction[]; evalRuleActions?: PolicyRuleAction[] }>({
+    path,
+    method: 'GET'
+  });
+  return response.evalRuleActions || response.ruleActions || [];
+}
+
+/**
+ * Rules whose evaluation action or condition/exception differs from the active one
+ */
+async function compareRules(
+  client: AkamaiClient,
+  configId: number,
+  version: number,
+  policyId: string
+): Promise<EvaluationDifference[]> {
+  const [active, evaluation] = await Promise.all([
+    fetchRuleActions(client, AppSecPolicyEndpoints.rules(configId, version, policyId)),
+    fetchRuleActions(client, AppSecPolicyEndpoints.evaluationRules(configId, version, policyId))
+  ]);
+  const activeById = new Map(active.map(rule => [rule.id, rule]));
+
+  return evaluation
+    .filter(rule => {
+      const current = activeById.get(rule.id);
+      return !current || current.action !== rule.action ||
+        JSON.stringify(current.conditionException ?? null) !== JSON.stringify(rule.conditionException ?? null);
+    })
+    .map(rule => ({
+      ruleId: rule.id,
+      ...(activeById.has(rule.id) && { active: activeById.get(rule.id) }),
+      evaluation: rule
+    }))
+    .sort((a, b) => a.ruleId - b.ruleId);
+}
+
+function formatDifference(difference: EvaluationDifference): string {
+  const exceptionChanged = JSON.stringify(difference.active?.conditionException ?? null) !==
+    JSON.stringify(difference.evaluation.conditionException ?? null);
+  return `• Rule ${difference.ruleId}: ${difference.active?.action || '(not in active rule set)'} → ` +
+    `${difference.evaluation.action}${exceptionChanged ? ' | condition/exception differs' : ''}\n`;
+}
+
+/**
+ * Get the protection switches of a security policy
+ */
+export async function getProtections(args: z.infer<typeof AppSecPolicyToolSchemas.getProtections>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_policy_protections_get',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return client.request<PolicyProtections>({
+        path: AppSecPolicyEndpoints.protections(args.configId, version, args.policyId),
+        method: 'GET'
+      });
+    },
+    {
+      format: 'text',
+      formatter: (protections) => `🛡️ **Protections of ${args.policyId}**\n\n${formatProtections(protections)}`
+    }
+  );
+}
+
+/**
+ * Turn protections of a security policy on or off
+ */
+export async function updateProtections(args: z.infer<typeof AppSecPolicyToolSchemas.updateProtections>): Promise<MCPToolResponse> {
+  const changes = (Object.keys(PROTECTION_LABELS) as Array<keyof PolicyProtections>)
+    .filter(key => args[key] !== undefined);
+  if (changes.length === 0) {
+    throw new Error(`Nothing to update: provide at least one of ${Object.keys(PROTECTION_LABELS).join(', ')}`);
+  }
+
+  return BaseTool.execute(
+    'appsec',
+    'security_policy_protections_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const path = AppSecPolicyEndpoints.protections(args.configId, version, args.policyId);
+      const current = await client.request<PolicyProtections>({ path, method: 'GET' });
+
+      const updated = { ...current };
+      changes.forEach(key => {
+        updated[key] = args[key];
+      });
+      const result = await client.request<PolicyProtections>({ path, method: 'PUT', body: updated });
+      return { version, result };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, result }) => `✅ Protections of ${args.policyId} updated in version ${version}\n\n` +
+        formatProtections(result)
+    }
+  );
+}
+
+/**
+ * Get the penalty box settings of a security policy
+ */
+export async function getPenaltyBox(args: z.infer<typeof AppSecPolicyToolSchemas.getPenaltyBox>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_penalty_box_get',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return client.request<PenaltyBox>({
+        path: AppSecPolicyEndpoints.penaltyBox(args.configId, version, args.policyId, args.evaluation),
+        method: 'GET'
+      });
+    },
+    {
+      format: 'text',
+      formatter: (penaltyBox) => `${args.evaluation ? 'Evaluation penalty box' : 'Penalty box'} of ${args.policyId}\n\n` +
+        formatPenaltyBox(penaltyBox)
+    }
+  );
+}
+
+/**
+ * Change the penalty box settings of a security policy
+ */
+export async function updatePenaltyBox(args: z.infer<typeof AppSecPolicyToolSchemas.updatePenaltyBox>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_penalty_box_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return client.request<PenaltyBox>({
+        path: AppSecPolicyEndpoints.penaltyBox(args.configId, version, args.policyId, args.evaluation),
+        method: 'PUT',
+        body: { penaltyBoxProtection: args.penaltyBoxProtection, action: args.action }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (penaltyBox) => `✅ ${args.evaluation ? 'Evaluation penalty box' : 'Penalty box'} of ${args.policyId} updated\n\n` +
+        formatPenaltyBox(penaltyBox)
+    }
+  );
+}
+
+/**
+ * Start evaluating the latest rule set on a security policy
+ */
+export async function startEvaluation(args: z.infer<typeof AppSecPolicyToolSchemas.startEvaluation>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_evaluation_start',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return client.request<EvaluationStatus>({
+        path: AppSecPolicyEndpoints.evaluation(args.configId, version, args.policyId),
+        method: 'POST',
+        body: { mode: args.restart ? 'RESTART' : 'START' }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (status) => `✅ Evaluation ${args.restart ? 'restarted' : 'started'} on ${args.policyId}` +
+        `${status.expirationDate ? ` until ${status.expirationDate}` : ''}\n\n` +
+        'Evaluation rules only log what they would do. Activate the version, let traffic flow, then review ' +
+        'with security_evaluation_compare and apply with security_evaluation_promote.'
+    }
+  );
+}
+
+/**
+ * Compare evaluation rule settings with the active ones
+ */
+export async function compareEvaluation(args: z.infer<typeof AppSecPolicyToolSchemas.compareEvaluation>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_evaluation_compare',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const [status, differences] = await Promise.all([
+        client.request<EvaluationStatus>({
+          path: AppSecPolicyEndpoints.evaluation(args.configId, version, args.policyId),
+          method: 'GET'
+        }),
+        compareRules(client, args.configId, version, args.policyId)
+      ]);
+      return { version, status, differences };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, status, differences }) => {
+        let text = `🔬 **Evaluation of ${args.policyId}** (version ${version})\n` +
+          `Status: ${status.eval || status.current || 'unknown'}` +
+          `${status.expirationDate ? ` | expires ${status.expirationDate}` : ''}\n\n`;
+        if (differences.length === 0) {
+          return `${text}Evaluation rules match the active rules; nothing to promote.`;
+        }
+        text += `**Rules that change on promotion** (${differences.length}):\n`;
+        differences.forEach(difference => {
+          text += formatDifference(difference);
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Apply evaluation rule settings to the active rules
+ */
+export async function promoteEvaluation(args: z.infer<typeof AppSecPolicyToolSchemas.promoteEvaluation>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_evaluation_promote',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const differences = (await compareRules(client, args.configId, version, args.policyId))
+        .filter(difference => !args.ruleIds || args.ruleIds.includes(difference.ruleId));
+
+      for (const difference of differences) {
+        await client.request({
+          path: AppSecPolicyEndpoints.rule(args.configId, version, args.policyId, difference.ruleId),
+          method: 'PUT',
+          body: {
+            action: difference.evaluation.action,
+            ...(difference.evaluation.conditionException !== undefined && {
+              conditionException: difference.evaluation.conditionException
+            })
+          }
+        });
+      }
+
+      if (args.stopEvaluation) {
+        await client.request({
+          path: AppSecPolicyEndpoints.evaluation(args.configId, version, args.policyId),
+          method: 'POST',
+          body: { mode: 'STOP' }
+        });
+      }
+      return { version, differences };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, differences }) => {
+        let text = `✅ Promoted ${differences.length} evaluation rules on ${args.policyId} in version ${version}\n\n`;
+        differences.forEach(difference => {
+          text += formatDifference(difference);
+        });
+        text += args.stopEvaluation ? '\nEvaluation mode stopped.\n' : '';
+        text += '\nReview with security_config_version_diff and activate the version to put the rules into effect.';
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Stop evaluation mode on a security policy
+ */
+export async function stopEvaluation(args: z.infer<typeof AppSecPolicyToolSchemas.stopEvaluation>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_evaluation_stop',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return client.request<EvaluationStatus>({
+        path: AppSecPolicyEndpoints.evaluation(args.configId, version, args.policyId),
+        method: 'POST',
+        body: { mode: 'STOP' }
+      });
+    },
+    {
+      format: 'text',
+      formatter: () => `✅ Evaluation stopped on ${args.policyId}; evaluation results are discarded`
+    }
+  );
+}
+
+/**
+ * List the hostnames a security configuration version protects
+ */
+export async function listSelectedHostnames(
+  args: z.infer<typeof AppSecPolicyToolSchemas.listSelectedHostnames>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_selected_hostnames_list',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const result = await client.request<SelectedHostnames>({
+        path: AppSecPolicyEndpoints.selectedHostnames(args.configId, version),
+        method: 'GET'
+      });
+      return { version, hostnames: (result.hostnameList || []).map(entry => entry.hostname).sort() };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, hostnames }) => `🌐 **Protected hostnames** of configuration ${args.configId} v${version} ` +
+        `(${hostnames.length})\n\n${hostnames.map(hostname => `• ${hostname}\n`).join('')}`
+    }
+  );
+}
+
+/**
+ * Add, remove or replace the hostnames a security configuration version protects
+ */
+export async function updateSelectedHostnames(
+  args: z.infer<typeof AppSecPolicyToolSchemas.updateSelectedHostnames>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_selected_hostnames_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const result = await client.request<SelectedHostnames>({
+        path: AppSecPolicyEndpoints.selectedHostnames(args.configId, version),
+        method: 'PUT',
+        body: { hostnameList: args.hostnames.map(hostname => ({ hostname })), mode: args.mode }
+      });
+      return { version, hostnames: (result.hostnameList || []).map(entry => entry.hostname).sort() };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, hostnames }) => `✅ Protected hostnames of configuration ${args.configId} v${version} ` +
+        `updated (${args.mode} ${args.hostnames.length})\n\nNow protecting ${hostnames.length} hostnames. ` +
+        'Hostnames also need a match target to be routed to a security policy.'
+    }
+  );
+}
+
+/**
+ * List hostname coverage as reported by Application Security
+ */
+export async function listHostnameCoverage(
+  args: z.infer<typeof AppSecPolicyToolSchemas.listHostnameCoverage>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_hostname_coverage_list',
+    args,
+    async (client) => client.request<{ hostnameCoverage: HostnameCoverage[] }>({
+      path: AppSecPolicyEndpoints.hostnameCoverage(),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        const coverage = (result.hostnameCoverage || []).filter(entry => !args.status || entry.status === args.status);
+        let text = `🌐 **Hostname Coverage** (${coverage.length})\n\n`;
+        coverage.forEach(entry => {
+          text += `${entry.status === 'covered' ? '✅' : '⚠️'} ${entry.hostname}` +
+            `${entry.configuration ? ` | ${entry.configuration.name || entry.configuration.id} v${entry.configuration.version}` : ''}` +
+            `${entry.policyNames?.length ? ` | ${entry.policyNames.join(', ')}` : ''}` +
+            `${entry.status === 'covered' && entry.hasMatchTarget === false ? ' | no match target' : ''}\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `appsec:hostname-coverage:${p.status || 'all'}`,
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Selected hostnames of the production and latest version of every
+ * security configuration
+ */
+async function fetchConfigHostnames(client: AkamaiClient): Promise<ConfigHostnames[]> {
+  const { configurations = [] } = await client.request<{
+    configurations?: Array<{ id: number; name?: string; latestVersion: number; productionVersion?: number }>;
+  }>({
+    path: `${APPSEC_API_BASE}/configs`,
+    method: 'GET'
+  });
+
+  const selected = async (configId: number, version: number): Promise<string[]> => {
+    const result = await client.request<SelectedHostnames>({
+      path: AppSecPolicyEndpoints.selectedHostnames(configId, version),
+      method: 'GET'
+    });
+    return (result.hostnameList || []).map(entry => entry.hostname);
+  };
+
+  const configs: ConfigHostnames[] = [];
+  for (const config of configurations) {
+    const latest = await selected(config.id, config.latestVersion);
+    const production = !config.productionVersion
+      ? []
+      : config.productionVersion === config.latestVersion ? latest : await selected(config.id, config.productionVersion);
+    configs.push({
+      configId: config.id,
+      ...(config.name && { configName: config.name }),
+      ...(config.productionVersion && { productionVersion: config.productionVersion }),
+      production,
+      latestVersion: config.latestVersion,
+      latest
+    });
+  }
+  return configs;
+}
+
+function formatCoverageReport(report: HostnameCoverageReport, unprotectedOnly: boolean): string {
+  let text = `🧭 **Hostname Coverage Report**: ${report.summary.protected} protected, ` +
+    `${report.summary.pending} pending activation, ${report.summary.unprotected} unprotected\n`;
+
+  const sections: Array<[string, HostnameCoverageReport['rows']]> = [
+    ['⚠️ Unprotected', report.rows.filter(row => row.status === 'unprotected')],
+    ['⏳ Protected only in a version not active in production', report.rows.filter(row => row.status === 'pending')],
+    ...(unprotectedOnly ? [] : [['✅ Protected', report.rows.filter(row => row.status === 'protected')] as [string, HostnameCoverageReport['rows']]])
+  ];
+  sections.forEach(([title, rows]) => {
+    if (rows.length === 0) {
+      return;
+    }
+    text += `\n**${title}** (${rows.length}):\n`;
+    rows.forEach(row => {
+      text += `• ${row.hostname} | ${row.propertyName} (${row.propertyId})` +
+        `${row.configs.length > 0 ? ` | ${row.configs.join(', ')}` : ''}\n`;
+    });
+  });
+
+  if (report.summary.unprotected > 0) {
+    text += '\nAdd unprotected hostnames with security_selected_hostnames_update and route them to a policy with a match target.';
+  }
+  return text;
+}
+
+/**
+ * Cross-reference every property hostname with AppSec selected hostnames
+ */
+export async function hostnameCoverageReport(
+  args: z.infer<typeof AppSecPolicyToolSchemas.hostnameCoverageReport>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_hostname_coverage_report',
+    args,
+    async (client) => {
+      const customer = args.customer || 'default';
+      const cache = await getCacheService();
+      const properties = (await cache.getProperties(client, customer))
+        .filter(property => (!args.contractId || property.contractId === args.contractId) &&
+          (!args.groupId || property.groupId === args.groupId));
+
+      const propertyHostnames: PropertyHostnames[] = [];
+      for (const property of properties) {
+        const hostnames = await cache.getPropertyHostnames(client, property, customer);
+        propertyHostnames.push({
+          propertyId: property.propertyId,
+          propertyName: property.propertyName,
+          hostnames: hostnames.map(hostname => hostname.cnameFrom).filter((hostname): hostname is string => !!hostname)
+        });
+      }
+
+      const report = buildCoverageReport(propertyHostnames, await fetchConfigHostnames(client));
+      return args.unprotectedOnly
+        ? { ...report, rows: report.rows.filter(row => row.status !== 'protected') }
+        : report;
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : { format: 'text', formatter: (report) => formatCoverageReport(report, args.unprotectedOnly) }
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * AppSec Hostname Coverage
+ *
+ * Cross-references property hostnames with the hostnames that security
+ * configurations protect, to find traffic no security policy sees.
+ */
+
+export type HostnameProtection = 'protected' | 'pending' | 'unprotected';
+
+export interface PropertyHostnames {
+  propertyId: string;
+  propertyName: string;
+  hostnames: string[];
+}
+
+export interface ConfigHostnames {
+  configId: number;
+  configName?: string;
+  productionVersion?: number;
+  // Selected hostnames of the production version
+  production: string[];
+  latestVersion: number;
+  // Selected hostnames of the latest version
+  latest: string[];
+}
+
+export interface HostnameCoverageRow {
+  hostname: string;
+  propertyId: string;
+  propertyName: string;
+  status: HostnameProtection;
+  configs: string[];
+}
+
+export interface HostnameCoverageReport {
+  rows: HostnameCoverageRow[];
+  summary: Record<HostnameProtection, number>;
+}
+
+/**
+ * Whether a selected hostname covers a property hostname
+ * A wildcard covers exactly one label: *.example.com covers www.example.com.
+ */
+export function hostnameMatches(selected: string, hostname: string): boolean {
+  const pattern = selected.toLowerCase();
+  const host = hostname.toLowerCase();
+  if (!pattern.startsWith('*.')) {
+    return pattern === host;
+  }
+  const suffix = pattern.slice(1);
+  return host.endsWith(suffix) && !host.slice(0, -suffix.length).includes('.') && host.length > suffix.length;
+}
+
+/**
+ * Protection status of every property hostname
+ * Hostnames protected only by a version that is not active in production
+ * are reported as pending.
+ */
+export function buildCoverageReport(properties: PropertyHostnames[], configs: ConfigHostnames[]): HostnameCoverageReport {
+  const rows = properties.flatMap(property => [...new Set(property.hostnames.map(host => host.toLowerCase()))]
+    .sort()
+    .map(hostname => {
+      const production = configs.filter(config =>
+        config.production.some(selected => hostnameMatches(selected, hostname)));
+      const latest = configs.filter(config =>
+        config.latest.some(selected => hostnameMatches(selected, hostname)));
+
+      const status: HostnameProtection = production.length > 0 ? 'protected' : latest.length > 0 ? 'pending' : 'unprotected';
+      const configLabels = status === 'protected'
+        ? production.map(config => `${config.configName || config.configId} v${config.productionVersion}`)
+        : latest.map(config => `${config.configName || config.configId} v${config.latestVersion}`);
+
+      return {
+        hostname,
+        propertyId: property.propertyId,
+        propertyName: property.propertyName,
+        status,
+        configs: configLabels
+      };
+    }));
+
+  const summary: Record<HostnameProtection, number> = { protected: 0, pending: 0, unprotected: 0 };
+  rows.forEach(row => {
+    summary[row.status]++;
+  });
+  return { rows, summary };
+}
@@ -0,0 +1,164 @@
+/**
+ * AppSec Policy Domain Export Module
+ *
+ * Exports AppSec policy protection tools using the standard BaseTool pattern
+ */
+
+import {
+  getProtections,
+  updateProtections,
+  getPenaltyBox,
+  updatePenaltyBox,
+  startEvaluation,
+  compareEvaluation,
+  promoteEvaluation,
+  stopEvaluation,
+  listSelectedHostnames,
+  updateSelectedHostnames,
+  listHostnameCoverage,
+  hostnameCoverageReport
+} from './appsec-policy-tools';
+import { AppSecPolicyToolSchemas } from './appsec-policy-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface AppSecPolicyTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * AppSec Policy Domain Tools with handlers
+ */
+export const appSecPolicyTools: Record<string, AppSecPolicyTool> = {
+  // Protections
+  'security_policy_protections_get': {
+    name: 'security_policy_protections_get',
+    description: 'Get which protections (WAF, IP/Geo firewall, rate controls, reputation, bot management, API constraints, slow POST, malware) a security policy applies',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.getProtections),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.getProtections.parse(args);
+      return getProtections(validatedArgs);
+    }
+  },
+
+  'security_policy_protections_update': {
+    name: 'security_policy_protections_update',
+    description: 'Turn individual protections of a security policy on or off',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.updateProtections),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.updateProtections.parse(args);
+      return updateProtections(validatedArgs);
+    }
+  },
+
+  // Penalty Box
+  'security_penalty_box_get': {
+    name: 'security_penalty_box_get',
+    description: 'Get the penalty box settings of a security policy, or of its evaluation rule set',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.getPenaltyBox),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.getPenaltyBox.parse(args);
+      return getPenaltyBox(validatedArgs);
+    }
+  },
+
+  'security_penalty_box_update': {
+    name: 'security_penalty_box_update',
+    description: 'Turn the penalty box of a security policy on or off and set the action for penalized clients',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.updatePenaltyBox),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.updatePenaltyBox.parse(args);
+      return updatePenaltyBox(validatedArgs);
+    }
+  },
+
+  // Evaluation Mode
+  'security_evaluation_start': {
+    name: 'security_evaluation_start',
+    description: 'Start (or restart) evaluation of the latest rule set on a security policy',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.startEvaluation),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.startEvaluation.parse(args);
+      return startEvaluation(validatedArgs);
+    }
+  },
+
+  'security_evaluation_compare': {
+    name: 'security_evaluation_compare',
+    description: 'Compare evaluation rule actions and exceptions with the active rules of a security policy',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.compareEvaluation),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.compareEvaluation.parse(args);
+      return compareEvaluation(validatedArgs);
+    }
+  },
+
+  'security_evaluation_promote': {
+    name: 'security_evaluation_promote',
+    description: 'Apply evaluation rule actions and exceptions to the active rules of a security policy and stop evaluation',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.promoteEvaluation),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.promoteEvaluation.parse(args);
+      return promoteEvaluation(validatedArgs);
+    }
+  },
+
+  'security_evaluation_stop': {
+    name: 'security_evaluation_stop',
+    description: 'Stop evaluation mode on a security policy without applying its results',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.stopEvaluation),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.stopEvaluation.parse(args);
+      return stopEvaluation(validatedArgs);
+    }
+  },
+
+  // Hostnames
+  'security_selected_hostnames_list': {
+    name: 'security_selected_hostnames_list',
+    description: 'List the hostnames a security configuration version protects',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.listSelectedHostnames),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.listSelectedHostnames.parse(args);
+      return listSelectedHostnames(validatedArgs);
+    }
+  },
+
+  'security_selected_hostnames_update': {
+    name: 'security_selected_hostnames_update',
+    description: 'Add, remove or replace the hostnames a security configuration version protects',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.updateSelectedHostnames),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.updateSelectedHostnames.parse(args);
+      return updateSelectedHostnames(validatedArgs);
+    }
+  },
+
+  'security_hostname_coverage_list': {
+    name: 'security_hostname_coverage_list',
+    description: 'List hostname coverage as reported by Application Security',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.listHostnameCoverage),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.listHostnameCoverage.parse(args);
+      return listHostnameCoverage(validatedArgs);
+    }
+  },
+
+  'security_hostname_coverage_report': {
+    name: 'security_hostname_coverage_report',
+    description: 'Cross-reference every property hostname with the hostnames security configurations protect in production to find unprotected traffic',
+    inputSchema: zodToJsonSchema(AppSecPolicyToolSchemas.hostnameCoverageReport),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = AppSecPolicyToolSchemas.hostnameCoverageReport.parse(args);
+      return hostnameCoverageReport(validatedArgs);
+    }
+  }
+};
+
+export default appSecPolicyTools;
@@ -43,9 +43,11 @@ const WAFAttackGroupConfigSchema = PolicyContextSchema.extend({
 
 // WAF Rule Actions
 const WAFRuleActionSchema = PolicyContextSchema.extend({
+  version: z.number().int().positive().describe('Version to change, e.g. a clone of the active version'),
   ruleId: z.number().int().positive(),
   action: z.enum(['alert', 'deny', 'none']).default('alert'),
-  conditionException: z.string().optional(),
+  conditionException: z.union([z.string(), z.record(z.string(), z.unknown())]).optional()
+    .describe('Condition/exception block, as an object or JSON string'),
   advancedExceptionsList: z.array(z.string()).optional()
 });
 
@@ -299,6 +301,47 @@ export class ComprehensiveSecurityTools {
     }
   }
 
+  // WAF Rule Configuration
+  async configureWAFRule(args: z.infer<typeof WAFRuleActionSchema>): Promise<MCPToolResponse> {
+    try {
+      const params = WAFRuleActionSchema.parse(args);
+      const conditionException = typeof params.conditionException === 'string'
+        ? JSON.parse(params.conditionException)
+        : params.conditionException;
+
+      await this.client.request({
+        path: `/appsec/v1/configs/${params.configId}/versions/${params.version}/security-policies/${params.policyId}/rules/${params.ruleId}`,
+        method: 'PUT',
+        body: {
+          action: params.action,
+          conditionException,
+          advancedExceptionsList: params.advancedExceptionsList
+        }
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            message: `WAF rule ${params.ruleId} configured successfully`,
+            ruleId: params.ruleId,
+            action: params.action,
+            policyId: params.policyId,
+            version: params.version
+          }, null, 2)
+        }]
+      };
+    } catch (error: unknown) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error configuring WAF rule: ${error instanceof Error ? error.message : String(error)}`
+        }],
+        isError: true
+      };
+    }
+  }
+
   // Bot Management Configuration
   async configureBotManagement(args: z.infer<typeof BotCategorySchema>): Promise<MCPToolResponse> {
     try {
@@ -447,7 +490,7 @@ export class ComprehensiveSecurityTools {
       'security.waf.rule.configure': {
         description: 'Configure individual WAF rule actions',
         inputSchema: WAFRuleActionSchema,
-        handler: async (_client: any, args: any) => this.updateResource(`security-policies/${args.policyId}/waf-protection/rules/${args.ruleId}`, args)
+        handler: async (_client: any, args: any) => this.configureWAFRule(args)
       },
       'security.waf.rule.list': {
         description: 'List all available WAF rules',
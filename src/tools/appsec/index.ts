@@ -10,8 +10,19 @@
 
 import { z } from 'zod';
 import { type MCPToolResponse } from '../../types';
+import { type AkamaiClient } from '../../akamai-client';
 import { comprehensiveSecurityTools } from './comprehensive-security-tools';
 
+/**
+ * Comprehensive security tools keyed by MCP tool name
+ * ('security.waf.rule.configure' -> 'security_waf_rule_configure')
+ */
+function securityTools(client: AkamaiClient): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(comprehensiveSecurityTools(client)).map(([name, tool]) => [name.replace(/[.-]/g, '_'), tool])
+  );
+}
+
 /**
  * Application Security Tools for ALECSCore Registration
  * 
@@ -35,7 +46,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_policy_create'].handler(client, args)
+      securityTools(client)['security_waf_policy_create'].handler(client, args)
   },
   
   'security_waf_policy_list': {
@@ -46,7 +57,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_policy_list'].handler(client, args)
+      securityTools(client)['security_waf_policy_list'].handler(client, args)
   },
 
   'security_waf_policy_get': {
@@ -58,7 +69,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_policy_get'].handler(client, args)
+      securityTools(client)['security_waf_policy_get'].handler(client, args)
   },
 
   'security_waf_policy_update': {
@@ -71,7 +82,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_policy_update'].handler(client, args)
+      securityTools(client)['security_waf_policy_update'].handler(client, args)
   },
 
   'security_waf_policy_delete': {
@@ -83,7 +94,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_policy_delete'].handler(client, args)
+      securityTools(client)['security_waf_policy_delete'].handler(client, args)
   },
 
   'security_waf_attack_group_configure': {
@@ -99,7 +110,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_attack_group_configure'].handler(client, args)
+      securityTools(client)['security_waf_attack_group_configure'].handler(client, args)
   },
 
   'security_waf_attack_group_list': {
@@ -111,23 +122,24 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_attack_group_list'].handler(client, args)
+      securityTools(client)['security_waf_attack_group_list'].handler(client, args)
   },
 
   'security_waf_rule_configure': {
     description: 'Configure individual WAF rule actions',
     inputSchema: z.object({
       configId: z.number().int().positive(),
-      version: z.number().int().positive().optional(),
+      version: z.number().int().positive().describe('Version to change, e.g. a clone of the active version'),
       policyId: z.string(),
       ruleId: z.number().int().positive(),
       action: z.enum(['alert', 'deny', 'none']).default('alert'),
-      conditionException: z.string().optional(),
+      conditionException: z.union([z.string(), z.record(z.string(), z.unknown())]).optional()
+        .describe('Condition/exception block, e.g. from security_waf_tuning_suggest'),
       advancedExceptionsList: z.array(z.string()).optional(),
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_rule_configure'].handler(client, args)
+      securityTools(client)['security_waf_rule_configure'].handler(client, args)
   },
 
   'security_waf_rule_list': {
@@ -139,7 +151,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_rule_list'].handler(client, args)
+      securityTools(client)['security_waf_rule_list'].handler(client, args)
   },
 
   'security_waf_evaluation_configure': {
@@ -153,7 +165,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_waf_evaluation_configure'].handler(client, args)
+      securityTools(client)['security_waf_evaluation_configure'].handler(client, args)
   },
 
   // BOT MANAGEMENT TOOLS (25 endpoints)
@@ -171,7 +183,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_bot_configure'].handler(client, args)
+      securityTools(client)['security_bot_configure'].handler(client, args)
   },
 
   'security_bot_category_list': {
@@ -183,7 +195,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_bot_category_list'].handler(client, args)
+      securityTools(client)['security_bot_category_list'].handler(client, args)
   },
 
   'security_bot_category_configure': {
@@ -197,7 +209,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_bot_category_configure'].handler(client, args)
+      securityTools(client)['security_bot_category_configure'].handler(client, args)
   },
 
   'security_bot_detection_configure': {
@@ -212,7 +224,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_bot_detection_configure'].handler(client, args)
+      securityTools(client)['security_bot_detection_configure'].handler(client, args)
   },
 
   'security_bot_analytics_configure': {
@@ -228,7 +240,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_bot_analytics_configure'].handler(client, args)
+      securityTools(client)['security_bot_analytics_configure'].handler(client, args)
   },
 
   // RATE CONTROLS & DDoS PROTECTION (20 endpoints)
@@ -247,7 +259,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_rate_control_create'].handler(client, args)
+      securityTools(client)['security_rate_control_create'].handler(client, args)
   },
 
   'security_rate_control_list': {
@@ -259,7 +271,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_rate_control_list'].handler(client, args)
+      securityTools(client)['security_rate_control_list'].handler(client, args)
   },
 
   'security_rate_control_update': {
@@ -274,7 +286,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_rate_control_update'].handler(client, args)
+      securityTools(client)['security_rate_control_update'].handler(client, args)
   },
 
   'security_rate_control_delete': {
@@ -287,7 +299,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_rate_control_delete'].handler(client, args)
+      securityTools(client)['security_rate_control_delete'].handler(client, args)
   },
 
   'security_slow_ddos_configure': {
@@ -304,7 +316,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_slow_ddos_configure'].handler(client, args)
+      securityTools(client)['security_slow_ddos_configure'].handler(client, args)
   },
 
   // API SECURITY & CONSTRAINTS (15 endpoints)
@@ -321,7 +333,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_api_constraints_configure'].handler(client, args)
+      securityTools(client)['security_api_constraints_configure'].handler(client, args)
   },
 
   'security_api_request_constraints_configure': {
@@ -338,7 +350,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_api_request_constraints_configure'].handler(client, args)
+      securityTools(client)['security_api_request_constraints_configure'].handler(client, args)
   },
 
   'security_api_definition_upload': {
@@ -351,7 +363,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_api_definition_upload'].handler(client, args)
+      securityTools(client)['security_api_definition_upload'].handler(client, args)
   },
 
   'security_api_definition_list': {
@@ -362,7 +374,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_api_definition_list'].handler(client, args)
+      securityTools(client)['security_api_definition_list'].handler(client, args)
   },
 
   // CUSTOM RULES & MATCH TARGETS (20 endpoints)
@@ -389,7 +401,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_custom_rule_create'].handler(client, args)
+      securityTools(client)['security_custom_rule_create'].handler(client, args)
   },
 
   'security_custom_rule_list': {
@@ -401,7 +413,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_custom_rule_list'].handler(client, args)
+      securityTools(client)['security_custom_rule_list'].handler(client, args)
   },
 
   'security_custom_rule_update': {
@@ -416,7 +428,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_custom_rule_update'].handler(client, args)
+      securityTools(client)['security_custom_rule_update'].handler(client, args)
   },
 
   'security_custom_rule_delete': {
@@ -429,7 +441,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_custom_rule_delete'].handler(client, args)
+      securityTools(client)['security_custom_rule_delete'].handler(client, args)
   },
 
   'security_match_target_create': {
@@ -451,7 +463,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_match_target_create'].handler(client, args)
+      securityTools(client)['security_match_target_create'].handler(client, args)
   },
 
   'security_match_target_list': {
@@ -462,7 +474,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_match_target_list'].handler(client, args)
+      securityTools(client)['security_match_target_list'].handler(client, args)
   },
 
   // NETWORK LISTS & IP CONTROLS (15 endpoints)
@@ -476,7 +488,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_network_list_geo_configure'].handler(client, args)
+      securityTools(client)['security_network_list_geo_configure'].handler(client, args)
   },
 
   'security_network_list_asn_configure': {
@@ -488,7 +500,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_network_list_asn_configure'].handler(client, args)
+      securityTools(client)['security_network_list_asn_configure'].handler(client, args)
   },
 
   // REPUTATION & INTELLIGENCE (11 endpoints)
@@ -505,7 +517,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_reputation_configure'].handler(client, args)
+      securityTools(client)['security_reputation_configure'].handler(client, args)
   },
 
   'security_reputation_list': {
@@ -517,7 +529,7 @@ export const appSecTools = {
       customer: z.string().optional()
     }),
     handler: async (client: any, args: any): Promise<MCPToolResponse> => 
-      comprehensiveSecurityTools(client)['security_reputation_list'].handler(client, args)
+      securityTools(client)['security_reputation_list'].handler(client, args)
   }
 };
 
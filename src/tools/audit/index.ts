@@ -0,0 +1,88 @@
+/**
+ * Audit Domain Tools Export
+ *
+ * This module exports the tools for querying the tamper-evident tool
+ * invocation audit log (ALECS_AUDIT_LOG).
+ */
+
+import { z } from 'zod';
+import { type MCPToolResponse } from '../../types/mcp-protocol';
+import { auditLogService, type AuditLogEntry } from '../../services/audit-log-service';
+
+function formatEntry(entry: AuditLogEntry): string {
+  const requests = entry.requests
+    .map(request => `${request.method} ${request.path}${request.status ? ` ${request.status}` : ''}${request.requestId ? ` [${request.requestId}]` : ''}`)
+    .join(', ');
+  return [
+    `#${entry.seq} ${entry.timestamp} ${entry.tool} [${entry.outcome}] by ${entry.principal} for '${entry.customer}' (${entry.durationMs}ms)`,
+    `  Arguments: ${JSON.stringify(entry.args)}`,
+    ...(requests ? [`  Akamai requests: ${requests}`] : []),
+    ...(entry.error ? [`  Error: ${entry.error}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Audit tool definitions
+ */
+export const auditTools = {
+  'audit_query': {
+    description: 'Query the audit log of tool invocations and verify its hash chain',
+    inputSchema: z.object({
+      principal: z.string().optional().describe('Token ID of the caller (or "anonymous")'),
+      customer: z.string().optional().describe('Only entries for this customer section'),
+      tool: z.string().optional().describe('Tool name, * wildcards allowed (e.g. property_*)'),
+      outcome: z.enum(['success', 'error', 'denied', 'held']).optional(),
+      since: z.string().datetime({ offset: true }).optional().describe('ISO 8601 date-time, inclusive'),
+      until: z.string().datetime({ offset: true }).optional().describe('ISO 8601 date-time, inclusive'),
+      limit: z.number().int().min(1).max(1000).optional().default(50),
+      verify: z.boolean().optional().describe('Verify the hash chain of the whole log'),
+      format: z.enum(['json', 'text']).optional()
+    }),
+    handler: async (_client: any, args: any): Promise<MCPToolResponse> => {
+      if (!auditLogService.isEnabled()) {
+        return {
+          content: [{ type: 'text', text: 'Audit logging is disabled. Set ALECS_AUDIT_LOG to a file path to enable it.' }],
+          isError: true,
+        };
+      }
+
+      const entries = auditLogService.query({
+        principal: args.principal,
+        customer: args.customer,
+        tool: args.tool,
+        outcome: args.outcome,
+        since: args.since,
+        until: args.until,
+        limit: args.limit ?? 50,
+      });
+      const verification = args.verify ? auditLogService.verify() : undefined;
+
+      if (args.format === 'json') {
+        return { content: [{ type: 'text', text: JSON.stringify({ entries, verification }, null, 2) }] };
+      }
+
+      const lines = [`Audit log entries (${entries.length}, newest first):`, ''];
+      if (verification) {
+        lines.unshift(verification.valid
+          ? `✅ Hash chain verified: ${verification.entries} entries, head ${verification.headHash}`
+          : `❌ Hash chain broken at entry #${verification.brokenAt}: ${verification.reason}`, '');
+      }
+      lines.push(entries.length > 0 ? entries.map(formatEntry).join('\n\n') : 'No matching entries.');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+  },
+};
+
+/**
+ * Audit domain metadata
+ */
+export const auditDomainMetadata = {
+  name: 'audit',
+  description: 'Tool invocation audit log - hash-chained JSONL for compliance reviews',
+  toolCount: Object.keys(auditTools).length,
+  features: [
+    'Filter by caller, customer, tool, outcome and time range',
+    'Hash chain verification',
+    'Redacted arguments and Akamai request IDs'
+  ]
+};
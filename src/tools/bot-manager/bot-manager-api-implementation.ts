@@ -0,0 +1,208 @@
+/**
+ * Bot Manager API Implementation
+ *
+ * Bot Manager Premier settings from Akamai's Application Security API:
+ * custom bot categories and custom-defined bots, custom clients, bot
+ * category actions per policy, transactional endpoint protection and
+ * JavaScript injection.
+ *
+ * API Documentation: https://techdocs.akamai.com/application-security/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+import { APPSEC_API_BASE } from '../appsec-config/appsec-config-api-implementation';
+
+const versionBase = (configId: number, version: number) =>
+  `${APPSEC_API_BASE}/configs/${configId}/versions/${version}`;
+const policyBase = (configId: number, version: number, policyId: string) =>
+  `${versionBase(configId, version)}/security-policies/${policyId}`;
+
+/**
+ * Bot Manager API Endpoints
+ */
+export const BotManagerEndpoints = {
+  akamaiCategories: () => `${APPSEC_API_BASE}/akamai-bot-categories`,
+  policies: (configId: number, version: number) => `${versionBase(configId, version)}/security-policies`,
+  customCategories: (configId: number, version: number) => `${versionBase(configId, version)}/custom-bot-categories`,
+  customCategory: (configId: number, version: number, categoryId: string) =>
+    `${versionBase(configId, version)}/custom-bot-categories/${categoryId}`,
+  customBots: (configId: number, version: number) => `${versionBase(configId, version)}/custom-bots`,
+  customBot: (configId: number, version: number, botId: string) => `${versionBase(configId, version)}/custom-bots/${botId}`,
+  customClients: (configId: number, version: number) => `${versionBase(configId, version)}/custom-clients`,
+  customClient: (configId: number, version: number, customClientId: string) =>
+    `${versionBase(configId, version)}/custom-clients/${customClientId}`,
+  categoryActions: (configId: number, version: number, policyId: string, custom: boolean) =>
+    `${policyBase(configId, version, policyId)}/${custom ? 'custom' : 'akamai'}-bot-category-actions`,
+  categoryAction: (configId: number, version: number, policyId: string, categoryId: string, custom: boolean) =>
+    `${policyBase(configId, version, policyId)}/${custom ? 'custom' : 'akamai'}-bot-category-actions/${categoryId}`,
+  transactionalEndpoints: (configId: number, version: number, policyId: string) =>
+    `${policyBase(configId, version, policyId)}/transactional-endpoints/bot-protection`,
+  transactionalEndpoint: (configId: number, version: number, policyId: string, operationId: string) =>
+    `${policyBase(configId, version, policyId)}/transactional-endpoints/bot-protection/${operationId}`,
+  javascriptInjection: (configId: number, version: number, policyId: string) =>
+    `${policyBase(configId, version, policyId)}/javascript-injection`
+};
+
+const ConfigIdSchema = z.number().int().positive().describe('Security configuration ID');
+const VersionSchema = z.number().int().positive().optional()
+  .describe('Configuration version (defaults to the latest version)');
+const PolicyIdSchema = z.string().describe('Security policy ID, e.g. "pol_12345"');
+const ConfigSchema = CustomerSchema.extend({
+  configId: ConfigIdSchema,
+  version: VersionSchema
+});
+const PolicySchema = ConfigSchema.extend({
+  policyId: PolicyIdSchema
+});
+const BotActionSchema = z.string().min(1)
+  .describe('monitor, deny, skip, delay, slow, tarpit, a challenge action, a custom deny (deny_custom_<id>) or a conditional action (cond_action_<id>)');
+
+/**
+ * Ways a custom bot or custom client is recognized; at least one is required
+ */
+const ClientConditionsSchema = z.object({
+  userAgents: z.array(z.string().min(1)).optional().describe('User-Agent values; * matches any characters'),
+  networkListIds: z.array(z.string().min(1)).optional().describe('Network lists of the client\'s IP addresses'),
+  tlsFingerprints: z.array(z.string().min(1)).optional().describe('TLS (JA3) fingerprints')
+});
+
+/**
+ * Bot Manager Tool Schemas
+ */
+export const BotManagerToolSchemas = {
+  listCustomCategories: ConfigSchema,
+
+  createCustomCategory: ConfigSchema.extend({
+    categoryName: z.string().min(1),
+    description: z.string().optional()
+  }),
+
+  updateCustomCategory: ConfigSchema.extend({
+    categoryId: z.string(),
+    categoryName: z.string().min(1).optional(),
+    description: z.string().optional()
+  }),
+
+  deleteCustomCategory: ConfigSchema.extend({
+    categoryId: z.string()
+  }),
+
+  listCustomBots: ConfigSchema.extend({
+    categoryId: z.string().optional().describe('Only bots of this custom category')
+  }),
+
+  createCustomBot: ConfigSchema.extend({
+    ...ClientConditionsSchema.shape,
+    botName: z.string().min(1),
+    categoryId: z.string().describe('Custom bot category the bot belongs to'),
+    notes: z.string().optional()
+  }),
+
+  deleteCustomBot: ConfigSchema.extend({
+    botId: z.string()
+  }),
+
+  listCustomClients: ConfigSchema,
+
+  createCustomClient: ConfigSchema.extend({
+    ...ClientConditionsSchema.shape,
+    customClientName: z.string().min(1),
+    clientType: z.enum(['BROWSER', 'NATIVE_APP', 'SERVER']).optional().default('NATIVE_APP'),
+    platforms: z.array(z.enum(['ANDROID', 'IOS', 'WINDOWS', 'MACOS', 'LINUX'])).optional(),
+    notes: z.string().optional()
+  }),
+
+  deleteCustomClient: ConfigSchema.extend({
+    customClientId: z.string()
+  }),
+
+  getCategoryActions: PolicySchema,
+
+  updateCategoryAction: PolicySchema.extend({
+    categoryId: z.string(),
+    custom: z.boolean().optional().default(false).describe('The category is a custom bot category'),
+    action: BotActionSchema
+  }),
+
+  listTransactionalEndpoints: PolicySchema,
+
+  updateTransactionalEndpoint: PolicySchema.extend({
+    operationId: z.string().describe('API operation protected as a transactional endpoint'),
+    telemetryType: z.enum(['standardTelemetry', 'inlineTelemetry', 'nativeSdkIos', 'nativeSdkAndroid'])
+      .optional().default('standardTelemetry'),
+    strictThreshold: z.number().int().min(0).max(100).optional().describe('Bot score from which the strict action applies'),
+    strictAction: BotActionSchema.optional(),
+    aggressiveThreshold: z.number().int().min(0).max(100).optional().describe('Bot score from which the aggressive action applies'),
+    aggressiveAction: BotActionSchema.optional()
+  }),
+
+  getJavascriptInjection: PolicySchema,
+
+  updateJavascriptInjection: PolicySchema.extend({
+    injectJavaScript: z.enum(['AROUND_PROTECTED_OPERATIONS', 'ALWAYS', 'NEVER'])
+      .describe('Pages the bot detection JavaScript is injected into')
+  }),
+
+  diffBotActions: ConfigSchema.extend({
+    policyIds: z.array(PolicyIdSchema).min(2).optional().describe('Policies to compare (defaults to every policy)'),
+    includeConsistent: z.boolean().optional().default(false).describe('Also list categories every policy treats alike'),
+    format: z.enum(['text', 'json']).optional().default('text')
+  })
+};
+
+export type ClientConditions = z.infer<typeof ClientConditionsSchema>;
+
+/**
+ * Response types for Bot Manager operations
+ */
+export interface BotCategory {
+  categoryId: string;
+  categoryName: string;
+  metadata?: { description?: string; [field: string]: unknown };
+}
+
+export interface BotCondition {
+  type: string;
+  [field: string]: unknown;
+}
+
+export interface CustomBot {
+  botId: string;
+  botName: string;
+  categoryId: string;
+  conditions?: BotCondition[];
+  notes?: string;
+}
+
+export interface CustomClient {
+  customClientId: string;
+  customClientName: string;
+  clientType?: string;
+  platforms?: string[];
+  conditions?: BotCondition[];
+  notes?: string;
+}
+
+export interface BotCategoryAction {
+  categoryId: string;
+  action: string;
+}
+
+export interface TransactionalEndpoint {
+  operationId: string;
+  apiEndPointId?: number;
+  traffic?: Record<string, {
+    strictThreshold?: number;
+    strictAction?: string;
+    aggressiveThreshold?: number;
+    aggressiveAction?: string;
+    [field: string]: unknown;
+  }>;
+  [field: string]: unknown;
+}
+
+export interface JavascriptInjection {
+  injectJavaScript: string;
+  [field: string]: unknown;
+}
@@ -0,0 +1,647 @@
+/**
+ * Bot Manager Tools Implementation
+ *
+ * Bot Manager Premier management: custom bot categories and the custom bots
+ * in them, custom clients, bot category actions per policy, transactional
+ * endpoint protection, JavaScript injection, and a diff of bot category
+ * actions across policies
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import { latestConfigVersion } from '../appsec-config/appsec-config-tools';
+import {
+  BotManagerEndpoints,
+  BotManagerToolSchemas,
+  type BotCategory,
+  type BotCategoryAction,
+  type CustomBot,
+  type CustomClient,
+  type JavascriptInjection,
+  type TransactionalEndpoint
+} from './bot-manager-api-implementation';
+import {
+  type BotActionDiff,
+  type PolicyBotActions,
+  NOT_SET,
+  clientConditions,
+  describeConditions,
+  diffBotCategoryActions
+} from './bot-manager';
+
+const INJECTION_LABELS: Record<string, string> = {
+  AROUND_PROTECTED_OPERATIONS: 'pages around protected operations',
+  ALWAYS: 'every HTML page',
+  NEVER: 'no pages'
+};
+
+async function fetchAkamaiCategories(client: AkamaiClient): Promise<BotCategory[]> {
+  const { categories = [] } = await client.request<{ categories?: BotCategory[] }>({
+    path: BotManagerEndpoints.akamaiCategories(),
+    method: 'GET'
+  });
+  return categories;
+}
+
+async function fetchCustomCategories(client: AkamaiClient, configId: number, version: number): Promise<BotCategory[]> {
+  const { categories = [] } = await client.request<{ categories?: BotCategory[] }>({
+    path: BotManagerEndpoints.customCategories(configId, version),
+    method: 'GET'
+  });
+  return categories;
+}
+
+async function fetchCategoryActions(
+  client: AkamaiClient,
+  configId: number,
+  version: number,
+  policyId: string,
+  custom: boolean
+): Promise<BotCategoryAction[]> {
+  const { actions = [] } = await client.request<{ actions?: BotCategoryAction[] }>({
+    path: BotManagerEndpoints.categoryActions(configId, version, policyId, custom),
+    method: 'GET'
+  });
+  return actions;
+}
+
+function formatCategory(category: BotCategory, bots: CustomBot[] = []): string {
+  const description = category.metadata?.description ? ` — ${category.metadata.description}` : '';
+  return `• **${category.categoryName}** (${category.categoryId})${description}` +
+    `${bots.length > 0 ? ` | ${bots.length} bots` : ''}\n`;
+}
+
+function formatCustomBot(bot: CustomBot): string {
+  return `• **${bot.botName}** (${bot.botId}) | ${describeConditions(bot.conditions) || 'no conditions'}` +
+    `${bot.notes ? ` | ${bot.notes}` : ''}\n`;
+}
+
+function formatCustomClient(customClient: CustomClient): string {
+  return `• **${customClient.customClientName}** (${customClient.customClientId})` +
+    `${customClient.clientType ? ` | ${customClient.clientType}` : ''}` +
+    `${customClient.platforms?.length ? ` on ${customClient.platforms.join(', ')}` : ''}` +
+    ` | ${describeConditions(customClient.conditions) || 'no conditions'}\n`;
+}
+
+function formatTransactionalEndpoint(endpoint: TransactionalEndpoint): string {
+  let text = `• Operation ${endpoint.operationId}${endpoint.apiEndPointId ? ` (API ${endpoint.apiEndPointId})` : ''}\n`;
+  Object.entries(endpoint.traffic || {}).forEach(([telemetryType, settings]) => {
+    text += `  ${telemetryType}: score ≥ ${settings.strictThreshold ?? '?'} → ${settings.strictAction || 'monitor'}, ` +
+      `score ≥ ${settings.aggressiveThreshold ?? '?'} → ${settings.aggressiveAction || 'monitor'}\n`;
+  });
+  return text;
+}
+
+function formatBotActionDiff(diff: BotActionDiff, includeConsistent: boolean): string {
+  const policyLabel = new Map(diff.policies.map(policy => [policy.policyId, policy.policyName || policy.policyId]));
+  const rows = diff.rows.filter(row => includeConsistent || !row.consistent);
+
+  let text = `🤖 **Bot Action Diff**: ${diff.policies.map(policy => policyLabel.get(policy.policyId)).join(', ')}\n` +
+    `${diff.inconsistent} of ${diff.categories} categories are treated differently\n`;
+  if (rows.length === 0) {
+    return `${text}\nEvery policy gives each bot category the same action.`;
+  }
+
+  (['Akamai categories', 'Custom categories'] as const).forEach((title, index) => {
+    const section = rows.filter(row => row.custom === (index === 1));
+    if (section.length === 0) {
+      return;
+    }
+    text += `\n**${title}**:\n`;
+    section.forEach(row => {
+      text += `${row.consistent ? '✅' : '⚠️'} ${row.categoryName}: ` +
+        `${row.byAction.map(group => `${group.action} (${group.policyIds.map(id => policyLabel.get(id)).join(', ')})`).join(' | ')}\n`;
+    });
+  });
+
+  if (diff.rows.some(row => !row.consistent && row.byAction.some(group => group.action === NOT_SET))) {
+    text += `\n"${NOT_SET}" means the policy has no action for the category.`;
+  }
+  return text;
+}
+
+/**
+ * List custom bot categories with the number of custom bots in each
+ */
+export async function listCustomCategories(
+  args: z.infer<typeof BotManagerToolSchemas.listCustomCategories>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_category_list',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const categories = await fetchCustomCategories(client, args.configId, version);
+      const { bots = [] } = await client.request<{ bots?: CustomBot[] }>({
+        path: BotManagerEndpoints.customBots(args.configId, version),
+        method: 'GET'
+      });
+      return { version, categories, bots };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, categories, bots }) => `🗂️ **Custom Bot Categories** of configuration ${args.configId} v${version} ` +
+        `(${categories.length})\n\n` +
+        categories.map(category => formatCategory(category, bots.filter(bot => bot.categoryId === category.categoryId))).join('')
+    }
+  );
+}
+
+/**
+ * Create a custom bot category
+ */
+export async function createCustomCategory(
+  args: z.infer<typeof BotManagerToolSchemas.createCustomCategory>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_category_create',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const category = await client.request<BotCategory>({
+        path: BotManagerEndpoints.customCategories(args.configId, version),
+        method: 'POST',
+        body: {
+          categoryName: args.categoryName,
+          ...(args.description && { metadata: { description: args.description } })
+        }
+      });
+      return { version, category };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, category }) => `✅ Custom bot category created in version ${version}\n\n${formatCategory(category)}\n` +
+        'Add bots to it with security_custom_bot_create and set its action per policy with security_bot_category_action_update.'
+    }
+  );
+}
+
+/**
+ * Rename a custom bot category or change its description
+ */
+export async function updateCustomCategory(
+  args: z.infer<typeof BotManagerToolSchemas.updateCustomCategory>
+): Promise<MCPToolResponse> {
+  if (args.categoryName === undefined && args.description === undefined) {
+    throw new Error('Nothing to update: provide categoryName or description');
+  }
+
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_category_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const path = BotManagerEndpoints.customCategory(args.configId, version, args.categoryId);
+      const current = await client.request<BotCategory>({ path, method: 'GET' });
+      const category = await client.request<BotCategory>({
+        path,
+        method: 'PUT',
+        body: {
+          ...current,
+          ...(args.categoryName && { categoryName: args.categoryName }),
+          ...(args.description !== undefined && { metadata: { ...current.metadata, description: args.description } })
+        }
+      });
+      return { version, category };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, category }) => `✅ Custom bot category updated in version ${version}\n\n${formatCategory(category)}`
+    }
+  );
+}
+
+/**
+ * Delete a custom bot category
+ */
+export async function deleteCustomCategory(
+  args: z.infer<typeof BotManagerToolSchemas.deleteCustomCategory>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_category_delete',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      await client.request({
+        path: BotManagerEndpoints.customCategory(args.configId, version, args.categoryId),
+        method: 'DELETE'
+      });
+      return { version };
+    },
+    {
+      format: 'text',
+      formatter: ({ version }) => `🗑️ Custom bot category ${args.categoryId} deleted from version ${version}`
+    }
+  );
+}
+
+/**
+ * List custom-defined bots and the conditions that recognize them
+ */
+export async function listCustomBots(args: z.infer<typeof BotManagerToolSchemas.listCustomBots>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_list',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const { bots = [] } = await client.request<{ bots?: CustomBot[] }>({
+        path: BotManagerEndpoints.customBots(args.configId, version),
+        method: 'GET'
+      });
+      const categories = await fetchCustomCategories(client, args.configId, version);
+      return { version, bots: bots.filter(bot => !args.categoryId || bot.categoryId === args.categoryId), categories };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, bots, categories }) => {
+        let text = `🤖 **Custom Bots** of configuration ${args.configId} v${version} (${bots.length})\n`;
+        const categoryName = new Map(categories.map(category => [category.categoryId, category.categoryName]));
+        [...new Set(bots.map(bot => bot.categoryId))].forEach(categoryId => {
+          text += `\n**${categoryName.get(categoryId) || categoryId}**:\n`;
+          bots.filter(bot => bot.categoryId === categoryId).forEach(bot => {
+            text += formatCustomBot(bot);
+          });
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Define a custom bot by user agent, network list or TLS fingerprint
+ */
+export async function createCustomBot(args: z.infer<typeof BotManagerToolSchemas.createCustomBot>): Promise<MCPToolResponse> {
+  const conditions = clientConditions(args);
+
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_create',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const bot = await client.request<CustomBot>({
+        path: BotManagerEndpoints.customBots(args.configId, version),
+        method: 'POST',
+        body: {
+          botName: args.botName,
+          categoryId: args.categoryId,
+          conditions,
+          ...(args.notes && { notes: args.notes })
+        }
+      });
+      return { version, bot };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, bot }) => `✅ Custom bot created in version ${version}\n\n${formatCustomBot(bot)}`
+    }
+  );
+}
+
+/**
+ * Delete a custom-defined bot
+ */
+export async function deleteCustomBot(args: z.infer<typeof BotManagerToolSchemas.deleteCustomBot>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_bot_delete',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      await client.request({
+        path: BotManagerEndpoints.customBot(args.configId, version, args.botId),
+        method: 'DELETE'
+      });
+      return { version };
+    },
+    {
+      format: 'text',
+      formatter: ({ version }) => `🗑️ Custom bot ${args.botId} deleted from version ${version}`
+    }
+  );
+}
+
+/**
+ * List custom clients
+ */
+export async function listCustomClients(
+  args: z.infer<typeof BotManagerToolSchemas.listCustomClients>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_client_list',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const { customClients = [] } = await client.request<{ customClients?: CustomClient[] }>({
+        path: BotManagerEndpoints.customClients(args.configId, version),
+        method: 'GET'
+      });
+      return { version, customClients };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, customClients }) => `📱 **Custom Clients** of configuration ${args.configId} v${version} ` +
+        `(${customClients.length})\n\n${customClients.map(formatCustomClient).join('')}`
+    }
+  );
+}
+
+/**
+ * Define a custom client, such as a native app, for transactional endpoint protection
+ */
+export async function createCustomClient(
+  args: z.infer<typeof BotManagerToolSchemas.createCustomClient>
+): Promise<MCPToolResponse> {
+  const conditions = clientConditions(args);
+
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_client_create',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const customClient = await client.request<CustomClient>({
+        path: BotManagerEndpoints.customClients(args.configId, version),
+        method: 'POST',
+        body: {
+          customClientName: args.customClientName,
+          clientType: args.clientType,
+          ...(args.platforms && { platforms: args.platforms }),
+          conditions,
+          ...(args.notes && { notes: args.notes })
+        }
+      });
+      return { version, customClient };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, customClient }) => `✅ Custom client created in version ${version}\n\n${formatCustomClient(customClient)}`
+    }
+  );
+}
+
+/**
+ * Delete a custom client
+ */
+export async function deleteCustomClient(
+  args: z.infer<typeof BotManagerToolSchemas.deleteCustomClient>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_custom_client_delete',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      await client.request({
+        path: BotManagerEndpoints.customClient(args.configId, version, args.customClientId),
+        method: 'DELETE'
+      });
+      return { version };
+    },
+    {
+      format: 'text',
+      formatter: ({ version }) => `🗑️ Custom client ${args.customClientId} deleted from version ${version}`
+    }
+  );
+}
+
+/**
+ * Get the actions a policy takes on Akamai and custom bot categories
+ */
+export async function getCategoryActions(
+  args: z.infer<typeof BotManagerToolSchemas.getCategoryActions>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_bot_category_actions_get',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const [akamai, custom] = await Promise.all([
+        fetchCategoryActions(client, args.configId, version, args.policyId, false),
+        fetchCategoryActions(client, args.configId, version, args.policyId, true)
+      ]);
+      const categories = [...await fetchAkamaiCategories(client), ...await fetchCustomCategories(client, args.configId, version)];
+      return { version, akamai, custom, categories };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, akamai, custom, categories }) => {
+        const categoryName = new Map(categories.map(category => [category.categoryId, category.categoryName]));
+        const list = (actions: BotCategoryAction[]): string => actions
+          .map(action => `• ${categoryName.get(action.categoryId) || action.categoryId}: ${action.action}\n`)
+          .join('');
+        return `🤖 **Bot Category Actions** of ${args.policyId} (version ${version})\n\n` +
+          `**Akamai categories**:\n${list(akamai)}` +
+          `${custom.length > 0 ? `\n**Custom categories**:\n${list(custom)}` : ''}`;
+      }
+    }
+  );
+}
+
+/**
+ * Set the action a policy takes on an Akamai or custom bot category
+ */
+export async function updateCategoryAction(
+  args: z.infer<typeof BotManagerToolSchemas.updateCategoryAction>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_bot_category_action_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const result = await client.request<BotCategoryAction>({
+        path: BotManagerEndpoints.categoryAction(args.configId, version, args.policyId, args.categoryId, args.custom),
+        method: 'PUT',
+        body: { action: args.action }
+      });
+      return { version, result };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, result }) => `✅ ${args.custom ? 'Custom bot' : 'Bot'} category ${args.categoryId} of ${args.policyId} ` +
+        `set to ${result.action || args.action} in version ${version}`
+    }
+  );
+}
+
+/**
+ * List the API operations a policy protects as transactional endpoints
+ */
+export async function listTransactionalEndpoints(
+  args: z.infer<typeof BotManagerToolSchemas.listTransactionalEndpoints>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_transactional_endpoint_list',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const { operations = [] } = await client.request<{ operations?: TransactionalEndpoint[] }>({
+        path: BotManagerEndpoints.transactionalEndpoints(args.configId, version, args.policyId),
+        method: 'GET'
+      });
+      return { version, operations };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, operations }) => `🔐 **Transactional Endpoints** of ${args.policyId} (version ${version}, ` +
+        `${operations.length})\n\n${operations.map(formatTransactionalEndpoint).join('')}`
+    }
+  );
+}
+
+/**
+ * Change the bot score thresholds and actions of a transactional endpoint
+ */
+export async function updateTransactionalEndpoint(
+  args: z.infer<typeof BotManagerToolSchemas.updateTransactionalEndpoint>
+): Promise<MCPToolResponse> {
+  const changes = {
+    ...(args.strictThreshold !== undefined && { strictThreshold: args.strictThreshold }),
+    ...(args.strictAction && { strictAction: args.strictAction }),
+    ...(args.aggressiveThreshold !== undefined && { aggressiveThreshold: args.aggressiveThreshold }),
+    ...(args.aggressiveAction && { aggressiveAction: args.aggressiveAction })
+  };
+  if (Object.keys(changes).length === 0) {
+    throw new Error('Nothing to update: provide strictThreshold, strictAction, aggressiveThreshold or aggressiveAction');
+  }
+
+  return BaseTool.execute(
+    'appsec',
+    'security_transactional_endpoint_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const path = BotManagerEndpoints.transactionalEndpoint(args.configId, version, args.policyId, args.operationId);
+      const current = await client.request<TransactionalEndpoint>({ path, method: 'GET' });
+
+      const settings = { ...current.traffic?.[args.telemetryType], ...changes };
+      if ((settings.strictThreshold ?? 0) > (settings.aggressiveThreshold ?? 100)) {
+        throw new Error(`strictThreshold (${settings.strictThreshold}) must not exceed aggressiveThreshold (${settings.aggressiveThreshold})`);
+      }
+      const result = await client.request<TransactionalEndpoint>({
+        path,
+        method: 'PUT',
+        body: { ...current, traffic: { ...current.traffic, [args.telemetryType]: settings } }
+      });
+      return { version, result };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, result }) => `✅ Transactional endpoint updated in version ${version}\n\n${formatTransactionalEndpoint(result)}`
+    }
+  );
+}
+
+/**
+ * Get where a policy injects the bot detection JavaScript
+ */
+export async function getJavascriptInjection(
+  args: z.infer<typeof BotManagerToolSchemas.getJavascriptInjection>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_javascript_injection_get',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      return client.request<JavascriptInjection>({
+        path: BotManagerEndpoints.javascriptInjection(args.configId, version, args.policyId),
+        method: 'GET'
+      });
+    },
+    {
+      format: 'text',
+      formatter: (injection) => `📜 JavaScript injection of ${args.policyId}: ` +
+        `${INJECTION_LABELS[injection.injectJavaScript] || injection.injectJavaScript}`
+    }
+  );
+}
+
+/**
+ * Change where a policy injects the bot detection JavaScript
+ */
+export async function updateJavascriptInjection(
+  args: z.infer<typeof BotManagerToolSchemas.updateJavascriptInjection>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_javascript_injection_update',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const path = BotManagerEndpoints.javascriptInjection(args.configId, version, args.policyId);
+      const current = await client.request<JavascriptInjection>({ path, method: 'GET' });
+      const result = await client.request<JavascriptInjection>({
+        path,
+        method: 'PUT',
+        body: { ...current, injectJavaScript: args.injectJavaScript }
+      });
+      return { version, result };
+    },
+    {
+      format: 'text',
+      formatter: ({ version, result }) => `✅ JavaScript injection of ${args.policyId} set to ` +
+        `${INJECTION_LABELS[result.injectJavaScript] || result.injectJavaScript} in version ${version}` +
+        `${result.injectJavaScript === 'NEVER' ? '\n⚠️ Without the JavaScript, browser-based bot detections cannot run' : ''}`
+    }
+  );
+}
+
+/**
+ * Compare bot category actions across the policies of a configuration
+ */
+export async function diffBotActions(args: z.infer<typeof BotManagerToolSchemas.diffBotActions>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_bot_action_diff',
+    args,
+    async (client) => {
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+      const { policies = [] } = await client.request<{ policies?: Array<{ policyId: string; policyName?: string }> }>({
+        path: BotManagerEndpoints.policies(args.configId, version),
+        method: 'GET'
+      });
+
+      const selected = args.policyIds
+        ? args.policyIds.map(policyId => policies.find(policy => policy.policyId === policyId) || { policyId })
+        : policies;
+      if (selected.length < 2) {
+        throw new Error(`Need at least two security policies to compare; configuration ${args.configId} v${version} has ${selected.length}`);
+      }
+
+      const policyActions: PolicyBotActions[] = [];
+      for (const policy of selected) {
+        policyActions.push({
+          ...policy,
+          akamai: await fetchCategoryActions(client, args.configId, version, policy.policyId, false),
+          custom: await fetchCategoryActions(client, args.configId, version, policy.policyId, true)
+        });
+      }
+
+      const diff = diffBotCategoryActions(
+        policyActions,
+        await fetchAkamaiCategories(client),
+        await fetchCustomCategories(client, args.configId, version)
+      );
+      return { version, ...diff, rows: args.includeConsistent ? diff.rows : diff.rows.filter(row => !row.consistent) };
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : {
+        format: 'text',
+        formatter: ({ version, ...diff }) => `Configuration ${args.configId} v${version}\n` +
+          formatBotActionDiff(diff, args.includeConsistent)
+      }
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Bot Manager Conditions and Action Diff
+ *
+ * Builds the conditions that recognize a custom bot or custom client, and
+ * compares the bot category actions of security policies to find categories
+ * that policies treat inconsistently.
+ */
+
+import type {
+  BotCategory,
+  BotCategoryAction,
+  BotCondition,
+  ClientConditions
+} from './bot-manager-api-implementation';
+
+export interface PolicyBotActions {
+  policyId: string;
+  policyName?: string;
+  akamai: BotCategoryAction[];
+  custom: BotCategoryAction[];
+}
+
+export interface BotActionDiffRow {
+  categoryId: string;
+  categoryName: string;
+  custom: boolean;
+  // Action per policy ID; 'not set' when the policy has no action for the category
+  actions: Record<string, string>;
+  // Policy IDs per action, most permissive action first
+  byAction: Array<{ action: string; policyIds: string[] }>;
+  consistent: boolean;
+}
+
+export interface BotActionDiff {
+  policies: Array<{ policyId: string; policyName?: string }>;
+  rows: BotActionDiffRow[];
+  // Categories compared and how many of them are treated differently
+  categories: number;
+  inconsistent: number;
+}
+
+export const NOT_SET = 'not set';
+
+/**
+ * How strongly an action stops a bot, to order actions from permissive to strict
+ */
+export function botActionStrictness(action: string): number {
+  if (action === NOT_SET || action === 'skip') {
+    return 0;
+  }
+  if (action === 'monitor') {
+    return 1;
+  }
+  if (action === 'delay' || action === 'slow' || action.startsWith('cond_action')) {
+    return 2;
+  }
+  if (action === 'tarpit' || action.includes('challenge')) {
+    return 3;
+  }
+  return action === 'deny' || action.startsWith('deny_custom') ? 4 : 2;
+}
+
+/**
+ * Conditions matching any of the given user agents, network lists or TLS fingerprints
+ */
+export function clientConditions(conditions: ClientConditions): BotCondition[] {
+  const result: BotCondition[] = [];
+  if (conditions.userAgents?.length) {
+    result.push({
+      type: 'requestHeaderCondition',
+      name: ['User-Agent'],
+      value: conditions.userAgents,
+      positiveMatch: true,
+      valueWildcard: true
+    });
+  }
+  if (conditions.networkListIds?.length) {
+    result.push({ type: 'ipMatchCondition', value: conditions.networkListIds, useHeaders: false, positiveMatch: true });
+  }
+  if (conditions.tlsFingerprints?.length) {
+    result.push({ type: 'tlsFingerprintCondition', value: conditions.tlsFingerprints, positiveMatch: true });
+  }
+  if (result.length === 0) {
+    throw new Error('Provide at least one of userAgents, networkListIds or tlsFingerprints');
+  }
+  return result;
+}
+
+/**
+ * One-line description of conditions, e.g. "User-Agent MyApp/*; IPs 123_TRUSTED"
+ */
+export function describeConditions(conditions: BotCondition[] = []): string {
+  return conditions.map(condition => {
+    const values = Array.isArray(condition['value']) ? (condition['value'] as unknown[]).join(', ') : String(condition['value'] ?? '');
+    const negated = condition['positiveMatch'] === false ? 'not ' : '';
+    switch (condition.type) {
+      case 'requestHeaderCondition': {
+        const names = Array.isArray(condition['name']) ? (condition['name'] as unknown[]).join(', ') : 'header';
+        return `${names} ${negated}${values}`;
+      }
+      case 'ipMatchCondition':
+        return `IPs ${negated}${values}`;
+      case 'tlsFingerprintCondition':
+        return `TLS fingerprint ${negated}${values}`;
+      default:
+        return `${condition.type} ${negated}${values}`;
+    }
+  }).join('; ');
+}
+
+/**
+ * Bot category actions of several policies side by side
+ * Categories are listed Akamai categories first, then custom categories;
+ * a category is inconsistent when two policies give it different actions.
+ */
+export function diffBotCategoryActions(
+  policies: PolicyBotActions[],
+  akamaiCategories: BotCategory[],
+  customCategories: BotCategory[]
+): BotActionDiff {
+  const names = new Map<string, string>();
+  [...akamaiCategories, ...customCategories].forEach(category => names.set(category.categoryId, category.categoryName));
+
+  const rowsFor = (custom: boolean): BotActionDiffRow[] => {
+    const categoryIds = new Set<string>();
+    policies.forEach(policy => (custom ? policy.custom : policy.akamai).forEach(action => categoryIds.add(action.categoryId)));
+
+    return [...categoryIds].map(categoryId => {
+      const actions: Record<string, string> = {};
+      policies.forEach(policy => {
+        actions[policy.policyId] = (custom ? policy.custom : policy.akamai)
+          .find(action => action.categoryId === categoryId)?.action || NOT_SET;
+      });
+
+      const grouped = new Map<string, string[]>();
+      Object.entries(actions).forEach(([policyId, action]) => grouped.set(action, [...(grouped.get(action) || []), policyId]));
+      const byAction = [...grouped.entries()]
+        .map(([action, policyIds]) => ({ action, policyIds }))
+        .sort((a, b) => botActionStrictness(a.action) - botActionStrictness(b.action) || a.action.localeCompare(b.action));
+
+      return {
+        categoryId,
+        categoryName: names.get(categoryId) || categoryId,
+        custom,
+        actions,
+        byAction,
+        consistent: byAction.length === 1
+      };
+    }).sort((a, b) => a.categoryName.localeCompare(b.categoryName));
+  };
+
+  const rows = [...rowsFor(false), ...rowsFor(true)];
+  return {
+    policies: policies.map(policy => ({ policyId: policy.policyId, ...(policy.policyName && { policyName: policy.policyName }) })),
+    rows,
+    categories: rows.length,
+    inconsistent: rows.filter(row => !row.consistent).length
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Bot Manager Domain Export Module
+ *
+ * Exports Bot Manager Premier tools using the standard BaseTool pattern
+ */
+
+import {
+  listCustomCategories,
+  createCustomCategory,
+  updateCustomCategory,
+  deleteCustomCategory,
+  listCustomBots,
+  createCustomBot,
+  deleteCustomBot,
+  listCustomClients,
+  createCustomClient,
+  deleteCustomClient,
+  getCategoryActions,
+  updateCategoryAction,
+  diffBotActions,
+  listTransactionalEndpoints,
+  updateTransactionalEndpoint,
+  getJavascriptInjection,
+  updateJavascriptInjection
+} from './bot-manager-tools';
+import { BotManagerToolSchemas } from './bot-manager-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface BotManagerTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * Bot Manager Domain Tools with handlers
+ */
+export const botManagerTools: Record<string, BotManagerTool> = {
+  // Custom Bot Categories
+  'security_custom_bot_category_list': {
+    name: 'security_custom_bot_category_list',
+    description: 'List custom bot categories of a security configuration with the number of custom bots in each',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.listCustomCategories),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.listCustomCategories.parse(args);
+      return listCustomCategories(validatedArgs);
+    }
+  },
+
+  'security_custom_bot_category_create': {
+    name: 'security_custom_bot_category_create',
+    description: 'Create a custom bot category',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.createCustomCategory),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.createCustomCategory.parse(args);
+      return createCustomCategory(validatedArgs);
+    }
+  },
+
+  'security_custom_bot_category_update': {
+    name: 'security_custom_bot_category_update',
+    description: 'Rename a custom bot category or change its description',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.updateCustomCategory),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.updateCustomCategory.parse(args);
+      return updateCustomCategory(validatedArgs);
+    }
+  },
+
+  'security_custom_bot_category_delete': {
+    name: 'security_custom_bot_category_delete',
+    description: 'Delete a custom bot category',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.deleteCustomCategory),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.deleteCustomCategory.parse(args);
+      return deleteCustomCategory(validatedArgs);
+    }
+  },
+
+  // Custom Bots
+  'security_custom_bot_list': {
+    name: 'security_custom_bot_list',
+    description: 'List custom-defined bots and the conditions that recognize them',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.listCustomBots),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.listCustomBots.parse(args);
+      return listCustomBots(validatedArgs);
+    }
+  },
+
+  'security_custom_bot_create': {
+    name: 'security_custom_bot_create',
+    description: 'Define a custom bot in a custom category by user agent, network list or TLS fingerprint',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.createCustomBot),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.createCustomBot.parse(args);
+      return createCustomBot(validatedArgs);
+    }
+  },
+
+  'security_custom_bot_delete': {
+    name: 'security_custom_bot_delete',
+    description: 'Delete a custom-defined bot',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.deleteCustomBot),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.deleteCustomBot.parse(args);
+      return deleteCustomBot(validatedArgs);
+    }
+  },
+
+  // Custom Clients
+  'security_custom_client_list': {
+    name: 'security_custom_client_list',
+    description: 'List custom clients used by transactional endpoint protection',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.listCustomClients),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.listCustomClients.parse(args);
+      return listCustomClients(validatedArgs);
+    }
+  },
+
+  'security_custom_client_create': {
+    name: 'security_custom_client_create',
+    description: 'Define a custom client, such as a native app, by user agent, network list or TLS fingerprint',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.createCustomClient),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.createCustomClient.parse(args);
+      return createCustomClient(validatedArgs);
+    }
+  },
+
+  'security_custom_client_delete': {
+    name: 'security_custom_client_delete',
+    description: 'Delete a custom client',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.deleteCustomClient),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.deleteCustomClient.parse(args);
+      return deleteCustomClient(validatedArgs);
+    }
+  },
+
+  // Category Actions
+  'security_bot_category_actions_get': {
+    name: 'security_bot_category_actions_get',
+    description: 'Get the actions a security policy takes on Akamai and custom bot categories',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.getCategoryActions),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.getCategoryActions.parse(args);
+      return getCategoryActions(validatedArgs);
+    }
+  },
+
+  'security_bot_category_action_update': {
+    name: 'security_bot_category_action_update',
+    description: 'Set the action a security policy takes on an Akamai or custom bot category',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.updateCategoryAction),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.updateCategoryAction.parse(args);
+      return updateCategoryAction(validatedArgs);
+    }
+  },
+
+  'security_bot_action_diff': {
+    name: 'security_bot_action_diff',
+    description: 'Compare bot category actions across security policies and show categories that policies treat inconsistently',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.diffBotActions),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.diffBotActions.parse(args);
+      return diffBotActions(validatedArgs);
+    }
+  },
+
+  // Transactional Endpoint Protection
+  'security_transactional_endpoint_list': {
+    name: 'security_transactional_endpoint_list',
+    description: 'List the API operations a security policy protects as transactional endpoints',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.listTransactionalEndpoints),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.listTransactionalEndpoints.parse(args);
+      return listTransactionalEndpoints(validatedArgs);
+    }
+  },
+
+  'security_transactional_endpoint_update': {
+    name: 'security_transactional_endpoint_update',
+    description: 'Change the bot score thresholds and actions of a transactional endpoint',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.updateTransactionalEndpoint),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.updateTransactionalEndpoint.parse(args);
+      return updateTransactionalEndpoint(validatedArgs);
+    }
+  },
+
+  // JavaScript Injection
+  'security_javascript_injection_get': {
+    name: 'security_javascript_injection_get',
+    description: 'Get where a security policy injects the bot detection JavaScript',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.getJavascriptInjection),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.getJavascriptInjection.parse(args);
+      return getJavascriptInjection(validatedArgs);
+    }
+  },
+
+  'security_javascript_injection_update': {
+    name: 'security_javascript_injection_update',
+    description: 'Change where a security policy injects the bot detection JavaScript',
+    inputSchema: zodToJsonSchema(BotManagerToolSchemas.updateJavascriptInjection),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = BotManagerToolSchemas.updateJavascriptInjection.parse(args);
+      return updateJavascriptInjection(validatedArgs);
+    }
+  }
+};
+
+export default botManagerTools;
@@ -0,0 +1,148 @@
+/**
+ * Client Lists API Implementation
+ *
+ * Client lists from Akamai's Client Lists API. Unlike network lists they
+ * hold TLS fingerprints and file hashes, and each item carries its own
+ * description, tags and expiration date.
+ *
+ * API Documentation: https://techdocs.akamai.com/client-lists/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for Client Lists API
+ */
+export const CLIENT_LIST_API_BASE = '/client-list/v1';
+
+export type ClientListType = 'IP' | 'GEO' | 'ASN' | 'TLS_FINGERPRINT' | 'FILE_HASH';
+
+export type ClientListNetwork = 'STAGING' | 'PRODUCTION';
+
+/**
+ * Client Lists API Endpoints
+ */
+export const ClientListEndpoints = {
+  lists: () => `${CLIENT_LIST_API_BASE}/lists`,
+  list: (listId: string) => `${CLIENT_LIST_API_BASE}/lists/${listId}`,
+  items: (listId: string) => `${CLIENT_LIST_API_BASE}/lists/${listId}/items`,
+  activations: (listId: string) => `${CLIENT_LIST_API_BASE}/lists/${listId}/activations`,
+  activationStatus: (listId: string, network: ClientListNetwork) =>
+    `${CLIENT_LIST_API_BASE}/lists/${listId}/environments/${network}/status`
+};
+
+const ClientListTypeSchema = z.enum(['IP', 'GEO', 'ASN', 'TLS_FINGERPRINT', 'FILE_HASH']);
+const NetworkSchema = z.enum(['STAGING', 'PRODUCTION']);
+
+export const ClientListItemSchema = z.object({
+  value: z.string().min(1).describe('IP or CIDR, country code, ASN, TLS fingerprint or SHA-256 file hash'),
+  description: z.string().max(255).optional(),
+  tags: z.array(z.string()).optional(),
+  expirationDate: z.string().datetime({ offset: true }).optional()
+    .describe('ISO 8601 date after which the item no longer matches')
+});
+
+/**
+ * Client Lists Tool Schemas
+ */
+export const ClientListToolSchemas = {
+  listClientLists: CustomerSchema.extend({
+    type: ClientListTypeSchema.optional().describe('Only lists of this type'),
+    search: z.string().optional().describe('Match list names, notes and item values'),
+    includeItems: z.boolean().optional().default(false)
+  }),
+
+  getClientList: CustomerSchema.extend({
+    listId: z.string().describe('Client list ID'),
+    includeItems: z.boolean().optional().default(true)
+  }),
+
+  createClientList: CustomerSchema.extend({
+    name: z.string().min(1).max(256).describe('List name'),
+    type: ClientListTypeSchema,
+    contractId: z.string().describe('Contract ID'),
+    groupId: z.number().int().positive().describe('Group ID'),
+    notes: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    items: z.array(ClientListItemSchema).optional().default([])
+  }),
+
+  addClientListItems: CustomerSchema.extend({
+    listId: z.string().describe('Client list ID'),
+    items: z.array(ClientListItemSchema).min(1)
+      .describe('Items to add; items already on the list get the new description, tags and expiration')
+  }),
+
+  removeClientListItems: CustomerSchema.extend({
+    listId: z.string().describe('Client list ID'),
+    values: z.array(z.string()).min(1).describe('Item values to remove')
+  }),
+
+  activateClientList: CustomerSchema.extend({
+    listId: z.string().describe('Client list ID'),
+    network: NetworkSchema,
+    comments: z.string().optional(),
+    notificationRecipients: z.array(z.string().email()).optional()
+  }),
+
+  getActivationStatus: CustomerSchema.extend({
+    listId: z.string().describe('Client list ID'),
+    network: NetworkSchema
+  }),
+
+  migrateNetworkList: CustomerSchema.extend({
+    networkListId: z.string().describe('Network list to migrate, e.g. 12345_BLOCKLIST'),
+    contractId: z.string().describe('Contract for the new client list'),
+    groupId: z.number().int().positive().describe('Group for the new client list'),
+    name: z.string().min(1).max(256).optional().describe('Client list name (defaults to the network list name)'),
+    notes: z.string().optional(),
+    configIds: z.array(z.number().int().positive()).optional()
+      .describe('Security configurations to scan for references (defaults to all)')
+  })
+};
+
+/**
+ * Response types for Client Lists operations
+ */
+export interface ClientListItem {
+  value: string;
+  description?: string;
+  tags?: string[];
+  expirationDate?: string;
+  createDate?: string;
+  createdBy?: string;
+  productionStatus?: string;
+  stagingStatus?: string;
+}
+
+export interface ClientList {
+  listId: string;
+  name: string;
+  type: ClientListType;
+  notes?: string;
+  tags?: string[];
+  itemsCount: number;
+  version: number;
+  contractId?: string;
+  groupId?: number;
+  groupName?: string;
+  readOnly?: boolean;
+  shared?: boolean;
+  deprecated?: boolean;
+  productionActivationStatus?: string;
+  stagingActivationStatus?: string;
+  items?: ClientListItem[];
+}
+
+export interface ClientListActivation {
+  activationId: number;
+  listId: string;
+  version: number;
+  network: ClientListNetwork;
+  action?: string;
+  activationStatus: string;
+  comments?: string;
+  createDate?: string;
+  createdBy?: string;
+}
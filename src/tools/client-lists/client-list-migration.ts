@@ -0,0 +1,216 @@
+/**
+ * Client List Item Checks and Network List Migration
+ *
+ * Item values are checked per list type before they are sent, and network
+ * lists are converted into client list items. Security configuration
+ * exports are scanned for the places that still point at a network list,
+ * since AppSec keeps referencing the old list until those are switched.
+ */
+
+import { isIP } from 'net';
+import type { ClientListItem, ClientListType } from './client-list-api-implementation';
+
+const GEO_PATTERN = /^[A-Z]{2}(:[A-Z0-9]{1,3})?$/;
+const ASN_PATTERN = /^(AS)?\d{1,10}$/i;
+const FILE_HASH_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Why a value cannot go on a client list of the given type, if it cannot
+ */
+export function checkClientListValue(type: ClientListType, value: string): string | undefined {
+  switch (type) {
+    case 'IP': {
+      const [address = '', prefix, ...rest] = value.split('/');
+      const version = isIP(address);
+      if (version === 0 || rest.length > 0) {
+        return 'Not an IP address or CIDR block';
+      }
+      if (prefix !== undefined && !(/^\d{1,3}$/.test(prefix) && Number(prefix) <= (version === 4 ? 32 : 128))) {
+        return `Invalid prefix length /${prefix}`;
+      }
+      return undefined;
+    }
+    case 'GEO':
+      return GEO_PATTERN.test(value) ? undefined : 'Not a country code (US) or subdivision (US:CA)';
+    case 'ASN':
+      return ASN_PATTERN.test(value) ? undefined : 'Not an autonomous system number';
+    case 'FILE_HASH':
+      return FILE_HASH_PATTERN.test(value) ? undefined : 'Not a SHA-256 hash (64 hex characters)';
+    case 'TLS_FINGERPRINT':
+      return /\s/.test(value) ? 'TLS fingerprints cannot contain whitespace' : undefined;
+  }
+}
+
+/**
+ * Problems with items about to be added: bad values, duplicates within the
+ * request and expiration dates that have already passed
+ */
+export function validateClientListItems(type: ClientListType, items: ClientListItem[], now: Date = new Date()): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  items.forEach(item => {
+    const problem = checkClientListValue(type, item.value);
+    if (problem) {
+      errors.push(`${item.value}: ${problem}`);
+    }
+    if (seen.has(item.value)) {
+      errors.push(`${item.value}: Listed more than once`);
+    }
+    seen.add(item.value);
+    if (item.expirationDate && new Date(item.expirationDate).getTime() <= now.getTime()) {
+      errors.push(`${item.value}: Expiration date ${item.expirationDate} is in the past`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Network list elements converted to client list items
+ */
+export interface NetworkListConversion {
+  type: ClientListType;
+  items: ClientListItem[];
+  skipped: Array<{ value: string; reason: string }>;
+}
+
+/**
+ * Convert the elements of an exported network list (one per line, as
+ * returned by exportNetworkListToCSV) into client list items. Duplicates
+ * and values the client list would reject are skipped and reported.
+ */
+export function convertNetworkList(
+  networkList: { networkListId: string; type: string; csvContent: string }
+): NetworkListConversion {
+  const type = networkList.type.toUpperCase();
+  if (type !== 'IP' && type !== 'GEO' && type !== 'ASN') {
+    throw new Error(`Network lists of type ${networkList.type} cannot be migrated to a client list`);
+  }
+
+  const items: ClientListItem[] = [];
+  const skipped: NetworkListConversion['skipped'] = [];
+  const seen = new Set<string>();
+
+  networkList.csvContent.split(/\r?\n/).forEach(line => {
+    const value = line.trim();
+    if (!value) {
+      return;
+    }
+    const problem = checkClientListValue(type, value);
+    if (problem || seen.has(value)) {
+      skipped.push({ value, reason: problem || 'Duplicate' });
+      return;
+    }
+    seen.add(value);
+    items.push({ value, description: `Migrated from network list ${networkList.networkListId}` });
+  });
+
+  return { type, items, skipped };
+}
+
+/**
+ * A place in a security configuration that uses a network list
+ */
+export interface NetworkListReference {
+  configId: number;
+  configName?: string;
+  version: number;
+  kind: 'matchTarget' | 'customRule' | 'ipGeoFirewall';
+  id: string | number;
+  name?: string;
+  detail: string;
+}
+
+/**
+ * The parts of a security configuration export that can name a network list
+ */
+export interface SecurityConfigExport {
+  configId: number;
+  configName?: string;
+  version: number;
+  matchTargets?: {
+    websiteTargets?: MatchTargetExport[];
+    apiTargets?: MatchTargetExport[];
+  };
+  customRules?: Array<{
+    id: number;
+    name?: string;
+    conditions?: Array<{ type: string; positiveMatch?: boolean; value?: unknown }>;
+  }>;
+  securityPolicies?: Array<{
+    id: string;
+    name?: string;
+    ipGeoFirewall?: {
+      ipControls?: Record<string, { networkList?: string[] } | undefined>;
+      geoControls?: Record<string, { networkList?: string[] } | undefined>;
+      asnControls?: Record<string, { networkList?: string[] } | undefined>;
+    };
+  }>;
+}
+
+interface MatchTargetExport {
+  id?: number;
+  targetId?: number;
+  sequence?: number;
+  securityPolicy?: { policyId: string };
+  bypassNetworkLists?: Array<{ id: string; name?: string }>;
+}
+
+/**
+ * Match targets that bypass the list, custom rule conditions that match on
+ * it and IP/Geo firewall controls that allow or block it
+ */
+export function findNetworkListReferences(exported: SecurityConfigExport, networkListId: string): NetworkListReference[] {
+  const references: NetworkListReference[] = [];
+  const base = { configId: exported.configId, configName: exported.configName, version: exported.version };
+
+  const targets = [
+    ...(exported.matchTargets?.websiteTargets || []).map(target => ({ target, label: 'Website' })),
+    ...(exported.matchTargets?.apiTargets || []).map(target => ({ target, label: 'API' }))
+  ];
+  targets.forEach(({ target, label }) => {
+    if (target.bypassNetworkLists?.some(list => list.id === networkListId)) {
+      references.push({
+        ...base,
+        kind: 'matchTarget',
+        id: target.targetId ?? target.id ?? '?',
+        detail: `${label} match target${target.securityPolicy ? ` for policy ${target.securityPolicy.policyId}` : ''} bypasses the list`
+      });
+    }
+  });
+
+  (exported.customRules || []).forEach(rule => {
+    (rule.conditions || []).forEach(condition => {
+      const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+      if (values.includes(networkListId)) {
+        references.push({
+          ...base,
+          kind: 'customRule',
+          id: rule.id,
+          name: rule.name,
+          detail: `${condition.type} condition${condition.positiveMatch === false ? ' (negated)' : ''}`
+        });
+      }
+    });
+  });
+
+  (exported.securityPolicies || []).forEach(policy => {
+    const firewall = policy.ipGeoFirewall || {};
+    Object.entries({ ip: firewall.ipControls, geo: firewall.geoControls, asn: firewall.asnControls }).forEach(([area, controls]) => {
+      Object.entries(controls || {}).forEach(([control, setting]) => {
+        if (setting?.networkList?.includes(networkListId)) {
+          references.push({
+            ...base,
+            kind: 'ipGeoFirewall',
+            id: policy.id,
+            name: policy.name,
+            detail: `${area.toUpperCase()} controls: ${control}`
+          });
+        }
+      });
+    });
+  });
+
+  return references;
+}
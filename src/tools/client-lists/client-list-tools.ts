@@ -0,0 +1,401 @@
+/**
+ * Client Lists Tools Implementation
+ *
+ * Tools for client lists: list lifecycle, item changes with expirations,
+ * activation, and migrating a network list to a client list
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import { consolidatedSecurityTools } from '../security/consolidated-security-tools';
+import {
+  ClientListEndpoints,
+  ClientListToolSchemas,
+  type ClientList,
+  type ClientListActivation,
+  type ClientListItem,
+  type ClientListType
+} from './client-list-api-implementation';
+import {
+  type NetworkListReference,
+  type SecurityConfigExport,
+  convertNetworkList,
+  findNetworkListReferences,
+  validateClientListItems
+} from './client-list-migration';
+
+/**
+ * Reject items the client list would not accept before they are sent
+ */
+function checkItems(type: ClientListType, items: ClientListItem[]): void {
+  const errors = validateClientListItems(type, items);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${type} items:\n${errors.map(error => `• ${error}`).join('\n')}`);
+  }
+}
+
+function formatItem(item: ClientListItem): string {
+  let text = `• ${item.value}`;
+  if (item.description) {
+    text += ` - ${item.description}`;
+  }
+  if (item.expirationDate) {
+    text += ` (expires ${item.expirationDate})`;
+  }
+  if (item.tags?.length) {
+    text += ` [${item.tags.join(', ')}]`;
+  }
+  return `${text}\n`;
+}
+
+function formatClientList(list: ClientList): string {
+  let text = `📋 **${list.name}** (${list.listId})\n`;
+  text += `Type: ${list.type} | Items: ${list.itemsCount} | Version: ${list.version}\n`;
+  text += `Staging: ${list.stagingActivationStatus || 'INACTIVE'} | Production: ${list.productionActivationStatus || 'INACTIVE'}\n`;
+  if (list.notes) {
+    text += `Notes: ${list.notes}\n`;
+  }
+  if (list.items?.length) {
+    text += '\n**Items:**\n';
+    list.items.forEach(item => {
+      text += formatItem(item);
+    });
+  }
+  return text;
+}
+
+async function fetchClientList(client: AkamaiClient, listId: string): Promise<ClientList> {
+  return client.request<ClientList>({
+    path: ClientListEndpoints.list(listId),
+    method: 'GET',
+    queryParams: { includeItems: 'true' }
+  });
+}
+
+/**
+ * List client lists
+ */
+export async function listClientLists(args: z.infer<typeof ClientListToolSchemas.listClientLists>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_lists_list',
+    args,
+    async (client) => client.request<{ content: ClientList[] }>({
+      path: ClientListEndpoints.lists(),
+      method: 'GET',
+      queryParams: {
+        ...(args.type && { type: args.type }),
+        ...(args.search && { search: args.search }),
+        ...(args.includeItems && { includeItems: 'true' })
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        const lists = result.content || [];
+        let text = `📋 **Client Lists** (${lists.length})\n\n`;
+        lists.forEach(list => {
+          text += `• ${list.name} (${list.listId}) | ${list.type} | ${list.itemsCount} items | ` +
+            `staging ${list.stagingActivationStatus || 'INACTIVE'}, production ${list.productionActivationStatus || 'INACTIVE'}\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `client-lists:list:${p.type || 'all'}:${p.search || ''}:${p.includeItems}`,
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get a client list
+ */
+export async function getClientList(args: z.infer<typeof ClientListToolSchemas.getClientList>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_get',
+    args,
+    async (client) => client.request<ClientList>({
+      path: ClientListEndpoints.list(args.listId),
+      method: 'GET',
+      queryParams: { includeItems: String(args.includeItems) }
+    }),
+    {
+      format: 'text',
+      formatter: formatClientList
+    }
+  );
+}
+
+/**
+ * Create a client list
+ */
+export async function createClientList(args: z.infer<typeof ClientListToolSchemas.createClientList>): Promise<MCPToolResponse> {
+  checkItems(args.type, args.items);
+
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_create',
+    args,
+    async (client) => client.request<ClientList>({
+      path: ClientListEndpoints.lists(),
+      method: 'POST',
+      body: {
+        name: args.name,
+        type: args.type,
+        contractId: args.contractId,
+        groupId: args.groupId,
+        ...(args.notes && { notes: args.notes }),
+        ...(args.tags && { tags: args.tags }),
+        items: args.items
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (list) => `✅ Client list created\n\n${formatClientList(list)}\n` +
+        'Activate it with security_client_list_activate before referencing it in security configurations.'
+    }
+  );
+}
+
+/**
+ * Add items to a client list; items already on the list are updated
+ */
+export async function addClientListItems(args: z.infer<typeof ClientListToolSchemas.addClientListItems>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_items_add',
+    args,
+    async (client) => {
+      const list = await fetchClientList(client, args.listId);
+      checkItems(list.type, args.items);
+
+      const existing = new Set((list.items || []).map(item => item.value));
+      const append = args.items.filter(item => !existing.has(item.value));
+      const update = args.items.filter(item => existing.has(item.value));
+
+      await client.request({
+        path: ClientListEndpoints.items(args.listId),
+        method: 'POST',
+        body: { append, update, delete: [] }
+      });
+      return { list, append, update };
+    },
+    {
+      format: 'text',
+      formatter: ({ list, append, update }) => {
+        let text = `✅ ${list.name} (${args.listId}): ${append.length} added, ${update.length} updated\n\n`;
+        [...append, ...update].forEach(item => {
+          text += formatItem(item);
+        });
+        text += '\nChanges take effect once the list is activated again.';
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Remove items from a client list
+ */
+export async function removeClientListItems(args: z.infer<typeof ClientListToolSchemas.removeClientListItems>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_items_remove',
+    args,
+    async (client) => {
+      const list = await fetchClientList(client, args.listId);
+      const existing = new Set((list.items || []).map(item => item.value));
+      const removed = args.values.filter(value => existing.has(value));
+      const missing = args.values.filter(value => !existing.has(value));
+
+      if (removed.length > 0) {
+        await client.request({
+          path: ClientListEndpoints.items(args.listId),
+          method: 'POST',
+          body: { append: [], update: [], delete: removed.map(value => ({ value })) }
+        });
+      }
+      return { list, removed, missing };
+    },
+    {
+      format: 'text',
+      formatter: ({ list, removed, missing }) => {
+        let text = `✅ ${list.name} (${args.listId}): ${removed.length} removed\n`;
+        if (missing.length > 0) {
+          text += `Not on the list: ${missing.join(', ')}\n`;
+        }
+        text += '\nChanges take effect once the list is activated again.';
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Activate the current version of a client list
+ */
+export async function activateClientList(args: z.infer<typeof ClientListToolSchemas.activateClientList>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_activate',
+    args,
+    async (client) => client.request<ClientListActivation>({
+      path: ClientListEndpoints.activations(args.listId),
+      method: 'POST',
+      body: {
+        action: 'ACTIVATE',
+        network: args.network,
+        comments: args.comments || `Activated via MCP on ${new Date().toISOString()}`,
+        notificationRecipients: args.notificationRecipients || []
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (activation) => `✅ Client list ${args.listId} v${activation.version} activation to ${args.network} submitted ` +
+        `(ID: ${activation.activationId}, status ${activation.activationStatus})\n\n` +
+        'Check progress with security_client_list_activation_status.'
+    }
+  );
+}
+
+/**
+ * Activation status of a client list on a network
+ */
+export async function getActivationStatus(args: z.infer<typeof ClientListToolSchemas.getActivationStatus>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_activation_status',
+    args,
+    async (client) => client.request<ClientListActivation>({
+      path: ClientListEndpoints.activationStatus(args.listId, args.network),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (activation) => {
+        const statusEmoji = {
+          'ACTIVE': '✅',
+          'PENDING_ACTIVATION': '⏳',
+          'PENDING_DEACTIVATION': '⏳',
+          'FAILED': '❌',
+          'INACTIVE': '🔴'
+        }[activation.activationStatus] || '❓';
+        let text = `${statusEmoji} Client list ${args.listId} on ${args.network}: ${activation.activationStatus}\n`;
+        if (activation.version) {
+          text += `Version: ${activation.version}${activation.activationId ? ` | Activation: ${activation.activationId}` : ''}\n`;
+        }
+        if (activation.createDate) {
+          text += `Submitted: ${activation.createDate}${activation.createdBy ? ` by ${activation.createdBy}` : ''}\n`;
+        }
+        return text;
+      },
+      cacheKey: (p) => `client-list:activation:${p.listId}:${p.network}`,
+      cacheTtl: 30 // 30 seconds for status checks
+    }
+  );
+}
+
+/**
+ * Security configurations that reference a network list, scanning the
+ * latest version of each configuration
+ */
+async function scanNetworkListReferences(
+  client: AkamaiClient,
+  networkListId: string,
+  configIds?: number[]
+): Promise<NetworkListReference[]> {
+  const { configurations } = await client.request<{
+    configurations: Array<{ id: number; name: string; latestVersion: number }>;
+  }>({
+    path: '/appsec/v1/configs',
+    method: 'GET'
+  });
+
+  const references: NetworkListReference[] = [];
+  for (const config of configurations || []) {
+    if (configIds && !configIds.includes(config.id)) {
+      continue;
+    }
+    const exported = await client.request<SecurityConfigExport>({
+      path: `/appsec/v1/export/configs/${config.id}/versions/${config.latestVersion}`,
+      method: 'GET'
+    });
+    references.push(...findNetworkListReferences({ ...exported, configName: exported.configName || config.name }, networkListId));
+  }
+  return references;
+}
+
+/**
+ * Copy a network list into a new client list and report the security
+ * configuration settings that still use the network list
+ */
+export async function migrateNetworkList(args: z.infer<typeof ClientListToolSchemas.migrateNetworkList>): Promise<MCPToolResponse> {
+  const exportResponse = await consolidatedSecurityTools.exportNetworkListToCSV({
+    networkListId: args.networkListId,
+    ...(args.customer && { customer: args.customer })
+  });
+  const exported = JSON.parse(exportResponse.content?.[0]?.text || '{}') as {
+    name?: string;
+    type?: string;
+    csvContent?: string;
+  };
+  if (!exported.type || exported.csvContent === undefined) {
+    throw new Error(`Could not export network list ${args.networkListId}`);
+  }
+
+  const conversion = convertNetworkList({
+    networkListId: args.networkListId,
+    type: exported.type,
+    csvContent: exported.csvContent
+  });
+  const name = args.name || exported.name || args.networkListId;
+
+  return BaseTool.execute(
+    'client-lists',
+    'security_client_list_migrate',
+    args,
+    async (client) => {
+      const references = await scanNetworkListReferences(client, args.networkListId, args.configIds);
+      const list = await client.request<ClientList>({
+        path: ClientListEndpoints.lists(),
+        method: 'POST',
+        body: {
+          name,
+          type: conversion.type,
+          contractId: args.contractId,
+          groupId: args.groupId,
+          notes: args.notes || `Migrated from network list ${args.networkListId}`,
+          items: conversion.items
+        }
+      });
+      return { list, references };
+    },
+    {
+      format: 'text',
+      formatter: ({ list, references }) => {
+        let text = `✅ Network list ${args.networkListId} migrated to client list ${list.listId} (${name})\n`;
+        text += `Items: ${conversion.items.length} copied, ${conversion.skipped.length} skipped\n`;
+        conversion.skipped.forEach(({ value, reason }) => {
+          text += `  • ${value}: ${reason}\n`;
+        });
+
+        if (references.length === 0) {
+          text += '\nNo match targets, custom rules or IP/Geo firewall settings reference the network list.\n';
+        } else {
+          text += `\n**Still referencing ${args.networkListId}** (${references.length}):\n`;
+          references.forEach(reference => {
+            text += `• Config ${reference.configId}${reference.configName ? ` (${reference.configName})` : ''} ` +
+              `v${reference.version}: ${reference.kind} ${reference.id}${reference.name ? ` "${reference.name}"` : ''} - ${reference.detail}\n`;
+          });
+        }
+
+        text += '\n**Next Steps:**\n';
+        text += `1. Activate the client list: security_client_list_activate listId=${list.listId}\n`;
+        text += '2. Point the settings above at the client list in a new configuration version\n';
+        text += `3. Delete the network list once nothing references it: security_network_list_delete networkListId=${args.networkListId}\n`;
+        return text;
+      }
+    }
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Client Lists Domain Export Module
+ *
+ * Exports Client Lists tools using the standard BaseTool pattern
+ */
+
+import {
+  listClientLists,
+  getClientList,
+  createClientList,
+  addClientListItems,
+  removeClientListItems,
+  activateClientList,
+  getActivationStatus,
+  migrateNetworkList
+} from './client-list-tools';
+import { ClientListToolSchemas } from './client-list-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface ClientListTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * Client Lists Domain Tools with handlers
+ */
+export const clientListTools: Record<string, ClientListTool> = {
+  // Client Lists
+  'security_client_lists_list': {
+    name: 'security_client_lists_list',
+    description: 'List client lists (IP, GEO, ASN, TLS fingerprint and file hash)',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.listClientLists),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.listClientLists.parse(args);
+      return listClientLists(validatedArgs);
+    }
+  },
+
+  'security_client_list_get': {
+    name: 'security_client_list_get',
+    description: 'Get a client list with its items, descriptions and expiration dates',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.getClientList),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.getClientList.parse(args);
+      return getClientList(validatedArgs);
+    }
+  },
+
+  'security_client_list_create': {
+    name: 'security_client_list_create',
+    description: 'Create a client list, checking item values against the list type first',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.createClientList),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.createClientList.parse(args);
+      return createClientList(validatedArgs);
+    }
+  },
+
+  // Items
+  'security_client_list_items_add': {
+    name: 'security_client_list_items_add',
+    description: 'Add items with optional description, tags and expiration date; existing items are updated',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.addClientListItems),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.addClientListItems.parse(args);
+      return addClientListItems(validatedArgs);
+    }
+  },
+
+  'security_client_list_items_remove': {
+    name: 'security_client_list_items_remove',
+    description: 'Remove items from a client list',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.removeClientListItems),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.removeClientListItems.parse(args);
+      return removeClientListItems(validatedArgs);
+    }
+  },
+
+  // Activation
+  'security_client_list_activate': {
+    name: 'security_client_list_activate',
+    description: 'Activate a client list on staging or production',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.activateClientList),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.activateClientList.parse(args);
+      return activateClientList(validatedArgs);
+    }
+  },
+
+  'security_client_list_activation_status': {
+    name: 'security_client_list_activation_status',
+    description: 'Get the activation status of a client list on staging or production',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.getActivationStatus),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.getActivationStatus.parse(args);
+      return getActivationStatus(validatedArgs);
+    }
+  },
+
+  // Migration
+  'security_client_list_migrate': {
+    name: 'security_client_list_migrate',
+    description: 'Copy a network list into a new client list and report the match targets, custom rules and firewall settings that still reference it',
+    inputSchema: zodToJsonSchema(ClientListToolSchemas.migrateNetworkList),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ClientListToolSchemas.migrateNetworkList.parse(args);
+      return migrateNetworkList(validatedArgs);
+    }
+  }
+};
+
+export default clientListTools;
@@ -22,6 +22,7 @@ import { getUserHintService, enhanceResponseWithHints, type HintContext } from '
 import { idTranslationService, type Translation, type TranslationOptions } from '../../services/id-translation-service';
 import { contractGroupDiscovery } from '../../services/contract-group-discovery-service';
 import { errorRecoveryService, RecoveryContext } from '../../services/error-recovery-service';
+import { executeAsPlan, formatPlan, isPlanActive, isPlanRequested } from '../../core/dry-run';
 
 /**
  * Request context for propagating metadata through operations
@@ -369,7 +370,22 @@ export abstract class BaseTool {
 
       // Execute with optional caching
       let result: TOutput;
-      if (options?.cacheKey) {
+      if (isPlanRequested(input) && !isPlanActive()) {
+        // Dry-run or read-only mode: capture mutations and return a plan
+        const outcome = await executeAsPlan(
+          client,
+          options?.toolName || operation,
+          customer || 'default',
+          () => executor(client, input)
+        );
+        if ('plan' in outcome) {
+          return this.createSuccessResponse(outcome.plan, {
+            format: options?.format === 'json' ? 'json' : 'text',
+            message: formatPlan(outcome.plan),
+          });
+        }
+        result = outcome.result;
+      } else if (options?.cacheKey) {
         result = await this.withCache(
           options.cacheKey(input),
           executeWithProgress,
@@ -14,6 +14,9 @@ export * from './validators';
 // Response schemas
 export * from './response-schemas';
 
+// MCP tool annotations
+export * from './tool-annotations';
+
 // Re-export commonly used types for convenience
 export type { MCPToolResponse } from '../../types';
 export type { AkamaiClient } from '../../akamai-client';
\ No newline at end of file
@@ -0,0 +1,231 @@
+/**
+ * MCP Tool Annotations
+ *
+ * Derives MCP 2025 tool annotations from tool metadata and the HTTP
+ * method a tool maps to, so that clients can auto-approve reads and ask
+ * for confirmation before deletions, activations and purges.
+ *
+ * The HTTP method is inferred from the verb in the tool name unless
+ * metadata declares it explicitly: the leading verb for verb-first names
+ * (`delete-network-list` -> DELETE), otherwise the last verb in the
+ * noun-first name (`dns_zone_delete` -> DELETE).
+ */
+
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Metadata fields used to derive annotations
+ */
+export interface AnnotationSource {
+  domain?: string;
+  tags?: string[];
+  httpMethod?: HttpMethod;
+}
+
+/**
+ * Verbs found in tool names and the HTTP method they map to
+ */
+const VERB_METHODS: Record<string, HttpMethod> = {
+  // Reads
+  list: 'GET',
+  get: 'GET',
+  search: 'GET',
+  status: 'GET',
+  info: 'GET',
+  validate: 'GET',
+  analyze: 'GET',
+  compare: 'GET',
+  diff: 'GET',
+  detect: 'GET',
+  check: 'GET',
+  monitor: 'GET',
+  download: 'GET',
+  discover: 'GET',
+  identify: 'GET',
+  recommendations: 'GET',
+  fetch: 'GET',
+  stream: 'GET',
+  replay: 'GET',
+  export: 'GET',
+  suggest: 'GET',
+  query: 'GET',
+  simulate: 'GET',
+  history: 'GET',
+  audit: 'GET',
+  report: 'GET',
+  head: 'GET',
+  // Creations and one-shot operations
+  create: 'POST',
+  clone: 'POST',
+  upload: 'POST',
+  import: 'POST',
+  load: 'POST',
+  add: 'POST',
+  execute: 'POST',
+  activate: 'POST',
+  deactivate: 'POST',
+  invalidate: 'POST',
+  purge: 'POST',
+  rollback: 'POST',
+  migrate: 'POST',
+  cancel: 'POST',
+  deploy: 'POST',
+  reactivate: 'POST',
+  renew: 'POST',
+  enroll: 'POST',
+  onboard: 'POST',
+  resume: 'POST',
+  submit: 'POST',
+  // Updates
+  update: 'PUT',
+  upsert: 'PUT',
+  put: 'PUT',
+  configure: 'PUT',
+  manage: 'PUT',
+  enable: 'PUT',
+  link: 'PUT',
+  attach: 'PUT',
+  associate: 'PUT',
+  move: 'PUT',
+  grant: 'PUT',
+  disable: 'PUT',
+  convert: 'PUT',
+  patch: 'PATCH',
+  rotate: 'POST',
+  // Deletions
+  delete: 'DELETE',
+  remove: 'DELETE',
+  revoke: 'DELETE',
+  cleanup: 'DELETE',
+};
+
+/**
+ * Verbs whose effect cannot be undone by repeating or reverting the call:
+ * deletions, purges and activations that may reach production traffic
+ */
+const DESTRUCTIVE_VERBS = new Set([
+  'delete',
+  'remove',
+  'invalidate',
+  'purge',
+  'activate',
+  'deactivate',
+  'reactivate',
+  'deploy',
+  'rollback',
+  'revoke',
+  'rotate',
+]);
+
+/**
+ * Domains whose tools only read data even without a verb in the name
+ */
+const READ_ONLY_DOMAINS = new Set(['reporting', 'billing', 'diagnostics', 'siem', 'events']);
+
+/**
+ * Words rendered with fixed casing in titles
+ */
+const TITLE_WORDS: Record<string, string> = {
+  api: 'API',
+  appsec: 'AppSec',
+  asn: 'ASN',
+  axfr: 'AXFR',
+  cpcode: 'CP Code',
+  cpcodes: 'CP Codes',
+  datastream: 'DataStream',
+  ddos: 'DDoS',
+  dns: 'DNS',
+  dnssec: 'DNSSEC',
+  ds: 'DS',
+  dv: 'DV',
+  edgekv: 'EdgeKV',
+  edgeworker: 'EdgeWorker',
+  edgeworkers: 'EdgeWorkers',
+  fastpurge: 'FastPurge',
+  gtm: 'GTM',
+  iam: 'IAM',
+  ivm: 'IVM',
+  mtr: 'MTR',
+  siem: 'SIEM',
+  siteshield: 'Site Shield',
+  url: 'URL',
+  urls: 'URLs',
+  waf: 'WAF',
+};
+
+function tokenize(name: string): string[] {
+  return name.toLowerCase().split(/[_\-.]+/).filter(Boolean);
+}
+
+/**
+ * Infer the HTTP method a tool maps to from its name
+ */
+export function inferHttpMethod(name: string, source?: AnnotationSource): HttpMethod {
+  if (source?.httpMethod) {
+    return source.httpMethod;
+  }
+
+  // Verb-first names (`delete-network-list`) lead with their verb; in
+  // noun-first names (`security_network_list_activate`) the verb follows the
+  // resource, so the last verb wins over nouns such as `list`
+  const tokens = tokenize(name);
+  const leading = VERB_METHODS[tokens[0] || ''];
+  if (leading) {
+    return leading;
+  }
+  for (const token of [...tokens].reverse()) {
+    const method = VERB_METHODS[token];
+    if (method) {
+      return method;
+    }
+  }
+
+  const domain = source?.domain || tokens[0] || '';
+  // Unknown verbs are treated as writes so clients still ask for confirmation
+  return READ_ONLY_DOMAINS.has(domain) ? 'GET' : 'POST';
+}
+
+/**
+ * Whether any verb in the tool name maps to a mutating HTTP method,
+ * wherever it appears. Authorization uses this to fail closed on names
+ * the single-verb inference might read as a lookup.
+ */
+export function hasMutatingVerb(name: string): boolean {
+  return tokenize(name).some(token => {
+    const method = VERB_METHODS[token];
+    return method !== undefined && method !== 'GET';
+  });
+}
+
+/**
+ * Human-readable title from a tool name
+ */
+export function toolTitle(name: string): string {
+  return tokenize(name)
+    .map(word => TITLE_WORDS[word] || word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Derive MCP tool annotations for a tool
+ */
+export function deriveToolAnnotations(name: string, source?: AnnotationSource): ToolAnnotations {
+  const method = inferHttpMethod(name, source);
+  const tokens = tokenize(name);
+  const tags = source?.tags || [];
+  const readOnly = method === 'GET';
+
+  return {
+    title: toolTitle(name),
+    readOnlyHint: readOnly,
+    destructiveHint: !readOnly && (
+      method === 'DELETE' ||
+      tags.includes('production') ||
+      tokens.some(token => DESTRUCTIVE_VERBS.has(token))
+    ),
+    idempotentHint: method !== 'POST',
+    openWorldHint: !tags.includes('local'),
+  };
+}
@@ -31,7 +31,16 @@ export const PaginationSchema = z.object({
  * Customer parameter schema - used in every tool
  */
 export const CustomerSchema = z.object({
-  customer: z.string().optional().describe('Customer configuration section from .edgerc')
+  customer: z.string().optional().describe('Customer configuration section from .edgerc'),
+  dryRun: z.boolean().optional().describe('Return the planned API requests without applying any change')
+});
+
+/**
+ * Approval gate arguments for production activations
+ */
+export const ApprovalControlSchema = z.object({
+  approvalId: z.string().optional().describe('Approved request ID from approval_decide, required for production when approvals are enforced'),
+  breakGlassJustification: z.string().optional().describe('Emergency override of the approval gate; the justification is recorded in the audit trail')
 });
 
 /**
@@ -158,9 +167,8 @@ export const NetworkListIdSchema = z.string()
 /**
  * IP address validation (v4 and v6)
  */
-export const IPAddressSchema = z.string()
-  .ip({ version: 'v4' })
-  .or(z.string().ip({ version: 'v6' }))
+export const IPAddressSchema = z.ipv4()
+  .or(z.ipv6())
   .describe('IP address (IPv4 or IPv6)');
 
 /**
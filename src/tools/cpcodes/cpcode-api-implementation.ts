@@ -0,0 +1,114 @@
+/**
+ * CP Code and Reporting Group API Implementation
+ *
+ * CP codes and reporting groups from Akamai's CP Codes and Reporting
+ * Groups API. Reporting groups bundle CP codes of one or more contracts
+ * for billing and reporting; CP code settings such as the name, report
+ * time zone and purgeability are managed here as well.
+ *
+ * API Documentation: https://techdocs.akamai.com/cp-codes/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for CP Codes and Reporting Groups API
+ */
+export const CPRG_API_BASE = '/cprg/v1';
+
+/**
+ * CP Codes and Reporting Groups API Endpoints
+ */
+export const CpCodeEndpoints = {
+  cpcodes: () => `${CPRG_API_BASE}/cpcodes`,
+  cpcode: (cpcodeId: number) => `${CPRG_API_BASE}/cpcodes/${cpcodeId}`,
+  reportingGroups: () => `${CPRG_API_BASE}/reporting-groups`,
+  reportingGroup: (reportingGroupId: number) => `${CPRG_API_BASE}/reporting-groups/${reportingGroupId}`
+};
+
+const CpCodeIdSchema = z.number().int().positive().describe('CP code ID');
+const ReportingGroupIdSchema = z.number().int().positive().describe('Reporting group ID');
+
+/**
+ * CP Code Tool Schemas
+ */
+export const CpCodeToolSchemas = {
+  listReportingGroups: CustomerSchema.extend({
+    contractId: z.string().optional().describe('Only groups with CP codes of this contract'),
+    groupId: z.string().optional().describe('Only groups in this access group')
+  }),
+
+  getReportingGroup: CustomerSchema.extend({
+    reportingGroupId: ReportingGroupIdSchema
+  }),
+
+  createReportingGroup: CustomerSchema.extend({
+    name: z.string().min(1).max(255).describe('Reporting group name'),
+    contractId: z.string().describe('Contract of the CP codes and of the access group'),
+    groupId: z.string().describe('Access group that may manage the reporting group'),
+    cpcodeIds: z.array(CpCodeIdSchema).min(1).describe('CP codes in the group')
+  }),
+
+  updateReportingGroup: CustomerSchema.extend({
+    reportingGroupId: ReportingGroupIdSchema,
+    name: z.string().min(1).max(255).optional(),
+    contractId: z.string().optional()
+      .describe('Contract whose CP codes cpcodeIds replace (defaults to the only contract of the group)'),
+    cpcodeIds: z.array(CpCodeIdSchema).min(1).optional().describe('New CP code membership for the contract')
+  }),
+
+  deleteReportingGroup: CustomerSchema.extend({
+    reportingGroupId: ReportingGroupIdSchema
+  }),
+
+  moveCpCodes: CustomerSchema.extend({
+    cpcodeIds: z.array(CpCodeIdSchema).min(1),
+    fromReportingGroupId: ReportingGroupIdSchema,
+    toReportingGroupId: ReportingGroupIdSchema
+  }),
+
+  updateCpCode: CustomerSchema.extend({
+    cpcodeId: CpCodeIdSchema,
+    name: z.string().min(1).max(100).optional().describe('New CP code name'),
+    timezoneId: z.string().optional().describe('Report time zone ID, e.g. "0" for GMT'),
+    purgeable: z.boolean().optional().describe('Whether content can be purged by this CP code')
+  }),
+
+  auditCpCodes: CustomerSchema.extend({
+    contractId: z.string().optional(),
+    groupId: z.string().optional(),
+    propertyIds: z.array(z.string()).optional()
+      .describe('Rule trees to scan (defaults to every property of the contract and group)'),
+    days: z.number().int().min(1).max(90).optional().default(30).describe('Traffic look-back window'),
+    minimumHits: z.number().int().min(0).optional().default(0)
+      .describe('CP codes with at most this many edge hits count as idle')
+  })
+};
+
+/**
+ * Response types for CP code and reporting group operations
+ */
+export interface CprgCpCode {
+  cpcodeId: number;
+  cpcodeName: string;
+  purgeable?: boolean;
+  type?: string;
+  accessGroup?: { contractId: string; groupId: number };
+  contracts?: Array<{ contractId: string; status?: string }>;
+  products?: Array<{ productId: string; productName?: string }>;
+  defaultTimezone?: string;
+  overrideTimezone?: { timezoneId: string; timezoneValue?: string };
+}
+
+export interface ReportingGroupContract {
+  contractId: string;
+  cpcodes: Array<{ cpcodeId: number; cpcodeName?: string }>;
+}
+
+export interface ReportingGroup {
+  reportingGroupId: number;
+  reportingGroupName: string;
+  accessGroup?: { contractId: string; groupId: number };
+  contracts: ReportingGroupContract[];
+}
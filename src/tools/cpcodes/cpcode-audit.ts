@@ -0,0 +1,133 @@
+/**
+ * CP Code Audit and Reporting Group Membership
+ *
+ * Finds the CP codes a rule tree uses, moves CP codes between reporting
+ * groups, and classifies CP codes as unreferenced or idle.
+ */
+
+import type { RuleTree } from '../../types/akamai';
+import type { CprgCpCode, ReportingGroup } from './cpcode-api-implementation';
+
+export interface CpCodeAuditFinding {
+  cpcodeId: number;
+  cpcodeName: string;
+  referencedBy: string[];
+  edgeHits?: number;
+  unreferenced: boolean;
+  idle: boolean;
+}
+
+/**
+ * Contract and group IDs as the CPRG API expects them (no ctr_/grp_ prefix)
+ */
+export function cprgContractId(contractId: string): string {
+  return contractId.replace(/^ctr_/, '');
+}
+
+export function cprgGroupId(groupId: string): number {
+  return Number(groupId.replace(/^grp_/, ''));
+}
+
+/**
+ * CP code IDs set anywhere in a rule tree
+ * Besides the cpCode behavior, options such as imageManager's
+ * cpCodeOriginal or visitorPrioritization's waitingRoomCpCode hold CP codes.
+ */
+export function collectRuleTreeCpCodes(rules: RuleTree): number[] {
+  const found = new Set<number>();
+
+  const visitOptions = (options: unknown, key = ''): void => {
+    if (Array.isArray(options)) {
+      options.forEach(item => visitOptions(item, key));
+      return;
+    }
+    if (!options || typeof options !== 'object') {
+      return;
+    }
+    const id = (options as { id?: unknown }).id;
+    if (/cp_?code/i.test(key) && typeof id === 'number') {
+      found.add(id);
+    }
+    // Options below a CP code option (cpCode's value) inherit its key
+    Object.entries(options).forEach(([childKey, value]) => visitOptions(value, /cp_?code/i.test(key) ? key : childKey));
+  };
+
+  const visitRule = (rule: RuleTree): void => {
+    for (const behavior of rule.behaviors || []) {
+      visitOptions(behavior.options, behavior.name === 'cpCode' ? 'cpCode' : '');
+    }
+    (rule.children || []).forEach(visitRule);
+  };
+
+  visitRule(rules);
+  return [...found].sort((a, b) => a - b);
+}
+
+/**
+ * Reporting groups after moving CP codes from one to the other
+ * The CP codes keep their contract; the target gains a contract entry if needed.
+ */
+export function moveCpCodes(
+  from: ReportingGroup,
+  to: ReportingGroup,
+  cpcodeIds: number[]
+): { from: ReportingGroup; to: ReportingGroup } {
+  const contractOf = new Map<number, string>();
+  from.contracts.forEach(contract => contract.cpcodes.forEach(cpcode => contractOf.set(cpcode.cpcodeId, contract.contractId)));
+
+  const missing = cpcodeIds.filter(id => !contractOf.has(id));
+  if (missing.length > 0) {
+    throw new Error(`CP codes ${missing.join(', ')} are not in reporting group ${from.reportingGroupName} (${from.reportingGroupId})`);
+  }
+
+  const moving = new Set(cpcodeIds);
+  const toContracts = to.contracts.map(contract => ({ ...contract, cpcodes: [...contract.cpcodes] }));
+  for (const id of cpcodeIds) {
+    const contractId = contractOf.get(id)!;
+    let contract = toContracts.find(c => c.contractId === contractId);
+    if (!contract) {
+      contract = { contractId, cpcodes: [] };
+      toContracts.push(contract);
+    }
+    if (!contract.cpcodes.some(cpcode => cpcode.cpcodeId === id)) {
+      contract.cpcodes.push({ cpcodeId: id });
+    }
+  }
+
+  return {
+    from: {
+      ...from,
+      contracts: from.contracts
+        .map(contract => ({ ...contract, cpcodes: contract.cpcodes.filter(cpcode => !moving.has(cpcode.cpcodeId)) }))
+        .filter(contract => contract.cpcodes.length > 0)
+    },
+    to: { ...to, contracts: toContracts }
+  };
+}
+
+/**
+ * Classify CP codes by rule tree references and edge hits
+ * Without traffic data (hits undefined) nothing is reported as idle.
+ */
+export function auditCpCodes(
+  cpcodes: Array<Pick<CprgCpCode, 'cpcodeId' | 'cpcodeName'>>,
+  references: Map<number, string[]>,
+  hits: Map<number, number> | undefined,
+  minimumHits = 0
+): CpCodeAuditFinding[] {
+  return cpcodes
+    .map(cpcode => {
+      const referencedBy = references.get(cpcode.cpcodeId) || [];
+      const edgeHits = hits ? hits.get(cpcode.cpcodeId) ?? 0 : undefined;
+      return {
+        cpcodeId: cpcode.cpcodeId,
+        cpcodeName: cpcode.cpcodeName,
+        referencedBy,
+        ...(edgeHits !== undefined && { edgeHits }),
+        unreferenced: referencedBy.length === 0,
+        idle: edgeHits !== undefined && edgeHits <= minimumHits
+      };
+    })
+    .filter(finding => finding.unreferenced || finding.idle)
+    .sort((a, b) => a.cpcodeId - b.cpcodeId);
+}
@@ -0,0 +1,406 @@
+/**
+ * CP Code Tools Implementation
+ *
+ * Tools for reporting groups (create, update, delete, move CP codes),
+ * CP code settings, and an audit of unused CP codes
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import type { Property, RuleTree } from '../../types/akamai';
+import { PropertyEndpoints } from '../property/property-api-implementation';
+import { consolidatedReportingTools } from '../reporting/consolidated-reporting-tools';
+import {
+  CpCodeEndpoints,
+  CpCodeToolSchemas,
+  type CprgCpCode,
+  type ReportingGroup
+} from './cpcode-api-implementation';
+import {
+  auditCpCodes as classifyCpCodes,
+  collectRuleTreeCpCodes,
+  cprgContractId,
+  cprgGroupId,
+  moveCpCodes as moveCpCodesBetween
+} from './cpcode-audit';
+
+function formatReportingGroup(group: ReportingGroup): string {
+  let text = `📁 **${group.reportingGroupName}** (${group.reportingGroupId})\n`;
+  if (group.accessGroup) {
+    text += `Access group: ${group.accessGroup.groupId} (contract ${group.accessGroup.contractId})\n`;
+  }
+  group.contracts.forEach(contract => {
+    text += `\nContract ${contract.contractId} (${contract.cpcodes.length} CP codes):\n`;
+    contract.cpcodes.forEach(cpcode => {
+      text += `• ${cpcode.cpcodeId}${cpcode.cpcodeName ? ` ${cpcode.cpcodeName}` : ''}\n`;
+    });
+  });
+  return text;
+}
+
+async function fetchReportingGroup(client: AkamaiClient, reportingGroupId: number): Promise<ReportingGroup> {
+  return client.request<ReportingGroup>({
+    path: CpCodeEndpoints.reportingGroup(reportingGroupId),
+    method: 'GET'
+  });
+}
+
+async function saveReportingGroup(client: AkamaiClient, group: ReportingGroup): Promise<ReportingGroup> {
+  return client.request<ReportingGroup>({
+    path: CpCodeEndpoints.reportingGroup(group.reportingGroupId),
+    method: 'PUT',
+    body: {
+      reportingGroupName: group.reportingGroupName,
+      contracts: group.contracts.map(contract => ({
+        contractId: contract.contractId,
+        cpcodes: contract.cpcodes.map(cpcode => ({ cpcodeId: cpcode.cpcodeId }))
+      })),
+      ...(group.accessGroup && { accessGroup: group.accessGroup })
+    }
+  });
+}
+
+/**
+ * List reporting groups
+ */
+export async function listReportingGroups(args: z.infer<typeof CpCodeToolSchemas.listReportingGroups>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_reporting_group_list',
+    args,
+    async (client) => client.request<{ groups: ReportingGroup[] }>({
+      path: CpCodeEndpoints.reportingGroups(),
+      method: 'GET',
+      queryParams: {
+        ...(args.contractId && { contractId: cprgContractId(args.contractId) }),
+        ...(args.groupId && { groupId: String(cprgGroupId(args.groupId)) })
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        const groups = result.groups || [];
+        let text = `📁 **Reporting Groups** (${groups.length})\n\n`;
+        groups.forEach(group => {
+          const count = group.contracts.reduce((sum, contract) => sum + contract.cpcodes.length, 0);
+          text += `• ${group.reportingGroupName} (${group.reportingGroupId}) | ${count} CP codes | ` +
+            `contracts ${group.contracts.map(contract => contract.contractId).join(', ')}\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `cpcodes:reporting-groups:${p.contractId || 'all'}:${p.groupId || 'all'}`,
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get a reporting group with its CP codes
+ */
+export async function getReportingGroup(args: z.infer<typeof CpCodeToolSchemas.getReportingGroup>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_reporting_group_get',
+    args,
+    async (client) => fetchReportingGroup(client, args.reportingGroupId),
+    {
+      format: 'text',
+      formatter: formatReportingGroup
+    }
+  );
+}
+
+/**
+ * Create a reporting group
+ */
+export async function createReportingGroup(args: z.infer<typeof CpCodeToolSchemas.createReportingGroup>): Promise<MCPToolResponse> {
+  const contractId = cprgContractId(args.contractId);
+
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_reporting_group_create',
+    args,
+    async (client) => client.request<ReportingGroup>({
+      path: CpCodeEndpoints.reportingGroups(),
+      method: 'POST',
+      body: {
+        reportingGroupName: args.name,
+        contracts: [{ contractId, cpcodes: args.cpcodeIds.map(cpcodeId => ({ cpcodeId })) }],
+        accessGroup: { contractId, groupId: cprgGroupId(args.groupId) }
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (group) => `✅ Reporting group created\n\n${formatReportingGroup(group)}`
+    }
+  );
+}
+
+/**
+ * Rename a reporting group or replace its CP codes for one contract
+ */
+export async function updateReportingGroup(args: z.infer<typeof CpCodeToolSchemas.updateReportingGroup>): Promise<MCPToolResponse> {
+  if (!args.name && !args.cpcodeIds) {
+    throw new Error('Nothing to update: provide name and/or cpcodeIds');
+  }
+
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_reporting_group_update',
+    args,
+    async (client) => {
+      const group = await fetchReportingGroup(client, args.reportingGroupId);
+      let contracts = group.contracts;
+
+      if (args.cpcodeIds) {
+        const contractId = args.contractId ? cprgContractId(args.contractId) : group.contracts[0]?.contractId;
+        if (!contractId || (!args.contractId && group.contracts.length > 1)) {
+          throw new Error(`Reporting group ${args.reportingGroupId} spans several contracts; specify contractId`);
+        }
+        const cpcodes = args.cpcodeIds.map(cpcodeId => ({ cpcodeId }));
+        contracts = group.contracts.some(contract => contract.contractId === contractId)
+          ? group.contracts.map(contract => contract.contractId === contractId ? { contractId, cpcodes } : contract)
+          : [...group.contracts, { contractId, cpcodes }];
+      }
+
+      await saveReportingGroup(client, {
+        ...group,
+        reportingGroupName: args.name || group.reportingGroupName,
+        contracts
+      });
+      return fetchReportingGroup(client, args.reportingGroupId);
+    },
+    {
+      format: 'text',
+      formatter: (group) => `✅ Reporting group updated\n\n${formatReportingGroup(group)}`
+    }
+  );
+}
+
+/**
+ * Delete a reporting group
+ */
+export async function deleteReportingGroup(args: z.infer<typeof CpCodeToolSchemas.deleteReportingGroup>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_reporting_group_delete',
+    args,
+    async (client) => client.request({
+      path: CpCodeEndpoints.reportingGroup(args.reportingGroupId),
+      method: 'DELETE'
+    }),
+    {
+      format: 'text',
+      formatter: () => `✅ Reporting group ${args.reportingGroupId} deleted\n\n` +
+        'Its CP codes are unaffected; billing reports no longer aggregate them under this group.'
+    }
+  );
+}
+
+/**
+ * Move CP codes from one reporting group to another
+ */
+export async function moveCpCodes(args: z.infer<typeof CpCodeToolSchemas.moveCpCodes>): Promise<MCPToolResponse> {
+  if (args.fromReportingGroupId === args.toReportingGroupId) {
+    throw new Error('fromReportingGroupId and toReportingGroupId must differ');
+  }
+
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_reporting_group_move',
+    args,
+    async (client) => {
+      const [from, to] = await Promise.all([
+        fetchReportingGroup(client, args.fromReportingGroupId),
+        fetchReportingGroup(client, args.toReportingGroupId)
+      ]);
+      const moved = moveCpCodesBetween(from, to, args.cpcodeIds);
+
+      // Add first so the CP codes are never outside both groups
+      await saveReportingGroup(client, moved.to);
+      await saveReportingGroup(client, moved.from);
+      return moved;
+    },
+    {
+      format: 'text',
+      formatter: ({ from, to }) => `✅ Moved CP codes ${args.cpcodeIds.join(', ')} from ` +
+        `${from.reportingGroupName} (${from.reportingGroupId}) to ${to.reportingGroupName} (${to.reportingGroupId})`
+    }
+  );
+}
+
+/**
+ * Rename a CP code or change its time zone or purgeable flag
+ */
+export async function updateCpCode(args: z.infer<typeof CpCodeToolSchemas.updateCpCode>): Promise<MCPToolResponse> {
+  if (args.name === undefined && args.timezoneId === undefined && args.purgeable === undefined) {
+    throw new Error('Nothing to update: provide name, timezoneId and/or purgeable');
+  }
+
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_update',
+    args,
+    async (client) => {
+      const cpcode = await client.request<CprgCpCode>({
+        path: CpCodeEndpoints.cpcode(args.cpcodeId),
+        method: 'GET'
+      });
+
+      await client.request({
+        path: CpCodeEndpoints.cpcode(args.cpcodeId),
+        method: 'PUT',
+        body: {
+          cpcodeName: args.name ?? cpcode.cpcodeName,
+          purgeable: args.purgeable ?? cpcode.purgeable,
+          contracts: cpcode.contracts,
+          products: cpcode.products,
+          ...(args.timezoneId !== undefined
+            ? { overrideTimezone: { timezoneId: args.timezoneId } }
+            : cpcode.overrideTimezone && { overrideTimezone: cpcode.overrideTimezone })
+        }
+      });
+      return { before: cpcode };
+    },
+    {
+      format: 'text',
+      formatter: ({ before }) => {
+        let text = `✅ CP code ${args.cpcodeId} updated\n\n`;
+        if (args.name !== undefined) {
+          text += `Name: ${before.cpcodeName} → ${args.name}\n`;
+        }
+        if (args.timezoneId !== undefined) {
+          text += `Time zone: ${before.overrideTimezone?.timezoneValue || before.defaultTimezone || 'default'} → ${args.timezoneId}\n`;
+        }
+        if (args.purgeable !== undefined) {
+          text += `Purgeable: ${before.purgeable ?? 'unknown'} → ${args.purgeable}\n`;
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Edge hits per CP code from the traffic report, or the reason it is unavailable
+ */
+async function fetchCpCodeHits(
+  args: z.infer<typeof CpCodeToolSchemas.auditCpCodes>,
+  cpcodeIds: number[]
+): Promise<{ hits?: Map<number, number>; error?: string }> {
+  const end = new Date();
+  const start = new Date(end.getTime() - args.days * 86_400_000);
+  const response = await consolidatedReportingTools.getTrafficReport({
+    ...(args.customer && { customer: args.customer }),
+    start_date: start.toISOString(),
+    end_date: end.toISOString(),
+    granularity: 'DAY',
+    metrics: ['edge_hits'],
+    cp_codes: cpcodeIds.map(String),
+    group_by: 'cpcode'
+  });
+  // Errors come back as text responses rather than exceptions
+  const text = response.content?.[0]?.text || '';
+  let report: { data?: Array<{ identifier: string; metrics: Array<{ name: string; total: number }> }> };
+  try {
+    report = JSON.parse(text);
+  } catch {
+    return { error: text.split('\n')[0] || 'Traffic report failed' };
+  }
+  if (!Array.isArray(report.data)) {
+    return { error: 'Unexpected traffic report format' };
+  }
+
+  const hits = new Map<number, number>();
+  report.data.forEach(item => {
+    const total = item.metrics.find(metric => metric.name === 'edge_hits')?.total ?? 0;
+    hits.set(Number(item.identifier.replace(/\D/g, '')), total);
+  });
+  return { hits };
+}
+
+/**
+ * Find CP codes no property rule tree references or that receive no traffic
+ */
+export async function auditCpCodes(args: z.infer<typeof CpCodeToolSchemas.auditCpCodes>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'cpcodes',
+    'cpcode_audit',
+    args,
+    async (client) => {
+      const cpcodes = await client.request<{ cpcodes: CprgCpCode[] }>({
+        path: CpCodeEndpoints.cpcodes(),
+        method: 'GET',
+        queryParams: {
+          ...(args.contractId && { contractId: cprgContractId(args.contractId) }),
+          ...(args.groupId && { groupId: String(cprgGroupId(args.groupId)) })
+        }
+      });
+
+      const properties = await client.request<{ properties: { items: Property[] } }>({
+        path: PropertyEndpoints.listProperties(),
+        method: 'GET',
+        queryParams: {
+          ...(args.contractId && { contractId: args.contractId }),
+          ...(args.groupId && { groupId: args.groupId })
+        }
+      });
+      const scanned = (properties.properties?.items || [])
+        .filter(property => !args.propertyIds || args.propertyIds.includes(property.propertyId));
+
+      // Latest, staging and production versions can each use different CP codes
+      const references = new Map<number, string[]>();
+      for (const property of scanned) {
+        const versions = new Set([property.latestVersion, property.stagingVersion, property.productionVersion]
+          .filter((version): version is number => !!version));
+        for (const version of versions) {
+          const response = await client.request<{ rules: RuleTree }>({
+            path: PropertyEndpoints.getPropertyRules(property.propertyId, version),
+            method: 'GET',
+            queryParams: { contractId: property.contractId, groupId: property.groupId }
+          });
+          for (const id of collectRuleTreeCpCodes(response.rules)) {
+            const users = references.get(id) || [];
+            const label = `${property.propertyName} v${version}`;
+            references.set(id, users.includes(label) ? users : [...users, label]);
+          }
+        }
+      }
+
+      const traffic = await fetchCpCodeHits(args, (cpcodes.cpcodes || []).map(cpcode => cpcode.cpcodeId));
+      return {
+        totalCpCodes: (cpcodes.cpcodes || []).length,
+        propertiesScanned: scanned.length,
+        findings: classifyCpCodes(cpcodes.cpcodes || [], references, traffic.hits, args.minimumHits),
+        trafficError: traffic.error
+      };
+    },
+    {
+      format: 'text',
+      formatter: ({ totalCpCodes, propertiesScanned, findings, trafficError }) => {
+        let text = `🔎 **CP Code Audit**: ${totalCpCodes} CP codes, ${propertiesScanned} properties scanned, ` +
+          `last ${args.days} days of traffic\n\n`;
+        const unreferenced = findings.filter(finding => finding.unreferenced);
+        const idle = findings.filter(finding => finding.idle && !finding.unreferenced);
+
+        text += `**Not referenced by any rule tree** (${unreferenced.length}):\n`;
+        unreferenced.forEach(finding => {
+          text += `• ${finding.cpcodeId} ${finding.cpcodeName}` +
+            `${finding.edgeHits !== undefined ? ` | ${finding.edgeHits} edge hits` : ''}\n`;
+        });
+        text += `\n**Referenced but idle** (${idle.length}):\n`;
+        idle.forEach(finding => {
+          text += `• ${finding.cpcodeId} ${finding.cpcodeName} | ${finding.edgeHits} edge hits | ` +
+            `used by ${finding.referencedBy.join(', ')}\n`;
+        });
+        if (trafficError) {
+          text += `\n⚠️ Traffic data unavailable, idle CP codes not assessed: ${trafficError}\n`;
+        }
+        text += '\nUnreferenced CP codes may still be used by other products (e.g. NetStorage, Media Services); ' +
+          'check before retiring them.';
+        return text;
+      }
+    }
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * CP Code Domain Export Module
+ *
+ * Exports CP code and reporting group tools using the standard BaseTool pattern
+ */
+
+import {
+  listReportingGroups,
+  getReportingGroup,
+  createReportingGroup,
+  updateReportingGroup,
+  deleteReportingGroup,
+  moveCpCodes,
+  updateCpCode,
+  auditCpCodes
+} from './cpcode-tools';
+import { CpCodeToolSchemas } from './cpcode-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface CpCodeTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * CP Code Domain Tools with handlers
+ */
+export const cpcodeTools: Record<string, CpCodeTool> = {
+  // Reporting Groups
+  'cpcode_reporting_group_list': {
+    name: 'cpcode_reporting_group_list',
+    description: 'List CP code reporting groups with their contracts and CP code counts',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.listReportingGroups),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.listReportingGroups.parse(args);
+      return listReportingGroups(validatedArgs);
+    }
+  },
+
+  'cpcode_reporting_group_get': {
+    name: 'cpcode_reporting_group_get',
+    description: 'Get a reporting group with its CP codes per contract',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.getReportingGroup),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.getReportingGroup.parse(args);
+      return getReportingGroup(validatedArgs);
+    }
+  },
+
+  'cpcode_reporting_group_create': {
+    name: 'cpcode_reporting_group_create',
+    description: 'Create a reporting group from CP codes of a contract',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.createReportingGroup),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.createReportingGroup.parse(args);
+      return createReportingGroup(validatedArgs);
+    }
+  },
+
+  'cpcode_reporting_group_update': {
+    name: 'cpcode_reporting_group_update',
+    description: 'Rename a reporting group or replace its CP codes for a contract',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.updateReportingGroup),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.updateReportingGroup.parse(args);
+      return updateReportingGroup(validatedArgs);
+    }
+  },
+
+  'cpcode_reporting_group_delete': {
+    name: 'cpcode_reporting_group_delete',
+    description: 'Delete a reporting group; its CP codes are unaffected',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.deleteReportingGroup),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.deleteReportingGroup.parse(args);
+      return deleteReportingGroup(validatedArgs);
+    }
+  },
+
+  'cpcode_reporting_group_move': {
+    name: 'cpcode_reporting_group_move',
+    description: 'Move CP codes from one reporting group to another',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.moveCpCodes),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.moveCpCodes.parse(args);
+      return moveCpCodes(validatedArgs);
+    }
+  },
+
+  // CP Codes
+  'cpcode_update': {
+    name: 'cpcode_update',
+    description: 'Rename a CP code or change its report time zone or purgeable flag',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.updateCpCode),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.updateCpCode.parse(args);
+      return updateCpCode(validatedArgs);
+    }
+  },
+
+  'cpcode_audit': {
+    name: 'cpcode_audit',
+    description: 'Find CP codes that no property rule tree references or that receive no traffic',
+    inputSchema: zodToJsonSchema(CpCodeToolSchemas.auditCpCodes),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = CpCodeToolSchemas.auditCpCodes.parse(args);
+      return auditCpCodes(validatedArgs);
+    }
+  }
+};
+
+export default cpcodeTools;
@@ -0,0 +1,126 @@
+/**
+ * DataStream 2 API Implementation
+ *
+ * Log delivery streams from Akamai's DataStream 2 Configuration API
+ *
+ * API Documentation: https://techdocs.akamai.com/datastream2/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+import { DeliveryConfigurationSchema, DestinationSchema } from './datastream-config';
+
+/**
+ * Base URL for DataStream 2 Configuration API
+ */
+export const DATASTREAM_API_BASE = '/datastream-config-api/v2';
+
+/**
+ * DataStream API Endpoints
+ */
+export const DatastreamEndpoints = {
+  streams: () => `${DATASTREAM_API_BASE}/log/streams`,
+  stream: (streamId: number) => `${DATASTREAM_API_BASE}/log/streams/${streamId}`,
+  activate: (streamId: number) => `${DATASTREAM_API_BASE}/log/streams/${streamId}/activate`,
+  deactivate: (streamId: number) => `${DATASTREAM_API_BASE}/log/streams/${streamId}/deactivate`,
+  datasetFields: () => `${DATASTREAM_API_BASE}/log/datasets-fields`
+};
+
+const StreamFields = {
+  streamName: z.string().min(1).max(100),
+  groupId: z.number().int().describe('Group the stream belongs to'),
+  contractId: z.string().describe('Contract ID, e.g. 1-ABCDE (no ctr_ prefix)'),
+  propertyIds: z.array(z.number().int()).min(1).max(100)
+    .describe('Properties to collect logs from; each also needs the datastream behavior (see datastream_property_link)'),
+  datasetFieldIds: z.array(z.number().int()).min(1).describe('Dataset field IDs to log, in order'),
+  destination: DestinationSchema,
+  deliveryConfiguration: DeliveryConfigurationSchema.default({ format: 'JSON', frequency: { intervalInSeconds: 30 } }),
+  notificationEmails: z.array(z.string().email()).optional(),
+  collectMidgress: z.boolean().default(false).describe('Also log midgress (edge to edge) traffic'),
+  activate: z.boolean().default(false).describe('Activate the stream once saved')
+};
+
+/**
+ * DataStream Tool Schemas
+ */
+export const DatastreamToolSchemas = {
+  listStreams: CustomerSchema.extend({
+    groupId: z.number().int().optional().describe('Only streams in this group')
+  }),
+
+  getStream: CustomerSchema.extend({
+    streamId: z.number().int(),
+    version: z.number().int().optional().describe('Stream version (defaults to the latest)')
+  }),
+
+  createStream: CustomerSchema.extend(StreamFields),
+
+  updateStream: CustomerSchema.extend({
+    streamId: z.number().int(),
+    streamName: StreamFields.streamName.optional(),
+    propertyIds: StreamFields.propertyIds.optional(),
+    datasetFieldIds: StreamFields.datasetFieldIds.optional(),
+    destination: DestinationSchema.optional()
+      .describe('New destination; connectors with secrets must be given in full, stored secrets are not returned by the API'),
+    deliveryConfiguration: DeliveryConfigurationSchema.optional(),
+    notificationEmails: StreamFields.notificationEmails,
+    collectMidgress: z.boolean().optional(),
+    activate: StreamFields.activate
+  }),
+
+  activateStream: CustomerSchema.extend({
+    streamId: z.number().int()
+  }),
+
+  deactivateStream: CustomerSchema.extend({
+    streamId: z.number().int()
+  }),
+
+  listDatasetFields: CustomerSchema.extend({
+    productId: z.string().optional().describe('Only fields available for this product, e.g. Download_Delivery')
+  }),
+
+  validateConnector: z.object({
+    destination: z.record(z.string(), z.unknown()).describe('Destination to check, including destinationType')
+  }),
+
+  linkProperty: CustomerSchema.extend({
+    propertyId: z.string().describe('Property ID (prp_*)'),
+    version: z.number().int().positive().describe('Editable property version'),
+    streamIds: z.array(z.number().int()).min(1),
+    samplingPercentage: z.number().int().min(1).max(100).default(100),
+    unlink: z.boolean().default(false).describe('Remove the streams from the property instead')
+  })
+};
+
+/**
+ * Response types for DataStream operations
+ */
+export interface DatasetField {
+  datasetFieldId: number;
+  datasetFieldName: string;
+  datasetFieldJsonKey?: string;
+  datasetFieldDescription?: string;
+  datasetFieldGroup?: string;
+}
+
+export interface DatastreamStream {
+  streamId: number;
+  streamName: string;
+  streamVersion: number;
+  latestVersion?: number;
+  streamStatus: 'ACTIVATED' | 'ACTIVATING' | 'DEACTIVATED' | 'DEACTIVATING' | 'INACTIVE';
+  groupId: number;
+  contractId: string;
+  productId?: string;
+  properties?: Array<{ propertyId: number; propertyName?: string }>;
+  datasetFields?: DatasetField[];
+  destination?: { destinationType: string; displayName?: string } & Record<string, unknown>;
+  deliveryConfiguration?: z.infer<typeof DeliveryConfigurationSchema>;
+  notificationEmails?: string[];
+  collectMidgress?: boolean;
+  createdBy?: string;
+  createdDate?: string;
+  modifiedBy?: string;
+  modifiedDate?: string;
+}
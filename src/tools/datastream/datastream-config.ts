@@ -0,0 +1,240 @@
+/**
+ * DataStream Configuration Checks
+ *
+ * Local validation of connectors (destinations), delivery settings and
+ * dataset field IDs, so mistakes are caught before a stream version is
+ * submitted, and the rule tree edit that links streams to a property.
+ */
+
+import { z } from 'zod';
+import type { Behavior, RuleTree } from '../../types/akamai';
+import type { DatasetField } from './datastream-api-implementation';
+
+const HttpsUrlSchema = z.string().url().startsWith('https://', 'Endpoint must use https://');
+
+/**
+ * Require an https endpoint whose path ends the way the connector expects
+ */
+const endpointWithPath = (pattern: RegExp, example: string) =>
+  HttpsUrlSchema.refine(
+    url => pattern.test(new URL(url).pathname),
+    `Endpoint path must look like ${example}`
+  );
+
+const BucketSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/, 'Bucket names are 3-63 lowercase letters, digits, dots and hyphens');
+
+const ObjectPathSchema = z.string().max(255)
+  .refine(path => !path.startsWith('/'), 'Path must not start with /');
+
+const CustomHeaderFields = {
+  customHeaderName: z.string().regex(/^[A-Za-z0-9-]+$/, 'Header names may only contain letters, digits and hyphens').optional(),
+  customHeaderValue: z.string().optional()
+};
+
+const MtlsFields = {
+  tlsHostname: z.string().optional(),
+  caCert: z.string().optional(),
+  clientCert: z.string().optional(),
+  clientKey: z.string().optional()
+};
+
+const displayName = z.string().min(1).max(255).describe('Name shown for the destination in Control Center');
+
+/**
+ * Connector (destination) schemas, one per DataStream destination type
+ */
+export const DestinationSchema = z.discriminatedUnion('destinationType', [
+  z.object({
+    destinationType: z.literal('S3'),
+    displayName,
+    bucket: BucketSchema,
+    path: ObjectPathSchema,
+    region: z.string().regex(/^[a-z]{2}(-gov)?-[a-z]+-\d$/, 'Region must be an AWS region such as us-east-1'),
+    accessKey: z.string().regex(/^[A-Z0-9]{16,128}$/, 'Access key must be an AWS access key ID'),
+    secretAccessKey: z.string().min(1)
+  }),
+  z.object({
+    destinationType: z.literal('AZURE'),
+    displayName,
+    accountName: z.string().regex(/^[a-z0-9]{3,24}$/, 'Storage account names are 3-24 lowercase letters and digits'),
+    accessKey: z.string().min(1),
+    containerName: z.string().regex(/^[a-z0-9](?!.*--)[a-z0-9-]{1,61}[a-z0-9]$/, 'Invalid container name'),
+    path: ObjectPathSchema
+  }),
+  z.object({
+    destinationType: z.literal('GCS'),
+    displayName,
+    bucket: BucketSchema,
+    path: ObjectPathSchema.optional(),
+    projectId: z.string().regex(/^[a-z][a-z0-9-]{4,28}[a-z0-9]$/, 'Invalid Google Cloud project ID'),
+    serviceAccountName: z.string().min(1),
+    privateKey: z.string().includes('PRIVATE KEY', { message: 'Private key must be a PEM encoded key' })
+  }),
+  z.object({
+    destinationType: z.literal('ORACLE'),
+    displayName,
+    bucket: BucketSchema,
+    namespace: z.string().min(1),
+    path: ObjectPathSchema,
+    region: z.string().min(1),
+    accessKey: z.string().min(1),
+    secretAccessKey: z.string().min(1)
+  }),
+  z.object({
+    destinationType: z.literal('HTTPS'),
+    displayName,
+    endpoint: HttpsUrlSchema,
+    authenticationType: z.enum(['NONE', 'BASIC']),
+    userName: z.string().optional(),
+    password: z.string().optional(),
+    contentType: z.enum(['application/json', 'application/json; charset=utf-8']).optional(),
+    compressLogs: z.boolean().default(false),
+    ...CustomHeaderFields,
+    ...MtlsFields
+  }),
+  z.object({
+    destinationType: z.literal('SPLUNK'),
+    displayName,
+    endpoint: endpointWithPath(/\/services\/collector\/raw\/?$/, 'https://splunk.example.com:8088/services/collector/raw'),
+    eventCollectorToken: z.string().uuid('Event collector token must be a Splunk HEC token (UUID)'),
+    compressLogs: z.boolean().default(true),
+    ...CustomHeaderFields,
+    ...MtlsFields
+  }),
+  z.object({
+    destinationType: z.literal('ELASTICSEARCH'),
+    displayName,
+    endpoint: endpointWithPath(/\/_bulk\/?$/, 'https://es.example.com:9243/_bulk/'),
+    indexName: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/, 'Index names must be lowercase and cannot start with _, - or +'),
+    userName: z.string().min(1),
+    password: z.string().min(1),
+    contentType: z.enum(['application/json', 'application/json; charset=utf-8']).optional(),
+    ...CustomHeaderFields,
+    ...MtlsFields
+  }),
+  z.object({
+    destinationType: z.literal('DATADOG'),
+    displayName,
+    endpoint: endpointWithPath(/\/(v1\/input|api\/v2\/logs)\/?$/, 'https://http-intake.logs.datadoghq.com/api/v2/logs'),
+    authToken: z.string().regex(/^[a-f0-9]{32}$/, 'Auth token must be a 32 character Datadog API key'),
+    service: z.string().optional(),
+    source: z.string().optional(),
+    tags: z.string().optional(),
+    compressLogs: z.boolean().default(true)
+  }),
+  z.object({
+    destinationType: z.literal('SUMO_LOGIC'),
+    displayName,
+    endpoint: endpointWithPath(/\/receiver\/v1\/http\/?$/, 'https://endpoint1.collection.sumologic.com/receiver/v1/http'),
+    collectorCode: z.string().min(1),
+    contentType: z.enum(['application/json', 'application/json; charset=utf-8']).optional(),
+    compressLogs: z.boolean().default(true),
+    ...CustomHeaderFields
+  }),
+  z.object({
+    destinationType: z.literal('LOGGLY'),
+    displayName,
+    endpoint: endpointWithPath(/\/bulk\/?$/, 'https://logs-01.loggly.com/bulk/'),
+    authToken: z.string().min(1),
+    tags: z.string().optional(),
+    contentType: z.string().optional(),
+    ...CustomHeaderFields
+  }),
+  z.object({
+    destinationType: z.literal('NEWRELIC'),
+    displayName,
+    endpoint: endpointWithPath(/\/log\/v1\/?$/, 'https://log-api.newrelic.com/log/v1'),
+    authToken: z.string().min(1),
+    contentType: z.string().optional(),
+    ...CustomHeaderFields
+  })
+]).superRefine((destination, ctx) => {
+  if (destination.destinationType === 'HTTPS' && destination.authenticationType === 'BASIC' &&
+    (!destination.userName || !destination.password)) {
+    ctx.addIssue({ code: 'custom', path: ['userName'], message: 'BASIC authentication requires userName and password' });
+  }
+  if ('customHeaderName' in destination && !destination.customHeaderName !== !destination.customHeaderValue) {
+    ctx.addIssue({ code: 'custom', path: ['customHeaderName'], message: 'customHeaderName and customHeaderValue go together' });
+  }
+  if ('clientCert' in destination && !destination.clientCert !== !destination.clientKey) {
+    ctx.addIssue({ code: 'custom', path: ['clientCert'], message: 'clientCert and clientKey go together for mTLS' });
+  }
+});
+
+export type DatastreamDestination = z.infer<typeof DestinationSchema>;
+
+export const DeliveryConfigurationSchema = z.object({
+  format: z.enum(['JSON', 'STRUCTURED']).default('JSON'),
+  fieldDelimiter: z.enum(['SPACE']).optional().describe('Required for STRUCTURED logs'),
+  frequency: z.object({
+    intervalInSeconds: z.union([z.literal(30), z.literal(60)])
+  }).default({ intervalInSeconds: 30 }),
+  uploadFilePrefix: z.string().regex(/^[\w-]{0,200}$/).optional(),
+  uploadFileSuffix: z.string().regex(/^[\w-]{0,10}$/).optional()
+}).superRefine((config, ctx) => {
+  if (config.format === 'STRUCTURED' && !config.fieldDelimiter) {
+    ctx.addIssue({ code: 'custom', path: ['fieldDelimiter'], message: 'STRUCTURED logs require a fieldDelimiter' });
+  }
+  if (config.format === 'JSON' && config.fieldDelimiter) {
+    ctx.addIssue({ code: 'custom', path: ['fieldDelimiter'], message: 'JSON logs do not take a fieldDelimiter' });
+  }
+});
+
+/**
+ * Check dataset field IDs against the fields DataStream offers
+ * Returns human-readable problems; an empty list means the IDs can be submitted
+ */
+export function validateDatasetFields(fieldIds: number[], available: DatasetField[]): string[] {
+  const errors: string[] = [];
+  const known = new Set(available.map(field => field.datasetFieldId));
+  const seen = new Set<number>();
+
+  for (const fieldId of fieldIds) {
+    if (seen.has(fieldId)) {
+      errors.push(`Dataset field ${fieldId} is listed more than once`);
+    } else if (!known.has(fieldId)) {
+      errors.push(`Unknown dataset field ${fieldId}`);
+    }
+    seen.add(fieldId);
+  }
+  return errors;
+}
+
+/**
+ * Rule tree with streams added to (or removed from) the default rule's
+ * datastream behavior
+ */
+export function applyDatastreamBehavior(
+  rules: RuleTree,
+  options: { streamIds: number[]; samplingPercentage: number; unlink?: boolean }
+): RuleTree {
+  const behaviors = rules.behaviors || [];
+  const existing = behaviors.find(behavior => behavior.name === 'datastream');
+  const currentIds = Array.isArray(existing?.options['logStreamName'])
+    ? (existing.options['logStreamName'] as unknown[]).map(String)
+    : [];
+  const requested = options.streamIds.map(String);
+
+  const streamIds = options.unlink
+    ? currentIds.filter(id => !requested.includes(id))
+    : [...currentIds, ...requested.filter(id => !currentIds.includes(id))];
+
+  const behavior: Behavior = {
+    name: 'datastream',
+    options: {
+      ...existing?.options,
+      streamType: 'LOG',
+      logEnabled: streamIds.length > 0,
+      logStreamName: streamIds,
+      samplingPercentage: options.samplingPercentage
+    }
+  };
+
+  return {
+    ...rules,
+    behaviors: existing
+      ? behaviors.map(item => (item === existing ? behavior : item))
+      : [...behaviors, behavior]
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * DataStream 2 Tools Implementation
+ *
+ * Tools for managing log delivery streams: stream lifecycle, dataset
+ * fields, connector validation and linking streams to properties through
+ * the datastream rule tree behavior
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import { AkamaiClient } from '../../akamai-client';
+import type { RuleTree } from '../../types/akamai';
+import { PropertyEndpoints } from '../property/property-api-implementation';
+import { updatePropertyRules } from '../property/property-tools';
+import {
+  DatastreamEndpoints,
+  DatastreamToolSchemas,
+  type DatasetField,
+  type DatastreamStream
+} from './datastream-api-implementation';
+import { DestinationSchema, applyDatastreamBehavior, validateDatasetFields } from './datastream-config';
+
+type StreamFields = Omit<z.infer<typeof DatastreamToolSchemas.createStream>, 'customer' | 'activate'>;
+
+/**
+ * Fetch the dataset fields DataStream offers and reject unknown or duplicate IDs
+ * Runs before every create and update so bad IDs never reach a stream version
+ */
+async function checkDatasetFields(client: AkamaiClient, fieldIds: number[]): Promise<void> {
+  const { datasetFields } = await client.request<{ datasetFields: DatasetField[] }>({
+    path: DatastreamEndpoints.datasetFields(),
+    method: 'GET'
+  });
+  const errors = validateDatasetFields(fieldIds, datasetFields || []);
+  if (errors.length > 0) {
+    throw new Error(`Invalid dataset fields:\n${errors.map(error => `• ${error}`).join('\n')}\n\n` +
+      'Use datastream_dataset_fields_list to see the available fields.');
+  }
+}
+
+function buildStreamBody(fields: StreamFields): Record<string, unknown> {
+  const { propertyIds, datasetFieldIds, ...rest } = fields;
+  return {
+    ...rest,
+    properties: propertyIds.map(propertyId => ({ propertyId })),
+    datasetFields: datasetFieldIds.map(datasetFieldId => ({ datasetFieldId }))
+  };
+}
+
+function formatStream(stream: DatastreamStream): string {
+  let text = `📡 **${stream.streamName}** (${stream.streamId})\n`;
+  text += `Status: ${stream.streamStatus}\n`;
+  text += `Version: ${stream.streamVersion}${stream.latestVersion ? ` (latest ${stream.latestVersion})` : ''}\n`;
+  text += `Group: ${stream.groupId} | Contract: ${stream.contractId}\n`;
+  if (stream.destination) {
+    text += `Destination: ${stream.destination.destinationType}` +
+      `${stream.destination.displayName ? ` (${stream.destination.displayName})` : ''}\n`;
+  }
+  if (stream.deliveryConfiguration) {
+    text += `Format: ${stream.deliveryConfiguration.format}, every ` +
+      `${stream.deliveryConfiguration.frequency.intervalInSeconds}s\n`;
+  }
+  if (stream.properties?.length) {
+    text += `\n**Properties** (${stream.properties.length}):\n`;
+    stream.properties.forEach(property => {
+      text += `• ${property.propertyName || property.propertyId} (${property.propertyId})\n`;
+    });
+  }
+  if (stream.datasetFields?.length) {
+    text += `\n**Dataset Fields** (${stream.datasetFields.length}): `;
+    text += stream.datasetFields.map(field => `${field.datasetFieldName} (${field.datasetFieldId})`).join(', ');
+    text += '\n';
+  }
+  return text;
+}
+
+/**
+ * List streams
+ */
+export async function listStreams(args: z.infer<typeof DatastreamToolSchemas.listStreams>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_stream_list',
+    args,
+    async (client) => client.request<DatastreamStream[]>({
+      path: DatastreamEndpoints.streams(),
+      method: 'GET',
+      ...(args.groupId !== undefined && { queryParams: { groupId: String(args.groupId) } })
+    }),
+    {
+      format: 'text',
+      formatter: (streams) => {
+        let text = `📡 **DataStream Streams** (${streams.length})\n\n`;
+        streams.forEach(stream => {
+          text += `• ${stream.streamName} (${stream.streamId}) | ${stream.streamStatus} | ` +
+            `v${stream.streamVersion} | ${stream.properties?.length || 0} properties\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `datastream:streams:${p.groupId ?? 'all'}`,
+      cacheTtl: 60 // 1 minute
+    }
+  );
+}
+
+/**
+ * Get a stream
+ */
+export async function getStream(args: z.infer<typeof DatastreamToolSchemas.getStream>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_stream_get',
+    args,
+    async (client) => client.request<DatastreamStream>({
+      path: DatastreamEndpoints.stream(args.streamId),
+      method: 'GET',
+      ...(args.version !== undefined && { queryParams: { version: String(args.version) } })
+    }),
+    {
+      format: 'text',
+      formatter: formatStream
+    }
+  );
+}
+
+/**
+ * Create a stream
+ */
+export async function createStream(args: z.infer<typeof DatastreamToolSchemas.createStream>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_stream_create',
+    args,
+    async (client) => {
+      const { customer: _, activate, ...fields } = args;
+      await checkDatasetFields(client, fields.datasetFieldIds);
+      return client.request<DatastreamStream>({
+        path: DatastreamEndpoints.streams(),
+        method: 'POST',
+        queryParams: { activate: String(activate) },
+        body: buildStreamBody(fields)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (stream) => `✅ Stream created\n\n${formatStream(stream)}` +
+        (args.activate ? '' : '\n🎯 **Next Step:** Link the properties with datastream_property_link, then activate the stream.')
+    }
+  );
+}
+
+/**
+ * Update a stream, creating a new stream version
+ * Fields not given are taken from the current version
+ */
+export async function updateStream(args: z.infer<typeof DatastreamToolSchemas.updateStream>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_stream_update',
+    args,
+    async (client) => {
+      const current = await client.request<DatastreamStream>({
+        path: DatastreamEndpoints.stream(args.streamId),
+        method: 'GET'
+      });
+
+      const datasetFieldIds = args.datasetFieldIds ||
+        (current.datasetFields || []).map(field => field.datasetFieldId);
+      if (args.datasetFieldIds) {
+        await checkDatasetFields(client, datasetFieldIds);
+      }
+
+      const body = {
+        ...buildStreamBody({
+          streamName: args.streamName || current.streamName,
+          groupId: current.groupId,
+          contractId: current.contractId,
+          propertyIds: args.propertyIds || (current.properties || []).map(property => property.propertyId),
+          datasetFieldIds,
+          destination: (args.destination || current.destination) as StreamFields['destination'],
+          deliveryConfiguration: args.deliveryConfiguration || current.deliveryConfiguration!,
+          collectMidgress: args.collectMidgress ?? current.collectMidgress ?? false
+        }),
+        ...((args.notificationEmails || current.notificationEmails) && {
+          notificationEmails: args.notificationEmails || current.notificationEmails
+        })
+      };
+
+      return client.request<DatastreamStream>({
+        path: DatastreamEndpoints.stream(args.streamId),
+        method: 'PUT',
+        queryParams: { activate: String(args.activate) },
+        body
+      });
+    },
+    {
+      format: 'text',
+      formatter: (stream) => `✅ Stream updated\n\n${formatStream(stream)}`
+    }
+  );
+}
+
+/**
+ * Activate the latest version of a stream
+ */
+export async function activateStream(args: z.infer<typeof DatastreamToolSchemas.activateStream>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_stream_activate',
+    args,
+    async (client) => client.request<DatastreamStream>({
+      path: DatastreamEndpoints.activate(args.streamId),
+      method: 'POST'
+    }),
+    {
+      format: 'text',
+      formatter: (stream) => `🚀 Activating stream ${args.streamId} (status: ${stream.streamStatus || 'ACTIVATING'})\n\n` +
+        'Activation takes about 90 minutes; logs arrive once the linked property versions are active too.'
+    }
+  );
+}
+
+/**
+ * Deactivate a stream
+ */
+export async function deactivateStream(args: z.infer<typeof DatastreamToolSchemas.deactivateStream>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_stream_deactivate',
+    args,
+    async (client) => client.request<DatastreamStream>({
+      path: DatastreamEndpoints.deactivate(args.streamId),
+      method: 'POST'
+    }),
+    {
+      format: 'text',
+      formatter: (stream) => `⏹️ Deactivating stream ${args.streamId} (status: ${stream.streamStatus || 'DEACTIVATING'})`
+    }
+  );
+}
+
+/**
+ * List dataset fields that can be logged
+ */
+export async function listDatasetFields(args: z.infer<typeof DatastreamToolSchemas.listDatasetFields>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'datastream',
+    'datastream_dataset_fields_list',
+    args,
+    async (client) => client.request<{ datasetFields: DatasetField[] }>({
+      path: DatastreamEndpoints.datasetFields(),
+      method: 'GET',
+      ...(args.productId && { queryParams: { productId: args.productId } })
+    }),
+    {
+      format: 'text',
+      formatter: ({ datasetFields }) => {
+        const groups = new Map<string, DatasetField[]>();
+        datasetFields.forEach(field => {
+          const group = field.datasetFieldGroup || 'Other';
+          groups.set(group, [...(groups.get(group) || []), field]);
+        });
+
+        let text = `📋 **Dataset Fields** (${datasetFields.length})\n`;
+        groups.forEach((fields, group) => {
+          text += `\n**${group}**:\n`;
+          fields.forEach(field => {
+            text += `• ${field.datasetFieldId}: ${field.datasetFieldName}` +
+              `${field.datasetFieldJsonKey ? ` [${field.datasetFieldJsonKey}]` : ''}\n`;
+          });
+        });
+        return text;
+      },
+      cacheKey: (p) => `datastream:dataset-fields:${p.productId || 'all'}`,
+      cacheTtl: 3600 // 1 hour
+    }
+  );
+}
+
+/**
+ * Validate a connector locally without contacting the destination
+ */
+export async function validateConnector(args: z.infer<typeof DatastreamToolSchemas.validateConnector>): Promise<MCPToolResponse> {
+  const result = DestinationSchema.safeParse(args.destination);
+  const text = result.success
+    ? `✅ ${result.data.destinationType} connector '${result.data.displayName}' is valid`
+    : `❌ Connector is invalid:\n${result.error.issues
+      .map(issue => `• ${issue.path.join('.') || 'destination'}: ${issue.message}`)
+      .join('\n')}`;
+
+  return {
+    content: [{ type: 'text', text }],
+    ...(!result.success && { isError: true })
+  };
+}
+
+/**
+ * Link streams to a property (or unlink them) through the datastream behavior
+ * The edited rule tree is saved with property_rules_update, so rule
+ * validation and plan mode apply as for any other rule edit.
+ */
+export async function linkProperty(args: z.infer<typeof DatastreamToolSchemas.linkProperty>): Promise<MCPToolResponse> {
+  const client = new AkamaiClient(args.customer || 'default');
+  const { rules } = await client.request<{ rules: RuleTree }>({
+    path: PropertyEndpoints.getPropertyRules(args.propertyId, args.version),
+    method: 'GET'
+  });
+
+  return updatePropertyRules({
+    ...(args.customer && { customer: args.customer }),
+    ...(args.dryRun && { dryRun: args.dryRun }),
+    propertyId: args.propertyId,
+    version: args.version,
+    rules: { ...applyDatastreamBehavior(rules, args) },
+    validateRules: true
+  });
+}
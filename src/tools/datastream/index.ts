@@ -0,0 +1,131 @@
+/**
+ * DataStream Domain Export Module
+ *
+ * Exports DataStream 2 log delivery tools using the standard BaseTool pattern
+ */
+
+import {
+  listStreams,
+  getStream,
+  createStream,
+  updateStream,
+  activateStream,
+  deactivateStream,
+  listDatasetFields,
+  validateConnector,
+  linkProperty
+} from './datastream-tools';
+import { DatastreamToolSchemas } from './datastream-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface DatastreamTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * DataStream Domain Tools with handlers
+ */
+export const datastreamTools: Record<string, DatastreamTool> = {
+  // Streams
+  'datastream_stream_list': {
+    name: 'datastream_stream_list',
+    description: 'List DataStream log delivery streams',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.listStreams),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.listStreams.parse(args);
+      return listStreams(validatedArgs);
+    }
+  },
+
+  'datastream_stream_get': {
+    name: 'datastream_stream_get',
+    description: 'Get a stream with its properties, dataset fields and destination',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.getStream),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.getStream.parse(args);
+      return getStream(validatedArgs);
+    }
+  },
+
+  'datastream_stream_create': {
+    name: 'datastream_stream_create',
+    description: 'Create a log delivery stream; the connector and dataset field IDs are validated before submission',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.createStream),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.createStream.parse(args);
+      return createStream(validatedArgs);
+    }
+  },
+
+  'datastream_stream_update': {
+    name: 'datastream_stream_update',
+    description: 'Update a stream, creating a new stream version; omitted fields keep their current values',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.updateStream),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.updateStream.parse(args);
+      return updateStream(validatedArgs);
+    }
+  },
+
+  // Activation
+  'datastream_stream_activate': {
+    name: 'datastream_stream_activate',
+    description: 'Activate the latest version of a stream',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.activateStream),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.activateStream.parse(args);
+      return activateStream(validatedArgs);
+    }
+  },
+
+  'datastream_stream_deactivate': {
+    name: 'datastream_stream_deactivate',
+    description: 'Deactivate a stream',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.deactivateStream),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.deactivateStream.parse(args);
+      return deactivateStream(validatedArgs);
+    }
+  },
+
+  // Dataset Fields and Connectors
+  'datastream_dataset_fields_list': {
+    name: 'datastream_dataset_fields_list',
+    description: 'List the dataset fields that can be logged, grouped by category',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.listDatasetFields),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.listDatasetFields.parse(args);
+      return listDatasetFields(validatedArgs);
+    }
+  },
+
+  'datastream_connector_validate': {
+    name: 'datastream_connector_validate',
+    description: 'Check a destination (S3, Azure, GCS, Oracle, HTTPS, Splunk, Elasticsearch, Datadog, Sumo Logic, Loggly, New Relic) without contacting it',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.validateConnector),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.validateConnector.parse(args);
+      return validateConnector(validatedArgs);
+    }
+  },
+
+  // Property Linking
+  'datastream_property_link': {
+    name: 'datastream_property_link',
+    description: 'Link streams to a property version (or unlink them) by editing the datastream behavior in its rule tree',
+    inputSchema: zodToJsonSchema(DatastreamToolSchemas.linkProperty),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = DatastreamToolSchemas.linkProperty.parse(args);
+      return linkProperty(validatedArgs);
+    }
+  }
+};
+
+export default datastreamTools;
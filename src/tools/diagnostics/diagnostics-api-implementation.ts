@@ -293,6 +293,11 @@ export const DiagnosticsToolSchemas = {
     customer: z.string().optional().describe('Akamai account name/ID (defaults to "default")')
   }),
   
+  getAsyncRequestStatus: z.object({
+    requestId: z.string().describe('Request ID of the async diagnostic request'),
+    customer: z.string().optional().describe('Akamai account name/ID (defaults to "default")')
+  }),
+  
   // Edge Locations
   listEdgeLocations: z.object({
     customer: z.string().optional().describe('Akamai account name/ID (defaults to "default")')
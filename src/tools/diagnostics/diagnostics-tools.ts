@@ -241,7 +241,7 @@ export async function runMtr(args: z.infer<typeof DiagnosticsToolSchemas.runMtr>
 /**
  * Search edge server logs with GREP
  */
-export async function runGrep(args: z.infer<typeof DiagnosticsToolSchemas.runGrep>): Promise<MCPToolResponse> {
+export async function runGrep(args: z.infer<typeof DiagnosticsToolSchemas.grepLogs>): Promise<MCPToolResponse> {
   return BaseTool.execute(
     'diagnostics',
     'diagnostics_grep',
@@ -257,7 +257,7 @@ export async function runGrep(args: z.infer<typeof DiagnosticsToolSchemas.runGre
     {
       format: 'text',
       formatter: (result) => formatGrepResponse(result, args.cpCode),
-      cacheKey: (p) => `diagnostics:grep:${p.cpCode}:${p.searchPattern}:${p.timeRange.start}`,
+      cacheKey: (p) => `diagnostics:grep:${p.cpCode}:${p.edgeIp}:${p.start}`,
       cacheTtl: 60 // 1 minute
     }
   );
@@ -266,7 +266,7 @@ export async function runGrep(args: z.infer<typeof DiagnosticsToolSchemas.runGre
 /**
  * Get available edge server locations
  */
-export async function getEdgeLocations(args: z.infer<typeof DiagnosticsToolSchemas.getEdgeLocations>): Promise<MCPToolResponse> {
+export async function getEdgeLocations(args: z.infer<typeof DiagnosticsToolSchemas.listEdgeLocations>): Promise<MCPToolResponse> {
   return BaseTool.execute(
     'diagnostics',
     'diagnostics_edge_locations',
@@ -311,7 +311,7 @@ export async function getAsyncRequestStatus(args: z.infer<typeof DiagnosticsTool
 /**
  * Run diagnostic test URL
  */
-export async function runTestUrl(args: z.infer<typeof DiagnosticsToolSchemas.runTestUrl>): Promise<MCPToolResponse> {
+export async function runTestUrl(args: z.infer<typeof DiagnosticsToolSchemas.checkUrlHealth>): Promise<MCPToolResponse> {
   return BaseTool.execute(
     'diagnostics',
     'diagnostics_test_url',
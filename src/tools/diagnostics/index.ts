@@ -70,9 +70,9 @@ export const diagnosticsTools: Record<string, DiagnosticsTool> = {
   'diagnostics_grep': {
     name: 'diagnostics_grep',
     description: 'Search edge server logs with GREP for troubleshooting',
-    inputSchema: zodToJsonSchema(DiagnosticsToolSchemas.runGrep),
+    inputSchema: zodToJsonSchema(DiagnosticsToolSchemas.grepLogs),
     handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
-      const validatedArgs = DiagnosticsToolSchemas.runGrep.parse(args);
+      const validatedArgs = DiagnosticsToolSchemas.grepLogs.parse(args);
       return runGrep(validatedArgs);
     }
   },
@@ -81,9 +81,9 @@ export const diagnosticsTools: Record<string, DiagnosticsTool> = {
   'diagnostics_edge_locations': {
     name: 'diagnostics_edge_locations',
     description: 'List available edge server locations for testing',
-    inputSchema: zodToJsonSchema(DiagnosticsToolSchemas.getEdgeLocations),
+    inputSchema: zodToJsonSchema(DiagnosticsToolSchemas.listEdgeLocations),
     handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
-      const validatedArgs = DiagnosticsToolSchemas.getEdgeLocations.parse(args);
+      const validatedArgs = DiagnosticsToolSchemas.listEdgeLocations.parse(args);
       return getEdgeLocations(validatedArgs);
     }
   },
@@ -102,9 +102,9 @@ export const diagnosticsTools: Record<string, DiagnosticsTool> = {
   'diagnostics_test_url': {
     name: 'diagnostics_test_url',
     description: 'Run comprehensive diagnostic tests on a URL',
-    inputSchema: zodToJsonSchema(DiagnosticsToolSchemas.runTestUrl),
+    inputSchema: zodToJsonSchema(DiagnosticsToolSchemas.checkUrlHealth),
     handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
-      const validatedArgs = DiagnosticsToolSchemas.runTestUrl.parse(args);
+      const validatedArgs = DiagnosticsToolSchemas.checkUrlHealth.parse(args);
       return runTestUrl(validatedArgs);
     }
   }
@@ -468,6 +468,7 @@ export class ConsolidatedDNSTools extends BaseTool {
 
         // Invalidate zone cache
         await this.invalidateCache([`zone:${params.zone}:*`]);
+        await this.cache?.invalidateZone(params.zone, params.customer || 'default');
 
         return {
           zone: params.zone,
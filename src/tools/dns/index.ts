@@ -20,6 +20,7 @@ import {
 import { consolidatedDNSTools } from './consolidated-dns-tools';
 import { z } from 'zod';
 import { type MCPToolResponse } from '../../types';
+import { ApprovalControlSchema } from '../common/validators';
 
 /**
  * DNS tool definitions for ALECSCore registration
@@ -79,7 +80,8 @@ export const dnsTools = {
     inputSchema: z.object({
       zone: z.string(),
       comment: z.string().optional(),
-      customer: z.string().optional()
+      customer: z.string().optional(),
+      ...ApprovalControlSchema.shape
     }),
     handler: async (_client: any, args: any): Promise<MCPToolResponse> => 
       consolidatedDNSTools.activateZone(args)
@@ -0,0 +1,597 @@
+/**
+ * Cloudlets v3 Match Rules
+ *
+ * Structured match rules for the shared (v3) policy types, edits on a
+ * version's rule list, Edge Redirector CSV import and an offline simulator
+ * that reports which rule a request would fire. Rules are evaluated top to
+ * bottom and the first match wins, as on the edge.
+ */
+
+import { z } from 'zod';
+import { parseCsv } from '../../utils/csv';
+
+/**
+ * Rule `type` for each supported Cloudlet type
+ */
+export const MATCH_RULE_TYPES = {
+  ER: 'erMatchRule',
+  ALB: 'albMatchRule',
+  CD: 'cdMatchRule',
+  IG: 'igMatchRule',
+  FR: 'frMatchRule',
+  AS: 'asMatchRule'
+} as const;
+
+export type RuleCloudletType = keyof typeof MATCH_RULE_TYPES;
+
+const MatchTypeSchema = z.enum([
+  'header', 'hostname', 'path', 'extension', 'query', 'regex', 'cookie',
+  'deviceCharacteristics', 'clientip', 'continent', 'countrycode', 'regioncode',
+  'protocol', 'method', 'proxy', 'range'
+]);
+
+/**
+ * A single match condition; all conditions of a rule must match
+ */
+export const MatchConditionSchema = z.object({
+  matchType: MatchTypeSchema,
+  matchOperator: z.enum(['contains', 'exists', 'equals']).default('equals'),
+  matchValue: z.string().optional()
+    .describe('Space-separated values; * and ? wildcards are allowed for equals'),
+  objectMatchValue: z.union([
+    z.object({
+      type: z.literal('object'),
+      name: z.string().describe('Header, cookie or query parameter name'),
+      nameCaseSensitive: z.boolean().optional(),
+      nameHasWildcard: z.boolean().optional(),
+      options: z.object({
+        value: z.array(z.string()).optional(),
+        valueHasWildcard: z.boolean().optional(),
+        valueCaseSensitive: z.boolean().optional(),
+        valueEscaped: z.boolean().optional()
+      }).optional()
+    }),
+    z.object({
+      type: z.literal('simple'),
+      value: z.array(z.string())
+    })
+  ]).optional(),
+  negate: z.boolean().optional(),
+  caseSensitive: z.boolean().optional(),
+  checkIPs: z.enum(['CONNECTING_IP', 'XFF_HEADERS', 'CONNECTING_IP XFF_HEADERS']).optional()
+});
+
+const RuleBaseSchema = z.object({
+  name: z.string().optional().describe('Rule name'),
+  start: z.number().int().min(0).optional().describe('Epoch seconds the rule becomes active (0 for always)'),
+  end: z.number().int().min(0).optional().describe('Epoch seconds the rule stops applying (0 for never)'),
+  matchURL: z.string().optional().describe('URL to match; * is a wildcard'),
+  matches: z.array(MatchConditionSchema).optional(),
+  disabled: z.boolean().optional(),
+  akaRuleId: z.string().optional()
+});
+
+const ForwardSettingsSchema = z.object({
+  originId: z.string().optional().describe('Origin or Conditional Origin ID'),
+  pathAndQS: z.string().optional().describe('Path and query string to forward to'),
+  useIncomingQueryString: z.boolean().optional()
+});
+
+/**
+ * Match rule for any supported Cloudlet type, discriminated by `type`
+ */
+export const MatchRuleSchema = z.discriminatedUnion('type', [
+  RuleBaseSchema.extend({
+    type: z.literal('erMatchRule'),
+    redirectURL: z.string().describe('Redirect target; relative or absolute'),
+    statusCode: z.union([z.literal(301), z.literal(302), z.literal(303), z.literal(307), z.literal(308)]),
+    useIncomingQueryString: z.boolean().optional(),
+    useIncomingSchemeAndHost: z.boolean().optional(),
+    useRelativeUrl: z.enum(['none', 'copy_scheme_hostname', 'relative_url']).optional(),
+    matchesAlways: z.boolean().optional()
+  }),
+  RuleBaseSchema.extend({
+    type: z.literal('albMatchRule'),
+    forwardSettings: z.object({ originId: z.string() }),
+    matchesAlways: z.boolean().optional()
+  }),
+  RuleBaseSchema.extend({
+    type: z.literal('cdMatchRule'),
+    forwardSettings: z.object({
+      originId: z.string(),
+      percent: z.number().int().min(0).max(100).describe('Share of matching traffic sent to the origin')
+    }),
+    matchesAlways: z.boolean().optional()
+  }),
+  RuleBaseSchema.extend({
+    type: z.literal('igMatchRule'),
+    allowDeny: z.enum(['allow', 'deny', 'denybranded'])
+  }),
+  RuleBaseSchema.extend({
+    type: z.literal('frMatchRule'),
+    forwardSettings: ForwardSettingsSchema
+  }),
+  RuleBaseSchema.extend({
+    type: z.literal('asMatchRule'),
+    forwardSettings: ForwardSettingsSchema
+  })
+]);
+
+export type MatchCondition = z.infer<typeof MatchConditionSchema>;
+export type MatchRule = z.infer<typeof MatchRuleSchema>;
+
+/**
+ * A rule is addressed by its 1-based position or its name
+ */
+export type RuleRef = number | string;
+
+/**
+ * Find the 0-based index of a rule
+ */
+export function findRuleIndex(rules: MatchRule[], ref: RuleRef): number {
+  const index = typeof ref === 'number'
+    ? ref - 1
+    : rules.findIndex(rule => rule.name === ref);
+
+  if (index < 0 || index >= rules.length) {
+    throw new Error(typeof ref === 'number'
+      ? `Rule position ${ref} is out of range (1-${rules.length})`
+      : `No rule named '${ref}'`);
+  }
+  return index;
+}
+
+/**
+ * Insert a rule at a 1-based position (appended by default)
+ */
+export function addRule(rules: MatchRule[], rule: MatchRule, position?: number): MatchRule[] {
+  if (position !== undefined && (position < 1 || position > rules.length + 1)) {
+    throw new Error(`Position ${position} is out of range (1-${rules.length + 1})`);
+  }
+  const index = position === undefined ? rules.length : position - 1;
+  return [...rules.slice(0, index), rule, ...rules.slice(index)];
+}
+
+/**
+ * Move a rule to a new 1-based position
+ */
+export function moveRule(rules: MatchRule[], ref: RuleRef, position: number): MatchRule[] {
+  const from = findRuleIndex(rules, ref);
+  if (position < 1 || position > rules.length) {
+    throw new Error(`Position ${position} is out of range (1-${rules.length})`);
+  }
+  const remaining = rules.filter((_, index) => index !== from);
+  return [...remaining.slice(0, position - 1), rules[from]!, ...remaining.slice(position - 1)];
+}
+
+/**
+ * Remove a rule
+ */
+export function deleteRule(rules: MatchRule[], ref: RuleRef): MatchRule[] {
+  const index = findRuleIndex(rules, ref);
+  return rules.filter((_, i) => i !== index);
+}
+
+/**
+ * Check that a rule fits the policy's Cloudlet type
+ */
+export function assertRuleType(rule: MatchRule, cloudletType: string): void {
+  const expected = MATCH_RULE_TYPES[cloudletType as RuleCloudletType];
+  if (!expected) {
+    throw new Error(`Structured rule editing is not supported for ${cloudletType} policies`);
+  }
+  if (rule.type !== expected) {
+    throw new Error(`${cloudletType} policies take ${expected} rules, not ${rule.type}`);
+  }
+}
+
+export interface RedirectImportIssue {
+  row: number;
+  error: string;
+}
+
+/**
+ * Parse an Edge Redirector CSV into erMatchRules
+ *
+ * Columns (header row required): matchURL or path, redirectURL, and
+ * optionally name, statusCode (default 301) and useIncomingQueryString.
+ */
+export function parseRedirectCsv(content: string): { rules: MatchRule[]; issues: RedirectImportIssue[] } {
+  const [header, ...rows] = parseCsv(content);
+  const columns = (header || []).map(column => column.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name.toLowerCase());
+
+  const matchUrlIndex = column('matchURL');
+  const pathIndex = column('path');
+  const redirectIndex = column('redirectURL');
+  if (redirectIndex === -1 || (matchUrlIndex === -1 && pathIndex === -1)) {
+    throw new Error('Redirect CSV needs a header row with redirectURL and matchURL or path columns');
+  }
+
+  const rules: MatchRule[] = [];
+  const issues: RedirectImportIssue[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.every(field => field.trim() === '')) {
+      return;
+    }
+    const line = index + 2; // header is line 1
+    const field = (name: string) => {
+      const i = column(name);
+      return i === -1 ? '' : (row[i] ?? '').trim();
+    };
+
+    const matchURL = field('matchURL');
+    const path = field('path');
+    const statusCode = Number(field('statusCode') || 301);
+    const queryString = field('useIncomingQueryString').toLowerCase();
+
+    const parsed = MatchRuleSchema.safeParse({
+      type: 'erMatchRule',
+      ...(field('name') && { name: field('name') }),
+      ...(matchURL && { matchURL }),
+      ...(!matchURL && path && {
+        matches: [{ matchType: 'path', matchOperator: 'equals', matchValue: path }]
+      }),
+      redirectURL: field('redirectURL'),
+      statusCode,
+      useIncomingQueryString: ['true', 'yes', '1'].includes(queryString)
+    });
+
+    if (!matchURL && !path) {
+      issues.push({ row: line, error: 'Needs a matchURL or path' });
+    } else if (!field('redirectURL')) {
+      issues.push({ row: line, error: 'Needs a redirectURL' });
+    } else if (!parsed.success) {
+      issues.push({ row: line, error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    } else {
+      rules.push(parsed.data);
+    }
+  });
+
+  return { rules, issues };
+}
+
+/**
+ * Request to simulate
+ */
+export interface SimulatedRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  clientIp?: string;
+  continent?: string;
+  countryCode?: string;
+  regionCode?: string;
+  time?: Date;
+}
+
+export interface RuleEvaluation {
+  position: number;
+  name?: string;
+  matched: boolean;
+  reason: string;
+}
+
+export interface SimulationResult {
+  matched?: { position: number; rule: MatchRule; action: string };
+  evaluations: RuleEvaluation[];
+}
+
+/**
+ * Report which rule a request would fire, with the reason each earlier rule
+ * was passed over
+ */
+export function simulateMatch(rules: MatchRule[], request: SimulatedRequest): SimulationResult {
+  const url = new URL(request.url);
+  const now = (request.time || new Date()).getTime() / 1000;
+  const evaluations: RuleEvaluation[] = [];
+
+  for (const [index, rule] of rules.entries()) {
+    const position = index + 1;
+    const result = evaluateRule(rule, url, request, now);
+    evaluations.push({ position, ...(rule.name && { name: rule.name }), ...result });
+    if (result.matched) {
+      return { matched: { position, rule, action: describeRuleAction(rule, url) }, evaluations };
+    }
+  }
+
+  return { evaluations };
+}
+
+/**
+ * Describe what a rule does to a request
+ */
+export function describeRuleAction(rule: MatchRule, url?: URL): string {
+  switch (rule.type) {
+    case 'erMatchRule': {
+      let target = rule.redirectURL;
+      if (url && rule.useIncomingQueryString && url.search) {
+        target += (target.includes('?') ? '&' : '?') + url.search.slice(1);
+      }
+      return `Redirect ${rule.statusCode} to ${target}`;
+    }
+    case 'albMatchRule':
+      return `Load balance to origin ${rule.forwardSettings.originId}`;
+    case 'cdMatchRule':
+      return `Send ${rule.forwardSettings.percent}% of matching traffic to origin ${rule.forwardSettings.originId}`;
+    case 'igMatchRule':
+      return rule.allowDeny === 'allow' ? 'Allow the request' : `Deny the request (${rule.allowDeny})`;
+    case 'frMatchRule':
+    case 'asMatchRule': {
+      const parts = [];
+      if (rule.forwardSettings.originId) {
+        parts.push(`origin ${rule.forwardSettings.originId}`);
+      }
+      if (rule.forwardSettings.pathAndQS) {
+        parts.push(`path ${rule.forwardSettings.pathAndQS}`);
+      }
+      return `Forward to ${parts.join(', ') || 'the default origin'}`;
+    }
+  }
+}
+
+/**
+ * Describe what a rule matches on
+ */
+export function describeRuleCriteria(rule: MatchRule): string {
+  if ('matchesAlways' in rule && rule.matchesAlways) {
+    return 'all requests';
+  }
+  const criteria = [
+    ...(rule.matchURL ? [`URL ${rule.matchURL}`] : []),
+    ...(rule.matches || []).map(condition =>
+      `${condition.negate ? 'NOT ' : ''}${condition.matchType} ${condition.matchOperator} ${describeConditionValue(condition)}`.trim())
+  ];
+  return criteria.join(' AND ') || 'no criteria';
+}
+
+function evaluateRule(
+  rule: MatchRule,
+  url: URL,
+  request: SimulatedRequest,
+  now: number
+): { matched: boolean; reason: string } {
+  if (rule.disabled) {
+    return { matched: false, reason: 'Rule is disabled' };
+  }
+  if (rule.start && now < rule.start) {
+    return { matched: false, reason: `Not active until ${new Date(rule.start * 1000).toISOString()}` };
+  }
+  if (rule.end && now > rule.end) {
+    return { matched: false, reason: `Expired at ${new Date(rule.end * 1000).toISOString()}` };
+  }
+  if ('matchesAlways' in rule && rule.matchesAlways) {
+    return { matched: true, reason: 'Matches all requests' };
+  }
+  if (!rule.matchURL && !rule.matches?.length) {
+    return { matched: false, reason: 'Rule has no match criteria' };
+  }
+
+  if (rule.matchURL && !matchesUrlPattern(rule.matchURL, url)) {
+    return { matched: false, reason: `URL does not match ${rule.matchURL}` };
+  }
+
+  for (const condition of rule.matches || []) {
+    const outcome = evaluateCondition(condition, url, request);
+    if (outcome === undefined) {
+      return { matched: false, reason: `Cannot simulate ${condition.matchType} conditions offline` };
+    }
+    if (!outcome) {
+      return { matched: false, reason: `${condition.negate ? 'NOT ' : ''}${condition.matchType} ${condition.matchOperator} ${describeConditionValue(condition)} is false` };
+    }
+  }
+
+  return { matched: true, reason: 'All match criteria are met' };
+}
+
+/**
+ * Evaluate a condition; undefined when it depends on data the simulator
+ * does not have
+ */
+function evaluateCondition(condition: MatchCondition, url: URL, request: SimulatedRequest): boolean | undefined {
+  const result = evaluateConditionValue(condition, url, request);
+  if (result === undefined) {
+    return undefined;
+  }
+  return condition.negate ? !result : result;
+}
+
+function evaluateConditionValue(condition: MatchCondition, url: URL, request: SimulatedRequest): boolean | undefined {
+  const { matchType } = condition;
+
+  switch (matchType) {
+    case 'hostname':
+      return compareValue(condition, url.hostname);
+    case 'path':
+      return compareValue(condition, url.pathname);
+    case 'extension': {
+      const extension = url.pathname.match(/\.([^./]+)$/)?.[1];
+      return compareValue(condition, extension);
+    }
+    case 'protocol':
+      return compareValue(condition, url.protocol.replace(':', ''));
+    case 'method':
+      return compareValue(condition, (request.method || 'GET').toUpperCase());
+    case 'regex': {
+      if (!condition.matchValue) {
+        return false;
+      }
+      return new RegExp(condition.matchValue, condition.caseSensitive ? '' : 'i').test(url.href);
+    }
+    case 'query':
+      return compareNamedValue(condition, url.search.slice(1), name => url.searchParams.getAll(name));
+    case 'header': {
+      const headers = lowerCaseKeys(request.headers || {});
+      return compareNamedValue(
+        condition,
+        undefined,
+        name => headers[name.toLowerCase()] === undefined ? [] : [headers[name.toLowerCase()]!]
+      );
+    }
+    case 'cookie': {
+      const cookies = request.cookies || {};
+      return compareNamedValue(condition, undefined, name => {
+        const entry = Object.entries(cookies).find(([cookie]) =>
+          condition.objectMatchValue?.type === 'object' && condition.objectMatchValue.nameCaseSensitive
+            ? cookie === name
+            : cookie.toLowerCase() === name.toLowerCase()
+        );
+        return entry ? [entry[1]] : [];
+      });
+    }
+    case 'clientip':
+      if (!request.clientIp) {
+        return undefined;
+      }
+      return splitValues(condition).some(value => ipMatches(request.clientIp!, value));
+    case 'continent':
+      return request.continent === undefined ? undefined : compareValue(condition, request.continent);
+    case 'countrycode':
+      return request.countryCode === undefined ? undefined : compareValue(condition, request.countryCode);
+    case 'regioncode':
+      return request.regionCode === undefined ? undefined : compareValue(condition, request.regionCode);
+    default:
+      // deviceCharacteristics, proxy and range need edge data
+      return undefined;
+  }
+}
+
+/**
+ * Compare a request attribute against the condition's matchValue
+ */
+function compareValue(condition: MatchCondition, actual: string | undefined): boolean {
+  if (condition.matchOperator === 'exists') {
+    return actual !== undefined && actual !== '';
+  }
+  if (actual === undefined) {
+    return false;
+  }
+  return splitValues(condition).some(expected => compareOne(condition.matchOperator, expected, actual, condition.caseSensitive));
+}
+
+/**
+ * Compare a named attribute (header, cookie, query parameter); `simple`
+ * values are compared against the whole attribute text
+ */
+function compareNamedValue(
+  condition: MatchCondition,
+  wholeValue: string | undefined,
+  lookup: (name: string) => string[]
+): boolean {
+  const objectValue = condition.objectMatchValue;
+
+  if (!objectValue || objectValue.type === 'simple') {
+    const expected = objectValue?.value || splitValues(condition);
+    if (condition.matchOperator === 'exists') {
+      return Boolean(wholeValue);
+    }
+    return wholeValue !== undefined && expected.some(value => compareOne(condition.matchOperator, value, wholeValue, condition.caseSensitive));
+  }
+
+  const actual = lookup(objectValue.name);
+  if (condition.matchOperator === 'exists') {
+    return actual.length > 0;
+  }
+  const expected = objectValue.options?.value || [];
+  const caseSensitive = objectValue.options?.valueCaseSensitive;
+  return actual.some(value => expected.some(candidate => compareOne(condition.matchOperator, candidate, value, caseSensitive)));
+}
+
+function compareOne(operator: MatchCondition['matchOperator'], expected: string, actual: string, caseSensitive?: boolean): boolean {
+  const a = caseSensitive ? actual : actual.toLowerCase();
+  const e = caseSensitive ? expected : expected.toLowerCase();
+  if (operator === 'contains') {
+    return a.includes(e);
+  }
+  return globToRegExp(e).test(a);
+}
+
+function splitValues(condition: MatchCondition): string[] {
+  return (condition.matchValue || '').split(/\s+/).filter(Boolean);
+}
+
+function describeConditionValue(condition: MatchCondition): string {
+  if (condition.objectMatchValue?.type === 'object') {
+    const values = condition.objectMatchValue.options?.value || [];
+    return `${condition.objectMatchValue.name}${values.length ? `=${values.join('|')}` : ''}`;
+  }
+  if (condition.objectMatchValue?.type === 'simple') {
+    return condition.objectMatchValue.value.join('|');
+  }
+  return condition.matchValue || '';
+}
+
+/**
+ * Match a matchURL pattern. Patterns with a scheme are compared with the
+ * full URL, patterns starting with "/" with the path, and others with
+ * host and path. The query string is only compared when the pattern has one.
+ */
+function matchesUrlPattern(pattern: string, url: URL): boolean {
+  const withQuery = pattern.includes('?');
+  const suffix = url.pathname + (withQuery ? url.search : '');
+
+  let actual: string;
+  if (/^https?:\/\//i.test(pattern)) {
+    actual = `${url.protocol}//${url.host}${suffix}`;
+  } else if (pattern.startsWith('/')) {
+    actual = suffix;
+  } else {
+    actual = url.host + suffix;
+  }
+
+  return globToRegExp(pattern.toLowerCase(), false).test(actual.toLowerCase());
+}
+
+/**
+ * Turn a wildcard pattern into a regular expression: * matches any run of
+ * characters and, unless disabled, ? matches a single character
+ */
+function globToRegExp(pattern: string, questionMarkWildcard = true): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?' && questionMarkWildcard) {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\?]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function lowerCaseKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+/**
+ * Match an IP against an address or IPv4 CIDR block
+ */
+function ipMatches(ip: string, value: string): boolean {
+  if (!value.includes('/')) {
+    return ip === value;
+  }
+
+  const [network, bits] = value.split('/');
+  const toNumber = (address: string) => {
+    const parts = address.split('.').map(Number);
+    if (parts.length !== 4 || parts.some(part => Number.isNaN(part))) {
+      return undefined;
+    }
+    return parts.reduce((total, part) => total * 256 + part, 0);
+  };
+
+  const ipValue = toNumber(ip);
+  const networkValue = toNumber(network || '');
+  const prefix = Number(bits);
+  if (ipValue === undefined || networkValue === undefined || Number.isNaN(prefix)) {
+    return false;
+  }
+
+  const size = 2 ** (32 - prefix);
+  return Math.floor(ipValue / size) === Math.floor(networkValue / size);
+}
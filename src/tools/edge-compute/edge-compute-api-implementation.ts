@@ -10,12 +10,14 @@
  */
 
 import { z } from 'zod';
+import { MatchRuleSchema, type MatchRule } from './cloudlet-rules';
 
 /**
  * Base URLs for Edge Compute APIs
  */
 export const EDGEWORKERS_API_BASE = '/edgeworkers/v1';
 export const CLOUDLETS_API_BASE = '/cloudlets/v3';
+export const EDGEKV_API_BASE = '/edgekv/v1';
 
 /**
  * EdgeWorkers API Schemas
@@ -109,6 +111,18 @@ export const CloudletsSchemas = {
   })
 };
 
+/**
+ * Shared parameter schemas
+ */
+export type EdgeKVNetwork = 'staging' | 'production';
+
+const EdgeKVNetworkSchema = z.enum(['staging', 'production']).default('staging').describe('EdgeKV network');
+
+const CloudletRuleRefSchema = z.union([z.number().int().min(1), z.string()])
+  .describe('Rule to act on: 1-based position or rule name');
+
+const EdgeKVNameSchema = z.string().regex(/^[A-Za-z0-9_-]{1,32}$/, 'Use up to 32 letters, digits, underscores or hyphens');
+
 /**
  * EdgeWorkers API endpoints
  */
@@ -212,6 +226,40 @@ export const CloudletsEndpoints = {
     `${CLOUDLETS_API_BASE}/origins/${originId}`
 };
 
+/**
+ * EdgeKV API endpoints
+ */
+export const EdgeKVEndpoints = {
+  // Account initialization
+  initialize: () => 
+    `${EDGEKV_API_BASE}/initialize`,
+  
+  // Namespace endpoints
+  listNamespaces: (network: EdgeKVNetwork) => 
+    `${EDGEKV_API_BASE}/networks/${network}/namespaces`,
+  
+  getNamespace: (network: EdgeKVNetwork, namespaceId: string) => 
+    `${EDGEKV_API_BASE}/networks/${network}/namespaces/${namespaceId}`,
+  
+  // Group endpoints (listing a group returns its item keys)
+  listGroups: (network: EdgeKVNetwork, namespaceId: string) => 
+    `${EDGEKV_API_BASE}/networks/${network}/namespaces/${namespaceId}/groups`,
+  
+  getGroup: (network: EdgeKVNetwork, namespaceId: string, groupId: string) => 
+    `${EDGEKV_API_BASE}/networks/${network}/namespaces/${namespaceId}/groups/${groupId}`,
+  
+  // Item endpoints
+  item: (network: EdgeKVNetwork, namespaceId: string, groupId: string, itemId: string) => 
+    `${EDGEKV_API_BASE}/networks/${network}/namespaces/${namespaceId}/groups/${groupId}/items/${encodeURIComponent(itemId)}`,
+  
+  // Access token endpoints
+  listTokens: () => 
+    `${EDGEKV_API_BASE}/tokens`,
+  
+  getToken: (tokenName: string) => 
+    `${EDGEKV_API_BASE}/tokens/${tokenName}`
+};
+
 /**
  * Edge Compute tool parameter schemas
  */
@@ -255,6 +303,13 @@ export const EdgeComputeToolSchemas = {
     customer: z.string().optional()
   }),
   
+  uploadEdgeWorkerVersion: z.object({
+    edgeWorkerId: z.number().describe('EdgeWorker identifier'),
+    bundle: z.string().describe('Code bundle (gzipped tarball)'),
+    description: z.string().optional().describe('Version description'),
+    customer: z.string().optional()
+  }),
+  
   activateEdgeWorker: z.object({
     edgeWorkerId: z.number().describe('EdgeWorker identifier'),
     version: z.string().describe('Version to activate'),
@@ -308,9 +363,234 @@ export const EdgeComputeToolSchemas = {
     network: z.enum(['staging', 'production']).describe('Target network'),
     additionalPropertyIds: z.array(z.string()).optional().describe('Additional properties'),
     customer: z.string().optional()
+  }),
+  
+  // Cloudlets v3 policy version tools
+  listCloudletVersions: z.object({
+    policyId: z.number().describe('Policy identifier'),
+    customer: z.string().optional()
+  }),
+  
+  getCloudletVersion: z.object({
+    policyId: z.number().describe('Policy identifier'),
+    version: z.number().describe('Policy version'),
+    customer: z.string().optional()
+  }),
+  
+  createCloudletVersion: z.object({
+    policyId: z.number().describe('Policy identifier'),
+    description: z.string().optional().describe('Version description'),
+    cloneVersion: z.number().optional().describe('Copy the match rules of this version'),
+    matchRules: z.array(MatchRuleSchema).optional().describe('Match rules for the new version'),
+    customer: z.string().optional()
+  }).refine(args => args.cloneVersion === undefined || args.matchRules === undefined, {
+    message: 'Provide cloneVersion or matchRules, not both'
+  }),
+  
+  addCloudletRule: z.object({
+    policyId: z.number().describe('Policy identifier'),
+    version: z.number().describe('Policy version to edit; activated versions are copied to a new version'),
+    rule: MatchRuleSchema.describe('Match rule; its type must fit the policy\'s Cloudlet type'),
+    position: z.number().int().min(1).optional().describe('1-based position (appended by default)'),
+    customer: z.string().optional()
+  }),
+  
+  moveCloudletRule: z.object({
+    policyId: z.number().describe('Policy identifier'),
+    version: z.number().describe('Policy version to edit; activated versions are copied to a new version'),
+    rule: CloudletRuleRefSchema,
+    position: z.number().int().min(1).describe('New 1-based position'),
+    customer: z.string().optional()
+  }),
+  
+  deleteCloudletRule: z.object({
+    policyId: z.number().describe('Policy identifier'),
+    version: z.number().describe('Policy version to edit; activated versions are copied to a new version'),
+    rule: CloudletRuleRefSchema,
+    customer: z.string().optional()
+  }),
+  
+  importCloudletRedirects: z.object({
+    policyId: z.number().describe('Edge Redirector policy identifier'),
+    version: z.number().describe('Policy version to edit; activated versions are copied to a new version'),
+    filePath: z.string().optional().describe('CSV file with redirectURL and matchURL or path columns'),
+    content: z.string().optional().describe('CSV content to import instead of a file'),
+    mode: z.enum(['append', 'replace']).default('append').describe('Append to or replace the existing rules'),
+    customer: z.string().optional()
+  }).refine(args => Boolean(args.filePath) !== Boolean(args.content), {
+    message: 'Provide exactly one of filePath or content'
+  }),
+  
+  simulateCloudletMatch: z.object({
+    policyId: z.number().optional().describe('Policy whose rules to simulate'),
+    version: z.number().optional().describe('Policy version whose rules to simulate'),
+    matchRules: z.array(MatchRuleSchema).optional().describe('Rules to simulate instead of a stored version'),
+    url: z.string().url().describe('Request URL'),
+    method: z.string().optional().describe('Request method (default GET)'),
+    headers: z.record(z.string(), z.string()).optional().describe('Request headers'),
+    cookies: z.record(z.string(), z.string()).optional().describe('Request cookies'),
+    clientIp: z.string().optional().describe('Client IP for clientip conditions'),
+    continent: z.string().optional().describe('Client continent code for continent conditions'),
+    countryCode: z.string().optional().describe('Client country code for countrycode conditions'),
+    regionCode: z.string().optional().describe('Client region code for regioncode conditions'),
+    time: z.string().datetime().optional().describe('Request time for rules with start/end (default now)'),
+    customer: z.string().optional()
+  }).refine(args => Boolean(args.matchRules) !== (args.policyId !== undefined && args.version !== undefined), {
+    message: 'Provide policyId and version, or matchRules'
+  }),
+  
+  // EdgeKV tools
+  getEdgeKVStatus: z.object({
+    customer: z.string().optional()
+  }),
+  
+  listEdgeKVNamespaces: z.object({
+    network: EdgeKVNetworkSchema,
+    customer: z.string().optional()
+  }),
+  
+  getEdgeKVNamespace: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    customer: z.string().optional()
+  }),
+  
+  createEdgeKVNamespace: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    retentionInSeconds: z.number().int().min(0).default(0).describe('Item retention; 0 keeps items indefinitely, otherwise 86400 (1 day) or more'),
+    geoLocation: z.enum(['US', 'EU', 'JP']).default('US').describe('Persistent storage location'),
+    groupId: z.number().int().optional().describe('Access group that may manage the namespace'),
+    customer: z.string().optional()
+  }),
+  
+  listEdgeKVGroups: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    customer: z.string().optional()
+  }),
+  
+  listEdgeKVItems: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    groupId: EdgeKVNameSchema.describe('Group within the namespace'),
+    maxItems: z.number().int().min(1).optional().describe('Maximum number of item keys to return'),
+    customer: z.string().optional()
+  }),
+  
+  getEdgeKVItem: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    groupId: EdgeKVNameSchema.describe('Group within the namespace'),
+    itemId: z.string().min(1).describe('Item key'),
+    customer: z.string().optional()
+  }),
+  
+  putEdgeKVItem: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    groupId: EdgeKVNameSchema.describe('Group within the namespace'),
+    itemId: z.string().min(1).describe('Item key'),
+    value: z.union([z.string(), z.record(z.string(), z.unknown()), z.array(z.unknown())])
+      .describe('Item value; strings are stored as text, objects and arrays as JSON'),
+    customer: z.string().optional()
+  }),
+  
+  deleteEdgeKVItem: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    groupId: EdgeKVNameSchema.describe('Group within the namespace'),
+    itemId: z.string().min(1).describe('Item key'),
+    customer: z.string().optional()
+  }),
+  
+  bulkLoadEdgeKVItems: z.object({
+    network: EdgeKVNetworkSchema,
+    namespaceId: EdgeKVNameSchema.describe('Namespace name'),
+    groupId: EdgeKVNameSchema.describe('Group to load the items into'),
+    filePath: z.string().optional().describe('JSON or CSV file to import'),
+    content: z.string().optional().describe('JSON or CSV content to import instead of a file'),
+    format: z.enum(['json', 'csv']).optional().describe('Input format (inferred from the file extension by default)'),
+    concurrency: z.number().int().min(1).max(10).default(4).describe('Items written in parallel'),
+    customer: z.string().optional()
+  }).refine(args => Boolean(args.filePath) !== Boolean(args.content), {
+    message: 'Provide exactly one of filePath or content'
+  }),
+  
+  listEdgeKVTokens: z.object({
+    includeExpired: z.boolean().default(false).describe('Include expired tokens'),
+    customer: z.string().optional()
+  }),
+  
+  getEdgeKVToken: z.object({
+    tokenName: z.string().describe('Access token name'),
+    customer: z.string().optional()
+  }),
+  
+  createEdgeKVToken: z.object({
+    tokenName: EdgeKVNameSchema.describe('Access token name'),
+    allowOnStaging: z.boolean().default(true).describe('Allow the token on the staging network'),
+    allowOnProduction: z.boolean().default(false).describe('Allow the token on the production network'),
+    expiry: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Expiry date (YYYY-MM-DD), at most 6 months out'),
+    namespacePermissions: z.record(z.string(), z.array(z.enum(['r', 'w', 'd'])).min(1))
+      .describe('Permissions per namespace, e.g. { "default": ["r"] }'),
+    customer: z.string().optional()
+  }),
+  
+  checkEdgeKVTokens: z.object({
+    warnDays: z.number().int().min(1).max(180).default(30).describe('Warn about tokens expiring within this many days'),
+    customer: z.string().optional()
   })
 };
 
+/**
+ * Cloudlets v3 policy version
+ */
+export interface CloudletPolicyVersion {
+  policyId: number;
+  version: number;
+  description?: string;
+  immutable?: boolean;
+  matchRules?: MatchRule[] | null;
+  matchRulesWarnings?: Array<{ title?: string; detail?: string; jsonPointer?: string }>;
+  createdBy?: string;
+  createdDate?: string;
+  modifiedBy?: string;
+  modifiedDate?: string;
+}
+
+/**
+ * EdgeKV response types
+ */
+export interface EdgeKVInitialization {
+  accountStatus: 'INITIALIZED' | 'PENDING' | 'UNINITIALIZED';
+  cpcode?: string;
+  productionStatus?: string;
+  stagingStatus?: string;
+  dataAccessPolicy?: {
+    restrictDataAccess: boolean;
+    allowNamespacePolicyOverride: boolean;
+  };
+}
+
+export interface EdgeKVNamespace {
+  namespace: string;
+  retentionInSeconds?: number;
+  geoLocation?: string;
+  groupId?: number;
+}
+
+export interface EdgeKVToken {
+  name: string;
+  uuid?: string;
+  expiry: string;
+  issueDate?: string;
+  value?: string;
+  namespacePermissions?: Record<string, string[]>;
+  allowOnProduction?: boolean;
+  allowOnStaging?: boolean;
+}
+
 /**
  * Cloudlet type descriptions
  */
@@ -11,14 +11,41 @@
  * Updated on 2025-01-11 to use BaseTool.execute pattern
  */
 
+import { promises as fs } from 'fs';
 import { type MCPToolResponse, BaseTool } from '../common';
+import type { AkamaiClient } from '../../akamai-client';
 import { 
   EdgeWorkersEndpoints, 
   CloudletsEndpoints, 
+  EdgeKVEndpoints,
   EdgeComputeToolSchemas, 
   formatFileSize,
-  CloudletTypes 
+  CloudletTypes,
+  type CloudletPolicyVersion,
+  type EdgeKVInitialization,
+  type EdgeKVNamespace,
+  type EdgeKVToken
 } from './edge-compute-api-implementation';
+import {
+  type EdgeKVImportIssue,
+  type EdgeKVValue,
+  checkTokenExpiry,
+  parseEdgeKVImport,
+  validateEdgeKVItem
+} from './edgekv-import';
+import {
+  type MatchRule,
+  addRule,
+  assertRuleType,
+  deleteRule,
+  describeRuleAction,
+  describeRuleCriteria,
+  moveRule,
+  parseRedirectCsv,
+  simulateMatch
+} from './cloudlet-rules';
+import { getCaller } from '../../auth/caller-context';
+import { ProgressManager, forwardProgress } from '../../utils/mcp-progress';
 import type { z } from 'zod';
 
 interface EdgeComputeResponse {
@@ -326,7 +353,7 @@ export async function activateEdgeWorker(args: z.infer<typeof EdgeComputeToolSch
 /**
  * List Cloudlets policies
  */
-export async function listCloudletsPolicies(args: z.infer<typeof EdgeComputeToolSchemas.listCloudletsPolicies>): Promise<MCPToolResponse> {
+export async function listCloudletsPolicies(args: z.infer<typeof EdgeComputeToolSchemas.listCloudletPolicies>): Promise<MCPToolResponse> {
   return BaseTool.execute(
     'edge-compute',
     'edge_compute_list_cloudlets_policies',
@@ -452,6 +479,863 @@ export async function activateCloudletPolicy(args: z.infer<typeof EdgeComputeToo
   );
 }
 
+/**
+ * Format a version's match rules as a numbered list
+ */
+function formatMatchRules(rules: MatchRule[]): string {
+  if (rules.length === 0) {
+    return '⚠️ No match rules; requests pass through unchanged.\n';
+  }
+  return rules.map((rule, index) => {
+    let text = `${index + 1}. **${rule.name || '(unnamed)'}**${rule.disabled ? ' _(disabled)_' : ''}\n`;
+    text += `   • Matches: ${describeRuleCriteria(rule)}\n`;
+    text += `   • Action: ${describeRuleAction(rule)}\n`;
+    return text;
+  }).join('');
+}
+
+interface CloudletRuleEdit {
+  policyId: number;
+  fromVersion: number;
+  version?: number;
+  created: boolean;
+  matchRules: MatchRule[];
+  warnings: NonNullable<CloudletPolicyVersion['matchRulesWarnings']>;
+}
+
+/**
+ * Apply an edit to a version's match rules and save it. Activated versions
+ * are immutable, so edits to them are saved as a new version.
+ */
+async function editCloudletRules(
+  client: AkamaiClient,
+  policyId: number,
+  version: number,
+  edit: (rules: MatchRule[], cloudletType: string) => MatchRule[]
+): Promise<CloudletRuleEdit> {
+  const policy = await client.request<{ cloudletType: string }>({
+    method: 'GET',
+    path: CloudletsEndpoints.getPolicy(policyId)
+  });
+  const current = await client.request<CloudletPolicyVersion>({
+    method: 'GET',
+    path: CloudletsEndpoints.getPolicyVersion(policyId, version)
+  });
+
+  const matchRules = edit(current.matchRules || [], policy.cloudletType);
+
+  const saved = current.immutable
+    ? await client.request<CloudletPolicyVersion>({
+        method: 'POST',
+        path: CloudletsEndpoints.createPolicyVersion(policyId),
+        body: { description: `Edited copy of version ${version}`, matchRules }
+      })
+    : await client.request<CloudletPolicyVersion>({
+        method: 'PUT',
+        path: CloudletsEndpoints.updatePolicyVersion(policyId, version),
+        body: { description: current.description, matchRules }
+      });
+
+  return {
+    policyId,
+    fromVersion: version,
+    version: current.immutable ? saved.version : version,
+    created: Boolean(current.immutable),
+    matchRules,
+    warnings: saved.matchRulesWarnings || []
+  };
+}
+
+/**
+ * Format the result of a rule edit
+ */
+function formatRuleEdit(result: CloudletRuleEdit, summary: string): string {
+  let text = `✅ **${summary}**\n\n`;
+  text += `**Policy**: ${result.policyId}\n`;
+  if (result.created) {
+    text += `**Version**: ${result.version} (new; version ${result.fromVersion} is activated and cannot be edited)\n`;
+  } else {
+    text += `**Version**: ${result.version}\n`;
+  }
+  text += `\n**Match Rules**:\n${formatMatchRules(result.matchRules)}`;
+  if (result.warnings.length > 0) {
+    text += `\n**Warnings**:\n`;
+    result.warnings.forEach(warning => {
+      text += `• ${warning.title || 'Warning'}${warning.detail ? `: ${warning.detail}` : ''}\n`;
+    });
+  }
+  text += `\n📝 **Next Step**: Check the rules with edge_compute_simulate_cloudlet_match, then activate with edge_compute_activate_cloudlet\n`;
+  return text;
+}
+
+/**
+ * List Cloudlet policy versions
+ */
+export async function listCloudletVersions(args: z.infer<typeof EdgeComputeToolSchemas.listCloudletVersions>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_list_cloudlet_versions',
+    args,
+    async (client) => {
+      return client.request<{ content?: CloudletPolicyVersion[] }>({
+        method: 'GET',
+        path: CloudletsEndpoints.listPolicyVersions(args.policyId)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        const versions = result.content || [];
+        let text = `☁️ **Cloudlet Policy Versions** (policy ${args.policyId})\n`;
+        text += `Total Versions: ${versions.length}\n\n`;
+        versions.forEach(version => {
+          text += `• **Version ${version.version}**${version.immutable ? ' 🔒' : ''}`;
+          if (version.description) {
+            text += ` - ${version.description}`;
+          }
+          text += `\n   Modified ${version.modifiedDate || version.createdDate} by ${version.modifiedBy || version.createdBy}\n`;
+        });
+        text += `\n🔒 = activated at least once; edits create a new version\n`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Get a Cloudlet policy version with its match rules
+ */
+export async function getCloudletVersion(args: z.infer<typeof EdgeComputeToolSchemas.getCloudletVersion>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_get_cloudlet_version',
+    args,
+    async (client) => {
+      return client.request<CloudletPolicyVersion>({
+        method: 'GET',
+        path: CloudletsEndpoints.getPolicyVersion(args.policyId, args.version)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (version) => {
+        let text = `☁️ **Cloudlet Policy Version ${version.version}** (policy ${version.policyId})\n\n`;
+        if (version.description) {
+          text += `**Description**: ${version.description}\n`;
+        }
+        text += `**Editable**: ${version.immutable ? 'No (activated; edits create a new version)' : 'Yes'}\n`;
+        text += `\n**Match Rules**:\n${formatMatchRules(version.matchRules || [])}`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Create a Cloudlet policy version, optionally copying another version's rules
+ */
+export async function createCloudletVersion(args: z.infer<typeof EdgeComputeToolSchemas.createCloudletVersion>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_create_cloudlet_version',
+    args,
+    async (client) => {
+      let matchRules = args.matchRules || [];
+      if (args.cloneVersion !== undefined) {
+        const source = await client.request<CloudletPolicyVersion>({
+          method: 'GET',
+          path: CloudletsEndpoints.getPolicyVersion(args.policyId, args.cloneVersion)
+        });
+        matchRules = source.matchRules || [];
+      } else if (matchRules.length > 0) {
+        const policy = await client.request<{ cloudletType: string }>({
+          method: 'GET',
+          path: CloudletsEndpoints.getPolicy(args.policyId)
+        });
+        matchRules.forEach(rule => assertRuleType(rule, policy.cloudletType));
+      }
+
+      return client.request<CloudletPolicyVersion>({
+        method: 'POST',
+        path: CloudletsEndpoints.createPolicyVersion(args.policyId),
+        body: {
+          description: args.description || (args.cloneVersion !== undefined ? `Copy of version ${args.cloneVersion}` : undefined),
+          matchRules
+        }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (version) => {
+        let text = `✅ **Cloudlet Policy Version Created**\n\n`;
+        text += `**Policy**: ${args.policyId}\n`;
+        text += `**Version**: ${version.version}\n`;
+        text += `\n**Match Rules**:\n${formatMatchRules(version.matchRules || [])}`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Add a match rule to a Cloudlet policy version
+ */
+export async function addCloudletRule(args: z.infer<typeof EdgeComputeToolSchemas.addCloudletRule>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_add_cloudlet_rule',
+    args,
+    async (client) => editCloudletRules(client, args.policyId, args.version, (rules, cloudletType) => {
+      assertRuleType(args.rule, cloudletType);
+      return addRule(rules, args.rule, args.position);
+    }),
+    {
+      format: 'text',
+      formatter: (result) => formatRuleEdit(result, 'Match Rule Added')
+    }
+  );
+}
+
+/**
+ * Move a match rule within a Cloudlet policy version
+ */
+export async function moveCloudletRule(args: z.infer<typeof EdgeComputeToolSchemas.moveCloudletRule>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_move_cloudlet_rule',
+    args,
+    async (client) => editCloudletRules(client, args.policyId, args.version, (rules) =>
+      moveRule(rules, args.rule, args.position)),
+    {
+      format: 'text',
+      formatter: (result) => formatRuleEdit(result, 'Match Rule Moved')
+    }
+  );
+}
+
+/**
+ * Delete a match rule from a Cloudlet policy version
+ */
+export async function deleteCloudletRule(args: z.infer<typeof EdgeComputeToolSchemas.deleteCloudletRule>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_delete_cloudlet_rule',
+    args,
+    async (client) => editCloudletRules(client, args.policyId, args.version, (rules) =>
+      deleteRule(rules, args.rule)),
+    {
+      format: 'text',
+      formatter: (result) => formatRuleEdit(result, 'Match Rule Deleted')
+    }
+  );
+}
+
+/**
+ * Import Edge Redirector rules from a CSV file
+ */
+export async function importCloudletRedirects(args: z.infer<typeof EdgeComputeToolSchemas.importCloudletRedirects>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_import_cloudlet_redirects',
+    args,
+    async (client) => {
+      const content = args.filePath ? await fs.readFile(args.filePath, 'utf8') : args.content || '';
+      const { rules: imported, issues } = parseRedirectCsv(content);
+      if (imported.length === 0) {
+        throw new Error(`No valid redirects to import${issues.length ? `; first problem on row ${issues[0]!.row}: ${issues[0]!.error}` : ''}`);
+      }
+
+      const edit = await editCloudletRules(client, args.policyId, args.version, (rules, cloudletType) => {
+        if (cloudletType !== 'ER') {
+          throw new Error(`Redirect import needs an Edge Redirector (ER) policy; policy ${args.policyId} is ${cloudletType}`);
+        }
+        return args.mode === 'replace' ? imported : [...rules, ...imported];
+      });
+      return { ...edit, imported: imported.length, issues };
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        let text = formatRuleEdit(result, `Imported ${result.imported} Redirects`);
+        if (result.issues.length > 0) {
+          text += `\n⚠️ **Skipped Rows** (${result.issues.length}):\n`;
+          result.issues.slice(0, 50).forEach(issue => {
+            text += `• Row ${issue.row}: ${issue.error}\n`;
+          });
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Simulate which match rule a request would fire, without calling the edge
+ */
+export async function simulateCloudletMatch(args: z.infer<typeof EdgeComputeToolSchemas.simulateCloudletMatch>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_simulate_cloudlet_match',
+    args,
+    async (client) => {
+      const rules = args.matchRules || (await client.request<CloudletPolicyVersion>({
+        method: 'GET',
+        path: CloudletsEndpoints.getPolicyVersion(args.policyId!, args.version!)
+      })).matchRules || [];
+
+      return simulateMatch(rules, {
+        url: args.url,
+        ...(args.method && { method: args.method }),
+        ...(args.headers && { headers: args.headers }),
+        ...(args.cookies && { cookies: args.cookies }),
+        ...(args.clientIp && { clientIp: args.clientIp }),
+        ...(args.continent && { continent: args.continent }),
+        ...(args.countryCode && { countryCode: args.countryCode }),
+        ...(args.regionCode && { regionCode: args.regionCode }),
+        ...(args.time && { time: new Date(args.time) })
+      });
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        let text = `🧪 **Cloudlet Match Simulation**\n\n`;
+        text += `**Request**: ${(args.method || 'GET').toUpperCase()} ${args.url}\n`;
+        if (args.policyId !== undefined) {
+          text += `**Policy**: ${args.policyId} v${args.version}\n`;
+        }
+        text += `\n`;
+        if (result.matched) {
+          text += `✅ **Rule ${result.matched.position} fires**: ${result.matched.rule.name || '(unnamed)'}\n`;
+          text += `**Action**: ${result.matched.action}\n`;
+        } else {
+          text += `⚪ **No rule fires**; the request passes through unchanged\n`;
+        }
+        if (result.evaluations.length > 0) {
+          text += `\n**Evaluation**:\n`;
+          result.evaluations.forEach(evaluation => {
+            text += `${evaluation.matched ? '✅' : '❌'} ${evaluation.position}. ${evaluation.name || '(unnamed)'}: ${evaluation.reason}\n`;
+          });
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Request options for an EdgeKV item value: strings are stored as text,
+ * objects and arrays as JSON
+ */
+function edgeKVValueRequest(value: EdgeKVValue): { body: EdgeKVValue; headers?: Record<string, string> } {
+  return typeof value === 'string'
+    ? { body: value, headers: { 'Content-Type': 'text/plain' } }
+    : { body: value };
+}
+
+/**
+ * Get EdgeKV initialization status
+ */
+export async function getEdgeKVStatus(args: z.infer<typeof EdgeComputeToolSchemas.getEdgeKVStatus>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_status',
+    args,
+    async (client) => {
+      return client.request<EdgeKVInitialization>({
+        method: 'GET',
+        path: EdgeKVEndpoints.initialize()
+      });
+    },
+    {
+      format: 'text',
+      formatter: (status) => {
+        let text = `🗄️ **EdgeKV Status**\n\n`;
+        text += `**Account**: ${status.accountStatus}\n`;
+        if (status.cpcode) {
+          text += `**CP Code**: ${status.cpcode}\n`;
+        }
+        text += `**Staging**: ${status.stagingStatus || 'unknown'}\n`;
+        text += `**Production**: ${status.productionStatus || 'unknown'}\n`;
+        if (status.dataAccessPolicy) {
+          text += `**Restricted Data Access**: ${status.dataAccessPolicy.restrictDataAccess ? 'Yes' : 'No'}\n`;
+        }
+        if (status.accountStatus !== 'INITIALIZED') {
+          text += `\n⚠️ EdgeKV is not initialized for this account yet; namespaces and items are unavailable until it is.\n`;
+        }
+        return text;
+      },
+      cacheKey: () => 'edge-compute:edgekv:status',
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * List EdgeKV namespaces
+ */
+export async function listEdgeKVNamespaces(args: z.infer<typeof EdgeComputeToolSchemas.listEdgeKVNamespaces>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_namespace_list',
+    args,
+    async (client) => {
+      return client.request<{ namespaces?: EdgeKVNamespace[] }>({
+        method: 'GET',
+        path: EdgeKVEndpoints.listNamespaces(args.network),
+        queryParams: { details: 'on' }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        const namespaces = result.namespaces || [];
+        let text = `🗄️ **EdgeKV Namespaces** (${args.network})\n`;
+        text += `Total Namespaces: ${namespaces.length}\n\n`;
+        namespaces.forEach((ns, index) => {
+          text += `${index + 1}. **${ns.namespace}**`;
+          if (ns.geoLocation) {
+            text += ` • ${ns.geoLocation}`;
+          }
+          text += ` • retention ${ns.retentionInSeconds ? `${ns.retentionInSeconds}s` : 'indefinite'}`;
+          if (ns.groupId !== undefined) {
+            text += ` • group ${ns.groupId}`;
+          }
+          text += `\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `edge-compute:edgekv:${p.network}:namespaces`,
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get EdgeKV namespace details
+ */
+export async function getEdgeKVNamespace(args: z.infer<typeof EdgeComputeToolSchemas.getEdgeKVNamespace>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_namespace_get',
+    args,
+    async (client) => {
+      return client.request<EdgeKVNamespace>({
+        method: 'GET',
+        path: EdgeKVEndpoints.getNamespace(args.network, args.namespaceId)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (ns) => {
+        let text = `🗄️ **EdgeKV Namespace**\n\n`;
+        text += `**Name**: ${ns.namespace}\n`;
+        text += `**Network**: ${args.network}\n`;
+        text += `**Location**: ${ns.geoLocation || 'unknown'}\n`;
+        text += `**Retention**: ${ns.retentionInSeconds ? `${ns.retentionInSeconds} seconds` : 'indefinite'}\n`;
+        if (ns.groupId !== undefined) {
+          text += `**Access Group**: ${ns.groupId}\n`;
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Create EdgeKV namespace
+ */
+export async function createEdgeKVNamespace(args: z.infer<typeof EdgeComputeToolSchemas.createEdgeKVNamespace>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_namespace_create',
+    args,
+    async (client) => {
+      return client.request<EdgeKVNamespace>({
+        method: 'POST',
+        path: EdgeKVEndpoints.listNamespaces(args.network),
+        body: {
+          namespace: args.namespaceId,
+          retentionInSeconds: args.retentionInSeconds,
+          geoLocation: args.geoLocation,
+          ...(args.groupId !== undefined && { groupId: args.groupId })
+        }
+      });
+    },
+    {
+      format: 'text',
+      formatter: () => {
+        let text = `✅ **EdgeKV Namespace Created**\n\n`;
+        text += `**Name**: ${args.namespaceId}\n`;
+        text += `**Network**: ${args.network}\n`;
+        text += `**Location**: ${args.geoLocation}\n`;
+        text += `\n📝 **Next Steps**:\n`;
+        text += `1. Load items with edge_compute_edgekv_item_put or edge_compute_edgekv_bulk_load\n`;
+        text += `2. Create an access token with edge_compute_edgekv_token_create\n`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * List groups in an EdgeKV namespace
+ */
+export async function listEdgeKVGroups(args: z.infer<typeof EdgeComputeToolSchemas.listEdgeKVGroups>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_group_list',
+    args,
+    async (client) => {
+      return client.request<string[]>({
+        method: 'GET',
+        path: EdgeKVEndpoints.listGroups(args.network, args.namespaceId)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (groups) => {
+        const list = Array.isArray(groups) ? groups : [];
+        let text = `🗄️ **EdgeKV Groups** (${args.namespaceId}, ${args.network})\n`;
+        text += `Total Groups: ${list.length}\n\n`;
+        list.forEach(group => {
+          text += `• ${group}\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * List item keys in an EdgeKV group
+ */
+export async function listEdgeKVItems(args: z.infer<typeof EdgeComputeToolSchemas.listEdgeKVItems>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_item_list',
+    args,
+    async (client) => {
+      return client.request<string[]>({
+        method: 'GET',
+        path: EdgeKVEndpoints.getGroup(args.network, args.namespaceId, args.groupId),
+        ...(args.maxItems && { queryParams: { maxItems: args.maxItems.toString() } })
+      });
+    },
+    {
+      format: 'text',
+      formatter: (keys) => {
+        const list = Array.isArray(keys) ? keys : [];
+        let text = `🗄️ **EdgeKV Items** (${args.namespaceId}/${args.groupId}, ${args.network})\n`;
+        text += `Total Items: ${list.length}\n\n`;
+        list.forEach(key => {
+          text += `• ${key}\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Get an EdgeKV item
+ */
+export async function getEdgeKVItem(args: z.infer<typeof EdgeComputeToolSchemas.getEdgeKVItem>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_item_get',
+    args,
+    async (client) => {
+      return client.request<unknown>({
+        method: 'GET',
+        path: EdgeKVEndpoints.item(args.network, args.namespaceId, args.groupId, args.itemId)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (value) => {
+        let text = `🗄️ **EdgeKV Item** ${args.namespaceId}/${args.groupId}/${args.itemId} (${args.network})\n\n`;
+        text += typeof value === 'string'
+          ? `${value}\n`
+          : `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\`\n`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Create or update an EdgeKV item
+ */
+export async function putEdgeKVItem(args: z.infer<typeof EdgeComputeToolSchemas.putEdgeKVItem>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_item_put',
+    args,
+    async (client) => {
+      const error = validateEdgeKVItem({ key: args.itemId, value: args.value });
+      if (error) {
+        throw new Error(`Item ${args.itemId}: ${error}`);
+      }
+      return client.request({
+        method: 'PUT',
+        path: EdgeKVEndpoints.item(args.network, args.namespaceId, args.groupId, args.itemId),
+        ...edgeKVValueRequest(args.value)
+      });
+    },
+    {
+      format: 'text',
+      formatter: () => {
+        let text = `✅ **EdgeKV Item Written**\n\n`;
+        text += `**Item**: ${args.namespaceId}/${args.groupId}/${args.itemId}\n`;
+        text += `**Network**: ${args.network}\n`;
+        text += `\n📝 **Note**: Writes can take up to 10 seconds to reach all edge servers.\n`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Delete an EdgeKV item
+ */
+export async function deleteEdgeKVItem(args: z.infer<typeof EdgeComputeToolSchemas.deleteEdgeKVItem>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_item_delete',
+    args,
+    async (client) => {
+      return client.request({
+        method: 'DELETE',
+        path: EdgeKVEndpoints.item(args.network, args.namespaceId, args.groupId, args.itemId)
+      });
+    },
+    {
+      format: 'text',
+      formatter: () => `✅ **EdgeKV Item Deleted**\n\n**Item**: ${args.namespaceId}/${args.groupId}/${args.itemId} (${args.network})\n`
+    }
+  );
+}
+
+/**
+ * Import a JSON or CSV file into an EdgeKV group
+ *
+ * Items are written a few at a time; a failed item is reported and the
+ * import carries on. Progress is reported to MCP clients that sent a
+ * progressToken.
+ */
+export async function bulkLoadEdgeKVItems(args: z.infer<typeof EdgeComputeToolSchemas.bulkLoadEdgeKVItems>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_bulk_load',
+    args,
+    async (client) => {
+      const content = args.filePath ? await fs.readFile(args.filePath, 'utf8') : args.content || '';
+      const { items, issues } = parseEdgeKVImport(content, args.format, args.filePath);
+      const failures: EdgeKVImportIssue[] = [...issues];
+      let written = 0;
+
+      const progress = ProgressManager.getInstance().createToken(
+        `EdgeKV import into ${args.namespaceId}/${args.groupId}`,
+        { totalSteps: items.length }
+      );
+      const stopForwarding = forwardProgress(progress, getCaller().notifyProgress);
+      progress.start(`Importing ${items.length} items`);
+
+      let next = 0;
+      const worker = async () => {
+        while (next < items.length) {
+          const item = items[next++]!;
+          try {
+            await client.request({
+              method: 'PUT',
+              path: EdgeKVEndpoints.item(args.network, args.namespaceId, args.groupId, item.key),
+              ...edgeKVValueRequest(item.value)
+            });
+            written++;
+          } catch (error) {
+            failures.push({ key: item.key, error: error instanceof Error ? error.message : String(error) });
+          }
+          const done = written + failures.length - issues.length;
+          progress.update((done / items.length) * 100, `${done}/${items.length} items processed`);
+        }
+      };
+
+      try {
+        await Promise.all(Array.from({ length: Math.min(args.concurrency, items.length) }, worker));
+        progress.complete(`Imported ${written} of ${items.length} items`);
+      } finally {
+        stopForwarding();
+      }
+
+      return { total: items.length + issues.length, written, failures };
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        let text = `${result.failures.length ? '⚠️' : '✅'} **EdgeKV Import ${result.failures.length ? 'Completed With Errors' : 'Complete'}**\n\n`;
+        text += `**Target**: ${args.namespaceId}/${args.groupId} (${args.network})\n`;
+        text += `**Entries**: ${result.total}\n`;
+        text += `**Written**: ${result.written}\n`;
+        text += `**Failed**: ${result.failures.length}\n`;
+        if (result.failures.length > 0) {
+          text += `\n**Failures**:\n`;
+          result.failures.slice(0, 50).forEach(failure => {
+            text += `• ${failure.key || '(empty key)'}: ${failure.error}\n`;
+          });
+          if (result.failures.length > 50) {
+            text += `• ...and ${result.failures.length - 50} more\n`;
+          }
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * List EdgeKV access tokens
+ */
+export async function listEdgeKVTokens(args: z.infer<typeof EdgeComputeToolSchemas.listEdgeKVTokens>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_token_list',
+    args,
+    async (client) => {
+      return client.request<{ tokens?: EdgeKVToken[] }>({
+        method: 'GET',
+        path: EdgeKVEndpoints.listTokens(),
+        queryParams: { includeExpired: String(args.includeExpired) }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        const tokens = result.tokens || [];
+        let text = `🔑 **EdgeKV Access Tokens**\n`;
+        text += `Total Tokens: ${tokens.length}\n\n`;
+        tokens.forEach((token, index) => {
+          text += `${index + 1}. **${token.name}** • expires ${token.expiry}\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Get an EdgeKV access token, including the value to embed in EdgeWorker bundles
+ */
+export async function getEdgeKVToken(args: z.infer<typeof EdgeComputeToolSchemas.getEdgeKVToken>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_token_get',
+    args,
+    async (client) => {
+      return client.request<EdgeKVToken>({
+        method: 'GET',
+        path: EdgeKVEndpoints.getToken(args.tokenName)
+      });
+    },
+    {
+      format: 'text',
+      formatter: formatEdgeKVToken
+    }
+  );
+}
+
+/**
+ * Create an EdgeKV access token
+ */
+export async function createEdgeKVToken(args: z.infer<typeof EdgeComputeToolSchemas.createEdgeKVToken>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_token_create',
+    args,
+    async (client) => {
+      return client.request<EdgeKVToken>({
+        method: 'POST',
+        path: EdgeKVEndpoints.listTokens(),
+        body: {
+          name: args.tokenName,
+          allowOnStaging: args.allowOnStaging,
+          allowOnProduction: args.allowOnProduction,
+          expiry: args.expiry,
+          namespacePermissions: args.namespacePermissions
+        }
+      });
+    },
+    {
+      format: 'text',
+      formatter: formatEdgeKVToken
+    }
+  );
+}
+
+/**
+ * Check EdgeKV access tokens for upcoming expiry
+ */
+export async function checkEdgeKVTokens(args: z.infer<typeof EdgeComputeToolSchemas.checkEdgeKVTokens>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'edge-compute',
+    'edge_compute_edgekv_token_check',
+    args,
+    async (client) => {
+      const result = await client.request<{ tokens?: EdgeKVToken[] }>({
+        method: 'GET',
+        path: EdgeKVEndpoints.listTokens(),
+        queryParams: { includeExpired: 'true' }
+      });
+      return checkTokenExpiry(result.tokens || [], new Date(), args.warnDays);
+    },
+    {
+      format: 'text',
+      formatter: (checks) => {
+        const expired = checks.filter(check => check.state === 'expired');
+        const expiring = checks.filter(check => check.state === 'expiring');
+
+        let text = `🔑 **EdgeKV Token Expiry Check**\n\n`;
+        text += `Tokens: ${checks.length} • expired: ${expired.length} • expiring within ${args.warnDays} days: ${expiring.length}\n\n`;
+
+        expired.forEach(check => {
+          text += `❌ **${check.token.name}** expired on ${check.token.expiry}\n`;
+        });
+        expiring.forEach(check => {
+          text += `⚠️ **${check.token.name}** expires on ${check.token.expiry} (${check.daysRemaining} days)\n`;
+        });
+
+        if (expired.length + expiring.length === 0) {
+          text += `✅ No tokens expire within ${args.warnDays} days.\n`;
+        } else {
+          text += `\nEdgeWorker bundles carry their EdgeKV token in edgekv_tokens.js, so EdgeKV reads in those bundles fail once it expires.\n`;
+          text += `\n📝 **To Renew**:\n`;
+          text += `1. Create a replacement with edge_compute_edgekv_token_create\n`;
+          text += `2. Put its value in each bundle's edgekv_tokens.js and upload a new version with edge_compute_upload_edgeworker_version\n`;
+          text += `3. Activate the new versions with edge_compute_activate_edgeworker before the old token expires\n`;
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Format an EdgeKV access token
+ */
+function formatEdgeKVToken(token: EdgeKVToken): string {
+  let text = `🔑 **EdgeKV Access Token**\n\n`;
+  text += `**Name**: ${token.name}\n`;
+  text += `**Expires**: ${token.expiry}\n`;
+  if (token.namespacePermissions) {
+    text += `**Namespaces**: ${Object.entries(token.namespacePermissions)
+      .map(([ns, permissions]) => `${ns} (${permissions.join('')})`)
+      .join(', ')}\n`;
+  }
+  if (token.value) {
+    text += `\n**Value** (add to edgekv_tokens.js in your EdgeWorker bundle):\n\`\`\`\n${token.value}\n\`\`\`\n`;
+  }
+  return text;
+}
+
 /**
  * Legacy class exports for backward compatibility
  * @deprecated Use direct function exports instead
@@ -0,0 +1,170 @@
+/**
+ * EdgeKV Import and Token Helpers
+ *
+ * Parses JSON/CSV files for the EdgeKV bulk loader and classifies access
+ * tokens by expiry. EdgeWorker bundles embed their EdgeKV token, so a token
+ * that expires breaks every bundle built with it until a new one is deployed.
+ */
+
+import type { EdgeKVToken } from './edge-compute-api-implementation';
+import { parseCsv } from '../../utils/csv';
+
+/**
+ * EdgeKV rejects item values larger than 250 KB
+ */
+export const EDGEKV_MAX_VALUE_BYTES = 250 * 1024;
+
+/**
+ * EdgeKV item keys are limited to 512 characters
+ */
+export const EDGEKV_MAX_KEY_LENGTH = 512;
+
+export type EdgeKVValue = string | Record<string, unknown> | unknown[];
+
+export interface EdgeKVImportItem {
+  key: string;
+  value: EdgeKVValue;
+}
+
+export interface EdgeKVImportIssue {
+  key: string;
+  error: string;
+}
+
+export interface EdgeKVImportPlan {
+  items: EdgeKVImportItem[];
+  issues: EdgeKVImportIssue[];
+}
+
+/**
+ * Parse a JSON import: either an object keyed by item key, or an array of
+ * { key, value } entries
+ */
+export function parseJsonImport(content: string): EdgeKVImportItem[] {
+  const data: unknown = JSON.parse(content);
+
+  if (Array.isArray(data)) {
+    return data.map((entry, index) => {
+      if (!entry || typeof entry !== 'object' || !('key' in entry) || !('value' in entry)) {
+        throw new Error(`Entry ${index} must be an object with "key" and "value"`);
+      }
+      const { key, value } = entry as { key: unknown; value: unknown };
+      return { key: String(key), value: toItemValue(value) };
+    });
+  }
+
+  if (data && typeof data === 'object') {
+    return Object.entries(data).map(([key, value]) => ({ key, value: toItemValue(value) }));
+  }
+
+  throw new Error('JSON import must be an object or an array of { key, value } entries');
+}
+
+/**
+ * Parse a CSV import with a header row containing "key" and "value" columns.
+ * Fields may be double-quoted; quoted fields can contain commas, newlines and
+ * doubled quotes.
+ */
+export function parseCsvImport(content: string): EdgeKVImportItem[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const keyIndex = columns.indexOf('key');
+  const valueIndex = columns.indexOf('value');
+  if (keyIndex === -1 || valueIndex === -1) {
+    throw new Error('CSV import needs a header row with "key" and "value" columns');
+  }
+
+  return rows
+    .filter(row => row.some(field => field !== ''))
+    .map(row => ({ key: row[keyIndex] ?? '', value: row[valueIndex] ?? '' }));
+}
+
+/**
+ * Parse an import file, taking the format from the file extension when not given
+ */
+export function parseEdgeKVImport(content: string, format?: 'json' | 'csv', fileName?: string): EdgeKVImportPlan {
+  const resolved = format || (fileName?.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+  const parsed = resolved === 'csv' ? parseCsvImport(content) : parseJsonImport(content);
+
+  const items: EdgeKVImportItem[] = [];
+  const issues: EdgeKVImportIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const item of parsed) {
+    const error = validateEdgeKVItem(item);
+    if (error) {
+      issues.push({ key: item.key, error });
+    } else if (seen.has(item.key)) {
+      issues.push({ key: item.key, error: 'Duplicate key; the first value is kept' });
+    } else {
+      seen.add(item.key);
+      items.push(item);
+    }
+  }
+
+  return { items, issues };
+}
+
+/**
+ * Check an item against EdgeKV's key and value limits
+ */
+export function validateEdgeKVItem(item: EdgeKVImportItem): string | undefined {
+  if (!item.key) {
+    return 'Key is empty';
+  }
+  if (item.key.length > EDGEKV_MAX_KEY_LENGTH) {
+    return `Key is longer than ${EDGEKV_MAX_KEY_LENGTH} characters`;
+  }
+  if (/[\s/]/.test(item.key)) {
+    return 'Key must not contain whitespace or "/"';
+  }
+
+  const size = Buffer.byteLength(typeof item.value === 'string' ? item.value : JSON.stringify(item.value));
+  if (size > EDGEKV_MAX_VALUE_BYTES) {
+    return `Value is ${size} bytes; the EdgeKV limit is ${EDGEKV_MAX_VALUE_BYTES}`;
+  }
+
+  return undefined;
+}
+
+export type EdgeKVTokenState = 'expired' | 'expiring' | 'ok';
+
+export interface EdgeKVTokenCheck {
+  token: EdgeKVToken;
+  state: EdgeKVTokenState;
+  daysRemaining: number;
+}
+
+/**
+ * Classify access tokens by how close they are to expiry, soonest first
+ */
+export function checkTokenExpiry(tokens: EdgeKVToken[], now: Date, warnDays = 30): EdgeKVTokenCheck[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  return tokens
+    .map(token => {
+      // Tokens expire at the end of their expiry date (UTC)
+      const expiresAt = Date.parse(`${token.expiry.slice(0, 10)}T23:59:59Z`);
+      const daysRemaining = Math.floor((expiresAt - now.getTime()) / dayMs);
+      const state: EdgeKVTokenState = expiresAt < now.getTime()
+        ? 'expired'
+        : daysRemaining < warnDays ? 'expiring' : 'ok';
+      return { token, state, daysRemaining };
+    })
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+function toItemValue(value: unknown): EdgeKVValue {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    return value as Record<string, unknown> | unknown[];
+  }
+  // Numbers, booleans and null are stored as their text form
+  return String(value);
+}
@@ -1,12 +1,11 @@
 /**
  * Edge Compute Domain Index
  * 
- * MCP-compliant tool definitions for EdgeWorkers and Cloudlets operations
+ * MCP-compliant tool definitions for EdgeWorkers, Cloudlets and EdgeKV operations
  * 
  * Updated on 2025-01-11 to use BaseTool.execute pattern
  */
 
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { MCPToolResponse } from '../../types/mcp-protocol';
 import { 
   listEdgeWorkers,
@@ -17,17 +16,49 @@ import {
   listCloudletsPolicies,
   getCloudletPolicy,
   createCloudletPolicy,
-  activateCloudletPolicy
+  activateCloudletPolicy,
+  listCloudletVersions,
+  getCloudletVersion,
+  createCloudletVersion,
+  addCloudletRule,
+  moveCloudletRule,
+  deleteCloudletRule,
+  importCloudletRedirects,
+  simulateCloudletMatch,
+  getEdgeKVStatus,
+  listEdgeKVNamespaces,
+  getEdgeKVNamespace,
+  createEdgeKVNamespace,
+  listEdgeKVGroups,
+  listEdgeKVItems,
+  getEdgeKVItem,
+  putEdgeKVItem,
+  deleteEdgeKVItem,
+  bulkLoadEdgeKVItems,
+  listEdgeKVTokens,
+  getEdgeKVToken,
+  createEdgeKVToken,
+  checkEdgeKVTokens
 } from './edge-compute-tools';
 import { EdgeComputeToolSchemas } from './edge-compute-api-implementation';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
+/**
+ * Tool interface with proper typing
+ */
+interface EdgeComputeTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
 /**
  * Edge Compute Domain Tools
  * 
- * Complete EdgeWorkers and Cloudlets API implementation following MCP patterns
+ * Complete EdgeWorkers, Cloudlets and EdgeKV API implementation following MCP patterns
  */
-export const edgeComputeToolsRegistry: Record<string, Tool> = {
+export const edgeComputeToolsRegistry: Record<string, EdgeComputeTool> = {
   // EdgeWorkers Tools
   'edge_compute_list_edgeworkers': {
     name: 'edge_compute_list_edgeworkers',
@@ -73,7 +104,7 @@ export const edgeComputeToolsRegistry: Record<string, Tool> = {
   'edge_compute_list_cloudlets_policies': {
     name: 'edge_compute_list_cloudlets_policies',
     description: 'List all Cloudlet policies with optional filtering by type',
-    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listCloudletsPolicies) as any,
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listCloudletPolicies) as any,
     handler: async (_client: any, args: any): Promise<MCPToolResponse> => 
       listCloudletsPolicies(args)
   },
@@ -100,6 +131,184 @@ export const edgeComputeToolsRegistry: Record<string, Tool> = {
     inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.activateCloudletPolicy) as any,
     handler: async (_client: any, args: any): Promise<MCPToolResponse> => 
       activateCloudletPolicy(args)
+  },
+
+  // Cloudlets v3 Policy Version Tools
+  'edge_compute_list_cloudlet_versions': {
+    name: 'edge_compute_list_cloudlet_versions',
+    description: 'List versions of a Cloudlets v3 policy',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listCloudletVersions),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      listCloudletVersions(EdgeComputeToolSchemas.listCloudletVersions.parse(args))
+  },
+
+  'edge_compute_get_cloudlet_version': {
+    name: 'edge_compute_get_cloudlet_version',
+    description: 'Get a Cloudlet policy version with its match rules',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.getCloudletVersion),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      getCloudletVersion(EdgeComputeToolSchemas.getCloudletVersion.parse(args))
+  },
+
+  'edge_compute_create_cloudlet_version': {
+    name: 'edge_compute_create_cloudlet_version',
+    description: 'Create a Cloudlet policy version from structured match rules or a copy of another version',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.createCloudletVersion),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      createCloudletVersion(EdgeComputeToolSchemas.createCloudletVersion.parse(args))
+  },
+
+  'edge_compute_add_cloudlet_rule': {
+    name: 'edge_compute_add_cloudlet_rule',
+    description: 'Add a structured match rule (ER, ALB, Phased Release, Request Control, Forward Rewrite, Audience Segmentation) to a policy version',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.addCloudletRule),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      addCloudletRule(EdgeComputeToolSchemas.addCloudletRule.parse(args))
+  },
+
+  'edge_compute_move_cloudlet_rule': {
+    name: 'edge_compute_move_cloudlet_rule',
+    description: 'Move a match rule to a new position in a policy version',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.moveCloudletRule),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      moveCloudletRule(EdgeComputeToolSchemas.moveCloudletRule.parse(args))
+  },
+
+  'edge_compute_delete_cloudlet_rule': {
+    name: 'edge_compute_delete_cloudlet_rule',
+    description: 'Delete a match rule from a policy version',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.deleteCloudletRule),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      deleteCloudletRule(EdgeComputeToolSchemas.deleteCloudletRule.parse(args))
+  },
+
+  'edge_compute_import_cloudlet_redirects': {
+    name: 'edge_compute_import_cloudlet_redirects',
+    description: 'Import redirects from a CSV file into an Edge Redirector policy version',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.importCloudletRedirects),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      importCloudletRedirects(EdgeComputeToolSchemas.importCloudletRedirects.parse(args))
+  },
+
+  'edge_compute_simulate_cloudlet_match': {
+    name: 'edge_compute_simulate_cloudlet_match',
+    description: 'Report offline which match rule would fire for a request URL, headers and cookies',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.simulateCloudletMatch),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      simulateCloudletMatch(EdgeComputeToolSchemas.simulateCloudletMatch.parse(args))
+  },
+
+  // EdgeKV Tools
+  'edge_compute_edgekv_status': {
+    name: 'edge_compute_edgekv_status',
+    description: 'Get EdgeKV initialization status for the account',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.getEdgeKVStatus),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      getEdgeKVStatus(EdgeComputeToolSchemas.getEdgeKVStatus.parse(args))
+  },
+
+  'edge_compute_edgekv_namespace_list': {
+    name: 'edge_compute_edgekv_namespace_list',
+    description: 'List EdgeKV namespaces on a network',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listEdgeKVNamespaces),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      listEdgeKVNamespaces(EdgeComputeToolSchemas.listEdgeKVNamespaces.parse(args))
+  },
+
+  'edge_compute_edgekv_namespace_get': {
+    name: 'edge_compute_edgekv_namespace_get',
+    description: 'Get EdgeKV namespace details',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.getEdgeKVNamespace),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      getEdgeKVNamespace(EdgeComputeToolSchemas.getEdgeKVNamespace.parse(args))
+  },
+
+  'edge_compute_edgekv_namespace_create': {
+    name: 'edge_compute_edgekv_namespace_create',
+    description: 'Create an EdgeKV namespace',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.createEdgeKVNamespace),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      createEdgeKVNamespace(EdgeComputeToolSchemas.createEdgeKVNamespace.parse(args))
+  },
+
+  'edge_compute_edgekv_group_list': {
+    name: 'edge_compute_edgekv_group_list',
+    description: 'List groups in an EdgeKV namespace',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listEdgeKVGroups),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      listEdgeKVGroups(EdgeComputeToolSchemas.listEdgeKVGroups.parse(args))
+  },
+
+  'edge_compute_edgekv_item_list': {
+    name: 'edge_compute_edgekv_item_list',
+    description: 'List item keys in an EdgeKV group',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listEdgeKVItems),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      listEdgeKVItems(EdgeComputeToolSchemas.listEdgeKVItems.parse(args))
+  },
+
+  'edge_compute_edgekv_item_get': {
+    name: 'edge_compute_edgekv_item_get',
+    description: 'Get an EdgeKV item value',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.getEdgeKVItem),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      getEdgeKVItem(EdgeComputeToolSchemas.getEdgeKVItem.parse(args))
+  },
+
+  'edge_compute_edgekv_item_put': {
+    name: 'edge_compute_edgekv_item_put',
+    description: 'Create or update an EdgeKV item',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.putEdgeKVItem),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      putEdgeKVItem(EdgeComputeToolSchemas.putEdgeKVItem.parse(args))
+  },
+
+  'edge_compute_edgekv_item_delete': {
+    name: 'edge_compute_edgekv_item_delete',
+    description: 'Delete an EdgeKV item',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.deleteEdgeKVItem),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      deleteEdgeKVItem(EdgeComputeToolSchemas.deleteEdgeKVItem.parse(args))
+  },
+
+  'edge_compute_edgekv_bulk_load': {
+    name: 'edge_compute_edgekv_bulk_load',
+    description: 'Import a JSON or CSV file into an EdgeKV group with progress reporting',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.bulkLoadEdgeKVItems),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      bulkLoadEdgeKVItems(EdgeComputeToolSchemas.bulkLoadEdgeKVItems.parse(args))
+  },
+
+  'edge_compute_edgekv_token_list': {
+    name: 'edge_compute_edgekv_token_list',
+    description: 'List EdgeKV access tokens',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.listEdgeKVTokens),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      listEdgeKVTokens(EdgeComputeToolSchemas.listEdgeKVTokens.parse(args))
+  },
+
+  'edge_compute_edgekv_token_get': {
+    name: 'edge_compute_edgekv_token_get',
+    description: 'Get an EdgeKV access token and its value',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.getEdgeKVToken),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      getEdgeKVToken(EdgeComputeToolSchemas.getEdgeKVToken.parse(args))
+  },
+
+  'edge_compute_edgekv_token_create': {
+    name: 'edge_compute_edgekv_token_create',
+    description: 'Create an EdgeKV access token with namespace permissions',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.createEdgeKVToken),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      createEdgeKVToken(EdgeComputeToolSchemas.createEdgeKVToken.parse(args))
+  },
+
+  'edge_compute_edgekv_token_check': {
+    name: 'edge_compute_edgekv_token_check',
+    description: 'Warn about EdgeKV access tokens that are expired or expiring before EdgeWorker bundles break',
+    inputSchema: zodToJsonSchema(EdgeComputeToolSchemas.checkEdgeKVTokens),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => 
+      checkEdgeKVTokens(EdgeComputeToolSchemas.checkEdgeKVTokens.parse(args))
   }
 };
 
@@ -115,7 +324,29 @@ export {
   listCloudletsPolicies,
   getCloudletPolicy,
   createCloudletPolicy,
-  activateCloudletPolicy
+  activateCloudletPolicy,
+  listCloudletVersions,
+  getCloudletVersion,
+  createCloudletVersion,
+  addCloudletRule,
+  moveCloudletRule,
+  deleteCloudletRule,
+  importCloudletRedirects,
+  simulateCloudletMatch,
+  getEdgeKVStatus,
+  listEdgeKVNamespaces,
+  getEdgeKVNamespace,
+  createEdgeKVNamespace,
+  listEdgeKVGroups,
+  listEdgeKVItems,
+  getEdgeKVItem,
+  putEdgeKVItem,
+  deleteEdgeKVItem,
+  bulkLoadEdgeKVItems,
+  listEdgeKVTokens,
+  getEdgeKVToken,
+  createEdgeKVToken,
+  checkEdgeKVTokens
 };
 
 /**
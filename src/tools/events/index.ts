@@ -0,0 +1,91 @@
+/**
+ * Events Domain Tools Export
+ *
+ * This module exports the tools for the change event center: property
+ * activations, security config activations and DNS changelists, whoever
+ * made them.
+ */
+
+import { z } from 'zod';
+import { AkamaiClient } from '../../akamai-client';
+import { type MCPToolResponse } from '../../types/mcp-protocol';
+import { changeEventService, type ChangeEvent } from '../../services/change-event-service';
+import { listCustomers } from '../../utils/customer-config';
+
+const SOURCE_LABELS: Record<ChangeEvent['source'], string> = {
+  property: 'Property',
+  appsec: 'Security',
+  dns: 'DNS',
+};
+
+function formatEvent(event: ChangeEvent): string {
+  return [
+    `${event.timestamp} [${SOURCE_LABELS[event.source]}] ${event.summary}`,
+    ...(event.user ? [`  By/notify: ${event.user}`] : []),
+    ...(event.note ? [`  Note: ${event.note}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Events tool definitions
+ */
+export const eventsTools = {
+  'events_recent': {
+    description: 'Recent changes across property activations, security config activations and DNS changelists, including changes made outside ALECS',
+    inputSchema: z.object({
+      customer: z.string().optional().describe('Customer section; all configured customers when omitted'),
+      hours: z.number().min(1).max(720).optional().default(24).describe('Look-back window in hours'),
+      source: z.enum(['property', 'appsec', 'dns']).optional(),
+      network: z.enum(['STAGING', 'PRODUCTION']).optional(),
+      limit: z.number().int().min(1).max(1000).optional().default(100),
+      refresh: z.boolean().optional().default(true).describe('Poll Akamai before answering; false reads the local store only'),
+      format: z.enum(['json', 'text']).optional()
+    }),
+    handler: async (_client: any, args: any): Promise<MCPToolResponse> => {
+      const customers: string[] = args.customer ? [args.customer] : listCustomers();
+      const errors: string[] = [];
+
+      if (args.refresh ?? true) {
+        for (const customer of customers) {
+          const result = await changeEventService.poll(customer, new AkamaiClient(customer));
+          errors.push(...result.errors.map(error => `${customer}: ${error}`));
+        }
+      }
+
+      const since = new Date(Date.now() - (args.hours ?? 24) * 3_600_000).toISOString();
+      const events = changeEventService.query({
+        customer: args.customer,
+        source: args.source,
+        network: args.network,
+        since,
+        limit: args.limit ?? 100,
+      });
+
+      if (args.format === 'json') {
+        return { content: [{ type: 'text', text: JSON.stringify({ since, events, errors }, null, 2) }] };
+      }
+
+      const scope = args.customer ? `customer '${args.customer}'` : `${customers.length} customer(s)`;
+      const lines = [`Changes in the last ${args.hours ?? 24}h for ${scope} (${events.length}, newest first):`, ''];
+      lines.push(events.length > 0 ? events.map(formatEvent).join('\n\n') : 'No changes found.');
+      if (errors.length > 0) {
+        lines.push('', '⚠️ Some sources could not be polled:', ...errors.map(error => `• ${error}`));
+      }
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+  },
+};
+
+/**
+ * Events domain metadata
+ */
+export const eventsDomainMetadata = {
+  name: 'events',
+  description: 'Change event center - activations and DNS changes from every source',
+  toolCount: Object.keys(eventsTools).length,
+  features: [
+    'Property Manager and AppSec activation history',
+    'Edge DNS changelists',
+    'Local event store with akamai://{customer}/events subscriptions'
+  ]
+};
@@ -207,6 +207,12 @@ export const GTMToolSchemas = {
     domainName: z.string().describe('GTM domain name')
   }),
   
+  getProperty: z.object({
+    customer: z.string().optional().describe('Akamai customer account (from .edgerc)'),
+    domainName: z.string().describe('GTM domain name'),
+    propertyName: z.string().describe('Property name')
+  }),
+  
   createProperty: z.object({
     customer: z.string().optional().describe('Akamai customer account (from .edgerc)'),
     domainName: z.string().describe('GTM domain name'),
@@ -242,6 +248,18 @@ export const GTMToolSchemas = {
     })).optional()
   }),
   
+  updatePropertyTraffic: z.object({
+    customer: z.string().optional().describe('Akamai customer account (from .edgerc)'),
+    domainName: z.string().describe('GTM domain name'),
+    propertyName: z.string().describe('Property name'),
+    trafficTargets: z.array(z.object({
+      datacenterId: z.number(),
+      enabled: z.boolean(),
+      weight: z.number().optional(),
+      servers: z.array(z.string()).optional()
+    }))
+  }),
+  
   deleteProperty: z.object({
     customer: z.string().optional().describe('Akamai customer account (from .edgerc)'),
     domainName: z.string().describe('GTM domain name'),
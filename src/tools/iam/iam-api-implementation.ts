@@ -0,0 +1,175 @@
+/**
+ * Identity & Access Management API Implementation
+ *
+ * Users, roles, groups, API clients and their credentials from Akamai's
+ * Identity and Access Management API
+ *
+ * API Documentation: https://techdocs.akamai.com/iam-api/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for Identity and Access Management API
+ */
+export const IAM_API_BASE = '/identity-management/v3';
+
+/**
+ * IAM API Endpoints
+ */
+export const IamEndpoints = {
+  // Users
+  users: () => `${IAM_API_BASE}/user-admin/ui-identities`,
+  user: (uiIdentityId: string) => `${IAM_API_BASE}/user-admin/ui-identities/${uiIdentityId}`,
+  userAuthGrants: (uiIdentityId: string) => `${IAM_API_BASE}/user-admin/ui-identities/${uiIdentityId}/auth-grants`,
+
+  // Roles and groups
+  roles: () => `${IAM_API_BASE}/user-admin/roles`,
+  role: (roleId: number) => `${IAM_API_BASE}/user-admin/roles/${roleId}`,
+  groups: () => `${IAM_API_BASE}/user-admin/groups`,
+  group: (groupId: number) => `${IAM_API_BASE}/user-admin/groups/${groupId}`,
+
+  // API clients and credentials ('self' is the client making the request)
+  apiClients: () => `${IAM_API_BASE}/api-clients`,
+  apiClient: (clientId: string) => `${IAM_API_BASE}/api-clients/${clientId}`,
+  credentials: (clientId: string) => `${IAM_API_BASE}/api-clients/${clientId}/credentials`,
+  credential: (clientId: string, credentialId: number) =>
+    `${IAM_API_BASE}/api-clients/${clientId}/credentials/${credentialId}`
+};
+
+const ClientIdSchema = z.string().default('self')
+  .describe('API client ID, or "self" for the client in the customer\'s .edgerc section');
+
+/**
+ * IAM Tool Schemas
+ */
+export const IamToolSchemas = {
+  listUsers: CustomerSchema.extend({
+    groupId: z.number().int().optional().describe('Only users with access to this group'),
+    authGrants: z.boolean().default(false).describe('Include each user\'s role grants')
+  }),
+
+  getUser: CustomerSchema.extend({
+    uiIdentityId: z.string().describe('User identity ID')
+  }),
+
+  listRoles: CustomerSchema.extend({
+    groupId: z.number().int().optional().describe('Only roles available in this group')
+  }),
+
+  getRole: CustomerSchema.extend({
+    roleId: z.number().int().describe('Role ID')
+  }),
+
+  listGroups: CustomerSchema,
+
+  getGroup: CustomerSchema.extend({
+    groupId: z.number().int().describe('Group ID')
+  }),
+
+  listGroupAccess: CustomerSchema.extend({
+    groupId: z.number().int().describe('Group ID to report access for')
+  }),
+
+  listApiClients: CustomerSchema,
+
+  getApiClient: CustomerSchema.extend({
+    clientId: ClientIdSchema
+  }),
+
+  listCredentials: CustomerSchema.extend({
+    clientId: ClientIdSchema
+  }),
+
+  grantRole: CustomerSchema.extend({
+    uiIdentityId: z.string().describe('User identity ID'),
+    groupId: z.number().int().describe('Group to grant the role on'),
+    roleId: z.number().int().describe('Role to grant; replaces the user\'s current role on the group')
+  }),
+
+  revokeRole: CustomerSchema.extend({
+    uiIdentityId: z.string().describe('User identity ID'),
+    groupId: z.number().int().describe('Group to remove the user\'s access from')
+  }),
+
+  rotateCredential: CustomerSchema.extend({
+    clientId: ClientIdSchema,
+    edgercSection: z.string().optional()
+      .describe('.edgerc section to write the new credential to (defaults to the customer)'),
+    gracePeriodDays: z.number().int().min(0).max(30).default(7)
+      .describe('Days the old credential stays valid before it expires'),
+    updateEdgerc: z.boolean().default(true)
+      .describe('Write the new credential to the .edgerc section and keep the old one as <section>-previous')
+  })
+};
+
+/**
+ * Response types for IAM operations
+ */
+export interface IamAuthGrant {
+  groupId: number;
+  groupName?: string;
+  roleId?: number;
+  roleName?: string;
+  isBlocked?: boolean;
+  subGroups?: IamAuthGrant[];
+}
+
+export interface IamUser {
+  uiIdentityId: string;
+  uiUserName: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  accountId?: string;
+  isLocked?: boolean;
+  lastLoginDate?: string;
+  tfaEnabled?: boolean;
+  authGrants?: IamAuthGrant[];
+}
+
+export interface IamRole {
+  roleId: number;
+  roleName: string;
+  roleDescription?: string;
+  type?: 'custom' | 'standard';
+  createdBy?: string;
+  modifiedDate?: string;
+  grantedRoles?: Array<{ grantedRoleId: number; grantedRoleName: string }>;
+  users?: Array<{ uiIdentityId: string; firstName: string; lastName: string; email: string }>;
+}
+
+export interface IamGroup {
+  groupId: number;
+  groupName: string;
+  parentGroupId?: number;
+  createdDate?: string;
+  subGroups?: IamGroup[];
+}
+
+export interface IamApiClient {
+  clientId: string;
+  clientName: string;
+  clientDescription?: string;
+  clientType?: string;
+  accessToken?: string;
+  activeCredentialCount?: number;
+  isLocked?: boolean;
+  createdDate?: string;
+  createdBy?: string;
+  notificationEmails?: string[];
+}
+
+export interface IamCredential {
+  credentialId: number;
+  clientToken: string;
+  status: 'ACTIVE' | 'INACTIVE' | 'DELETED';
+  createdOn: string;
+  expiresOn: string;
+  description?: string;
+}
+
+export interface IamNewCredential extends IamCredential {
+  clientSecret: string;
+}
@@ -0,0 +1,66 @@
+/**
+ * IAM Role Grant Helpers
+ *
+ * Edits of a user's auth grant tree. The IAM API replaces all of a user's
+ * grants at once, so changes are made on the full tree and written back.
+ */
+
+import type { IamAuthGrant } from './iam-api-implementation';
+
+/**
+ * Role a user holds on a group, following role inheritance from parent groups
+ */
+export function findEffectiveGrant(
+  grants: IamAuthGrant[],
+  groupId: number,
+  inherited?: IamAuthGrant
+): { grant: IamAuthGrant; inherited: boolean } | undefined {
+  for (const grant of grants) {
+    const holder = grant.roleId !== undefined ? grant : inherited;
+    if (grant.groupId === groupId) {
+      return holder ? { grant: holder, inherited: holder !== grant } : undefined;
+    }
+    const found = findEffectiveGrant(grant.subGroups || [], groupId, holder);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Grant list with a role set on a group, replacing the role the user had there
+ */
+export function applyRoleGrant(grants: IamAuthGrant[], groupId: number, roleId: number): IamAuthGrant[] {
+  let applied = false;
+  const update = (list: IamAuthGrant[]): IamAuthGrant[] => list.map(grant => {
+    if (grant.groupId === groupId) {
+      applied = true;
+      const { roleName: _, ...rest } = grant;
+      return { ...rest, roleId };
+    }
+    return grant.subGroups ? { ...grant, subGroups: update(grant.subGroups) } : grant;
+  });
+
+  const updated = update(grants);
+  return applied ? updated : [...updated, { groupId, roleId }];
+}
+
+/**
+ * Grant list without the user's grant on a group, or undefined if they have none
+ */
+export function removeGroupGrant(grants: IamAuthGrant[], groupId: number): IamAuthGrant[] | undefined {
+  let removed = false;
+  const remove = (list: IamAuthGrant[]): IamAuthGrant[] => list
+    .filter(grant => {
+      if (grant.groupId === groupId) {
+        removed = true;
+        return false;
+      }
+      return true;
+    })
+    .map(grant => (grant.subGroups ? { ...grant, subGroups: remove(grant.subGroups) } : grant));
+
+  const updated = remove(grants);
+  return removed ? updated : undefined;
+}
@@ -0,0 +1,516 @@
+/**
+ * Identity & Access Management Tools Implementation
+ *
+ * Tools for reviewing who can access what in an Akamai account, changing
+ * users' role grants and rotating API client credentials
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import { isPlanActive } from '../../core/dry-run';
+import { CustomerConfigManager } from '../../utils/customer-config';
+import {
+  IamEndpoints,
+  IamToolSchemas,
+  type IamApiClient,
+  type IamAuthGrant,
+  type IamCredential,
+  type IamGroup,
+  type IamNewCredential,
+  type IamRole,
+  type IamUser
+} from './iam-api-implementation';
+import { applyRoleGrant, findEffectiveGrant, removeGroupGrant } from './iam-grants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a grant tree as indented lines
+ */
+function formatGrants(grants: IamAuthGrant[], indent = ''): string {
+  return grants.map(grant => {
+    const role = grant.roleName || (grant.roleId !== undefined ? `role ${grant.roleId}` : 'inherited');
+    const blocked = grant.isBlocked ? ' (blocked)' : '';
+    let text = `${indent}• ${grant.groupName || 'Group'} (${grant.groupId}): ${role}${blocked}\n`;
+    if (grant.subGroups?.length) {
+      text += formatGrants(grant.subGroups, `${indent}  `);
+    }
+    return text;
+  }).join('');
+}
+
+/**
+ * Format a group tree as indented lines
+ */
+function formatGroups(groups: IamGroup[], indent = ''): string {
+  return groups.map(group => {
+    let text = `${indent}• ${group.groupName} (${group.groupId})\n`;
+    if (group.subGroups?.length) {
+      text += formatGroups(group.subGroups, `${indent}  `);
+    }
+    return text;
+  }).join('');
+}
+
+function formatUser(user: IamUser): string {
+  let text = `👤 **${user.firstName} ${user.lastName}**\n`;
+  text += `ID: ${user.uiIdentityId}\n`;
+  text += `Username: ${user.uiUserName}\n`;
+  text += `Email: ${user.email}\n`;
+  text += `Locked: ${user.isLocked ? 'yes' : 'no'}\n`;
+  if (user.tfaEnabled !== undefined) {
+    text += `2FA: ${user.tfaEnabled ? 'enabled' : 'disabled'}\n`;
+  }
+  if (user.lastLoginDate) {
+    text += `Last Login: ${user.lastLoginDate}\n`;
+  }
+  if (user.authGrants?.length) {
+    text += `\n**Role Grants**:\n${formatGrants(user.authGrants)}`;
+  }
+  return text;
+}
+
+function formatCredential(credential: IamCredential): string {
+  return `• ${credential.credentialId}: ${credential.clientToken} | ${credential.status} | ` +
+    `created ${credential.createdOn} | expires ${credential.expiresOn}` +
+    `${credential.description ? ` | ${credential.description}` : ''}\n`;
+}
+
+/**
+ * List users, optionally limited to those with access to a group
+ */
+export async function listUsers(args: z.infer<typeof IamToolSchemas.listUsers>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_user_list',
+    args,
+    async (client) => client.request<IamUser[]>({
+      path: IamEndpoints.users(),
+      method: 'GET',
+      queryParams: {
+        ...(args.groupId !== undefined && { groupId: String(args.groupId) }),
+        authGrants: String(args.authGrants)
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (users) => {
+        let text = `👥 **Users** (${users.length})\n\n`;
+        users.forEach(user => {
+          text += `• ${user.firstName} ${user.lastName} <${user.email}> (${user.uiIdentityId})` +
+            `${user.isLocked ? ' 🔒' : ''}\n`;
+          if (args.authGrants && user.authGrants?.length) {
+            text += formatGrants(user.authGrants, '    ');
+          }
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Get a user with their role grants
+ */
+export async function getUser(args: z.infer<typeof IamToolSchemas.getUser>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_user_get',
+    args,
+    async (client) => client.request<IamUser>({
+      path: IamEndpoints.user(args.uiIdentityId),
+      method: 'GET',
+      queryParams: { authGrants: 'true' }
+    }),
+    {
+      format: 'text',
+      formatter: formatUser
+    }
+  );
+}
+
+/**
+ * List roles
+ */
+export async function listRoles(args: z.infer<typeof IamToolSchemas.listRoles>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_role_list',
+    args,
+    async (client) => client.request<IamRole[]>({
+      path: IamEndpoints.roles(),
+      method: 'GET',
+      ...(args.groupId !== undefined && { queryParams: { groupId: String(args.groupId) } })
+    }),
+    {
+      format: 'text',
+      formatter: (roles) => {
+        let text = `🎭 **Roles** (${roles.length})\n\n`;
+        roles.forEach(role => {
+          text += `• ${role.roleName} (${role.roleId})${role.type ? ` [${role.type}]` : ''}` +
+            `${role.roleDescription ? `: ${role.roleDescription}` : ''}\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `iam:roles:${p.groupId ?? 'all'}`,
+      cacheTtl: 3600 // 1 hour
+    }
+  );
+}
+
+/**
+ * Get a role with its granted roles and users
+ */
+export async function getRole(args: z.infer<typeof IamToolSchemas.getRole>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_role_get',
+    args,
+    async (client) => client.request<IamRole>({
+      path: IamEndpoints.role(args.roleId),
+      method: 'GET',
+      queryParams: { grantedRoles: 'true', users: 'true' }
+    }),
+    {
+      format: 'text',
+      formatter: (role) => {
+        let text = `🎭 **${role.roleName}** (${role.roleId})\n`;
+        if (role.roleDescription) {
+          text += `${role.roleDescription}\n`;
+        }
+        text += `Type: ${role.type || 'unknown'}\n`;
+        if (role.grantedRoles?.length) {
+          text += `\n**Granted Roles** (${role.grantedRoles.length}):\n`;
+          role.grantedRoles.forEach(granted => {
+            text += `• ${granted.grantedRoleName} (${granted.grantedRoleId})\n`;
+          });
+        }
+        text += `\n**Users** (${role.users?.length || 0}):\n`;
+        role.users?.forEach(user => {
+          text += `• ${user.firstName} ${user.lastName} <${user.email}> (${user.uiIdentityId})\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * List the group hierarchy
+ */
+export async function listGroups(args: z.infer<typeof IamToolSchemas.listGroups>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_group_list',
+    args,
+    async (client) => client.request<IamGroup[]>({
+      path: IamEndpoints.groups(),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (groups) => `🏢 **Groups**\n\n${formatGroups(groups)}`,
+      cacheKey: () => 'iam:groups',
+      cacheTtl: 3600 // 1 hour
+    }
+  );
+}
+
+/**
+ * Get a group and its subgroups
+ */
+export async function getGroup(args: z.infer<typeof IamToolSchemas.getGroup>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_group_get',
+    args,
+    async (client) => client.request<IamGroup>({
+      path: IamEndpoints.group(args.groupId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (group) => {
+        let text = `🏢 **${group.groupName}** (${group.groupId})\n`;
+        if (group.parentGroupId) {
+          text += `Parent Group: ${group.parentGroupId}\n`;
+        }
+        if (group.subGroups?.length) {
+          text += `\n**Subgroups**:\n${formatGroups(group.subGroups)}`;
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Who has access to a group, and with which role
+ */
+export async function listGroupAccess(args: z.infer<typeof IamToolSchemas.listGroupAccess>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_group_access_list',
+    args,
+    async (client) => client.request<IamUser[]>({
+      path: IamEndpoints.users(),
+      method: 'GET',
+      queryParams: { groupId: String(args.groupId), authGrants: 'true' }
+    }),
+    {
+      format: 'text',
+      formatter: (users) => {
+        let text = `🔑 **Access to group ${args.groupId}** (${users.length} users)\n\n`;
+        users.forEach(user => {
+          const access = findEffectiveGrant(user.authGrants || [], args.groupId);
+          const role = access
+            ? `${access.grant.roleName || access.grant.roleId}` +
+              `${access.inherited ? ` (inherited from ${access.grant.groupName || access.grant.groupId})` : ''}`
+            : 'role not reported';
+          text += `• ${user.firstName} ${user.lastName} <${user.email}> (${user.uiIdentityId}): ${role}\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * List API clients
+ */
+export async function listApiClients(args: z.infer<typeof IamToolSchemas.listApiClients>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_api_client_list',
+    args,
+    async (client) => client.request<IamApiClient[]>({
+      path: IamEndpoints.apiClients(),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (clients) => {
+        let text = `🤖 **API Clients** (${clients.length})\n\n`;
+        clients.forEach(apiClient => {
+          text += `• ${apiClient.clientName} (${apiClient.clientId})` +
+            ` | ${apiClient.activeCredentialCount ?? '?'} active credentials` +
+            `${apiClient.isLocked ? ' | 🔒 locked' : ''}\n`;
+        });
+        return text;
+      },
+      cacheKey: () => 'iam:api-clients',
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get an API client
+ */
+export async function getApiClient(args: z.infer<typeof IamToolSchemas.getApiClient>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_api_client_get',
+    args,
+    async (client) => client.request<IamApiClient>({
+      path: IamEndpoints.apiClient(args.clientId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (apiClient) => {
+        let text = `🤖 **${apiClient.clientName}** (${apiClient.clientId})\n`;
+        if (apiClient.clientDescription) {
+          text += `${apiClient.clientDescription}\n`;
+        }
+        text += `Type: ${apiClient.clientType || 'unknown'}\n`;
+        text += `Active Credentials: ${apiClient.activeCredentialCount ?? 'unknown'}\n`;
+        text += `Locked: ${apiClient.isLocked ? 'yes' : 'no'}\n`;
+        if (apiClient.createdDate) {
+          text += `Created: ${apiClient.createdDate}${apiClient.createdBy ? ` by ${apiClient.createdBy}` : ''}\n`;
+        }
+        if (apiClient.notificationEmails?.length) {
+          text += `Notifications: ${apiClient.notificationEmails.join(', ')}\n`;
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * List an API client's credentials
+ */
+export async function listCredentials(args: z.infer<typeof IamToolSchemas.listCredentials>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_credential_list',
+    args,
+    async (client) => client.request<IamCredential[]>({
+      path: IamEndpoints.credentials(args.clientId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (credentials) => {
+        let text = `🔐 **Credentials of ${args.clientId}** (${credentials.length})\n\n`;
+        credentials.forEach(credential => {
+          text += formatCredential(credential);
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Grant a user a role on a group
+ */
+export async function grantRole(args: z.infer<typeof IamToolSchemas.grantRole>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_user_role_grant',
+    args,
+    async (client) => {
+      const user = await client.request<IamUser>({
+        path: IamEndpoints.user(args.uiIdentityId),
+        method: 'GET',
+        queryParams: { authGrants: 'true' }
+      });
+      return client.request<IamAuthGrant[]>({
+        path: IamEndpoints.userAuthGrants(args.uiIdentityId),
+        method: 'PUT',
+        body: applyRoleGrant(user.authGrants || [], args.groupId, args.roleId)
+      });
+    },
+    {
+      format: 'text',
+      formatter: (grants) =>
+        `✅ Granted role ${args.roleId} on group ${args.groupId} to ${args.uiIdentityId}\n\n` +
+        `**Role Grants**:\n${formatGrants(grants)}`
+    }
+  );
+}
+
+/**
+ * Revoke a user's role on a group
+ */
+export async function revokeRole(args: z.infer<typeof IamToolSchemas.revokeRole>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_user_role_revoke',
+    args,
+    async (client) => {
+      const user = await client.request<IamUser>({
+        path: IamEndpoints.user(args.uiIdentityId),
+        method: 'GET',
+        queryParams: { authGrants: 'true' }
+      });
+      const grants = removeGroupGrant(user.authGrants || [], args.groupId);
+      if (!grants) {
+        throw new Error(`User ${args.uiIdentityId} has no role grant on group ${args.groupId}`);
+      }
+      if (grants.length === 0) {
+        throw new Error(`Group ${args.groupId} is the only grant of user ${args.uiIdentityId}; ` +
+          'a user needs at least one role, so grant another group first or delete the user');
+      }
+      return client.request<IamAuthGrant[]>({
+        path: IamEndpoints.userAuthGrants(args.uiIdentityId),
+        method: 'PUT',
+        body: grants
+      });
+    },
+    {
+      format: 'text',
+      formatter: (grants) =>
+        `✅ Revoked access to group ${args.groupId} from ${args.uiIdentityId}\n\n` +
+        `**Remaining Role Grants**:\n${formatGrants(grants)}`
+    }
+  );
+}
+
+/**
+ * Rotate an API client credential
+ *
+ * Creates a new credential, writes it into the .edgerc section whose
+ * client_token identifies the current one, and shortens the old
+ * credential's expiry to the grace period. Secrets are never returned
+ * unless the .edgerc update is turned off.
+ */
+export async function rotateCredential(args: z.infer<typeof IamToolSchemas.rotateCredential>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'iam',
+    'iam_credential_rotate',
+    args,
+    async (client) => {
+      const configManager = CustomerConfigManager.getInstance();
+      const section = args.edgercSection || args.customer || 'default';
+      const { client_token: currentToken } = configManager.getSection(section);
+
+      const credentials = await client.request<IamCredential[]>({
+        path: IamEndpoints.credentials(args.clientId),
+        method: 'GET'
+      });
+      const previous = credentials.find(credential => credential.clientToken === currentToken);
+      if (!previous) {
+        throw new Error(`No credential of API client '${args.clientId}' matches the client_token ` +
+          `of .edgerc section [${section}]`);
+      }
+
+      const created = await client.request<IamNewCredential>({
+        path: IamEndpoints.credentials(args.clientId),
+        method: 'POST'
+      });
+
+      // Never extend the old credential beyond its current expiry
+      const previousExpiry = new Date(Math.min(
+        Date.now() + args.gracePeriodDays * DAY_MS,
+        new Date(previous.expiresOn).getTime()
+      ));
+
+      // In plan mode the POST is only recorded, so there is no credential to write
+      const edgercUpdated = args.updateEdgerc && !isPlanActive();
+      if (edgercUpdated) {
+        configManager.updateSectionCredentials(
+          section,
+          { client_token: created.clientToken, client_secret: created.clientSecret },
+          { keepPreviousUntil: previousExpiry }
+        );
+      }
+
+      await client.request<IamCredential>({
+        path: IamEndpoints.credential(args.clientId, previous.credentialId),
+        method: 'PUT',
+        body: {
+          description: previous.description || '',
+          expiresOn: previousExpiry.toISOString(),
+          status: args.gracePeriodDays === 0 ? 'INACTIVE' : 'ACTIVE'
+        }
+      });
+
+      return { section, previous, previousExpiry, created, edgercUpdated };
+    },
+    {
+      format: 'text',
+      formatter: ({ section, previous, previousExpiry, created, edgercUpdated }) => {
+        let text = `🔄 **Credential rotated for ${args.clientId}**\n\n`;
+        text += `New Credential: ${created.credentialId} (${created.clientToken}), expires ${created.expiresOn}\n`;
+        text += args.gracePeriodDays === 0
+          ? `Old Credential: ${previous.credentialId} deactivated\n`
+          : `Old Credential: ${previous.credentialId} stays valid until ${previousExpiry.toISOString()}\n`;
+
+        if (edgercUpdated) {
+          text += `\n.edgerc section [${section}] now uses the new credential; ` +
+            `the old one is kept as [${section}-previous] for the grace period.\n`;
+        } else if (args.updateEdgerc) {
+          text += `\n.edgerc section [${section}] was not updated because the credential was only planned.\n`;
+        } else {
+          text += `\n⚠️ .edgerc was not updated. Store this secret now, it cannot be retrieved again:\n`;
+          text += `client_token = ${created.clientToken}\n`;
+          text += `client_secret = ${created.clientSecret}\n`;
+        }
+        return text;
+      }
+    }
+  );
+}
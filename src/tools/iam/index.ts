@@ -0,0 +1,176 @@
+/**
+ * IAM Domain Export Module
+ *
+ * Exports Identity & Access Management tools using the standard BaseTool pattern
+ */
+
+import {
+  listUsers,
+  getUser,
+  listRoles,
+  getRole,
+  listGroups,
+  getGroup,
+  listGroupAccess,
+  listApiClients,
+  getApiClient,
+  listCredentials,
+  grantRole,
+  revokeRole,
+  rotateCredential
+} from './iam-tools';
+import { IamToolSchemas } from './iam-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface IamTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * IAM Domain Tools with handlers
+ */
+export const iamTools: Record<string, IamTool> = {
+  // Users
+  'iam_user_list': {
+    name: 'iam_user_list',
+    description: 'List users, optionally only those with access to a group',
+    inputSchema: zodToJsonSchema(IamToolSchemas.listUsers),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.listUsers.parse(args);
+      return listUsers(validatedArgs);
+    }
+  },
+
+  'iam_user_get': {
+    name: 'iam_user_get',
+    description: 'Get a user with their role grants per group',
+    inputSchema: zodToJsonSchema(IamToolSchemas.getUser),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.getUser.parse(args);
+      return getUser(validatedArgs);
+    }
+  },
+
+  // Roles and Groups
+  'iam_role_list': {
+    name: 'iam_role_list',
+    description: 'List roles, optionally only those available in a group',
+    inputSchema: zodToJsonSchema(IamToolSchemas.listRoles),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.listRoles.parse(args);
+      return listRoles(validatedArgs);
+    }
+  },
+
+  'iam_role_get': {
+    name: 'iam_role_get',
+    description: 'Get a role with its granted roles and the users holding it',
+    inputSchema: zodToJsonSchema(IamToolSchemas.getRole),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.getRole.parse(args);
+      return getRole(validatedArgs);
+    }
+  },
+
+  'iam_group_list': {
+    name: 'iam_group_list',
+    description: 'List the group hierarchy',
+    inputSchema: zodToJsonSchema(IamToolSchemas.listGroups),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.listGroups.parse(args);
+      return listGroups(validatedArgs);
+    }
+  },
+
+  'iam_group_get': {
+    name: 'iam_group_get',
+    description: 'Get a group and its subgroups',
+    inputSchema: zodToJsonSchema(IamToolSchemas.getGroup),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.getGroup.parse(args);
+      return getGroup(validatedArgs);
+    }
+  },
+
+  'iam_group_access_list': {
+    name: 'iam_group_access_list',
+    description: 'Show who has access to a group and with which role, including roles inherited from parent groups',
+    inputSchema: zodToJsonSchema(IamToolSchemas.listGroupAccess),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.listGroupAccess.parse(args);
+      return listGroupAccess(validatedArgs);
+    }
+  },
+
+  // API Clients and Credentials
+  'iam_api_client_list': {
+    name: 'iam_api_client_list',
+    description: 'List API clients',
+    inputSchema: zodToJsonSchema(IamToolSchemas.listApiClients),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.listApiClients.parse(args);
+      return listApiClients(validatedArgs);
+    }
+  },
+
+  'iam_api_client_get': {
+    name: 'iam_api_client_get',
+    description: 'Get an API client (defaults to the client of the customer\'s .edgerc section)',
+    inputSchema: zodToJsonSchema(IamToolSchemas.getApiClient),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.getApiClient.parse(args);
+      return getApiClient(validatedArgs);
+    }
+  },
+
+  'iam_credential_list': {
+    name: 'iam_credential_list',
+    description: 'List an API client\'s credentials with status and expiry',
+    inputSchema: zodToJsonSchema(IamToolSchemas.listCredentials),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.listCredentials.parse(args);
+      return listCredentials(validatedArgs);
+    }
+  },
+
+  // Role Grants
+  'iam_user_role_grant': {
+    name: 'iam_user_role_grant',
+    description: 'Grant a user a role on a group, replacing their current role there',
+    inputSchema: zodToJsonSchema(IamToolSchemas.grantRole),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.grantRole.parse(args);
+      return grantRole(validatedArgs);
+    }
+  },
+
+  'iam_user_role_revoke': {
+    name: 'iam_user_role_revoke',
+    description: 'Revoke a user\'s access to a group',
+    inputSchema: zodToJsonSchema(IamToolSchemas.revokeRole),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.revokeRole.parse(args);
+      return revokeRole(validatedArgs);
+    }
+  },
+
+  // Credential Rotation
+  'iam_credential_rotate': {
+    name: 'iam_credential_rotate',
+    description: 'Rotate an API client credential: create a new one, write it to the matching .edgerc section and keep the old one valid for a grace period',
+    inputSchema: zodToJsonSchema(IamToolSchemas.rotateCredential),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = IamToolSchemas.rotateCredential.parse(args);
+      return rotateCredential(validatedArgs);
+    }
+  }
+};
+
+export default iamTools;
@@ -0,0 +1,166 @@
+/**
+ * Image & Video Manager API Implementation
+ *
+ * Policy sets and policies from Akamai's Image & Video Manager API
+ *
+ * API Documentation: https://techdocs.akamai.com/ivm/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for Image & Video Manager API
+ */
+export const IVM_API_BASE = '/imaging/v2';
+
+export type IvmNetwork = 'staging' | 'production';
+
+/**
+ * Image & Video Manager API Endpoints
+ *
+ * Policy set calls need a Contract header and policy calls a Policy-Set
+ * header as well (see ivmHeaders)
+ */
+export const ImageManagerEndpoints = {
+  policySets: () => `${IVM_API_BASE}/policysets`,
+  policySet: (policySetId: string) => `${IVM_API_BASE}/policysets/${policySetId}`,
+  policies: (network: IvmNetwork) => `${IVM_API_BASE}/network/${network}/policies`,
+  policy: (network: IvmNetwork, policyId: string) => `${IVM_API_BASE}/network/${network}/policies/${policyId}`,
+  policyHistory: (network: IvmNetwork, policyId: string) =>
+    `${IVM_API_BASE}/network/${network}/policies/history/${policyId}`,
+  policyRollback: (network: IvmNetwork, policyId: string) =>
+    `${IVM_API_BASE}/network/${network}/policies/rollback/${policyId}`
+};
+
+/**
+ * Headers that scope IVM requests to a contract and policy set
+ */
+export function ivmHeaders(contractId: string, policySetId?: string): Record<string, string> {
+  return {
+    Contract: contractId.replace(/^ctr_/, ''),
+    ...(policySetId && { 'Policy-Set': policySetId })
+  };
+}
+
+const ContractIdSchema = z.string().describe('Contract ID the policy sets belong to, e.g. C-0N7RAC7');
+const NetworkSchema = z.enum(['staging', 'production']).default('staging');
+const RegionSchema = z.enum(['US', 'EMEA', 'ASIA', 'AUSTRALIA', 'JAPAN', 'CHINA'])
+  .describe('Region where transformed images are cached and stored');
+
+const PolicyScope = {
+  contractId: ContractIdSchema,
+  policySetId: z.string().describe('Policy set ID'),
+  network: NetworkSchema
+};
+
+/**
+ * Image & Video Manager Tool Schemas
+ */
+export const ImageManagerToolSchemas = {
+  listPolicySets: CustomerSchema.extend({
+    contractId: ContractIdSchema,
+    network: NetworkSchema.optional().describe('Only policy sets with policies on this network')
+  }),
+
+  getPolicySet: CustomerSchema.extend({
+    contractId: ContractIdSchema,
+    policySetId: z.string().describe('Policy set ID')
+  }),
+
+  createPolicySet: CustomerSchema.extend({
+    contractId: ContractIdSchema,
+    name: z.string().min(1).describe('Policy set name'),
+    region: RegionSchema,
+    type: z.enum(['IMAGE', 'VIDEO']).describe('Media the policy set applies to'),
+    defaultPolicy: z.record(z.string(), z.unknown()).optional()
+      .describe('Default policy; validated locally before the policy set is created')
+  }),
+
+  updatePolicySet: CustomerSchema.extend({
+    contractId: ContractIdSchema,
+    policySetId: z.string().describe('Policy set ID'),
+    name: z.string().min(1).optional().describe('New name'),
+    region: RegionSchema.optional()
+  }),
+
+  listPolicies: CustomerSchema.extend(PolicyScope),
+
+  getPolicy: CustomerSchema.extend({
+    ...PolicyScope,
+    policyId: z.string().describe('Policy ID ("default" for the policy set default)')
+  }),
+
+  upsertPolicy: CustomerSchema.extend({
+    ...PolicyScope,
+    policyId: z.string().regex(/^[A-Za-z0-9_-]+$/).describe('Policy ID; created if it does not exist yet'),
+    policy: z.record(z.string(), z.unknown()).describe('Policy body: breakpoints, output, transformations, variables, ...')
+  }),
+
+  validatePolicy: z.object({
+    type: z.enum(['IMAGE', 'VIDEO']).default('IMAGE').describe('Policy set type the policy is for'),
+    policy: z.record(z.string(), z.unknown()).describe('Policy to validate')
+  }),
+
+  getPolicyHistory: CustomerSchema.extend({
+    ...PolicyScope,
+    policyId: z.string().describe('Policy ID')
+  }),
+
+  rollbackPolicy: CustomerSchema.extend({
+    ...PolicyScope,
+    policyId: z.string().describe('Policy ID to roll back to its previous version')
+  }),
+
+  attachProperty: CustomerSchema.extend({
+    propertyId: z.string().describe('Property ID (prp_*)'),
+    version: z.number().int().positive().describe('Editable property version'),
+    policySetId: z.string().describe('Policy set ID'),
+    policySetType: z.enum(['IMAGE', 'VIDEO']).default('IMAGE'),
+    cpCodeOriginal: z.number().int().positive().describe('CP code for requests for original images'),
+    cpCodeTransformed: z.number().int().positive()
+      .describe('CP code for transformed images; must be provisioned for Image & Video Manager'),
+    superCacheRegion: RegionSchema.default('US'),
+    defaultPolicy: z.string().default('default').describe('Policy applied when no im= policy is requested'),
+    ruleName: z.string().optional().describe('Child rule to add or update (defaults to "Image and Video Manager (Images|Videos)")')
+  }).refine(args => args.cpCodeOriginal !== args.cpCodeTransformed, {
+    message: 'cpCodeOriginal and cpCodeTransformed must be different CP codes'
+  })
+};
+
+/**
+ * Response types for Image & Video Manager operations
+ */
+export interface IvmPolicySet {
+  id: string;
+  name: string;
+  region: string;
+  type: 'IMAGE' | 'VIDEO';
+  user?: string;
+  lastModified?: string;
+  properties?: string[];
+}
+
+export interface IvmPolicy {
+  id: string;
+  version?: number;
+  previousVersion?: number;
+  dateCreated?: string;
+  user?: string;
+  rolloutInfo?: { startTime?: number; endTime?: number; rolloutDuration?: number };
+  [key: string]: unknown;
+}
+
+export interface IvmPolicyHistoryItem {
+  id: string;
+  version: number;
+  action: string;
+  user: string;
+  dateCreated: string;
+}
+
+export interface IvmPolicyResponse {
+  id: string;
+  operationPerformed: 'CREATED' | 'UPDATED' | 'DELETED' | 'ROLLBACK';
+  description: string;
+}
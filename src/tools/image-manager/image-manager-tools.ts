@@ -0,0 +1,354 @@
+/**
+ * Image & Video Manager Tools Implementation
+ *
+ * Tools for IVM policy sets and policies on staging and production: policy
+ * history and rollback, local policy validation, and adding the
+ * imageManager behavior to a property
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import { AkamaiClient } from '../../akamai-client';
+import type { RuleTree } from '../../types/akamai';
+import { PropertyEndpoints } from '../property/property-api-implementation';
+import { updatePropertyRules } from '../property/property-tools';
+import {
+  ImageManagerEndpoints,
+  ImageManagerToolSchemas,
+  ivmHeaders,
+  type IvmPolicy,
+  type IvmPolicyHistoryItem,
+  type IvmPolicyResponse,
+  type IvmPolicySet
+} from './image-manager-api-implementation';
+import { applyImageManagerBehavior, validateIvmPolicy, type IvmPolicySetType } from './ivm-policy';
+
+/**
+ * Reject a policy that fails local validation before it reaches the API
+ */
+function checkPolicy(policy: unknown, type: IvmPolicySetType): void {
+  const errors = validateIvmPolicy(policy, type);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${type.toLowerCase()} policy:\n${errors.map(error => `• ${error}`).join('\n')}`);
+  }
+}
+
+function formatPolicySet(policySet: IvmPolicySet): string {
+  let text = `🖼️ **${policySet.name}** (${policySet.id})\n`;
+  text += `Type: ${policySet.type} | Region: ${policySet.region}\n`;
+  if (policySet.lastModified) {
+    text += `Modified: ${policySet.lastModified}${policySet.user ? ` by ${policySet.user}` : ''}\n`;
+  }
+  if (policySet.properties?.length) {
+    text += `Properties: ${policySet.properties.join(', ')}\n`;
+  }
+  return text;
+}
+
+/**
+ * List policy sets
+ */
+export async function listPolicySets(args: z.infer<typeof ImageManagerToolSchemas.listPolicySets>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_set_list',
+    args,
+    async (client) => client.request<IvmPolicySet[]>({
+      path: ImageManagerEndpoints.policySets(),
+      method: 'GET',
+      headers: ivmHeaders(args.contractId),
+      ...(args.network && { queryParams: { network: args.network } })
+    }),
+    {
+      format: 'text',
+      formatter: (policySets) => {
+        let text = `🖼️ **IVM Policy Sets** (${policySets.length})\n\n`;
+        policySets.forEach(policySet => {
+          text += `• ${policySet.name} (${policySet.id}) | ${policySet.type} | ${policySet.region}\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `image-manager:policysets:${p.contractId}:${p.network ?? 'all'}`,
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get a policy set
+ */
+export async function getPolicySet(args: z.infer<typeof ImageManagerToolSchemas.getPolicySet>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_set_get',
+    args,
+    async (client) => client.request<IvmPolicySet>({
+      path: ImageManagerEndpoints.policySet(args.policySetId),
+      method: 'GET',
+      headers: ivmHeaders(args.contractId)
+    }),
+    {
+      format: 'text',
+      formatter: formatPolicySet
+    }
+  );
+}
+
+/**
+ * Create a policy set
+ */
+export async function createPolicySet(args: z.infer<typeof ImageManagerToolSchemas.createPolicySet>): Promise<MCPToolResponse> {
+  if (args.defaultPolicy) {
+    checkPolicy(args.defaultPolicy, args.type);
+  }
+
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_set_create',
+    args,
+    async (client) => client.request<IvmPolicySet>({
+      path: ImageManagerEndpoints.policySets(),
+      method: 'POST',
+      headers: ivmHeaders(args.contractId),
+      body: {
+        name: args.name,
+        region: args.region,
+        type: args.type,
+        ...(args.defaultPolicy && { defaultPolicy: args.defaultPolicy })
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (policySet) => `✅ Policy set created\n\n${formatPolicySet(policySet)}\n` +
+        'Attach it to a property with ivm_property_attach.'
+    }
+  );
+}
+
+/**
+ * Rename a policy set or change its region
+ */
+export async function updatePolicySet(args: z.infer<typeof ImageManagerToolSchemas.updatePolicySet>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_set_update',
+    args,
+    async (client) => {
+      const current = await client.request<IvmPolicySet>({
+        path: ImageManagerEndpoints.policySet(args.policySetId),
+        method: 'GET',
+        headers: ivmHeaders(args.contractId)
+      });
+      return client.request<IvmPolicySet>({
+        path: ImageManagerEndpoints.policySet(args.policySetId),
+        method: 'PUT',
+        headers: ivmHeaders(args.contractId),
+        body: {
+          name: args.name ?? current.name,
+          region: args.region ?? current.region
+        }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (policySet) => `✅ Policy set updated\n\n${formatPolicySet(policySet)}`
+    }
+  );
+}
+
+/**
+ * List the policies of a policy set on a network
+ */
+export async function listPolicies(args: z.infer<typeof ImageManagerToolSchemas.listPolicies>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_list',
+    args,
+    async (client) => client.request<{ items: IvmPolicy[] }>({
+      path: ImageManagerEndpoints.policies(args.network),
+      method: 'GET',
+      headers: ivmHeaders(args.contractId, args.policySetId)
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        const policies = result.items || [];
+        let text = `🖼️ **IVM Policies** in ${args.policySetId} on ${args.network} (${policies.length})\n\n`;
+        policies.forEach(policy => {
+          text += `• ${policy.id} | v${policy.version ?? '?'}` +
+            `${policy.dateCreated ? ` | ${policy.dateCreated}` : ''}${policy.user ? ` by ${policy.user}` : ''}\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Get a policy
+ */
+export async function getPolicy(args: z.infer<typeof ImageManagerToolSchemas.getPolicy>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_get',
+    args,
+    async (client) => client.request<IvmPolicy>({
+      path: ImageManagerEndpoints.policy(args.network, args.policyId),
+      method: 'GET',
+      headers: ivmHeaders(args.contractId, args.policySetId)
+    }),
+    {
+      format: 'text',
+      formatter: (policy) => `🖼️ **Policy ${policy.id}** on ${args.network} (v${policy.version ?? '?'})\n\n` +
+        `\`\`\`json\n${JSON.stringify(policy, null, 2)}\n\`\`\``
+    }
+  );
+}
+
+/**
+ * Create or update a policy after validating it against the policy set type
+ */
+export async function upsertPolicy(args: z.infer<typeof ImageManagerToolSchemas.upsertPolicy>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_upsert',
+    args,
+    async (client) => {
+      const policySet = await client.request<IvmPolicySet>({
+        path: ImageManagerEndpoints.policySet(args.policySetId),
+        method: 'GET',
+        headers: ivmHeaders(args.contractId)
+      });
+      checkPolicy(args.policy, policySet.type);
+
+      return client.request<IvmPolicyResponse>({
+        path: ImageManagerEndpoints.policy(args.network, args.policyId),
+        method: 'PUT',
+        headers: ivmHeaders(args.contractId, args.policySetId),
+        body: args.policy
+      });
+    },
+    {
+      format: 'text',
+      formatter: (result) => {
+        let text = `✅ Policy ${args.policyId} ${result.operationPerformed?.toLowerCase() || 'saved'} on ${args.network}\n`;
+        if (result.description) {
+          text += `${result.description}\n`;
+        }
+        text += '\nChanges roll out gradually over the policy\'s rolloutDuration. ' +
+          'Use ivm_policy_rollback to return to the previous version.';
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Validate a policy locally, without calling the API
+ */
+export async function validatePolicy(args: z.infer<typeof ImageManagerToolSchemas.validatePolicy>): Promise<MCPToolResponse> {
+  const errors = validateIvmPolicy(args.policy, args.type);
+  const text = errors.length === 0
+    ? `✅ ${args.type === 'VIDEO' ? 'Video' : 'Image'} policy is valid`
+    : `❌ Policy is invalid:\n${errors.map(error => `• ${error}`).join('\n')}`;
+
+  return {
+    content: [{ type: 'text', text }],
+    ...(errors.length > 0 && { isError: true })
+  };
+}
+
+/**
+ * Show a policy's version history
+ */
+export async function getPolicyHistory(args: z.infer<typeof ImageManagerToolSchemas.getPolicyHistory>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_history',
+    args,
+    async (client) => client.request<{ items: IvmPolicyHistoryItem[] }>({
+      path: ImageManagerEndpoints.policyHistory(args.network, args.policyId),
+      method: 'GET',
+      headers: ivmHeaders(args.contractId, args.policySetId)
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        const items = result.items || [];
+        let text = `🕘 **History of ${args.policyId}** on ${args.network} (${items.length})\n\n`;
+        items.forEach(item => {
+          text += `• v${item.version} | ${item.action} | ${item.dateCreated} by ${item.user}\n`;
+        });
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Roll a policy back to its previous version
+ */
+export async function rollbackPolicy(args: z.infer<typeof ImageManagerToolSchemas.rollbackPolicy>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'image-manager',
+    'ivm_policy_rollback',
+    args,
+    async (client) => client.request<IvmPolicyResponse>({
+      path: ImageManagerEndpoints.policyRollback(args.network, args.policyId),
+      method: 'POST',
+      headers: ivmHeaders(args.contractId, args.policySetId)
+    }),
+    {
+      format: 'text',
+      formatter: (result) => `✅ Policy ${args.policyId} rolled back on ${args.network}` +
+        `${result.description ? `\n${result.description}` : ''}`
+    }
+  );
+}
+
+/**
+ * Add the imageManager (or imageManagerVideo) behavior for a policy set to
+ * a property version. The transformed CP code is checked for the IVM
+ * product first; the rule tree is saved with property_rules_update, so rule
+ * validation and plan mode apply as for any other rule edit.
+ */
+export async function attachProperty(args: z.infer<typeof ImageManagerToolSchemas.attachProperty>): Promise<MCPToolResponse> {
+  const client = new AkamaiClient(args.customer || 'default');
+
+  const property = await client.request<{ properties: { items: Array<{ contractId: string; groupId: string }> } }>({
+    path: PropertyEndpoints.getProperty(args.propertyId),
+    method: 'GET'
+  });
+  const { contractId, groupId } = property.properties.items[0] || {};
+  if (!contractId || !groupId) {
+    throw new Error(`Property ${args.propertyId} not found`);
+  }
+
+  const cpcode = await client.request<{ cpcodes: { items: Array<{ cpcodeName: string; productIds: string[] }> } }>({
+    path: `/papi/v1/cpcodes/cpc_${args.cpCodeTransformed}`,
+    method: 'GET',
+    queryParams: { contractId, groupId }
+  });
+  const transformed = cpcode.cpcodes.items[0];
+  if (!transformed) {
+    throw new Error(`CP code ${args.cpCodeTransformed} not found in the property's contract and group`);
+  }
+  if (!transformed.productIds.some(productId => /image_and_video_manager|image_manager/i.test(productId))) {
+    throw new Error(`CP code ${args.cpCodeTransformed} (${transformed.cpcodeName}) is not provisioned for Image & Video Manager ` +
+      `(products: ${transformed.productIds.join(', ') || 'none'}). Create a CP code on the IVM product for transformed images.`);
+  }
+
+  const { rules } = await client.request<{ rules: RuleTree }>({
+    path: PropertyEndpoints.getPropertyRules(args.propertyId, args.version),
+    method: 'GET'
+  });
+
+  return updatePropertyRules({
+    ...(args.customer && { customer: args.customer }),
+    ...(args.dryRun && { dryRun: args.dryRun }),
+    propertyId: args.propertyId,
+    version: args.version,
+    rules: { ...applyImageManagerBehavior(rules, args) },
+    validateRules: true
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Image & Video Manager Domain Export Module
+ *
+ * Exports Image & Video Manager tools using the standard BaseTool pattern
+ */
+
+import {
+  listPolicySets,
+  getPolicySet,
+  createPolicySet,
+  updatePolicySet,
+  listPolicies,
+  getPolicy,
+  upsertPolicy,
+  validatePolicy,
+  getPolicyHistory,
+  rollbackPolicy,
+  attachProperty
+} from './image-manager-tools';
+import { ImageManagerToolSchemas } from './image-manager-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface ImageManagerTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * Image & Video Manager Domain Tools with handlers
+ */
+export const imageManagerTools: Record<string, ImageManagerTool> = {
+  // Policy Sets
+  'ivm_policy_set_list': {
+    name: 'ivm_policy_set_list',
+    description: 'List Image & Video Manager policy sets for a contract',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.listPolicySets),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.listPolicySets.parse(args);
+      return listPolicySets(validatedArgs);
+    }
+  },
+
+  'ivm_policy_set_get': {
+    name: 'ivm_policy_set_get',
+    description: 'Get an Image & Video Manager policy set',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.getPolicySet),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.getPolicySet.parse(args);
+      return getPolicySet(validatedArgs);
+    }
+  },
+
+  'ivm_policy_set_create': {
+    name: 'ivm_policy_set_create',
+    description: 'Create an image or video policy set, validating the default policy locally first',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.createPolicySet),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.createPolicySet.parse(args);
+      return createPolicySet(validatedArgs);
+    }
+  },
+
+  'ivm_policy_set_update': {
+    name: 'ivm_policy_set_update',
+    description: 'Rename a policy set or change its region',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.updatePolicySet),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.updatePolicySet.parse(args);
+      return updatePolicySet(validatedArgs);
+    }
+  },
+
+  // Policies
+  'ivm_policy_list': {
+    name: 'ivm_policy_list',
+    description: 'List the policies of a policy set on staging or production',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.listPolicies),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.listPolicies.parse(args);
+      return listPolicies(validatedArgs);
+    }
+  },
+
+  'ivm_policy_get': {
+    name: 'ivm_policy_get',
+    description: 'Get a policy from staging or production',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.getPolicy),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.getPolicy.parse(args);
+      return getPolicy(validatedArgs);
+    }
+  },
+
+  'ivm_policy_upsert': {
+    name: 'ivm_policy_upsert',
+    description: 'Create or update a policy after validating its transformations against the IVM policy schema',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.upsertPolicy),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.upsertPolicy.parse(args);
+      return upsertPolicy(validatedArgs);
+    }
+  },
+
+  'ivm_policy_validate': {
+    name: 'ivm_policy_validate',
+    description: 'Validate an image or video policy locally without calling the API',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.validatePolicy),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.validatePolicy.parse(args);
+      return validatePolicy(validatedArgs);
+    }
+  },
+
+  'ivm_policy_history': {
+    name: 'ivm_policy_history',
+    description: 'Show the version history of a policy',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.getPolicyHistory),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.getPolicyHistory.parse(args);
+      return getPolicyHistory(validatedArgs);
+    }
+  },
+
+  'ivm_policy_rollback': {
+    name: 'ivm_policy_rollback',
+    description: 'Roll a policy back to its previous version',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.rollbackPolicy),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.rollbackPolicy.parse(args);
+      return rollbackPolicy(validatedArgs);
+    }
+  },
+
+  // Property Attachment
+  'ivm_property_attach': {
+    name: 'ivm_property_attach',
+    description: 'Add the imageManager behavior for a policy set to a property version, checking the transformed CP code is on the IVM product',
+    inputSchema: zodToJsonSchema(ImageManagerToolSchemas.attachProperty),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = ImageManagerToolSchemas.attachProperty.parse(args);
+      return attachProperty(validatedArgs);
+    }
+  }
+};
+
+export default imageManagerTools;
@@ -0,0 +1,410 @@
+/**
+ * Image & Video Manager Policy Validation
+ *
+ * Local checks of IVM policies against the policy schema: transformation
+ * names and their parameters, output settings, breakpoints, variable
+ * references and which transformations may run after breakpoints. Also
+ * adds the imageManager behavior to a property rule tree.
+ */
+
+import { z } from 'zod';
+import type { Behavior, Criterion, RuleTree } from '../../types/akamai';
+
+/**
+ * Reference to a policy variable, usable in place of most values
+ */
+const VariableRef = z.strictObject({ var: z.string().min(1) });
+
+const num = z.union([z.number(), VariableRef]);
+const str = z.union([z.string(), VariableRef]);
+const bool = z.union([z.boolean(), VariableRef]);
+const gravity = z.union([
+  z.enum(['North', 'NorthEast', 'NorthWest', 'South', 'SouthEast', 'SouthWest', 'Center', 'East', 'West']),
+  VariableRef
+]);
+
+/**
+ * Image source for Append and Composite: a URL, text or a shape
+ */
+const ImageSource = z.looseObject({
+  type: z.enum(['URL', 'Text', 'Box', 'Circle']),
+  url: str.optional(),
+  text: str.optional()
+});
+
+export interface ImageTransformation {
+  transformation: string;
+  [key: string]: unknown;
+}
+
+const Transformation: z.ZodType<ImageTransformation> = z.lazy(() => z.discriminatedUnion('transformation', [
+  z.strictObject({
+    transformation: z.literal('Append'),
+    image: ImageSource,
+    gravity: gravity.optional(),
+    gravityPriority: z.union([z.enum(['horizontal', 'vertical']), VariableRef]).optional(),
+    preserveMinorDimension: bool.optional()
+  }),
+  z.strictObject({
+    transformation: z.literal('AspectCrop'),
+    width: num.optional(),
+    height: num.optional(),
+    xPosition: num.optional(),
+    yPosition: num.optional(),
+    allowExpansion: bool.optional()
+  }),
+  z.strictObject({ transformation: z.literal('BackgroundColor'), color: str }),
+  z.strictObject({ transformation: z.literal('Blur'), sigma: num.optional() }),
+  z.looseObject({ transformation: z.literal('ChromaKey') }),
+  z.strictObject({
+    transformation: z.literal('Composite'),
+    image: ImageSource,
+    placement: z.union([z.enum(['Over', 'Under', 'Mask', 'Stencil']), VariableRef]).optional(),
+    xPosition: num.optional(),
+    yPosition: num.optional(),
+    gravity: gravity.optional(),
+    scale: num.optional(),
+    scaleDimension: z.union([z.enum(['width', 'height']), VariableRef]).optional()
+  }),
+  z.strictObject({ transformation: z.literal('Compound'), transformations: z.array(Transformation) }),
+  z.strictObject({ transformation: z.literal('Contrast'), contrast: num.optional(), brightness: num.optional() }),
+  z.strictObject({
+    transformation: z.literal('Crop'),
+    width: num,
+    height: num,
+    xPosition: num.optional(),
+    yPosition: num.optional(),
+    gravity: gravity.optional(),
+    allowExpansion: bool.optional()
+  }),
+  z.looseObject({ transformation: z.literal('FaceCrop') }),
+  z.looseObject({ transformation: z.literal('FeatureCrop') }),
+  z.strictObject({
+    transformation: z.literal('FitAndFill'),
+    width: num,
+    height: num,
+    fillTransformation: Transformation.optional()
+  }),
+  z.strictObject({
+    transformation: z.literal('Goop'),
+    chaos: num.optional(),
+    density: num.optional(),
+    power: num.optional(),
+    seed: num.optional()
+  }),
+  z.strictObject({
+    transformation: z.literal('Grayscale'),
+    type: z.union([z.enum(['Rec601', 'Rec709', 'Brightness', 'Lightness']), VariableRef]).optional()
+  }),
+  z.strictObject({ transformation: z.literal('HSL'), hue: num.optional(), saturation: num.optional(), lightness: num.optional() }),
+  z.strictObject({ transformation: z.literal('HSV'), hue: num.optional(), saturation: num.optional(), value: num.optional() }),
+  z.strictObject({
+    transformation: z.literal('IfDimension'),
+    dimension: z.union([z.enum(['width', 'height', 'both']), VariableRef]).optional(),
+    value: num,
+    lessThan: Transformation.optional(),
+    greaterThan: Transformation.optional(),
+    equal: Transformation.optional(),
+    default: Transformation.optional()
+  }),
+  z.strictObject({
+    transformation: z.literal('IfOrientation'),
+    landscape: Transformation.optional(),
+    portrait: Transformation.optional(),
+    square: Transformation.optional(),
+    default: Transformation.optional()
+  }),
+  z.strictObject({
+    transformation: z.literal('ImQuery'),
+    allowedTransformations: z.array(z.string()).min(1),
+    query: VariableRef
+  }),
+  z.strictObject({ transformation: z.literal('MaxColors'), colors: num }),
+  z.strictObject({ transformation: z.literal('Mirror'), horizontal: bool.optional(), vertical: bool.optional() }),
+  z.strictObject({ transformation: z.literal('MonoHue'), hue: num.optional() }),
+  z.strictObject({ transformation: z.literal('Opacity'), opacity: num }),
+  z.looseObject({ transformation: z.literal('RegionOfInterestCrop') }),
+  z.strictObject({
+    transformation: z.literal('RelativeCrop'),
+    northPush: num.optional(),
+    eastPush: num.optional(),
+    southPush: num.optional(),
+    westPush: num.optional()
+  }),
+  z.strictObject({ transformation: z.literal('RemoveColor'), color: str, tolerance: num.optional(), feather: num.optional() }),
+  z.strictObject({
+    transformation: z.literal('Resize'),
+    width: num.optional(),
+    height: num.optional(),
+    aspect: z.union([z.enum(['fit', 'stretch', 'ignore']), VariableRef]).optional(),
+    type: z.union([z.enum(['normal', 'upsize', 'downsize']), VariableRef]).optional()
+  }).refine(resize => resize.width !== undefined || resize.height !== undefined, {
+    message: 'Resize needs a width or a height'
+  }),
+  z.strictObject({ transformation: z.literal('Rotate'), degrees: num }),
+  z.strictObject({ transformation: z.literal('Scale'), width: num, height: num }),
+  z.strictObject({ transformation: z.literal('Shear'), xShear: num.optional(), yShear: num.optional() }),
+  z.strictObject({
+    transformation: z.literal('SmartCrop'),
+    width: num.optional(),
+    height: num.optional(),
+    sloppy: bool.optional(),
+    style: z.union([z.enum(['fill', 'attention', 'entropy']), VariableRef]).optional(),
+    debug: bool.optional()
+  }),
+  z.strictObject({ transformation: z.literal('Trim'), fuzz: num.optional(), padding: num.optional() }),
+  z.strictObject({ transformation: z.literal('UnsharpMask'), sigma: num.optional(), gain: num.optional(), threshold: num.optional() })
+]));
+
+/**
+ * Transformations that change image dimensions, which IVM does not allow
+ * after breakpoints are applied
+ */
+const DIMENSION_TRANSFORMATIONS = new Set([
+  'Append', 'AspectCrop', 'Crop', 'FaceCrop', 'FeatureCrop', 'FitAndFill', 'RegionOfInterestCrop',
+  'RelativeCrop', 'Resize', 'Rotate', 'Scale', 'Shear', 'SmartCrop', 'Trim'
+]);
+
+const PerceptualQuality = z.union([z.enum(['high', 'mediumHigh', 'medium', 'mediumLow', 'low']), VariableRef]);
+
+const Variable = z.strictObject({
+  name: z.string().min(1),
+  type: z.enum([
+    'bool', 'number', 'url', 'color', 'gravity', 'placement', 'scaleDimension', 'grayscaleType',
+    'aspectFit', 'resizeType', 'dimension', 'perceptualQuality', 'string', 'focus'
+  ]),
+  defaultValue: z.string(),
+  enumOptions: z.array(z.strictObject({ id: z.string(), value: z.string() })).optional(),
+  prefix: z.string().optional(),
+  postfix: z.string().optional()
+});
+
+const Breakpoints = z.strictObject({
+  widths: z.array(z.number().int().positive().max(5000)).min(1)
+});
+
+/**
+ * Rollout is spread over 1 hour to 7 days
+ */
+const RolloutDuration = z.number().int().min(3600).max(604800);
+
+/**
+ * Fields the API adds to a saved policy; accepted so a fetched policy can
+ * be edited and sent back
+ */
+const ReadOnlyFields = {
+  id: z.string().optional(),
+  version: z.number().optional(),
+  previousVersion: z.number().optional(),
+  dateCreated: z.string().optional(),
+  user: z.string().optional()
+};
+
+export const ImagePolicySchema = z.strictObject({
+  ...ReadOnlyFields,
+  breakpoints: Breakpoints.optional(),
+  hosts: z.array(z.string()).optional(),
+  output: z.strictObject({
+    perceptualQuality: PerceptualQuality.optional(),
+    perceptualQualityFloor: PerceptualQuality.optional(),
+    quality: z.union([z.number().int().min(1).max(100), VariableRef]).optional(),
+    adaptiveQuality: z.number().int().min(1).max(100).optional(),
+    allowedFormats: z.array(z.enum(['avif', 'gif', 'jpeg', 'jpeg2000', 'jpegxr', 'png', 'webp'])).optional(),
+    forcedFormats: z.array(z.enum(['avif', 'gif', 'jpeg', 'jpeg2000', 'jpegxr', 'png', 'webp'])).optional()
+  }).refine(output => output.perceptualQuality === undefined || output.quality === undefined, {
+    message: 'Use perceptualQuality or quality, not both'
+  }).optional(),
+  transformations: z.array(Transformation).optional(),
+  postBreakpointTransformations: z.array(Transformation).optional(),
+  variables: z.array(Variable).optional(),
+  rolloutDuration: RolloutDuration.optional(),
+  serveStaleDuration: z.number().int().min(0).optional()
+});
+
+export const VideoPolicySchema = z.strictObject({
+  ...ReadOnlyFields,
+  breakpoints: Breakpoints.optional(),
+  hosts: z.array(z.string()).optional(),
+  output: z.strictObject({
+    perceptualQuality: PerceptualQuality.optional(),
+    placeholderVideoUrl: str.optional()
+  }).optional(),
+  variables: z.array(Variable).optional(),
+  rolloutDuration: RolloutDuration.optional()
+});
+
+export type IvmPolicySetType = 'IMAGE' | 'VIDEO';
+
+/**
+ * Validate a policy locally
+ *
+ * @returns Problems as "path: message", empty when the policy is valid
+ */
+export function validateIvmPolicy(policy: unknown, type: IvmPolicySetType): string[] {
+  const schema = type === 'VIDEO' ? VideoPolicySchema : ImagePolicySchema;
+  const result = schema.safeParse(policy);
+  const errors = result.success
+    ? []
+    : result.error.issues.map(issue => `${formatPath(issue.path) || 'policy'}: ${describeIssue(issue)}`);
+
+  if (!policy || typeof policy !== 'object') {
+    return errors;
+  }
+
+  const record = policy as Record<string, unknown>;
+  const defined = new Set(
+    Array.isArray(record['variables'])
+      ? (record['variables'] as Array<{ name?: unknown }>).map(variable => String(variable?.name))
+      : []
+  );
+  for (const { path, name } of findVariableRefs(record)) {
+    if (!defined.has(name)) {
+      errors.push(`${formatPath(path)}: Variable '${name}' is not defined in variables`);
+    }
+  }
+
+  if (Array.isArray(record['postBreakpointTransformations'])) {
+    for (const { path, name } of findTransformations(record['postBreakpointTransformations'], ['postBreakpointTransformations'])) {
+      if (DIMENSION_TRANSFORMATIONS.has(name)) {
+        errors.push(`${formatPath(path)}: ${name} changes image dimensions and cannot run after breakpoints`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Collect { var } references anywhere in a policy, except the variable
+ * definitions themselves
+ */
+function findVariableRefs(value: unknown, path: PropertyKey[] = []): Array<{ path: PropertyKey[]; name: string }> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findVariableRefs(item, [...path, index]));
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record);
+  if (keys.length === 1 && keys[0] === 'var' && typeof record['var'] === 'string') {
+    return [{ path, name: record['var'] }];
+  }
+
+  return keys
+    .filter(key => !(path.length === 0 && key === 'variables'))
+    .flatMap(key => findVariableRefs(record[key], [...path, key]));
+}
+
+/**
+ * Collect transformation names, including those nested in Compound and
+ * conditional transformations
+ */
+function findTransformations(value: unknown, path: PropertyKey[]): Array<{ path: PropertyKey[]; name: string }> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findTransformations(item, [...path, index]));
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const own = typeof record['transformation'] === 'string' ? [{ path, name: record['transformation'] }] : [];
+  return [
+    ...own,
+    ...Object.entries(record)
+      .filter(([, child]) => child && typeof child === 'object')
+      .flatMap(([key, child]) => findTransformations(child, [...path, key]))
+  ];
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map((segment, index) =>
+    typeof segment === 'number' ? `[${segment}]` : `${index === 0 ? '' : '.'}${String(segment)}`).join('');
+}
+
+function describeIssue(issue: z.core.$ZodIssue): string {
+  if (issue.code === 'invalid_union' && issue.path.length > 0 && issue.errors.length === 0) {
+    return 'Unknown transformation';
+  }
+  if (issue.code === 'unrecognized_keys') {
+    return `Unknown parameter${issue.keys.length > 1 ? 's' : ''} ${issue.keys.join(', ')}`;
+  }
+  return issue.message;
+}
+
+/**
+ * File extensions served through each policy set type
+ */
+export const IVM_FILE_EXTENSIONS: Record<IvmPolicySetType, string[]> = {
+  IMAGE: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'jp2', 'jxr', 'tif', 'tiff', 'bmp'],
+  VIDEO: ['mp4', 'webm', 'mov', 'm4v']
+};
+
+export interface ImageManagerBehaviorOptions {
+  policySetId: string;
+  policySetType: IvmPolicySetType;
+  cpCodeOriginal: number;
+  cpCodeTransformed: number;
+  superCacheRegion: 'US' | 'EMEA' | 'ASIA' | 'AUSTRALIA' | 'JAPAN' | 'CHINA';
+  defaultPolicy?: string;
+  ruleName?: string;
+}
+
+/**
+ * Rule tree with an Image & Video Manager child rule for the policy set,
+ * matching the policy set type's file extensions. An existing rule of the
+ * same name is updated in place.
+ */
+export function applyImageManagerBehavior(rules: RuleTree, options: ImageManagerBehaviorOptions): RuleTree {
+  const isVideo = options.policySetType === 'VIDEO';
+  const ruleName = options.ruleName || `Image and Video Manager (${isVideo ? 'Videos' : 'Images'})`;
+  const behaviorName = isVideo ? 'imageManagerVideo' : 'imageManager';
+
+  const children = rules.children || [];
+  const existing = children.find(child => child.name === ruleName);
+  const existingBehavior = existing?.behaviors?.find(behavior => behavior.name === behaviorName);
+
+  const behavior: Behavior = {
+    name: behaviorName,
+    options: {
+      ...existingBehavior?.options,
+      enabled: true,
+      resize: false,
+      applyBestFileType: true,
+      superCacheRegion: options.superCacheRegion,
+      cpCodeOriginal: { id: options.cpCodeOriginal },
+      cpCodeTransformed: { id: options.cpCodeTransformed },
+      useExistingPolicySet: true,
+      policySet: options.policySetId,
+      policyTokenDefault: options.defaultPolicy || 'default'
+    }
+  };
+
+  const criterion: Criterion = {
+    name: 'fileExtension',
+    options: {
+      matchOperator: 'IS_ONE_OF',
+      values: IVM_FILE_EXTENSIONS[options.policySetType],
+      matchCaseSensitive: false
+    }
+  };
+
+  const rule: RuleTree = {
+    ...existing,
+    name: ruleName,
+    children: existing?.children || [],
+    criteria: existing?.criteria?.length ? existing.criteria : [criterion],
+    behaviors: existingBehavior
+      ? (existing?.behaviors || []).map(item => (item === existingBehavior ? behavior : item))
+      : [...(existing?.behaviors || []), behavior]
+  };
+
+  return {
+    ...rules,
+    children: existing
+      ? children.map(child => (child === existing ? rule : child))
+      : [...children, rule]
+  };
+}
@@ -8,6 +8,7 @@
 import { consolidatedIncludeTools } from './consolidated-include-tools';
 import { z } from 'zod';
 import { type MCPToolResponse } from '../../types';
+import { ApprovalControlSchema } from '../common/validators';
 
 /**
  * Include tool definitions for ALECSCore registration
@@ -103,7 +104,8 @@ export const includeTools = {
       network: z.enum(['STAGING', 'PRODUCTION']),
       notes: z.string().optional(),
       notifyEmails: z.array(z.string()).optional(),
-      customer: z.string().optional()
+      customer: z.string().optional(),
+      ...ApprovalControlSchema.shape
     }),
     handler: async (args: any): Promise<MCPToolResponse> => 
       consolidatedIncludeTools.activateInclude(args)
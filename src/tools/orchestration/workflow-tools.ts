@@ -14,9 +14,17 @@ import {
   type MCPToolResponse
 } from '../common';
 import { AkamaiClient } from '../../akamai-client';
-import { WorkflowEngine, WorkflowState } from '../../orchestration/workflow-engine';
+import {
+  WorkflowEngine,
+  WorkflowState,
+  type PersistedWorkflowExecution,
+  type WorkflowExecution
+} from '../../orchestration/workflow-engine';
 import { MCPToolExecutor } from '../../orchestration/mcp-tool-executor';
 import { WORKFLOW_TEMPLATES, generateMultiPropertyActivation } from '../../orchestration/workflow-templates';
+import { createWorkflowStoreFromEnv } from '../../orchestration/workflow-store';
+import { loadWorkflowDefinitions, type WorkflowLoadError } from '../../orchestration/workflow-loader';
+import { getToolByName } from '../tools-registry';
 import { logger } from '../../utils/pino-logger';
 
 // Initialize workflow engine singleton
@@ -25,7 +33,11 @@ let workflowEngine: WorkflowEngine | null = null;
 function getWorkflowEngine(client: AkamaiClient): WorkflowEngine {
   if (!workflowEngine) {
     const executor = new MCPToolExecutor(client);
-    workflowEngine = new WorkflowEngine(executor, client);
+    workflowEngine = new WorkflowEngine(
+      executor,
+      client,
+      createWorkflowStoreFromEnv<PersistedWorkflowExecution>('engine')
+    );
     
     // Register all templates
     Object.values(WORKFLOW_TEMPLATES).forEach(template => {
@@ -36,16 +48,66 @@ function getWorkflowEngine(client: AkamaiClient): WorkflowEngine {
     
     logger.info('Workflow engine initialized with templates');
   }
+  syncWorkflowFiles(workflowEngine);
   return workflowEngine;
 }
 
+// Workflows registered from ALECS_WORKFLOW_DIR by the last sync
+let fileWorkflowIds = new Set<string>();
+let fileWorkflowErrors: WorkflowLoadError[] = [];
+
+/**
+ * Register the definitions in ALECS_WORKFLOW_DIR, picking up added,
+ * changed and removed files without a restart
+ */
+function syncWorkflowFiles(engine: WorkflowEngine): void {
+  const directory = process.env['ALECS_WORKFLOW_DIR'];
+  if (!directory) {
+    return;
+  }
+
+  const { workflows, errors } = loadWorkflowDefinitions(directory, getToolByName);
+  const registered = new Map(engine.listWorkflows().map(w => [w.id, w]));
+  const loaded = new Set<string>();
+
+  for (const workflow of workflows) {
+    if (Object.values(WORKFLOW_TEMPLATES).some(template => template.id === workflow.id)) {
+      errors.push({
+        file: workflow.metadata?.['source'],
+        errors: [`Workflow ID '${workflow.id}' is reserved by a built-in template`]
+      });
+      continue;
+    }
+    if (JSON.stringify(registered.get(workflow.id)) !== JSON.stringify(workflow)) {
+      engine.registerWorkflow(workflow);
+    }
+    loaded.add(workflow.id);
+  }
+
+  for (const id of fileWorkflowIds) {
+    if (!loaded.has(id)) {
+      engine.unregisterWorkflow(id);
+    }
+  }
+
+  if (errors.length > 0 && JSON.stringify(errors) !== JSON.stringify(fileWorkflowErrors)) {
+    logger.warn({ errors }, `Skipped ${errors.length} invalid workflow definition file(s)`);
+  }
+  fileWorkflowIds = loaded;
+  fileWorkflowErrors = errors;
+}
+
 /**
  * Workflow execution schemas
  */
 const ExecuteWorkflowSchema = CustomerSchema.extend({
-  workflowId: z.string().describe('ID of the workflow template to execute'),
-  context: z.record(z.any()).describe('Context variables for the workflow'),
-  dryRun: z.boolean().optional().describe('Validate without executing')
+  workflowId: z.string().optional().describe('ID of the workflow template to execute'),
+  context: z.record(z.any()).optional().describe('Context variables for the workflow'),
+  dryRun: z.boolean().optional().describe('Validate without executing'),
+  executionId: z.string().optional().describe('Interrupted or failed execution to recover instead of starting a new one'),
+  recovery: z.enum(['resume', 'retry', 'rollback']).optional()
+    .describe('resume: continue after the last completed step; retry: re-run fromStep and its dependents; rollback: undo completed steps'),
+  fromStep: z.string().optional().describe('Step to retry from (with recovery=retry)')
 });
 
 const SiteMigrationSchema = CustomerSchema.extend({
@@ -63,7 +125,9 @@ const ZeroDowntimeSchema = CustomerSchema.extend({
   newRules: z.object({}).describe('New rule configuration'),
   testHostname: z.string().describe('Hostname for staging tests'),
   notificationEmail: z.string().email().describe('Email for notifications'),
-  cpcodes: z.array(z.string()).optional().describe('CP codes to purge after deployment')
+  cpcodes: z.array(z.string()).optional().describe('CP codes to purge after deployment'),
+  testSuiteIds: z.array(z.number().int().positive()).optional()
+    .describe('Test Center suites that must pass on staging before the production activation')
 });
 
 const MultiPropertySchema = CustomerSchema.extend({
@@ -82,12 +146,64 @@ const WorkflowStatusSchema = CustomerSchema.extend({
 });
 
 const ListWorkflowsSchema = CustomerSchema.extend({
-  state: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  state: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled', 'interrupted', 'rolled_back']).optional(),
   limit: z.number().int().min(1).max(100).default(10)
 });
 
 /**
- * Execute a workflow template
+ * Recovery options for an interrupted or failed execution
+ */
+function describeRecovery(engine: WorkflowEngine, execution: WorkflowExecution) {
+  if (execution.state !== WorkflowState.INTERRUPTED && execution.state !== WorkflowState.FAILED) {
+    return undefined;
+  }
+
+  const workflow = engine.getExecutionWorkflow(execution.id);
+  const steps = Array.from(execution.steps.values());
+  const failedStep = steps.find(step => step.state === 'failed');
+  return {
+    completedSteps: steps.filter(step => step.state === 'completed').map(step => step.stepId),
+    stepsNeedingRollback: workflow?.steps
+      .filter(step => step.rollback && execution.steps.get(step.id)?.state === 'completed')
+      .map(step => step.id) || [],
+    options: [
+      `workflow_execute executionId=${execution.id} recovery=resume`,
+      `workflow_execute executionId=${execution.id} recovery=retry fromStep=${failedStep?.stepId || '<stepId>'}`,
+      `workflow_execute executionId=${execution.id} recovery=rollback`
+    ]
+  };
+}
+
+/**
+ * Summarize an execution after it ran
+ */
+function formatExecutionResult(execution: WorkflowExecution): MCPToolResponse {
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        state: execution.state,
+        startedAt: execution.startedAt,
+        completedAt: execution.completedAt,
+        currentStep: execution.currentStep,
+        steps: Array.from(execution.steps.entries()).map(([id, step]) => ({
+          id,
+          state: step.state,
+          attempts: step.attempts,
+          error: step.error?.message
+        })),
+        result: execution.state === WorkflowState.COMPLETED ? 
+          'Workflow completed successfully' : 
+          execution.error?.message || 'Workflow in progress'
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Execute a workflow template, or recover an existing execution
  */
 async function executeWorkflow(
   client: AkamaiClient,
@@ -95,6 +211,26 @@ async function executeWorkflow(
 ): Promise<MCPToolResponse> {
   try {
     const engine = getWorkflowEngine(client);
+
+    if (args.executionId) {
+      switch (args.recovery || 'resume') {
+        case 'rollback':
+          return formatExecutionResult(await engine.rollbackExecution(args.executionId));
+        case 'retry':
+          if (!args.fromStep) {
+            throw new Error('fromStep is required with recovery=retry');
+          }
+          return formatExecutionResult(
+            await engine.resumeExecution(args.executionId, { fromStep: args.fromStep })
+          );
+        default:
+          return formatExecutionResult(await engine.resumeExecution(args.executionId));
+      }
+    }
+
+    if (!args.workflowId) {
+      throw new Error('Either workflowId or executionId is required');
+    }
     
     if (args.dryRun) {
       // Validate workflow exists
@@ -137,30 +273,9 @@ async function executeWorkflow(
     }
     
     // Execute workflow
-    const execution = await engine.executeWorkflow(args.workflowId, args.context);
+    const execution = await engine.executeWorkflow(args.workflowId, args.context || {});
     
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          executionId: execution.id,
-          workflowId: execution.workflowId,
-          state: execution.state,
-          startedAt: execution.startedAt,
-          completedAt: execution.completedAt,
-          currentStep: execution.currentStep,
-          steps: Array.from(execution.steps.entries()).map(([id, step]) => ({
-            id,
-            state: step.state,
-            attempts: step.attempts,
-            error: step.error?.message
-          })),
-          result: execution.state === WorkflowState.COMPLETED ? 
-            'Workflow completed successfully' : 
-            execution.error?.message || 'Workflow in progress'
-        }, null, 2)
-      }]
-    };
+    return formatExecutionResult(execution);
   } catch (error: any) {
     return {
       content: [{
@@ -240,6 +355,7 @@ async function executeZeroDowntimeDeployment(
       test_hostname: args.testHostname,
       notification_email: args.notificationEmail,
       cpcodes: args.cpcodes || [],
+      test_suite_ids: args.testSuiteIds || [],
       customer: args.customer
     };
     
@@ -392,7 +508,8 @@ async function getWorkflowStatus(
             error: step.error?.message,
             result: step.state === 'completed' ? 'Success' : null
           })),
-          error: execution.error?.message
+          error: execution.error?.message,
+          recovery: describeRecovery(engine, execution)
         }, null, 2)
       }]
     };
@@ -435,8 +552,10 @@ async function listWorkflows(
             description: w.description,
             version: w.version,
             steps: w.steps.length,
-            rollbackStrategy: w.rollbackStrategy
+            rollbackStrategy: w.rollbackStrategy,
+            source: w.metadata?.['source'] || 'built-in'
           })),
+          invalidDefinitions: fileWorkflowErrors.length > 0 ? fileWorkflowErrors : undefined,
           recentExecutions: executions.map(e => ({
             executionId: e.id,
             workflowId: e.workflowId,
@@ -446,7 +565,9 @@ async function listWorkflows(
             duration: e.completedAt ?
               `${(e.completedAt.getTime() - e.startedAt.getTime()) / 1000}s` :
               'In progress'
-          }))
+          })),
+          interruptedExecutions: engine.listExecutions({ state: WorkflowState.INTERRUPTED })
+            .map(e => e.id)
         }, null, 2)
       }]
     };
@@ -497,7 +618,7 @@ async function cancelWorkflow(
 export class OrchestrationTools {
   private static tools = {
     'workflow_execute': {
-      description: 'Execute a workflow template with context variables',
+      description: 'Execute a workflow template with context variables, or resume, retry or roll back an interrupted execution',
       inputSchema: ExecuteWorkflowSchema,
       handler: executeWorkflow
     },
@@ -19,6 +19,7 @@ import {
 import { consolidatedPropertyTools } from './consolidated-property-tools';
 import { z } from 'zod';
 import { type MCPToolResponse } from '../../types';
+import { ApprovalControlSchema } from '../common/validators';
 
 /**
  * Property tool definitions for ALECSCore registration
@@ -161,7 +162,8 @@ export const propertyTools = {
       complianceRecord: z.object({
         noncomplianceReason: z.string().optional()
       }).optional(),
-      customer: z.string().optional()
+      customer: z.string().optional(),
+      ...ApprovalControlSchema.shape
     }),
     handler: async (_client: any, args: any): Promise<MCPToolResponse> => 
       activateProperty(args)
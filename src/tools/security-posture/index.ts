@@ -0,0 +1,38 @@
+/**
+ * Security Posture Domain Export Module
+ *
+ * Exports the security posture report using the standard BaseTool pattern
+ */
+
+import { postureReport } from './security-posture-tools';
+import { SecurityPostureToolSchemas } from './security-posture-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface SecurityPostureTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * Security Posture Domain Tools with handlers
+ */
+export const securityPostureTools: Record<string, SecurityPostureTool> = {
+  // Reports
+  'security_posture_report': {
+    name: 'security_posture_report',
+    description: 'Score every property hostname against a security checklist (WAF deny, rate controls, bot management, TLS minimum, HSTS, Site Shield, stale network lists) with remediation steps, as Markdown, CSV or JSON',
+    inputSchema: zodToJsonSchema(SecurityPostureToolSchemas.postureReport),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = SecurityPostureToolSchemas.postureReport.parse(args);
+      return postureReport(validatedArgs);
+    }
+  }
+};
+
+export default securityPostureTools;
@@ -0,0 +1,44 @@
+/**
+ * Security Posture API Implementation
+ *
+ * Schemas and types for the security posture report, which reads AppSec
+ * configuration exports, network lists and property rule trees.
+ *
+ * API Documentation: https://techdocs.akamai.com/application-security/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Network Lists API Endpoints
+ */
+export const SecurityPostureEndpoints = {
+  networkLists: () => '/network-list/v2/network-lists'
+};
+
+/**
+ * Security Posture Tool Schemas
+ */
+export const SecurityPostureToolSchemas = {
+  postureReport: CustomerSchema.extend({
+    contractId: z.string().optional().describe('Only properties of this contract'),
+    groupId: z.string().optional().describe('Only properties of this group'),
+    staleDays: z.number().int().min(1).optional().default(180)
+      .describe('Network lists not updated for this many days count as stale'),
+    failingOnly: z.boolean().optional().default(false).describe('Only hostnames that fail or warn on a check'),
+    format: z.enum(['markdown', 'csv', 'json']).optional().default('markdown')
+  })
+};
+
+/**
+ * Network list metadata from the Network Lists API
+ */
+export interface PostureNetworkList {
+  uniqueId: string;
+  name: string;
+  type?: string;
+  elementCount?: number;
+  updateDate?: string;
+  productionActivationStatus?: string;
+}
@@ -0,0 +1,192 @@
+/**
+ * Security Posture Tools Implementation
+ *
+ * Walks every security configuration, network list and property of an
+ * account and scores each property hostname against the security checklist
+ * in security-posture.ts. Remediation steps come with the integration
+ * guidance and deployment checklist of the consolidated security tools.
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import type { RuleTree } from '../../types/akamai';
+import { getCacheService } from '../../services/unified-cache-service';
+import { consolidatedSecurityTools } from '../security/consolidated-security-tools';
+import { PropertyEndpoints } from '../property/property-api-implementation';
+import {
+  AppSecConfigEndpoints,
+  type AppSecConfigExport
+} from '../appsec-config/appsec-config-api-implementation';
+import {
+  SecurityPostureEndpoints,
+  SecurityPostureToolSchemas,
+  type PostureNetworkList
+} from './security-posture-api-implementation';
+import {
+  type PostureCheckId,
+  type PostureProperty,
+  type PostureReport,
+  buildPostureMatrix,
+  buildRemediationPlan,
+  renderPostureCsv,
+  renderPostureMarkdown
+} from './security-posture';
+
+// Integration guidance policy type for the checks it covers
+const GUIDANCE_POLICY_TYPES: Partial<Record<PostureCheckId, string>> = {
+  waf_deny: 'waf',
+  rate_controls: 'waf',
+  bot_management: 'bot-manager',
+  network_lists: 'network-list'
+};
+
+/**
+ * Exports of the configuration versions active in production
+ */
+async function fetchProductionConfigs(client: AkamaiClient): Promise<AppSecConfigExport[]> {
+  const { configurations = [] } = await client.request<{
+    configurations?: Array<{ id: number; productionVersion?: number }>;
+  }>({
+    path: AppSecConfigEndpoints.configs(),
+    method: 'GET'
+  });
+
+  const exports: AppSecConfigExport[] = [];
+  for (const config of configurations) {
+    if (config.productionVersion) {
+      exports.push(await client.request<AppSecConfigExport>({
+        path: AppSecConfigEndpoints.exportVersion(config.id, config.productionVersion),
+        method: 'GET'
+      }));
+    }
+  }
+  return exports;
+}
+
+async function fetchNetworkLists(client: AkamaiClient): Promise<PostureNetworkList[]> {
+  const { networkLists = [] } = await client.request<{ networkLists?: PostureNetworkList[] }>({
+    path: SecurityPostureEndpoints.networkLists(),
+    method: 'GET',
+    queryParams: { extended: 'true', includeElements: 'false' }
+  });
+  return networkLists;
+}
+
+/**
+ * Property hostnames with the rule tree of the version active in production
+ * (or the latest version when none is active)
+ */
+async function fetchProperties(
+  client: AkamaiClient,
+  args: z.infer<typeof SecurityPostureToolSchemas.postureReport>
+): Promise<PostureProperty[]> {
+  const customer = args.customer || 'default';
+  const cache = await getCacheService();
+  const properties = (await cache.getProperties(client, customer))
+    .filter(property => (!args.contractId || property.contractId === args.contractId) &&
+      (!args.groupId || property.groupId === args.groupId));
+
+  const result: PostureProperty[] = [];
+  for (const property of properties) {
+    const hostnames = (await cache.getPropertyHostnames(client, property, customer))
+      .map(hostname => hostname.cnameFrom)
+      .filter((hostname): hostname is string => !!hostname);
+    if (hostnames.length === 0) {
+      continue;
+    }
+
+    const version = property.productionVersion || property.latestVersion;
+    let rules: RuleTree | undefined;
+    if (version) {
+      try {
+        ({ rules } = await client.request<{ rules: RuleTree }>({
+          path: PropertyEndpoints.getPropertyRules(property.propertyId, version),
+          method: 'GET',
+          queryParams: { contractId: property.contractId, groupId: property.groupId }
+        }));
+      } catch {
+        // The rule tree checks are reported as unavailable for this property
+        rules = undefined;
+      }
+    }
+    result.push({
+      propertyId: property.propertyId,
+      propertyName: property.propertyName,
+      ...(version && { version }),
+      hostnames,
+      ...(rules && { rules })
+    });
+  }
+  return result;
+}
+
+function parseToolJson<T>(response: MCPToolResponse): T | undefined {
+  try {
+    return JSON.parse(String(response.content?.[0]?.text)) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Score every property hostname against the security checklist
+ */
+export async function postureReport(
+  args: z.infer<typeof SecurityPostureToolSchemas.postureReport>
+): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_posture_report',
+    args,
+    async (client) => {
+      const configs = await fetchProductionConfigs(client);
+      const networkLists = await fetchNetworkLists(client);
+      const properties = await fetchProperties(client, args);
+
+      const matrix = buildPostureMatrix(properties, configs, networkLists, args.staleDays);
+      const remediation = buildRemediationPlan(matrix);
+
+      const guidance: PostureReport['guidance'] = {};
+      const practices = new Map<string, string[]>();
+      for (const check of [...new Set(remediation.map(entry => entry.check))]) {
+        const policyType = GUIDANCE_POLICY_TYPES[check];
+        if (!policyType) {
+          continue;
+        }
+        if (!practices.has(policyType)) {
+          const response = await consolidatedSecurityTools.getSecurityPolicyIntegrationGuidance({
+            policyType,
+            targetEnvironment: 'production',
+            ...(args.customer && { customer: args.customer })
+          });
+          const parsed = parseToolJson<{ guidance?: { bestPractices?: string[] } }>(response);
+          practices.set(policyType, parsed?.guidance?.bestPractices || []);
+        }
+        guidance[check] = practices.get(policyType) || [];
+      }
+
+      // Only lists a policy uses need to go through a deployment
+      const staleInUse = matrix.staleNetworkLists.filter(list => list.referencedBy.length > 0).map(list => list.uniqueId);
+      let networkListChecklist: PostureReport['networkListChecklist'] = [];
+      if (staleInUse.length > 0) {
+        const response = await consolidatedSecurityTools.generateDeploymentChecklist({
+          networkListIds: staleInUse,
+          targetNetwork: 'production',
+          ...(args.customer && { customer: args.customer })
+        });
+        networkListChecklist = (parseToolJson<{ checklist?: Array<{ step: number; task: string }> }>(response)?.checklist || [])
+          .map(item => ({ step: item.step, task: item.task }));
+      }
+
+      const rows = args.failingOnly
+        ? matrix.rows.filter(row => Object.values(row.checks).some(check => check.status !== 'pass'))
+        : matrix.rows;
+      const report: PostureReport = { ...matrix, rows, remediation, guidance, networkListChecklist };
+      return report;
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : { format: 'text', formatter: args.format === 'csv' ? renderPostureCsv : renderPostureMarkdown }
+  );
+}
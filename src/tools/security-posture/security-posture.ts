@@ -0,0 +1,554 @@
+/**
+ * Security Posture Scoring
+ *
+ * Scores every property hostname against a security checklist: the AppSec
+ * policy that serves it (WAF actions, rate controls, bot management, network
+ * lists) and the property rule tree (minimum TLS version, HSTS, Site Shield).
+ */
+
+import type { RuleTree } from '../../types/akamai';
+import type { AppSecConfigExport, AppSecExportPolicy } from '../appsec-config/appsec-config-api-implementation';
+import { hostnameMatches } from '../appsec-policy/hostname-coverage';
+import type { PostureNetworkList } from './security-posture-api-implementation';
+
+export type PostureCheckId =
+  | 'waf_deny'
+  | 'rate_controls'
+  | 'bot_management'
+  | 'tls_minimum'
+  | 'hsts'
+  | 'site_shield'
+  | 'network_lists';
+
+export type PostureStatus = 'pass' | 'warn' | 'fail';
+
+export const POSTURE_CHECKS: Record<PostureCheckId, string> = {
+  waf_deny: 'WAF deny',
+  rate_controls: 'Rate controls',
+  bot_management: 'Bot management',
+  tls_minimum: 'TLS minimum',
+  hsts: 'HSTS',
+  site_shield: 'Site Shield',
+  network_lists: 'Network lists'
+};
+
+const CHECK_IDS = Object.keys(POSTURE_CHECKS) as PostureCheckId[];
+
+const STATUS_POINTS: Record<PostureStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+const STATUS_ICONS: Record<PostureStatus, string> = { pass: '✅', warn: '⚠️', fail: '❌' };
+
+// TLS versions a client can negotiate, oldest first
+const TLS_VERSIONS = ['1.0', '1.1', '1.2', '1.3'];
+
+export interface PostureCheckResult {
+  status: PostureStatus;
+  detail: string;
+  remediation?: string;
+}
+
+export interface PostureProperty {
+  propertyId: string;
+  propertyName: string;
+  // Version whose rule tree was assessed
+  version?: number;
+  hostnames: string[];
+  rules?: RuleTree;
+}
+
+export interface PostureRow {
+  hostname: string;
+  propertyId: string;
+  propertyName: string;
+  configId?: number;
+  configName?: string;
+  policyId?: string;
+  policyName?: string;
+  checks: Record<PostureCheckId, PostureCheckResult>;
+  // Percentage: pass counts fully, warn half
+  score: number;
+}
+
+export interface StaleNetworkList {
+  uniqueId: string;
+  name: string;
+  reasons: string[];
+  referencedBy: string[];
+}
+
+export interface PostureMatrix {
+  rows: PostureRow[];
+  summary: Record<PostureCheckId, Record<PostureStatus, number>>;
+  averageScore: number;
+  staleNetworkLists: StaleNetworkList[];
+}
+
+export interface PostureRemediation {
+  check: PostureCheckId;
+  step: string;
+  hostnames: string[];
+}
+
+export interface PostureReport extends PostureMatrix {
+  remediation: PostureRemediation[];
+  // Best practices per check from the security policy integration guidance
+  guidance: Partial<Record<PostureCheckId, string[]>>;
+  // Deployment checklist for updating stale network lists
+  networkListChecklist: Array<{ step: number; task: string }>;
+}
+
+/**
+ * Why a network list is stale, if it is
+ */
+export function staleNetworkListReasons(list: PostureNetworkList, staleDays: number, now = Date.now()): string[] {
+  const reasons: string[] = [];
+  if (list.elementCount === 0) {
+    reasons.push('empty');
+  }
+  if (list.updateDate) {
+    const days = Math.floor((now - new Date(list.updateDate).getTime()) / 86400000);
+    if (days > staleDays) {
+      reasons.push(`not updated for ${days} days`);
+    }
+  }
+  if (list.productionActivationStatus === 'INACTIVE') {
+    reasons.push('not active in production');
+  }
+  return reasons;
+}
+
+/**
+ * Network list IDs a policy references, in its IP/Geo firewall or elsewhere
+ */
+export function policyNetworkListIds(policy: AppSecExportPolicy): string[] {
+  const ids = new Set<string>();
+  const visit = (value: unknown, key = ''): void => {
+    if (Array.isArray(value)) {
+      value.forEach(item => (key === 'networkList' && typeof item === 'string' ? ids.add(item) : visit(item)));
+      return;
+    }
+    if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+    }
+  };
+  visit(policy);
+  return [...ids];
+}
+
+/**
+ * Policy that serves a hostname in a configuration export
+ * Website match targets are tried in sequence order; a target without
+ * hostnames applies to every selected hostname.
+ */
+export function policyForHostname(config: AppSecConfigExport, hostname: string): AppSecExportPolicy | undefined {
+  if (!(config.selectedHosts || []).some(selected => hostnameMatches(selected, hostname))) {
+    return undefined;
+  }
+  const target = [...(config.matchTargets?.websiteTargets || [])]
+    .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))
+    .find(candidate => !candidate.hostnames?.length ||
+      candidate.hostnames.some(selected => hostnameMatches(selected, hostname)));
+  const policyId = target?.securityPolicy?.policyId;
+  return policyId ? (config.securityPolicies || []).find(policy => policy.id === policyId) : undefined;
+}
+
+function isDeny(action: string | undefined): boolean {
+  return !!action && (action === 'deny' || action.startsWith('deny_custom'));
+}
+
+function assessWaf(policy: AppSecExportPolicy, where: string): PostureCheckResult {
+  const remediation = `Set attack groups to deny with security_waf_attack_group_configure (${where})`;
+  if (policy.securityControls?.['applyApplicationLayerControls'] === false) {
+    return {
+      status: 'fail',
+      detail: 'WAF protection is off',
+      remediation: `Turn on applyApplicationLayerControls with security_policy_protections_update (${where})`
+    };
+  }
+  const groups = policy.webApplicationFirewall?.attackGroupActions || [];
+  if (groups.length === 0) {
+    return { status: 'warn', detail: 'No attack group actions in the configuration', remediation };
+  }
+  const alerting = groups.filter(group => !isDeny(group.action)).map(group => group.group);
+  if (alerting.length === 0) {
+    return { status: 'pass', detail: `All ${groups.length} attack groups deny` };
+  }
+  return {
+    status: alerting.length === groups.length ? 'fail' : 'warn',
+    detail: `${alerting.length} of ${groups.length} attack groups do not deny: ${alerting.join(', ')}`,
+    remediation
+  };
+}
+
+function assessRateControls(policy: AppSecExportPolicy, where: string): PostureCheckResult {
+  if (policy.securityControls?.['applyRateControls'] === false) {
+    return {
+      status: 'fail',
+      detail: 'Rate controls are off',
+      remediation: `Turn on applyRateControls with security_policy_protections_update (${where})`
+    };
+  }
+  const actions = (policy.ratePolicyActions || []).map(action => [action.ipv4Action, action.ipv6Action]);
+  const enabled = actions.filter(pair => pair.some(action => action && action !== 'none'));
+  if (enabled.length === 0) {
+    return {
+      status: 'fail',
+      detail: 'No rate policies enabled',
+      remediation: `Add rate policies with security_rate_control_create (${where})`
+    };
+  }
+  const denying = enabled.filter(pair => pair.some(isDeny)).length;
+  return denying > 0
+    ? { status: 'pass', detail: `${enabled.length} rate policies, ${denying} deny` }
+    : {
+      status: 'warn',
+      detail: `${enabled.length} rate policies, all alert only`,
+      remediation: `Set rate policy actions to deny with security_rate_control_update (${where})`
+    };
+}
+
+function assessBotManagement(policy: AppSecExportPolicy, where: string): PostureCheckResult {
+  return policy.securityControls?.['applyBotmanControls'] === true
+    ? { status: 'pass', detail: 'Bot management on' }
+    : {
+      status: 'fail',
+      detail: 'Bot management off',
+      remediation: `Turn on applyBotmanControls with security_policy_protections_update, then set bot category actions (${where})`
+    };
+}
+
+function assessNetworkLists(
+  policy: AppSecExportPolicy,
+  lists: Map<string, PostureNetworkList>,
+  staleReasons: Map<string, string[]>
+): PostureCheckResult {
+  const ids = policyNetworkListIds(policy);
+  if (ids.length === 0) {
+    return { status: 'pass', detail: 'No network lists referenced' };
+  }
+  const stale = ids.filter(id => !lists.has(id) || staleReasons.has(id));
+  if (stale.length === 0) {
+    return { status: 'pass', detail: `${ids.length} network lists, none stale` };
+  }
+  const described = stale.map(id => {
+    const list = lists.get(id);
+    return list ? `${list.name} (${(staleReasons.get(id) || []).join(', ')})` : `${id} (not found)`;
+  });
+  return {
+    status: 'warn',
+    detail: `Stale network lists: ${described.join('; ')}`,
+    remediation: `Update stale network lists with security_network_list_update and activate them with security_network_list_activate, or remove them from policy ${policy.id}`
+  };
+}
+
+/**
+ * TLS versions a matchVariable criterion on AK_TLS_VERSION selects
+ */
+function tlsVersionsSelected(options: Record<string, unknown>): string[] {
+  const values = Array.isArray(options['variableValues'])
+    ? options['variableValues'].filter((value): value is string => typeof value === 'string')
+    : typeof options['variableExpression'] === 'string' ? [options['variableExpression']] : [];
+  const named = values
+    .map(value => /(\d)(?:\.(\d))?\s*$/.exec(value))
+    .filter((match): match is RegExpExecArray => !!match && !/ssl/i.test(match.input))
+    .map(match => `${match[1]}.${match[2] ?? '0'}`);
+  const operator = String(options['matchOperator'] || 'IS_ONE_OF');
+  return operator.startsWith('IS_NOT')
+    ? TLS_VERSIONS.filter(version => !named.includes(version))
+    : named.filter(version => TLS_VERSIONS.includes(version));
+}
+
+function rulesOf(rules: RuleTree): RuleTree[] {
+  return [rules, ...(rules.children || []).flatMap(rulesOf)];
+}
+
+/**
+ * Lowest TLS version the rule tree accepts
+ * Denying old versions is done with a matchVariable criterion on
+ * AK_TLS_VERSION and a denyAccess behavior in the rule or a child rule.
+ */
+function assessTlsMinimum(rules: RuleTree): PostureCheckResult {
+  const denied = new Set<string>();
+  const denyingRules: string[] = [];
+  for (const rule of rulesOf(rules)) {
+    const criteria = (rule.criteria || []).filter(criterion =>
+      criterion.name === 'matchVariable' && criterion.options['variableName'] === 'AK_TLS_VERSION');
+    const denies = rulesOf(rule).some(child => (child.behaviors || []).some(behavior =>
+      behavior.name === 'denyAccess' && behavior.options['enabled'] !== false));
+    if (criteria.length === 0 || !denies) {
+      continue;
+    }
+    criteria.flatMap(criterion => tlsVersionsSelected(criterion.options)).forEach(version => denied.add(version));
+    denyingRules.push(rule.name);
+  }
+
+  const minimum = TLS_VERSIONS.find(version => !denied.has(version)) || TLS_VERSIONS[TLS_VERSIONS.length - 1];
+  const remediation = 'Deny TLSv1 and TLSv1.1: add a rule matching AK_TLS_VERSION with a denyAccess behavior ' +
+    '(property_rules_update), or raise the certificate\'s minimum TLS version';
+  if (minimum === '1.2' || minimum === '1.3') {
+    return { status: 'pass', detail: `TLSv${minimum} minimum (rule ${denyingRules.join(', ')})` };
+  }
+  return denyingRules.length === 0
+    ? { status: 'fail', detail: 'No rule denies TLSv1 or TLSv1.1', remediation }
+    : { status: 'warn', detail: `TLSv${minimum} still accepted (rule ${denyingRules.join(', ')})`, remediation };
+}
+
+function assessHsts(rules: RuleTree): PostureCheckResult {
+  const behaviors = rulesOf(rules).flatMap(rule => rule.behaviors || []);
+  const hsts = behaviors.find(behavior => behavior.name === 'httpStrictTransportSecurity' && behavior.options['enable'] === true);
+  if (hsts) {
+    const maxAge = String(hsts.options['maxAge'] || '');
+    return maxAge === 'ONE_YEAR'
+      ? { status: 'pass', detail: 'HSTS on, max-age one year' }
+      : {
+        status: 'warn',
+        detail: `HSTS on, max-age ${maxAge || 'not set'}`,
+        remediation: 'Raise the httpStrictTransportSecurity maxAge to ONE_YEAR'
+      };
+  }
+  const header = behaviors.some(behavior => behavior.name === 'modifyOutgoingResponseHeader' &&
+    /strict-transport-security/i.test(String(behavior.options['customHeaderName'] || '')));
+  return header
+    ? { status: 'pass', detail: 'Strict-Transport-Security set by a response header behavior' }
+    : {
+      status: 'fail',
+      detail: 'No HSTS',
+      remediation: 'Add the httpStrictTransportSecurity behavior (enable, maxAge ONE_YEAR) with property_rules_update'
+    };
+}
+
+function assessSiteShield(rules: RuleTree): PostureCheckResult {
+  const siteShield = rulesOf(rules)
+    .flatMap(rule => rule.behaviors || [])
+    .find(behavior => behavior.name === 'siteShield' && behavior.options['ssmap']);
+  if (!siteShield) {
+    return {
+      status: 'fail',
+      detail: 'Origin not behind Site Shield',
+      remediation: 'Add the siteShield behavior with a map from siteshield_map_list, then firewall the origin to the map\'s CIDRs (siteshield_map_export)'
+    };
+  }
+  const map = siteShield.options['ssmap'] as { name?: string; value?: string };
+  return { status: 'pass', detail: `Site Shield map ${map.name || map.value || ''}`.trim() };
+}
+
+function unavailable(detail: string, remediation: string): PostureCheckResult {
+  return { status: 'fail', detail, remediation };
+}
+
+function scoreOf(checks: Record<PostureCheckId, PostureCheckResult>): number {
+  const points = CHECK_IDS.reduce((total, id) => total + STATUS_POINTS[checks[id].status], 0);
+  return Math.round((points / CHECK_IDS.length) * 100);
+}
+
+/**
+ * Posture matrix of every property hostname
+ * Configurations should be the versions active in production; a hostname
+ * selected by several configurations is assessed against the first.
+ */
+export function buildPostureMatrix(
+  properties: PostureProperty[],
+  configs: AppSecConfigExport[],
+  networkLists: PostureNetworkList[],
+  staleDays: number,
+  now = Date.now()
+): PostureMatrix {
+  const lists = new Map(networkLists.map(list => [list.uniqueId, list]));
+  const staleReasons = new Map<string, string[]>();
+  networkLists.forEach(list => {
+    const reasons = staleNetworkListReasons(list, staleDays, now);
+    if (reasons.length > 0) {
+      staleReasons.set(list.uniqueId, reasons);
+    }
+  });
+
+  const rows = properties.flatMap(property => [...new Set(property.hostnames.map(host => host.toLowerCase()))]
+    .sort()
+    .map((hostname): PostureRow => {
+      const selecting = configs.filter(config => (config.selectedHosts || []).some(selected => hostnameMatches(selected, hostname)));
+      const config = selecting.find(candidate => policyForHostname(candidate, hostname)) || selecting[0];
+      const policy = config && policyForHostname(config, hostname);
+
+      let appsec: Pick<Record<PostureCheckId, PostureCheckResult>, 'waf_deny' | 'rate_controls' | 'bot_management' | 'network_lists'>;
+      if (config && policy) {
+        const where = `config ${config.configId} policy ${policy.id}`;
+        appsec = {
+          waf_deny: assessWaf(policy, where),
+          rate_controls: assessRateControls(policy, where),
+          bot_management: assessBotManagement(policy, where),
+          network_lists: assessNetworkLists(policy, lists, staleReasons)
+        };
+      } else {
+        const result = config
+          ? unavailable(
+            `Selected in config ${config.configId} but no match target applies a policy`,
+            `Add a website match target with security_match_target_create (config ${config.configId})`
+          )
+          : unavailable(
+            'Not protected by a security configuration active in production',
+            'Add the hostname with security_selected_hostnames_update and activate the configuration'
+          );
+        // The remediation is listed once, under the WAF check
+        const { remediation: _remediation, ...withoutRemediation } = result;
+        appsec = {
+          waf_deny: result,
+          rate_controls: withoutRemediation,
+          bot_management: withoutRemediation,
+          network_lists: withoutRemediation
+        };
+      }
+
+      const missingRules: PostureCheckResult = { status: 'warn', detail: 'Rule tree not available' };
+      const ruleTree = property.rules
+        ? { tls_minimum: assessTlsMinimum(property.rules), hsts: assessHsts(property.rules), site_shield: assessSiteShield(property.rules) }
+        : { tls_minimum: missingRules, hsts: missingRules, site_shield: missingRules };
+
+      const checks = { ...appsec, ...ruleTree };
+      return {
+        hostname,
+        propertyId: property.propertyId,
+        propertyName: property.propertyName,
+        ...(config && { configId: config.configId }),
+        ...(config?.configName && { configName: config.configName }),
+        ...(policy && { policyId: policy.id }),
+        ...(policy?.name && { policyName: policy.name }),
+        checks,
+        score: scoreOf(checks)
+      };
+    }));
+
+  const summary = Object.fromEntries(CHECK_IDS.map(id => [id, { pass: 0, warn: 0, fail: 0 }])) as PostureMatrix['summary'];
+  rows.forEach(row => CHECK_IDS.forEach(id => {
+    summary[id][row.checks[id].status]++;
+  }));
+
+  const staleNetworkLists: StaleNetworkList[] = [...staleReasons.entries()].map(([uniqueId, reasons]) => ({
+    uniqueId,
+    name: lists.get(uniqueId)?.name || uniqueId,
+    reasons,
+    referencedBy: configs.flatMap(config => (config.securityPolicies || [])
+      .filter(policy => policyNetworkListIds(policy).includes(uniqueId))
+      .map(policy => `config ${config.configId} policy ${policy.id}`))
+  }));
+
+  return {
+    rows,
+    summary,
+    averageScore: rows.length === 0 ? 0 : Math.round(rows.reduce((total, row) => total + row.score, 0) / rows.length),
+    staleNetworkLists
+  };
+}
+
+/**
+ * Remediation steps with the hostnames each one fixes, worst checks first
+ */
+export function buildRemediationPlan(matrix: PostureMatrix): PostureRemediation[] {
+  const steps = new Map<string, PostureRemediation>();
+  matrix.rows.forEach(row => CHECK_IDS.forEach(check => {
+    const result = row.checks[check];
+    if (result.status === 'pass' || !result.remediation) {
+      return;
+    }
+    const key = `${check}\n${result.remediation}`;
+    const entry = steps.get(key) || { check, step: result.remediation, hostnames: [] };
+    if (!entry.hostnames.includes(row.hostname)) {
+      entry.hostnames.push(row.hostname);
+    }
+    steps.set(key, entry);
+  }));
+  return [...steps.values()].sort((a, b) =>
+    CHECK_IDS.indexOf(a.check) - CHECK_IDS.indexOf(b.check) || b.hostnames.length - a.hostnames.length);
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+export function renderPostureMarkdown(report: PostureReport): string {
+  let text = '# Security Posture Report\n\n' +
+    `${report.rows.length} hostnames, average score ${report.averageScore}%\n\n` +
+    '| Check | Pass | Warn | Fail |\n| --- | --- | --- | --- |\n';
+  CHECK_IDS.forEach(id => {
+    const counts = report.summary[id];
+    text += `| ${POSTURE_CHECKS[id]} | ${counts.pass} | ${counts.warn} | ${counts.fail} |\n`;
+  });
+
+  text += `\n## Hostnames\n\n| Hostname | Property | Policy | ${CHECK_IDS.map(id => POSTURE_CHECKS[id]).join(' | ')} | Score |\n` +
+    `| --- | --- | --- | ${CHECK_IDS.map(() => '---').join(' | ')} | --- |\n`;
+  report.rows.forEach(row => {
+    const policy = row.policyId ? `${row.configName || row.configId} / ${row.policyName || row.policyId}` : '—';
+    text += `| ${row.hostname} | ${markdownCell(row.propertyName)} | ${markdownCell(policy)} | ` +
+      `${CHECK_IDS.map(id => STATUS_ICONS[row.checks[id].status]).join(' | ')} | ${row.score}% |\n`;
+  });
+
+  const findings = report.rows.filter(row => CHECK_IDS.some(id => row.checks[id].status !== 'pass'));
+  if (findings.length > 0) {
+    text += '\n## Findings\n';
+    findings.forEach(row => {
+      text += `\n**${row.hostname}**\n`;
+      CHECK_IDS.filter(id => row.checks[id].status !== 'pass').forEach(id => {
+        text += `- ${STATUS_ICONS[row.checks[id].status]} ${POSTURE_CHECKS[id]}: ${row.checks[id].detail}\n`;
+      });
+    });
+  }
+
+  if (report.remediation.length > 0) {
+    text += '\n## Remediation\n';
+    CHECK_IDS.filter(id => report.remediation.some(entry => entry.check === id)).forEach(id => {
+      text += `\n### ${POSTURE_CHECKS[id]}\n\n`;
+      report.remediation.filter(entry => entry.check === id).forEach(entry => {
+        const hostnames = entry.hostnames.length > 5
+          ? `${entry.hostnames.slice(0, 5).join(', ')} and ${entry.hostnames.length - 5} more`
+          : entry.hostnames.join(', ');
+        text += `1. ${entry.step} — ${hostnames}\n`;
+      });
+      const practices = report.guidance[id] || [];
+      if (practices.length > 0) {
+        text += `\nBest practices:\n${practices.map(practice => `- ${practice}`).join('\n')}\n`;
+      }
+    });
+  }
+
+  if (report.staleNetworkLists.length > 0) {
+    text += '\n## Stale Network Lists\n\n';
+    report.staleNetworkLists.forEach(list => {
+      text += `- ${list.name} (${list.uniqueId}): ${list.reasons.join(', ')}` +
+        `${list.referencedBy.length > 0 ? `; used by ${list.referencedBy.join(', ')}` : '; not used by any policy'}\n`;
+    });
+    if (report.networkListChecklist.length > 0) {
+      text += '\nUpdate checklist:\n';
+      report.networkListChecklist.forEach(item => {
+        text += `${item.step}. ${item.task}\n`;
+      });
+    }
+  }
+  return text;
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per hostname: a status column per check, then the findings and
+ * remediation steps of the checks that did not pass
+ */
+export function renderPostureCsv(report: PostureReport): string {
+  const header = ['hostname', 'propertyId', 'propertyName', 'configId', 'policyId', ...CHECK_IDS, 'score', 'findings', 'remediation'];
+  const lines = report.rows.map(row => {
+    const open = CHECK_IDS.filter(id => row.checks[id].status !== 'pass');
+    return [
+      row.hostname,
+      row.propertyId,
+      row.propertyName,
+      row.configId,
+      row.policyId,
+      ...CHECK_IDS.map(id => row.checks[id].status),
+      row.score,
+      open.map(id => `${POSTURE_CHECKS[id]}: ${row.checks[id].detail}`).join('; '),
+      [...new Set(open.map(id => row.checks[id].remediation).filter((step): step is string => !!step))].join('; ')
+    ].map(csvField).join(',');
+  });
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
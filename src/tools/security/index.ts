@@ -9,6 +9,7 @@
 import { consolidatedSecurityTools } from './consolidated-security-tools';
 import { z } from 'zod';
 import { type MCPToolResponse } from '../../types';
+import { ApprovalControlSchema } from '../common/validators';
 
 /**
  * Security tool definitions for ALECSCore registration
@@ -76,7 +77,8 @@ export const securityTools = {
       network: z.enum(['STAGING', 'PRODUCTION']),
       comments: z.string().optional(),
       notificationRecipients: z.array(z.string()).optional(),
-      customer: z.string().optional()
+      customer: z.string().optional(),
+      ...ApprovalControlSchema.shape
     }),
     handler: async (args: any): Promise<MCPToolResponse> => 
       consolidatedSecurityTools.activateNetworkList(args)
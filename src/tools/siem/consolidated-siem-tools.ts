@@ -48,6 +48,38 @@ const SIEMReplaySchema = CustomerSchema.extend({
   limit: z.number().int().min(1000).max(600000).default(50000),
 });
 
+/**
+ * Fetch one batch of events for a security configuration
+ * The response is JSONL whose last line carries the offset metadata.
+ */
+export async function fetchSIEMEventBatch(
+  client: AkamaiClient,
+  configId: string,
+  params: Record<string, string>
+): Promise<{ events: any[]; offset: string | null }> {
+  const response = await client.request({
+    path: `/siem/v1/configs/${configId}/events`,
+    method: 'GET',
+    queryParams: params
+  });
+
+  // Parse JSONL response (newline-delimited JSON)
+  const events = (response as string).split('\n')
+    .filter(Boolean)
+    .map((line: string) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+
+  // Last line contains offset metadata
+  const offsetData = events.pop();
+  return { events, offset: offsetData?.offset || null };
+}
+
 /**
  * SIEM Event Fetch handler
  */
@@ -74,28 +106,9 @@ async function fetchSIEMEvents(
       let nextOffset = null;
 
       for (const configId of args.configIds) {
-        const response = await client.request({
-          path: `/siem/v1/configs/${configId}/events`,
-          method: 'GET',
-          queryParams: params
-        });
-        
-        // Parse JSONL response (newline-delimited JSON)
-        const events = (response as string).split('\n')
-          .filter(Boolean)
-          .map((line: string) => {
-            try {
-              return JSON.parse(line);
-            } catch {
-              return null;
-            }
-          })
-          .filter(Boolean);
-
-        // Last line contains offset metadata
-        const offsetData = events.pop();
-        if (offsetData && offsetData.offset) {
-          nextOffset = offsetData.offset;
+        const { events, offset } = await fetchSIEMEventBatch(client, configId, params);
+        if (offset) {
+          nextOffset = offset;
         }
 
         allEvents.push(...events);
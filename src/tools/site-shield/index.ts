@@ -0,0 +1,85 @@
+/**
+ * Site Shield Domain Export Module
+ *
+ * Exports Site Shield tools using the standard BaseTool pattern
+ */
+
+import {
+  listMaps,
+  getMap,
+  diffMap,
+  acknowledgeMap,
+  exportMap
+} from './site-shield-tools';
+import { SiteShieldToolSchemas } from './site-shield-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface SiteShieldTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * Site Shield Domain Tools with handlers
+ */
+export const siteShieldTools: Record<string, SiteShieldTool> = {
+  // Maps
+  'siteshield_map_list': {
+    name: 'siteshield_map_list',
+    description: 'List Site Shield maps and flag those with proposed CIDR changes awaiting acknowledgement',
+    inputSchema: zodToJsonSchema(SiteShieldToolSchemas.listMaps),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = SiteShieldToolSchemas.listMaps.parse(args);
+      return listMaps(validatedArgs);
+    }
+  },
+
+  'siteshield_map_get': {
+    name: 'siteshield_map_get',
+    description: 'Get a Site Shield map with its current and proposed CIDR blocks',
+    inputSchema: zodToJsonSchema(SiteShieldToolSchemas.getMap),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = SiteShieldToolSchemas.getMap.parse(args);
+      return getMap(validatedArgs);
+    }
+  },
+
+  'siteshield_map_diff': {
+    name: 'siteshield_map_diff',
+    description: 'Compare the proposed CIDR blocks of a Site Shield map with the current ones',
+    inputSchema: zodToJsonSchema(SiteShieldToolSchemas.diffMap),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = SiteShieldToolSchemas.diffMap.parse(args);
+      return diffMap(validatedArgs);
+    }
+  },
+
+  'siteshield_map_acknowledge': {
+    name: 'siteshield_map_acknowledge',
+    description: 'Acknowledge the proposed CIDR blocks of a Site Shield map once firewalls allow them',
+    inputSchema: zodToJsonSchema(SiteShieldToolSchemas.acknowledgeMap),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = SiteShieldToolSchemas.acknowledgeMap.parse(args);
+      return acknowledgeMap(validatedArgs);
+    }
+  },
+
+  // Firewall Exports
+  'siteshield_map_export': {
+    name: 'siteshield_map_export',
+    description: 'Render the CIDR blocks of a Site Shield map as iptables, nftables, AWS security group JSON or Terraform',
+    inputSchema: zodToJsonSchema(SiteShieldToolSchemas.exportMap),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = SiteShieldToolSchemas.exportMap.parse(args);
+      return exportMap(validatedArgs);
+    }
+  }
+};
+
+export default siteShieldTools;
@@ -0,0 +1,84 @@
+/**
+ * Site Shield API Implementation
+ *
+ * Site Shield maps from Akamai's Site Shield API. A map lists the edge
+ * CIDR blocks allowed to reach an origin; when Akamai changes a map the
+ * new blocks are published as proposed CIDRs, which the customer must
+ * acknowledge once their firewalls allow them.
+ *
+ * API Documentation: https://techdocs.akamai.com/site-shield/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for Site Shield API
+ */
+export const SITE_SHIELD_API_BASE = '/siteshield/v1';
+
+/**
+ * Site Shield API Endpoints
+ */
+export const SiteShieldEndpoints = {
+  maps: () => `${SITE_SHIELD_API_BASE}/maps`,
+  map: (mapId: number) => `${SITE_SHIELD_API_BASE}/maps/${mapId}`,
+  acknowledge: (mapId: number) => `${SITE_SHIELD_API_BASE}/maps/${mapId}/acknowledge`
+};
+
+const MapIdSchema = z.number().int().positive().describe('Site Shield map ID');
+
+/**
+ * Site Shield Tool Schemas
+ */
+export const SiteShieldToolSchemas = {
+  listMaps: CustomerSchema.extend({
+    pendingOnly: z.boolean().optional().default(false)
+      .describe('Only maps with proposed changes that are not acknowledged yet')
+  }),
+
+  getMap: CustomerSchema.extend({
+    mapId: MapIdSchema
+  }),
+
+  diffMap: CustomerSchema.extend({
+    mapId: MapIdSchema
+  }),
+
+  acknowledgeMap: CustomerSchema.extend({
+    mapId: MapIdSchema
+  }),
+
+  exportMap: CustomerSchema.extend({
+    mapId: MapIdSchema,
+    format: z.enum(['iptables', 'nftables', 'aws-security-group', 'terraform']),
+    cidrs: z.enum(['current', 'proposed', 'union']).optional().default('union')
+      .describe('CIDR set to render; union allows both until the change is acknowledged'),
+    ports: z.array(z.number().int().min(1).max(65535)).min(1).optional().default([443])
+      .describe('Origin ports to open'),
+    name: z.string().regex(/^[A-Za-z][\w-]*$/).optional()
+      .describe('Chain, table or resource name (default siteshield_<mapId>)'),
+    securityGroupId: z.string().optional().describe('Security group for AWS and Terraform output')
+  })
+};
+
+/**
+ * Response types for Site Shield operations
+ */
+export interface SiteShieldMap {
+  id: number;
+  ruleName: string;
+  mapAlias?: string;
+  type?: string;
+  service?: string;
+  shared?: boolean;
+  acknowledged: boolean;
+  acknowledgedBy?: string;
+  acknowledgedOn?: number;
+  acknowledgeRequiredBy?: number;
+  previouslySeen?: boolean;
+  latestTicketId?: number;
+  currentCidrs: string[];
+  proposedCidrs: string[];
+  contacts?: string[];
+}
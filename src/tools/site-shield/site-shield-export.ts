@@ -0,0 +1,197 @@
+/**
+ * Site Shield CIDR Diffs and Firewall Exports
+ *
+ * Compares the current and proposed CIDR blocks of a Site Shield map and
+ * renders a CIDR set as iptables, nftables, AWS security group or
+ * Terraform configuration.
+ */
+
+import { isIP } from 'net';
+import type { SiteShieldMap } from './site-shield-api-implementation';
+
+export type SiteShieldExportFormat = 'iptables' | 'nftables' | 'aws-security-group' | 'terraform';
+
+export type SiteShieldCidrSet = 'current' | 'proposed' | 'union';
+
+export interface CidrDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface SiteShieldExportOptions {
+  ports: number[];
+  name: string;
+  description: string;
+  securityGroupId?: string;
+}
+
+/**
+ * Default AWS limit of inbound rules per security group
+ */
+export const AWS_SECURITY_GROUP_RULE_LIMIT = 60;
+
+function isIpv6(cidr: string): boolean {
+  return isIP(cidr.split('/')[0] || '') === 6;
+}
+
+function ipv4Number(cidr: string): number {
+  return (cidr.split('/')[0] || '').split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Trim, deduplicate and sort CIDR blocks (IPv4 numerically, then IPv6)
+ */
+export function normalizeCidrs(cidrs: string[]): string[] {
+  return [...new Set(cidrs.map(cidr => cidr.trim()).filter(Boolean))].sort((a, b) => {
+    if (isIpv6(a) !== isIpv6(b)) {
+      return isIpv6(a) ? 1 : -1;
+    }
+    return isIpv6(a) ? a.localeCompare(b) : ipv4Number(a) - ipv4Number(b) || a.localeCompare(b);
+  });
+}
+
+/**
+ * Proposed CIDRs of a map; an empty proposal means no change is pending
+ */
+export function proposedCidrs(map: SiteShieldMap): string[] {
+  return map.proposedCidrs?.length ? map.proposedCidrs : map.currentCidrs;
+}
+
+export function diffCidrs(current: string[], proposed: string[]): CidrDiff {
+  const currentSet = new Set(normalizeCidrs(current));
+  const proposedSet = new Set(normalizeCidrs(proposed));
+  return {
+    added: [...proposedSet].filter(cidr => !currentSet.has(cidr)),
+    removed: [...currentSet].filter(cidr => !proposedSet.has(cidr)),
+    unchanged: [...currentSet].filter(cidr => proposedSet.has(cidr))
+  };
+}
+
+/**
+ * CIDR blocks of a map to open in firewalls
+ */
+export function selectCidrs(map: SiteShieldMap, set: SiteShieldCidrSet): string[] {
+  switch (set) {
+    case 'current':
+      return normalizeCidrs(map.currentCidrs);
+    case 'proposed':
+      return normalizeCidrs(proposedCidrs(map));
+    default:
+      return normalizeCidrs([...map.currentCidrs, ...proposedCidrs(map)]);
+  }
+}
+
+function renderIptables(cidrs: string[], options: SiteShieldExportOptions): string {
+  const chain = options.name.toUpperCase().replace(/-/g, '_');
+  const ports = options.ports.length === 1
+    ? `--dport ${options.ports[0]}`
+    : `-m multiport --dports ${options.ports.join(',')}`;
+  const lines = [
+    `# ${options.description}`,
+    `# Hook the chain in with: iptables -I INPUT -p tcp ${ports} -j ${chain}`
+  ];
+
+  for (const [command, family] of [['iptables', cidrs.filter(cidr => !isIpv6(cidr))], ['ip6tables', cidrs.filter(isIpv6)]] as const) {
+    if (family.length === 0) {
+      continue;
+    }
+    lines.push(
+      '',
+      `${command} -N ${chain} 2>/dev/null || ${command} -F ${chain}`,
+      ...family.map(cidr => `${command} -A ${chain} -s ${cidr} -p tcp ${ports} -j ACCEPT`),
+      `${command} -A ${chain} -p tcp ${ports} -j DROP`
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function renderNftables(cidrs: string[], options: SiteShieldExportOptions): string {
+  const ports = options.ports.length === 1 ? String(options.ports[0]) : `{ ${options.ports.join(', ')} }`;
+  const sets = ([['v4', 'ipv4_addr', 'ip', cidrs.filter(cidr => !isIpv6(cidr))], ['v6', 'ipv6_addr', 'ip6', cidrs.filter(isIpv6)]] as const)
+    .filter(([, , , family]) => family.length > 0);
+
+  const lines = [`# ${options.description}`, `table inet ${options.name.replace(/-/g, '_')} {`];
+  for (const [suffix, type, , family] of sets) {
+    lines.push(
+      `  set siteshield_${suffix} {`,
+      `    type ${type}`,
+      '    flags interval',
+      '    elements = {',
+      ...family.map((cidr, index) => `      ${cidr}${index < family.length - 1 ? ',' : ''}`),
+      '    }',
+      '  }'
+    );
+  }
+  lines.push(
+    '',
+    '  chain input {',
+    '    type filter hook input priority 0; policy accept;',
+    ...sets.map(([suffix, , match]) => `    tcp dport ${ports} ${match} saddr @siteshield_${suffix} accept`),
+    `    tcp dport ${ports} drop`,
+    '  }',
+    '}'
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+function renderAwsSecurityGroup(cidrs: string[], options: SiteShieldExportOptions): string {
+  const ipv4 = cidrs.filter(cidr => !isIpv6(cidr));
+  const ipv6 = cidrs.filter(isIpv6);
+  const input = {
+    ...(options.securityGroupId && { GroupId: options.securityGroupId }),
+    IpPermissions: options.ports.map(port => ({
+      IpProtocol: 'tcp',
+      FromPort: port,
+      ToPort: port,
+      ...(ipv4.length > 0 && { IpRanges: ipv4.map(cidr => ({ CidrIp: cidr, Description: options.description })) }),
+      ...(ipv6.length > 0 && { Ipv6Ranges: ipv6.map(cidr => ({ CidrIpv6: cidr, Description: options.description })) })
+    }))
+  };
+  return `${JSON.stringify(input, null, 2)}\n`;
+}
+
+function renderTerraform(cidrs: string[], options: SiteShieldExportOptions): string {
+  const name = options.name.replace(/-/g, '_');
+  const list = (values: string[]) => values.length === 0
+    ? '[]'
+    : `[\n${values.map(cidr => `    "${cidr}",`).join('\n')}\n  ]`;
+  const ipv6 = cidrs.filter(isIpv6);
+
+  return [
+    `# ${options.description}`,
+    'locals {',
+    `  ${name}_cidrs = ${list(cidrs.filter(cidr => !isIpv6(cidr)))}`,
+    ...(ipv6.length > 0 ? [`  ${name}_ipv6_cidrs = ${list(ipv6)}`] : []),
+    '}',
+    '',
+    `resource "aws_security_group_rule" "${name}" {`,
+    `  for_each          = toset([${options.ports.map(port => `"${port}"`).join(', ')}])`,
+    '  type              = "ingress"',
+    '  protocol          = "tcp"',
+    '  from_port         = tonumber(each.value)',
+    '  to_port           = tonumber(each.value)',
+    `  cidr_blocks       = local.${name}_cidrs`,
+    ...(ipv6.length > 0 ? [`  ipv6_cidr_blocks  = local.${name}_ipv6_cidrs`] : []),
+    `  security_group_id = ${options.securityGroupId ? `"${options.securityGroupId}"` : 'var.security_group_id'}`,
+    `  description       = "${options.description}"`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Render CIDR blocks in a firewall configuration format
+ */
+export function exportCidrs(cidrs: string[], format: SiteShieldExportFormat, options: SiteShieldExportOptions): string {
+  switch (format) {
+    case 'iptables':
+      return renderIptables(cidrs, options);
+    case 'nftables':
+      return renderNftables(cidrs, options);
+    case 'aws-security-group':
+      return renderAwsSecurityGroup(cidrs, options);
+    case 'terraform':
+      return renderTerraform(cidrs, options);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Site Shield Tools Implementation
+ *
+ * Tools for Site Shield maps: current and proposed CIDR blocks, their
+ * diff, acknowledgement, and firewall configuration exports
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import {
+  SiteShieldEndpoints,
+  SiteShieldToolSchemas,
+  type SiteShieldMap
+} from './site-shield-api-implementation';
+import {
+  AWS_SECURITY_GROUP_RULE_LIMIT,
+  diffCidrs,
+  exportCidrs,
+  proposedCidrs,
+  selectCidrs
+} from './site-shield-export';
+
+function hasPendingChange(map: SiteShieldMap): boolean {
+  const diff = diffCidrs(map.currentCidrs, proposedCidrs(map));
+  return !map.acknowledged && diff.added.length + diff.removed.length > 0;
+}
+
+function formatDate(epochMillis: number | undefined): string {
+  return epochMillis ? new Date(epochMillis).toISOString() : 'unknown';
+}
+
+function formatMapSummary(map: SiteShieldMap): string {
+  const pending = hasPendingChange(map)
+    ? ` | ⚠️ change pending, acknowledge by ${formatDate(map.acknowledgeRequiredBy)}`
+    : '';
+  return `• ${map.ruleName} (${map.id})${map.mapAlias ? ` "${map.mapAlias}"` : ''} | ${map.currentCidrs.length} CIDRs${pending}\n`;
+}
+
+/**
+ * List Site Shield maps
+ */
+export async function listMaps(args: z.infer<typeof SiteShieldToolSchemas.listMaps>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'site-shield',
+    'siteshield_map_list',
+    args,
+    async (client) => client.request<{ siteShieldMaps: SiteShieldMap[] }>({
+      path: SiteShieldEndpoints.maps(),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        const maps = (result.siteShieldMaps || []).filter(map => !args.pendingOnly || hasPendingChange(map));
+        let text = `🛡️ **Site Shield Maps** (${maps.length})\n\n`;
+        maps.forEach(map => {
+          text += formatMapSummary(map);
+        });
+        return text;
+      },
+      cacheKey: () => 'site-shield:maps',
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get a Site Shield map with its current and proposed CIDR blocks
+ */
+export async function getMap(args: z.infer<typeof SiteShieldToolSchemas.getMap>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'site-shield',
+    'siteshield_map_get',
+    args,
+    async (client) => client.request<SiteShieldMap>({
+      path: SiteShieldEndpoints.map(args.mapId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (map) => {
+        let text = `🛡️ **${map.ruleName}** (${map.id})\n`;
+        if (map.mapAlias) {
+          text += `Alias: ${map.mapAlias}\n`;
+        }
+        text += `Acknowledged: ${map.acknowledged ? `yes${map.acknowledgedBy ? ` by ${map.acknowledgedBy} on ${formatDate(map.acknowledgedOn)}` : ''}` : 'no'}\n`;
+        if (hasPendingChange(map)) {
+          text += `⚠️ Proposed change must be acknowledged by ${formatDate(map.acknowledgeRequiredBy)}\n`;
+        }
+        text += `\n**Current CIDRs** (${map.currentCidrs.length}):\n${map.currentCidrs.map(cidr => `• ${cidr}`).join('\n')}\n`;
+        if (map.proposedCidrs?.length) {
+          text += `\n**Proposed CIDRs** (${map.proposedCidrs.length}):\n${map.proposedCidrs.map(cidr => `• ${cidr}`).join('\n')}\n`;
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Compare the proposed CIDR blocks of a map with the current ones
+ */
+export async function diffMap(args: z.infer<typeof SiteShieldToolSchemas.diffMap>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'site-shield',
+    'siteshield_map_diff',
+    args,
+    async (client) => client.request<SiteShieldMap>({
+      path: SiteShieldEndpoints.map(args.mapId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (map) => {
+        const diff = diffCidrs(map.currentCidrs, proposedCidrs(map));
+        if (diff.added.length + diff.removed.length === 0) {
+          return `✅ ${map.ruleName} (${map.id}): no proposed changes (${diff.unchanged.length} CIDRs)`;
+        }
+
+        let text = `🛡️ **${map.ruleName}** (${map.id}): proposed changes\n`;
+        text += `Acknowledge by: ${formatDate(map.acknowledgeRequiredBy)}\n\n`;
+        text += `**Added** (${diff.added.length}) - allow in firewalls before acknowledging:\n`;
+        text += diff.added.map(cidr => `+ ${cidr}`).join('\n') || '(none)';
+        text += `\n\n**Removed** (${diff.removed.length}) - remove from firewalls after acknowledging:\n`;
+        text += diff.removed.map(cidr => `- ${cidr}`).join('\n') || '(none)';
+        text += `\n\nUnchanged: ${diff.unchanged.length} CIDRs\n\n`;
+        text += `Use siteshield_map_export with cidrs "union" to allow both sets, then siteshield_map_acknowledge.`;
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Acknowledge the proposed CIDR blocks of a map
+ */
+export async function acknowledgeMap(args: z.infer<typeof SiteShieldToolSchemas.acknowledgeMap>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'site-shield',
+    'siteshield_map_acknowledge',
+    args,
+    async (client) => client.request<SiteShieldMap>({
+      path: SiteShieldEndpoints.acknowledge(args.mapId),
+      method: 'POST'
+    }),
+    {
+      format: 'text',
+      formatter: (map) => `✅ Site Shield map ${map.ruleName || args.mapId} acknowledged\n\n` +
+        'Akamai moves traffic to the new CIDR blocks; remove the retired blocks from firewalls once the map shows no proposed CIDRs.'
+    }
+  );
+}
+
+/**
+ * Render the CIDR blocks of a map as firewall configuration
+ */
+export async function exportMap(args: z.infer<typeof SiteShieldToolSchemas.exportMap>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'site-shield',
+    'siteshield_map_export',
+    args,
+    async (client) => client.request<SiteShieldMap>({
+      path: SiteShieldEndpoints.map(args.mapId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: (map) => {
+        const cidrs = selectCidrs(map, args.cidrs);
+        const output = exportCidrs(cidrs, args.format, {
+          ports: args.ports,
+          name: args.name || `siteshield_${map.id}`,
+          description: `Akamai Site Shield ${map.ruleName} (${args.cidrs} CIDRs)`,
+          ...(args.securityGroupId && { securityGroupId: args.securityGroupId })
+        });
+
+        let text = `🛡️ **${map.ruleName}** (${map.id}): ${cidrs.length} ${args.cidrs} CIDRs as ${args.format}\n\n`;
+        text += `\`\`\`${args.format === 'aws-security-group' ? 'json' : args.format === 'terraform' ? 'hcl' : 'sh'}\n${output}\`\`\`\n`;
+        const rules = cidrs.length * args.ports.length;
+        if ((args.format === 'aws-security-group' || args.format === 'terraform') && rules > AWS_SECURITY_GROUP_RULE_LIMIT) {
+          text += `\n⚠️ ${rules} rules exceed the default limit of ${AWS_SECURITY_GROUP_RULE_LIMIT} inbound rules per security group; ` +
+            'split them across groups or raise the quota.';
+        }
+        return text;
+      }
+    }
+  );
+}
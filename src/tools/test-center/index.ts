@@ -0,0 +1,141 @@
+/**
+ * Test Center Domain Export Module
+ *
+ * Exports Test Center tools using the standard BaseTool pattern
+ */
+
+import {
+  listTestSuites,
+  getTestSuite,
+  createTestSuite,
+  updateTestSuite,
+  deleteTestSuite,
+  generateTestSuite,
+  addTestCases,
+  removeTestCases,
+  runTests,
+  getTestRun
+} from './test-center-tools';
+import { TestCenterToolSchemas } from './test-center-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface TestCenterTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * Test Center Domain Tools with handlers
+ */
+export const testCenterTools: Record<string, TestCenterTool> = {
+  // Test Suites
+  'test_center_suite_list': {
+    name: 'test_center_suite_list',
+    description: 'List Test Center functional test suites',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.listTestSuites),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.listTestSuites.parse(args);
+      return listTestSuites(validatedArgs);
+    }
+  },
+
+  'test_center_suite_get': {
+    name: 'test_center_suite_get',
+    description: 'Get a test suite with its test cases',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.getTestSuite),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.getTestSuite.parse(args);
+      return getTestSuite(validatedArgs);
+    }
+  },
+
+  'test_center_suite_create': {
+    name: 'test_center_suite_create',
+    description: 'Create a test suite, optionally with test cases and the property version it tests',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.createTestSuite),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.createTestSuite.parse(args);
+      return createTestSuite(validatedArgs);
+    }
+  },
+
+  'test_center_suite_update': {
+    name: 'test_center_suite_update',
+    description: 'Update the name, description, property or lock of a test suite',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.updateTestSuite),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.updateTestSuite.parse(args);
+      return updateTestSuite(validatedArgs);
+    }
+  },
+
+  'test_center_suite_delete': {
+    name: 'test_center_suite_delete',
+    description: 'Delete a test suite',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.deleteTestSuite),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.deleteTestSuite.parse(args);
+      return deleteTestSuite(validatedArgs);
+    }
+  },
+
+  'test_center_suite_generate': {
+    name: 'test_center_suite_generate',
+    description: 'Generate and create a smoke test suite from the rule tree and hostnames of a property version',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.generateTestSuite),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.generateTestSuite.parse(args);
+      return generateTestSuite(validatedArgs);
+    }
+  },
+
+  // Test Cases
+  'test_center_test_case_add': {
+    name: 'test_center_test_case_add',
+    description: 'Add test cases (URL, request headers, expected condition) to a test suite',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.addTestCases),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.addTestCases.parse(args);
+      return addTestCases(validatedArgs);
+    }
+  },
+
+  'test_center_test_case_remove': {
+    name: 'test_center_test_case_remove',
+    description: 'Remove test cases from a test suite',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.removeTestCases),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.removeTestCases.parse(args);
+      return removeTestCases(validatedArgs);
+    }
+  },
+
+  // Test Runs
+  'test_center_test_run': {
+    name: 'test_center_test_run',
+    description: 'Run test suites against staging or production, optionally waiting for the results',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.runTests),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.runTests.parse(args);
+      return runTests(validatedArgs);
+    }
+  },
+
+  'test_center_test_run_get': {
+    name: 'test_center_test_run_get',
+    description: 'Get the status and results of a test run',
+    inputSchema: zodToJsonSchema(TestCenterToolSchemas.getTestRun),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = TestCenterToolSchemas.getTestRun.parse(args);
+      return getTestRun(validatedArgs);
+    }
+  }
+};
+
+export default testCenterTools;
@@ -0,0 +1,181 @@
+/**
+ * Test Center API Implementation
+ *
+ * Functional test suites, test cases and test runs from Akamai's Test
+ * Center API
+ *
+ * API Documentation: https://techdocs.akamai.com/test-ctr/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+
+/**
+ * Base URL for Test Center API
+ */
+export const TEST_CENTER_API_BASE = '/test-management/api/v3';
+
+/**
+ * Test Center API Endpoints
+ */
+export const TestCenterEndpoints = {
+  testSuites: () => `${TEST_CENTER_API_BASE}/functional/test-suites`,
+  testSuiteWithChildren: () => `${TEST_CENTER_API_BASE}/functional/test-suites/with-child-objects`,
+  testSuite: (testSuiteId: number) => `${TEST_CENTER_API_BASE}/functional/test-suites/${testSuiteId}`,
+  testSuiteChildren: (testSuiteId: number) =>
+    `${TEST_CENTER_API_BASE}/functional/test-suites/${testSuiteId}/with-child-objects`,
+  testCases: (testSuiteId: number) => `${TEST_CENTER_API_BASE}/functional/test-suites/${testSuiteId}/test-cases`,
+  deleteTestCases: (testSuiteId: number) =>
+    `${TEST_CENTER_API_BASE}/functional/test-suites/${testSuiteId}/test-cases/delete`,
+  testRuns: () => `${TEST_CENTER_API_BASE}/test-runs`,
+  testRun: (testRunId: number) => `${TEST_CENTER_API_BASE}/test-runs/${testRunId}`
+};
+
+const TestSuiteIdSchema = z.number().int().positive().describe('Test suite ID');
+const NetworkSchema = z.enum(['STAGING', 'PRODUCTION']).default('STAGING');
+
+/**
+ * A test case: one request and the condition its response must meet
+ */
+export const TestCaseInputSchema = z.object({
+  url: z.string().url().describe('URL to request, e.g. https://www.example.com/images/logo.png'),
+  method: z.enum(['GET', 'HEAD', 'POST']).default('GET'),
+  headers: z.array(z.object({
+    name: z.string().min(1),
+    value: z.string().optional(),
+    action: z.enum(['ADD', 'MODIFY', 'FILTER']).default('ADD')
+  })).optional().describe('Request headers to add, change or strip'),
+  body: z.string().optional().describe('Request body for POST requests'),
+  condition: z.string().min(1)
+    .describe('Expected condition from the Test Center catalog, e.g. Response code is one of "200" or Caching option is "no-store"'),
+  client: z.enum(['CURL', 'CHROME']).default('CURL'),
+  ipVersion: z.enum(['IPV4', 'IPV6']).default('IPV4')
+});
+
+const PropertySchema = {
+  propertyName: z.string().optional().describe('Property the suite tests'),
+  propertyVersion: z.number().int().positive().optional().describe('Property version the suite tests')
+};
+
+/**
+ * Test Center Tool Schemas
+ */
+export const TestCenterToolSchemas = {
+  listTestSuites: CustomerSchema.extend({
+    propertyName: z.string().optional().describe('Only suites for this property'),
+    includeDeleted: z.boolean().optional().default(false)
+  }),
+
+  getTestSuite: CustomerSchema.extend({
+    testSuiteId: TestSuiteIdSchema
+  }),
+
+  createTestSuite: CustomerSchema.extend({
+    name: z.string().min(1).max(256).describe('Test suite name'),
+    description: z.string().optional(),
+    ...PropertySchema,
+    testCases: z.array(TestCaseInputSchema).optional().default([])
+  }),
+
+  updateTestSuite: CustomerSchema.extend({
+    testSuiteId: TestSuiteIdSchema,
+    name: z.string().min(1).max(256).optional(),
+    description: z.string().optional(),
+    ...PropertySchema,
+    locked: z.boolean().optional().describe('Locked suites can only be edited by their owner')
+  }),
+
+  deleteTestSuite: CustomerSchema.extend({
+    testSuiteId: TestSuiteIdSchema
+  }),
+
+  addTestCases: CustomerSchema.extend({
+    testSuiteId: TestSuiteIdSchema,
+    testCases: z.array(TestCaseInputSchema).min(1)
+  }),
+
+  removeTestCases: CustomerSchema.extend({
+    testSuiteId: TestSuiteIdSchema,
+    testCaseIds: z.array(z.number().int().positive()).min(1)
+  }),
+
+  runTests: CustomerSchema.extend({
+    testSuiteIds: z.array(TestSuiteIdSchema).min(1).describe('Test suites to run'),
+    network: NetworkSchema.describe('Network whose edge servers receive the test requests'),
+    note: z.string().optional(),
+    waitForCompletion: z.boolean().optional().default(false)
+      .describe('Poll until the run finishes and report the results'),
+    timeout: z.number().int().positive().optional().default(600).describe('Seconds to wait with waitForCompletion'),
+    format: z.enum(['text', 'json']).optional().default('text')
+  }),
+
+  getTestRun: CustomerSchema.extend({
+    testRunId: z.number().int().positive().describe('Test run ID'),
+    format: z.enum(['text', 'json']).optional().default('text')
+  }),
+
+  generateTestSuite: CustomerSchema.extend({
+    propertyId: z.string().describe('Property ID (prp_*)'),
+    version: z.number().int().positive().optional().describe('Property version (defaults to the latest)'),
+    name: z.string().min(1).max(256).optional().describe('Suite name (defaults to "<property> v<version> smoke tests")'),
+    hostnames: z.array(z.string()).optional().describe('Hostnames to test (defaults to all property hostnames)'),
+    maxTestCases: z.number().int().positive().max(500).optional().default(100)
+  })
+};
+
+/**
+ * Response types for Test Center operations
+ */
+export interface TestCenterTestCase {
+  testCaseId?: number;
+  order?: number;
+  testRequest: {
+    testRequestUrl: string;
+    requestMethod?: string;
+    requestHeaders?: Array<{ headerName: string; headerValue?: string; headerAction: string }>;
+    requestBody?: string;
+  };
+  condition: { conditionExpression: string };
+  clientProfile?: { client: string; ipVersion: string };
+}
+
+export interface TestCenterTestSuite {
+  testSuiteId: number;
+  testSuiteName: string;
+  testSuiteDescription?: string;
+  isLocked?: boolean;
+  isStateful?: boolean;
+  configs?: { propertyManager?: { propertyName: string; propertyVersion?: number } };
+  testCases?: TestCenterTestCase[];
+  executableTestCaseCount?: number;
+  createdBy?: string;
+  modifiedDate?: string;
+}
+
+export interface TestCenterTestCaseExecution {
+  testCaseExecutionId?: number;
+  testCaseId?: number;
+  status: string;
+  testCase?: TestCenterTestCase;
+  result?: string;
+  errors?: Array<{ title?: string; detail?: string }>;
+}
+
+export interface TestCenterTestRun {
+  testRunId: number;
+  status: string;
+  targetEnvironment: string;
+  note?: string;
+  submittedBy?: string;
+  submissionDate?: string;
+  completionDate?: string;
+  functional?: {
+    status?: string;
+    testSuiteExecutions?: Array<{
+      testSuiteId: number;
+      testSuiteName?: string;
+      status?: string;
+      testCaseExecutions?: TestCenterTestCaseExecution[];
+    }>;
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Test Center Suite Helpers
+ *
+ * Conversion of test cases to the Test Center API shape, generation of
+ * smoke tests from a property rule tree, and test run results. Workflows
+ * use assertTestRunPassed to gate production on a passing run.
+ */
+
+import type { z } from 'zod';
+import type { Behavior, RuleTree } from '../../types/akamai';
+import type {
+  TestCaseInputSchema,
+  TestCenterTestCase,
+  TestCenterTestRun
+} from './test-center-api-implementation';
+
+export type TestCaseInput = z.input<typeof TestCaseInputSchema>;
+
+/**
+ * Test run states that have not produced results yet
+ */
+const RUNNING_STATUSES = new Set(['PENDING', 'SUBMITTED', 'IN_PROGRESS']);
+
+const SAMPLE_SEGMENT = 'alecs-test';
+
+/**
+ * A test case in the shape the Test Center API expects
+ */
+export function toTestCase(input: TestCaseInput): TestCenterTestCase {
+  return {
+    testRequest: {
+      testRequestUrl: input.url,
+      requestMethod: input.method || 'GET',
+      ...(input.headers?.length && {
+        requestHeaders: input.headers.map(header => ({
+          headerName: header.name,
+          ...(header.value !== undefined && { headerValue: header.value }),
+          headerAction: header.action || 'ADD'
+        }))
+      }),
+      ...(input.body && { requestBody: input.body })
+    },
+    condition: { conditionExpression: input.condition },
+    clientProfile: { client: input.client || 'CURL', ipVersion: input.ipVersion || 'IPV4' }
+  };
+}
+
+/**
+ * A generated test case and the rule it checks
+ */
+export interface GeneratedTestCase {
+  testCase: TestCaseInput;
+  rule: string;
+}
+
+export interface GeneratedTestSuite {
+  testCases: GeneratedTestCase[];
+  skipped: string[]; // Rules whose match criteria cannot be turned into a request
+  truncated: number; // Test cases dropped by the maxTestCases limit
+}
+
+interface RequestScope {
+  path?: string;
+  extension?: string;
+  hostname?: string;
+}
+
+/**
+ * The condition a behavior should produce, for behaviors with a clear
+ * observable effect
+ */
+function behaviorCondition(behavior: Behavior): string | undefined {
+  const options = behavior.options;
+  switch (behavior.name) {
+    case 'caching':
+      return {
+        NO_STORE: 'Caching option is "no-store"',
+        BYPASS_CACHE: 'Caching option is "bypass-cache"',
+        MAX_AGE: 'Caching option is "cache"'
+      }[String(options['behavior'])];
+    case 'redirect':
+      return options['responseCode'] ? `Response code is one of "${options['responseCode']}"` : undefined;
+    case 'cpCode': {
+      const id = (options['value'] as { id?: number } | undefined)?.id;
+      return id ? `CP code is "${id}"` : undefined;
+    }
+    case 'denyAccess':
+      return options['enabled'] === false ? undefined : 'Response code is one of "403"';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Narrow the request scope to a rule's criteria, or return a reason the
+ * rule cannot be targeted by a single test request
+ */
+function applyCriteria(rule: RuleTree, scope: RequestScope, hostnames: string[]): RequestScope | string {
+  const next = { ...scope };
+  for (const criterion of rule.criteria || []) {
+    const operator = String(criterion.options['matchOperator'] || '');
+    const values = (criterion.options['values'] as string[] | undefined) || [];
+    if (operator.startsWith('DOES_NOT') || operator.startsWith('IS_NOT') || values.length === 0) {
+      return `${criterion.name} ${operator || 'criterion'}`;
+    }
+    const value = values[0]!;
+
+    if (criterion.name === 'path') {
+      next.path = value.replace(/\*/g, SAMPLE_SEGMENT).replace(/\?/g, 'a');
+    } else if (criterion.name === 'fileExtension') {
+      next.extension = value;
+    } else if (criterion.name === 'hostname') {
+      const hostname = values.find(candidate => hostnames.includes(candidate));
+      if (!hostname) {
+        return `hostname ${values.join(', ')} is not a property hostname`;
+      }
+      next.hostname = hostname;
+    } else {
+      return `${criterion.name} criterion`;
+    }
+  }
+  return next;
+}
+
+function sampleUrl(hostname: string, scope: RequestScope): string {
+  let path = scope.path || '/';
+  if (scope.extension) {
+    path = `${path.endsWith('/') ? `${path}${SAMPLE_SEGMENT}` : path}.${scope.extension}`;
+  }
+  return `https://${scope.hostname || hostname}${path.startsWith('/') ? '' : '/'}${path}`;
+}
+
+/**
+ * Smoke tests for a property version: each hostname is requested at / and
+ * checked against the default rule, and each child rule whose criteria are
+ * paths, file extensions or hostnames gets one request per testable
+ * behavior (caching, redirects, CP codes, deny access). Later rules can
+ * override earlier ones, so the generated suite is a starting point to
+ * review rather than a specification.
+ */
+export function generateTestCases(rules: RuleTree, hostnames: string[], maxTestCases = 100): GeneratedTestSuite {
+  const testCases: GeneratedTestCase[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+  let truncated = 0;
+
+  const add = (url: string, condition: string, rule: string): void => {
+    const key = `${url} ${condition}`;
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    if (testCases.length >= maxTestCases) {
+      truncated++;
+      return;
+    }
+    testCases.push({ testCase: { url, condition }, rule });
+  };
+
+  const rootConditions = (rules.behaviors || []).map(behaviorCondition).filter((c): c is string => !!c);
+  hostnames.forEach(hostname => {
+    const conditions = rootConditions.length > 0 ? rootConditions : ['Response code is one of "200"'];
+    conditions.forEach(condition => add(`https://${hostname}/`, condition, rules.name));
+  });
+
+  const primary = hostnames[0];
+  const walk = (rule: RuleTree, scope: RequestScope, path: string): void => {
+    const narrowed = applyCriteria(rule, scope, hostnames);
+    if (typeof narrowed === 'string') {
+      skipped.push(`${path}: ${narrowed}`);
+      return;
+    }
+    const targeted = narrowed.path || narrowed.extension || narrowed.hostname;
+    if (targeted && primary) {
+      (rule.behaviors || []).forEach(behavior => {
+        const condition = behaviorCondition(behavior);
+        if (condition) {
+          add(sampleUrl(primary, narrowed), condition, path);
+        }
+      });
+    }
+    (rule.children || []).forEach(child => walk(child, narrowed, `${path} > ${child.name}`));
+  };
+  (rules.children || []).forEach(child => walk(child, {}, child.name));
+
+  return { testCases, skipped, truncated };
+}
+
+/**
+ * A test case that did not pass
+ */
+export interface TestRunFailure {
+  testSuite: string;
+  url?: string;
+  condition?: string;
+  status: string;
+  detail?: string;
+}
+
+export interface TestRunSummary {
+  finished: boolean;
+  passed: boolean;
+  total: number;
+  passedCount: number;
+  failures: TestRunFailure[];
+}
+
+/**
+ * Count passed and failed test cases of a run. A run passes only when it
+ * has finished, ran at least one test case and every test case passed.
+ */
+export function summarizeTestRun(run: TestCenterTestRun): TestRunSummary {
+  const finished = !RUNNING_STATUSES.has(run.status);
+  const failures: TestRunFailure[] = [];
+  let total = 0;
+
+  (run.functional?.testSuiteExecutions || []).forEach(suite => {
+    (suite.testCaseExecutions || []).forEach(execution => {
+      total++;
+      const outcome = execution.result || execution.status;
+      if (outcome !== 'PASSED') {
+        failures.push({
+          testSuite: suite.testSuiteName || String(suite.testSuiteId),
+          url: execution.testCase?.testRequest.testRequestUrl,
+          condition: execution.testCase?.condition.conditionExpression,
+          status: outcome,
+          detail: execution.errors?.map(error => error.detail || error.title).filter(Boolean).join('; ') || undefined
+        });
+      }
+    });
+  });
+
+  return {
+    finished,
+    passed: finished && total > 0 && failures.length === 0,
+    total,
+    passedCount: total - failures.length,
+    failures
+  };
+}
+
+/**
+ * Throw unless the test run passed, listing the failed test cases
+ */
+export function assertTestRunPassed(run: TestCenterTestRun): void {
+  const summary = summarizeTestRun(run);
+  if (summary.passed) {
+    return;
+  }
+  if (!summary.finished) {
+    throw new Error(`Test run ${run.testRunId} has not finished (status ${run.status})`);
+  }
+  if (summary.total === 0) {
+    throw new Error(`Test run ${run.testRunId} ran no test cases`);
+  }
+  const failures = summary.failures.map(failure =>
+    `• ${failure.url || failure.testSuite}: ${failure.condition || ''} (${failure.status})${failure.detail ? ` - ${failure.detail}` : ''}`
+  );
+  throw new Error(`Test run ${run.testRunId} failed ${summary.failures.length} of ${summary.total} test cases:\n${failures.join('\n')}`);
+}
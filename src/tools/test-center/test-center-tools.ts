@@ -0,0 +1,395 @@
+/**
+ * Test Center Tools Implementation
+ *
+ * Tools for functional testing with Test Center: test suites and cases,
+ * test runs against staging or production, and smoke test suites
+ * generated from a property's rule tree and hostnames
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import type { RuleTree } from '../../types/akamai';
+import { PropertyEndpoints } from '../property/property-api-implementation';
+import {
+  TestCenterEndpoints,
+  TestCenterToolSchemas,
+  type TestCenterTestRun,
+  type TestCenterTestSuite
+} from './test-center-api-implementation';
+import { generateTestCases, summarizeTestRun, toTestCase } from './test-center-suites';
+
+const POLL_INTERVAL_MS = 15000;
+
+function formatTestSuite(suite: TestCenterTestSuite): string {
+  let text = `🧪 **${suite.testSuiteName}** (${suite.testSuiteId})${suite.isLocked ? ' 🔒' : ''}\n`;
+  if (suite.testSuiteDescription) {
+    text += `${suite.testSuiteDescription}\n`;
+  }
+  const property = suite.configs?.propertyManager;
+  if (property) {
+    text += `Property: ${property.propertyName}${property.propertyVersion ? ` v${property.propertyVersion}` : ''}\n`;
+  }
+  if (suite.testCases?.length) {
+    text += `\n**Test Cases** (${suite.testCases.length}):\n`;
+    suite.testCases.forEach(testCase => {
+      text += `${testCase.testCaseId ?? '•'}. ${testCase.testRequest.requestMethod || 'GET'} ${testCase.testRequest.testRequestUrl}\n`;
+      text += `   ${testCase.condition.conditionExpression}\n`;
+    });
+  }
+  return text;
+}
+
+function formatTestRun(run: TestCenterTestRun): string {
+  const summary = summarizeTestRun(run);
+  const emoji = !summary.finished ? '⏳' : summary.passed ? '✅' : '❌';
+  let text = `${emoji} **Test run ${run.testRunId}** on ${run.targetEnvironment}: ${run.status}\n`;
+  if (run.submissionDate) {
+    text += `Submitted: ${run.submissionDate}${run.submittedBy ? ` by ${run.submittedBy}` : ''}\n`;
+  }
+  if (summary.finished) {
+    text += `Passed: ${summary.passedCount}/${summary.total}\n`;
+  }
+  if (summary.failures.length > 0) {
+    text += '\n**Failed Test Cases:**\n';
+    summary.failures.forEach(failure => {
+      text += `• ${failure.url || failure.testSuite}\n  ${failure.condition || ''} → ${failure.status}` +
+        `${failure.detail ? ` (${failure.detail})` : ''}\n`;
+    });
+  }
+  return text;
+}
+
+async function fetchTestRun(client: AkamaiClient, testRunId: number): Promise<TestCenterTestRun> {
+  return client.request<TestCenterTestRun>({
+    path: TestCenterEndpoints.testRun(testRunId),
+    method: 'GET'
+  });
+}
+
+/**
+ * List test suites
+ */
+export async function listTestSuites(args: z.infer<typeof TestCenterToolSchemas.listTestSuites>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_suite_list',
+    args,
+    async (client) => client.request<TestCenterTestSuite[]>({
+      path: TestCenterEndpoints.testSuites(),
+      method: 'GET',
+      queryParams: {
+        ...(args.propertyName && { propertyName: args.propertyName }),
+        ...(args.includeDeleted && { includeDeleted: 'true' })
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (suites) => {
+        let text = `🧪 **Test Suites** (${suites.length})\n\n`;
+        suites.forEach(suite => {
+          const property = suite.configs?.propertyManager;
+          text += `• ${suite.testSuiteName} (${suite.testSuiteId})` +
+            `${property ? ` | ${property.propertyName}${property.propertyVersion ? ` v${property.propertyVersion}` : ''}` : ''}` +
+            `${suite.executableTestCaseCount !== undefined ? ` | ${suite.executableTestCaseCount} test cases` : ''}\n`;
+        });
+        return text;
+      },
+      cacheKey: (p) => `test-center:suites:${p.propertyName || 'all'}:${p.includeDeleted}`,
+      cacheTtl: 300 // 5 minutes
+    }
+  );
+}
+
+/**
+ * Get a test suite with its test cases
+ */
+export async function getTestSuite(args: z.infer<typeof TestCenterToolSchemas.getTestSuite>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_suite_get',
+    args,
+    async (client) => client.request<TestCenterTestSuite>({
+      path: TestCenterEndpoints.testSuiteChildren(args.testSuiteId),
+      method: 'GET'
+    }),
+    {
+      format: 'text',
+      formatter: formatTestSuite
+    }
+  );
+}
+
+/**
+ * Create a test suite, with test cases if given
+ */
+export async function createTestSuite(args: z.infer<typeof TestCenterToolSchemas.createTestSuite>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_suite_create',
+    args,
+    async (client) => client.request<TestCenterTestSuite>({
+      path: TestCenterEndpoints.testSuiteWithChildren(),
+      method: 'POST',
+      body: {
+        testSuiteName: args.name,
+        ...(args.description && { testSuiteDescription: args.description }),
+        isLocked: false,
+        isStateful: false,
+        ...(args.propertyName && {
+          configs: { propertyManager: { propertyName: args.propertyName, propertyVersion: args.propertyVersion } }
+        }),
+        testCases: args.testCases.map(toTestCase)
+      }
+    }),
+    {
+      format: 'text',
+      formatter: (suite) => `✅ Test suite created\n\n${formatTestSuite(suite)}\n` +
+        `Run it with test_center_test_run testSuiteIds=[${suite.testSuiteId}].`
+    }
+  );
+}
+
+/**
+ * Update a test suite's name, description, property or lock
+ */
+export async function updateTestSuite(args: z.infer<typeof TestCenterToolSchemas.updateTestSuite>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_suite_update',
+    args,
+    async (client) => {
+      const current = await client.request<TestCenterTestSuite>({
+        path: TestCenterEndpoints.testSuite(args.testSuiteId),
+        method: 'GET'
+      });
+      const property = current.configs?.propertyManager;
+      const propertyName = args.propertyName ?? property?.propertyName;
+
+      return client.request<TestCenterTestSuite>({
+        path: TestCenterEndpoints.testSuite(args.testSuiteId),
+        method: 'PUT',
+        body: {
+          testSuiteId: args.testSuiteId,
+          testSuiteName: args.name ?? current.testSuiteName,
+          testSuiteDescription: args.description ?? current.testSuiteDescription,
+          isLocked: args.locked ?? current.isLocked ?? false,
+          isStateful: current.isStateful ?? false,
+          ...(propertyName && {
+            configs: {
+              propertyManager: { propertyName, propertyVersion: args.propertyVersion ?? property?.propertyVersion }
+            }
+          })
+        }
+      });
+    },
+    {
+      format: 'text',
+      formatter: (suite) => `✅ Test suite updated\n\n${formatTestSuite(suite)}`
+    }
+  );
+}
+
+/**
+ * Delete a test suite
+ */
+export async function deleteTestSuite(args: z.infer<typeof TestCenterToolSchemas.deleteTestSuite>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_suite_delete',
+    args,
+    async (client) => client.request({
+      path: TestCenterEndpoints.testSuite(args.testSuiteId),
+      method: 'DELETE'
+    }),
+    {
+      format: 'text',
+      formatter: () => `✅ Test suite ${args.testSuiteId} deleted. Test Center keeps deleted suites restorable for 30 days.`
+    }
+  );
+}
+
+/**
+ * Add test cases to a test suite
+ */
+export async function addTestCases(args: z.infer<typeof TestCenterToolSchemas.addTestCases>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_test_case_add',
+    args,
+    async (client) => client.request<{ successes?: unknown[]; failures?: Array<{ title?: string; detail?: string }> }>({
+      path: TestCenterEndpoints.testCases(args.testSuiteId),
+      method: 'POST',
+      body: args.testCases.map(toTestCase)
+    }),
+    {
+      format: 'text',
+      formatter: (result) => {
+        let text = `✅ Added ${result.successes?.length ?? args.testCases.length} test case(s) to suite ${args.testSuiteId}\n`;
+        if (result.failures?.length) {
+          text += `\n❌ ${result.failures.length} rejected:\n`;
+          result.failures.forEach(failure => {
+            text += `• ${failure.detail || failure.title}\n`;
+          });
+        }
+        return text;
+      }
+    }
+  );
+}
+
+/**
+ * Remove test cases from a test suite
+ */
+export async function removeTestCases(args: z.infer<typeof TestCenterToolSchemas.removeTestCases>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_test_case_remove',
+    args,
+    async (client) => client.request({
+      path: TestCenterEndpoints.deleteTestCases(args.testSuiteId),
+      method: 'POST',
+      body: args.testCaseIds
+    }),
+    {
+      format: 'text',
+      formatter: () => `✅ Removed test case(s) ${args.testCaseIds.join(', ')} from suite ${args.testSuiteId}`
+    }
+  );
+}
+
+/**
+ * Run test suites against staging or production, optionally waiting for
+ * the results. The json format returns the raw test run, which workflow
+ * test-center steps use to gate later steps.
+ */
+export async function runTests(args: z.infer<typeof TestCenterToolSchemas.runTests>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_test_run',
+    args,
+    async (client) => {
+      let run = await client.request<TestCenterTestRun>({
+        path: TestCenterEndpoints.testRuns(),
+        method: 'POST',
+        body: {
+          targetEnvironment: args.network,
+          ...(args.note && { note: args.note }),
+          sendEmailOnCompletion: false,
+          functional: {
+            testSuiteExecutions: args.testSuiteIds.map(testSuiteId => ({ testSuiteId }))
+          }
+        }
+      });
+
+      const deadline = Date.now() + args.timeout * 1000;
+      while (args.waitForCompletion && run.testRunId && !summarizeTestRun(run).finished && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        run = await fetchTestRun(client, run.testRunId);
+      }
+      return run;
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : {
+        format: 'text',
+        formatter: (run) => `${formatTestRun(run)}\n` +
+          (summarizeTestRun(run).finished ? '' : `Check results with test_center_test_run_get testRunId=${run.testRunId}.`)
+      }
+  );
+}
+
+/**
+ * Get the status and results of a test run
+ */
+export async function getTestRun(args: z.infer<typeof TestCenterToolSchemas.getTestRun>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_test_run_get',
+    args,
+    async (client) => fetchTestRun(client, args.testRunId),
+    args.format === 'json' ? { format: 'json' } : { format: 'text', formatter: formatTestRun }
+  );
+}
+
+/**
+ * Generate a smoke test suite from a property version's rule tree and
+ * hostnames, and create it
+ */
+export async function generateTestSuite(args: z.infer<typeof TestCenterToolSchemas.generateTestSuite>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'test-center',
+    'test_center_suite_generate',
+    args,
+    async (client) => {
+      const property = await client.request<{
+        properties: { items: Array<{ propertyName: string; contractId: string; groupId: string; latestVersion: number }> };
+      }>({
+        path: PropertyEndpoints.getProperty(args.propertyId),
+        method: 'GET'
+      });
+      const details = property.properties.items[0];
+      if (!details) {
+        throw new Error(`Property ${args.propertyId} not found`);
+      }
+      const version = args.version ?? details.latestVersion;
+
+      let hostnames = args.hostnames;
+      if (!hostnames?.length) {
+        const response = await client.request<{ hostnames: { items: Array<{ cnameFrom: string }> } }>({
+          path: `${PropertyEndpoints.getPropertyVersion(args.propertyId, version)}/hostnames`,
+          method: 'GET',
+          queryParams: { contractId: details.contractId, groupId: details.groupId }
+        });
+        hostnames = response.hostnames.items.map(item => item.cnameFrom).filter(hostname => !hostname.startsWith('*'));
+      }
+      if (hostnames.length === 0) {
+        throw new Error(`Property ${args.propertyId} v${version} has no hostnames to test; pass hostnames explicitly`);
+      }
+
+      const { rules } = await client.request<{ rules: RuleTree }>({
+        path: PropertyEndpoints.getPropertyRules(args.propertyId, version),
+        method: 'GET'
+      });
+      const generated = generateTestCases(rules, hostnames, args.maxTestCases);
+      if (generated.testCases.length === 0) {
+        throw new Error(`No test cases could be generated for ${details.propertyName} v${version}`);
+      }
+
+      const suite = await client.request<TestCenterTestSuite>({
+        path: TestCenterEndpoints.testSuiteWithChildren(),
+        method: 'POST',
+        body: {
+          testSuiteName: args.name || `${details.propertyName} v${version} smoke tests`,
+          testSuiteDescription: `Generated from the rule tree of ${details.propertyName} v${version}`,
+          isLocked: false,
+          isStateful: false,
+          configs: { propertyManager: { propertyName: details.propertyName, propertyVersion: version } },
+          testCases: generated.testCases.map(({ testCase }) => toTestCase(testCase))
+        }
+      });
+      return { suite, generated };
+    },
+    {
+      format: 'text',
+      formatter: ({ suite, generated }) => {
+        let text = `✅ Generated test suite ${suite.testSuiteName} (${suite.testSuiteId}) ` +
+          `with ${generated.testCases.length} test case(s)\n\n`;
+        generated.testCases.forEach(({ testCase, rule }) => {
+          text += `• ${testCase.url}\n  ${testCase.condition} [${rule}]\n`;
+        });
+        if (generated.truncated > 0) {
+          text += `\n${generated.truncated} more test case(s) were left out by maxTestCases.\n`;
+        }
+        if (generated.skipped.length > 0) {
+          text += `\n**Rules without test cases** (${generated.skipped.length}):\n`;
+          generated.skipped.forEach(reason => {
+            text += `• ${reason}\n`;
+          });
+        }
+        text += `\nReview the suite, then run it with test_center_test_run testSuiteIds=[${suite.testSuiteId}].`;
+        return text;
+      }
+    }
+  );
+}
@@ -19,6 +19,8 @@
 import { z } from 'zod';
 import type { MCPToolResponse } from '../types/mcp-protocol';
 import type { AkamaiClient } from '../akamai-client';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { deriveToolAnnotations, type HttpMethod } from './common/tool-annotations';
 
 /**
  * Base tool handler type
@@ -37,6 +39,7 @@ export interface ToolDefinition<TSchema extends z.ZodType = z.ZodType> {
   schema: TSchema;
   handler: ToolHandler<z.infer<TSchema>>;
   metadata?: ToolMetadata;
+  annotations?: ToolAnnotations;
 }
 
 /**
@@ -52,6 +55,7 @@ export interface ToolMetadata {
   replacedBy?: string;
   tags?: string[];
   requiredPermissions?: string[];
+  httpMethod?: HttpMethod; // Overrides the method inferred from the tool name
 }
 
 /**
@@ -134,6 +138,49 @@ import { suggestRecoveryTool, executeRecoveryTool, analyzeRecoveryTool } from '.
 // Workflow Orchestrator Tools (4 tools - KAIZEN workflow orchestration)
 import { workflowOrchestratorTools } from './workflow';
 
+// Approval Tools (2 tools - production change two-person rule)
+import { approvalTools } from './approval';
+import { auditTools } from './audit';
+
+// Events Tools (1 tool - change event center)
+import { eventsTools } from './events';
+
+// IAM Tools (13 tools - identity and access management)
+import { iamTools } from './iam';
+
+// DataStream Tools (9 tools - DataStream 2 log delivery)
+import { datastreamTools } from './datastream';
+
+// Image & Video Manager Tools (11 tools - IVM policy sets and policies)
+import { imageManagerTools } from './image-manager';
+
+// Client Lists Tools (8 tools - client lists and network list migration)
+import { clientListTools } from './client-lists';
+
+// Test Center Tools (10 tools - functional testing)
+import { testCenterTools } from './test-center';
+
+// Site Shield Tools (5 tools - origin firewall CIDR maps)
+import { siteShieldTools } from './site-shield';
+
+// CP Code Tools (8 tools - reporting groups and CP code lifecycle)
+import { cpcodeTools } from './cpcodes';
+
+// AppSec Configuration Tools (5 tools - config versions, export and diff)
+import { appSecConfigTools } from './appsec-config';
+
+// WAF Tuning Tools (1 tool - rule exceptions from SIEM events)
+import { wafTuningTools } from './waf-tuning';
+
+// AppSec Policy Tools (12 tools - protections, penalty box, evaluation mode, hostname coverage)
+import { appSecPolicyTools } from './appsec-policy';
+
+// Security Posture Tools (1 tool - per-hostname security checklist report)
+import { securityPostureTools } from './security-posture';
+
+// Bot Manager Tools (17 tools - custom bot categories, custom bots and clients, category actions, transactional endpoints)
+import { botManagerTools } from './bot-manager';
+
 /**
  * Tool definition interface with strong typing
  */
@@ -156,6 +203,19 @@ function convertToolsToDefinitions(toolsObject: Record<string, any>): ToolDefini
   }));
 }
 
+/**
+ * Attach metadata and MCP annotations (read-only, destructive, idempotent)
+ * so clients can auto-approve reads and confirm risky operations
+ */
+function withToolAnnotations(tool: ToolDefinition): ToolDefinition {
+  const metadata: ToolMetadata = tool.metadata || { domain: tool.name.split('_')[0] || tool.name };
+  return {
+    ...tool,
+    metadata,
+    annotations: tool.annotations || deriveToolAnnotations(tool.name, metadata),
+  };
+}
+
 /**
  * Get all tool definitions from consolidated modules
  * MIGRATION PHASE: Only load migrated snake_case tools for clean startup
@@ -183,11 +243,11 @@ export function getAllToolDefinitions(): ToolDefinition[] {
   allTools.push(...convertToolsToDefinitions(reportingTools));
 
   // FastPurge Tools (8 tools - fully migrated)
-  allTools.push(...convertToolsToDefinitions(FastPurgeTools.getAllTools()));
+  allTools.push(...convertToolsToDefinitions(FastPurgeTools));
   allTools.push(...convertToolsToDefinitions(FastPurgeMonitoringTools.getAllTools()));
 
   // SIEM Tools (4 tools - fully migrated)
-  allTools.push(...convertToolsToDefinitions(SIEMTools.getAllTools()));
+  allTools.push(...convertToolsToDefinitions(SIEMTools));
 
   // Orchestration Tools (7 tools - fully migrated)
   allTools.push(...convertToolsToDefinitions(OrchestrationTools.getAllTools()));
@@ -233,6 +293,51 @@ export function getAllToolDefinitions(): ToolDefinition[] {
   // Workflow Orchestrator Tools (4 tools - KAIZEN workflow orchestration)
   allTools.push(...convertToolsToDefinitions(workflowOrchestratorTools));
 
+  // Approval Tools (2 tools - production change two-person rule)
+  allTools.push(...convertToolsToDefinitions(approvalTools));
+
+  // Audit Tools (1 tool - tool invocation audit log)
+  allTools.push(...convertToolsToDefinitions(auditTools));
+
+  // Events Tools (1 tool - property, security config and DNS change feed)
+  allTools.push(...convertToolsToDefinitions(eventsTools));
+
+  // IAM Tools (13 tools - users, roles, groups, API clients and credential rotation)
+  allTools.push(...convertToolsToDefinitions(iamTools));
+
+  // DataStream Tools (9 tools - log delivery streams, connectors and property linking)
+  allTools.push(...convertToolsToDefinitions(datastreamTools));
+
+  // Image & Video Manager Tools (11 tools - policy sets, policies, rollback and property attachment)
+  allTools.push(...convertToolsToDefinitions(imageManagerTools));
+
+  // Client Lists Tools (8 tools - lists, items with expirations, activation and migration)
+  allTools.push(...convertToolsToDefinitions(clientListTools));
+
+  // Test Center Tools (10 tools - test suites, test cases, test runs and suite generation)
+  allTools.push(...convertToolsToDefinitions(testCenterTools));
+
+  // Site Shield Tools (5 tools - maps, CIDR diffs, acknowledgement and firewall exports)
+  allTools.push(...convertToolsToDefinitions(siteShieldTools));
+
+  // CP Code Tools (8 tools - reporting groups, CP code settings and unused CP code audit)
+  allTools.push(...convertToolsToDefinitions(cpcodeTools));
+
+  // AppSec Configuration Tools (5 tools - version list/clone, full export and semantic version diff)
+  allTools.push(...convertToolsToDefinitions(appSecConfigTools));
+
+  // WAF Tuning Tools (1 tool - false-positive clusters and proposed rule exceptions)
+  allTools.push(...convertToolsToDefinitions(wafTuningTools));
+
+  // AppSec Policy Tools (12 tools - protection switches, penalty box, evaluation lifecycle and hostname coverage report)
+  allTools.push(...convertToolsToDefinitions(appSecPolicyTools));
+
+  // Security Posture Tools (1 tool - WAF, rate, bot, TLS, HSTS, Site Shield and network list scoring per hostname)
+  allTools.push(...convertToolsToDefinitions(securityPostureTools));
+
+  // Bot Manager Tools (17 tools - Bot Manager Premier settings and bot action diff across policies)
+  allTools.push(...convertToolsToDefinitions(botManagerTools));
+
 
 
 
@@ -253,7 +358,7 @@ export function getAllToolDefinitions(): ToolDefinition[] {
   // MIGRATION COMPLETE - All tools now use snake_case naming
   // Total tools: 159 (after removing duplicates and mock billing + 3 error recovery tools)
 
-  return allTools;
+  return allTools.map(withToolAnnotations);
 }
 
 /**
@@ -0,0 +1,38 @@
+/**
+ * WAF Tuning Domain Export Module
+ *
+ * Exports WAF tuning tools using the standard BaseTool pattern
+ */
+
+import { suggestExceptions } from './waf-tuning-tools';
+import { WafTuningToolSchemas } from './waf-tuning-api-implementation';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPToolResponse } from '../../types/mcp-protocol';
+
+/**
+ * Tool interface with proper typing
+ */
+interface WafTuningTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (client: unknown, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+}
+
+/**
+ * WAF Tuning Domain Tools with handlers
+ */
+export const wafTuningTools: Record<string, WafTuningTool> = {
+  // Rule Exceptions
+  'security_waf_tuning_suggest': {
+    name: 'security_waf_tuning_suggest',
+    description: 'Cluster WAF false-positive candidates from SIEM events by rule, host, path and parameter, and propose rule exceptions for security_waf_rule_configure with their historical impact (not applied)',
+    inputSchema: zodToJsonSchema(WafTuningToolSchemas.suggestExceptions),
+    handler: async (_client: unknown, args: Record<string, unknown>): Promise<MCPToolResponse> => {
+      const validatedArgs = WafTuningToolSchemas.suggestExceptions.parse(args);
+      return suggestExceptions(validatedArgs);
+    }
+  }
+};
+
+export default wafTuningTools;
@@ -0,0 +1,86 @@
+/**
+ * WAF Tuning API Implementation
+ *
+ * Schemas and types for the WAF tuning assistant. Security events come
+ * from the SIEM API through the siem_events_fetch path; the current rule
+ * settings being tuned come from the Application Security API.
+ *
+ * API Documentation: https://techdocs.akamai.com/siem-integration/reference
+ */
+
+import { z } from 'zod';
+import { CustomerSchema } from '../common/validators';
+import { APPSEC_API_BASE } from '../appsec-config/appsec-config-api-implementation';
+
+/**
+ * WAF Tuning API Endpoints
+ */
+export const WafTuningEndpoints = {
+  rule: (configId: number, version: number, policyId: string, ruleId: number) =>
+    `${APPSEC_API_BASE}/configs/${configId}/versions/${version}/security-policies/${policyId}/rules/${ruleId}`
+};
+
+/**
+ * WAF Tuning Tool Schemas
+ */
+export const WafTuningToolSchemas = {
+  suggestExceptions: CustomerSchema.extend({
+    configId: z.number().int().positive().describe('Security configuration ID'),
+    version: z.number().int().positive().optional()
+      .describe('Version whose rule settings the change set is based on (defaults to the latest version)'),
+    policyId: z.string().optional().describe('Only tune this security policy'),
+    ruleIds: z.array(z.number().int().positive()).optional().describe('Only tune these rules'),
+    hours: z.number().int().min(1).max(12).optional().default(12)
+      .describe('Event look-back window (SIEM keeps 12 hours)'),
+    limit: z.number().int().min(1000).max(600000).optional().default(50000).describe('Maximum events to analyze'),
+    minEvents: z.number().int().min(1).optional().default(10)
+      .describe('Minimum rule triggers for a cluster to be a false-positive candidate'),
+    minClients: z.number().int().min(1).optional().default(5)
+      .describe('Minimum distinct client IPs for a cluster to be a false-positive candidate'),
+    maxClientShare: z.number().gt(0).max(1).optional().default(0.5)
+      .describe('Largest share of a cluster one client IP may contribute'),
+    format: z.enum(['text', 'json']).optional().default('text')
+  })
+};
+
+/**
+ * A WAF rule match as found in SIEM events
+ */
+export interface WafRuleTrigger {
+  configId: string;
+  policyId: string;
+  ruleId: number;
+  ruleMessage?: string;
+  selector?: string;
+  action?: string;
+  clientIp: string;
+  host: string;
+  path: string;
+  requestId: string;
+}
+
+export interface WafExceptionName {
+  names: string[];
+  selector: string;
+  wildcard: boolean;
+}
+
+export interface WafConditionException {
+  conditions?: Array<{
+    type: 'hostMatch' | 'pathMatch';
+    positiveMatch: boolean;
+    hosts?: string[];
+    paths?: string[];
+  }>;
+  exception?: {
+    specificHeaderCookieParamXmlOrJsonNames: WafExceptionName[];
+  };
+}
+
+/**
+ * Current settings of a rule in a policy
+ */
+export interface WafRuleSettings {
+  action: string;
+  conditionException?: WafConditionException;
+}
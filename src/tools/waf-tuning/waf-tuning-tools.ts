@@ -0,0 +1,173 @@
+/**
+ * WAF Tuning Tools Implementation
+ *
+ * Builds a reviewable change set of WAF rule exceptions from SIEM events.
+ * Nothing is applied: each change lists the security_waf_rule_configure
+ * arguments that would apply it, apart from the version, which is the
+ * clone the user makes for the change.
+ */
+
+import { type MCPToolResponse, BaseTool } from '../common';
+import type { z } from 'zod';
+import type { AkamaiClient } from '../../akamai-client';
+import { fetchSIEMEventBatch } from '../siem/consolidated-siem-tools';
+import { latestConfigVersion } from '../appsec-config/appsec-config-tools';
+import {
+  WafTuningEndpoints,
+  WafTuningToolSchemas,
+  type WafConditionException,
+  type WafRuleSettings
+} from './waf-tuning-api-implementation';
+import {
+  type WafExceptionProposal,
+  type WafTuningCluster,
+  clusterTriggers,
+  normalizeSiemEvent,
+  proposeExceptions
+} from './waf-tuning';
+
+interface WafTuningChange extends WafExceptionProposal {
+  tool: 'security_waf_rule_configure';
+  args: {
+    configId: number;
+    policyId: string;
+    ruleId: number;
+    action: string;
+    conditionException: WafConditionException;
+  };
+  current?: WafRuleSettings;
+}
+
+interface WafTuningChangeSet {
+  configId: number;
+  version: number;
+  window: { from: string; to: string };
+  eventsAnalyzed: number;
+  triggersAnalyzed: number;
+  candidates: WafTuningCluster[];
+  changes: WafTuningChange[];
+}
+
+async function fetchRuleSettings(
+  client: AkamaiClient,
+  configId: number,
+  version: number,
+  proposal: WafExceptionProposal
+): Promise<WafRuleSettings | undefined> {
+  try {
+    return await client.request<WafRuleSettings>({
+      path: WafTuningEndpoints.rule(configId, version, proposal.policyId, proposal.ruleId),
+      method: 'GET'
+    });
+  } catch {
+    // The change set is still useful without the current settings
+    return undefined;
+  }
+}
+
+function formatCluster(cluster: WafTuningCluster): string {
+  const parameter = cluster.parameter ? ` ${cluster.parameter.selector}:${cluster.parameter.name}` : '';
+  const actions = Object.entries(cluster.actions).map(([action, count]) => `${count} ${action}`).join(', ');
+  return `• ${cluster.policyId} rule ${cluster.ruleId} | ${cluster.host}${cluster.path}${parameter} | ` +
+    `${cluster.requests} requests from ${cluster.clients} clients (top client ${Math.round(cluster.topClientShare * 100)}%)` +
+    `${actions ? ` | ${actions}` : ''}\n`;
+}
+
+function formatChangeSet(changeSet: WafTuningChangeSet): string {
+  let text = `🎛️ **WAF Tuning Change Set**: configuration ${changeSet.configId} v${changeSet.version}\n` +
+    `Window: ${changeSet.window.from} to ${changeSet.window.to} | ${changeSet.eventsAnalyzed} events, ` +
+    `${changeSet.triggersAnalyzed} rule triggers | ${changeSet.candidates.length} false-positive candidate clusters\n`;
+
+  if (changeSet.changes.length === 0) {
+    return `${text}\nNo rule exceptions proposed. Lower minEvents or minClients to consider smaller clusters.`;
+  }
+
+  text += `\n**Candidate clusters**:\n`;
+  changeSet.candidates.slice(0, 20).forEach(cluster => {
+    text += formatCluster(cluster);
+  });
+  if (changeSet.candidates.length > 20) {
+    text += `… ${changeSet.candidates.length - 20} more (use format json)\n`;
+  }
+
+  text += `\n**Proposed changes** (${changeSet.changes.length}, not applied):\n`;
+  changeSet.changes.forEach((change, index) => {
+    text += `\n${index + 1}. ${change.policyId} rule ${change.ruleId}${change.ruleMessage ? ` (${change.ruleMessage})` : ''}: ` +
+      `${change.kind === 'exception' ? 'exception for named inputs' : 'condition on host and path'} ` +
+      `from ${change.clusters} clusters\n`;
+    text += `   Would have affected ${change.impact.requests} requests (${change.impact.events} triggers) ` +
+      `from ${change.impact.clients} clients\n`;
+    if (change.impact.outsideCandidates > 0) {
+      text += `   ⚠️ ${change.impact.outsideCandidates} of those triggers were not false-positive candidates\n`;
+    }
+    if (change.current?.conditionException) {
+      text += '   ⚠️ Replaces the rule\'s current condition/exception; merge it in before applying\n';
+    }
+    text += `   ${change.tool} ${JSON.stringify(change.args)}\n`;
+  });
+
+  text += `\nClone v${changeSet.version} with security_config_version_clone and apply changes to the clone ` +
+    'by adding its number as version to the arguments above, then review them with ' +
+    'security_config_version_diff before activating.';
+  return text;
+}
+
+/**
+ * Propose WAF rule exceptions from recent SIEM events
+ */
+export async function suggestExceptions(args: z.infer<typeof WafTuningToolSchemas.suggestExceptions>): Promise<MCPToolResponse> {
+  return BaseTool.execute(
+    'appsec',
+    'security_waf_tuning_suggest',
+    args,
+    async (client) => {
+      const to = Math.floor(Date.now() / 1000);
+      const from = to - args.hours * 3600;
+      const { events } = await fetchSIEMEventBatch(client, String(args.configId), {
+        from: String(from),
+        to: String(to),
+        limit: String(args.limit)
+      });
+
+      const triggers = events
+        .flatMap(normalizeSiemEvent)
+        .filter(trigger => (!args.policyId || trigger.policyId === args.policyId) &&
+          (!args.ruleIds || args.ruleIds.includes(trigger.ruleId)));
+      const clusters = clusterTriggers(triggers, args);
+      const proposals = proposeExceptions(triggers, clusters);
+
+      const version = args.version ?? await latestConfigVersion(client, args.configId);
+
+      const changes: WafTuningChange[] = [];
+      for (const proposal of proposals) {
+        const current = await fetchRuleSettings(client, args.configId, version, proposal);
+        changes.push({
+          ...proposal,
+          tool: 'security_waf_rule_configure',
+          args: {
+            configId: args.configId,
+            policyId: proposal.policyId,
+            ruleId: proposal.ruleId,
+            action: proposal.action,
+            conditionException: proposal.conditionException
+          },
+          ...(current && { current })
+        });
+      }
+
+      const changeSet: WafTuningChangeSet = {
+        configId: args.configId,
+        version,
+        window: { from: new Date(from * 1000).toISOString(), to: new Date(to * 1000).toISOString() },
+        eventsAnalyzed: events.length,
+        triggersAnalyzed: triggers.length,
+        candidates: clusters.filter(cluster => cluster.candidate),
+        changes
+      };
+      return changeSet;
+    },
+    args.format === 'json'
+      ? { format: 'json' }
+      : { format: 'text', formatter: formatChangeSet }
+  );
+}
@@ -0,0 +1,305 @@
+/**
+ * WAF Tuning Analysis
+ *
+ * Turns SIEM events into WAF rule triggers, clusters them by policy, rule,
+ * host, path and parameter, flags clusters that look like false positives
+ * (many clients hitting the same rule on the same input) and proposes
+ * condition/exception blocks for security_waf_rule_configure. Each proposal
+ * is replayed against the historical triggers to estimate its impact.
+ */
+
+import type {
+  WafConditionException,
+  WafExceptionName,
+  WafRuleTrigger
+} from './waf-tuning-api-implementation';
+
+export interface WafTuningThresholds {
+  minEvents: number;
+  minClients: number;
+  maxClientShare: number;
+}
+
+export interface WafTuningCluster {
+  policyId: string;
+  ruleId: number;
+  ruleMessage?: string;
+  host: string;
+  path: string;
+  parameter?: { selector: string; name: string };
+  events: number;
+  requests: number;
+  clients: number;
+  topClientShare: number;
+  actions: Record<string, number>;
+  candidate: boolean;
+}
+
+export interface WafExceptionImpact {
+  events: number;
+  requests: number;
+  clients: number;
+  // Matched triggers that were not part of a false-positive candidate cluster
+  outsideCandidates: number;
+}
+
+export interface WafExceptionProposal {
+  policyId: string;
+  ruleId: number;
+  ruleMessage?: string;
+  kind: 'exception' | 'condition';
+  action: string;
+  conditionException: WafConditionException;
+  clusters: number;
+  impact: WafExceptionImpact;
+}
+
+/**
+ * Selectors a rule exception can name specific inputs for
+ */
+const EXCEPTION_SELECTORS = new Set([
+  'ARGS', 'ARGS_NAMES', 'JSON_PAIRS', 'XML_PAIRS',
+  'REQUEST_COOKIES', 'REQUEST_COOKIES_NAMES', 'REQUEST_HEADERS', 'REQUEST_HEADERS_NAMES'
+]);
+
+function decodeBase64(value: string): string {
+  if (value.length % 4 !== 0 || !/^[A-Za-z0-9+/]+=*$/.test(value)) {
+    return value;
+  }
+  const decoded = Buffer.from(value, 'base64').toString('utf8');
+  return /^[\x20-\x7e]*$/.test(decoded) ? decoded : value;
+}
+
+/**
+ * Values of a SIEM multi-value field
+ * SIEM URL-encodes the field and base64-encodes each semicolon-separated value.
+ */
+export function decodeSiemList(value: unknown): string[] {
+  if (typeof value !== 'string' || value === '') {
+    return [];
+  }
+  let text = value;
+  try {
+    text = decodeURIComponent(value);
+  } catch {
+    // Not URL-encoded
+  }
+  return text.split(';').map(decodeBase64);
+}
+
+/**
+ * Path with numeric and ID-like segments replaced by a wildcard so that
+ * /orders/123 and /orders/456 cluster together
+ */
+export function pathPattern(path: string): string {
+  const withoutQuery = path.split('?')[0] || '/';
+  return withoutQuery
+    .split('/')
+    .map(segment => /^\d+$/.test(segment) || /^[0-9a-f-]{16,}$/i.test(segment) ? '*' : segment)
+    .join('/');
+}
+
+/**
+ * Exception selector and input name of a rule selector such as ARGS:q
+ */
+export function parseSelector(selector: string | undefined): { selector: string; name: string } | undefined {
+  const match = selector?.match(/^([A-Z_]+):(.+)$/);
+  if (!match || !EXCEPTION_SELECTORS.has(match[1]!)) {
+    return undefined;
+  }
+  return { selector: match[1]!, name: match[2]! };
+}
+
+/**
+ * One trigger per rule that matched the request of a SIEM event
+ * Also accepts events with a single plain ruleId/ruleSelector.
+ */
+export function normalizeSiemEvent(event: unknown): WafRuleTrigger[] {
+  const { attackData = {}, httpMessage = {} } = (event || {}) as {
+    attackData?: Record<string, unknown>;
+    httpMessage?: Record<string, unknown>;
+  };
+  const text = (value: unknown): string => value === undefined || value === null ? '' : String(value);
+
+  const rules = attackData['rules'] !== undefined ? decodeSiemList(attackData['rules']) : [text(attackData['ruleId'])];
+  const messages = attackData['ruleMessages'] !== undefined
+    ? decodeSiemList(attackData['ruleMessages'])
+    : [text(attackData['ruleMessage'])];
+  const selectors = attackData['ruleSelectors'] !== undefined
+    ? decodeSiemList(attackData['ruleSelectors'])
+    : [text(attackData['ruleSelector'])];
+  const actions = attackData['ruleActions'] !== undefined
+    ? decodeSiemList(attackData['ruleActions'])
+    : [text(attackData['ruleAction'])];
+
+  const host = text(httpMessage['host'] ?? attackData['host']).toLowerCase();
+  const path = text(httpMessage['path'] ?? attackData['path']) || '/';
+  const requestId = text(httpMessage['requestId']);
+
+  return rules.flatMap((rule, index) => {
+    const ruleId = Number(rule);
+    if (!Number.isInteger(ruleId) || ruleId <= 0) {
+      return [];
+    }
+    return [{
+      configId: text(attackData['configId']),
+      policyId: text(attackData['policyId']),
+      ruleId,
+      ...(messages[index] && { ruleMessage: messages[index] }),
+      ...(selectors[index] && { selector: selectors[index] }),
+      ...(actions[index] && { action: actions[index] }),
+      clientIp: text(attackData['clientIP'] ?? attackData['clientIp']),
+      host,
+      path,
+      requestId: requestId || `${attackData['clientIP']}:${httpMessage['start']}:${path}`
+    }];
+  });
+}
+
+function clusterKey(trigger: WafRuleTrigger): string {
+  const parameter = parseSelector(trigger.selector);
+  return [trigger.policyId, trigger.ruleId, trigger.host, pathPattern(trigger.path),
+    parameter ? `${parameter.selector}:${parameter.name}` : ''].join('|');
+}
+
+/**
+ * Clusters of triggers by policy, rule, host, path and parameter, most
+ * frequent first
+ */
+export function clusterTriggers(triggers: WafRuleTrigger[], thresholds: WafTuningThresholds): WafTuningCluster[] {
+  const groups = new Map<string, WafRuleTrigger[]>();
+  triggers.forEach(trigger => {
+    const key = clusterKey(trigger);
+    groups.set(key, [...(groups.get(key) || []), trigger]);
+  });
+
+  return [...groups.values()]
+    .map(group => {
+      const first = group[0]!;
+      const byClient = new Map<string, number>();
+      const actions: Record<string, number> = {};
+      group.forEach(trigger => {
+        byClient.set(trigger.clientIp, (byClient.get(trigger.clientIp) || 0) + 1);
+        if (trigger.action) {
+          actions[trigger.action] = (actions[trigger.action] || 0) + 1;
+        }
+      });
+      const topClientShare = Math.max(...byClient.values()) / group.length;
+      const parameter = parseSelector(first.selector);
+
+      return {
+        policyId: first.policyId,
+        ruleId: first.ruleId,
+        ...(first.ruleMessage && { ruleMessage: first.ruleMessage }),
+        host: first.host,
+        path: pathPattern(first.path),
+        ...(parameter && { parameter }),
+        events: group.length,
+        requests: new Set(group.map(trigger => trigger.requestId)).size,
+        clients: byClient.size,
+        topClientShare: Math.round(topClientShare * 100) / 100,
+        actions,
+        candidate: group.length >= thresholds.minEvents &&
+          byClient.size >= thresholds.minClients &&
+          topClientShare <= thresholds.maxClientShare
+      };
+    })
+    .sort((a, b) => b.events - a.events);
+}
+
+function wildcardMatch(pattern: string, value: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+  return regex.test(value);
+}
+
+/**
+ * Whether a condition/exception block would have exempted a trigger
+ */
+export function matchesConditionException(trigger: WafRuleTrigger, block: WafConditionException): boolean {
+  const conditionsMatch = (block.conditions || []).every(condition => {
+    const matched = condition.type === 'hostMatch'
+      ? (condition.hosts || []).includes(trigger.host)
+      : (condition.paths || []).some(path => wildcardMatch(path, pathPattern(trigger.path)));
+    return matched === condition.positiveMatch;
+  });
+  if (!conditionsMatch) {
+    return false;
+  }
+
+  const names = block.exception?.specificHeaderCookieParamXmlOrJsonNames;
+  if (!names) {
+    return true;
+  }
+  const parameter = parseSelector(trigger.selector);
+  return !!parameter && names.some(entry => entry.selector === parameter.selector && entry.names.includes(parameter.name));
+}
+
+/**
+ * One condition/exception block per policy and rule covering its candidate
+ * clusters. When every cluster names an input the rule is excepted for those
+ * inputs on the clusters' hosts and paths; otherwise the rule is turned off
+ * for the hosts and paths altogether.
+ */
+export function proposeExceptions(triggers: WafRuleTrigger[], clusters: WafTuningCluster[]): WafExceptionProposal[] {
+  const byRule = new Map<string, WafTuningCluster[]>();
+  clusters.filter(cluster => cluster.candidate).forEach(cluster => {
+    const key = `${cluster.policyId}|${cluster.ruleId}`;
+    byRule.set(key, [...(byRule.get(key) || []), cluster]);
+  });
+
+  const candidateKeys = new Set(clusters.filter(cluster => cluster.candidate).map(cluster =>
+    [cluster.policyId, cluster.ruleId, cluster.host, cluster.path,
+      cluster.parameter ? `${cluster.parameter.selector}:${cluster.parameter.name}` : ''].join('|')));
+
+  return [...byRule.values()].map(ruleClusters => {
+    const first = ruleClusters[0]!;
+    const hosts = [...new Set(ruleClusters.map(cluster => cluster.host))].sort();
+    const paths = [...new Set(ruleClusters.map(cluster => cluster.path))].sort();
+    const kind = ruleClusters.every(cluster => cluster.parameter) ? 'exception' as const : 'condition' as const;
+
+    const names = new Map<string, Set<string>>();
+    if (kind === 'exception') {
+      ruleClusters.forEach(cluster => {
+        const selector = cluster.parameter!.selector;
+        names.set(selector, (names.get(selector) || new Set()).add(cluster.parameter!.name));
+      });
+    }
+    const exceptionNames: WafExceptionName[] = [...names]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([selector, inputs]) => ({ names: [...inputs].sort(), selector, wildcard: false }));
+
+    const conditionException: WafConditionException = {
+      conditions: [
+        { type: 'hostMatch', positiveMatch: true, hosts },
+        { type: 'pathMatch', positiveMatch: true, paths }
+      ],
+      ...(kind === 'exception' && { exception: { specificHeaderCookieParamXmlOrJsonNames: exceptionNames } })
+    };
+
+    const matched = triggers.filter(trigger =>
+      trigger.policyId === first.policyId && trigger.ruleId === first.ruleId &&
+      matchesConditionException(trigger, conditionException));
+    const actionCounts = new Map<string, number>();
+    ruleClusters.forEach(cluster => Object.entries(cluster.actions).forEach(([action, count]) =>
+      actionCounts.set(action, (actionCounts.get(action) || 0) + count)));
+    // Custom deny actions (deny_custom_...) are configured as deny
+    const observed = [...actionCounts].sort((a, b) => b[1] - a[1])[0]?.[0] || 'deny';
+    const action = observed.startsWith('deny') ? 'deny' : 'alert';
+
+    return {
+      policyId: first.policyId,
+      ruleId: first.ruleId,
+      ...(first.ruleMessage && { ruleMessage: first.ruleMessage }),
+      kind,
+      action,
+      conditionException,
+      clusters: ruleClusters.length,
+      impact: {
+        events: matched.length,
+        requests: new Set(matched.map(trigger => trigger.requestId)).size,
+        clients: new Set(matched.map(trigger => trigger.clientIp)).size,
+        outsideCandidates: matched.filter(trigger => !candidateKeys.has(clusterKey(trigger))).length
+      }
+    };
+  }).sort((a, b) => b.impact.requests - a.impact.requests);
+}
@@ -9,7 +9,7 @@
 import { z } from 'zod';
 import { createMCPTool } from '../../utils/mcp-tool-factory';
 import { workflowOrchestrator } from '../../services/workflow-orchestrator-service';
-import { ConfigurationHintsService } from '../../services/configuration-hints-service';
+import { ConfigurationHintsService } from '../../services/user-hint-service';
 // import { IdTranslationService } from '../../services/id-translation-service';
 
 const parametersSchema = z.object({
@@ -141,8 +141,12 @@ export class MCPStreamableHTTPTransport implements Transport {
         // Call handler with extra info
         if (this.onmessage) {
           // Create MCP-compliant extra info
+          const authorization = req.headers.authorization;
           const extra: MessageExtraInfo = {
-            // MCP SDK doesn't have specific fields, it's extensible
+            // Bearer token is resolved to RBAC roles by the call handler
+            ...(authorization?.startsWith('Bearer ') && {
+              authInfo: { token: authorization.substring(7), clientId, scopes: [] },
+            }),
           };
           
           // Don't await - process asynchronously
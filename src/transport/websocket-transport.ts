@@ -44,7 +44,12 @@ import { createServer, Server as HttpServer } from 'http';
 import { createServer as createHttpsServer, Server as HttpsServer } from 'https';
 import { readFileSync } from 'fs';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { JSONRPCMessage, JSONRPCRequest, JSONRPCResponse } from '@modelcontextprotocol/sdk/types.js';
+import {
+  JSONRPCMessage,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  MessageExtraInfo,
+} from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../utils/logger';
 // import { validateApiToken } from '../auth/TokenManager';
 // import { SmartCache } from '../utils/smart-cache';
@@ -57,6 +62,7 @@ interface WebSocketSession {
   client: WebSocket;
   authenticated: boolean;
   tokenId?: string;
+  bearerToken?: string;
   lastActivity: Date;
   lastPing?: Date;
   pendingRequests: Map<string, {
@@ -120,7 +126,7 @@ export class WebSocketServerTransport implements Transport {
   
   onclose?: () => void;
   onerror?: (error: Error) => void;
-  onmessage?: (message: JSONRPCMessage) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
   sessionId?: string;
   
   private readonly options: Required<WebSocketServerTransportOptions>;
@@ -263,6 +269,9 @@ export class WebSocketServerTransport implements Transport {
       client: ws,
       authenticated: !!req.tokenInfo,
       tokenId: req.tokenInfo?.id,
+      bearerToken: req.headers?.authorization?.startsWith('Bearer ')
+        ? req.headers.authorization.substring(7)
+        : undefined,
       lastActivity: new Date(),
       pendingRequests: new Map(),
       messageCount: 0,
@@ -356,7 +365,9 @@ export class WebSocketServerTransport implements Transport {
     
     // Forward to MCP handler
     if (this.onmessage) {
-      this.onmessage(request);
+      this.onmessage(request, session.bearerToken
+        ? { authInfo: { token: session.bearerToken, clientId: session.id, scopes: [] } }
+        : undefined);
     }
   }
   
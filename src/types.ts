@@ -146,6 +146,7 @@ export interface MCPToolResponse {
     type: 'text';
     text: string;
   }>;
+  isError?: boolean;
 }
 
 // DNS Types (needed by dns-migration-tools)
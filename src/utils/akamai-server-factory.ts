@@ -45,6 +45,14 @@ import { AkamaiClient } from '../akamai-client';
 import { MCPToolResponse } from '../types/mcp-protocol';
 import { MCPCompatibilityWrapper } from './mcp-compatibility-wrapper';
 import { createTransport } from './transport-factory';
+import { createProgressNotifier } from './mcp-progress';
+import { CustomerContextManager } from '../services/CustomerContextManager';
+import { ANONYMOUS_PRINCIPAL, authorizationError } from '../auth/rbac-policy';
+import { runAsCaller } from '../auth/caller-context';
+import { approvalService } from '../services/approval-service';
+import { ChangeFreezeService } from '../services/change-freeze-service';
+import { auditLogService, type AuditInvocation } from '../services/audit-log-service';
+import { DRY_RUN_PROPERTY, executeAsPlan, formatPlan, isPlanRequested } from '../core/dry-run';
 
 // Import the complete tool registry
 import { getAllToolDefinitions, type ToolDefinition } from '../tools/tools-registry';
@@ -604,10 +612,15 @@ export class AkamaiMCPServer {
       protocolLogger.debug('Handling ListTools request');
       
       const tools = Array.from(this.tools.values()).map(tool => {
+        const inputSchema = tool.schema ? this.zodToJsonSchema(tool.schema) : undefined;
+        if (inputSchema?.['properties']) {
+          inputSchema['properties'] = { ...(inputSchema['properties'] as object), dryRun: DRY_RUN_PROPERTY };
+        }
         return {
           name: tool.name,
           description: tool.description,
-          inputSchema: tool.schema ? this.zodToJsonSchema(tool.schema) : undefined,
+          inputSchema,
+          annotations: tool.annotations,
           // Note: MCP doesn't support custom metadata in tool definitions
           // We track execution count internally but don't expose it in the API
         };
@@ -628,7 +641,7 @@ export class AkamaiMCPServer {
     /**
      * CALL TOOL HANDLER - Production-ready with comprehensive error handling
      */
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const startTime = Date.now();
       const { name, arguments: args } = request.params;
       const correlationId = uuidv4();
@@ -637,6 +650,7 @@ export class AkamaiMCPServer {
       // Create request-specific logger with correlation ID
       const requestLogger = createRequestLogger(name, correlationId, customerName);
       requestLogger.info({ args }, 'Tool execution started');
+      let audit: AuditInvocation | undefined;
       
       try {
         // Find tool
@@ -671,6 +685,21 @@ export class AkamaiMCPServer {
           }
         }
 
+        // Role-based authorization for the caller's bearer token
+        const decision = await CustomerContextManager.getInstance().authorizeToolCall({
+          bearerToken: extra.authInfo?.token,
+          customer: customerName,
+          tool: name,
+          args,
+        });
+        const principal = decision.principal || ANONYMOUS_PRINCIPAL;
+        audit = auditLogService.begin({ principal, customer: customerName, tool: name, args, correlationId });
+        if (!decision.allowed) {
+          requestLogger.warn({ reason: decision.reason, principal: decision.principal }, 'Tool execution denied');
+          await audit.finish('denied', { error: decision.reason });
+          throw authorizationError(decision, name, customerName);
+        }
+
         // Create customer-specific client
         const client = new AkamaiClient(customerName);
 
@@ -680,10 +709,55 @@ export class AkamaiMCPServer {
           setTimeout(() => reject(new Error('Tool execution timeout')), timeout);
         });
 
+        // Dry-run or read-only mode: capture mutations and return a plan
+        const execute = async (): Promise<unknown> => {
+          if (!isPlanRequested(args)) {
+            return tool.handler(client, args || {});
+          }
+          const outcome = await executeAsPlan(client, name, customerName, () => tool.handler(client, args || {}));
+          if ('plan' in outcome) {
+            requestLogger.info({ requests: outcome.plan.changes.length }, 'Tool execution planned');
+            return { content: [{ type: 'text', text: formatPlan(outcome.plan) }] };
+          }
+          return outcome.result;
+        };
+
+        // Activations are blocked during the customer's change freeze windows
+        const frozen = isPlanRequested(args) ? undefined : ChangeFreezeService.getInstance().checkToolCall(customerName, name, args || {});
+        if (frozen) {
+          requestLogger.warn({ freeze: frozen.decision.freeze }, 'Tool execution blocked by change freeze');
+          await audit.finish('denied', { error: frozen.message });
+          return { content: [{ type: 'text', text: `❌ ${frozen.message}` }], isError: true };
+        }
+
+        // Two-person rule: production activations wait for a second token holder
+        const gate = isPlanRequested(args) ? { proceed: true as const } : await approvalService.gate({
+          tool: name,
+          customer: customerName,
+          principal,
+          args: args || {},
+          plan: async () => {
+            const outcome = await executeAsPlan(client, name, customerName, () => tool.handler(client, args || {}));
+            return 'plan' in outcome ? outcome.plan : undefined;
+          },
+        });
+        if (!gate.proceed) {
+          requestLogger.info('Tool execution held for approval');
+          await audit.finish('held', { result: gate.response });
+          return { content: gate.response.content, isError: gate.response.isError || false };
+        }
+
         const response = await Promise.race([
-          tool.handler(client, args || {}),
+          audit.capture(() => approvalService.runApproved(gate.approvalId, principal, () =>
+            runAsCaller({
+              principal,
+              customer: customerName,
+              notifyProgress: createProgressNotifier(request.params._meta?.progressToken, extra.sendNotification),
+            }, execute)
+          )),
           timeoutPromise,
         ]);
+        await audit.finish('success', { result: response });
         
         // Log execution time
         const duration = Date.now() - startTime;
@@ -720,6 +794,7 @@ export class AkamaiMCPServer {
           duration,
           success: false 
         }, 'Tool execution failed');
+        await audit?.finish('error', { error });
         
         // Re-throw MCP errors
         if (error instanceof McpError) {
@@ -49,6 +49,98 @@ export interface EdgeRcSection {
   account_switch_key?: string; // Critical for multi-customer service providers
 }
 
+/**
+ * New credentials for a section after an API client credential rotation
+ */
+export interface EdgeRcCredentialUpdate {
+  client_token: string;
+  client_secret: string;
+  access_token?: string;
+}
+
+/**
+ * Rewrite the credentials of one .edgerc section, keeping comments, key
+ * order and all other sections as they are.
+ *
+ * With keepPreviousUntil, the section's old content is kept as a
+ * `[<section>-previous]` section (replacing an older one) so the old
+ * credentials stay usable during the rotation grace period.
+ */
+export function rewriteEdgercSection(
+  content: string,
+  sectionName: string,
+  update: EdgeRcCredentialUpdate,
+  keepPreviousUntil?: Date,
+): string {
+  const previousName = `${sectionName}-previous`;
+  const lines = content.split('\n');
+
+  // Header index and end of a section's body, leaving out the blank lines
+  // that separate it from the next section
+  const findSection = (name: string): [number, number] | undefined => {
+    const start = lines.findIndex(line => line.trim() === `[${name}]`);
+    if (start < 0) {
+      return undefined;
+    }
+    let end = start + 1;
+    while (end < lines.length && !/^\[.+\]$/.test(lines[end]!.trim())) {
+      end++;
+    }
+    while (end > start + 1 && !lines[end - 1]!.trim()) {
+      end--;
+    }
+    return [start, end];
+  };
+
+  // Drop the credentials kept by an earlier rotation
+  const previous = keepPreviousUntil && findSection(previousName);
+  if (previous) {
+    const [start, end] = previous;
+    const from = start > 0 && !lines[start - 1]!.trim() ? start - 1 : start;
+    lines.splice(from, end - from);
+  }
+
+  const bounds = findSection(sectionName);
+  if (!bounds) {
+    throw new Error(`Section '${sectionName}' not found in .edgerc file`);
+  }
+  const [start, end] = bounds;
+
+  const body = lines.slice(start + 1, end);
+  const replacements: Record<string, string | undefined> = { ...update };
+  const written = new Set<string>();
+  const newBody = body.map(line => {
+    const key = line.match(/^\s*([\w-]+)\s*=/)?.[1];
+    const value = key ? replacements[key] : undefined;
+    if (key && value !== undefined) {
+      written.add(key);
+      return `${key} = ${value}`;
+    }
+    return line;
+  });
+  for (const [key, value] of Object.entries(replacements)) {
+    if (value !== undefined && !written.has(key)) {
+      newBody.push(`${key} = ${value}`);
+    }
+  }
+
+  const previousSection = keepPreviousUntil
+    ? [
+      '',
+      `[${previousName}]`,
+      `# Replaced by a credential rotation on ${new Date().toISOString()}; valid until ${keepPreviousUntil.toISOString()}`,
+      ...body,
+    ]
+    : [];
+
+  return [
+    ...lines.slice(0, start + 1),
+    ...newBody,
+    ...previousSection,
+    ...lines.slice(end),
+  ].join('\n');
+}
+
 /**
  * MULTI-CUSTOMER CONFIGURATION MANAGER IMPLEMENTATION
  * 
@@ -204,6 +296,30 @@ export class CustomerConfigManager {
   getCustomers(): string[] {
     return this.listSections();
   }
+
+  getEdgercPath(): string {
+    return this.edgercPath;
+  }
+
+  /**
+   * Write rotated credentials into a section and reload the file
+   * The file is replaced atomically and keeps its permissions.
+   */
+  updateSectionCredentials(
+    sectionName: string,
+    update: EdgeRcCredentialUpdate,
+    options: { keepPreviousUntil?: Date } = {},
+  ): void {
+    const content = fs.readFileSync(this.edgercPath, 'utf-8');
+    const updated = rewriteEdgercSection(content, sectionName, update, options.keepPreviousUntil);
+
+    const tmpPath = `${this.edgercPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, updated, { mode: fs.statSync(this.edgercPath).mode & 0o777 });
+    fs.renameSync(tmpPath, this.edgercPath);
+
+    this.sections.clear();
+    this.loadConfig();
+  }
 }
 
 export function getCustomerConfig(customer = 'default'): EdgeRcSection {
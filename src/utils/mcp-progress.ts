@@ -7,6 +7,7 @@
 
 import { randomBytes } from 'crypto';
 import { EventEmitter } from 'events';
+import type { ProgressNotification } from '@modelcontextprotocol/sdk/types.js';
 
 export interface ProgressUpdate {
   token: string;
@@ -243,4 +244,47 @@ export function createActivationProgress(
       updateInterval: 30 // Update every 30 seconds
     }
   );
-}
\ No newline at end of file
+}
+/**
+ * Reports progress of the current tool call to the MCP client
+ */
+export type ProgressNotifier = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Build a notifier that sends notifications/progress for a request, or
+ * undefined when the client did not ask for progress (no progressToken)
+ */
+export function createProgressNotifier(
+  progressToken: string | number | undefined,
+  sendNotification: (notification: ProgressNotification) => Promise<void>
+): ProgressNotifier | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return (progress, total, message) => {
+    sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message && { message }),
+      },
+    }).catch(() => {
+      // Progress is best effort; the client may already have gone away
+    });
+  };
+}
+
+/**
+ * Forward a progress token's updates to the MCP client
+ *
+ * @returns Unsubscribe function
+ */
+export function forwardProgress(token: ProgressToken, notify: ProgressNotifier | undefined): () => void {
+  if (!notify) {
+    return () => undefined;
+  }
+  return token.onProgress(update => notify(update.progress, 100, update.message));
+}
@@ -137,6 +137,7 @@ export class AkamaiMCPServer {
           properties: this.extractZodProperties(tool.schema),
           required: this.extractZodRequired(tool.schema),
         } : undefined,
+        annotations: tool.annotations,
       }));
 
       logger.info(`Returning ${tools.length} tools to client`);